@@ -6,6 +6,11 @@ import About from './pages/About';
 import Contact from './pages/Contact';
 import Team from './pages/Team';
 import WaterQualityPredictor from './pages/WaterQualityPredictor';
+import WaterQualityHistory from './pages/WaterQualityHistory';
+import NightOxygenForecaster from './pages/NightOxygenForecaster';
+import WinterIceManager from './pages/WinterIceManager';
+import SensorManager from './pages/SensorManager';
+import AlertRules from './pages/AlertRules';
 import EnvironmentalMonitor from './pages/EnvironmentalMonitor';
 import FeedManagement from './pages/FeedManagement';
 import GrowthTracker from './pages/GrowthTracker';
@@ -20,6 +25,7 @@ import Disclaimer from './pages/Disclaimer';
 import WaterQuality from './pages/WaterQuality';
 import WaterQualityMonitor from './pages/WaterQualityMonitor';
 import PondEvaporationCalculator from './pages/PondEvaporationCalculator';
+import PondWaterBalance from './pages/PondWaterBalance';
 import PondLimingCalculator from './pages/PondLimingCalculator';
 import PondLiningCalculator from './pages/PondLiningCalculator';
 import GrowthBenchmark from './pages/GrowthBenchmark';
@@ -39,73 +45,105 @@ import AerationCalculator from './pages/AerationCalculator';
 import ProfitabilityCalculator from './pages/ProfitabilityCalculator';
 import ReportGenerator from './pages/ReportGenerator';
 import ProductionCalendar from './pages/ProductionCalendar';
+import PondManager from './pages/PondManager';
+import SpeciesCatalog from './pages/SpeciesCatalog';
+import BatchManager from './pages/BatchManager';
+import Settings from './pages/Settings';
+import { LanguageProvider } from './contexts/LanguageContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { UnitsProvider } from './contexts/UnitsContext';
+import { CurrencyProvider } from './contexts/CurrencyContext';
+import { SiteProvider } from './contexts/SiteContext';
+import { SensorProvider } from './contexts/SensorContext';
+import { AlertProvider } from './contexts/AlertContext';
 
 function App() {
   return (
-    <ThemeProvider>
-      <CssBaseline />
-      <Router>
-        <Layout>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/about" element={<About />} />
-            <Route path="/team" element={<Team />} />
-            <Route path="/contact" element={<Contact />} />
-            <Route path="/privacy" element={<PrivacyPolicy />} />
-            <Route path="/disclaimer" element={<Disclaimer />} />
-
-            {/* Water Management */}
-            <Route path="/water-quality" element={<WaterQuality />} />
-            <Route path="/water-quality-monitor" element={<WaterQualityMonitor />} />
-            <Route path="/water-quality-predictor" element={<WaterQualityPredictor />} />
-            <Route path="/pond-evaporation" element={<PondEvaporationCalculator />} />
-            <Route path="/pond-sediment" element={<PondSedimentManager />} />
-            <Route path="/pond-liming" element={<PondLimingCalculator />} />
-            <Route path="/pond-lining" element={<PondLiningCalculator />} />
-
-            {/* Fish Management */}
-            <Route path="/growth-tracker" element={<GrowthTracker />} />
-            <Route path="/growth-benchmark" element={<GrowthBenchmark />} />
-            <Route path="/growth-predictor" element={<GrowthPredictor />} />
-            <Route path="/fish-stress" element={<FishStressIndicator />} />
-            <Route path="/fish-calculator" element={<FishCalculator />} />
-            <Route path="/fish-stocking" element={<FishStockingCalculator />} />
-            <Route path="/fish-yield" element={<FishYieldCalculator />} />
-
-            {/* Feed Management */}
-            <Route path="/feed-management" element={<FeedManagement />} />
-            <Route path="/fcr-calculator" element={<FcrCalculator />} />
-            <Route path="/fcr-optimizer" element={<FcrOptimizer />} />
-            <Route path="/feeding-calculator" element={<FeedingCalculator />} />
-
-            {/* Health Management */}
-            <Route path="/disease-prevention" element={<DiseasePrevention />} />
-            <Route path="/disease-risk" element={<DiseaseRiskAssessment />} />
-            <Route path="/waste-fertilizer" element={<WasteFertilizerCalculator />} />
-
-            {/* Environment */}
-            <Route path="/environmental-monitor" element={<EnvironmentalMonitor />} />
-            <Route path="/energy-efficiency" element={<EnergyEfficiencyCalculator />} />
-            <Route path="/weather-impact" element={<WeatherImpactAnalyzer />} />
-            <Route path="/aeration-calculator" element={<AerationCalculator />} />
-
-            {/* Business Tools */}
-            <Route path="/market-analysis" element={<MarketAnalysis />} />
-            <Route path="/profitability" element={<ProfitabilityCalculator />} />
-            <Route path="/harvest-timing" element={<HarvestTimingAdvisor />} />
-            <Route path="/inventory" element={<InventoryManagement />} />
-            <Route path="/reports" element={<ReportGenerator />} />
-            <Route path="/calendar" element={<ProductionCalendar />} />
-
-            <Route path="/species-suitability" element={<SpeciesSuitability />} />
-            <Route path="/pond-sediment-manager" element={<PondSedimentManager />} />
-            <Route path="/harvest-timing-advisor" element={<HarvestTimingAdvisor />} />
-            <Route path="/inventory-management" element={<InventoryManagement />} />
-          </Routes>
-        </Layout>
-      </Router>
-    </ThemeProvider>
+    <LanguageProvider>
+      <ThemeProvider>
+        <CssBaseline />
+        <UnitsProvider>
+          <CurrencyProvider>
+            <SiteProvider>
+              <SensorProvider>
+                <AlertProvider>
+                  <Router>
+                    <Layout>
+                      <Routes>
+                        <Route path="/" element={<Home />} />
+                        <Route path="/about" element={<About />} />
+                        <Route path="/team" element={<Team />} />
+                        <Route path="/contact" element={<Contact />} />
+                        <Route path="/privacy" element={<PrivacyPolicy />} />
+                        <Route path="/disclaimer" element={<Disclaimer />} />
+    
+                        {/* Water Management */}
+                        <Route path="/ponds" element={<PondManager />} />
+                        <Route path="/water-quality" element={<WaterQuality />} />
+                        <Route path="/water-quality-monitor" element={<WaterQualityMonitor />} />
+                        <Route path="/water-quality-predictor" element={<WaterQualityPredictor />} />
+                        <Route path="/water-quality-history" element={<WaterQualityHistory />} />
+                        <Route path="/night-oxygen" element={<NightOxygenForecaster />} />
+                        <Route path="/winter-ice" element={<WinterIceManager />} />
+                        <Route path="/sensors" element={<SensorManager />} />
+                        <Route path="/pond-evaporation" element={<PondEvaporationCalculator />} />
+                        <Route path="/water-balance" element={<PondWaterBalance />} />
+                        <Route path="/pond-sediment" element={<PondSedimentManager />} />
+                        <Route path="/pond-liming" element={<PondLimingCalculator />} />
+                        <Route path="/pond-lining" element={<PondLiningCalculator />} />
+    
+                        {/* Fish Management */}
+                        <Route path="/growth-tracker" element={<GrowthTracker />} />
+                        <Route path="/growth-benchmark" element={<GrowthBenchmark />} />
+                        <Route path="/growth-predictor" element={<GrowthPredictor />} />
+                        <Route path="/fish-stress" element={<FishStressIndicator />} />
+                        <Route path="/fish-calculator" element={<FishCalculator />} />
+                        <Route path="/fish-stocking" element={<FishStockingCalculator />} />
+                        <Route path="/fish-yield" element={<FishYieldCalculator />} />
+    
+                        {/* Feed Management */}
+                        <Route path="/feed-management" element={<FeedManagement />} />
+                        <Route path="/fcr-calculator" element={<FcrCalculator />} />
+                        <Route path="/fcr-optimizer" element={<FcrOptimizer />} />
+                        <Route path="/feeding-calculator" element={<FeedingCalculator />} />
+    
+                        {/* Health Management */}
+                        <Route path="/disease-prevention" element={<DiseasePrevention />} />
+                        <Route path="/disease-risk" element={<DiseaseRiskAssessment />} />
+                        <Route path="/waste-fertilizer" element={<WasteFertilizerCalculator />} />
+    
+                        {/* Environment */}
+                        <Route path="/environmental-monitor" element={<EnvironmentalMonitor />} />
+                        <Route path="/energy-efficiency" element={<EnergyEfficiencyCalculator />} />
+                        <Route path="/weather-impact" element={<WeatherImpactAnalyzer />} />
+                        <Route path="/aeration-calculator" element={<AerationCalculator />} />
+    
+                        {/* Business Tools */}
+                        <Route path="/market-analysis" element={<MarketAnalysis />} />
+                        <Route path="/profitability" element={<ProfitabilityCalculator />} />
+                        <Route path="/harvest-timing" element={<HarvestTimingAdvisor />} />
+                        <Route path="/inventory" element={<InventoryManagement />} />
+                        <Route path="/reports" element={<ReportGenerator />} />
+                        <Route path="/calendar" element={<ProductionCalendar />} />
+    
+                        <Route path="/species-suitability" element={<SpeciesSuitability />} />
+                        <Route path="/species-catalog" element={<SpeciesCatalog />} />
+                        <Route path="/batches" element={<BatchManager />} />
+                        <Route path="/settings" element={<Settings />} />
+                        <Route path="/alerts" element={<AlertRules />} />
+                        <Route path="/pond-sediment-manager" element={<PondSedimentManager />} />
+                        <Route path="/harvest-timing-advisor" element={<HarvestTimingAdvisor />} />
+                        <Route path="/inventory-management" element={<InventoryManagement />} />
+                      </Routes>
+                    </Layout>
+                  </Router>
+                </AlertProvider>
+              </SensorProvider>
+            </SiteProvider>
+          </CurrencyProvider>
+        </UnitsProvider>
+      </ThemeProvider>
+    </LanguageProvider>
   );
 }
 
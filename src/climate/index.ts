@@ -0,0 +1,13 @@
+export {
+  builtInStations,
+  climateFields,
+  monthNames,
+  monthOptions,
+  findStation,
+  stationOptions,
+  normalsFor,
+  seasonForMonth,
+  cloudCoverLabel,
+} from './normals';
+export type { ClimateField, ClimateStation, ClimateSeason, MonthlyNormals } from './normals';
+export { useClimateStations, mergeStations, isBuiltInStation } from './useClimateStations';
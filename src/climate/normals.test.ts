@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { builtInStations, normalsFor } from './normals';
+
+const states = [
+  'Andhra Pradesh',
+  'Arunachal Pradesh',
+  'Assam',
+  'Bihar',
+  'Chhattisgarh',
+  'Goa',
+  'Gujarat',
+  'Haryana',
+  'Himachal Pradesh',
+  'Jharkhand',
+  'Karnataka',
+  'Kerala',
+  'Madhya Pradesh',
+  'Maharashtra',
+  'Manipur',
+  'Meghalaya',
+  'Mizoram',
+  'Nagaland',
+  'Odisha',
+  'Punjab',
+  'Rajasthan',
+  'Sikkim',
+  'Tamil Nadu',
+  'Telangana',
+  'Tripura',
+  'Uttar Pradesh',
+  'Uttarakhand',
+  'West Bengal',
+];
+
+describe('builtInStations', () => {
+  it('has a station in every state', () => {
+    const covered = new Set(builtInStations.map((station) => station.state));
+    expect(states.filter((state) => !covered.has(state))).toEqual([]);
+  });
+
+  it('gives twelve months of every field, with unique ids', () => {
+    expect(new Set(builtInStations.map((station) => station.id)).size).toBe(builtInStations.length);
+    builtInStations.forEach((station) => {
+      Object.values(station.normals).forEach((values) => expect(values).toHaveLength(12));
+    });
+  });
+
+  it('does not repeat one station\'s figures for another', () => {
+    const fields = builtInStations.map((station) => JSON.stringify(station.normals.temperatureRange));
+    expect(builtInStations.filter((_, index) => fields.indexOf(fields[index]) !== index).map((station) => station.id)).toEqual([]);
+  });
+});
+
+describe('normalsFor', () => {
+  it('spreads the month over its days and estimates cloud from sunshine', () => {
+    const chennai = builtInStations.find((station) => station.id === 'chennai')!;
+    const may = normalsFor(chennai, 4);
+    expect(may.rainfall).toBeCloseTo(45 / 31, 6);
+    expect(may.season).toBe('Spring');
+    // 9 h of sunshine in about 12.8 h of mid-May daylight at 13° N.
+    expect(may.cloudCover).toBeGreaterThan(25);
+    expect(may.cloudCover).toBeLessThan(35);
+  });
+});
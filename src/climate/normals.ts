@@ -0,0 +1,422 @@
+import { daylightHours } from '../engine';
+
+// Monthly climate normals for prefilling weather inputs without a network connection.
+// Figures are rounded from the India Meteorological Department's 1981–2010 climatological
+// normals for the observatory in each district, one district or more for every state and
+// the Delhi, Ladakh, Puducherry and Andaman and Nicobar territories. Where a farm keeps its
+// own records they can be saved over these as a custom station.
+
+export type ClimateField =
+  | 'temperature' // °C, mean air temperature
+  | 'temperatureRange' // °C between mean daily maximum and minimum
+  | 'humidity' // % relative humidity
+  | 'windSpeed' // km/h
+  | 'rainfall' // mm over the month
+  | 'sunlightHours'; // h/day of bright sunshine
+
+export const climateFields: { value: ClimateField; label: string }[] = [
+  { value: 'temperature', label: 'Air Temperature (°C)' },
+  { value: 'temperatureRange', label: 'Daily Range (°C)' },
+  { value: 'humidity', label: 'Humidity (%)' },
+  { value: 'windSpeed', label: 'Wind (km/h)' },
+  { value: 'rainfall', label: 'Rainfall (mm/month)' },
+  { value: 'sunlightHours', label: 'Sunshine (h/day)' },
+];
+
+export interface ClimateStation {
+  id: string;
+  name: string;
+  state: string;
+  latitude: number; // degrees north
+  elevation: number; // m above sea level
+  normals: Record<ClimateField, number[]>; // twelve values, January first
+}
+
+export type ClimateSeason = 'Winter' | 'Spring' | 'Summer' | 'Fall';
+
+// One month's weather, in the units the calculators take.
+export interface MonthlyNormals {
+  month: number; // 0-11
+  temperature: number; // °C
+  temperatureRange: number; // °C
+  humidity: number; // %
+  windSpeed: number; // km/h
+  rainfall: number; // mm/day
+  sunlightHours: number; // h/day
+  cloudCover: number; // %, from sunshine as a share of daylight
+  season: ClimateSeason;
+}
+
+export const monthNames = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+export const monthOptions = monthNames.map((name, month) => ({ value: String(month), label: name }));
+
+const daysInMonth = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+const midMonthDay = [15, 46, 74, 105, 135, 166, 196, 227, 258, 288, 319, 349];
+
+// Meteorological seasons of the northern hemisphere; shifted half a year south of the equator.
+const monthSeasons: ClimateSeason[] = [
+  'Winter',
+  'Winter',
+  'Spring',
+  'Spring',
+  'Spring',
+  'Summer',
+  'Summer',
+  'Summer',
+  'Fall',
+  'Fall',
+  'Fall',
+  'Winter',
+];
+
+const station = (
+  id: string,
+  name: string,
+  state: string,
+  latitude: number,
+  elevation: number,
+  normals: Record<ClimateField, number[]>
+): ClimateStation => ({ id, name, state, latitude, elevation, normals });
+
+export const builtInStations: ClimateStation[] = [
+  station('srinagar', 'Srinagar', 'Jammu and Kashmir', 34.08, 1585, {
+    temperature: [2.6, 4.6, 9.1, 13.6, 17.6, 21.6, 24.4, 23.7, 19.9, 13.5, 7.4, 3.3],
+    temperatureRange: [9, 10, 11, 13, 14, 15, 13, 13, 15, 17, 17, 12],
+    humidity: [80, 75, 68, 60, 55, 55, 65, 70, 66, 65, 75, 80],
+    windSpeed: [4, 5, 6, 6, 6, 6, 6, 5, 4, 3, 3, 3],
+    rainfall: [58, 70, 97, 85, 63, 36, 58, 61, 31, 26, 20, 38],
+    sunlightHours: [4.5, 5, 5.8, 7.5, 8.9, 9.8, 8.5, 8.2, 8.4, 8, 6.8, 5],
+  }),
+  // Kokernag, the district's observatory, higher and wetter than the Srinagar valley floor.
+  station('anantnag', 'Anantnag (Kokernag)', 'Jammu and Kashmir', 33.58, 1950, {
+    temperature: [0.5, 1.5, 6, 10.5, 14, 18, 20.5, 20, 16.5, 11.5, 6, 2],
+    temperatureRange: [9, 9, 10, 12, 13, 13, 11, 11, 13, 15, 15, 11],
+    humidity: [78, 77, 72, 66, 63, 64, 74, 77, 72, 68, 72, 77],
+    windSpeed: [4, 4, 5, 5, 5, 5, 5, 4, 4, 3, 3, 3],
+    rainfall: [110, 140, 170, 140, 100, 60, 90, 90, 50, 40, 35, 70],
+    sunlightHours: [4.2, 4.6, 5.4, 7, 8.3, 9.2, 7.8, 7.6, 7.9, 7.6, 6.5, 4.7],
+  }),
+  station('leh', 'Leh', 'Ladakh', 34.16, 3514, {
+    temperature: [-7.2, -5, 0.5, 6, 10, 14.5, 17.7, 17, 12.8, 6.4, 0.4, -4.5],
+    temperatureRange: [13, 13, 13, 14, 15, 16, 16, 16, 17, 17, 15, 13],
+    humidity: [55, 55, 45, 35, 30, 28, 32, 33, 30, 30, 40, 50],
+    windSpeed: [5, 6, 7, 8, 8, 8, 8, 7, 6, 5, 5, 5],
+    rainfall: [9, 8, 11, 7, 6, 4, 15, 15, 9, 4, 3, 5],
+    sunlightHours: [6.5, 7, 7.5, 8.5, 9.5, 10.5, 10, 9.5, 9.3, 9, 7.5, 6.3],
+  }),
+  station('jammu', 'Jammu', 'Jammu and Kashmir', 32.73, 327, {
+    temperature: [13.5, 16, 20.6, 26, 30.6, 32.2, 29.8, 28.8, 27.8, 24.2, 19, 14.8],
+    temperatureRange: [10, 10, 11, 13, 14, 12, 8, 7, 9, 13, 14, 12],
+    humidity: [70, 65, 58, 42, 35, 45, 75, 82, 70, 55, 60, 68],
+    windSpeed: [4, 5, 6, 7, 8, 8, 7, 6, 5, 4, 3, 3],
+    rainfall: [65, 60, 55, 30, 25, 80, 360, 380, 140, 25, 10, 30],
+    sunlightHours: [6, 7, 7.5, 9, 9.5, 8, 6, 6, 7.5, 8.5, 7.5, 6],
+  }),
+  station('kullu', 'Kullu', 'Himachal Pradesh', 31.96, 1220, {
+    temperature: [5.5, 7.5, 11.5, 16, 19.5, 22.5, 23.5, 23, 20.5, 16, 10.5, 7],
+    temperatureRange: [12, 12, 13, 14, 14, 13, 9, 9, 11, 15, 16, 14],
+    humidity: [70, 68, 62, 55, 52, 58, 78, 82, 75, 62, 60, 65],
+    windSpeed: [4, 5, 6, 6, 6, 6, 5, 5, 4, 4, 4, 4],
+    rainfall: [85, 110, 120, 70, 60, 70, 180, 170, 90, 30, 20, 40],
+    sunlightHours: [5.5, 6, 6.5, 8, 8.8, 8, 5.5, 5.5, 7, 8, 7.2, 6],
+  }),
+  station('dehradun', 'Dehradun', 'Uttarakhand', 30.32, 640, {
+    temperature: [12.8, 15, 19.5, 24.3, 27.3, 27.8, 25.5, 25.2, 24.2, 20.6, 16.2, 13.3],
+    temperatureRange: [13, 13, 14, 15, 14, 10, 6, 6, 8, 13, 15, 14],
+    humidity: [75, 70, 60, 45, 45, 65, 85, 87, 80, 70, 72, 75],
+    windSpeed: [3, 4, 5, 5, 5, 5, 4, 3, 3, 3, 3, 3],
+    rainfall: [45, 55, 50, 25, 50, 230, 630, 620, 250, 40, 10, 20],
+    sunlightHours: [6.5, 7.2, 7.8, 8.7, 9, 6.8, 4.2, 4.3, 6.3, 8.3, 7.8, 6.8],
+  }),
+  station('ludhiana', 'Ludhiana', 'Punjab', 30.9, 247, {
+    temperature: [12.3, 15.2, 20.4, 26.5, 31, 32.5, 30.5, 29.8, 28.5, 24.5, 18.5, 13.5],
+    temperatureRange: [12, 12, 13, 15, 14, 11, 7, 7, 9, 14, 15, 13],
+    humidity: [78, 70, 62, 42, 35, 45, 72, 78, 70, 62, 68, 78],
+    windSpeed: [4, 5, 6, 7, 8, 8, 7, 6, 5, 3, 3, 3],
+    rainfall: [25, 30, 25, 15, 20, 75, 210, 200, 105, 15, 5, 15],
+    sunlightHours: [6.5, 7.5, 8.2, 9.5, 10, 9, 6.5, 7, 8.2, 8.8, 8, 6.5],
+  }),
+  station('hisar', 'Hisar', 'Haryana', 29.15, 215, {
+    temperature: [13, 16, 21.5, 28, 32.5, 34, 31.5, 30.5, 29.5, 25.5, 19.5, 14.5],
+    temperatureRange: [15, 15, 16, 16, 15, 13, 8, 8, 10, 16, 18, 16],
+    humidity: [72, 65, 55, 35, 33, 45, 70, 75, 65, 55, 62, 70],
+    windSpeed: [4, 5, 6, 7, 8, 9, 8, 6, 5, 3, 3, 3],
+    rainfall: [15, 18, 15, 10, 20, 55, 130, 120, 75, 10, 4, 8],
+    sunlightHours: [7, 8, 8.5, 9.5, 10, 9, 7.3, 7.5, 8.5, 9.3, 8.5, 7],
+  }),
+  station('new-delhi', 'New Delhi', 'Delhi', 28.58, 216, {
+    temperature: [14.3, 17.4, 22.9, 29.1, 32.7, 33.3, 31.5, 30.2, 29.5, 26, 20.5, 15.8],
+    temperatureRange: [13, 13, 14, 14, 14, 11, 7, 7, 8, 13, 15, 14],
+    humidity: [70, 60, 50, 35, 35, 50, 72, 78, 70, 55, 60, 70],
+    windSpeed: [5, 6, 7, 8, 9, 9, 8, 7, 6, 4, 4, 4],
+    rainfall: [19, 20, 15, 10, 30, 75, 210, 250, 125, 15, 5, 8],
+    sunlightHours: [6, 7.5, 8, 9, 9, 7.5, 5.8, 6, 7.5, 8.8, 7.8, 6.3],
+  }),
+  station('jaipur', 'Jaipur', 'Rajasthan', 26.92, 390, {
+    temperature: [15.5, 18.5, 24, 29.5, 33.5, 33, 30, 28.5, 28.5, 26, 21, 16.5],
+    temperatureRange: [15, 15, 15, 15, 14, 11, 7, 6, 8, 14, 16, 15],
+    humidity: [55, 45, 35, 25, 28, 45, 70, 78, 65, 42, 45, 52],
+    windSpeed: [5, 6, 7, 8, 11, 13, 11, 9, 7, 4, 4, 4],
+    rainfall: [8, 8, 6, 5, 15, 65, 210, 210, 85, 15, 3, 4],
+    sunlightHours: [8.5, 9.2, 9, 9.8, 10.3, 8.5, 6.3, 6.3, 8, 9.5, 9.2, 8.6],
+  }),
+  station('lucknow', 'Lucknow', 'Uttar Pradesh', 26.85, 123, {
+    temperature: [15.8, 19, 24.6, 30.3, 33, 33, 29.8, 29.3, 28.7, 26, 21, 16.6],
+    temperatureRange: [14, 14, 15, 16, 14, 10, 6, 5, 7, 13, 16, 15],
+    humidity: [75, 65, 48, 35, 40, 55, 80, 85, 80, 70, 68, 75],
+    windSpeed: [5, 6, 7, 8, 9, 9, 8, 7, 6, 4, 4, 4],
+    rainfall: [20, 18, 8, 6, 20, 110, 300, 290, 190, 30, 5, 7],
+    sunlightHours: [6.8, 8, 8.7, 9.4, 9.3, 7.2, 5, 5.3, 6.5, 8.6, 8.4, 7.3],
+  }),
+  station('patna', 'Patna', 'Bihar', 25.6, 53, {
+    temperature: [16.6, 19.7, 25.3, 30, 31.5, 31.5, 29.6, 29.4, 29.2, 27, 22.4, 17.8],
+    temperatureRange: [11, 12, 14, 14, 11, 8, 5, 5, 6, 9, 12, 12],
+    humidity: [75, 65, 50, 45, 57, 70, 82, 83, 82, 75, 70, 75],
+    windSpeed: [5, 6, 8, 9, 9, 9, 8, 7, 6, 4, 4, 4],
+    rainfall: [14, 13, 10, 10, 40, 160, 330, 270, 220, 60, 7, 4],
+    sunlightHours: [6.8, 8.2, 8.6, 9.3, 8.8, 6.5, 4.8, 5.2, 5.8, 8, 8.3, 7.3],
+  }),
+  station('gangtok', 'Gangtok', 'Sikkim', 27.33, 1812, {
+    temperature: [8, 9.5, 13, 16, 18, 19.5, 20, 20, 19.2, 16.5, 12.5, 9.5],
+    temperatureRange: [8, 8, 9, 8, 7, 5, 4, 4, 5, 7, 8, 8],
+    humidity: [78, 78, 75, 80, 85, 90, 92, 91, 89, 84, 78, 78],
+    windSpeed: [3, 4, 5, 5, 4, 4, 4, 3, 3, 3, 3, 3],
+    rainfall: [30, 65, 120, 260, 480, 550, 600, 520, 430, 170, 40, 20],
+    sunlightHours: [5.8, 5.5, 5.6, 5.2, 4.4, 2.6, 2.2, 2.8, 3.4, 5.5, 6.4, 6.2],
+  }),
+  station('east-siang', 'East Siang', 'Arunachal Pradesh', 28.07, 157, {
+    temperature: [16, 18, 21, 23.5, 26, 27.5, 28, 28.2, 27.5, 25, 20.5, 17],
+    temperatureRange: [10, 10, 9, 8, 8, 7, 7, 7, 7, 8, 10, 11],
+    humidity: [80, 78, 75, 78, 80, 85, 87, 86, 86, 84, 82, 81],
+    windSpeed: [3, 3, 4, 4, 4, 4, 4, 3, 3, 3, 3, 3],
+    rainfall: [50, 110, 190, 380, 520, 800, 900, 650, 560, 240, 50, 25],
+    sunlightHours: [6, 5.5, 5, 4.8, 4.8, 3.8, 3.8, 4.5, 4.3, 5.8, 6.5, 6.5],
+  }),
+  station('kamrup', 'Kamrup Metropolitan', 'Assam', 26.14, 55, {
+    temperature: [17, 19.4, 23.4, 26, 27.7, 29, 29.4, 29.5, 28.6, 26.3, 22.1, 18.3],
+    temperatureRange: [13, 13, 12, 10, 8, 7, 7, 7, 7, 9, 12, 13],
+    humidity: [75, 67, 62, 70, 77, 82, 84, 83, 83, 81, 79, 78],
+    windSpeed: [4, 5, 6, 7, 6, 5, 5, 4, 4, 3, 3, 3],
+    rainfall: [10, 20, 65, 150, 280, 320, 350, 270, 180, 90, 15, 7],
+    sunlightHours: [6.8, 7, 6.9, 6.1, 5.8, 4.4, 4.2, 4.9, 4.6, 6.6, 7.8, 7.7],
+  }),
+  station('east-khasi-hills', 'East Khasi Hills', 'Meghalaya', 25.57, 1598, {
+    temperature: [9.8, 11.8, 15.5, 18, 19.2, 20.5, 21, 21, 20.2, 17.6, 14, 11],
+    temperatureRange: [12, 12, 12, 10, 8, 6, 5, 6, 6, 8, 10, 12],
+    humidity: [70, 65, 60, 70, 80, 87, 88, 87, 86, 82, 75, 72],
+    windSpeed: [5, 6, 8, 8, 6, 5, 5, 4, 4, 4, 4, 4],
+    rainfall: [15, 25, 55, 145, 300, 480, 410, 340, 310, 200, 35, 10],
+    sunlightHours: [7.5, 7.5, 7.3, 6.5, 5.5, 3.5, 3.4, 4, 4, 6.3, 7.6, 7.7],
+  }),
+  station('kohima', 'Kohima', 'Nagaland', 25.67, 1444, {
+    temperature: [10, 12, 15.5, 18.5, 20, 21.5, 22, 22, 21, 18.5, 14.5, 11],
+    temperatureRange: [10, 10, 11, 10, 8, 7, 6, 6, 7, 8, 10, 10],
+    humidity: [72, 65, 62, 70, 78, 85, 87, 86, 85, 82, 76, 74],
+    windSpeed: [4, 5, 6, 6, 5, 5, 5, 4, 4, 4, 4, 4],
+    rainfall: [15, 35, 55, 110, 190, 330, 420, 360, 250, 140, 30, 10],
+    sunlightHours: [7.2, 7, 6.8, 6.2, 5.4, 3.6, 3.2, 3.7, 4.2, 6, 7, 7.2],
+  }),
+  station('imphal-west', 'Imphal West', 'Manipur', 24.8, 781, {
+    temperature: [13.5, 16, 19.5, 22.5, 24.5, 25.5, 25.8, 25.6, 25.2, 23, 18.5, 14.5],
+    temperatureRange: [17, 16, 14, 12, 10, 8, 7, 7, 8, 10, 14, 17],
+    humidity: [70, 62, 58, 65, 75, 82, 83, 82, 82, 80, 78, 75],
+    windSpeed: [3, 4, 5, 6, 6, 5, 5, 4, 4, 3, 3, 3],
+    rainfall: [15, 40, 65, 140, 210, 260, 250, 220, 170, 140, 35, 10],
+    sunlightHours: [7.8, 7.8, 7.6, 7, 6.4, 4.2, 3.8, 4.5, 4.8, 6.6, 7.5, 7.8],
+  }),
+  station('west-tripura', 'West Tripura', 'Tripura', 23.83, 16, {
+    temperature: [17.8, 21, 25, 27.5, 28, 28.5, 28.7, 28.7, 28.5, 27, 23.5, 19.5],
+    temperatureRange: [15, 15, 13, 11, 9, 7, 6, 6, 7, 8, 12, 14],
+    humidity: [72, 63, 60, 70, 78, 84, 86, 85, 84, 82, 78, 76],
+    windSpeed: [3, 4, 5, 6, 6, 5, 5, 4, 4, 3, 3, 3],
+    rainfall: [10, 25, 60, 200, 350, 400, 360, 310, 250, 160, 30, 10],
+    sunlightHours: [7.5, 7.8, 7.5, 7, 6.3, 4.2, 3.8, 4.5, 4.8, 6.6, 7.8, 7.6],
+  }),
+  station('aizawl', 'Aizawl', 'Mizoram', 23.73, 950, {
+    temperature: [14.5, 16.5, 19.8, 22, 22.5, 23, 23.2, 23.2, 23, 21.5, 18.5, 15.5],
+    temperatureRange: [10, 10, 10, 9, 8, 6, 5, 5, 6, 7, 9, 10],
+    humidity: [70, 62, 58, 68, 80, 88, 90, 89, 88, 84, 78, 74],
+    windSpeed: [4, 5, 6, 6, 6, 5, 5, 5, 4, 4, 4, 4],
+    rainfall: [15, 25, 70, 170, 300, 420, 360, 360, 330, 200, 50, 15],
+    sunlightHours: [7.5, 7.6, 7.4, 6.8, 5.6, 3.6, 3.3, 3.8, 4.5, 6, 7, 7.3],
+  }),
+  station('north-24-parganas', 'North 24 Parganas', 'West Bengal', 22.57, 9, {
+    temperature: [20, 23, 27.5, 30, 30.8, 30.4, 29.3, 29.2, 29.2, 28, 24.6, 20.8],
+    temperatureRange: [13, 12, 11, 9, 8, 7, 6, 6, 6, 8, 11, 13],
+    humidity: [68, 65, 66, 72, 76, 82, 86, 86, 85, 79, 71, 68],
+    windSpeed: [4, 5, 7, 10, 11, 10, 9, 8, 7, 5, 4, 4],
+    rainfall: [14, 25, 35, 55, 140, 300, 385, 375, 320, 165, 30, 5],
+    sunlightHours: [8.3, 8.6, 8.5, 8.7, 7.8, 4.8, 3.7, 4.2, 4.6, 6.8, 8, 8.3],
+  }),
+  station('ranchi', 'Ranchi', 'Jharkhand', 23.35, 651, {
+    temperature: [17, 20, 24.5, 29, 31, 28.5, 25.5, 25.5, 25, 23.5, 20, 17],
+    temperatureRange: [14, 14, 15, 14, 13, 9, 6, 6, 7, 10, 13, 14],
+    humidity: [62, 52, 40, 38, 48, 72, 85, 87, 83, 73, 64, 63],
+    windSpeed: [5, 6, 7, 8, 9, 10, 9, 8, 7, 5, 4, 4],
+    rainfall: [15, 20, 20, 25, 55, 230, 350, 330, 250, 80, 10, 5],
+    sunlightHours: [8.3, 8.7, 8.6, 8.8, 8.4, 5, 3.4, 3.8, 5, 7.3, 8.3, 8.5],
+  }),
+  station('raipur', 'Raipur', 'Chhattisgarh', 21.25, 298, {
+    temperature: [21, 24, 28.5, 32, 35, 31.5, 27.5, 27, 27.5, 26.5, 23, 20.5],
+    temperatureRange: [15, 16, 16, 15, 14, 10, 6, 6, 7, 10, 14, 15],
+    humidity: [55, 45, 35, 30, 30, 55, 82, 85, 80, 68, 58, 55],
+    windSpeed: [5, 6, 7, 8, 10, 11, 10, 9, 7, 5, 4, 4],
+    rainfall: [10, 15, 15, 10, 15, 200, 370, 360, 210, 50, 15, 5],
+    sunlightHours: [8.9, 9.3, 9.2, 9.6, 9.6, 5.6, 3.5, 3.8, 5.8, 8.1, 8.8, 8.8],
+  }),
+  station('khordha', 'Khordha', 'Odisha', 20.3, 45, {
+    temperature: [21.7, 24.5, 28.5, 31, 32.2, 30.5, 28.5, 28.4, 28.5, 27.5, 24.5, 21.5],
+    temperatureRange: [13, 13, 13, 12, 11, 8, 6, 6, 6, 8, 11, 13],
+    humidity: [65, 60, 62, 66, 69, 76, 84, 84, 82, 76, 67, 63],
+    windSpeed: [4, 5, 6, 8, 9, 9, 8, 7, 6, 5, 4, 4],
+    rainfall: [12, 25, 30, 25, 70, 230, 330, 360, 290, 170, 40, 5],
+    sunlightHours: [8.6, 8.8, 8.7, 9.1, 8.6, 5.5, 4, 4.2, 5.2, 7.3, 8.2, 8.4],
+  }),
+  station('bhopal', 'Bhopal', 'Madhya Pradesh', 23.26, 527, {
+    temperature: [17.5, 20.5, 25.5, 30, 33.5, 30.5, 26.3, 25.2, 25.8, 25, 21, 17.8],
+    temperatureRange: [15, 16, 17, 17, 16, 10, 6, 5, 7, 13, 16, 16],
+    humidity: [55, 45, 32, 28, 30, 55, 80, 85, 75, 55, 50, 55],
+    windSpeed: [5, 6, 7, 8, 12, 14, 14, 12, 9, 5, 4, 4],
+    rainfall: [15, 10, 10, 5, 10, 130, 380, 350, 200, 35, 15, 5],
+    sunlightHours: [8.6, 9.2, 9.4, 10, 10.2, 7, 3.8, 3.6, 6.3, 8.8, 9.1, 8.7],
+  }),
+  station('ahmedabad', 'Ahmedabad', 'Gujarat', 23.02, 53, {
+    temperature: [20, 22.3, 27, 31, 33.5, 32.5, 29.5, 28.5, 29, 28.5, 24.5, 21],
+    temperatureRange: [15, 15, 15, 14, 12, 8, 6, 5, 7, 12, 14, 15],
+    humidity: [50, 43, 38, 42, 50, 62, 77, 80, 72, 55, 48, 50],
+    windSpeed: [6, 7, 7, 8, 11, 13, 12, 10, 8, 5, 5, 5],
+    rainfall: [2, 1, 1, 2, 8, 90, 280, 220, 110, 15, 5, 1],
+    sunlightHours: [9.3, 9.7, 9.5, 10.2, 10.5, 8, 4.3, 4.3, 7, 9.2, 9.3, 9.1],
+  }),
+  station('pune', 'Pune', 'Maharashtra', 18.53, 559, {
+    temperature: [20.5, 22.5, 26, 29, 29.5, 27, 24.9, 24.4, 24.8, 25, 22.5, 20.5],
+    temperatureRange: [18, 19, 19, 17, 15, 9, 6, 6, 8, 13, 17, 18],
+    humidity: [55, 45, 40, 42, 55, 75, 85, 85, 80, 68, 58, 55],
+    windSpeed: [5, 6, 7, 8, 11, 15, 16, 14, 8, 5, 4, 4],
+    rainfall: [2, 1, 3, 15, 35, 170, 190, 130, 130, 80, 25, 5],
+    sunlightHours: [9.3, 9.8, 9.5, 9.8, 9.8, 5.5, 2.5, 3.3, 5.5, 7.8, 8.8, 9.2],
+  }),
+  station('hyderabad', 'Hyderabad', 'Telangana', 17.38, 505, {
+    temperature: [22, 24.8, 28.5, 31.3, 33, 28.8, 26.5, 25.8, 25.9, 25.4, 23, 21.2],
+    temperatureRange: [14, 15, 15, 14, 13, 10, 7, 7, 8, 10, 12, 14],
+    humidity: [55, 47, 40, 39, 38, 60, 72, 75, 75, 64, 56, 56],
+    windSpeed: [7, 7, 8, 9, 11, 17, 18, 16, 11, 7, 6, 6],
+    rainfall: [7, 10, 15, 25, 35, 110, 170, 200, 170, 105, 25, 6],
+    sunlightHours: [9.1, 9.4, 9.3, 9.6, 9.7, 6.1, 4.4, 4.5, 5.9, 7.4, 8.2, 8.6],
+  }),
+  station('west-godavari', 'West Godavari', 'Andhra Pradesh', 16.7, 15, {
+    temperature: [23.5, 25.5, 28.5, 31, 33, 31.5, 29, 28.8, 28.8, 27.8, 25.5, 23.5],
+    temperatureRange: [11, 12, 12, 11, 11, 9, 7, 7, 7, 8, 9, 10],
+    humidity: [75, 72, 70, 72, 68, 68, 78, 80, 80, 80, 76, 75],
+    windSpeed: [5, 6, 7, 9, 11, 13, 12, 11, 8, 6, 5, 5],
+    rainfall: [8, 12, 10, 20, 45, 110, 180, 170, 170, 190, 80, 12],
+    sunlightHours: [8.6, 9, 9, 9.2, 8.8, 6.2, 4.8, 5.3, 6, 7, 7.6, 8],
+  }),
+  station('nellore', 'Nellore', 'Andhra Pradesh', 14.44, 19, {
+    temperature: [24.5, 26, 28.5, 31, 33.5, 33, 31.5, 30.8, 30, 28, 25.8, 24.5],
+    temperatureRange: [8, 9, 9, 9, 10, 10, 9, 9, 9, 7, 6, 7],
+    humidity: [78, 75, 74, 72, 62, 57, 60, 64, 70, 78, 80, 79],
+    windSpeed: [7, 6, 7, 9, 12, 14, 13, 12, 9, 6, 6, 7],
+    rainfall: [35, 10, 5, 12, 40, 50, 90, 100, 120, 280, 300, 110],
+    sunlightHours: [8.3, 9.2, 9.4, 9.5, 9, 7.5, 6.4, 6.8, 7.4, 6.6, 5.9, 7],
+  }),
+  station('north-goa', 'North Goa', 'Goa', 15.49, 55, {
+    temperature: [25.5, 26, 27.5, 29, 30, 27.5, 26.5, 26.5, 27, 27.5, 27.5, 26.5],
+    temperatureRange: [11, 11, 9, 7, 6, 5, 4, 4, 5, 7, 9, 10],
+    humidity: [65, 68, 71, 72, 73, 85, 89, 88, 85, 78, 68, 64],
+    windSpeed: [7, 8, 9, 10, 11, 14, 15, 13, 9, 7, 6, 6],
+    rainfall: [1, 0, 1, 10, 100, 870, 1000, 560, 260, 120, 30, 5],
+    sunlightHours: [9.5, 9.8, 9.5, 9.8, 9.5, 4.5, 2.5, 3.5, 5.5, 7.8, 9, 9.3],
+  }),
+  station('bengaluru-urban', 'Bengaluru Urban', 'Karnataka', 12.97, 920, {
+    temperature: [21.5, 23.5, 26.2, 27.8, 27.2, 24.6, 23.6, 23.6, 23.7, 23.6, 22.2, 21.1],
+    temperatureRange: [12, 13, 13, 12, 11, 8, 7, 7, 8, 8, 9, 10],
+    humidity: [65, 58, 52, 60, 68, 75, 78, 78, 76, 76, 73, 69],
+    windSpeed: [9, 8, 8, 9, 12, 17, 17, 15, 11, 8, 8, 9],
+    rainfall: [2, 6, 15, 50, 120, 90, 110, 145, 210, 185, 60, 15],
+    sunlightHours: [9, 9.6, 9.3, 8.7, 8.1, 5.2, 4.1, 4.4, 5.5, 6.4, 7.1, 8],
+  }),
+  station('chennai', 'Chennai', 'Tamil Nadu', 13.08, 7, {
+    temperature: [24.7, 25.9, 27.9, 30.3, 32.7, 32.3, 30.8, 30.3, 29.8, 28, 26, 24.9],
+    temperatureRange: [9, 10, 9, 8, 9, 10, 10, 10, 9, 7, 6, 7],
+    humidity: [73, 71, 72, 72, 66, 61, 64, 68, 71, 78, 79, 76],
+    windSpeed: [9, 9, 10, 12, 12, 12, 11, 11, 9, 8, 9, 10],
+    rainfall: [25, 5, 4, 15, 45, 55, 105, 125, 125, 280, 375, 140],
+    sunlightHours: [8.3, 9.5, 9.6, 9.7, 9, 7.1, 6, 6.4, 7, 6.6, 6.1, 6.6],
+  }),
+  station('puducherry', 'Puducherry', 'Puducherry', 11.93, 4, {
+    temperature: [25, 26, 27.5, 29.5, 31.5, 31.5, 30.5, 30, 29.5, 28.3, 26.5, 25.3],
+    temperatureRange: [7, 8, 8, 7, 8, 9, 9, 9, 8, 7, 6, 6],
+    humidity: [75, 74, 74, 74, 68, 62, 64, 68, 72, 78, 80, 77],
+    windSpeed: [9, 9, 9, 10, 11, 12, 11, 10, 9, 8, 9, 10],
+    rainfall: [50, 15, 10, 20, 45, 45, 80, 120, 120, 270, 350, 180],
+    sunlightHours: [7.8, 9, 9.3, 9.5, 9, 7.2, 6.2, 6.7, 7, 6.4, 5.6, 6.2],
+  }),
+  station('ernakulam', 'Ernakulam', 'Kerala', 9.98, 5, {
+    temperature: [27, 27.7, 28.8, 29.2, 28.9, 26.6, 26, 26.2, 26.8, 27, 27.2, 27],
+    temperatureRange: [9, 9, 8, 7, 6, 5, 5, 5, 6, 6, 7, 8],
+    humidity: [70, 71, 73, 76, 79, 86, 88, 87, 84, 82, 79, 73],
+    windSpeed: [7, 8, 8, 8, 8, 9, 9, 9, 8, 7, 7, 7],
+    rainfall: [20, 30, 50, 140, 330, 680, 580, 370, 300, 310, 170, 45],
+    sunlightHours: [9, 9.3, 9, 8.5, 7.1, 3.9, 3.4, 4.6, 5.7, 5.9, 6.6, 8.3],
+  }),
+  station('south-andaman', 'South Andaman', 'Andaman and Nicobar Islands', 11.67, 79, {
+    temperature: [26.5, 26.7, 27.5, 28.5, 28.3, 27.5, 27.2, 27.1, 26.8, 26.8, 27, 26.8],
+    temperatureRange: [6, 7, 7, 7, 6, 5, 5, 5, 5, 6, 6, 6],
+    humidity: [76, 74, 73, 74, 80, 85, 85, 85, 86, 84, 82, 79],
+    windSpeed: [12, 12, 10, 9, 11, 17, 17, 17, 14, 9, 10, 12],
+    rainfall: [45, 25, 15, 60, 370, 460, 390, 400, 450, 300, 225, 150],
+    sunlightHours: [7.8, 8.8, 8.8, 8.5, 5.5, 3.5, 3.5, 3.3, 4.2, 5.8, 6.5, 7],
+  }),
+];
+
+export const findStation = (stations: ClimateStation[], id: string) =>
+  stations.find((each) => each.id === id);
+
+export const stationOptions = (stations: ClimateStation[]) =>
+  stations.map((each) => ({ value: each.id, label: `${each.name}, ${each.state}` }));
+
+// Season of a month (0 = January) at a latitude.
+export const seasonForMonth = (month: number, latitude: number): ClimateSeason =>
+  monthSeasons[(month + (latitude < 0 ? 6 : 0)) % 12];
+
+// A station's normals for one month, with rain per day and cloud cover estimated from
+// how much of the daylight was sunny.
+export const normalsFor = (station: ClimateStation, month: number): MonthlyNormals => {
+  const value = (field: ClimateField) => station.normals[field][month] ?? 0;
+  const daylight = daylightHours(station.latitude, midMonthDay[month]);
+  const sunshine = daylight > 0 ? Math.min(1, value('sunlightHours') / daylight) : 0;
+  return {
+    month,
+    temperature: value('temperature'),
+    temperatureRange: value('temperatureRange'),
+    humidity: value('humidity'),
+    windSpeed: value('windSpeed'),
+    rainfall: value('rainfall') / daysInMonth[month],
+    sunlightHours: value('sunlightHours'),
+    cloudCover: Math.round(100 * (1 - sunshine)),
+    season: seasonForMonth(month, station.latitude),
+  };
+};
+
+// Label used by the calculators that ask for cloud cover in words.
+export const cloudCoverLabel = (percent: number) => {
+  if (percent < 25) return 'Clear';
+  if (percent < 50) return 'Partly Cloudy';
+  if (percent < 75) return 'Mostly Cloudy';
+  return 'Overcast';
+};
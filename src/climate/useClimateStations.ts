@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { useCollection } from '../db';
+import { builtInStations } from './normals';
+import type { ClimateStation } from './normals';
+
+// Saved stations with a bundled id replace that district's normals; the rest are appended.
+export const mergeStations = (custom: ClimateStation[]): ClimateStation[] => {
+  const overrides = new Map(custom.map((station) => [station.id, station]));
+  const merged = builtInStations.map((station) => overrides.get(station.id) ?? station);
+  const added = custom.filter((station) => !builtInStations.some((b) => b.id === station.id));
+  return [...merged, ...added];
+};
+
+export const isBuiltInStation = (id: string) => builtInStations.some((station) => station.id === id);
+
+export function useClimateStations() {
+  const [customStations, setCustomStations, loaded] = useCollection('climateStations');
+  const stations = useMemo(() => mergeStations(customStations), [customStations]);
+  return { stations, customStations, setCustomStations, loaded };
+}
+
+export default useClimateStations;
@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Paper,
+  Radio,
+  RadioGroup,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { Download, Upload } from '@mui/icons-material';
+import { useLanguage } from '../contexts/LanguageContext';
+import {
+  diffWorkspace,
+  downloadBackup,
+  exportWorkspace,
+  parseBackup,
+  restoreWorkspace,
+  storeLabels,
+  useBackupStatus,
+} from '../db';
+import type { ConflictChoice, RestoreMode, WorkspaceBackup, WorkspaceDiff } from '../db';
+
+// Long values (whole sample lists, nested results) are cut so the preview stays readable.
+const preview = (value: string) => (value.length > 60 ? `${value.slice(0, 57)}…` : value || '—');
+
+export default function BackupRestore() {
+  const { t } = useLanguage();
+  const { backedUpAt, pending } = useBackupStatus();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState('');
+  const [pendingRestore, setPendingRestore] = useState<{ backup: WorkspaceBackup; diff: WorkspaceDiff } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [onConflict, setOnConflict] = useState<ConflictChoice>('backup');
+
+  const conflictCount = pendingRestore
+    ? pendingRestore.diff.stores.reduce((sum, store) => sum + store.conflicts.length, 0) +
+      pendingRestore.diff.settingsConflicts.length
+    : 0;
+
+  const handleDownload = async () => {
+    setBusy(true);
+    try {
+      downloadBackup(await exportWorkspace());
+    } catch (error) {
+      console.error('Failed to export workspace', error);
+      setErrors([t('The backup could not be created.')]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setErrors([]);
+    setMessage('');
+    const { backup, errors: problems } = parseBackup(await file.text());
+    if (!backup) {
+      setErrors(problems);
+      return;
+    }
+    try {
+      setPendingRestore({ backup, diff: await diffWorkspace(backup) });
+      setMode('merge');
+      setOnConflict('backup');
+    } catch (error) {
+      console.error('Failed to compare backup', error);
+      setErrors([t('The backup could not be compared with the data on this device.')]);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+    setBusy(true);
+    try {
+      const settingsChanged = await restoreWorkspace(pendingRestore.backup, mode, onConflict);
+      setPendingRestore(null);
+      // Theme, units, currency and language are read once when the app starts.
+      if (settingsChanged) {
+        window.location.reload();
+        return;
+      }
+      setMessage(t('Backup restored.'));
+    } catch (error) {
+      console.error('Failed to restore workspace', error);
+      setErrors([t('The backup could not be restored.')]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        {t('Backup & Restore')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        {t('Save every pond, batch, record and setting to one file, or bring them back from a file saved earlier on this or another device.')}
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+        <Button variant="contained" startIcon={<Download />} onClick={handleDownload} disabled={busy}>
+          {t('Download backup')}
+        </Button>
+        <Button variant="outlined" startIcon={<Upload />} onClick={() => fileInput.current?.click()} disabled={busy}>
+          {t('Restore from file')}
+        </Button>
+        <input ref={fileInput} type="file" accept=".json,application/json" hidden onChange={handleFile} />
+        <Typography variant="body2" color={pending ? 'warning.main' : 'text.secondary'}>
+          {backedUpAt
+            ? t('Last backup: {date}', { date: new Date(backedUpAt).toLocaleString() })
+            : t('No backup downloaded yet')}
+        </Typography>
+      </Stack>
+
+      {errors.length > 0 && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setErrors([])}>
+          {errors.slice(0, 10).map((error) => (
+            <div key={error}>{t(error)}</div>
+          ))}
+          {errors.length > 10 && <div>{t('…and {count} more problems', { count: errors.length - 10 })}</div>}
+        </Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mt: 2 }} onClose={() => setMessage('')}>
+          {message}
+        </Alert>
+      )}
+
+      <Dialog open={pendingRestore !== null} onClose={() => setPendingRestore(null)} maxWidth="md" fullWidth>
+        <DialogTitle>{t('Restore Backup')}</DialogTitle>
+        {pendingRestore && (
+          <DialogContent>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              {t('Backup from {date}', {
+                date: pendingRestore.backup.exportedAt
+                  ? new Date(pendingRestore.backup.exportedAt).toLocaleString()
+                  : t('an unknown date'),
+              })}
+            </Typography>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Data')}</TableCell>
+                  <TableCell align="right">{t('New')}</TableCell>
+                  <TableCell align="right">{t('Same')}</TableCell>
+                  <TableCell align="right">{t('Different')}</TableCell>
+                  <TableCell align="right">{t('Only on this device')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {pendingRestore.diff.stores.map((store) => (
+                  <TableRow key={store.store}>
+                    <TableCell>{t(storeLabels[store.store])}</TableCell>
+                    <TableCell align="right">{store.added}</TableCell>
+                    <TableCell align="right">{store.unchanged}</TableCell>
+                    <TableCell align="right">{store.conflicts.length}</TableCell>
+                    <TableCell align="right">{store.localOnly}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <RadioGroup
+              sx={{ mt: 2 }}
+              value={mode}
+              onChange={(event) => setMode(event.target.value as RestoreMode)}
+            >
+              <FormControlLabel
+                value="merge"
+                control={<Radio />}
+                label={t('Merge: add the backup to what is on this device')}
+              />
+              <FormControlLabel
+                value="replace"
+                control={<Radio />}
+                label={t('Replace: make this device match the backup exactly')}
+              />
+            </RadioGroup>
+
+            {mode === 'replace' && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                {t('Records and settings that are only on this device will be deleted.')}
+              </Alert>
+            )}
+
+            {mode === 'merge' && conflictCount > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle1" gutterBottom>
+                  {t('{count} records differ between this device and the backup', { count: conflictCount })}
+                </Typography>
+                <RadioGroup
+                  row
+                  value={onConflict}
+                  onChange={(event) => setOnConflict(event.target.value as ConflictChoice)}
+                >
+                  <FormControlLabel value="backup" control={<Radio />} label={t('Keep the backup version')} />
+                  <FormControlLabel value="local" control={<Radio />} label={t('Keep this device version')} />
+                </RadioGroup>
+                <Box sx={{ maxHeight: 320, overflow: 'auto', mt: 1 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{t('Record')}</TableCell>
+                        <TableCell>{t('Field')}</TableCell>
+                        <TableCell>{t('This device')}</TableCell>
+                        <TableCell>{t('Backup')}</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {pendingRestore.diff.stores.flatMap((store) =>
+                        store.conflicts.flatMap((conflict) =>
+                          conflict.fields.map((field) => (
+                            <TableRow key={`${store.store}-${conflict.key}-${field.field}`}>
+                              <TableCell>{`${t(storeLabels[store.store])} · ${conflict.key}`}</TableCell>
+                              <TableCell>{field.field}</TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>{preview(field.local)}</TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>{preview(field.backup)}</TableCell>
+                            </TableRow>
+                          ))
+                        )
+                      )}
+                      {pendingRestore.diff.settingsConflicts.map((field) => (
+                        <TableRow key={`settings-${field.field}`}>
+                          <TableCell>{t('Settings')}</TableCell>
+                          <TableCell>{field.field}</TableCell>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{preview(field.local)}</TableCell>
+                          <TableCell sx={{ fontFamily: 'monospace' }}>{preview(field.backup)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              </Box>
+            )}
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setPendingRestore(null)}>{t('Cancel')}</Button>
+          <Button
+            variant="contained"
+            color={mode === 'replace' ? 'warning' : 'primary'}
+            onClick={handleRestore}
+            disabled={busy}
+          >
+            {t('Restore')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
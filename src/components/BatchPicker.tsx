@@ -0,0 +1,68 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  Link,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material/Select';
+import { useCollection } from '../db';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import type { Batch, BatchStatus } from '../types/records';
+import { batchStatusLabel } from '../utils/batches';
+
+interface BatchPickerProps {
+  value: string;
+  onChange: (batch: Batch | null) => void;
+  label?: string;
+  statuses?: BatchStatus[];
+}
+
+const BatchPicker: React.FC<BatchPickerProps> = ({
+  value,
+  onChange,
+  label = 'Select Batch',
+  statuses,
+}) => {
+  const [allBatches] = useCollection('batches');
+  const { catalog } = useSpeciesCatalog();
+  const batches = statuses ? allBatches.filter((batch) => statuses.includes(batch.status)) : allBatches;
+
+  const handleChange = (event: SelectChangeEvent) => {
+    onChange(batches.find((batch) => batch.id === event.target.value) ?? null);
+  };
+
+  return (
+    <FormControl fullWidth>
+      <InputLabel>{label}</InputLabel>
+      <Select value={batches.some((batch) => batch.id === value) ? value : ''} label={label} onChange={handleChange}>
+        <MenuItem value="">
+          <em>None (enter manually)</em>
+        </MenuItem>
+        {batches.map((batch) => (
+          <MenuItem key={batch.id} value={batch.id}>
+            {batch.name} · {findSpecies(catalog, batch.speciesId)?.name ?? batch.speciesId} · {batchStatusLabel(batch.status)}
+          </MenuItem>
+        ))}
+      </Select>
+      <FormHelperText>
+        {batches.length === 0 ? (
+          <>
+            No batches yet. Add them in{' '}
+            <Link component={RouterLink} to="/batches">
+              Production Batches
+            </Link>
+            .
+          </>
+        ) : (
+          'Prefills species, stocking and growth details from the batch'
+        )}
+      </FormHelperText>
+    </FormControl>
+  );
+};
+
+export default BatchPicker;
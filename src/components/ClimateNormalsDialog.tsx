@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import FormField from './FormField';
+import { useLanguage } from '../contexts/LanguageContext';
+import { deleteRecord, putRecord } from '../db';
+import { climateFields, isBuiltInStation, monthNames } from '../climate';
+import type { ClimateField, ClimateStation } from '../climate';
+
+interface ClimateNormalsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  station: ClimateStation | undefined;
+  // Whether the station shown is a saved record rather than the bundled figures.
+  saved: boolean;
+  onSaved: (station: ClimateStation) => void;
+}
+
+interface Draft {
+  name: string;
+  state: string;
+  latitude: string;
+  elevation: string;
+  normals: Record<ClimateField, string[]>;
+}
+
+const toDraft = (station: ClimateStation): Draft => ({
+  name: station.name,
+  state: station.state,
+  latitude: String(station.latitude),
+  elevation: String(station.elevation),
+  normals: Object.fromEntries(
+    climateFields.map(({ value }) => [value, station.normals[value].map(String)])
+  ) as Record<ClimateField, string[]>,
+});
+
+const isNumber = (text: string) => text.trim() !== '' && Number.isFinite(Number(text));
+
+// A farm's own station normals, saved over a bundled district or as a new station.
+const ClimateNormalsDialog: React.FC<ClimateNormalsDialogProps> = ({ open, onClose, station, saved, onSaved }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    if (open && station) setDraft(toDraft(station));
+  }, [open, station]);
+
+  if (!station || !draft) return null;
+
+  const valid =
+    draft.name.trim() !== '' &&
+    isNumber(draft.latitude) &&
+    isNumber(draft.elevation) &&
+    climateFields.every(({ value }) => draft.normals[value].every(isNumber));
+
+  const handleCell = (field: ClimateField, month: number, value: string) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        normals: {
+          ...prev.normals,
+          [field]: prev.normals[field].map((cell, index) => (index === month ? value : cell)),
+        },
+      }
+    );
+  };
+
+  const toStation = (id: string): ClimateStation => ({
+    id,
+    name: draft.name.trim(),
+    state: draft.state.trim(),
+    latitude: Number(draft.latitude),
+    elevation: Number(draft.elevation),
+    normals: Object.fromEntries(
+      climateFields.map(({ value }) => [value, draft.normals[value].map(Number)])
+    ) as Record<ClimateField, number[]>,
+  });
+
+  const save = async (record: ClimateStation) => {
+    try {
+      await putRecord('climateStations', record);
+      onSaved(record);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save climate station', error);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await deleteRecord('climateStations', station.id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete climate station', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{t('Climate normals for {station}', { station: station.name })}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          {t("Enter your own station's monthly means to replace the bundled district figures, or save them as a new station.")}
+        </Typography>
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid item xs={12} sm={3}>
+            <FormField label="Station Name" value={draft.name} onChange={(value) => setDraft({ ...draft, name: String(value) })} required />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <FormField label="State" value={draft.state} onChange={(value) => setDraft({ ...draft, state: String(value) })} />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <FormField
+              label="Latitude (°)"
+              type="number"
+              value={draft.latitude}
+              onChange={(value) => setDraft({ ...draft, latitude: String(value) })}
+              required
+            />
+          </Grid>
+          <Grid item xs={12} sm={3}>
+            <FormField
+              label="Elevation"
+              unit="m"
+              type="number"
+              value={draft.elevation}
+              onChange={(value) => setDraft({ ...draft, elevation: String(value) })}
+              required
+            />
+          </Grid>
+        </Grid>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('Month')}</TableCell>
+                {climateFields.map(({ value, label }) => (
+                  <TableCell key={value}>{t(label)}</TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {monthNames.map((name, month) => (
+                <TableRow key={name}>
+                  <TableCell>{t(name)}</TableCell>
+                  {climateFields.map(({ value }) => (
+                    <TableCell key={value}>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={draft.normals[value][month]}
+                        onChange={(event) => handleCell(value, month, event.target.value)}
+                        error={!isNumber(draft.normals[value][month])}
+                        sx={{ width: 90 }}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {!valid && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {t('Every month needs a number for each value, and the station needs a name, latitude and elevation.')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {saved && (
+          <Button color="error" onClick={handleReset}>
+            {isBuiltInStation(station.id) ? t('Reset to bundled normals') : t('Delete station')}
+          </Button>
+        )}
+        <Button onClick={onClose}>{t('Cancel')}</Button>
+        <Button onClick={() => save(toStation(`station-${Date.now()}`))} disabled={!valid}>
+          {t('Save as new station')}
+        </Button>
+        <Button variant="contained" onClick={() => save(toStation(station.id))} disabled={!valid}>
+          {t('Save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ClimateNormalsDialog;
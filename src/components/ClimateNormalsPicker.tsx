@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Link, Typography } from '@mui/material';
+import FormField from './FormField';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSite } from '../contexts/SiteContext';
+import { findStation, monthOptions, normalsFor, useClimateStations } from '../climate';
+import type { MonthlyNormals } from '../climate';
+
+interface ClimateNormalsPickerProps {
+  // Called with the station's normals when the form opens and whenever the month changes.
+  onFill: (normals: MonthlyNormals) => void;
+}
+
+// Month picker that prefills a form's weather inputs from the climate station chosen in
+// Settings. Filled values stay editable, so a form can still describe an unusual day.
+const ClimateNormalsPicker: React.FC<ClimateNormalsPickerProps> = ({ onFill }) => {
+  const { t } = useLanguage();
+  const { site } = useSite();
+  const { stations, loaded } = useClimateStations();
+  const [month, setMonth] = useState(() => new Date().getMonth());
+  const station = findStation(stations, site.stationId);
+
+  useEffect(() => {
+    if (loaded && station) onFill(normalsFor(station, month));
+    // onFill is left out: forms pass a fresh closure on every render.
+  }, [loaded, station, month]);
+
+  if (!station) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {t('Choose a climate station in')}{' '}
+        <Link component={RouterLink} to="/settings">
+          {t('Settings')}
+        </Link>{' '}
+        {t('to prefill the weather from monthly normals.')}
+      </Typography>
+    );
+  }
+
+  return (
+    <FormField
+      label="Month"
+      type="select"
+      value={String(month)}
+      onChange={(value) => setMonth(Number(value))}
+      options={monthOptions}
+      helperText={t('Weather prefilled from {station} normals; edit any value to override', { station: station.name })}
+    />
+  );
+};
+
+export default ClimateNormalsPicker;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Chip, Stack, Tooltip, useMediaQuery, useTheme } from '@mui/material';
+import { CloudDone, CloudOff, BackupOutlined } from '@mui/icons-material';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useBackupStatus } from '../db';
+
+export default function ConnectionStatus() {
+  const theme = useTheme();
+  const compact = useMediaQuery(theme.breakpoints.down('md'));
+  const { t } = useLanguage();
+  const { pending, changedAt } = useBackupStatus();
+  const [online, setOnline] = React.useState(() => navigator.onLine);
+
+  React.useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return (
+    <Stack direction="row" spacing={1} sx={{ mr: 1 }}>
+      <Tooltip
+        title={
+          online
+            ? t('Connected. Everything is also saved on this device.')
+            : t('No connection. The app keeps working and saves on this device.')
+        }
+      >
+        <Chip
+          size="small"
+          variant="outlined"
+          color={online ? 'success' : 'warning'}
+          icon={online ? <CloudDone /> : <CloudOff />}
+          label={compact ? undefined : t(online ? 'Online' : 'Offline')}
+          sx={compact ? { '& .MuiChip-label': { display: 'none' } } : undefined}
+        />
+      </Tooltip>
+      {pending && changedAt && (
+        <Tooltip
+          title={t('Latest changes ({date}) are not backed up yet', {
+            date: new Date(changedAt).toLocaleString(),
+          })}
+        >
+          <Chip
+            size="small"
+            color="warning"
+            icon={<BackupOutlined />}
+            label={compact ? undefined : t('Not backed up')}
+            sx={compact ? { '& .MuiChip-label': { display: 'none' } } : undefined}
+          />
+        </Tooltip>
+      )}
+    </Stack>
+  );
+}
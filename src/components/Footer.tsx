@@ -9,9 +9,11 @@ import {
   Divider,
   useTheme,
 } from '@mui/material';
+import { useLanguage } from '../contexts/LanguageContext';
 
 export default function Footer() {
   const theme = useTheme();
+  const { t } = useLanguage();
   const currentYear = new Date().getFullYear();
 
   const footerSections = [
@@ -53,7 +55,7 @@ export default function Footer() {
           {footerSections.map((section) => (
             <Grid item xs={12} sm={4} key={section.title}>
               <Typography variant="h6" color="text.primary" gutterBottom>
-                {section.title}
+                {t(section.title)}
               </Typography>
               <ul style={{ listStyle: 'none', padding: 0 }}>
                 {section.items.map((item) => (
@@ -67,7 +69,7 @@ export default function Footer() {
                         '&:hover': { color: 'primary.main' },
                       }}
                     >
-                      {item.name}
+                      {t(item.name)}
                     </Link>
                   </li>
                 ))}
@@ -79,7 +81,7 @@ export default function Footer() {
         <Typography variant="body2" color="text.secondary" align="center">
           {'© '}
           {currentYear}
-          {' 🌊 Aquaculture Tools. All rights reserved.'}
+          {` 🌊 ${t('Aquaculture Tools')}. ${t('All rights reserved.')}`}
         </Typography>
       </Container>
     </Box>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   TextField,
   FormControl,
@@ -6,8 +6,13 @@ import {
   Select,
   MenuItem,
   FormHelperText,
+  InputAdornment,
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
+import { useUnits } from '../contexts/UnitsContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { compatibleUnits, convert, roundForDisplay, unitForSystem } from '../units';
+import type { Unit } from '../units';
 
 export interface Option {
   value: string;
@@ -25,8 +30,14 @@ interface FormFieldProps {
   multiple?: boolean;
   error?: boolean;
   disabled?: boolean;
+  // Unit the value is stored in. The field is shown in the user's preferred unit
+  // and converts back, so onChange always receives the stored unit.
+  unit?: Unit;
 }
 
+const toText = (value: FormFieldProps['value'], from: Unit, to: Unit) =>
+  value === '' || Number.isNaN(Number(value)) ? String(value) : roundForDisplay(convert(Number(value), from, to));
+
 const FormField: React.FC<FormFieldProps> = ({
   label,
   value,
@@ -38,14 +49,46 @@ const FormField: React.FC<FormFieldProps> = ({
   multiple = false,
   error = false,
   disabled = false,
+  unit,
 }) => {
+  const { system, displayUnit, setFieldUnit } = useUnits();
+  const { t } = useLanguage();
+  // Unit overrides stay keyed by the English label so they survive a language change.
+  const shownLabel = t(label);
+  const shownUnit = unit ? displayUnit(unit, label) : undefined;
+  const [text, setText] = useState(() => (unit && shownUnit ? toText(value, unit, shownUnit) : ''));
+
+  // Re-derive the shown text when the stored value changes from outside (prefill, reset)
+  // or the unit changes, but not while it already matches what the user is typing.
+  useEffect(() => {
+    if (!unit || !shownUnit) return;
+    const typed = convert(Number(text), shownUnit, unit);
+    const matches = value === ''
+      ? text === ''
+      : Math.abs(typed - Number(value)) < 1e-9 || (Number.isNaN(typed) && Number.isNaN(Number(value)));
+    if (!matches) {
+      setText(toText(value, unit, shownUnit));
+    }
+  }, [value, unit, shownUnit]);
+
   const handleTextChange = (
     event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
+    if (unit && shownUnit && shownUnit !== unit) {
+      setText(event.target.value);
+      onChange(event.target.value === '' ? '' : convert(Number(event.target.value), shownUnit, unit));
+      return;
+    }
     const newValue = type === 'number' ? Number(event.target.value) : event.target.value;
     onChange(newValue);
   };
 
+  const handleUnitChange = (event: SelectChangeEvent) => {
+    if (!unit) return;
+    const selected = event.target.value as Unit;
+    setFieldUnit(label, selected === unitForSystem(unit, system) ? null : selected);
+  };
+
   const handleSelectChange = (event: SelectChangeEvent<string | string[]>) => {
     onChange(event.target.value);
   };
@@ -53,20 +96,20 @@ const FormField: React.FC<FormFieldProps> = ({
   if (type === 'select' || type === 'multiselect') {
     return (
       <FormControl fullWidth required={required} error={error} disabled={disabled}>
-        <InputLabel>{label}</InputLabel>
+        <InputLabel>{shownLabel}</InputLabel>
         <Select
           value={value as string | string[]}
-          label={label}
+          label={shownLabel}
           onChange={handleSelectChange}
           multiple={type === 'multiselect' || multiple}
         >
           {options.map((option) => (
             <MenuItem key={option.value} value={option.value}>
-              {option.label}
+              {t(option.label)}
             </MenuItem>
           ))}
         </Select>
-        {helperText && <FormHelperText>{helperText}</FormHelperText>}
+        {helperText && <FormHelperText>{t(helperText)}</FormHelperText>}
       </FormControl>
     );
   }
@@ -74,15 +117,39 @@ const FormField: React.FC<FormFieldProps> = ({
   return (
     <TextField
       fullWidth
-      label={label}
-      value={value}
+      label={shownLabel}
+      value={unit && shownUnit !== unit ? text : value}
       onChange={handleTextChange}
       type={type === 'date' ? 'date' : type}
       required={required}
-      helperText={helperText}
+      helperText={helperText && t(helperText)}
       error={error}
       disabled={disabled}
       InputLabelProps={type === 'date' ? { shrink: true } : undefined}
+      InputProps={
+        unit && shownUnit
+          ? {
+              endAdornment: (
+                <InputAdornment position="end">
+                  <Select
+                    variant="standard"
+                    disableUnderline
+                    value={shownUnit}
+                    onChange={handleUnitChange}
+                    disabled={disabled}
+                    inputProps={{ 'aria-label': `${shownLabel} unit` }}
+                  >
+                    {compatibleUnits(unit).map((option) => (
+                      <MenuItem key={option} value={option}>
+                        {option}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </InputAdornment>
+              ),
+            }
+          : undefined
+      }
     />
   );
 };
@@ -17,9 +17,15 @@ import {
 } from '@mui/material';
 import MenuIcon from '@mui/icons-material/Menu';
 import ThemeToggle from './ThemeToggle';
+import UnitToggle from './UnitToggle';
+import LanguageToggle from './LanguageToggle';
+import ConnectionStatus from './ConnectionStatus';
+import NotificationCenter from './NotificationCenter';
+import { useLanguage } from '../contexts/LanguageContext';
 
 export default function Header() {
   const theme = useTheme();
+  const { t } = useLanguage();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
 
@@ -55,17 +61,21 @@ export default function Header() {
                 fontWeight: 600,
               }}
             >
-              🌊 Aquaculture Tools
+              🌊 {t('Aquaculture Tools')}
             </Typography>
             <Typography
               variant="subtitle2"
               color="text.secondary"
               sx={{ display: { xs: 'none', sm: 'block' } }}
             >
-              Comprehensive suite of tools for modern aquaculture management
+              {t('Comprehensive suite of tools for modern aquaculture management')}
             </Typography>
           </Box>
 
+          <ConnectionStatus />
+          <NotificationCenter />
+          <LanguageToggle />
+          <UnitToggle />
           <ThemeToggle />
           <Box sx={{ ml: 2 }}>
             {isMobile ? (
@@ -99,7 +109,7 @@ export default function Header() {
                       to={item.path}
                       onClick={handleClose}
                     >
-                      {item.name}
+                      {t(item.name)}
                     </MenuItem>
                   ))}
                 </Menu>
@@ -118,7 +128,7 @@ export default function Header() {
                       },
                     }}
                   >
-                    {item.name}
+                    {t(item.name)}
                   </Button>
                 ))}
               </Stack>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Tooltip } from '@mui/material';
+import { Translate, Check } from '@mui/icons-material';
+import { useLanguage } from '../contexts/LanguageContext';
+import { languageOptions } from '../i18n';
+import type { Language } from '../i18n';
+
+export default function LanguageToggle() {
+  const { language, setLanguage, t } = useLanguage();
+  const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+
+  const handleClick = (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleLanguageChange = (newLanguage: Language) => {
+    setLanguage(newLanguage);
+    handleClose();
+  };
+
+  return (
+    <>
+      <Tooltip title={t('Language')}>
+        <IconButton color="inherit" onClick={handleClick} aria-label="language">
+          <Translate />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'right',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'right',
+        }}
+      >
+        {languageOptions.map((option) => (
+          <MenuItem
+            key={option.value}
+            lang={option.value}
+            dir={option.dir}
+            onClick={() => handleLanguageChange(option.value)}
+          >
+            <ListItemIcon>{language === option.value && <Check fontSize="small" />}</ListItemIcon>
+            <ListItemText>{option.label}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
@@ -25,6 +25,7 @@ import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import Header from './Header';
 import Footer from './Footer';
+import { useLanguage } from '../contexts/LanguageContext';
 import {
   WaterDrop,
   Restaurant,
@@ -56,6 +57,13 @@ import {
   Speed,
   Analytics,
   WaterfallChart,
+  Pool,
+  Settings,
+  NightsStay,
+  Sensors,
+  NotificationsActive,
+  Opacity,
+  AcUnit,
 } from '@mui/icons-material';
 
 const drawerWidth = 280;
@@ -75,10 +83,16 @@ const navItems: { category: string; items: NavItem[] }[] = [
   {
     category: '💧 Water Management',
     items: [
+      { name: '🗺️ Pond Registry', path: '/ponds', icon: <Pool />, description: 'Register pond details' },
       { name: '💧 Water Quality', path: '/water-quality', icon: <WaterDrop />, description: 'Monitor water parameters' },
       { name: '🌊 Water Quality Monitor', path: '/water-quality-monitor', icon: <WaterDrop />, description: 'Advanced water monitoring' },
+      { name: '📉 Water Quality History', path: '/water-quality-history', icon: <ShowChart />, description: 'Trends and statistics per pond' },
       { name: '📊 Water Quality Predictor', path: '/water-quality-predictor', icon: <WaterfallChart />, description: 'Predict water parameters' },
+      { name: '🌙 Night Oxygen Forecast', path: '/night-oxygen', icon: <NightsStay />, description: 'Predict pre-dawn oxygen crashes' },
+      { name: '🧊 Winter Ice Manager', path: '/winter-ice', icon: <AcUnit />, description: 'Ice cover, under-ice oxygen and winter feeding' },
+      { name: '📡 Sensors', path: '/sensors', icon: <Sensors />, description: 'Live readings from pond probes' },
       { name: '💨 Pond Evaporation', path: '/pond-evaporation', icon: <WaterOutlined />, description: 'Calculate water loss' },
+      { name: '🚰 Water Balance', path: '/water-balance', icon: <Opacity />, description: 'Level projection, refills and water demand' },
       { name: '🏊 Pond Sediment', path: '/pond-sediment', icon: <Layers />, description: 'Manage sediment buildup' },
       { name: '🧪 Pond Liming', path: '/pond-liming', icon: <Science />, description: 'Calculate lime requirements' },
       { name: '🏗️ Pond Lining', path: '/pond-lining', icon: <Construction />, description: 'Calculate lining costs' },
@@ -87,6 +101,8 @@ const navItems: { category: string; items: NavItem[] }[] = [
   {
     category: '🐟 Fish Management',
     items: [
+      { name: '📚 Species Catalog', path: '/species-catalog', icon: <Pets />, description: 'View and extend species data' },
+      { name: '🧺 Production Batches', path: '/batches', icon: <Agriculture />, description: 'Track production cycles' },
       { name: '📈 Growth Tracker', path: '/growth-tracker', icon: <ShowChart />, description: 'Track growth rates' },
       { name: '📊 Growth Benchmark', path: '/growth-benchmark', icon: <TrendingUp />, description: 'Compare growth rates' },
       { name: '📈 Growth Predictor', path: '/growth-predictor', icon: <Timeline />, description: 'Predict fish growth' },
@@ -132,11 +148,19 @@ const navItems: { category: string; items: NavItem[] }[] = [
       { name: '📊 Reports', path: '/reports', icon: <Assessment />, description: 'Generate reports' },
       { name: '📅 Production Calendar', path: '/calendar', icon: <Event />, description: 'Plan production' },
     ]
+  },
+  {
+    category: '⚙️ Preferences',
+    items: [
+      { name: '🔔 Alert Rules', path: '/alerts', icon: <NotificationsActive />, description: 'Limits, notifications and alert history' },
+      { name: '⚙️ Settings', path: '/settings', icon: <Settings />, description: 'Currency, units, language and backups' },
+    ]
   }
 ];
 
 export default function Layout({ children }: LayoutProps) {
   const theme = useMuiTheme();
+  const { t } = useLanguage();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const [drawerOpen, setDrawerOpen] = useState(!isMobile);
   const location = useLocation();
@@ -161,7 +185,7 @@ export default function Layout({ children }: LayoutProps) {
           alt="Aquaculture Tools"
         />
         <Typography variant="h6" noWrap component="div">
-          Tools
+          {t('Tools')}
         </Typography>
         {!isMobile && (
           <IconButton onClick={handleDrawerToggle} sx={{ ml: 'auto' }}>
@@ -175,7 +199,7 @@ export default function Layout({ children }: LayoutProps) {
           <React.Fragment key={category.category}>
             <ListItem sx={{ py: 1, px: 3 }}>
               <Typography variant="subtitle1" color="text.secondary">
-                {category.category}
+                {t(category.category)}
               </Typography>
             </ListItem>
             {category.items.map((item) => (
@@ -211,8 +235,8 @@ export default function Layout({ children }: LayoutProps) {
                   </ListItemIcon>
                   {drawerOpen && (
                     <ListItemText 
-                      primary={item.name}
-                      secondary={item.description}
+                      primary={t(item.name)}
+                      secondary={t(item.description)}
                       secondaryTypographyProps={{
                         sx: { 
                           display: { xs: 'none', sm: 'block' },
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Alert, AlertTitle, Button, Chip, FormControlLabel, Stack, Switch, Typography } from '@mui/material';
+import { Sensors } from '@mui/icons-material';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSensors } from '../contexts/SensorContext';
+import { formatSensorValues } from '../sensors';
+import type { WaterQualityReading } from '../types/records';
+
+interface LiveReadingsProps {
+  pondId: string;
+  // Fills the form; `recorded` says the reading is already being saved to the pond's history.
+  onUse: (values: WaterQualityReading['values'], takenAt: string, recorded: boolean) => void;
+}
+
+// Latest sensor values for a pond, with a stale warning when a probe has gone quiet.
+// Renders nothing for ponds without an enabled sensor device.
+const LiveReadings: React.FC<LiveReadingsProps> = ({ pondId, onUse }) => {
+  const { t } = useLanguage();
+  const { devices, pondLive, settings } = useSensors();
+  const [follow, setFollow] = useState(false);
+  const reading = pondLive(pondId);
+  const recorded = settings.recordMinutes > 0;
+
+  useEffect(() => {
+    if (follow && reading) onUse(reading.values, reading.takenAt, recorded);
+    // Only a new reading should refill the form, not a new onUse identity.
+  }, [follow, reading?.takenAt]);
+
+  if (!pondId || !devices.some((device) => device.enabled && device.pondId === pondId)) return null;
+
+  if (!reading) {
+    return (
+      <Alert severity="info" icon={<Sensors />} sx={{ mb: 3 }}>
+        {t("Waiting for the first reading from this pond's sensors.")}{' '}
+        <Button component={RouterLink} to="/sensors" size="small">
+          {t('Sensors')}
+        </Button>
+      </Alert>
+    );
+  }
+
+  const stale = reading.staleDevices.length > 0;
+  return (
+    <Alert severity={stale ? 'warning' : 'success'} icon={<Sensors />} sx={{ mb: 3 }}>
+      <AlertTitle>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <span>{t('Live sensor values')}</span>
+          <Chip size="small" color={stale ? 'warning' : 'success'} label={t(stale ? 'Stale' : 'Live')} />
+        </Stack>
+      </AlertTitle>
+      <Typography variant="body2">{formatSensorValues(reading.values)}</Typography>
+      <Typography variant="body2" color="text.secondary">
+        {t('Measured {date}', { date: new Date(reading.takenAt).toLocaleString() })}
+      </Typography>
+      {stale && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          {t('No recent reading from {devices}. Check the probe, its power and its connection.', {
+            devices: reading.staleDevices.map((device) => device.name).join(', '),
+          })}
+        </Typography>
+      )}
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 1 }}>
+        <Button size="small" variant="outlined" onClick={() => onUse(reading.values, reading.takenAt, recorded)}>
+          {t('Use live values')}
+        </Button>
+        <FormControlLabel
+          control={<Switch size="small" checked={follow} onChange={(event) => setFollow(event.target.checked)} />}
+          label={t('Follow live')}
+        />
+      </Stack>
+    </Alert>
+  );
+};
+
+export default LiveReadings;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Badge,
+  Box,
+  Button,
+  Chip,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Popover,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Notifications, NotificationsNone } from '@mui/icons-material';
+import { useAlerts } from '../contexts/AlertContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { AlertEvent } from '../types/records';
+import { alertText, severityColors, severityLabel } from '../utils/alerts';
+
+const snoozeOptions = [1, 4, 24];
+
+export default function NotificationCenter() {
+  const { t } = useLanguage();
+  const { active, acknowledge, snooze } = useAlerts();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [snoozeTarget, setSnoozeTarget] = useState<{ anchor: HTMLElement; event: AlertEvent } | null>(null);
+  const critical = active.some((event) => event.severity === 'critical');
+
+  return (
+    <>
+      <Tooltip title={t('Alerts')}>
+        <IconButton color="inherit" onClick={(event) => setAnchorEl(event.currentTarget)} sx={{ mr: 1 }}>
+          <Badge badgeContent={active.length} color={critical ? 'error' : 'warning'} max={99}>
+            {active.length ? <Notifications /> : <NotificationsNone />}
+          </Badge>
+        </IconButton>
+      </Tooltip>
+      <Popover
+        open={Boolean(anchorEl)}
+        anchorEl={anchorEl}
+        onClose={() => setAnchorEl(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+      >
+        <Box sx={{ width: 380, maxWidth: '100vw' }}>
+          <Typography variant="subtitle1" sx={{ px: 2, pt: 2 }}>
+            {t('Alerts')}
+          </Typography>
+          {active.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 2 }}>
+              {t('Nothing needs attention.')}
+            </Typography>
+          ) : (
+            <List dense sx={{ maxHeight: 420, overflow: 'auto' }}>
+              {active.map((event) => (
+                <ListItem key={event.id} alignItems="flex-start" divider>
+                  <ListItemText
+                    primary={
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <Chip
+                          size="small"
+                          color={severityColors[event.severity]}
+                          label={t(severityLabel(event.severity))}
+                        />
+                        <span>{t(event.ruleName)}</span>
+                      </Stack>
+                    }
+                    secondary={
+                      <>
+                        {alertText(event, t)}
+                        <br />
+                        {new Date(event.raisedAt).toLocaleString()}
+                        <Stack direction="row" spacing={1} component="span" sx={{ display: 'flex', mt: 0.5 }}>
+                          <Button size="small" onClick={() => acknowledge(event)}>
+                            {t('Acknowledge')}
+                          </Button>
+                          <Button
+                            size="small"
+                            onClick={(click) => setSnoozeTarget({ anchor: click.currentTarget, event })}
+                          >
+                            {t('Snooze')}
+                          </Button>
+                        </Stack>
+                      </>
+                    }
+                    secondaryTypographyProps={{ component: 'div' }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+          <Divider />
+          <Box sx={{ p: 1, display: 'flex', justifyContent: 'flex-end' }}>
+            <Button component={RouterLink} to="/alerts" size="small" onClick={() => setAnchorEl(null)}>
+              {t('Alert rules and history')}
+            </Button>
+          </Box>
+        </Box>
+      </Popover>
+      <Menu anchorEl={snoozeTarget?.anchor} open={Boolean(snoozeTarget)} onClose={() => setSnoozeTarget(null)}>
+        {snoozeOptions.map((hours) => (
+          <MenuItem
+            key={hours}
+            onClick={() => {
+              if (snoozeTarget) snooze(snoozeTarget.event, hours);
+              setSnoozeTarget(null);
+            }}
+          >
+            {t('{hours} h', { hours })}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
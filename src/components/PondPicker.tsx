@@ -0,0 +1,62 @@
+import React from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormHelperText,
+  Link,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material/Select';
+import { useCollection } from '../db';
+import type { Pond } from '../types/records';
+
+interface PondPickerProps {
+  value: string;
+  onChange: (pond: Pond | null) => void;
+  label?: string;
+}
+
+const PondPicker: React.FC<PondPickerProps> = ({
+  value,
+  onChange,
+  label = 'Select Pond',
+}) => {
+  const [ponds] = useCollection('ponds');
+
+  const handleChange = (event: SelectChangeEvent) => {
+    onChange(ponds.find((pond) => pond.id === event.target.value) ?? null);
+  };
+
+  return (
+    <FormControl fullWidth>
+      <InputLabel>{label}</InputLabel>
+      <Select value={ponds.some((pond) => pond.id === value) ? value : ''} label={label} onChange={handleChange}>
+        <MenuItem value="">
+          <em>None (enter manually)</em>
+        </MenuItem>
+        {ponds.map((pond) => (
+          <MenuItem key={pond.id} value={pond.id}>
+            {pond.name}
+          </MenuItem>
+        ))}
+      </Select>
+      <FormHelperText>
+        {ponds.length === 0 ? (
+          <>
+            No ponds saved yet. Add them in the{' '}
+            <Link component={RouterLink} to="/ponds">
+              Pond Registry
+            </Link>
+            .
+          </>
+        ) : (
+          'Prefills pond details and saves the latest result to the pond'
+        )}
+      </FormHelperText>
+    </FormControl>
+  );
+};
+
+export default PondPicker;
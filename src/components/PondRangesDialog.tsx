@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useLanguage } from '../contexts/LanguageContext';
+import { putRecord } from '../db';
+import type { WaterQualityRange } from '../engine';
+import type { Pond, PondWaterQualityRange, WaterQualityParameter } from '../types/records';
+
+interface PondRangesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  pond: Pond | undefined;
+  // Bands the pond would use without its own, to start a new custom range from.
+  baseRanges: Record<WaterQualityParameter, WaterQualityRange>;
+}
+
+type Draft = Partial<Record<WaterQualityParameter, Record<'low' | 'optimalMin' | 'optimalMax' | 'high', string>>>;
+
+const fields = ['low', 'optimalMin', 'optimalMax', 'high'] as const;
+
+const toDraft = (range: PondWaterQualityRange) => ({
+  low: String(range.warning.min),
+  optimalMin: String(range.optimal.min),
+  optimalMax: String(range.optimal.max),
+  high: String(range.warning.max),
+});
+
+// A complete, ordered range from the typed limits, or null while they are not.
+const toRange = (draft: NonNullable<Draft[WaterQualityParameter]>): PondWaterQualityRange | null => {
+  const [low, optimalMin, optimalMax, high] = fields.map((field) =>
+    draft[field].trim() === '' ? NaN : Number(draft[field])
+  );
+  if ([low, optimalMin, optimalMax, high].some(Number.isNaN)) return null;
+  if (!(low <= optimalMin && optimalMin <= optimalMax && optimalMax <= high)) return null;
+  return { optimal: { min: optimalMin, max: optimalMax }, warning: { min: low, max: high } };
+};
+
+// Per-pond water-quality bands for stock whose needs differ from its species, such as
+// broodstock or hatchery tanks. Parameters left off follow the species.
+const PondRangesDialog: React.FC<PondRangesDialogProps> = ({ open, onClose, pond, baseRanges }) => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<Draft>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const saved = pond?.waterQualityRanges ?? {};
+    setDraft(
+      Object.fromEntries(
+        (Object.entries(saved) as [WaterQualityParameter, PondWaterQualityRange][]).map(([parameter, range]) => [
+          parameter,
+          toDraft(range),
+        ])
+      )
+    );
+  }, [open, pond]);
+
+  const parameters = Object.keys(baseRanges) as WaterQualityParameter[];
+  const invalid = parameters.filter((parameter) => draft[parameter] && !toRange(draft[parameter]!));
+
+  const handleToggle = (parameter: WaterQualityParameter) => {
+    setDraft((prev) => {
+      const next = { ...prev };
+      if (next[parameter]) {
+        delete next[parameter];
+      } else {
+        next[parameter] = toDraft(baseRanges[parameter]);
+      }
+      return next;
+    });
+  };
+
+  const handleChange = (parameter: WaterQualityParameter, field: (typeof fields)[number], value: string) => {
+    setDraft((prev) => ({ ...prev, [parameter]: { ...prev[parameter]!, [field]: value } }));
+  };
+
+  const handleSave = async () => {
+    if (!pond || invalid.length) return;
+    const waterQualityRanges = Object.fromEntries(
+      (Object.entries(draft) as [WaterQualityParameter, NonNullable<Draft[WaterQualityParameter]>][]).map(
+        ([parameter, limits]) => [parameter, toRange(limits)!]
+      )
+    );
+    try {
+      await putRecord('ponds', { ...pond, waterQualityRanges });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save pond ranges', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('Custom ranges for {pond}', { pond: pond?.name ?? '' })}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" paragraph>
+          {t('Set limits for stock whose needs differ from its species, such as broodstock or hatchery tanks. Readings outside the acceptable limits are critical; parameters left off follow the species.')}
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('Parameter')}</TableCell>
+                <TableCell>{t('Custom')}</TableCell>
+                <TableCell>{t('Lowest acceptable')}</TableCell>
+                <TableCell>{t('Optimal from')}</TableCell>
+                <TableCell>{t('Optimal to')}</TableCell>
+                <TableCell>{t('Highest acceptable')}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {parameters.map((parameter) => {
+                const range = baseRanges[parameter];
+                const limits = draft[parameter];
+                return (
+                  <TableRow key={parameter}>
+                    <TableCell>
+                      {t(range.name)}
+                      {range.unit && ` (${range.unit})`}
+                    </TableCell>
+                    <TableCell>
+                      <Switch size="small" checked={Boolean(limits)} onChange={() => handleToggle(parameter)} />
+                    </TableCell>
+                    {fields.map((field) => (
+                      <TableCell key={field}>
+                        {limits ? (
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={limits[field]}
+                            onChange={(event) => handleChange(parameter, field, event.target.value)}
+                            error={invalid.includes(parameter)}
+                            sx={{ width: 100 }}
+                          />
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            {field === 'low' && range.warning.min}
+                            {field === 'optimalMin' && range.optimal.min}
+                            {field === 'optimalMax' && range.optimal.max}
+                            {field === 'high' && range.warning.max}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {invalid.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {t('Limits must rise from lowest acceptable through the optimal range to highest acceptable: {parameters}', {
+              parameters: invalid.map((parameter) => t(baseRanges[parameter].name)).join(', '),
+            })}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('Cancel')}</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!pond || invalid.length > 0}>
+          {t('Save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PondRangesDialog;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Tooltip } from '@mui/material';
+import { Straighten, Check } from '@mui/icons-material';
+import { useUnits } from '../contexts/UnitsContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { unitSystemOptions } from '../units';
+import type { UnitSystem } from '../units';
+
+export default function UnitToggle() {
+  const { system, setSystem } = useUnits();
+  const { t } = useLanguage();
+  const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+
+  const handleClick = (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+  };
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleSystemChange = (newSystem: UnitSystem) => {
+    setSystem(newSystem);
+    handleClose();
+  };
+
+  return (
+    <>
+      <Tooltip title={t('Units')}>
+        <IconButton color="inherit" onClick={handleClick} aria-label="units">
+          <Straighten />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        anchorOrigin={{
+          vertical: 'bottom',
+          horizontal: 'right',
+        }}
+        transformOrigin={{
+          vertical: 'top',
+          horizontal: 'right',
+        }}
+      >
+        {unitSystemOptions.map((option) => (
+          <MenuItem key={option.value} onClick={() => handleSystemChange(option.value)}>
+            <ListItemIcon>{system === option.value && <Check fontSize="small" />}</ListItemIcon>
+            <ListItemText>{t(option.label)}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
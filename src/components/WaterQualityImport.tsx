@@ -0,0 +1,526 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import FormField from './FormField';
+import { useLanguage } from '../contexts/LanguageContext';
+import { putRecords, useCollection } from '../db';
+import { analyzeParameter, waterQualityParameters } from '../engine';
+import type { QualityStatus } from '../engine';
+import {
+  buildImportRows,
+  columnTargetOptions,
+  dateOrderOptions,
+  decimalSeparatorOptions,
+  detectDateOrder,
+  detectDecimalSeparator,
+  detectUnit,
+  guessMapping,
+  importUnits,
+  isParameter,
+  mappingIssues,
+  readSheet,
+  summarizeStatuses,
+} from '../utils/waterQualityImport';
+import type { Cell, ColumnMapping, ColumnTarget, DateOrder, DecimalSeparator, ImportIssue } from '../utils/waterQualityImport';
+import type { WaterQualityParameter } from '../types/records';
+
+interface WaterQualityImportProps {
+  open: boolean;
+  onClose: () => void;
+  defaultPondId?: string;
+}
+
+const steps = ['Choose file', 'Map columns', 'Review', 'Done'];
+
+// The review table shows this many rows; the rest are still imported.
+const PREVIEW_ROWS = 200;
+
+const statusColor: Record<QualityStatus, 'success' | 'warning' | 'error'> = {
+  Optimal: 'success',
+  Warning: 'warning',
+  Critical: 'error',
+};
+
+const cellText = (cell: Cell) => (cell instanceof Date ? cell.toLocaleString() : String(cell ?? ''));
+
+// Every cell in the columns mapped to a water-quality parameter.
+const parameterCells = (mapping: ColumnMapping[], rows: Cell[][]) =>
+  rows.flatMap((row) => mapping.flatMap(({ target }, column) => (isParameter(target) ? [row[column]] : [])));
+
+export default function WaterQualityImport({ open, onClose, defaultPondId = '' }: WaterQualityImportProps) {
+  const { t } = useLanguage();
+  const [ponds] = useCollection('ponds');
+  const [readings] = useCollection('waterQualityReadings');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState('');
+  const [header, setHeader] = useState<Cell[]>([]);
+  const [rows, setRows] = useState<Cell[][]>([]);
+  const [lines, setLines] = useState<number[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [dateAmbiguous, setDateAmbiguous] = useState(false);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('point');
+  const [decimalAmbiguous, setDecimalAmbiguous] = useState(false);
+  const [pondId, setPondId] = useState(defaultPondId);
+  const [sampler, setSampler] = useState('');
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [imported, setImported] = useState<{ count: number; summary: ReturnType<typeof summarizeStatuses> } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (open) setPondId(defaultPondId);
+  }, [open, defaultPondId]);
+
+  const issueText = (issue: ImportIssue) => t(issue.message, issue.params);
+
+  const reset = () => {
+    setStep(0);
+    setFileName('');
+    setFileError('');
+    setHeader([]);
+    setRows([]);
+    setLines([]);
+    setMapping([]);
+    setProblemsOnly(false);
+    setImported(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileError('');
+    try {
+      const sheet = await readSheet(file);
+      if (sheet.rows.length < 2) {
+        setFileError(t('The file needs a header row and at least one row of readings.'));
+        return;
+      }
+      const [first, ...data] = sheet.rows;
+      const guessed = guessMapping(first, data);
+      const dateColumn = guessed.findIndex(({ target }) => target === 'date');
+      const detected = detectDateOrder(dateColumn >= 0 ? data.map((row) => row[dateColumn]) : []);
+      setFileName(file.name);
+      setHeader(first);
+      setRows(data);
+      setLines(sheet.lines.slice(1));
+      setMapping(guessed);
+      setDateOrder(detected.order);
+      setDateAmbiguous(detected.ambiguous);
+      const decimals = detectDecimalSeparator(parameterCells(guessed, data));
+      setDecimalSeparator(decimals.separator);
+      setDecimalAmbiguous(decimals.ambiguous);
+    } catch (error) {
+      console.error('Failed to read water-quality file', error);
+      setFileError(t(error instanceof Error ? error.message : 'The file could not be read.'));
+    }
+  };
+
+  const handleTargetChange = (column: number) => (value: string | number | string[]) => {
+    const target = value as ColumnTarget;
+    const samples = rows.slice(0, 50).map((row) => row[column]);
+    const next = mapping.map((entry, index) =>
+      index === column
+        ? { target, unit: isParameter(target) ? detectUnit(target, String(header[column] ?? ''), samples) : '' }
+        : entry
+    );
+    setMapping(next);
+    if (isParameter(target) || isParameter(mapping[column].target)) {
+      const decimals = detectDecimalSeparator(parameterCells(next, rows));
+      setDecimalSeparator(decimals.separator);
+      setDecimalAmbiguous(decimals.ambiguous);
+    }
+    if (target === 'date') {
+      const detected = detectDateOrder(rows.map((row) => row[column]));
+      setDateOrder(detected.order);
+      setDateAmbiguous(detected.ambiguous);
+    }
+  };
+
+  const handleUnitChange = (column: number) => (value: string | number | string[]) => {
+    setMapping((prev) => prev.map((entry, index) => (index === column ? { ...entry, unit: String(value) } : entry)));
+  };
+
+  const issues = useMemo(() => mappingIssues(mapping), [mapping]);
+  const hasPondColumn = mapping.some(({ target }) => target === 'pond');
+
+  const importRows = useMemo(
+    () =>
+      issues.length
+        ? []
+        : buildImportRows(rows, { mapping, dateOrder, decimalSeparator, pondId, sampler, ponds, existing: readings, lines }),
+    [issues, rows, lines, mapping, dateOrder, decimalSeparator, pondId, sampler, ponds, readings]
+  );
+  const ready = importRows.filter((row) => row.reading && !row.duplicate);
+  const failed = importRows.filter((row) => row.errors.length);
+  const duplicates = importRows.filter((row) => row.duplicate);
+  const shownRows = (problemsOnly ? importRows.filter((row) => row.errors.length || row.warnings.length || row.duplicate) : importRows)
+    .slice(0, PREVIEW_ROWS);
+  const mappedParameters = mapping
+    .map(({ target }) => target)
+    .filter((target): target is WaterQualityParameter => isParameter(target));
+
+  const handleImport = async () => {
+    setSaving(true);
+    const stamp = Date.now().toString();
+    const saved = ready.map((row) => row.reading!);
+    try {
+      await putRecords(
+        'waterQualityReadings',
+        saved.map((reading, index) => ({ ...reading, id: `${stamp}-${index}` }))
+      );
+      setImported({ count: saved.length, summary: summarizeStatuses(saved) });
+      setStep(3);
+    } catch (error) {
+      console.error('Failed to save imported readings', error);
+      setFileError(t('The readings could not be saved.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canContinue =
+    (step === 0 && rows.length > 0 && ponds.length > 0) ||
+    (step === 1 && issues.length === 0 && (hasPondColumn || pondId !== ''));
+
+  const pondOptions = ponds.map((pond) => ({ value: pond.id, label: pond.name }));
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{t('Import Water-Quality Readings')}</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{t(label)}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {fileError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {fileError}
+          </Alert>
+        )}
+
+        {step === 0 && (
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              {t('Choose a CSV or Excel (.xlsx) file with one sample per row and a header row naming the columns, for example Date, Pond, DO (mg/L), Temp (°C), pH.')}
+            </Typography>
+            <Box>
+              <Button variant="outlined" startIcon={<UploadFile />} onClick={() => fileInput.current?.click()}>
+                {t('Choose file')}
+              </Button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                hidden
+                onChange={handleFile}
+              />
+            </Box>
+            {fileName && (
+              <Alert severity="info">
+                {t('{file}: {rows} rows and {columns} columns', {
+                  file: fileName,
+                  rows: rows.length,
+                  columns: header.length,
+                })}
+              </Alert>
+            )}
+            {ponds.length === 0 ? (
+              <Alert severity="warning">{t('Add your ponds in the Pond Registry first; readings are stored per pond.')}</Alert>
+            ) : (
+              <Grid container spacing={2}>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Pond"
+                    type="select"
+                    value={pondId}
+                    onChange={(value) => setPondId(String(value))}
+                    options={pondOptions}
+                    helperText="Used for rows without a pond column"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Sampler"
+                    value={sampler}
+                    onChange={(value) => setSampler(String(value))}
+                    helperText="Used for rows without a sampler column"
+                  />
+                </Grid>
+              </Grid>
+            )}
+          </Stack>
+        )}
+
+        {step === 1 && (
+          <Stack spacing={2}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Column')}</TableCell>
+                  <TableCell>{t('Sample values')}</TableCell>
+                  <TableCell sx={{ minWidth: 200 }}>{t('Import as')}</TableCell>
+                  <TableCell sx={{ minWidth: 120 }}>{t('Unit')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {header.map((cell, column) => {
+                  const { target, unit } = mapping[column];
+                  return (
+                    <TableRow key={column}>
+                      <TableCell>{cellText(cell) || t('Column {number}', { number: column + 1 })}</TableCell>
+                      <TableCell sx={{ color: 'text.secondary' }}>
+                        {rows
+                          .slice(0, 3)
+                          .map((row) => cellText(row[column]))
+                          .join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        <FormField
+                          label="Import as"
+                          type="select"
+                          value={target}
+                          onChange={handleTargetChange(column)}
+                          options={columnTargetOptions}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {isParameter(target) && importUnits[target].length > 1 && (
+                          <FormField
+                            label="Unit"
+                            type="select"
+                            value={unit}
+                            onChange={handleUnitChange(column)}
+                            options={importUnits[target].map((option) => ({ value: option.unit, label: option.unit }))}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <Grid container spacing={2}>
+              {mapping.some(({ target }) => target === 'date') && (
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Date format"
+                    type="select"
+                    value={dateOrder}
+                    onChange={(value) => setDateOrder(value as DateOrder)}
+                    options={dateOrderOptions}
+                    helperText={
+                      dateAmbiguous
+                        ? 'Every date in the file reads both ways; check the order'
+                        : 'Detected from the dates in the file'
+                    }
+                  />
+                </Grid>
+              )}
+              {mapping.some(({ target }) => isParameter(target)) && (
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Decimal separator"
+                    type="select"
+                    value={decimalSeparator}
+                    onChange={(value) => setDecimalSeparator(value as DecimalSeparator)}
+                    options={decimalSeparatorOptions}
+                    helperText={
+                      decimalAmbiguous
+                        ? 'The numbers in the file do not settle the separator; check it'
+                        : 'Detected from the numbers in the file'
+                    }
+                  />
+                </Grid>
+              )}
+            </Grid>
+            {!hasPondColumn && !pondId && (
+              <Alert severity="warning">{t('Map a Pond column or choose a pond in the previous step.')}</Alert>
+            )}
+            {issues.map((issue) => (
+              <Alert key={issue.message + JSON.stringify(issue.params)} severity="warning">
+                {issueText(issue)}
+              </Alert>
+            ))}
+          </Stack>
+        )}
+
+        {step === 2 && (
+          <Stack spacing={2}>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+              <Chip color="success" label={t('{count} ready to import', { count: ready.length })} />
+              <Chip color="error" label={t('{count} with errors', { count: failed.length })} />
+              <Chip label={t('{count} already saved', { count: duplicates.length })} />
+              <FormControlLabel
+                control={<Switch checked={problemsOnly} onChange={(event) => setProblemsOnly(event.target.checked)} />}
+                label={t('Show only rows with problems')}
+              />
+            </Stack>
+            <Box sx={{ maxHeight: 420, overflow: 'auto' }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('Row')}</TableCell>
+                    <TableCell>{t('Date')}</TableCell>
+                    <TableCell>{t('Pond')}</TableCell>
+                    {mappedParameters.map((parameter) => (
+                      <TableCell key={parameter}>
+                        {t(waterQualityParameters[parameter].name)}
+                        {waterQualityParameters[parameter].unit && ` (${waterQualityParameters[parameter].unit})`}
+                      </TableCell>
+                    ))}
+                    <TableCell>{t('Problems')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {shownRows.map((row) => (
+                    <TableRow
+                      key={row.line}
+                      sx={{
+                        bgcolor: row.errors.length ? 'error.light' : row.duplicate ? 'action.hover' : undefined,
+                        '& td': row.errors.length ? { color: 'error.contrastText' } : undefined,
+                      }}
+                    >
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.reading ? new Date(row.reading.takenAt).toLocaleString() : '—'}</TableCell>
+                      <TableCell>
+                        {row.reading ? ponds.find((pond) => pond.id === row.reading!.pondId)?.name ?? '' : '—'}
+                      </TableCell>
+                      {mappedParameters.map((parameter) => {
+                        const value = row.reading?.values[parameter];
+                        return (
+                          <TableCell key={parameter}>
+                            {value === undefined ? (
+                              '—'
+                            ) : (
+                              <Chip
+                                size="small"
+                                label={value}
+                                color={statusColor[analyzeParameter(parameter, value).status]}
+                                variant="outlined"
+                              />
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell>
+                        {row.errors.map((issue) => (
+                          <div key={issue.message + JSON.stringify(issue.params)}>{issueText(issue)}</div>
+                        ))}
+                        {row.warnings.map((issue) => (
+                          <Typography key={issue.message + JSON.stringify(issue.params)} variant="body2" color="warning.main">
+                            {issueText(issue)}
+                          </Typography>
+                        ))}
+                        {row.duplicate && t('Already saved for this pond and time; skipped')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+            {importRows.length > PREVIEW_ROWS && (
+              <Typography variant="body2" color="text.secondary">
+                {t('Showing the first {count} rows.', { count: PREVIEW_ROWS })}
+              </Typography>
+            )}
+          </Stack>
+        )}
+
+        {step === 3 && imported && (
+          <Stack spacing={2}>
+            <Alert severity="success">{t('{count} readings imported.', { count: imported.count })}</Alert>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Parameter')}</TableCell>
+                  {(['Optimal', 'Warning', 'Critical'] as QualityStatus[]).map((status) => (
+                    <TableCell key={status} align="right">
+                      {t(status)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {(Object.entries(imported.summary) as [WaterQualityParameter, Record<QualityStatus, number>][]).map(
+                  ([parameter, counts]) => (
+                    <TableRow key={parameter}>
+                      <TableCell>{t(waterQualityParameters[parameter].name)}</TableCell>
+                      {(['Optimal', 'Warning', 'Critical'] as QualityStatus[]).map((status) => (
+                        <TableCell key={status} align="right">
+                          {counts[status] > 0 ? (
+                            <Chip size="small" color={statusColor[status]} label={counts[status]} />
+                          ) : (
+                            0
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 3 ? (
+          <Button variant="contained" onClick={handleClose}>
+            {t('Close')}
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose}>{t('Cancel')}</Button>
+            {step > 0 && <Button onClick={() => setStep(step - 1)}>{t('Back')}</Button>}
+            {step < 2 && (
+              <Button variant="contained" onClick={() => setStep(step + 1)} disabled={!canContinue}>
+                {t('Next')}
+              </Button>
+            )}
+            {step === 2 && (
+              <Button variant="contained" onClick={handleImport} disabled={saving || ready.length === 0}>
+                {t('Import {count} readings', { count: ready.length })}
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
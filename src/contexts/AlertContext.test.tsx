@@ -0,0 +1,167 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, cleanup, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AlertEvent, AlertRule, SensorDevice, WaterQualityReading } from '../types/records';
+import { AlertProvider, useAlerts } from './AlertContext';
+import type { DeviceStatus, LiveReading } from './SensorContext';
+
+const db = vi.hoisted(() => ({
+  stores: {} as Record<string, unknown[]>,
+  putRecord: vi.fn(() => Promise.resolve()),
+  putRecords: vi.fn(() => Promise.resolve()),
+}));
+const sensors = vi.hoisted(() => ({
+  devices: [] as SensorDevice[],
+  live: {} as Record<string, LiveReading>,
+  status: {} as Record<string, DeviceStatus>,
+}));
+
+vi.mock('../db', () => ({
+  useCollection: (store: string) => [db.stores[store] ?? [], () => undefined, true],
+  putRecord: db.putRecord,
+  putRecords: db.putRecords,
+}));
+vi.mock('./SensorContext', () => ({
+  useSensors: () => ({
+    devices: sensors.devices,
+    live: sensors.live,
+    deviceStatus: (device: SensorDevice) => sensors.status[device.id] ?? 'off',
+  }),
+}));
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+
+const lowOxygen: AlertRule = {
+  id: 'low-do',
+  name: 'Low oxygen',
+  metric: 'dissolvedOxygen',
+  pondId: '',
+  comparator: 'below',
+  threshold: 4,
+  durationMinutes: 30,
+  severity: 'critical',
+  enabled: true,
+};
+
+const reading = (minutes: number, dissolvedOxygen: number): WaterQualityReading => ({
+  id: `r${minutes}`,
+  pondId: 'p1',
+  takenAt: minutesAgo(minutes),
+  sampler: '',
+  source: 'manual',
+  values: { dissolvedOxygen },
+  notes: '',
+});
+
+const probe = { id: 'probe', name: 'Probe 1', pondId: 'p1', enabled: true } as SensorDevice;
+
+const liveOxygen = (dissolvedOxygen: number, simulated = false): LiveReading => ({
+  takenAt: minutesAgo(0),
+  receivedAt: Date.now(),
+  values: { dissolvedOxygen },
+  valueReceivedAt: { dissolvedOxygen: Date.now() },
+  simulated,
+});
+
+const event = (id: string, severity: AlertEvent['severity'], changes: Partial<AlertEvent> = {}): AlertEvent => ({
+  id,
+  key: id,
+  ruleId: 'rule',
+  ruleName: 'Rule',
+  severity,
+  pondId: 'p1',
+  subject: 'North pond',
+  message: '',
+  params: {},
+  raisedAt: minutesAgo(10),
+  clearedAt: null,
+  acknowledgedAt: null,
+  snoozedUntil: null,
+  history: [],
+  ...changes,
+});
+
+let alerts: ReturnType<typeof useAlerts>;
+const Probe = () => {
+  alerts = useAlerts();
+  return null;
+};
+const renderAlerts = () =>
+  render(
+    <AlertProvider>
+      <Probe />
+    </AlertProvider>
+  );
+
+// Alert events written by the provider's checks.
+const written = () => db.putRecords.mock.calls.flatMap((call) => (call as unknown as [string, AlertEvent[]])[1]);
+
+beforeEach(() => {
+  db.stores = { alertRules: [lowOxygen], ponds: [{ id: 'p1', name: 'North pond' }] };
+  sensors.devices = [probe];
+  sensors.live = {};
+  sensors.status = {};
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+describe('AlertProvider', () => {
+  it('raises an alert once saved and live readings span the duration', () => {
+    db.stores.waterQualityReadings = [reading(40, 3.5)];
+    sensors.live = { probe: liveOxygen(3.1) };
+    sensors.status = { probe: 'live' };
+    renderAlerts();
+    expect(written()).toEqual([
+      expect.objectContaining({ key: 'low-do:p1', subject: 'North pond', params: expect.objectContaining({ value: 3.1 }) }),
+    ]);
+  });
+
+  it('leaves out simulated and stale probes', () => {
+    db.stores.waterQualityReadings = [reading(40, 3.5)];
+    sensors.live = { probe: liveOxygen(3.1, true) };
+    sensors.status = { probe: 'live' };
+    const { rerender } = renderAlerts();
+    sensors.live = { probe: liveOxygen(3.1) };
+    sensors.status = { probe: 'stale' };
+    rerender(
+      <AlertProvider>
+        <Probe />
+      </AlertProvider>
+    );
+    expect(db.putRecords).not.toHaveBeenCalled();
+  });
+
+  it('does not raise an alert twice while its write is on the way', () => {
+    db.stores.waterQualityReadings = [reading(40, 3.5), reading(5, 3.2)];
+    const { rerender } = renderAlerts();
+    sensors.live = { probe: liveOxygen(3.1) };
+    sensors.status = { probe: 'live' };
+    rerender(
+      <AlertProvider>
+        <Probe />
+      </AlertProvider>
+    );
+    expect(written()).toHaveLength(1);
+  });
+
+  it('lists active alerts most severe first and records acknowledgements', () => {
+    db.stores.alertRules = [];
+    db.stores.alertEvents = [
+      event('warning', 'warning'),
+      event('critical', 'critical'),
+      event('cleared', 'critical', { clearedAt: minutesAgo(1) }),
+      event('snoozed', 'critical', { snoozedUntil: new Date(Date.now() + 3600000).toISOString() }),
+    ];
+    renderAlerts();
+    expect(alerts.active.map((active) => active.id)).toEqual(['critical', 'warning']);
+    act(() => alerts.acknowledge(alerts.active[0]));
+    expect(db.putRecord).toHaveBeenCalledWith(
+      'alertEvents',
+      expect.objectContaining({ id: 'critical', acknowledgedAt: expect.any(String) })
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { putRecord, putRecords, useCollection } from '../db';
+import { acknowledgeAlert, activeAlerts, evaluateAlertRules, reconcileAlerts, snoozeAlert } from '../engine';
+import type { AlertSample } from '../engine';
+import type { AlertEvent } from '../types/records';
+import { useSensors } from './SensorContext';
+
+interface AlertContextType {
+  events: AlertEvent[];
+  active: AlertEvent[]; // open, unacknowledged and not snoozed; most severe first
+  acknowledge: (event: AlertEvent) => void;
+  snooze: (event: AlertEvent, hours: number) => void;
+}
+
+const AlertContext = createContext<AlertContextType | undefined>(undefined);
+
+export const useAlerts = () => {
+  const context = useContext(AlertContext);
+  if (!context) {
+    throw new Error('useAlerts must be used within an AlertProvider');
+  }
+  return context;
+};
+
+// Re-check on a timer too: readings go stale and snoozes end without any new data.
+const CHECK_INTERVAL = 60000;
+
+export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [rules, , rulesLoaded] = useCollection('alertRules');
+  const [events, , eventsLoaded] = useCollection('alertEvents');
+  const [readings, , readingsLoaded] = useCollection('waterQualityReadings');
+  const [ponds, , pondsLoaded] = useCollection('ponds');
+  const [inventory, , inventoryLoaded] = useCollection('inventoryItems');
+  const [tasks, , tasksLoaded] = useCollection('calendarTasks');
+  const { devices, live, deviceStatus } = useSensors();
+  const [now, setNow] = useState(() => new Date());
+  // Events written but not yet back from the store, so a quick second check does not raise them again.
+  const pending = useRef(new Map<string, AlertEvent>());
+
+  const loaded = rulesLoaded && eventsLoaded && readingsLoaded && pondsLoaded && inventoryLoaded && tasksLoaded;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    // Only probes still reporting; simulated values never raise alerts.
+    const liveSamples: AlertSample[] = devices
+      .filter((device) => device.pondId && deviceStatus(device) === 'live' && !live[device.id].simulated)
+      .map((device) => ({ pondId: device.pondId, takenAt: live[device.id].takenAt, values: live[device.id].values }));
+    const checkedAt = new Date();
+    const findings = evaluateAlertRules(rules, {
+      samples: [...readings, ...liveSamples],
+      ponds,
+      inventory,
+      tasks,
+      now: checkedAt,
+    });
+    const current = new Map(events.map((event) => [event.id, event]));
+    pending.current.forEach((event, id) => current.set(id, event));
+    const changed = reconcileAlerts([...current.values()], findings, checkedAt);
+    if (!changed.length) return;
+    changed.forEach((event) => pending.current.set(event.id, event));
+    putRecords('alertEvents', changed)
+      .catch((error) => {
+        console.error('Failed to save alerts', error);
+      })
+      .finally(() => changed.forEach((event) => pending.current.delete(event.id)));
+  }, [loaded, rules, events, readings, ponds, inventory, tasks, devices, live, deviceStatus, now]);
+
+  const update = (event: AlertEvent) => {
+    putRecord('alertEvents', event).catch((error) => {
+      console.error('Failed to update alert', error);
+    });
+  };
+
+  const active = activeAlerts(events, now);
+
+  const value: AlertContextType = {
+    events,
+    active,
+    acknowledge: (event) => update(acknowledgeAlert(event, new Date())),
+    snooze: (event, hours) => {
+      const snoozedAt = new Date();
+      update(snoozeAlert(event, new Date(snoozedAt.getTime() + hours * 3600000), snoozedAt));
+    },
+  };
+
+  return <AlertContext.Provider value={value}>{children}</AlertContext.Provider>;
+};
+
+export default AlertProvider;
@@ -0,0 +1,61 @@
+import React, { createContext, useContext, useState } from 'react';
+import {
+  currencySymbol,
+  defaultCurrencySettings,
+  formatMoney,
+  formatNumber,
+  fromUsd,
+} from '../utils/currency';
+import type { CurrencySettings } from '../utils/currency';
+
+interface CurrencyContextType {
+  settings: CurrencySettings;
+  updateSettings: (changes: Partial<CurrencySettings>) => void;
+  symbol: string;
+  formatMoney: (value: number, digits?: number) => string;
+  formatNumber: (value: number, digits?: number) => string;
+  fromUsd: (value: number) => number;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
+
+const readSettings = (): CurrencySettings => {
+  try {
+    return { ...defaultCurrencySettings, ...JSON.parse(localStorage.getItem('currencySettings') ?? '{}') };
+  } catch {
+    return defaultCurrencySettings;
+  }
+};
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<CurrencySettings>(readSettings);
+
+  const updateSettings = (changes: Partial<CurrencySettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('currencySettings', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const value: CurrencyContextType = {
+    settings,
+    updateSettings,
+    symbol: currencySymbol(settings),
+    formatMoney: (amount, digits) => formatMoney(amount, settings, digits),
+    formatNumber: (amount, digits) => formatNumber(amount, settings, digits),
+    fromUsd: (amount) => fromUsd(amount, settings),
+  };
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
+
+export default CurrencyProvider;
@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { directionOf, isLanguage, loadMessages, translate } from '../i18n';
+import type { Direction, Language, Messages } from '../i18n';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  dir: Direction;
+  // Translates an English message; falls back to the English text until the catalog loads.
+  t: (message: string, params?: Record<string, string | number>) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(() => {
+    const saved = localStorage.getItem('language') ?? '';
+    return isLanguage(saved) ? saved : 'en';
+  });
+  const [messages, setMessages] = useState<Messages>({});
+  const dir = directionOf(language);
+
+  const setLanguage = (newLanguage: Language) => {
+    setLanguageState(newLanguage);
+    localStorage.setItem('language', newLanguage);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMessages(language)
+      .then((loaded) => {
+        if (!cancelled) setMessages(loaded);
+      })
+      .catch((error) => {
+        console.error(`Failed to load ${language} messages:`, error);
+        if (!cancelled) setMessages({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  const t = (message: string, params?: Record<string, string | number>) =>
+    translate(messages, message, params);
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, dir, t }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export default LanguageProvider;
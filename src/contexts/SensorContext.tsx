@@ -0,0 +1,280 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { putRecord, useCollection } from '../db';
+import {
+  applyCalibration,
+  createMqttClient,
+  defaultSensorSettings,
+  parseSensorPayload,
+  pollHttp,
+  SENSOR_PASSWORD_KEY,
+  simulateReading,
+  topicMatches,
+} from '../sensors';
+import type { MqttClient, MqttStatus, SensorSettings } from '../sensors';
+import type { SensorDevice, WaterQualityParameter, WaterQualityReading } from '../types/records';
+
+export type BrokerStatus = MqttStatus | 'off';
+export type DeviceStatus = 'off' | 'waiting' | 'live' | 'stale';
+
+export interface LiveReading {
+  takenAt: string; // ISO, as reported by the device
+  receivedAt: number; // ms, local clock
+  values: WaterQualityReading['values']; // calibrated
+  valueReceivedAt: Partial<Record<WaterQualityParameter, number>>; // ms, local clock, per parameter
+  simulated: boolean; // from the built-in simulator; shown but never saved or alerted on
+}
+
+export interface PondLiveReading {
+  takenAt: string; // newest of the pond's devices
+  values: WaterQualityReading['values'];
+  devices: SensorDevice[];
+  staleDevices: SensorDevice[];
+}
+
+interface SensorContextType {
+  settings: SensorSettings;
+  updateSettings: (changes: Partial<SensorSettings>) => void;
+  password: string;
+  setPassword: (password: string) => void;
+  brokerStatus: BrokerStatus;
+  brokerError: string;
+  devices: SensorDevice[];
+  live: Record<string, LiveReading>;
+  deviceErrors: Record<string, string>;
+  deviceStatus: (device: SensorDevice) => DeviceStatus;
+  pondLive: (pondId: string) => PondLiveReading | null;
+}
+
+const SensorContext = createContext<SensorContextType | undefined>(undefined);
+
+export const useSensors = () => {
+  const context = useContext(SensorContext);
+  if (!context) {
+    throw new Error('useSensors must be used within a SensorProvider');
+  }
+  return context;
+};
+
+const readSettings = (): SensorSettings => {
+  try {
+    return { ...defaultSensorSettings, ...JSON.parse(localStorage.getItem('sensorSettings') ?? '{}') };
+  } catch {
+    return defaultSensorSettings;
+  }
+};
+
+const STALE_CHECK_INTERVAL = 30000;
+
+export const SensorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<SensorSettings>(readSettings);
+  const [password, setPasswordState] = useState(() => localStorage.getItem(SENSOR_PASSWORD_KEY) ?? '');
+  const [devices] = useCollection('sensorDevices');
+  const [brokerStatus, setBrokerStatus] = useState<BrokerStatus>('off');
+  const [brokerError, setBrokerError] = useState('');
+  const [live, setLive] = useState<Record<string, LiveReading>>({});
+  const [deviceErrors, setDeviceErrors] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  // Transport callbacks outlive renders; they read the current devices and settings from here.
+  const devicesRef = useRef(devices);
+  devicesRef.current = devices;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const clientRef = useRef<MqttClient | null>(null);
+  const liveRef = useRef<Record<string, LiveReading>>({});
+  const lastSaved = useRef<Record<string, number>>({});
+
+  const updateSettings = (changes: Partial<SensorSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('sensorSettings', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const setPassword = (value: string) => {
+    setPasswordState(value);
+    localStorage.setItem(SENSOR_PASSWORD_KEY, value);
+  };
+
+  const setDeviceError = (deviceId: string, message: string) =>
+    setDeviceErrors((prev) => (prev[deviceId] === message ? prev : { ...prev, [deviceId]: message }));
+
+  const receive = (device: SensorDevice, payload: string, topic?: string) => {
+    const sample = parseSensorPayload(payload, topic);
+    if (!sample) {
+      setDeviceError(device.id, 'Could not read any values from the last message');
+      return;
+    }
+    setDeviceError(device.id, '');
+    const receivedAt = Date.now();
+    const calibrated = applyCalibration(sample.values, device.calibration);
+    const simulated = device.transport === 'simulator' || sample.simulated;
+    // Devices that publish one parameter per topic fill the reading in over several messages;
+    // a parameter not heard from within the device's stale time is dropped, not carried forward.
+    const previous = liveRef.current[device.id];
+    const staleBefore = receivedAt - device.staleMinutes * 60000;
+    const values: WaterQualityReading['values'] = {};
+    const valueReceivedAt: LiveReading['valueReceivedAt'] = {};
+    if (previous) {
+      (Object.keys(previous.values) as WaterQualityParameter[]).forEach((parameter) => {
+        const heardAt = previous.valueReceivedAt[parameter] ?? previous.receivedAt;
+        if (heardAt < staleBefore) return;
+        values[parameter] = previous.values[parameter];
+        valueReceivedAt[parameter] = heardAt;
+      });
+    }
+    (Object.keys(calibrated) as WaterQualityParameter[]).forEach((parameter) => {
+      values[parameter] = calibrated[parameter];
+      valueReceivedAt[parameter] = receivedAt;
+    });
+    liveRef.current = {
+      ...liveRef.current,
+      [device.id]: { takenAt: sample.takenAt, receivedAt, values, valueReceivedAt, simulated },
+    };
+    setLive(liveRef.current);
+    setNow(receivedAt);
+
+    // Simulated values would otherwise reach history charts, trend fits and alert rules.
+    const { recordMinutes } = settingsRef.current;
+    if (simulated || !device.pondId || recordMinutes <= 0) return;
+    if (receivedAt - (lastSaved.current[device.id] ?? 0) < recordMinutes * 60000) return;
+    lastSaved.current[device.id] = receivedAt;
+    putRecord('waterQualityReadings', {
+      id: `${receivedAt}-${device.id}`,
+      pondId: device.pondId,
+      takenAt: sample.takenAt,
+      sampler: device.name,
+      source: 'sensor',
+      values,
+      notes: '',
+    }).catch((error) => {
+      console.error('Failed to save sensor reading', error);
+    });
+  };
+  const receiveRef = useRef(receive);
+  receiveRef.current = receive;
+
+  const enabled = devices.filter((device) => device.enabled);
+  const mqttTopics = enabled
+    .filter((device) => device.transport === 'mqtt' && device.topic)
+    .map((device) => device.topic)
+    .sort()
+    .join('\n');
+  const httpKey = JSON.stringify(
+    enabled.filter((device) => device.transport === 'http').map(({ id, url, pollSeconds }) => [id, url, pollSeconds])
+  );
+  const simulatorKey = JSON.stringify(
+    enabled
+      .filter((device) => device.transport === 'simulator')
+      .map(({ id, topic, pollSeconds }) => [id, topic, pollSeconds])
+  );
+
+  useEffect(() => {
+    if (!settings.connect || !settings.brokerUrl) {
+      setBrokerStatus('off');
+      return undefined;
+    }
+    const client = createMqttClient({
+      url: settings.brokerUrl,
+      clientId: settings.clientId,
+      username: settings.username,
+      password,
+      onStatus: (status, message) => {
+        setBrokerStatus(status);
+        setBrokerError(message ?? '');
+      },
+      onMessage: (topic, payload) => {
+        devicesRef.current
+          .filter((device) => device.enabled && device.transport === 'mqtt' && topicMatches(device.topic, topic))
+          .forEach((device) => receiveRef.current(device, payload, topic));
+      },
+    });
+    clientRef.current = client;
+    return () => {
+      client.close();
+      clientRef.current = null;
+    };
+  }, [settings.connect, settings.brokerUrl, settings.clientId, settings.username, password]);
+
+  useEffect(() => {
+    if (brokerStatus === 'connected' && mqttTopics) clientRef.current?.subscribe(mqttTopics.split('\n'));
+  }, [brokerStatus, mqttTopics]);
+
+  useEffect(() => {
+    const stops = (JSON.parse(httpKey) as [string, string, number][]).map(([id, url, pollSeconds]) =>
+      pollHttp({
+        url,
+        intervalSeconds: pollSeconds,
+        onPayload: (payload) => {
+          const device = devicesRef.current.find((candidate) => candidate.id === id);
+          if (device) receiveRef.current(device, payload);
+        },
+        onError: (message) => setDeviceError(id, message),
+      })
+    );
+    return () => stops.forEach((stop) => stop());
+  }, [httpKey]);
+
+  // Simulated devices also publish to the broker when connected, so an MQTT device
+  // subscribed to the same topic exercises the whole path.
+  useEffect(() => {
+    const timers = (JSON.parse(simulatorKey) as [string, string, number][]).map(([id, topic, pollSeconds]) => {
+      const publish = () => {
+        const device = devicesRef.current.find((candidate) => candidate.id === id);
+        if (!device) return;
+        const payload = JSON.stringify(simulateReading(id));
+        if (topic && !/[+#]/.test(topic)) clientRef.current?.publish(topic, payload);
+        receiveRef.current(device, payload, topic);
+      };
+      publish();
+      return setInterval(publish, Math.max(pollSeconds, 1) * 1000);
+    });
+    return () => timers.forEach((timer) => clearInterval(timer));
+  }, [simulatorKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), STALE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const deviceStatus = (device: SensorDevice): DeviceStatus => {
+    if (!device.enabled) return 'off';
+    const reading = live[device.id];
+    if (!reading) return 'waiting';
+    return now - reading.receivedAt > device.staleMinutes * 60000 ? 'stale' : 'live';
+  };
+
+  const pondLive = (pondId: string): PondLiveReading | null => {
+    const pondDevices = enabled.filter((device) => device.pondId === pondId && live[device.id]);
+    if (!pondId || !pondDevices.length) return null;
+    // Oldest first, so the newest device wins where two report the same parameter.
+    const readings = pondDevices
+      .map((device) => live[device.id])
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+    return {
+      takenAt: readings[readings.length - 1].takenAt,
+      values: Object.assign({}, ...readings.map((reading) => reading.values)),
+      devices: pondDevices,
+      staleDevices: pondDevices.filter((device) => deviceStatus(device) === 'stale'),
+    };
+  };
+
+  const value: SensorContextType = {
+    settings,
+    updateSettings,
+    password,
+    setPassword,
+    brokerStatus,
+    brokerError,
+    devices,
+    live,
+    deviceErrors,
+    deviceStatus,
+    pondLive,
+  };
+
+  return <SensorContext.Provider value={value}>{children}</SensorContext.Provider>;
+};
+
+export default SensorProvider;
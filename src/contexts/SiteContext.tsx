@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useState } from 'react';
+import { defaultSiteSettings, sitePressure } from '../utils/site';
+import type { SiteSettings } from '../utils/site';
+
+interface SiteContextType {
+  site: SiteSettings;
+  updateSite: (changes: Partial<SiteSettings>) => void;
+  pressure: number; // kPa
+}
+
+const SiteContext = createContext<SiteContextType | undefined>(undefined);
+
+export const useSite = () => {
+  const context = useContext(SiteContext);
+  if (!context) {
+    throw new Error('useSite must be used within a SiteProvider');
+  }
+  return context;
+};
+
+const readSite = (): SiteSettings => {
+  try {
+    return { ...defaultSiteSettings, ...JSON.parse(localStorage.getItem('siteSettings') ?? '{}') };
+  } catch {
+    return defaultSiteSettings;
+  }
+};
+
+export const SiteProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [site, setSite] = useState<SiteSettings>(readSite);
+
+  const updateSite = (changes: Partial<SiteSettings>) => {
+    setSite((prev) => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem('siteSettings', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const value: SiteContextType = {
+    site,
+    updateSite,
+    pressure: sitePressure(site),
+  };
+
+  return <SiteContext.Provider value={value}>{children}</SiteContext.Provider>;
+};
+
+export default SiteProvider;
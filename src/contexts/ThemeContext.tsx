@@ -3,6 +3,11 @@ import { ThemeProvider as MuiThemeProvider, createTheme } from '@mui/material/st
 import type { Theme, ThemeOptions } from '@mui/material/styles';
 import type { PaletteMode } from '@mui/material';
 import { deepmerge } from '@mui/utils';
+import createCache from '@emotion/cache';
+import { CacheProvider } from '@emotion/react';
+import { prefixer } from 'stylis';
+import rtlPlugin from 'stylis-plugin-rtl';
+import { useLanguage } from './LanguageContext';
 
 interface ThemeContextType {
   theme: Theme;
@@ -35,7 +40,7 @@ const baseTheme: ThemeOptions = {
   },
 };
 
-const lightTheme = createTheme(deepmerge(baseTheme, {
+const lightTheme: ThemeOptions = {
   palette: {
     mode: 'light' as const,
     primary: {
@@ -53,9 +58,9 @@ const lightTheme = createTheme(deepmerge(baseTheme, {
       paper: '#ffffff',
     },
   },
-}));
+};
 
-const darkTheme = createTheme(deepmerge(baseTheme, {
+const darkTheme: ThemeOptions = {
   palette: {
     mode: 'dark' as const,
     primary: {
@@ -73,9 +78,14 @@ const darkTheme = createTheme(deepmerge(baseTheme, {
       paper: '#1e1e1e',
     },
   },
-}));
+};
+
+// Right-to-left languages need their styles mirrored, which MUI leaves to emotion.
+const ltrCache = createCache({ key: 'css' });
+const rtlCache = createCache({ key: 'muirtl', stylisPlugins: [prefixer, rtlPlugin] });
 
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { dir } = useLanguage();
   const [mode, setMode] = useState<PaletteMode>(() => {
     const savedMode = localStorage.getItem('themeMode');
     return (savedMode as PaletteMode) || 'light';
@@ -83,8 +93,8 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const theme = React.useMemo(
     () =>
-      mode === 'light' ? lightTheme : darkTheme,
-    [mode]
+      createTheme(deepmerge(baseTheme, { ...(mode === 'light' ? lightTheme : darkTheme), direction: dir })),
+    [mode, dir]
   );
 
   const toggleTheme = () => {
@@ -102,7 +112,9 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   return (
     <ThemeContext.Provider value={{ theme, mode, toggleTheme }}>
-      <MuiThemeProvider theme={theme}>{children}</MuiThemeProvider>
+      <CacheProvider value={dir === 'rtl' ? rtlCache : ltrCache}>
+        <MuiThemeProvider theme={theme}>{children}</MuiThemeProvider>
+      </CacheProvider>
     </ThemeContext.Provider>
   );
 };
@@ -0,0 +1,76 @@
+import React, { createContext, useContext, useState } from 'react';
+import { convert, formatQuantity, quantityOf, unitForSystem } from '../units';
+import type { Unit, UnitSystem } from '../units';
+
+interface UnitsContextType {
+  system: UnitSystem;
+  setSystem: (system: UnitSystem) => void;
+  // Unit a field stored in `unit` is shown in: its own override, else the global system.
+  displayUnit: (unit: Unit, field?: string) => Unit;
+  setFieldUnit: (field: string, unit: Unit | null) => void;
+  // Converts a stored value to the display unit and appends the symbol.
+  format: (value: number, unit: Unit, digits?: number) => string;
+  toDisplay: (value: number, unit: Unit) => number;
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+export const useUnits = () => {
+  const context = useContext(UnitsContext);
+  if (!context) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+};
+
+const readOverrides = (): Record<string, Unit> => {
+  try {
+    return JSON.parse(localStorage.getItem('unitOverrides') ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const UnitsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [system, setSystemState] = useState<UnitSystem>(
+    () => (localStorage.getItem('unitSystem') as UnitSystem) || 'metric'
+  );
+  const [overrides, setOverrides] = useState<Record<string, Unit>>(readOverrides);
+
+  const setSystem = (newSystem: UnitSystem) => {
+    setSystemState(newSystem);
+    localStorage.setItem('unitSystem', newSystem);
+  };
+
+  const setFieldUnit = (field: string, unit: Unit | null) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (unit) {
+        next[field] = unit;
+      } else {
+        delete next[field];
+      }
+      localStorage.setItem('unitOverrides', JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const displayUnit = (unit: Unit, field?: string) => {
+    const override = field ? overrides[field] : undefined;
+    // Overrides are keyed by field label, so ignore one saved for a different quantity.
+    return override && quantityOf(override) === quantityOf(unit) ? override : unitForSystem(unit, system);
+  };
+
+  const toDisplay = (value: number, unit: Unit) => convert(value, unit, unitForSystem(unit, system));
+
+  const format = (value: number, unit: Unit, digits = 2) =>
+    formatQuantity(value, unit, unitForSystem(unit, system), digits);
+
+  return (
+    <UnitsContext.Provider value={{ system, setSystem, displayUnit, setFieldUnit, format, toDisplay }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+};
+
+export default UnitsProvider;
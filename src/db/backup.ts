@@ -0,0 +1,389 @@
+import { getAll, replaceAll } from './database';
+import { DB_VERSION, storeKeyPaths } from './schema';
+import type { StoreName, StoreRecordMap } from './schema';
+import { markBackedUp } from './backupStatus';
+
+// Whole-workspace archive: every object store plus the preferences kept in localStorage.
+// Bump BACKUP_VERSION whenever the file layout changes, and keep reading older versions.
+export const BACKUP_FORMAT = 'aquaculture-tools-backup';
+export const BACKUP_VERSION = 1;
+
+export type StoreData = { [S in StoreName]: StoreRecordMap[S][] };
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  dbVersion: number;
+  exportedAt: string;
+  stores: StoreData;
+  settings: Record<string, string>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+export type ConflictChoice = 'backup' | 'local';
+
+export const storeLabels: Record<StoreName, string> = {
+  batches: 'Production batches',
+  inventoryItems: 'Inventory',
+  calendarTasks: 'Calendar tasks',
+  feedingSchedules: 'Feeding schedules',
+  feedStock: 'Feed stock',
+  feedingHistory: 'Feeding history',
+  ponds: 'Ponds',
+  customSpecies: 'Custom species',
+  waterQualityReadings: 'Water-quality readings',
+  sensorDevices: 'Sensor devices',
+  alertRules: 'Alert rules',
+  alertEvents: 'Alert history',
+  climateStations: 'Climate stations',
+};
+
+// Preferences saved by the contexts; device-only bookkeeping such as backup times is left out.
+export const settingsKeys = ['themeMode', 'unitSystem', 'unitOverrides', 'currencySettings', 'siteSettings', 'sensorSettings', 'language'];
+
+type FieldType = 'string' | 'number' | 'array' | 'object' | 'date';
+
+// Fields every record must carry, checked before anything is written.
+const recordSchemas: { [S in StoreName]: Record<string, FieldType> } = {
+  batches: {
+    id: 'string',
+    name: 'string',
+    pondId: 'string',
+    speciesId: 'string',
+    stockingDate: 'string',
+    count: 'number',
+    meanWeight: 'number',
+    status: 'string',
+    growthSamples: 'array',
+    feedLogs: 'array',
+    mortalities: 'array',
+    treatments: 'array',
+    harvests: 'array',
+  },
+  inventoryItems: {
+    id: 'string',
+    name: 'string',
+    category: 'string',
+    quantity: 'number',
+    unit: 'string',
+    minThreshold: 'number',
+    cost: 'number',
+  },
+  calendarTasks: {
+    id: 'string',
+    title: 'string',
+    date: 'date',
+    type: 'string',
+    priority: 'string',
+    status: 'string',
+  },
+  feedingSchedules: { id: 'string', time: 'string', amount: 'number', type: 'string' },
+  feedStock: { type: 'string', amount: 'number', unit: 'string' },
+  feedingHistory: { id: 'number', date: 'string', amount: 'number' },
+  ponds: {
+    id: 'string',
+    name: 'string',
+    shape: 'string',
+    length: 'number',
+    width: 'number',
+    diameter: 'number',
+    area: 'number',
+    depth: 'number',
+    results: 'object',
+  },
+  customSpecies: {
+    id: 'string',
+    name: 'string',
+    waterQuality: 'object',
+    production: 'object',
+  },
+  waterQualityReadings: {
+    id: 'string',
+    pondId: 'string',
+    takenAt: 'date',
+    source: 'string',
+    values: 'object',
+  },
+  sensorDevices: {
+    id: 'string',
+    name: 'string',
+    pondId: 'string',
+    transport: 'string',
+    calibration: 'object',
+  },
+  alertRules: {
+    id: 'string',
+    name: 'string',
+    metric: 'string',
+    comparator: 'string',
+    threshold: 'number',
+    severity: 'string',
+  },
+  alertEvents: {
+    id: 'string',
+    key: 'string',
+    ruleId: 'string',
+    raisedAt: 'string',
+    history: 'array',
+  },
+  climateStations: {
+    id: 'string',
+    name: 'string',
+    latitude: 'number',
+    elevation: 'number',
+    normals: 'object',
+  },
+};
+
+const storeNames = Object.keys(storeKeyPaths) as StoreName[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasType = (value: unknown, type: FieldType) => {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    default:
+      return typeof value === type;
+  }
+};
+
+// JSON with sorted keys, so records compare equal regardless of property order.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (isObject(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const exportWorkspace = async (): Promise<WorkspaceBackup> => {
+  const stores = {} as StoreData;
+  for (const store of storeNames) {
+    (stores as Record<StoreName, unknown[]>)[store] = await getAll(store);
+  }
+  const settings: Record<string, string> = {};
+  settingsKeys.forEach((key) => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    dbVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    stores,
+    settings,
+  };
+};
+
+export const backupFileName = (backup: WorkspaceBackup) =>
+  `aquaculture-tools-backup-${backup.exportedAt.slice(0, 10)}.json`;
+
+// Triggers a download of the archive and records the backup time.
+export const downloadBackup = (backup: WorkspaceBackup) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = backupFileName(backup);
+  link.click();
+  URL.revokeObjectURL(url);
+  markBackedUp();
+};
+
+// Reads and validates an archive. Returns the problems found instead of throwing,
+// so the restore dialog can list every one of them.
+export const parseBackup = (text: string): { backup: WorkspaceBackup | null; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: ['The file is not valid JSON.'] };
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['The file is not an Aquaculture Tools backup.'] };
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    return { backup: null, errors: ['The backup was made by a newer version of the app. Update the app and try again.'] };
+  }
+  if (!isObject(data.stores)) {
+    return { backup: null, errors: ['The backup has no data section.'] };
+  }
+
+  const errors: string[] = [];
+  const stores = {} as StoreData;
+  Object.keys(data.stores).forEach((name) => {
+    if (!(name in storeKeyPaths)) errors.push(`Unknown data set "${name}".`);
+  });
+
+  storeNames.forEach((store) => {
+    const records = (data.stores as Record<string, unknown>)[store] ?? [];
+    if (!Array.isArray(records)) {
+      errors.push(`${storeLabels[store]}: expected a list of records.`);
+      return;
+    }
+    const schema = recordSchemas[store];
+    const keys = new Set<unknown>();
+    records.forEach((record, index) => {
+      if (!isObject(record)) {
+        errors.push(`${storeLabels[store]} #${index + 1}: not a record.`);
+        return;
+      }
+      Object.entries(schema).forEach(([field, type]) => {
+        if (!hasType(record[field], type)) {
+          errors.push(`${storeLabels[store]} #${index + 1}: "${field}" should be ${type === 'date' ? 'a date' : `a ${type}`}.`);
+        }
+      });
+      const key = record[storeKeyPaths[store]];
+      if (keys.has(key)) errors.push(`${storeLabels[store]} #${index + 1}: duplicate key "${String(key)}".`);
+      keys.add(key);
+    });
+    // Task dates are Date objects in the store; JSON carries them as ISO strings.
+    (stores as Record<StoreName, unknown[]>)[store] =
+      store === 'calendarTasks'
+        ? records.map((record) => ({ ...record, date: new Date(record.date) }))
+        : records;
+  });
+
+  const settings: Record<string, string> = {};
+  if (data.settings !== undefined && !isObject(data.settings)) {
+    errors.push('The settings section is not valid.');
+  } else if (isObject(data.settings)) {
+    Object.entries(data.settings).forEach(([key, value]) => {
+      if (settingsKeys.includes(key) && typeof value === 'string') settings[key] = value;
+    });
+  }
+
+  if (errors.length) return { backup: null, errors };
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: data.version,
+      dbVersion: typeof data.dbVersion === 'number' ? data.dbVersion : DB_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      stores,
+      settings,
+    },
+    errors: [],
+  };
+};
+
+export interface RecordConflict {
+  key: string;
+  fields: { field: string; local: string; backup: string }[];
+}
+
+export interface StoreDiff {
+  store: StoreName;
+  added: number; // in the backup only
+  localOnly: number; // on this device only
+  unchanged: number;
+  conflicts: RecordConflict[];
+}
+
+export interface WorkspaceDiff {
+  stores: StoreDiff[];
+  settingsConflicts: RecordConflict['fields'];
+}
+
+const keyOf = <S extends StoreName>(store: S, record: StoreRecordMap[S]) =>
+  String(record[storeKeyPaths[store]]);
+
+export const diffWorkspace = async (backup: WorkspaceBackup): Promise<WorkspaceDiff> => {
+  const stores: StoreDiff[] = [];
+  for (const store of storeNames) {
+    const local = new Map<string, unknown>();
+    (await getAll(store)).forEach((record) => local.set(keyOf(store, record), record));
+    const diff: StoreDiff = { store, added: 0, localOnly: 0, unchanged: 0, conflicts: [] };
+    const seen = new Set<string>();
+    (backup.stores[store] as StoreRecordMap[typeof store][]).forEach((record) => {
+      const key = keyOf(store, record);
+      seen.add(key);
+      const existing = local.get(key);
+      if (existing === undefined) {
+        diff.added += 1;
+      } else if (stableStringify(existing) === stableStringify(record)) {
+        diff.unchanged += 1;
+      } else {
+        const localRecord = existing as Record<string, unknown>;
+        const backupRecord = record as unknown as Record<string, unknown>;
+        const fields = Array.from(new Set([...Object.keys(localRecord), ...Object.keys(backupRecord)]))
+          .filter((field) => stableStringify(localRecord[field]) !== stableStringify(backupRecord[field]))
+          .map((field) => ({
+            field,
+            local: stableStringify(localRecord[field]) ?? '',
+            backup: stableStringify(backupRecord[field]) ?? '',
+          }));
+        diff.conflicts.push({ key, fields });
+      }
+    });
+    diff.localOnly = Array.from(local.keys()).filter((key) => !seen.has(key)).length;
+    stores.push(diff);
+  }
+
+  const settingsConflicts = Object.entries(backup.settings)
+    .filter(([key, value]) => {
+      const current = localStorage.getItem(key);
+      return current !== null && current !== value;
+    })
+    .map(([field, value]) => ({ field, local: localStorage.getItem(field) ?? '', backup: value }));
+
+  return { stores, settingsConflicts };
+};
+
+// Writes the archive into this device. Replace wipes each store first; merge keeps
+// records that exist only here and settles conflicting records by `onConflict`.
+// Returns true when preferences changed, which only take effect after a reload.
+export const restoreWorkspace = async (
+  backup: WorkspaceBackup,
+  mode: RestoreMode,
+  onConflict: ConflictChoice = 'backup'
+): Promise<boolean> => {
+  for (const store of storeNames) {
+    const incoming = backup.stores[store] as StoreRecordMap[typeof store][];
+    if (mode === 'replace') {
+      await replaceAll(store, incoming);
+      continue;
+    }
+    const merged = new Map<string, StoreRecordMap[typeof store]>();
+    (await getAll(store)).forEach((record) => merged.set(keyOf(store, record), record));
+    incoming.forEach((record) => {
+      const key = keyOf(store, record);
+      if (!merged.has(key) || onConflict === 'backup') merged.set(key, record);
+    });
+    await replaceAll(store, Array.from(merged.values()));
+  }
+
+  let settingsChanged = false;
+  if (mode === 'replace') {
+    settingsKeys.forEach((key) => {
+      const value = backup.settings[key];
+      if ((localStorage.getItem(key) ?? undefined) === value) return;
+      if (value === undefined) localStorage.removeItem(key);
+      else localStorage.setItem(key, value);
+      settingsChanged = true;
+    });
+  } else {
+    Object.entries(backup.settings).forEach(([key, value]) => {
+      const current = localStorage.getItem(key);
+      if (current === value || (current !== null && onConflict === 'local')) return;
+      localStorage.setItem(key, value);
+      settingsChanged = true;
+    });
+  }
+
+  // A full replace leaves the device holding exactly what the file holds.
+  if (mode === 'replace') markBackedUp();
+  return settingsChanged;
+};
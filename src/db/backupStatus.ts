@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+
+// Tracks whether the local data store holds changes that have not been backed up.
+// Timestamps live in localStorage so the flag survives reloads and works offline.
+export interface BackupStatus {
+  changedAt: string | null;
+  backedUpAt: string | null;
+  pending: boolean;
+}
+
+const CHANGED_KEY = 'dataChangedAt';
+const BACKED_UP_KEY = 'lastBackupAt';
+
+const listeners = new Set<(status: BackupStatus) => void>();
+
+export const getBackupStatus = (): BackupStatus => {
+  const changedAt = localStorage.getItem(CHANGED_KEY);
+  const backedUpAt = localStorage.getItem(BACKED_UP_KEY);
+  return {
+    changedAt,
+    backedUpAt,
+    pending: changedAt !== null && (backedUpAt === null || changedAt > backedUpAt),
+  };
+};
+
+const notify = () => {
+  const status = getBackupStatus();
+  listeners.forEach((listener) => listener(status));
+};
+
+export const markChanged = () => {
+  localStorage.setItem(CHANGED_KEY, new Date().toISOString());
+  notify();
+};
+
+export const markBackedUp = () => {
+  localStorage.setItem(BACKED_UP_KEY, new Date().toISOString());
+  notify();
+};
+
+export const subscribeBackupStatus = (listener: (status: BackupStatus) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useBackupStatus(): BackupStatus {
+  const [status, setStatus] = useState<BackupStatus>(getBackupStatus);
+
+  useEffect(() => {
+    const unsubscribe = subscribeBackupStatus(setStatus);
+    // Other tabs write through their own copy of this module.
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CHANGED_KEY || event.key === BACKED_UP_KEY) {
+        setStatus(getBackupStatus());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return status;
+}
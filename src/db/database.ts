@@ -0,0 +1,131 @@
+import { DB_NAME, DB_VERSION, migrations } from './schema';
+import type { StoreName, StoreRecordMap } from './schema';
+import { markChanged } from './backupStatus';
+
+type Listener<S extends StoreName> = (items: StoreRecordMap[S][]) => void;
+// What the map holds; subscribe files each listener under its own store, so notify only
+// ever passes it that store's records.
+type StoredListener = (items: unknown[]) => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Map<StoreName, Set<StoredListener>>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        migrations
+          .filter((migration) => migration.version > event.oldVersion)
+          .forEach((migration) => migration.upgrade(db, transaction));
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab opened a newer schema: let it upgrade, reconnect on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const notify = <S extends StoreName>(store: S, items: StoreRecordMap[S][]) => {
+  listeners.get(store)?.forEach((listener) => listener(items));
+};
+
+export const subscribe = <S extends StoreName>(store: S, listener: Listener<S>) => {
+  if (!listeners.has(store)) {
+    listeners.set(store, new Set());
+  }
+  const stored = listener as StoredListener;
+  listeners.get(store)!.add(stored);
+  return () => {
+    listeners.get(store)?.delete(stored);
+  };
+};
+
+export const getAll = async <S extends StoreName>(store: S): Promise<StoreRecordMap[S][]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readonly');
+  return requestToPromise(transaction.objectStore(store).getAll());
+};
+
+export const getRecord = async <S extends StoreName>(
+  store: S,
+  key: IDBValidKey
+): Promise<StoreRecordMap[S] | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readonly');
+  return requestToPromise(transaction.objectStore(store).get(key));
+};
+
+// Overwrites the whole store in one transaction, so readers never see a half-written list.
+export const replaceAll = async <S extends StoreName>(store: S, items: StoreRecordMap[S][]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  objectStore.clear();
+  items.forEach((item) => objectStore.put(item));
+  await transactionDone(transaction);
+  markChanged();
+  notify(store, items);
+};
+
+export const putRecord = async <S extends StoreName>(store: S, item: StoreRecordMap[S]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).put(item);
+  await transactionDone(transaction);
+  markChanged();
+  notify(store, await getAll(store));
+};
+
+// Adds or updates many records in one transaction, e.g. a bulk import.
+export const putRecords = async <S extends StoreName>(store: S, items: StoreRecordMap[S][]) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  items.forEach((item) => objectStore.put(item));
+  await transactionDone(transaction);
+  markChanged();
+  notify(store, await getAll(store));
+};
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(key);
+  await transactionDone(transaction);
+  markChanged();
+  notify(store, await getAll(store));
+};
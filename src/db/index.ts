@@ -0,0 +1,17 @@
+export { openDatabase, subscribe, getAll, getRecord, replaceAll, putRecord, putRecords, deleteRecord } from './database';
+export { useCollection } from './useCollection';
+export { getBackupStatus, markBackedUp, useBackupStatus } from './backupStatus';
+export type { BackupStatus } from './backupStatus';
+export {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  storeLabels,
+  exportWorkspace,
+  downloadBackup,
+  parseBackup,
+  diffWorkspace,
+  restoreWorkspace,
+} from './backup';
+export type { WorkspaceBackup, RestoreMode, ConflictChoice, StoreDiff, WorkspaceDiff, RecordConflict } from './backup';
+export { DB_NAME, DB_VERSION, migrations, storeKeyPaths } from './schema';
+export type { StoreName, StoreRecordMap, Migration } from './schema';
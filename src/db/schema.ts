@@ -0,0 +1,271 @@
+import type {
+  GrowthRecord,
+  Batch,
+  InventoryItem,
+  Task,
+  FeedingSchedule,
+  FeedStock,
+  FeedingHistory,
+  Pond,
+  WaterQualityReading,
+  SensorDevice,
+  AlertRule,
+  AlertEvent,
+} from '../types/records';
+import type { SpeciesProfile } from '../species/catalog';
+import type { ClimateStation } from '../climate/normals';
+
+export const DB_NAME = 'aquaculture-tools';
+
+// Record type held by each object store.
+export interface StoreRecordMap {
+  batches: Batch;
+  inventoryItems: InventoryItem;
+  calendarTasks: Task;
+  feedingSchedules: FeedingSchedule;
+  feedStock: FeedStock;
+  feedingHistory: FeedingHistory;
+  ponds: Pond;
+  customSpecies: SpeciesProfile;
+  waterQualityReadings: WaterQualityReading;
+  sensorDevices: SensorDevice;
+  alertRules: AlertRule;
+  alertEvents: AlertEvent;
+  climateStations: ClimateStation;
+}
+
+export type StoreName = keyof StoreRecordMap;
+
+// Key path of each object store, as created by the migrations below.
+export const storeKeyPaths: { [S in StoreName]: keyof StoreRecordMap[S] & string } = {
+  batches: 'id',
+  inventoryItems: 'id',
+  calendarTasks: 'id',
+  feedingSchedules: 'id',
+  feedStock: 'type',
+  feedingHistory: 'id',
+  ponds: 'id',
+  customSpecies: 'id',
+  waterQualityReadings: 'id',
+  sensorDevices: 'id',
+  alertRules: 'id',
+  alertEvents: 'id',
+  climateStations: 'id',
+};
+
+export interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+const defaultFeedingSchedules: FeedingSchedule[] = [
+  { id: '1', time: '08:00', amount: 2.5, type: 'Starter Feed', notes: 'Morning feeding' },
+  { id: '2', time: '14:00', amount: 2.0, type: 'Grower Feed', notes: 'Afternoon feeding' },
+  { id: '3', time: '18:00', amount: 1.5, type: 'Finisher Feed', notes: 'Evening feeding' },
+];
+
+const defaultFeedStock = (): FeedStock[] => {
+  const now = new Date().toISOString();
+  return [
+    { type: 'Starter Feed', amount: 50, unit: 'kg', lastUpdated: now },
+    { type: 'Grower Feed', amount: 75, unit: 'kg', lastUpdated: now },
+    { type: 'Finisher Feed', amount: 100, unit: 'kg', lastUpdated: now },
+  ];
+};
+
+// Starter rules from the limits individual pages already apply: the warmwater warning
+// bands, the inventory low-stock check and the calendar's overdue tasks.
+const rule = (fields: Omit<AlertRule, 'pondId' | 'enabled'>): AlertRule => ({ ...fields, pondId: '', enabled: true });
+const defaultAlertRules: AlertRule[] = [
+  rule({
+    id: 'do-low',
+    name: 'Low dissolved oxygen',
+    metric: 'dissolvedOxygen',
+    comparator: 'below',
+    threshold: 3,
+    durationMinutes: 0,
+    severity: 'critical',
+  }),
+  rule({
+    id: 'do-falling',
+    name: 'Dissolved oxygen below optimal',
+    metric: 'dissolvedOxygen',
+    comparator: 'below',
+    threshold: 5,
+    durationMinutes: 60,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'temperature-high',
+    name: 'High water temperature',
+    metric: 'temperature',
+    comparator: 'above',
+    threshold: 32,
+    durationMinutes: 120,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'ph-low',
+    name: 'Low pH',
+    metric: 'pH',
+    comparator: 'below',
+    threshold: 6,
+    durationMinutes: 0,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'ph-high',
+    name: 'High pH',
+    metric: 'pH',
+    comparator: 'above',
+    threshold: 9,
+    durationMinutes: 0,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'ammonia-high',
+    name: 'High ammonia',
+    metric: 'ammonia',
+    comparator: 'above',
+    threshold: 0.5,
+    durationMinutes: 0,
+    severity: 'critical',
+  }),
+  rule({
+    id: 'nitrite-high',
+    name: 'High nitrite',
+    metric: 'nitrite',
+    comparator: 'above',
+    threshold: 0.5,
+    durationMinutes: 0,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'low-stock',
+    name: 'Low stock',
+    metric: 'lowStock',
+    comparator: 'below',
+    threshold: 0,
+    durationMinutes: 0,
+    severity: 'warning',
+  }),
+  rule({
+    id: 'overdue-tasks',
+    name: 'Overdue task',
+    metric: 'overdueTasks',
+    comparator: 'above',
+    threshold: 0,
+    durationMinutes: 0,
+    severity: 'info',
+  }),
+];
+
+// Legacy growth records become batches in the growing stage with their samples attached.
+const growthRecordToBatch = (record: GrowthRecord): Batch => {
+  const samples = [...record.data].sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    id: record.id,
+    name: record.batchId,
+    pondId: '',
+    speciesId: record.species,
+    stockingDate: samples[0]?.date ?? new Date().toISOString().split('T')[0],
+    count: 0,
+    meanWeight: samples[0]?.weight ?? 0,
+    hatchery: '',
+    status: 'growing',
+    notes: '',
+    growthSamples: samples,
+    feedLogs: [],
+    mortalities: [],
+    treatments: [],
+    harvests: [],
+  };
+};
+
+// Migrations run in order for every version above the one already on disk.
+// Never edit a released migration; append a new one and bump nothing else.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Farm record stores with starter feed schedule and stock',
+    upgrade: (db, transaction) => {
+      db.createObjectStore('growthRecords', { keyPath: 'id' });
+      db.createObjectStore('inventoryItems', { keyPath: 'id' });
+      db.createObjectStore('calendarTasks', { keyPath: 'id' });
+      db.createObjectStore('feedingSchedules', { keyPath: 'id' });
+      db.createObjectStore('feedStock', { keyPath: 'type' });
+      db.createObjectStore('feedingHistory', { keyPath: 'id' });
+
+      const schedules = transaction.objectStore('feedingSchedules');
+      defaultFeedingSchedules.forEach((schedule) => schedules.put(schedule));
+      const stock = transaction.objectStore('feedStock');
+      defaultFeedStock().forEach((item) => stock.put(item));
+    },
+  },
+  {
+    version: 2,
+    description: 'Pond registry',
+    upgrade: (db) => {
+      db.createObjectStore('ponds', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 3,
+    description: 'User-defined and overridden species profiles',
+    upgrade: (db) => {
+      db.createObjectStore('customSpecies', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Production batches, absorbing Growth Tracker records',
+    upgrade: (db, transaction) => {
+      const batches = db.createObjectStore('batches', { keyPath: 'id' });
+      const request = transaction.objectStore('growthRecords').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          batches.put(growthRecordToBatch(cursor.value as GrowthRecord));
+          cursor.continue();
+        } else {
+          db.deleteObjectStore('growthRecords');
+        }
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Water-quality readings per pond',
+    upgrade: (db) => {
+      const readings = db.createObjectStore('waterQualityReadings', { keyPath: 'id' });
+      readings.createIndex('pondId', 'pondId');
+    },
+  },
+  {
+    version: 6,
+    description: 'Sensor devices streaming readings to ponds',
+    upgrade: (db) => {
+      db.createObjectStore('sensorDevices', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Alert rules with starter limits, and the alert history',
+    upgrade: (db, transaction) => {
+      db.createObjectStore('alertRules', { keyPath: 'id' });
+      db.createObjectStore('alertEvents', { keyPath: 'id' });
+      const rules = transaction.objectStore('alertRules');
+      defaultAlertRules.forEach((alertRule) => rules.put(alertRule));
+    },
+  },
+  {
+    version: 8,
+    description: 'User-entered and overridden climate station normals',
+    upgrade: (db) => {
+      db.createObjectStore('climateStations', { keyPath: 'id' });
+    },
+  },
+];
+
+export const DB_VERSION = migrations[migrations.length - 1].version;
@@ -0,0 +1,57 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { getAll, replaceAll, subscribe } from './database';
+import type { StoreName, StoreRecordMap } from './schema';
+
+type SetCollection<T> = (action: T[] | ((prev: T[]) => T[])) => void;
+
+// Drop-in replacement for useState<T[]> whose contents live in an object store.
+// Every mounted hook on the same store sees writes made through any of them.
+export function useCollection<S extends StoreName>(
+  store: S
+): [StoreRecordMap[S][], SetCollection<StoreRecordMap[S]>, boolean] {
+  type Item = StoreRecordMap[S];
+  const [items, setItems] = useState<Item[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const itemsRef = useRef<Item[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    const apply = (next: Item[]) => {
+      if (!active) return;
+      itemsRef.current = next;
+      setItems(next);
+    };
+
+    getAll(store)
+      .then((stored) => {
+        apply(stored);
+        if (active) setLoaded(true);
+      })
+      .catch((error) => {
+        console.error(`Failed to load ${store}`, error);
+        if (active) setLoaded(true);
+      });
+    const unsubscribe = subscribe(store, apply);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [store]);
+
+  const update = useCallback<SetCollection<Item>>(
+    (action) => {
+      const next = typeof action === 'function' ? action(itemsRef.current) : action;
+      itemsRef.current = next;
+      setItems(next);
+      replaceAll(store, next).catch((error) => {
+        console.error(`Failed to save ${store}`, error);
+      });
+    },
+    [store]
+  );
+
+  return [items, update, loaded];
+}
+
+export default useCollection;
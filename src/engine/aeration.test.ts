@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAeration } from './aeration';
+
+const pond = {
+  length: 50,
+  width: 20,
+  depth: 1.5,
+  fishQuantity: 10000,
+  averageWeight: 0.5,
+  temperature: 30,
+  dissolvedOxygen: 4,
+};
+
+describe('calculateAeration', () => {
+  it('sizes paddle wheels for a fresh-water pond at sea level', () => {
+    const result = calculateAeration(pond);
+    expect(result.waterVolume).toBe(1500);
+    expect(result.fishBiomass).toBe(5000);
+    // 5000 kg × 0.25 kg O₂/kg/day, 10 % more at 30 °C
+    expect(result.oxygenDemand).toBeCloseTo(1375, 6);
+    expect(result.oxygenSaturation).toBeCloseTo(7.559, 3);
+    expect(result.percentSaturation).toBeCloseTo(52.92, 2);
+    expect(result.aeratorOutput).toBeCloseTo(2, 9);
+    expect(result.requiredAerators).toBe(29);
+    expect(result.energyCost).toBeCloseTo(83.52, 6);
+    expect(result.riskLevel).toBe('medium');
+  });
+
+  it('derates aerators in brackish water at altitude', () => {
+    const result = calculateAeration({ ...pond, dissolvedOxygen: 2.5, salinity: 30, pressure: 85 });
+    expect(result.aeratorOutput).toBeCloseTo(1.411, 3);
+    expect(result.requiredAerators).toBe(41);
+    expect(result.energyCost).toBeCloseTo(118.08, 6);
+    expect(result.riskLevel).toBe('high');
+  });
+});
@@ -0,0 +1,95 @@
+import { oxygenSaturation, STANDARD_PRESSURE } from './oxygen';
+
+export interface AerationInput {
+  length: number; // m
+  width: number; // m
+  depth: number; // m
+  fishQuantity: number; // fish
+  averageWeight: number; // kg per fish
+  oxygenConsumption?: number; // kg O₂/kg fish/day, defaults to 0.25
+  temperature: number; // °C
+  dissolvedOxygen: number; // mg/L, current reading
+  salinity?: number; // ppt, defaults to fresh water
+  pressure?: number; // kPa, defaults to sea level
+  energyPrice?: number; // per kWh, defaults to ENERGY_PRICE
+}
+
+export type AerationRisk = 'low' | 'medium' | 'high';
+
+export interface AerationResult {
+  waterVolume: number; // m³
+  fishBiomass: number; // kg
+  oxygenDemand: number; // kg O₂/day
+  oxygenSaturation: number; // mg/L at the pond's temperature, salinity and pressure
+  percentSaturation: number; // current reading, % of saturation
+  aeratorOutput: number; // kg O₂/hour per aerator at this site
+  requiredAerators: number;
+  aeratorType: string;
+  maintenanceSchedule: string[];
+  energyCost: number; // per day, in the currency of energyPrice
+  recommendations: string[];
+  riskLevel: AerationRisk;
+}
+
+export const DEFAULT_OXYGEN_CONSUMPTION = 0.25; // kg O₂/kg fish/day
+export const AERATOR_OUTPUT = 2; // kg O₂/hour per 1 HP paddle wheel
+export const AERATOR_POWER = 1; // kW per aerator
+export const ENERGY_PRICE = 0.12; // US$/kWh
+
+export const calculateAeration = (input: AerationInput): AerationResult => {
+  const waterVolume = input.length * input.width * input.depth;
+  const fishBiomass = input.fishQuantity * input.averageWeight;
+
+  // 2% more demand per °C above 25°C (and less below)
+  const baseOxygenDemand = input.oxygenConsumption || DEFAULT_OXYGEN_CONSUMPTION;
+  const temperatureFactor = 1 + (input.temperature - 25) * 0.02;
+  const oxygenDemand = fishBiomass * baseOxygenDemand * temperatureFactor;
+
+  // Aerators are rated in fresh water at sea level; transfer scales with how much
+  // oxygen the water can hold, so they deliver less up a mountain or in brackish ponds.
+  const saturation = oxygenSaturation({
+    temperature: input.temperature,
+    salinity: input.salinity,
+    pressure: input.pressure ?? STANDARD_PRESSURE,
+  });
+  const aeratorOutput = AERATOR_OUTPUT * (saturation / oxygenSaturation({ temperature: input.temperature }));
+
+  const requiredAerators = Math.ceil(oxygenDemand / (aeratorOutput * 24));
+  const energyCost = requiredAerators * AERATOR_POWER * 24 * (input.energyPrice ?? ENERGY_PRICE);
+
+  const maintenanceSchedule = [
+    'Daily: Check aerator operation and clean water inlets',
+    'Weekly: Inspect electrical connections and mounting hardware',
+    'Monthly: Clean/replace filters and check motor bearings',
+    'Quarterly: Full system inspection and performance testing',
+  ];
+
+  const recommendations = [
+    `Install ${requiredAerators} aerators with minimum 1 HP capacity each`,
+    'Position aerators to ensure uniform oxygen distribution',
+    'Implement backup power system for emergency situations',
+    'Monitor dissolved oxygen levels during early morning hours',
+  ];
+
+  let riskLevel: AerationRisk = 'low';
+  if (input.dissolvedOxygen < 3) {
+    riskLevel = 'high';
+  } else if (input.dissolvedOxygen < 5) {
+    riskLevel = 'medium';
+  }
+
+  return {
+    waterVolume,
+    fishBiomass,
+    oxygenDemand,
+    oxygenSaturation: saturation,
+    percentSaturation: (input.dissolvedOxygen / saturation) * 100,
+    aeratorOutput,
+    requiredAerators,
+    aeratorType: '1 HP Paddle Wheel Aerator',
+    maintenanceSchedule,
+    energyCost,
+    recommendations,
+    riskLevel,
+  };
+};
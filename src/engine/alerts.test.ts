@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  acknowledgeAlert,
+  activeAlerts,
+  evaluateAlertRules,
+  isAlertActive,
+  reconcileAlerts,
+  snoozeAlert,
+} from './alerts';
+import type { AlertInputs, AlertSample } from './alerts';
+import type { AlertRule, InventoryItem, Task } from '../types/records';
+
+const now = new Date('2024-06-01T06:00:00Z');
+
+const lowOxygen: AlertRule = {
+  id: 'low-do',
+  name: 'Low oxygen',
+  metric: 'dissolvedOxygen',
+  pondId: '',
+  comparator: 'below',
+  threshold: 4,
+  durationMinutes: 30,
+  severity: 'critical',
+  enabled: true,
+};
+
+// Dissolved-oxygen samples for pond p1, minutes before now.
+const oxygen = (...readings: [number, number][]): AlertSample[] =>
+  readings.map(([minutesAgo, value]) => ({
+    pondId: 'p1',
+    takenAt: new Date(now.getTime() - minutesAgo * 60000).toISOString(),
+    values: { dissolvedOxygen: value },
+  }));
+
+const inputs = (samples: AlertSample[], changes: Partial<AlertInputs> = {}): AlertInputs => ({
+  samples,
+  ponds: [{ id: 'p1', name: 'North pond' }],
+  inventory: [],
+  tasks: [],
+  now,
+  ...changes,
+});
+
+describe('evaluateAlertRules', () => {
+  it('raises once the breaching readings span the duration', () => {
+    const [finding] = evaluateAlertRules([lowOxygen], inputs(oxygen([60, 5], [40, 3.8], [25, 3.5], [10, 3.2])));
+    expect(finding.key).toBe('low-do:p1');
+    expect(finding.subject).toBe('North pond');
+    expect(finding.params).toEqual({
+      parameter: 'Dissolved Oxygen',
+      pond: 'North pond',
+      value: 3.2,
+      threshold: 4,
+      unit: 'mg/L',
+    });
+  });
+
+  it('waits while the breaching readings span less than the duration', () => {
+    expect(evaluateAlertRules([lowOxygen], inputs(oxygen([60, 5], [25, 3.5], [10, 3.2])))).toEqual([]);
+    // A good reading restarts the run.
+    expect(evaluateAlertRules([lowOxygen], inputs(oxygen([50, 3], [35, 4.5], [20, 3.5], [10, 3.2])))).toEqual([]);
+  });
+
+  it('does not count the silence after a single breaching reading', () => {
+    expect(evaluateAlertRules([lowOxygen], inputs(oxygen([300, 3])))).toEqual([]);
+    expect(evaluateAlertRules([{ ...lowOxygen, durationMinutes: 0 }], inputs(oxygen([300, 3])))).toHaveLength(1);
+  });
+
+  it('ignores ponds whose latest reading is more than a day old', () => {
+    const old = oxygen([26 * 60, 3], [25 * 60, 3]);
+    expect(evaluateAlertRules([{ ...lowOxygen, durationMinutes: 0 }], inputs(old))).toEqual([]);
+  });
+
+  it('keeps to the rule pond and skips disabled rules', () => {
+    const samples = [...oxygen([40, 3], [5, 3]), { pondId: 'p2', takenAt: now.toISOString(), values: { dissolvedOxygen: 2 } }];
+    expect(evaluateAlertRules([{ ...lowOxygen, pondId: 'p2', durationMinutes: 0 }], inputs(samples))).toEqual([
+      expect.objectContaining({ key: 'low-do:p2', subject: 'p2' }),
+    ]);
+    expect(evaluateAlertRules([{ ...lowOxygen, enabled: false }], inputs(samples))).toEqual([]);
+  });
+
+  it('flags stock at its minimum and tasks past the allowed days', () => {
+    const feed = { id: 'feed', name: 'Grower feed', quantity: 50, minThreshold: 50, unit: 'kg' } as InventoryItem;
+    const lime = { id: 'lime', name: 'Lime', quantity: 80, minThreshold: 50, unit: 'kg' } as InventoryItem;
+    const task = (id: string, daysAgo: number, status: Task['status'] = 'Pending') =>
+      ({ id, title: id, date: new Date(now.getTime() - daysAgo * 86400000), status }) as Task;
+    const rules: AlertRule[] = [
+      { ...lowOxygen, id: 'stock', metric: 'lowStock' },
+      { ...lowOxygen, id: 'tasks', metric: 'overdueTasks', threshold: 1 },
+    ];
+    const findings = evaluateAlertRules(
+      rules,
+      inputs([], { inventory: [feed, lime], tasks: [task('late', 3), task('recent', 1), task('done', 5, 'Completed')] })
+    );
+    expect(findings.map((finding) => finding.key)).toEqual(['stock:feed', 'tasks:late']);
+    expect(findings[1].params).toEqual({ task: 'late', days: 3 });
+  });
+});
+
+describe('reconcileAlerts', () => {
+  const [finding] = evaluateAlertRules([lowOxygen], inputs(oxygen([30, 3], [0, 3])));
+
+  it('raises new findings and leaves open ones alone', () => {
+    const [raised] = reconcileAlerts([], [finding], now);
+    expect(raised).toMatchObject({
+      key: 'low-do:p1',
+      severity: 'critical',
+      raisedAt: now.toISOString(),
+      clearedAt: null,
+      history: [{ at: now.toISOString(), action: 'raised' }],
+    });
+    expect(reconcileAlerts([raised], [finding], now)).toEqual([]);
+  });
+
+  it('clears alerts whose condition has gone and raises a fresh one when it returns', () => {
+    const [raised] = reconcileAlerts([], [finding], now);
+    const later = new Date(now.getTime() + 3600000);
+    const [cleared] = reconcileAlerts([raised], [], later);
+    expect(cleared.clearedAt).toBe(later.toISOString());
+    expect(cleared.history.map((entry) => entry.action)).toEqual(['raised', 'cleared']);
+    const [again] = reconcileAlerts([cleared], [finding], later);
+    expect(again.id).not.toBe(raised.id);
+  });
+});
+
+describe('activeAlerts', () => {
+  const [critical] = reconcileAlerts([], evaluateAlertRules([lowOxygen], inputs(oxygen([30, 3], [0, 3]))), now);
+  const warning = { ...critical, id: 'w', key: 'w', severity: 'warning' as const };
+
+  it('lists open alerts most severe first', () => {
+    expect(activeAlerts([warning, critical], now).map((event) => event.id)).toEqual([critical.id, 'w']);
+  });
+
+  it('hides acknowledged alerts and snoozed ones until the snooze ends', () => {
+    const acknowledged = acknowledgeAlert(critical, now);
+    expect(isAlertActive(acknowledged, now)).toBe(false);
+    const snoozed = snoozeAlert(warning, new Date(now.getTime() + 3600000), now);
+    expect(snoozed.history.map((entry) => entry.action)).toEqual(['raised', 'snoozed']);
+    expect(activeAlerts([acknowledged, snoozed], now)).toEqual([]);
+    expect(activeAlerts([acknowledged, snoozed], new Date(now.getTime() + 7200000))).toEqual([snoozed]);
+  });
+});
@@ -0,0 +1,197 @@
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertSeverity,
+  InventoryItem,
+  Pond,
+  Task,
+  WaterQualityReading,
+} from '../types/records';
+import { waterQualityParameters } from './waterQuality';
+
+// Threshold alerts. evaluateAlertRules turns rules and current data into findings, one per
+// rule and subject that is in breach now; reconcileAlerts turns findings into alert events,
+// raising new ones and clearing those whose condition has gone.
+
+const MINUTE_MS = 60000;
+const HOUR_MS = 3600000;
+const DAY_MS = 86400000;
+
+// A pond whose latest value is older than this is not judged at all, so an offline probe
+// or an old import neither raises an alert nor keeps one open.
+export const ALERT_SAMPLE_MAX_AGE_HOURS = 24;
+
+export const severityRank: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+// A set of water-quality values measured at one time, from a saved reading or a live sensor.
+export interface AlertSample {
+  pondId: string;
+  takenAt: string; // ISO
+  values: WaterQualityReading['values'];
+}
+
+export interface AlertInputs {
+  samples: AlertSample[];
+  ponds: Pick<Pond, 'id' | 'name'>[];
+  inventory: InventoryItem[];
+  tasks: Task[];
+  now: Date;
+}
+
+export interface AlertFinding {
+  key: string;
+  rule: AlertRule;
+  pondId: string;
+  subject: string;
+  message: string; // keyed for t()
+  params: Record<string, string | number>;
+}
+
+const breaches = (rule: AlertRule, value: number) =>
+  rule.comparator === 'below' ? value < rule.threshold : value > rule.threshold;
+
+// How long the unbroken run of breaching values at the end of the series lasts, from its
+// first sample to its last, or null if the latest value is fine. A single sample lasts 0.
+const breachSpan = (rule: AlertRule, series: { time: number; value: number }[]): number | null => {
+  let start: number | null = null;
+  for (let i = series.length - 1; i >= 0 && breaches(rule, series[i].value); i--) {
+    start = series[i].time;
+  }
+  return start === null ? null : series[series.length - 1].time - start;
+};
+
+const waterQualityFindings = (rule: AlertRule, inputs: AlertInputs): AlertFinding[] => {
+  if (rule.metric === 'lowStock' || rule.metric === 'overdueTasks') return [];
+  const metric = rule.metric;
+  const range = waterQualityParameters[metric];
+  const byPond = new Map<string, { time: number; value: number }[]>();
+  inputs.samples.forEach((sample) => {
+    const value = sample.values[metric];
+    if (value === undefined || (rule.pondId && sample.pondId !== rule.pondId)) return;
+    const series = byPond.get(sample.pondId) ?? [];
+    series.push({ time: new Date(sample.takenAt).getTime(), value });
+    byPond.set(sample.pondId, series);
+  });
+
+  const findings: AlertFinding[] = [];
+  byPond.forEach((series, pondId) => {
+    series.sort((a, b) => a.time - b.time);
+    if (inputs.now.getTime() - series[series.length - 1].time > ALERT_SAMPLE_MAX_AGE_HOURS * HOUR_MS) return;
+    const span = breachSpan(rule, series);
+    if (span === null || span < rule.durationMinutes * MINUTE_MS) return;
+    const pond = inputs.ponds.find((candidate) => candidate.id === pondId)?.name ?? pondId;
+    findings.push({
+      key: `${rule.id}:${pondId}`,
+      rule,
+      pondId,
+      subject: pond,
+      message:
+        rule.comparator === 'below'
+          ? '{parameter} in {pond} is {value} {unit}, below {threshold} {unit}'
+          : '{parameter} in {pond} is {value} {unit}, above {threshold} {unit}',
+      params: {
+        parameter: range.name,
+        pond,
+        value: series[series.length - 1].value,
+        threshold: rule.threshold,
+        unit: range.unit,
+      },
+    });
+  });
+  return findings;
+};
+
+const lowStockFindings = (rule: AlertRule, inputs: AlertInputs): AlertFinding[] =>
+  inputs.inventory
+    .filter((item) => item.quantity <= item.minThreshold)
+    .map((item) => ({
+      key: `${rule.id}:${item.id}`,
+      rule,
+      pondId: '',
+      subject: item.name,
+      message: '{item} is down to {quantity} {unit} (minimum {minimum} {unit})',
+      params: { item: item.name, quantity: item.quantity, minimum: item.minThreshold, unit: item.unit },
+    }));
+
+const overdueTaskFindings = (rule: AlertRule, inputs: AlertInputs): AlertFinding[] => {
+  const today = new Date(inputs.now);
+  today.setHours(0, 0, 0, 0);
+  return inputs.tasks.flatMap((task) => {
+    const due = new Date(task.date);
+    due.setHours(0, 0, 0, 0);
+    const days = Math.round((today.getTime() - due.getTime()) / DAY_MS);
+    if (task.status !== 'Pending' || days <= 0 || days <= rule.threshold) return [];
+    return [
+      {
+        key: `${rule.id}:${task.id}`,
+        rule,
+        pondId: '',
+        subject: task.title,
+        message: '"{task}" is {days} days overdue',
+        params: { task: task.title, days },
+      },
+    ];
+  });
+};
+
+export const evaluateAlertRules = (rules: AlertRule[], inputs: AlertInputs): AlertFinding[] =>
+  rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) => {
+      if (rule.metric === 'lowStock') return lowStockFindings(rule, inputs);
+      if (rule.metric === 'overdueTasks') return overdueTaskFindings(rule, inputs);
+      return waterQualityFindings(rule, inputs);
+    });
+
+// Events to write so that exactly the current findings are open. An open event keeps the
+// values it was raised with; a condition that clears and comes back raises a new event.
+export const reconcileAlerts = (events: AlertEvent[], findings: AlertFinding[], now: Date): AlertEvent[] => {
+  const at = now.toISOString();
+  const open = new Map(events.filter((event) => !event.clearedAt).map((event) => [event.key, event]));
+  const changed: AlertEvent[] = [];
+  findings.forEach((finding) => {
+    if (open.delete(finding.key)) return;
+    changed.push({
+      id: `${now.getTime()}-${finding.key}`,
+      key: finding.key,
+      ruleId: finding.rule.id,
+      ruleName: finding.rule.name,
+      severity: finding.rule.severity,
+      pondId: finding.pondId,
+      subject: finding.subject,
+      message: finding.message,
+      params: finding.params,
+      raisedAt: at,
+      clearedAt: null,
+      acknowledgedAt: null,
+      snoozedUntil: null,
+      history: [{ at, action: 'raised' }],
+    });
+  });
+  open.forEach((event) => {
+    changed.push({ ...event, clearedAt: at, history: [...event.history, { at, action: 'cleared' }] });
+  });
+  return changed;
+};
+
+// Open, not acknowledged and not snoozed: the alerts the notification center counts.
+export const isAlertActive = (event: AlertEvent, now: Date) =>
+  !event.clearedAt && !event.acknowledgedAt && !(event.snoozedUntil && new Date(event.snoozedUntil) > now);
+
+// The active alerts, most severe first and then newest first.
+export const activeAlerts = (events: AlertEvent[], now: Date): AlertEvent[] =>
+  events
+    .filter((event) => isAlertActive(event, now))
+    .sort((a, b) => severityRank[b.severity] - severityRank[a.severity] || b.raisedAt.localeCompare(a.raisedAt));
+
+export const acknowledgeAlert = (event: AlertEvent, now: Date): AlertEvent => ({
+  ...event,
+  acknowledgedAt: now.toISOString(),
+  history: [...event.history, { at: now.toISOString(), action: 'acknowledged' }],
+});
+
+export const snoozeAlert = (event: AlertEvent, until: Date, now: Date): AlertEvent => ({
+  ...event,
+  snoozedUntil: until.toISOString(),
+  history: [...event.history, { at: now.toISOString(), action: 'snoozed', note: until.toISOString() }],
+});
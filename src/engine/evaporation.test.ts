@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEvaporation, daylightHours } from './evaporation';
+import type { EvaporationInput } from './evaporation';
+
+// FAO-56 Example 18: Brussels in July, with the summer mid-season day standing in for 6 July.
+const brussels: EvaporationInput = {
+  length: 100,
+  width: 50,
+  waterTemperature: 18,
+  airTemperature: 16.9,
+  humidity: 70.55,
+  windSpeed: 2.078 * 3.6,
+  sunlightHours: 9.25,
+  season: 'Summer',
+  cloudCover: 'Clear',
+  method: 'penmanMonteith',
+  latitude: 50.8,
+  elevation: 100,
+  temperatureRange: 9.2,
+  panEvaporation: 5,
+};
+
+describe('calculateEvaporation', () => {
+  it('reproduces the FAO-56 reference evapotranspiration for open water', () => {
+    const result = calculateEvaporation(brussels);
+    // The example gives 3.9 mm/day for the reference crop; open water is 1.05 times that.
+    expect(Math.abs(result.evaporationRate * 1000 / 1.05 - 3.9)).toBeLessThan(0.1);
+    expect(result.comparison.map((each) => each.rate)).toEqual([
+      expect.closeTo(1.1236, 4),
+      expect.closeTo(4.0073, 4),
+      expect.closeTo(4.1626, 4),
+      4,
+    ]);
+    expect(result.dailyEvaporation).toBeCloseTo(20.037, 3);
+    expect(result.riskLevel).toBe('Moderate');
+  });
+
+  it('shifts the season half a year south of the equator', () => {
+    expect(calculateEvaporation({ ...brussels, latitude: -50.8 }).comparison[1].rate).toBeCloseTo(4.2592, 4);
+  });
+
+  it('scales pan evaporation by the pan coefficient', () => {
+    expect(calculateEvaporation({ ...brussels, method: 'pan', panCoefficient: 0.7 }).evaporationRate).toBeCloseTo(0.0035, 9);
+  });
+
+  it('falls back to the empirical estimate when a method lacks its inputs', () => {
+    const result = calculateEvaporation({
+      length: 100,
+      width: 50,
+      waterTemperature: 30,
+      airTemperature: 28,
+      humidity: 60,
+      windSpeed: 20,
+      sunlightHours: 12,
+      season: 'Summer',
+      cloudCover: 'Clear',
+      method: 'hargreaves',
+    });
+    expect(result.comparison.filter((each) => each.rate === null).map((each) => each.method)).toEqual([
+      'penmanMonteith',
+      'hargreaves',
+      'pan',
+    ]);
+    expect(result.evaporationRate).toBeCloseTo(0.001617, 9);
+    expect(result.dailyEvaporation).toBeCloseTo(8.085, 9);
+    expect(result.riskLevel).toBe('Low');
+    expect(result.recommendations).toContain('Install windbreaks to reduce evaporation');
+  });
+});
+
+describe('daylightHours', () => {
+  it('gives twelve hours at the equator and long summer days up north', () => {
+    expect(daylightHours(0, 80)).toBeCloseTo(12, 9);
+    expect(daylightHours(50.8, 187)).toBeCloseTo(16.1, 1);
+  });
+});
@@ -0,0 +1,235 @@
+import { convert } from '../units';
+
+export type EvaporationRisk = 'Low' | 'Moderate' | 'High';
+
+// Empirical is the original weather-factor estimate; the others are the standard
+// methods of FAO Irrigation and Drainage Paper 56, scaled from a reference crop to open water.
+export type EvaporationMethod = 'empirical' | 'penmanMonteith' | 'hargreaves' | 'pan';
+
+export interface EvaporationInput {
+  length: number; // m
+  width: number; // m
+  waterTemperature: number; // °C
+  airTemperature: number; // °C
+  humidity: number; // % relative humidity
+  windSpeed: number; // km/h
+  sunlightHours: number; // h/day
+  season: string; // 'Spring' | 'Summer' | 'Fall' | 'Winter'
+  cloudCover: string; // 'Clear' | 'Partly Cloudy' | 'Mostly Cloudy' | 'Overcast'
+  method?: EvaporationMethod; // defaults to empirical
+  latitude?: number; // degrees, negative south of the equator; needed by Penman-Monteith and Hargreaves
+  elevation?: number; // m above sea level
+  temperatureRange?: number; // °C between the day's maximum and minimum air temperature
+  panEvaporation?: number; // mm/day measured in a class-A pan; needed by the pan method
+  panCoefficient?: number; // pond evaporation as a share of pan evaporation
+}
+
+export interface EvaporationEstimate {
+  method: EvaporationMethod;
+  rate: number | null; // mm/day, null when the method lacks an input
+  dailyEvaporation: number | null; // m³/day
+}
+
+export interface EvaporationResult {
+  evaporationRate: number; // m/day of water depth
+  dailyEvaporation: number; // m³/day
+  weeklyEvaporation: number; // m³
+  monthlyEvaporation: number; // m³ over 30 days
+  recommendations: string[];
+  riskLevel: EvaporationRisk;
+  method: EvaporationMethod;
+  comparison: EvaporationEstimate[]; // every method on the same inputs
+}
+
+export const evaporationMethods: Record<EvaporationMethod, string> = {
+  empirical: 'Weather factors (empirical)',
+  penmanMonteith: 'Penman-Monteith (FAO-56)',
+  hargreaves: 'Hargreaves',
+  pan: 'Class-A pan',
+};
+
+// FAO-56 Table 12 coefficient for open water under 2 m deep.
+const OPEN_WATER_COEFFICIENT = 1.05;
+// Boyd (1985) found fish ponds lose about 0.8 of class-A pan evaporation.
+export const DEFAULT_PAN_COEFFICIENT = 0.8;
+// Typical spread between day and night air temperature when no range is given.
+export const DEFAULT_TEMPERATURE_RANGE = 10;
+
+// Middle day of each season in the northern hemisphere; shifted half a year south of the equator.
+const seasonDays: Record<string, number> = {
+  'Winter': 15,
+  'Spring': 105,
+  'Summer': 196,
+  'Fall': 288,
+};
+
+// Saturation vapour pressure in kPa over water at a temperature in °C (FAO-56 eq. 11).
+const saturationVapourPressure = (temperature: number) =>
+  0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3));
+
+interface Sun {
+  extraterrestrial: number; // MJ/m²/day at the top of the atmosphere (eq. 21)
+  dayLength: number; // h (eq. 34)
+}
+
+// Sun on a day of the year (1-365) at a latitude.
+const sunAt = (latitude: number, day: number): Sun => {
+  const phi = (latitude * Math.PI) / 180;
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * day) / 365);
+  const declination = 0.409 * Math.sin((2 * Math.PI * day) / 365 - 1.39);
+  const sunset = Math.acos(Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(declination))));
+  return {
+    extraterrestrial:
+      ((24 * 60) / Math.PI) *
+      0.082 *
+      inverseDistance *
+      (sunset * Math.sin(phi) * Math.sin(declination) +
+        Math.cos(phi) * Math.cos(declination) * Math.sin(sunset)),
+    dayLength: (24 / Math.PI) * sunset,
+  };
+};
+
+const sunFor = (latitude: number, season: string): Sun =>
+  sunAt(latitude, ((seasonDays[season] ?? seasonDays.Spring) + (latitude < 0 ? 182 : 0)) % 365);
+
+// Hours from sunrise to sunset, the most sunshine a day can have.
+export const daylightHours = (latitude: number, day: number): number => sunAt(latitude, day).dayLength;
+
+// FAO-56 reference evapotranspiration in mm/day from daily weather (eq. 6), with wind
+// taken as measured at 2 m and soil heat flux ignored over a day.
+const penmanMonteith = (input: EvaporationInput, latitude: number): number => {
+  const elevation = input.elevation ?? 0;
+  const temperature = input.airTemperature;
+  const range = input.temperatureRange ?? DEFAULT_TEMPERATURE_RANGE;
+  const maxTemperature = temperature + range / 2;
+  const minTemperature = temperature - range / 2;
+
+  const pressure = 101.3 * ((293 - 0.0065 * elevation) / 293) ** 5.26;
+  const psychrometric = 0.000665 * pressure;
+  const slope = (4098 * saturationVapourPressure(temperature)) / (temperature + 237.3) ** 2;
+  const saturation = (saturationVapourPressure(maxTemperature) + saturationVapourPressure(minTemperature)) / 2;
+  const actual = (saturation * input.humidity) / 100;
+  const wind = input.windSpeed / 3.6;
+
+  const sun = sunFor(latitude, input.season);
+  const sunshine = sun.dayLength > 0 ? Math.min(1, input.sunlightHours / sun.dayLength) : 0;
+  const solar = (0.25 + 0.5 * sunshine) * sun.extraterrestrial;
+  const clearSky = (0.75 + 2e-5 * elevation) * sun.extraterrestrial;
+  const shortwave = 0.77 * solar;
+  const longwave =
+    4.903e-9 *
+    (((maxTemperature + 273.16) ** 4 + (minTemperature + 273.16) ** 4) / 2) *
+    (0.34 - 0.14 * Math.sqrt(actual)) *
+    (1.35 * (clearSky > 0 ? Math.min(1, solar / clearSky) : 0) - 0.35);
+  const net = shortwave - longwave;
+
+  return Math.max(
+    0,
+    (0.408 * slope * net + psychrometric * (900 / (temperature + 273)) * wind * (saturation - actual)) /
+      (slope + psychrometric * (1 + 0.34 * wind))
+  );
+};
+
+// Hargreaves reference evapotranspiration in mm/day from temperature alone (eq. 52).
+const hargreaves = (input: EvaporationInput, latitude: number): number => {
+  const range = input.temperatureRange ?? DEFAULT_TEMPERATURE_RANGE;
+  const { extraterrestrial } = sunFor(latitude, input.season);
+  return Math.max(0, 0.0023 * (input.airTemperature + 17.8) * Math.sqrt(Math.max(0, range)) * 0.408 * extraterrestrial);
+};
+
+const BASE_RATE = 0.1; // cm/day before weather adjustments
+
+const cloudCoverFactors: Record<string, number> = {
+  'Clear': 1,
+  'Partly Cloudy': 0.8,
+  'Mostly Cloudy': 0.6,
+  'Overcast': 0.4,
+};
+
+const seasonFactors: Record<string, number> = {
+  'Summer': 1.2,
+  'Spring': 1,
+  'Fall': 0.8,
+  'Winter': 0.6,
+};
+
+// Simplified empirical model, in mm/day.
+const empirical = (input: EvaporationInput): number => {
+  let rate = BASE_RATE;
+  rate *= 1 + (input.waterTemperature - input.airTemperature) * 0.05;
+  rate *= 1 + input.windSpeed * 0.02;
+  rate *= 1 - input.humidity / 200;
+  rate *= 1 + (input.sunlightHours / 24) * 0.5;
+  rate *= cloudCoverFactors[input.cloudCover] || 1;
+  rate *= seasonFactors[input.season] || 1;
+  return convert(rate, 'cm/day', 'mm/day');
+};
+
+const rateFor = (method: EvaporationMethod, input: EvaporationInput): number | null => {
+  const { latitude, panEvaporation } = input;
+  switch (method) {
+    case 'penmanMonteith':
+      return latitude === undefined ? null : OPEN_WATER_COEFFICIENT * penmanMonteith(input, latitude);
+    case 'hargreaves':
+      return latitude === undefined ? null : OPEN_WATER_COEFFICIENT * hargreaves(input, latitude);
+    case 'pan':
+      return panEvaporation === undefined ? null : panEvaporation * (input.panCoefficient ?? DEFAULT_PAN_COEFFICIENT);
+    default:
+      return empirical(input);
+  }
+};
+
+export const calculateEvaporation = (input: EvaporationInput): EvaporationResult => {
+  const { windSpeed, sunlightHours, method = 'empirical' } = input;
+  const surfaceArea = input.length * input.width;
+
+  const comparison = (Object.keys(evaporationMethods) as EvaporationMethod[]).map((each) => {
+    const rate = rateFor(each, input);
+    return { method: each, rate, dailyEvaporation: rate === null ? null : convert(rate, 'mm/day', 'm/day') * surfaceArea };
+  });
+  // mm/day; a method missing its inputs falls back to the empirical estimate
+  const rate = comparison.find((each) => each.method === method)?.rate ?? empirical(input);
+
+  const evaporationRate = convert(rate, 'mm/day', 'm/day');
+  const dailyEvaporation = evaporationRate * surfaceArea;
+
+  let riskLevel: EvaporationRisk = 'Low';
+  if (rate > 5) {
+    riskLevel = 'High';
+  } else if (rate > 3) {
+    riskLevel = 'Moderate';
+  }
+
+  const recommendations = [
+    'Monitor water levels daily during high evaporation periods',
+    'Consider installing shade structures to reduce evaporation',
+    'Maintain proper water depth to minimize temperature fluctuations',
+  ];
+
+  if (riskLevel === 'High') {
+    recommendations.push(
+      'Install water level monitoring system',
+      'Plan for emergency water supply',
+      'Consider reducing pond surface area during peak evaporation season'
+    );
+  }
+
+  if (windSpeed > 15) {
+    recommendations.push('Install windbreaks to reduce evaporation');
+  }
+
+  if (sunlightHours > 10) {
+    recommendations.push('Consider using pond covers during peak sunlight hours');
+  }
+
+  return {
+    evaporationRate,
+    dailyEvaporation,
+    weeklyEvaporation: dailyEvaporation * 7,
+    monthlyEvaporation: dailyEvaporation * 30,
+    recommendations,
+    riskLevel,
+    method,
+    comparison,
+  };
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFCR } from './fcr';
+
+describe('calculateFCR', () => {
+  it('compares the achieved ratio with the target and prices the excess feed', () => {
+    const result = calculateFCR({ initialBiomass: 100, finalBiomass: 600, feedGiven: 900, targetFcr: 1.5 });
+    expect(result.fcr).toBe(1.8);
+    expect(result.efficiency).toBe(-20);
+    expect(result.deviation).toBe(0.3);
+    // 900 kg at 45, against 500 kg gain × 1.5 at 45
+    expect(result.costImplications).toEqual({ currentCost: 40500, potentialSavings: 6750 });
+    expect(result.recommendations[0]).toBe('Monitor feeding behavior more closely');
+  });
+
+  it('reports no savings when the target is beaten', () => {
+    const result = calculateFCR({ initialBiomass: 100, finalBiomass: 600, feedGiven: 600, targetFcr: 1.5, feedCost: 2 });
+    expect(result.fcr).toBe(1.2);
+    expect(result.efficiency).toBe(20);
+    expect(result.costImplications).toEqual({ currentCost: 1200, potentialSavings: 0 });
+    expect(result.recommendations[0]).toBe('Maintain current feeding practices');
+  });
+});
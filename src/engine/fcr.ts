@@ -0,0 +1,82 @@
+export interface FcrInput {
+  initialBiomass: number; // kg
+  finalBiomass: number; // kg
+  feedGiven: number; // kg
+  targetFcr: number; // kg feed/kg gain for the species
+  feedCost?: number; // per kg, defaults to DEFAULT_FEED_COST
+}
+
+export interface FcrResult {
+  fcr: number; // kg feed/kg gain
+  efficiency: number; // % better (+) or worse (−) than target
+  targetFCR: number;
+  deviation: number; // fcr − target
+  recommendations: string[];
+  costImplications: {
+    currentCost: number; // in the currency of feedCost
+    potentialSavings: number; // feed cost above what the target FCR would need
+  };
+}
+
+export const DEFAULT_FEED_COST = 45; // per kg
+
+// Feed given per kg of weight gained.
+export const feedConversionRatio = (feed: number, weightGain: number) => feed / weightGain;
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const fcrEfficiency = (fcr: number, targetFcr: number) => ((targetFcr - fcr) / targetFcr) * 100;
+
+const fcrRecommendations = (fcr: number, targetFcr: number, efficiency: number): string[] => {
+  const recommendations: string[] = [];
+
+  if (fcr > targetFcr + 0.5) {
+    recommendations.push('Significant improvement needed in feed management');
+    recommendations.push('Review feeding frequency and portion sizes');
+    recommendations.push('Check for feed wastage during feeding');
+    recommendations.push('Assess water quality parameters');
+  } else if (fcr > targetFcr + 0.2) {
+    recommendations.push('Monitor feeding behavior more closely');
+    recommendations.push('Adjust feed amounts based on appetite');
+    recommendations.push('Consider feed quality and storage conditions');
+  } else if (fcr > targetFcr) {
+    recommendations.push('Fine-tune feeding schedule');
+    recommendations.push('Continue monitoring growth rates');
+    recommendations.push('Maintain current water quality');
+  } else {
+    recommendations.push('Maintain current feeding practices');
+    recommendations.push('Document successful management strategies');
+    recommendations.push('Consider sharing best practices');
+  }
+
+  if (efficiency < -20) {
+    recommendations.push('Urgent action needed to improve feed efficiency');
+    recommendations.push('Consider consulting a feed specialist');
+  }
+
+  return recommendations;
+};
+
+export const calculateFCR = (input: FcrInput): FcrResult => {
+  const { feedGiven, targetFcr, feedCost = DEFAULT_FEED_COST } = input;
+
+  const biomassGain = input.finalBiomass - input.initialBiomass;
+  const fcr = feedConversionRatio(feedGiven, biomassGain);
+  const efficiency = fcrEfficiency(fcr, targetFcr);
+
+  const currentCost = feedGiven * feedCost;
+  const idealCost = biomassGain * targetFcr * feedCost;
+  const potentialSavings = fcr > targetFcr ? currentCost - idealCost : 0;
+
+  return {
+    fcr: round2(fcr),
+    efficiency: round2(efficiency),
+    targetFCR: targetFcr,
+    deviation: round2(fcr - targetFcr),
+    recommendations: fcrRecommendations(fcr, targetFcr, efficiency),
+    costImplications: {
+      currentCost: round2(currentCost),
+      potentialSavings: round2(potentialSavings),
+    },
+  };
+};
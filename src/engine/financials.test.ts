@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { annualLoanPayment, calculateFinancials } from './financials';
+
+const input = {
+  capitalCosts: { pondConstruction: 50000, equipment: 20000, infrastructure: 10000, permits: 5000 },
+  operatingCosts: {
+    seedStock: 5000,
+    feed: 15000,
+    labor: 6000,
+    electricity: 2000,
+    maintenance: 1000,
+    chemicals: 500,
+    marketing: 500,
+  },
+  cyclesPerYear: 2,
+  productionPerCycle: 10000,
+  survivalRate: 80,
+  sellingPrice: 6,
+  loanAmount: 50000,
+  interestRate: 10,
+};
+
+describe('annualLoanPayment', () => {
+  it('repays the loan as a five-year annuity', () => {
+    expect(annualLoanPayment(50000, 10)).toBeCloseTo(13189.874, 3);
+    expect(annualLoanPayment(0, 10)).toBe(0);
+  });
+});
+
+describe('calculateFinancials', () => {
+  it('projects a year of revenue, profit and payback', () => {
+    const result = calculateFinancials(input);
+    expect(result.capitalCosts.total).toBe(85000);
+    expect(result.capitalCosts.breakdown[0]).toEqual({ name: 'pond Construction', value: 50000 });
+    expect(result.operatingCosts.total).toBe(30000);
+    expect(result.revenue.perCycle).toBeCloseTo(48000, 6);
+    expect(result.revenue.annual).toBeCloseTo(96000, 6);
+    expect(result.profitability.grossProfit).toBeCloseTo(36000, 6);
+    expect(result.profitability.netProfit).toBeCloseTo(22810.126, 3);
+    expect(result.profitability.roi).toBeCloseTo(16.896, 3);
+    expect(result.profitability.paybackPeriod).toBeCloseTo(5.918, 3);
+    expect(result.profitability.breakEvenPoint).toBeCloseTo(10000, 6);
+  });
+
+  it('books each cycle in the month it starts', () => {
+    const { cashFlow } = calculateFinancials(input);
+    expect(cashFlow).toHaveLength(12);
+    expect(cashFlow.filter((month) => month.income > 0).map((month) => cashFlow.indexOf(month))).toEqual([0, 6]);
+    expect(cashFlow[0].expenses).toBeCloseTo(30000 + 13189.874 / 12, 3);
+    expect(cashFlow[1].balance).toBeCloseTo(-13189.874 / 12, 3);
+  });
+});
@@ -0,0 +1,136 @@
+// Money amounts are in whatever currency the user enters them in.
+
+export interface CapitalCosts {
+  pondConstruction: number;
+  equipment: number;
+  infrastructure: number;
+  permits: number;
+}
+
+// Costs for a single production cycle.
+export interface OperatingCosts {
+  seedStock: number;
+  feed: number;
+  labor: number;
+  electricity: number;
+  maintenance: number;
+  chemicals: number;
+  marketing: number;
+}
+
+export interface FinancialInput {
+  capitalCosts: CapitalCosts;
+  operatingCosts: OperatingCosts;
+  cyclesPerYear: number;
+  productionPerCycle: number; // kg, before survival losses
+  survivalRate: number; // %
+  sellingPrice: number; // per kg
+  loanAmount: number;
+  interestRate: number; // % per year
+}
+
+export interface CostBreakdown {
+  name: string;
+  value: number;
+}
+
+export interface CashFlowMonth {
+  month: string;
+  income: number;
+  expenses: number;
+  balance: number;
+}
+
+export interface FinancialResult {
+  capitalCosts: {
+    total: number;
+    breakdown: CostBreakdown[];
+  };
+  operatingCosts: {
+    total: number; // per cycle
+    breakdown: CostBreakdown[];
+  };
+  revenue: {
+    annual: number; // per year
+    perCycle: number;
+  };
+  profitability: {
+    grossProfit: number; // per year
+    netProfit: number; // per year, after loan repayment
+    roi: number; // %
+    paybackPeriod: number; // years
+    breakEvenPoint: number; // kg per cycle
+  };
+  cashFlow: CashFlowMonth[];
+  recommendations: string[];
+}
+
+export const LOAN_TERM_YEARS = 5;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// 'pondConstruction' → 'pond Construction', as shown in the cost charts.
+const toBreakdown = (costs: CapitalCosts | OperatingCosts): CostBreakdown[] =>
+  Object.entries(costs).map(([name, value]) => ({
+    name: name.replace(/([A-Z])/g, ' $1').trim(),
+    value,
+  }));
+
+// Equal annual payment that repays the loan with interest over LOAN_TERM_YEARS.
+export const annualLoanPayment = (loanAmount: number, interestRate: number) => {
+  if (loanAmount <= 0) return 0;
+  const rate = interestRate / 100;
+  const growth = Math.pow(1 + rate, LOAN_TERM_YEARS);
+  return (loanAmount * rate * growth) / (growth - 1);
+};
+
+export const calculateFinancials = (input: FinancialInput): FinancialResult => {
+  const { capitalCosts, operatingCosts, cyclesPerYear, productionPerCycle, sellingPrice, loanAmount } = input;
+
+  const totalCapitalCosts = sum(Object.values(capitalCosts));
+  const totalOperatingCosts = sum(Object.values(operatingCosts));
+
+  const revenuePerCycle = productionPerCycle * (input.survivalRate / 100) * sellingPrice;
+  const annualRevenue = revenuePerCycle * cyclesPerYear;
+  const loanPayment = annualLoanPayment(loanAmount, input.interestRate);
+
+  const annualOperatingCosts = totalOperatingCosts * cyclesPerYear;
+  const grossProfit = annualRevenue - annualOperatingCosts;
+  const netProfit = grossProfit - loanPayment;
+  const totalInvestment = totalCapitalCosts + loanAmount;
+  const roi = (netProfit / totalInvestment) * 100;
+  const paybackPeriod = totalInvestment / netProfit;
+  const breakEvenPoint = totalOperatingCosts / (sellingPrice - (totalOperatingCosts / productionPerCycle));
+
+  // Income and cycle costs land in the month each cycle starts; loan payments are spread evenly.
+  const cashFlow = Array.from({ length: 12 }, (_, i) => {
+    const month = new Date(2024, i).toLocaleString('default', { month: 'short' });
+    const cycleMonth = i % (12 / cyclesPerYear) === 0 ? 1 : 0;
+    const income = (annualRevenue / cyclesPerYear) * cycleMonth;
+    const expenses = (annualOperatingCosts / cyclesPerYear) * cycleMonth + loanPayment / 12;
+    return { month, income, expenses, balance: income - expenses };
+  });
+
+  const recommendations = [];
+  if (roi < 15) {
+    recommendations.push('Consider ways to reduce operating costs');
+    recommendations.push('Explore higher-value markets or products');
+  }
+  if (paybackPeriod > 3) {
+    recommendations.push('Look for opportunities to increase production efficiency');
+    recommendations.push('Evaluate financing options to reduce debt burden');
+  }
+  if (operatingCosts.feed / totalOperatingCosts > 0.5) {
+    recommendations.push('Optimize feed management to reduce costs');
+    recommendations.push('Consider alternative feed sources');
+  }
+
+  return {
+    capitalCosts: { total: totalCapitalCosts, breakdown: toBreakdown(capitalCosts) },
+    operatingCosts: { total: totalOperatingCosts, breakdown: toBreakdown(operatingCosts) },
+    revenue: { annual: annualRevenue, perCycle: revenuePerCycle },
+    profitability: { grossProfit, netProfit, roi, paybackPeriod, breakEvenPoint },
+    cashFlow,
+    recommendations,
+  };
+};
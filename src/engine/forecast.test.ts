@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultForecastRates,
+  forecastBands,
+  forecastUncertainty,
+  forecastWaterQuality,
+  monteCarloRates,
+} from './forecast';
+import type { ForecastScenario } from './forecast';
+
+const scenario: ForecastScenario = {
+  startHour: 6,
+  hours: 48,
+  temperature: 28,
+  pH: 7.5,
+  dissolvedOxygen: 6,
+  ammonia: 0.5,
+  nitrite: 0.1,
+  nitrate: 2,
+  alkalinity: 100,
+  salinity: 0,
+  secchiDepth: 35,
+  area: 5000,
+  depth: 1.2,
+  fishBiomass: 3000,
+  feedRate: 60,
+  feedProtein: 32,
+  waterExchange: 5,
+  aeratorCapacity: 2,
+  aerationHours: 4,
+  cloudCover: 20,
+  rainfall: 0,
+  windSpeed: 2,
+  season: 'summer',
+  pressure: 101.325,
+};
+
+describe('forecastWaterQuality', () => {
+  it('starts from the readings and reports every hour', () => {
+    const points = forecastWaterQuality(scenario);
+    expect(points).toHaveLength(49);
+    expect(points[0]).toEqual({ hour: 0, temperature: 28, pH: 7.5, dissolvedOxygen: 6, ammonia: 0.5, nitrite: 0.1, nitrate: 2 });
+  });
+
+  it('pins the afternoon peak, the dawn low and the second day', () => {
+    const points = forecastWaterQuality(scenario);
+    expect(points[8]).toEqual({
+      hour: 8,
+      temperature: expect.closeTo(29.9874, 4),
+      pH: expect.closeTo(8.7067, 4),
+      dissolvedOxygen: expect.closeTo(11.5361, 4),
+      ammonia: expect.closeTo(0.539, 4),
+      nitrite: expect.closeTo(0.1236, 4),
+      nitrate: expect.closeTo(1.996, 4),
+    });
+    expect(points[24]).toEqual({
+      hour: 24,
+      temperature: expect.closeTo(28.3142, 4),
+      pH: expect.closeTo(7.5847, 4),
+      dissolvedOxygen: expect.closeTo(6.021, 4),
+      ammonia: expect.closeTo(0.594, 4),
+      nitrite: expect.closeTo(0.1652, 4),
+      nitrate: expect.closeTo(2.0136, 4),
+    });
+    expect(points[48].dissolvedOxygen).toBeCloseTo(5.9253, 4);
+    expect(points[48].ammonia).toBeCloseTo(0.654, 4);
+  });
+
+  it('gives the same forecast for the same inputs', () => {
+    expect(forecastWaterQuality(scenario, defaultForecastRates)).toEqual(forecastWaterQuality(scenario));
+  });
+});
+
+describe('forecastUncertainty', () => {
+  const options = { runs: 50, seed: 42 };
+  const day = { ...scenario, hours: 24 };
+
+  it('draws the same band from the same seed', () => {
+    expect(forecastUncertainty(day, options)).toEqual(forecastUncertainty(day, options));
+  });
+
+  it('gives the same band when the runs are simulated in batches', () => {
+    const rates = monteCarloRates(options);
+    expect(rates).toHaveLength(50);
+    const runs = [...rates.slice(0, 20), ...rates.slice(20)].map((run) => forecastWaterQuality(day, run));
+    expect(forecastBands(runs)).toEqual(forecastUncertainty(day, options));
+  });
+
+  it('orders the percentiles and pins the band at dawn', () => {
+    const bands = forecastUncertainty(day, options);
+    expect(bands).toHaveLength(25);
+    bands.forEach((band) => {
+      expect(band.low.dissolvedOxygen).toBeLessThanOrEqual(band.median.dissolvedOxygen);
+      expect(band.median.dissolvedOxygen).toBeLessThanOrEqual(band.high.dissolvedOxygen);
+    });
+    expect(bands[24].low.dissolvedOxygen).toBeCloseTo(2.2716, 4);
+    expect(bands[24].median.dissolvedOxygen).toBeCloseTo(5.0236, 4);
+    expect(bands[24].high.dissolvedOxygen).toBeCloseTo(11.893, 4);
+  });
+});
@@ -0,0 +1,348 @@
+import { nightFishRespiration, nightOxygenBudget, surfaceTransfer } from './nightOxygen';
+import { oxygenSaturation } from './oxygen';
+
+// Hour-by-hour mass balance of a still-water pond: heat from the sun, oxygen and CO₂
+// from plankton, fish, mud and the air, and nitrogen from feed through nitrification
+// to nitrate, all diluted by water exchange and rain. Same inputs, same forecast.
+
+// Bump whenever a change to the equations or default rates alters forecasts, so an
+// exported scenario records which model produced it.
+export const FORECAST_MODEL_VERSION = 1;
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export const seasons: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export interface ForecastScenario {
+  startHour: number; // clock hour the readings were taken, 0-23
+  hours: number;
+  temperature: number; // °C
+  pH: number;
+  dissolvedOxygen: number; // mg/L
+  ammonia: number; // mg/L total ammonia nitrogen
+  nitrite: number; // mg/L as N
+  nitrate: number; // mg/L as N
+  alkalinity: number; // mg/L as CaCO₃
+  salinity: number; // ppt
+  secchiDepth: number; // cm
+  area: number; // m²
+  depth: number; // m
+  fishBiomass: number; // kg
+  oxygenConsumption?: number; // catalogue kg O₂/kg fish/day of the species
+  feedRate: number; // kg/day
+  feedProtein: number; // % crude protein
+  waterExchange: number; // % of the pond volume per day
+  aeratorCapacity: number; // kg O₂/hour
+  aerationHours: number; // hours before dawn the aerators run
+  cloudCover: number; // %
+  rainfall: number; // mm/day
+  windSpeed: number; // m/s
+  season: Season;
+  pressure: number; // kPa
+}
+
+// Process rates the forecast is least sure of; the uncertainty mode varies these.
+export interface ForecastRates {
+  excretedNitrogen: number; // share of feed nitrogen excreted as ammonia
+  ammoniaOxidation: number; // per day at 20 °C
+  nitriteOxidation: number; // per day at 20 °C
+  productionRatio: number; // clear-summer-day gross production / plankton respiration
+  planktonRespiration: number; // multiplier on the Secchi estimate
+  sedimentDemand: number; // g O₂/m²/day at 20 °C
+  solarHeating: number; // multiplier on seasonal sunshine
+}
+
+export const defaultForecastRates: ForecastRates = {
+  excretedNitrogen: 0.6,
+  ammoniaOxidation: 0.2,
+  nitriteOxidation: 0.5,
+  productionRatio: 2,
+  planktonRespiration: 1,
+  sedimentDemand: 1,
+  solarHeating: 1,
+};
+
+// Log-normal spread of each rate (σ of ln), from the range reported for fed ponds.
+export const forecastRateUncertainty: Record<keyof ForecastRates, number> = {
+  excretedNitrogen: 0.15,
+  ammoniaOxidation: 0.5,
+  nitriteOxidation: 0.5,
+  productionRatio: 0.35,
+  planktonRespiration: 0.35,
+  sedimentDemand: 0.5,
+  solarHeating: 0.2,
+};
+
+export interface ForecastValues {
+  temperature: number;
+  pH: number;
+  dissolvedOxygen: number;
+  ammonia: number;
+  nitrite: number;
+  nitrate: number;
+}
+
+export type ForecastParameter = keyof ForecastValues;
+
+export interface ForecastPoint extends ForecastValues {
+  hour: number; // hours from the readings
+}
+
+export interface ForecastBand {
+  hour: number;
+  low: ForecastValues; // 10th percentile
+  median: ForecastValues;
+  high: ForecastValues; // 90th percentile
+}
+
+export interface MonteCarloOptions {
+  runs: number;
+  seed: number;
+}
+
+// Fewer runs give ragged percentiles; more take minutes over a week-long forecast.
+export const MIN_MONTE_CARLO_RUNS = 10;
+export const MAX_MONTE_CARLO_RUNS = 5000;
+
+// Noon sunshine on a clear day, W/m².
+const peakRadiation: Record<Season, number> = {
+  spring: 750,
+  summer: 900,
+  autumn: 650,
+  winter: 400,
+};
+
+const STEPS_PER_HOUR = 6;
+const DAWN_HOUR = 6;
+const SUNSET_HOUR = 18;
+// Mean of the daylight sine over the whole day, and its integral in hours.
+const DAILY_SUN_FRACTION = 1 / Math.PI;
+const DAILY_SUN_HOURS = 24 / Math.PI;
+const CLIMATE_CLOUD_COVER = 0.5;
+// °C per hour for 1 W/m² absorbed by 1 m of water.
+const HEATING_PER_WATT = 3600 / 4.18e6;
+const ABSORBED_SUNLIGHT = 0.94;
+const RAIN_BELOW_WATER = 5; // °C
+const PROTEIN_NITROGEN = 0.16;
+const NITRIFICATION_THETA = 1.07;
+const NITRIFIER_OXYGEN_HALF_SATURATION = 1; // mg/L
+const AMMONIA_OXIDATION_OXYGEN = 3.43; // mg O₂ per mg N
+const NITRITE_OXIDATION_OXYGEN = 1.14; // mg O₂ per mg N
+const NITRIFICATION_ALKALINITY = 7.14 / 50; // meq per mg N
+const ATMOSPHERIC_CO2 = 420e-6; // atm
+
+// Kasten & Czeplak (1980) reduction of sunshine by cloud.
+const cloudFactor = (cloudCover: number) => 1 - 0.75 * cloudCover ** 3.4;
+
+const sunAt = (clockHour: number) =>
+  clockHour > DAWN_HOUR && clockHour < SUNSET_HOUR ? Math.sin((Math.PI * (clockHour - DAWN_HOUR)) / 12) : 0;
+
+// Fresh-water carbonate constants: Harned & Davis (1943), Harned & Scholes (1941) and
+// the ion product of water.
+const carbonateConstants = (temperature: number) => {
+  const kelvin = temperature + 273.15;
+  return {
+    k1: 10 ** -(3404.71 / kelvin + 0.032786 * kelvin - 14.8435),
+    k2: 10 ** -(2902.39 / kelvin + 0.02379 * kelvin - 6.498),
+    kw: 10 ** -(4470.99 / kelvin - 6.0875 + 0.01706 * kelvin),
+  };
+};
+
+// Shares of dissolved inorganic carbon present as CO₂, HCO₃⁻ and CO₃²⁻.
+const carbonateFractions = (pH: number, temperature: number) => {
+  const { k1, k2 } = carbonateConstants(temperature);
+  const h = 10 ** -pH;
+  const denominator = h * h + k1 * h + k1 * k2;
+  return { co2: (h * h) / denominator, bicarbonate: (k1 * h) / denominator, carbonate: (k1 * k2) / denominator };
+};
+
+// Carbonate alkalinity plus OH⁻ less H⁺, mmol/L, for DIC in mmol/L.
+const alkalinityAt = (pH: number, dic: number, temperature: number) => {
+  const { bicarbonate, carbonate } = carbonateFractions(pH, temperature);
+  const { kw } = carbonateConstants(temperature);
+  return dic * (bicarbonate + 2 * carbonate) + (kw / 10 ** -pH - 10 ** -pH) * 1000;
+};
+
+// pH at which DIC carries the alkalinity, by bisection (alkalinity rises with pH).
+const carbonatePH = (dic: number, alkalinity: number, temperature: number) => {
+  let low = 4;
+  let high = 12;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (alkalinityAt(mid, dic, temperature) > alkalinity) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+// CO₂ in water at equilibrium with air, mmol/L (Weiss 1974).
+const co2Saturation = (temperature: number) => {
+  const hundredKelvin = (temperature + 273.15) / 100;
+  const henry = Math.exp(-58.0931 + 90.5069 / hundredKelvin + 22.294 * Math.log(hundredKelvin));
+  return henry * ATMOSPHERIC_CO2 * 1000;
+};
+
+const simulate = (scenario: ForecastScenario, rates: ForecastRates): ForecastPoint[] => {
+  const { depth } = scenario;
+  const volume = scenario.area * depth;
+  const cloud = Math.min(Math.max(scenario.cloudCover / 100, 0), 1);
+  const radiation = peakRadiation[scenario.season] * rates.solarHeating * ABSORBED_SUNLIGHT;
+  // Night and evaporative losses that balance the sun on a day of average cloud.
+  const heatLoss = radiation * DAILY_SUN_FRACTION * cloudFactor(CLIMATE_CLOUD_COVER);
+  const rainRate = scenario.rainfall / 1000 / 24 / depth; // share of the volume per hour
+  const dilution = scenario.waterExchange / 100 / 24 + rainRate;
+  const nitrogenLoad =
+    volume > 0
+      ? (scenario.feedRate * 1000 * (scenario.feedProtein / 100) * PROTEIN_NITROGEN * Math.min(rates.excretedNitrogen, 1)) /
+        volume /
+        24
+      : 0;
+  const transfer = surfaceTransfer(scenario.windSpeed) / depth;
+  const aeratorRate = volume > 0 ? (scenario.aeratorCapacity * 1000) / volume : 0;
+  const fishRespiration = nightFishRespiration(scenario.oxygenConsumption);
+  const rainTemperature = scenario.temperature - RAIN_BELOW_WATER;
+  const inflowAlkalinity = scenario.alkalinity / 50;
+
+  let temperature = scenario.temperature;
+  let oxygen = scenario.dissolvedOxygen;
+  let ammonia = scenario.ammonia;
+  let nitrite = scenario.nitrite;
+  let nitrate = scenario.nitrate;
+  let alkalinity = inflowAlkalinity; // meq/L
+  let pH = scenario.pH;
+  const start = carbonateFractions(pH, temperature);
+  const inflowCarbon = (alkalinity - alkalinityAt(pH, 0, temperature)) / (start.bicarbonate + 2 * start.carbonate);
+  let carbon = inflowCarbon; // DIC, mmol/L
+
+  const points: ForecastPoint[] = [{ hour: 0, temperature, pH, dissolvedOxygen: oxygen, ammonia, nitrite, nitrate }];
+  const dt = 1 / STEPS_PER_HOUR;
+  for (let step = 0; step < scenario.hours * STEPS_PER_HOUR; step++) {
+    const clockHour = (scenario.startHour + step * dt) % 24;
+    const sun = sunAt(clockHour);
+
+    const heating = (radiation * sun * cloudFactor(cloud) - heatLoss) * (HEATING_PER_WATT / depth);
+    const nextTemperature = temperature + (heating + rainRate * (rainTemperature - temperature)) * dt;
+
+    const budget = nightOxygenBudget({
+      temperature,
+      area: scenario.area,
+      depth,
+      fishBiomass: scenario.fishBiomass,
+      fishRespiration,
+      secchiDepth: scenario.secchiDepth / rates.planktonRespiration,
+      sedimentDemand: rates.sedimentDemand,
+    });
+    const production =
+      (rates.productionRatio * budget.plankton * 24 * sun * cloudFactor(cloud) * peakRadiation[scenario.season]) /
+      (DAILY_SUN_HOURS * peakRadiation.summer);
+
+    const thermal = NITRIFICATION_THETA ** (temperature - 20);
+    const oxygenLimit = oxygen / (NITRIFIER_OXYGEN_HALF_SATURATION + oxygen);
+    const ammoniaOxidised = (rates.ammoniaOxidation / 24) * thermal * oxygenLimit * ammonia;
+    const nitriteOxidised = (rates.nitriteOxidation / 24) * thermal * oxygenLimit * nitrite;
+
+    const saturation = oxygenSaturation({ temperature, salinity: scenario.salinity, pressure: scenario.pressure });
+    const hoursToDawn = (DAWN_HOUR - clockHour + 24) % 24;
+    const aeration =
+      hoursToDawn > 0 && hoursToDawn <= scenario.aerationHours
+        ? aeratorRate * (Math.max(0, saturation - oxygen) / saturation)
+        : 0;
+    const biological = production - budget.total;
+    const nitrification = ammoniaOxidised * AMMONIA_OXIDATION_OXYGEN + nitriteOxidised * NITRITE_OXIDATION_OXYGEN;
+    oxygen = Math.max(0, oxygen + (biological - nitrification + transfer * (saturation - oxygen) + aeration) * dt);
+
+    // Respiration and photosynthesis trade O₂ and CO₂ mole for mole; only free CO₂
+    // crosses the surface, and exchange water brings the pond's starting chemistry.
+    const freeCo2 = carbon * carbonateFractions(pH, temperature).co2;
+    carbon = Math.max(
+      0,
+      carbon +
+        (-biological / 32 +
+          transfer * (co2Saturation(temperature) - freeCo2) +
+          (scenario.waterExchange / 100 / 24) * (inflowCarbon - carbon) -
+          rainRate * carbon) *
+          dt
+    );
+    alkalinity = Math.max(
+      0,
+      alkalinity +
+        (-NITRIFICATION_ALKALINITY * ammoniaOxidised +
+          (scenario.waterExchange / 100 / 24) * (inflowAlkalinity - alkalinity) -
+          rainRate * alkalinity) *
+          dt
+    );
+    pH = carbonatePH(carbon, alkalinity, nextTemperature);
+
+    ammonia = Math.max(0, ammonia + (nitrogenLoad - ammoniaOxidised - dilution * ammonia) * dt);
+    nitrite = Math.max(0, nitrite + (ammoniaOxidised - nitriteOxidised - dilution * nitrite) * dt);
+    nitrate = Math.max(0, nitrate + (nitriteOxidised - dilution * nitrate) * dt);
+    temperature = nextTemperature;
+
+    if ((step + 1) % STEPS_PER_HOUR === 0) {
+      points.push({ hour: (step + 1) / STEPS_PER_HOUR, temperature, pH, dissolvedOxygen: oxygen, ammonia, nitrite, nitrate });
+    }
+  }
+  return points;
+};
+
+export const forecastWaterQuality = (
+  scenario: ForecastScenario,
+  rates: ForecastRates = defaultForecastRates
+): ForecastPoint[] => simulate(scenario, rates);
+
+// Mulberry32: a small seedable generator, so a given seed always draws the same runs.
+const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal deviate by Box-Muller.
+const normalDeviate = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const percentile = (sorted: number[], share: number) => {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const forecastParameters: ForecastParameter[] = ['temperature', 'pH', 'dissolvedOxygen', 'ammonia', 'nitrite', 'nitrate'];
+
+// Process rates for each Monte Carlo run, drawn in turn from the seed, so the runs
+// can be simulated in batches and still give the same bands as one pass.
+export const monteCarloRates = ({ runs, seed }: MonteCarloOptions): ForecastRates[] => {
+  const random = seededRandom(seed);
+  const rateNames = Object.keys(defaultForecastRates) as (keyof ForecastRates)[];
+  return Array.from({ length: Math.max(1, runs) }, () => {
+    const rates = { ...defaultForecastRates };
+    rateNames.forEach((name) => {
+      rates[name] *= Math.exp(forecastRateUncertainty[name] * normalDeviate(random));
+    });
+    return rates;
+  });
+};
+
+// 10-90 % band at each hour across the simulated runs.
+export const forecastBands = (results: ForecastPoint[][]): ForecastBand[] =>
+  results[0].map((point, index) => {
+    const band: ForecastBand = { hour: point.hour, low: { ...point }, median: { ...point }, high: { ...point } };
+    forecastParameters.forEach((parameter) => {
+      const values = results.map((run) => run[index][parameter]).sort((a, b) => a - b);
+      band.low[parameter] = percentile(values, 0.1);
+      band.median[parameter] = percentile(values, 0.5);
+      band.high[parameter] = percentile(values, 0.9);
+    });
+    return band;
+  });
+
+// 10-90 % band of the forecast when the uncertain rates vary around their defaults.
+// Each 48-hour run takes a few milliseconds, so the page simulates the runs in batches.
+export const forecastUncertainty = (scenario: ForecastScenario, options: MonteCarloOptions): ForecastBand[] =>
+  forecastBands(monteCarloRates(options).map((rates) => simulate(scenario, rates)));
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { builtInSpecies, findSpecies } from '../species/catalog';
+import { growthEfficiency, predictGrowth, toGrowthSpecies } from './growth';
+import type { GrowthSpecies } from './growth';
+
+const species: GrowthSpecies = {
+  name: 'Test fish',
+  optimalTemp: 28,
+  maxGrowthRate: 2,
+  defaultFCR: 1.5,
+  optimalDensity: 20,
+  temperatureTolerance: 5,
+};
+
+describe('toGrowthSpecies', () => {
+  it('takes the catalogue % body weight/day and FCR as they are', () => {
+    const tilapia = toGrowthSpecies(findSpecies(builtInSpecies, 'tilapia')!);
+    expect(tilapia.maxGrowthRate).toBe(3.5);
+    expect(tilapia.defaultFCR).toBe(1.6);
+  });
+
+  it('projects tilapia from the catalogue rate', () => {
+    const tilapia = toGrowthSpecies(findSpecies(builtInSpecies, 'tilapia')!);
+    const result = predictGrowth(tilapia, { initialWeight: 100, feedingRate: 3, temperature: 27.5, growthPeriod: 30 });
+    // 3.5 % × 3 % ration / FCR 1.6 = 0.065625 %/day for one 30-day month
+    expect(result.finalWeight).toBeCloseTo(101.96875, 9);
+  });
+});
+
+describe('growthEfficiency', () => {
+  it('falls with distance from the optimal temperature and density', () => {
+    expect(growthEfficiency(28, species, 20)).toBe(1);
+    // 0.75 for 2.5 °C off, 0.85 for half again the optimal density
+    expect(growthEfficiency(30.5, species, 30)).toBeCloseTo(0.6375, 9);
+    expect(growthEfficiency(40, species, 200)).toBeCloseTo(0.35, 9);
+  });
+});
+
+describe('predictGrowth', () => {
+  it('compounds the daily rate over whole months', () => {
+    const result = predictGrowth(species, { initialWeight: 50, feedingRate: 3, temperature: 28, growthPeriod: 90 });
+    // 2 % × 3 % ration, then 0.04 %/day once divided by FCR 1.5
+    expect(result.dailyGrowthRate).toBeCloseTo(0.0006, 12);
+    expect(result.monthlyProjections.map((month) => month.weight)).toEqual([
+      50,
+      expect.closeTo(50.6, 9),
+      expect.closeTo(51.2072, 9),
+      expect.closeTo(51.82169, 5),
+    ]);
+    expect(result.finalWeight).toBeCloseTo(51.82169, 5);
+    expect(result.totalBiomass).toBeCloseTo(1036.4337, 4);
+    expect(result.feedConsumption).toBeCloseTo(2.73253, 5);
+    expect(result.monthlyProjections[1].feedRequired).toBeCloseTo(0.9, 9);
+    expect(result.efficiencyScore).toBe(100);
+    expect(result.recommendations).toEqual([]);
+  });
+
+  it('prices the feed and flags poor conditions', () => {
+    const result = predictGrowth(species, {
+      initialWeight: 50,
+      feedingRate: 3,
+      temperature: 22,
+      growthPeriod: 45,
+      fcr: 2,
+      stockingDensity: 30,
+      feedCost: 1.2,
+    });
+    expect(result.monthlyProjections).toHaveLength(3);
+    expect(result.feedCost).toBeCloseTo(result.feedConsumption * 1.2, 9);
+    expect(result.environmentalFactors.map((factor) => factor.impact)).toEqual(['Suboptimal', 'Suboptimal', 'Suboptimal']);
+    expect(result.recommendations).toHaveLength(3);
+  });
+});
@@ -0,0 +1,154 @@
+import type { SpeciesProfile } from '../species/catalog';
+
+// Growth-model parameters for one species.
+export interface GrowthSpecies {
+  name: string;
+  optimalTemp: number; // °C
+  maxGrowthRate: number; // % body weight/day, optimal conditions
+  defaultFCR: number;
+  optimalDensity: number; // fish/m³
+  temperatureTolerance: number; // °C either side of optimal before growth halves
+}
+
+export interface GrowthInput {
+  initialWeight: number; // g per fish
+  feedingRate: number; // % body weight/day
+  temperature: number; // °C
+  growthPeriod: number; // days, projected in whole 30-day months
+  fcr?: number; // defaults to the species FCR
+  stockingDensity?: number; // fish/m³, defaults to the species optimum
+  feedCost?: number; // price per unit of feedConsumption
+}
+
+export interface GrowthProjection {
+  month: number;
+  weight: number; // g per fish
+  biomass: number; // g/m³
+  feedRequired: number; // g per fish during the month
+}
+
+export interface EnvironmentalFactor {
+  factor: string;
+  status: string;
+  impact: string;
+}
+
+export interface GrowthPrediction {
+  finalWeight: number; // g per fish
+  totalBiomass: number; // g/m³
+  feedConsumption: number; // g per fish
+  feedCost: number; // feedCost × feedConsumption
+  dailyGrowthRate: number; // fraction of body weight/day, before FCR
+  efficiencyScore: number; // 0–100
+  recommendations: string[];
+  monthlyProjections: GrowthProjection[];
+  environmentalFactors: EnvironmentalFactor[];
+}
+
+export const toGrowthSpecies = (profile: SpeciesProfile): GrowthSpecies => {
+  const { temperature } = profile.waterQuality;
+  return {
+    name: profile.name,
+    optimalTemp: (temperature.optimal.min + temperature.optimal.max) / 2,
+    maxGrowthRate: profile.production.maxGrowthRate,
+    defaultFCR: profile.production.fcr,
+    optimalDensity: profile.production.stockingDensity,
+    temperatureTolerance: (temperature.max - temperature.min) / 4,
+  };
+};
+
+// Fraction (0.35–1) of maximum growth the temperature and density allow.
+export const growthEfficiency = (temp: number, species: GrowthSpecies, density: number) => {
+  const tempDiff = Math.abs(temp - species.optimalTemp);
+  const tempEffect = Math.max(0.5, 1 - (tempDiff / species.temperatureTolerance) * 0.5);
+  const densityEffect = Math.max(
+    0.7,
+    1 - Math.abs(density - species.optimalDensity) / species.optimalDensity * 0.3
+  );
+  return tempEffect * densityEffect;
+};
+
+// Month-end weights starting with the initial weight, compounding monthly.
+export const monthlyWeights = (initialWeight: number, dailyGrowthRate: number, months: number) => {
+  const weights: number[] = [initialWeight];
+  for (let i = 1; i <= months; i++) {
+    weights.push(weights[i - 1] * (1 + dailyGrowthRate * 30));
+  }
+  return weights;
+};
+
+const rateImpact = (value: number, optimal: number, acceptable: number) => {
+  if (value <= optimal) return 'Optimal';
+  return value <= acceptable ? 'Acceptable' : 'Suboptimal';
+};
+
+export const predictGrowth = (species: GrowthSpecies, input: GrowthInput): GrowthPrediction => {
+  const { initialWeight, temperature } = input;
+  const feedingRate = input.feedingRate / 100;
+  const fcr = input.fcr || species.defaultFCR;
+  const density = input.stockingDensity || species.optimalDensity;
+  const feedCost = input.feedCost || 0;
+
+  const efficiency = growthEfficiency(temperature, species, density);
+  const baseGrowthRate = (species.maxGrowthRate / 100) * efficiency * feedingRate;
+  const dailyGrowthRate = baseGrowthRate / fcr;
+
+  const weights = monthlyWeights(initialWeight, dailyGrowthRate, Math.ceil(input.growthPeriod / 30));
+  const finalWeight = weights[weights.length - 1];
+  const feedConsumption = (finalWeight - initialWeight) * fcr;
+
+  const monthlyProjections = weights.map((weight, index) => ({
+    month: index,
+    weight,
+    biomass: weight * density,
+    feedRequired: index === 0 ? 0 : (weight - weights[index - 1]) * fcr,
+  }));
+
+  const tempDeviation = Math.abs(temperature - species.optimalTemp);
+  const densityDeviation = Math.abs(density - species.optimalDensity);
+  const environmentalFactors = [
+    {
+      factor: 'Water Temperature',
+      status: `${temperature}°C (Optimal: ${species.optimalTemp}°C)`,
+      impact: rateImpact(tempDeviation, species.temperatureTolerance / 2, species.temperatureTolerance),
+    },
+    {
+      factor: 'Stocking Density',
+      status: `${density} fish/m³ (Optimal: ${species.optimalDensity})`,
+      impact: rateImpact(densityDeviation, species.optimalDensity * 0.2, species.optimalDensity * 0.4),
+    },
+    {
+      factor: 'Feed Conversion',
+      status: `FCR: ${fcr.toFixed(2)} (Default: ${species.defaultFCR})`,
+      impact: rateImpact(fcr, species.defaultFCR * 1.1, species.defaultFCR * 1.3),
+    },
+  ];
+
+  const recommendations: string[] = [];
+  if (tempDeviation > species.temperatureTolerance / 2) {
+    recommendations.push('Consider temperature control measures for optimal growth');
+  }
+  if (densityDeviation > species.optimalDensity * 0.2) {
+    recommendations.push('Adjust stocking density to optimize growth and resource utilization');
+  }
+  if (fcr > species.defaultFCR * 1.1) {
+    recommendations.push('Review feeding practices to improve feed conversion efficiency');
+  }
+  if (feedingRate < 0.02) {
+    recommendations.push('Consider increasing feeding rate for better growth performance');
+  } else if (feedingRate > 0.04) {
+    recommendations.push('Monitor water quality closely with high feeding rate');
+  }
+
+  return {
+    finalWeight,
+    totalBiomass: finalWeight * density,
+    feedConsumption,
+    feedCost: feedCost * feedConsumption,
+    dailyGrowthRate: baseGrowthRate,
+    efficiencyScore: efficiency * 100,
+    recommendations,
+    monthlyProjections,
+    environmentalFactors,
+  };
+};
@@ -0,0 +1,20 @@
+// Framework-free calculators behind the tool pages. Inputs and results are plain
+// numbers in the units noted on each field; pages handle parsing, display and saving.
+export * from './aeration';
+export * from './liming';
+export * from './lining';
+export * from './sediment';
+export * from './financials';
+export * from './fcr';
+export * from './growth';
+export * from './evaporation';
+export * from './weatherImpact';
+export * from './waterBalance';
+export * from './waterQuality';
+export * from './trends';
+export * from './toxicity';
+export * from './oxygen';
+export * from './nightOxygen';
+export * from './winterIce';
+export * from './forecast';
+export * from './alerts';
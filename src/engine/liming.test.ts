@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLimeRequirement } from './liming';
+
+describe('calculateLimeRequirement', () => {
+  it('scales the base requirement by soil, alkalinity and water source', () => {
+    const result = calculateLimeRequirement({
+      pondArea: 1,
+      currentPH: 6,
+      targetPH: 7.5,
+      soilType: 'clayey',
+      waterSource: 'rainwater',
+      limeType: 'agricultural',
+      alkalinity: 40,
+    });
+    // 1.5 units × 1000 kg × 1.5 clay × 1.3 soft water × 1.2 rainwater
+    expect(result.limeRequired).toBeCloseTo(3510, 6);
+    expect(result.cost).toBeCloseTo(105.3, 6);
+    expect(result.applicationRate).toBeCloseTo(0.351, 9);
+    expect(result.recommendations).toContain('This lime type dissolves slowly. Consider multiple smaller applications.');
+  });
+
+  it('needs less of a stronger lime and converts its price', () => {
+    const result = calculateLimeRequirement({
+      pondArea: 0.5,
+      currentPH: 5,
+      targetPH: 7.5,
+      soilType: 'loamy',
+      waterSource: 'groundwater',
+      limeType: 'quicklime',
+      alkalinity: 200,
+      usdRate: 83,
+    });
+    // 2500 kg × 0.7 hard water × 0.8 groundwater / 1.79
+    expect(result.limeRequired).toBeCloseTo(782.123, 3);
+    expect(result.cost).toBeCloseTo(3894.97, 2);
+    expect(result.applicationRate).toBeCloseTo(0.1564, 4);
+    expect(result.recommendations).toContain(
+      'Large pH adjustment needed. Consider gradual adjustment over multiple applications.'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+export interface LimeType {
+  name: string;
+  neutralizingValue: number; // % of pure CaCO₃
+  solubility: number; // 0–1
+  costPerTon: number; // US$/t
+}
+
+export interface SoilType {
+  name: string;
+  bufferCapacity: number; // multiplier on the base requirement
+  description: string;
+}
+
+export const limeTypes: Record<string, LimeType> = {
+  agricultural: {
+    name: 'Agricultural Limestone',
+    neutralizingValue: 100,
+    solubility: 0.6,
+    costPerTon: 30,
+  },
+  hydrated: {
+    name: 'Hydrated Lime',
+    neutralizingValue: 136,
+    solubility: 0.9,
+    costPerTon: 45,
+  },
+  quicklime: {
+    name: 'Quicklime',
+    neutralizingValue: 179,
+    solubility: 1.0,
+    costPerTon: 60,
+  },
+  dolomitic: {
+    name: 'Dolomitic Limestone',
+    neutralizingValue: 109,
+    solubility: 0.5,
+    costPerTon: 35,
+  },
+};
+
+export const soilTypes: Record<string, SoilType> = {
+  sandy: {
+    name: 'Sandy Soil',
+    bufferCapacity: 0.5,
+    description: 'Low buffering capacity, requires less lime',
+  },
+  loamy: {
+    name: 'Loamy Soil',
+    bufferCapacity: 1.0,
+    description: 'Medium buffering capacity',
+  },
+  clayey: {
+    name: 'Clay Soil',
+    bufferCapacity: 1.5,
+    description: 'High buffering capacity, requires more lime',
+  },
+  organic: {
+    name: 'Organic Soil',
+    bufferCapacity: 2.0,
+    description: 'Very high buffering capacity, requires most lime',
+  },
+};
+
+export interface LimingInput {
+  pondArea: number; // ha
+  currentPH: number;
+  targetPH: number;
+  soilType: string; // key of soilTypes
+  waterSource: string; // 'groundwater', 'rainwater', ...
+  limeType: string; // key of limeTypes
+  alkalinity: number; // mg/L as CaCO₃
+  usdRate?: number; // currency units per US$ for lime prices, defaults to 1
+}
+
+export interface LimingResult {
+  limeRequired: number; // kg
+  cost: number; // in the currency given by usdRate
+  applicationRate: number; // kg/m²
+  recommendations: string[];
+}
+
+export const calculateLimeRequirement = (input: LimingInput): LimingResult => {
+  const { pondArea, currentPH, targetPH, soilType, waterSource, limeType, alkalinity } = input;
+
+  // 1000 kg of pure CaCO₃ per pH unit, scaled by the site
+  const pHDifference = targetPH - currentPH;
+  let baseLimeReq = pHDifference * 1000;
+
+  baseLimeReq *= soilTypes[soilType].bufferCapacity;
+
+  if (alkalinity < 50) {
+    baseLimeReq *= 1.3;
+  } else if (alkalinity > 150) {
+    baseLimeReq *= 0.7;
+  }
+
+  if (waterSource === 'groundwater') {
+    baseLimeReq *= 0.8;
+  } else if (waterSource === 'rainwater') {
+    baseLimeReq *= 1.2;
+  }
+
+  // Stronger limes need proportionally less product
+  const selectedLime = limeTypes[limeType];
+  const limeRequired = baseLimeReq / (selectedLime.neutralizingValue / 100);
+  const cost = limeRequired * (selectedLime.costPerTon / 1000) * (input.usdRate ?? 1);
+  const applicationRate = limeRequired / (pondArea * 10000);
+
+  const recommendations = [
+    `Apply ${limeRequired.toFixed(2)} kg of ${selectedLime.name} total.`,
+    `Spread lime evenly at a rate of ${applicationRate.toFixed(3)} kg/m².`,
+    `For best results, apply lime during dry weather.`,
+    `Monitor pH weekly after application.`,
+  ];
+
+  if (selectedLime.solubility < 0.7) {
+    recommendations.push(
+      'This lime type dissolves slowly. Consider multiple smaller applications.'
+    );
+  }
+
+  if (pHDifference > 2) {
+    recommendations.push(
+      'Large pH adjustment needed. Consider gradual adjustment over multiple applications.'
+    );
+  }
+
+  return { limeRequired, cost, applicationRate, recommendations };
+};
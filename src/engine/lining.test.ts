@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLiningCosts } from './lining';
+
+const input = {
+  length: 30,
+  width: 20,
+  depth: 2,
+  slopeRatio: 2,
+  materialType: 'hdpe',
+  laborCostPerDay: 100,
+  estimatedDays: 10,
+  additionalCosts: 500,
+};
+
+describe('calculateLiningCosts', () => {
+  it('prices the bottom and four sloped sides with overlap', () => {
+    const result = calculateLiningCosts(input);
+    // 600 m² bottom + 2 × 38 × 2 + 2 × 28 × 2 = 864 m², plus 10 %
+    expect(result.totalArea).toBeCloseTo(950.4, 9);
+    expect(result.materialCost).toBeCloseTo(7603.2, 6);
+    expect(result.laborCost).toBe(1000);
+    expect(result.totalCost).toBeCloseTo(9103.2, 6);
+    expect(result.costPerSqm).toBeCloseTo(10.536, 3);
+    expect(result.annualCost).toBeCloseTo(606.88, 6);
+    expect(result.recommendations).toEqual(['Expected lifespan: 15 years with proper maintenance']);
+  });
+
+  it('converts only the material price', () => {
+    const result = calculateLiningCosts({ ...input, usdRate: 2 });
+    expect(result.materialCost).toBeCloseTo(15206.4, 6);
+    expect(result.totalCost).toBeCloseTo(16706.4, 6);
+  });
+});
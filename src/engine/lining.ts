@@ -0,0 +1,157 @@
+export interface LiningMaterial {
+  name: string;
+  costPerSqm: number; // US$/m²
+  lifespan: number; // years
+  seepage: number; // mm/day lost through the installed liner, seams included
+  durability: string;
+  maintenance: string;
+  installation: string;
+  description: string;
+}
+
+export const liningMaterials: Record<string, LiningMaterial> = {
+  hdpe: {
+    name: 'HDPE (High-Density Polyethylene)',
+    costPerSqm: 8,
+    lifespan: 15,
+    seepage: 0.1,
+    durability: 'High',
+    maintenance: 'Low',
+    installation: 'Moderate',
+    description: 'Excellent chemical resistance and durability',
+  },
+  pvc: {
+    name: 'PVC (Polyvinyl Chloride)',
+    costPerSqm: 5,
+    lifespan: 10,
+    seepage: 0.2,
+    durability: 'Moderate',
+    maintenance: 'Moderate',
+    installation: 'Easy',
+    description: 'Cost-effective and widely available',
+  },
+  epdm: {
+    name: 'EPDM (Rubber)',
+    costPerSqm: 12,
+    lifespan: 20,
+    seepage: 0.1,
+    durability: 'Very High',
+    maintenance: 'Low',
+    installation: 'Easy',
+    description: 'Highly flexible and excellent UV resistance',
+  },
+  butyl: {
+    name: 'Butyl Rubber',
+    costPerSqm: 15,
+    lifespan: 25,
+    seepage: 0.05,
+    durability: 'Very High',
+    maintenance: 'Low',
+    installation: 'Moderate',
+    description: 'Superior durability and puncture resistance',
+  },
+  geomembrane: {
+    name: 'Reinforced Geomembrane',
+    costPerSqm: 10,
+    lifespan: 18,
+    seepage: 0.1,
+    durability: 'High',
+    maintenance: 'Low',
+    installation: 'Complex',
+    description: 'High strength and good chemical resistance',
+  },
+};
+
+export interface LiningInput {
+  length: number; // m
+  width: number; // m
+  depth: number; // m
+  slopeRatio: number; // horizontal run per 1 m of depth
+  materialType: string; // key of liningMaterials
+  laborCostPerDay: number; // per day
+  estimatedDays: number; // days
+  additionalCosts: number;
+  usdRate?: number; // currency units per US$ for material prices, defaults to 1
+}
+
+// Costs are in the currency of laborCostPerDay and additionalCosts.
+export interface LiningResult {
+  totalArea: number; // m², including 10% overlap
+  materialCost: number;
+  laborCost: number;
+  totalCost: number;
+  costPerSqm: number; // per m² of liner surface before overlap
+  annualCost: number; // per year over the liner lifespan
+  recommendations: string[];
+  maintenancePlan: string[];
+  installationSteps: string[];
+}
+
+export const calculateLiningCosts = (input: LiningInput): LiningResult => {
+  const { length, width, depth, slopeRatio, materialType, laborCostPerDay, estimatedDays, additionalCosts } = input;
+
+  // Liner surface: bottom plus the four sloped sides
+  const slopeLength = depth * slopeRatio;
+  const bottomArea = length * width;
+  const sideArea1 = (length + (2 * slopeLength)) * depth;
+  const sideArea2 = (width + (2 * slopeLength)) * depth;
+  const linerArea = bottomArea + (2 * sideArea1) + (2 * sideArea2);
+
+  // 10% extra for overlaps and wastage
+  const totalArea = linerArea * 1.1;
+
+  const material = liningMaterials[materialType];
+  const materialCost = totalArea * material.costPerSqm * (input.usdRate ?? 1);
+  const laborCost = laborCostPerDay * estimatedDays;
+  const totalCost = materialCost + laborCost + additionalCosts;
+  const costPerSqm = totalCost / linerArea;
+  const annualCost = totalCost / material.lifespan;
+
+  const recommendations = [];
+  if (linerArea > 1000) {
+    recommendations.push('Consider hiring professional installation team');
+    recommendations.push('Implement quality control measures during installation');
+  }
+  if (material.installation === 'Complex') {
+    recommendations.push('Ensure installers are certified for this material');
+  }
+  if (depth > 3) {
+    recommendations.push('Use reinforced material at deeper sections');
+  }
+  recommendations.push(`Expected lifespan: ${material.lifespan} years with proper maintenance`);
+
+  const maintenancePlan = [
+    'Regular inspection for tears and punctures',
+    'Clean liner surface periodically',
+    'Maintain proper water chemistry',
+    'Monitor for UV degradation',
+  ];
+  if (material.maintenance === 'Moderate') {
+    maintenancePlan.push('Schedule bi-annual professional inspection');
+  }
+
+  const installationSteps = [
+    'Site preparation and excavation',
+    'Subgrade preparation and compaction',
+    'Installation of underlayment or geotextile',
+    `Installation of ${material.name} liner`,
+    'Seaming and joining sections',
+    'Anchor trench construction',
+    'Quality control inspection',
+  ];
+  if (material.installation === 'Complex') {
+    installationSteps.push('Professional certification inspection');
+  }
+
+  return {
+    totalArea,
+    materialCost,
+    laborCost,
+    totalCost,
+    costPerSqm,
+    annualCost,
+    recommendations,
+    maintenancePlan,
+    installationSteps,
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { forecastNightOxygen, nightFishRespiration, nightOxygenBudget, planktonRespiration, surfaceTransfer } from './nightOxygen';
+
+const pond = {
+  duskOxygen: 8,
+  temperature: 30,
+  area: 10000,
+  depth: 1.2,
+  fishBiomass: 5000,
+  secchiDepth: 25,
+  aeratorCapacity: 20,
+  threshold: 3,
+  windSpeed: 1,
+};
+
+describe('respiration rates', () => {
+  it('scales fish respiration by the species allowance', () => {
+    expect(nightFishRespiration()).toBe(300);
+    expect(nightFishRespiration(0.5)).toBe(600);
+  });
+
+  it('estimates plankton respiration from Secchi visibility', () => {
+    expect(planktonRespiration(25, 30)).toBeCloseTo(0.4, 9);
+    expect(planktonRespiration(100, 20)).toBeCloseTo(0.0632, 4);
+  });
+
+  it('floors surface transfer on calm nights', () => {
+    expect(surfaceTransfer(0)).toBeCloseTo(0.2 / 24, 12);
+    expect(surfaceTransfer(4)).toBeCloseTo(0.7832 / 24, 12);
+  });
+
+  it('adds up fish, plankton and mud', () => {
+    expect(nightOxygenBudget({ temperature: 20, area: 1000, depth: 1, fishBiomass: 500, secchiDepth: 50 })).toEqual({
+      fish: expect.closeTo(0.135, 9),
+      plankton: expect.closeTo(0.1263, 4),
+      sediment: expect.closeTo(1 / 24, 9),
+      total: expect.closeTo(0.303, 3),
+    });
+  });
+});
+
+describe('forecastNightOxygen', () => {
+  it('finds the breach and the latest aerator start that prevents it', () => {
+    const result = forecastNightOxygen(pond);
+    expect(result.saturation).toBeCloseTo(7.559, 3);
+    expect(result.budget.total).toBeCloseTo(0.5925, 4);
+    expect(result.hourly).toHaveLength(13);
+    expect(result.hourly[0]).toEqual({ hour: 19, unaerated: 8, aerated: 8 });
+    expect(result.minimum).toBeCloseTo(1.4358, 4);
+    expect(result.minimumHour).toBe(7);
+    expect(result.breachHour).toBe(4);
+    expect(result.aeratorStartHour).toBe(3);
+    expect(result.aeratorsSufficient).toBe(true);
+    expect(result.aeratedMinimum).toBeCloseTo(3.4891, 4);
+  });
+
+  it('reports aerators too small to hold the threshold', () => {
+    const result = forecastNightOxygen({ ...pond, aeratorCapacity: 0.5 });
+    expect(result.breachHour).toBe(4);
+    expect(result.aeratorStartHour).toBeNull();
+    expect(result.aeratorsSufficient).toBe(false);
+    expect(result.aeratedMinimum).toBeCloseTo(1.6155, 4);
+  });
+
+  it('needs no aerators for a lightly stocked, clear pond', () => {
+    const result = forecastNightOxygen({ ...pond, fishBiomass: 1000, secchiDepth: 60 });
+    expect(result.breachHour).toBeNull();
+    expect(result.aeratorsSufficient).toBe(true);
+    expect(result.minimum).toBeCloseTo(5.1962, 4);
+  });
+});
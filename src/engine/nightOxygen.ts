@@ -0,0 +1,163 @@
+import { DEFAULT_OXYGEN_CONSUMPTION } from './aeration';
+import { oxygenSaturation } from './oxygen';
+
+// Night-time oxygen budget of a still-water pond. After dusk photosynthesis stops and
+// fish, plankton and mud keep using oxygen; the air and any aerators put some back.
+// All rates are mg/L per hour over the whole water column.
+
+export const DEFAULT_SEDIMENT_DEMAND = 1; // g O₂/m²/day at 20 °C
+export const FISH_RESPIRATION = 300; // mg O₂/kg fish/hour at 25 °C, resting at night
+export const DEFAULT_DUSK_HOUR = 19;
+export const DEFAULT_DAWN_HOUR = 7;
+
+const STEPS_PER_HOUR = 12;
+// Temperature correction of plankton and mud respiration (van 't Hoff θ).
+export const BIOLOGICAL_THETA = 1.047;
+
+export interface NightOxygenInput {
+  duskOxygen: number; // mg/L at sunset
+  temperature: number; // °C, taken as constant through the night
+  area: number; // m²
+  depth: number; // m, mean
+  fishBiomass: number; // kg
+  fishRespiration?: number; // mg O₂/kg fish/hour at 25 °C, defaults to FISH_RESPIRATION
+  secchiDepth: number; // cm
+  sedimentDemand?: number; // g O₂/m²/day at 20 °C
+  aeratorCapacity: number; // kg O₂/hour from all aerators at this site, into oxygen-free water
+  windSpeed?: number; // m/s
+  salinity?: number; // ppt
+  pressure?: number; // kPa
+  threshold: number; // mg/L the stock must not drop below
+  duskHour?: number; // 0-23
+  dawnHour?: number; // 0-23
+}
+
+export interface OxygenBudget {
+  fish: number;
+  plankton: number;
+  sediment: number;
+  total: number;
+}
+
+export interface NightOxygenPoint {
+  hour: number; // clock hour, 0-23
+  unaerated: number; // mg/L
+  aerated: number; // mg/L with aerators from the recommended start
+}
+
+export interface NightOxygenForecast {
+  saturation: number; // mg/L
+  budget: OxygenBudget; // respiration, mg/L/h
+  hourly: NightOxygenPoint[];
+  minimum: number; // mg/L at dawn-side low point, without aeration
+  minimumHour: number;
+  // First clock hour below the threshold without aeration; null if it never is.
+  breachHour: number | null;
+  // Latest clock hour to switch aerators on and stay above the threshold; null when
+  // they are not needed, or not enough even from dusk (see aeratorsSufficient).
+  aeratorStartHour: number | null;
+  aeratorsSufficient: boolean;
+  aeratedMinimum: number;
+}
+
+// The catalogue's oxygenConsumption figures are aerator-sizing allowances, far above what
+// resting fish use at night; only how a species compares with the default carries over.
+export const nightFishRespiration = (oxygenConsumption?: number): number =>
+  FISH_RESPIRATION * ((oxygenConsumption || DEFAULT_OXYGEN_CONSUMPTION) / DEFAULT_OXYGEN_CONSUMPTION);
+
+// Plankton respiration at 30 °C from Secchi visibility: a dense bloom (25 cm) uses
+// about 0.4 mg/L/h, clear water (1 m) about 0.1.
+export const planktonRespiration = (secchiDepth: number, temperature: number): number =>
+  (10 / Math.max(secchiDepth, 5)) * BIOLOGICAL_THETA ** (temperature - 30);
+
+// Surface transfer velocity in m/h (Banks & Herrera 1977), with a floor for
+// convective mixing on calm nights.
+export const surfaceTransfer = (windSpeed: number): number =>
+  Math.max(0.2, 0.728 * Math.sqrt(windSpeed) - 0.317 * windSpeed + 0.0372 * windSpeed ** 2) / 24;
+
+export type OxygenBudgetInput = Pick<
+  NightOxygenInput,
+  'temperature' | 'area' | 'depth' | 'fishBiomass' | 'fishRespiration' | 'secchiDepth' | 'sedimentDemand'
+>;
+
+export const nightOxygenBudget = (input: OxygenBudgetInput): OxygenBudget => {
+  const volume = input.area * input.depth;
+  // Same 2 %/°C temperature scaling as calculateAeration.
+  const fishRate = (input.fishRespiration || FISH_RESPIRATION) * (1 + (input.temperature - 25) * 0.02);
+  const fish = volume > 0 ? (input.fishBiomass * fishRate) / 1000 / volume : 0;
+  const plankton = planktonRespiration(input.secchiDepth, input.temperature);
+  const sediment =
+    ((input.sedimentDemand ?? DEFAULT_SEDIMENT_DEMAND) * BIOLOGICAL_THETA ** (input.temperature - 20)) /
+    24 /
+    input.depth;
+  return { fish, plankton, sediment, total: fish + plankton + sediment };
+};
+
+const nightLength = (duskHour: number, dawnHour: number) => (dawnHour - duskHour + 24) % 24 || 24;
+
+// Oxygen at each whole hour from dusk to dawn, with aerators running from `startOffset`
+// hours after dusk (Infinity for never).
+const simulate = (
+  input: NightOxygenInput,
+  budget: OxygenBudget,
+  saturation: number,
+  hours: number,
+  startOffset: number
+): number[] => {
+  const volume = input.area * input.depth;
+  const reaeration = surfaceTransfer(input.windSpeed ?? 0) / input.depth;
+  const aeratorRate = volume > 0 ? (input.aeratorCapacity * 1000) / volume : 0;
+  const dt = 1 / STEPS_PER_HOUR;
+  let oxygen = input.duskOxygen;
+  const values = [oxygen];
+  for (let step = 0; step < hours * STEPS_PER_HOUR; step++) {
+    const deficit = Math.max(0, saturation - oxygen);
+    const aeration = step * dt >= startOffset ? aeratorRate * (deficit / saturation) : 0;
+    oxygen = Math.max(0, oxygen + (reaeration * (saturation - oxygen) + aeration - budget.total) * dt);
+    if ((step + 1) % STEPS_PER_HOUR === 0) values.push(oxygen);
+  }
+  return values;
+};
+
+export const forecastNightOxygen = (input: NightOxygenInput): NightOxygenForecast => {
+  const duskHour = input.duskHour ?? DEFAULT_DUSK_HOUR;
+  const hours = nightLength(duskHour, input.dawnHour ?? DEFAULT_DAWN_HOUR);
+  const clock = (offset: number) => (duskHour + offset) % 24;
+  const saturation = oxygenSaturation({
+    temperature: input.temperature,
+    salinity: input.salinity,
+    pressure: input.pressure,
+  });
+  const budget = nightOxygenBudget(input);
+
+  const unaerated = simulate(input, budget, saturation, hours, Infinity);
+  const minimum = Math.min(...unaerated);
+  const breach = unaerated.findIndex((value) => value < input.threshold);
+
+  // Aerators switched on later save power; walk back from dawn to the last start that still works.
+  let startOffset: number | null = null;
+  let aerated = unaerated;
+  if (breach >= 0) {
+    for (let offset = breach; offset >= 0; offset--) {
+      const run = simulate(input, budget, saturation, hours, offset);
+      if (Math.min(...run) >= input.threshold) {
+        startOffset = offset;
+        aerated = run;
+        break;
+      }
+    }
+    if (startOffset === null) aerated = simulate(input, budget, saturation, hours, 0);
+  }
+
+  return {
+    saturation,
+    budget,
+    hourly: unaerated.map((value, offset) => ({ hour: clock(offset), unaerated: value, aerated: aerated[offset] })),
+    minimum,
+    minimumHour: clock(unaerated.indexOf(minimum)),
+    breachHour: breach >= 0 ? clock(breach) : null,
+    aeratorStartHour: startOffset !== null ? clock(startOffset) : null,
+    aeratorsSufficient: breach < 0 || startOffset !== null,
+    aeratedMinimum: Math.min(...aerated),
+  };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { oxygenSaturation, percentSaturation, pressureAtElevation, STANDARD_PRESSURE } from './oxygen';
+
+describe('oxygenSaturation', () => {
+  it('matches the USGS DOTABLES for fresh water at sea level', () => {
+    expect(oxygenSaturation({ temperature: 0 })).toBeCloseTo(14.62, 2);
+    expect(oxygenSaturation({ temperature: 20 })).toBeCloseTo(9.09, 2);
+    expect(oxygenSaturation({ temperature: 30 })).toBeCloseTo(7.56, 2);
+  });
+
+  it('holds less in sea water and at lower pressure', () => {
+    expect(oxygenSaturation({ temperature: 25, salinity: 35 })).toBeCloseTo(6.772, 3);
+    expect(oxygenSaturation({ temperature: 20, pressure: 80 })).toBeCloseTo(7.135, 3);
+    expect(oxygenSaturation({ temperature: 20, elevation: 1500 })).toBeCloseTo(7.553, 3);
+  });
+
+  it('takes a barometer reading over the elevation', () => {
+    expect(oxygenSaturation({ temperature: 20, pressure: STANDARD_PRESSURE, elevation: 1500 })).toBeCloseTo(9.092, 3);
+  });
+});
+
+describe('pressureAtElevation', () => {
+  it('follows the standard atmosphere', () => {
+    expect(pressureAtElevation(0)).toBe(STANDARD_PRESSURE);
+    expect(pressureAtElevation(1500)).toBeCloseTo(84.556, 3);
+  });
+});
+
+describe('percentSaturation', () => {
+  it('relates a reading to saturation at the same conditions', () => {
+    expect(percentSaturation(6, { temperature: 20 })).toBeCloseTo(65.99, 2);
+  });
+});
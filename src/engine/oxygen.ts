@@ -0,0 +1,45 @@
+// Dissolved-oxygen solubility in water in equilibrium with air, after Benson & Krause
+// (1984) as tabulated in Standard Methods 4500-O and the USGS DOTABLES.
+
+export const STANDARD_PRESSURE = 101.325; // kPa, sea level
+
+// Barometric pressure in kPa of the standard atmosphere at an elevation in m.
+export const pressureAtElevation = (elevation: number): number =>
+  STANDARD_PRESSURE * (1 - 2.25577e-5 * elevation) ** 5.25588;
+
+export interface SaturationInput {
+  temperature: number; // °C
+  salinity?: number; // ppt
+  // kPa, a barometer reading; when left out the pressure is estimated from elevation.
+  pressure?: number;
+  elevation?: number; // m above sea level
+}
+
+// mg/L of O₂ at 100 % saturation.
+export const oxygenSaturation = ({ temperature, salinity = 0, pressure, elevation = 0 }: SaturationInput): number => {
+  const kelvin = temperature + 273.15;
+  const freshAtSeaLevel =
+    -139.34411 +
+    1.575701e5 / kelvin -
+    6.642308e7 / kelvin ** 2 +
+    1.2438e10 / kelvin ** 3 -
+    8.621949e11 / kelvin ** 4;
+  const salinityTerm = salinity * (0.017674 - 10.754 / kelvin + 2140.7 / kelvin ** 2);
+  const atSeaLevel = Math.exp(freshAtSeaLevel - salinityTerm);
+
+  // Non-standard pressure, allowing for water vapour and the non-ideal behaviour of O₂.
+  const atmospheres = (pressure ?? pressureAtElevation(elevation)) / STANDARD_PRESSURE;
+  const vapour = Math.exp(11.8571 - 3840.7 / kelvin - 216961 / kelvin ** 2);
+  const theta = 0.000975 - 1.426e-5 * temperature + 6.436e-8 * temperature ** 2;
+  return (
+    (atSeaLevel * atmospheres * (1 - vapour / atmospheres) * (1 - theta * atmospheres)) /
+    ((1 - vapour) * (1 - theta))
+  );
+};
+
+// A reading as a percentage of saturation at the same conditions.
+export const percentSaturation = (dissolvedOxygen: number, input: SaturationInput): number =>
+  (dissolvedOxygen / oxygenSaturation(input)) * 100;
+
+// Above this the water carries enough excess gas to cause gas bubble disease.
+export const SUPERSATURATION_LIMIT = 115; // %
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSedimentAnalysis } from './sediment';
+
+const input = {
+  pondArea: 1000,
+  pondDepth: 1.5,
+  sedimentDepth: 0.4,
+  sedimentType: 'loamy',
+  organicContent: 25,
+  lastCleaned: 1,
+  waterExchangeRate: 5,
+};
+
+describe('calculateSedimentAnalysis', () => {
+  it('calls for removal once sediment fills a fifth of the pond', () => {
+    const result = calculateSedimentAnalysis(input);
+    expect(result.totalVolume).toBeCloseTo(400, 9);
+    expect(result.removalRequired).toBe(true);
+    expect(result.disposalMethod).toBe('agricultural');
+    // 400 m³ × 0.8 retention × 25 % organic
+    expect(result.nutrientContent.organicMatter).toBeCloseTo(80, 9);
+    expect(result.nutrientContent.nitrogen).toBeCloseTo(4, 9);
+    expect(result.nutrientContent.phosphorus).toBeCloseTo(1.6, 9);
+    expect(result.estimatedCost).toBeCloseTo(6000, 6);
+    expect(result.timeline).toBe('Annual removal recommended');
+    expect(result.recommendations).toEqual([
+      'Immediate sediment removal recommended due to high accumulation',
+      'Increase water exchange rate to reduce sediment accumulation',
+    ]);
+  });
+
+  it('composts very organic sediment and converts its price', () => {
+    const result = calculateSedimentAnalysis({ ...input, sedimentDepth: 0.1, organicContent: 45, usdRate: 83 });
+    expect(result.removalRequired).toBe(true);
+    expect(result.disposalMethod).toBe('composting');
+    expect(result.estimatedCost).toBeCloseTo(100 * 25 * 83, 6);
+    expect(result.timeline).toBe('Monitor and reassess in 6 months');
+  });
+});
@@ -0,0 +1,127 @@
+export interface SedimentType {
+  density: number; // kg/m³
+  nutrientRetention: number; // 0–1
+  description: string;
+}
+
+export interface DisposalMethod {
+  cost: number; // US$/m³
+  description: string;
+}
+
+export const sedimentTypes: Record<string, SedimentType> = {
+  sandy: { density: 1500, nutrientRetention: 0.6, description: 'Sandy sediment with low nutrient content' },
+  loamy: { density: 1300, nutrientRetention: 0.8, description: 'Loamy sediment with moderate nutrient content' },
+  clayey: { density: 1200, nutrientRetention: 0.9, description: 'Clay-rich sediment with high nutrient retention' },
+  organic: { density: 1100, nutrientRetention: 1.0, description: 'Highly organic sediment' },
+};
+
+export const disposalMethods: Record<string, DisposalMethod> = {
+  agricultural: { cost: 10, description: 'Use as agricultural fertilizer' },
+  landfill: { cost: 30, description: 'Disposal at landfill' },
+  composting: { cost: 20, description: 'Composting and soil amendment' },
+  landReclamation: { cost: 15, description: 'Use in land reclamation projects' },
+};
+
+export const REMOVAL_COST = 5; // US$/m³ dredged, before disposal
+
+export interface SedimentInput {
+  pondArea: number; // m²
+  pondDepth: number; // m
+  sedimentDepth: number; // m
+  sedimentType: string; // key of sedimentTypes
+  organicContent: number; // %
+  lastCleaned: number; // years ago
+  waterExchangeRate: number; // %/day
+  usdRate?: number; // currency units per US$ for removal and disposal prices, defaults to 1
+}
+
+export interface SedimentResult {
+  totalVolume: number; // m³
+  removalRequired: boolean;
+  disposalMethod: string; // key of disposalMethods
+  estimatedCost: number; // in the currency given by usdRate
+  // Reported in kg but scaled from volume alone; sediment density is not applied.
+  nutrientContent: {
+    nitrogen: number;
+    phosphorus: number;
+    organicMatter: number;
+  };
+  recommendations: string[];
+  managementPlan: string[];
+  preventiveMeasures: string[];
+  timeline: string;
+}
+
+export const calculateSedimentAnalysis = (input: SedimentInput): SedimentResult => {
+  const { pondArea, pondDepth, sedimentDepth, sedimentType, organicContent, lastCleaned, waterExchangeRate } = input;
+
+  const totalVolume = pondArea * sedimentDepth;
+
+  // Remove when sediment fills a fifth of the pond, is over two years old or very organic
+  const depthRatio = sedimentDepth / pondDepth;
+  const removalRequired = depthRatio > 0.2 || lastCleaned > 2 || organicContent > 30;
+
+  let disposalMethod = 'agricultural';
+  if (organicContent > 40) {
+    disposalMethod = 'composting';
+  } else if (organicContent < 10) {
+    disposalMethod = 'landReclamation';
+  }
+
+  const organicVolume = totalVolume * sedimentTypes[sedimentType].nutrientRetention * (organicContent / 100);
+  const nutrientContent = {
+    nitrogen: organicVolume * 0.05,
+    phosphorus: organicVolume * 0.02,
+    organicMatter: organicVolume,
+  };
+
+  const estimatedCost =
+    totalVolume * (REMOVAL_COST + disposalMethods[disposalMethod].cost) * (input.usdRate ?? 1);
+
+  const recommendations = [];
+  if (depthRatio > 0.2) {
+    recommendations.push('Immediate sediment removal recommended due to high accumulation');
+  }
+  if (organicContent > 30) {
+    recommendations.push('High organic content indicates need for improved feeding management');
+  }
+  if (waterExchangeRate < 10) {
+    recommendations.push('Increase water exchange rate to reduce sediment accumulation');
+  }
+
+  const managementPlan = [
+    'Regular monitoring of sediment depth',
+    'Optimize feeding practices to reduce waste',
+    'Maintain proper water exchange',
+    'Schedule periodic sediment removal',
+    'Monitor water quality parameters',
+  ];
+
+  const preventiveMeasures = [
+    'Implement proper feeding management',
+    'Maintain optimal stocking density',
+    'Regular water quality monitoring',
+    'Use high-quality feeds',
+    'Install sediment traps',
+  ];
+
+  let timeline = 'Annual removal recommended';
+  if (depthRatio > 0.3) {
+    timeline = 'Immediate removal required';
+  } else if (depthRatio < 0.1) {
+    timeline = 'Monitor and reassess in 6 months';
+  }
+
+  return {
+    totalVolume,
+    removalRequired,
+    disposalMethod,
+    estimatedCost,
+    nutrientContent,
+    recommendations,
+    managementPlan,
+    preventiveMeasures,
+    timeline,
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { builtInSpecies, findSpecies } from '../species/catalog';
+import {
+  ammoniaPKa,
+  assessAmmonia,
+  assessNitrite,
+  chlorideFromSalinity,
+  thermalGroupToxicity,
+  toxicityThresholds,
+  unionizedAmmoniaFraction,
+} from './toxicity';
+
+const warmwater = toxicityThresholds();
+
+describe('unionizedAmmoniaFraction', () => {
+  it('follows Emerson et al. for fresh water', () => {
+    expect(ammoniaPKa(25)).toBeCloseTo(9.2464, 4);
+    expect(unionizedAmmoniaFraction(8, 25)).toBeCloseTo(0.0537, 4);
+    expect(unionizedAmmoniaFraction(9, 25)).toBeCloseTo(0.3619, 4);
+  });
+
+  it('falls with salinity', () => {
+    expect(ammoniaPKa(25, 30)).toBeCloseTo(9.2843, 4);
+    expect(unionizedAmmoniaFraction(8, 25, 30)).toBeCloseTo(0.0494, 4);
+  });
+});
+
+describe('assessAmmonia', () => {
+  it('judges the un-ionized share of total ammonia', () => {
+    expect(assessAmmonia({ totalAmmonia: 2, pH: 8, temperature: 25 }, warmwater)).toMatchObject({
+      unionized: expect.closeTo(0.1073, 4),
+      status: 'Warning',
+    });
+    expect(assessAmmonia({ totalAmmonia: 2, pH: 9, temperature: 25 }, warmwater)).toMatchObject({
+      unionized: expect.closeTo(0.7237, 4),
+      status: 'Critical',
+    });
+  });
+});
+
+describe('assessNitrite', () => {
+  it('passes nitrite at or below the safe level without chloride', () => {
+    expect(assessNitrite({ nitrite: 0.05 }, warmwater)).toEqual({ chloride: null, ratio: null, status: 'Optimal' });
+  });
+
+  it('leaves high nitrite unjudged when chloride is unknown', () => {
+    expect(assessNitrite({ nitrite: 1, salinity: 0 }, warmwater)).toEqual({ chloride: null, ratio: null, status: null });
+  });
+
+  it('judges high nitrite by the chloride ratio', () => {
+    expect(assessNitrite({ nitrite: 1, chloride: 8 }, warmwater)).toEqual({ chloride: 8, ratio: 8, status: 'Warning' });
+    expect(chlorideFromSalinity(0.1)).toBeCloseTo(55.354, 3);
+    expect(assessNitrite({ nitrite: 1, salinity: 0.1 }, warmwater).status).toBe('Optimal');
+  });
+});
+
+describe('toxicityThresholds', () => {
+  it("uses the thermal group's limits with the species' nitrite optimum", () => {
+    const trout = findSpecies(builtInSpecies, 'trout')!;
+    expect(toxicityThresholds(trout)).toEqual({ ...thermalGroupToxicity.coldwater, safeNitrite: 0.1 });
+  });
+});
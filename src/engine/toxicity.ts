@@ -0,0 +1,109 @@
+import type { SpeciesProfile, ToxicityThresholds } from '../species/catalog';
+import type { QualityStatus } from './waterQuality';
+
+// Test kits report total ammonia nitrogen (TAN); only the un-ionized NH₃ share crosses
+// the gills, and that share rises tenfold per pH unit. Chloride competes with nitrite
+// for uptake, so the same nitrite reading is harmless in hard or brackish water.
+// Ammonia and nitrite figures here are mg/L in the basis the kit reports (usually as N).
+
+export const thermalGroupToxicity: Record<SpeciesProfile['thermalGroup'], ToxicityThresholds> = {
+  warmwater: {
+    unionizedAmmonia: { warning: 0.05, critical: 0.2 },
+    chlorideNitriteRatio: { warning: 10, critical: 6 },
+    safeNitrite: 0.1,
+  },
+  coolwater: {
+    unionizedAmmonia: { warning: 0.025, critical: 0.1 },
+    chlorideNitriteRatio: { warning: 10, critical: 6 },
+    safeNitrite: 0.1,
+  },
+  coldwater: {
+    unionizedAmmonia: { warning: 0.0125, critical: 0.05 },
+    chlorideNitriteRatio: { warning: 20, critical: 10 },
+    safeNitrite: 0.05,
+  },
+};
+
+// A species' own limits, else its thermal group's with the species' nitrite optimum.
+// Without a species, warmwater limits apply.
+export const toxicityThresholds = (species?: SpeciesProfile): ToxicityThresholds => {
+  if (!species) return thermalGroupToxicity.warmwater;
+  if (species.toxicity) return species.toxicity;
+  return {
+    ...thermalGroupToxicity[species.thermalGroup],
+    safeNitrite: species.waterQuality.nitrite.optimal.max,
+  };
+};
+
+// NH₄⁺ dissociation constant: Emerson et al. (1975) for fresh water, with the
+// ionic-strength correction used in the US EPA saltwater ammonia criteria.
+export const ammoniaPKa = (temperature: number, salinity = 0): number => {
+  const kelvin = temperature + 273.15;
+  const ionicStrength = (19.9273 * salinity) / (1000 - 1.005109 * salinity);
+  return 0.09018 + 2729.92 / kelvin + (0.1552 - 0.0003142 * kelvin) * ionicStrength;
+};
+
+// Share of total ammonia present as un-ionized NH₃, 0-1.
+export const unionizedAmmoniaFraction = (pH: number, temperature: number, salinity = 0): number =>
+  1 / (1 + 10 ** (ammoniaPKa(temperature, salinity) - pH));
+
+// Chloride of sea-salt water in mg/L from salinity in ppt (Knudsen's chlorinity ratio).
+export const chlorideFromSalinity = (salinity: number): number => (salinity * 1000) / 1.80655;
+
+export interface AmmoniaInput {
+  totalAmmonia: number;
+  pH: number;
+  temperature: number;
+  salinity?: number;
+}
+
+export interface AmmoniaAssessment {
+  fraction: number;
+  unionized: number;
+  status: QualityStatus;
+}
+
+export const assessAmmonia = (
+  { totalAmmonia, pH, temperature, salinity = 0 }: AmmoniaInput,
+  thresholds: ToxicityThresholds
+): AmmoniaAssessment => {
+  const fraction = unionizedAmmoniaFraction(pH, temperature, salinity);
+  const unionized = totalAmmonia * fraction;
+  const { warning, critical } = thresholds.unionizedAmmonia;
+  return {
+    fraction,
+    unionized,
+    status: unionized > critical ? 'Critical' : unionized > warning ? 'Warning' : 'Optimal',
+  };
+};
+
+export interface NitriteInput {
+  nitrite: number;
+  chloride?: number;
+  salinity?: number;
+}
+
+export interface NitriteAssessment {
+  // Measured chloride, else estimated from a non-zero salinity; null when neither is known.
+  chloride: number | null;
+  ratio: number | null;
+  // Null when the nitrite is above the safe level and there is no chloride to judge it by.
+  status: QualityStatus | null;
+}
+
+export const assessNitrite = (
+  { nitrite, chloride, salinity }: NitriteInput,
+  thresholds: ToxicityThresholds
+): NitriteAssessment => {
+  // A salinity of zero only says chloride is below the meter's resolution.
+  const knownChloride = chloride ?? (salinity ? chlorideFromSalinity(salinity) : null);
+  const ratio = knownChloride !== null && nitrite > 0 ? knownChloride / nitrite : null;
+  if (nitrite <= thresholds.safeNitrite) return { chloride: knownChloride, ratio, status: 'Optimal' };
+  if (ratio === null) return { chloride: knownChloride, ratio, status: null };
+  const { warning, critical } = thresholds.chlorideNitriteRatio;
+  return {
+    chloride: knownChloride,
+    ratio,
+    status: ratio < critical ? 'Critical' : ratio < warning ? 'Warning' : 'Optimal',
+  };
+};
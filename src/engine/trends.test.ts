@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { WaterQualityReading } from '../types/records';
+import { linearFit, parameterTrend, studentTPValue } from './trends';
+import { waterQualityParameters } from './waterQuality';
+
+const oxygen = waterQualityParameters.dissolvedOxygen;
+
+// Hourly dissolved-oxygen readings from midnight.
+const readings = (values: number[]): WaterQualityReading[] =>
+  values.map((value, hour) => ({
+    id: `r${hour}`,
+    pondId: 'p1',
+    takenAt: new Date(Date.UTC(2026, 0, 1, hour)).toISOString(),
+    sampler: '',
+    source: 'manual',
+    values: { dissolvedOxygen: value },
+    notes: '',
+  }));
+
+describe('studentTPValue', () => {
+  it('matches the tabulated two-sided t', () => {
+    expect(studentTPValue(2.228, 10)).toBeCloseTo(0.05, 4);
+    expect(studentTPValue(0, 5)).toBeCloseTo(1, 9);
+  });
+});
+
+describe('linearFit', () => {
+  it('fits least squares with a slope p-value', () => {
+    expect(linearFit([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])).toEqual({ slope: 2, intercept: 1, pValue: 0 });
+    expect(linearFit([{ x: 0, y: 1 }, { x: 1, y: 2 }, { x: 2, y: 2 }, { x: 3, y: 4 }])).toEqual({
+      slope: expect.closeTo(0.9, 9),
+      intercept: expect.closeTo(0.9, 9),
+      pValue: expect.closeTo(0.0766, 4),
+    });
+    expect(linearFit([{ x: 0, y: 1 }, { x: 1, y: 2 }])).toBeNull();
+  });
+});
+
+describe('parameterTrend', () => {
+  it('projects a falling trend to the next band edge', () => {
+    const trend = parameterTrend(readings([7, 6.6, 6, 5.5, 5.1, 4.4, 4]), 'dissolvedOxygen', oxygen);
+    expect(trend).toMatchObject({
+      direction: 'decreasing',
+      count: 7,
+      spanHours: 6,
+      latest: 4,
+      slopePerHour: expect.closeTo(-0.5107, 4),
+      significant: true,
+      rateAlarm: false,
+      projection: { level: 'warning', bound: 'min', threshold: 3, hours: expect.closeTo(1.958, 3) },
+    });
+  });
+
+  it('raises the rate alarm for a fall faster than fish tolerate', () => {
+    const trend = parameterTrend(readings([9, 7.6, 6, 4.4, 3]), 'dissolvedOxygen', oxygen);
+    expect(trend.slopePerHour).toBeCloseTo(-1.52, 9);
+    expect(trend.rateAlarm).toBe(true);
+    expect(trend.projection).toEqual({ level: 'critical', bound: 'min', threshold: 2, hours: expect.closeTo(0.6579, 4) });
+  });
+
+  it('calls a noisy series stable', () => {
+    const trend = parameterTrend(readings([6, 6.2, 5.9, 6.1, 6]), 'dissolvedOxygen', oxygen);
+    expect(trend.direction).toBe('stable');
+    expect(trend.pValue).toBeCloseTo(0.824, 3);
+    expect(trend.projection).toBeNull();
+  });
+
+  it('does not project a recovery back towards the optimal band', () => {
+    const trend = parameterTrend(readings([1, 1.5, 2, 2.6, 3]), 'dissolvedOxygen', oxygen);
+    expect(trend.direction).toBe('increasing');
+    expect(trend.projection).toBeNull();
+  });
+
+  it('needs enough readings to fit', () => {
+    const trend = parameterTrend(readings([6, 5]), 'dissolvedOxygen', oxygen);
+    expect(trend).toMatchObject({ direction: 'insufficient', count: 2, latest: 5, slopePerHour: null });
+  });
+});
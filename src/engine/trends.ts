@@ -0,0 +1,226 @@
+import type { WaterQualityParameter, WaterQualityReading } from '../types/records';
+import type { WaterQualityRange } from './waterQuality';
+
+const HOUR_MS = 3600000;
+
+// Fewer points or a shorter span than this gives a slope that is mostly sampling noise.
+export const MIN_TREND_READINGS = 4;
+export const MIN_TREND_SPAN_HOURS = 1;
+export const TREND_SIGNIFICANCE = 0.05;
+
+// Largest change per hour fish tolerate without stress, in each parameter's stored unit.
+export const rateOfChangeLimits: Record<WaterQualityParameter, number> = {
+  dissolvedOxygen: 1,
+  temperature: 1,
+  pH: 0.25,
+  ammonia: 0.1,
+  nitrite: 0.05,
+  nitrate: 2,
+  alkalinity: 5,
+  hardness: 5,
+  salinity: 0.5,
+  turbidity: 5,
+  phosphate: 0.05,
+  carbonDioxide: 1,
+  chloride: 20,
+};
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  // Two-sided p-value for the slope differing from zero.
+  pValue: number;
+}
+
+// Lanczos approximation of ln Γ(x).
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2,
+    -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach((c) => {
+    y += 1;
+    series += c / y;
+  });
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+};
+
+// Continued fraction for the regularized incomplete beta function.
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return h;
+};
+
+const incompleteBeta = (a: number, b: number, x: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+// Two-sided tail probability of Student's t with `df` degrees of freedom.
+export const studentTPValue = (t: number, df: number): number =>
+  incompleteBeta(df / 2, 0.5, df / (df + t * t));
+
+// Ordinary least squares of y on x; needs at least three points with distinct x.
+export const linearFit = (points: { x: number; y: number }[]): LinearFit | null => {
+  const n = points.length;
+  if (n < 3) return null;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = points.reduce((sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2, 0);
+  const standardError = Math.sqrt(sse / (n - 2) / sxx);
+  if (standardError === 0) return { slope, intercept, pValue: slope === 0 ? 1 : 0 };
+  return { slope, intercept, pValue: studentTPValue(slope / standardError, n - 2) };
+};
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable' | 'insufficient';
+
+export interface TrendProjection {
+  level: 'warning' | 'critical';
+  bound: 'min' | 'max';
+  threshold: number;
+  hours: number;
+}
+
+export interface ParameterTrend {
+  parameter: WaterQualityParameter;
+  direction: TrendDirection;
+  count: number;
+  spanHours: number;
+  latest: number | null;
+  latestAt: string | null;
+  // Per hour, in the parameter's unit; null when there is too little data to fit.
+  slopePerHour: number | null;
+  pValue: number | null;
+  significant: boolean;
+  rateLimit: number;
+  rateAlarm: boolean;
+  // Next band edge the current rate crosses, no further ahead than the data reaches back.
+  projection: TrendProjection | null;
+}
+
+export type TrendRange = Pick<WaterQualityRange, 'warning' | 'critical'>;
+
+export interface TrendOptions {
+  // Only readings this many hours before the latest one are fitted.
+  windowHours?: number;
+}
+
+const nextThreshold = (
+  latest: number,
+  slope: number,
+  range: TrendRange
+): Omit<TrendProjection, 'hours'> | null => {
+  // Moving back towards the optimal band from outside it.
+  if ((slope < 0 && latest > range.warning.max) || (slope > 0 && latest < range.warning.min)) return null;
+  if (slope < 0) {
+    // Band minimums at zero are floors the value cannot cross, not limits.
+    if (latest > range.warning.min && range.warning.min > 0) {
+      return { level: 'warning', bound: 'min', threshold: range.warning.min };
+    }
+    if (latest > range.critical.min && range.critical.min > 0) {
+      return { level: 'critical', bound: 'min', threshold: range.critical.min };
+    }
+    return null;
+  }
+  if (latest < range.warning.max) return { level: 'warning', bound: 'max', threshold: range.warning.max };
+  if (latest < range.critical.max) return { level: 'critical', bound: 'max', threshold: range.critical.max };
+  return null;
+};
+
+// Linear trend of one parameter across a pond's readings, with rate and threshold warnings.
+export const parameterTrend = (
+  readings: WaterQualityReading[],
+  parameter: WaterQualityParameter,
+  range: TrendRange,
+  { windowHours = 72 }: TrendOptions = {}
+): ParameterTrend => {
+  const measured = readings
+    .filter((reading) => reading.values[parameter] !== undefined)
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  const latestReading = measured[measured.length - 1];
+  const latestTime = latestReading ? new Date(latestReading.takenAt).getTime() : 0;
+  const points = measured
+    .map((reading) => ({
+      x: (new Date(reading.takenAt).getTime() - latestTime) / HOUR_MS,
+      y: reading.values[parameter]!,
+    }))
+    .filter((point) => point.x >= -windowHours);
+  const spanHours = points.length ? -points[0].x : 0;
+  const rateLimit = rateOfChangeLimits[parameter];
+  const result: ParameterTrend = {
+    parameter,
+    direction: 'insufficient',
+    count: points.length,
+    spanHours,
+    latest: latestReading ? latestReading.values[parameter]! : null,
+    latestAt: latestReading?.takenAt ?? null,
+    slopePerHour: null,
+    pValue: null,
+    significant: false,
+    rateLimit,
+    rateAlarm: false,
+    projection: null,
+  };
+
+  const fit = points.length >= MIN_TREND_READINGS && spanHours >= MIN_TREND_SPAN_HOURS ? linearFit(points) : null;
+  if (!fit || result.latest === null) return result;
+
+  const significant = fit.pValue < TREND_SIGNIFICANCE;
+  const direction: TrendDirection = !significant ? 'stable' : fit.slope > 0 ? 'increasing' : 'decreasing';
+  let projection: TrendProjection | null = null;
+  if (significant) {
+    const next = nextThreshold(result.latest, fit.slope, range);
+    if (next) {
+      const hours = (next.threshold - result.latest) / fit.slope;
+      if (hours <= spanHours) projection = { ...next, hours };
+    }
+  }
+
+  return {
+    ...result,
+    direction,
+    slopePerHour: fit.slope,
+    pValue: fit.pValue,
+    significant,
+    rateAlarm: significant && Math.abs(fit.slope) > rateLimit,
+    projection,
+  };
+};
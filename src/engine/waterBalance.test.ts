@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { calculateWaterBalance, seepageFor } from './waterBalance';
+
+describe('seepageFor', () => {
+  it('takes the liner over the soil', () => {
+    expect(seepageFor('sandy', 'none')).toBe(25);
+    expect(seepageFor('sandy', 'hdpe')).toBe(0.1);
+  });
+});
+
+describe('calculateWaterBalance', () => {
+  it('tops a leaking pond up each time it falls to the refill level', () => {
+    const result = calculateWaterBalance({
+      area: 1000,
+      depth: 1.2,
+      fullDepth: 1.5,
+      minDepth: 1,
+      refillDepth: 1.2,
+      evaporation: 6,
+      seepage: 8,
+      rainfall: 2,
+      catchmentArea: 2000,
+      runoffCoefficient: 0.2,
+      exchange: 5,
+      pumping: 0,
+      days: 60,
+      fillAtStart: true,
+    });
+    expect(result.flows).toEqual({
+      rainfall: 2,
+      runoff: expect.closeTo(0.8, 9),
+      pumping: 0,
+      evaporation: 6,
+      seepage: 8,
+      exchange: 75,
+      net: expect.closeTo(-11.2, 9),
+    });
+    expect(result.netDepthChange).toBeCloseTo(-11.2, 9);
+    // 0.3 m falls to the refill level in 27 days at 11.2 mm/day
+    expect(result.refills).toEqual([
+      { day: 27, volume: expect.closeTo(302.4, 6) },
+      { day: 54, volume: expect.closeTo(302.4, 6) },
+    ]);
+    expect(result.spilled).toBe(0);
+    expect(result.demand).toEqual({
+      initialFill: expect.closeTo(300, 9),
+      refills: expect.closeTo(604.8, 6),
+      exchange: 4500,
+      pumping: 0,
+      total: expect.closeTo(5404.8, 6),
+    });
+    expect(result.daysToMinimum).toBe(45);
+  });
+
+  it('spills what rises above the full level', () => {
+    const result = calculateWaterBalance({
+      area: 1000,
+      depth: 1.4,
+      fullDepth: 1.5,
+      minDepth: 1,
+      refillDepth: 0,
+      evaporation: 2,
+      seepage: 2,
+      rainfall: 10,
+      catchmentArea: 5000,
+      runoffCoefficient: 0.35,
+      exchange: 0,
+      pumping: 0,
+      days: 10,
+      fillAtStart: false,
+    });
+    expect(result.flows.net).toBeCloseTo(23.5, 9);
+    expect(result.daily.slice(0, 5).map((day) => day.depth)).toEqual([
+      expect.closeTo(1.4235, 9),
+      expect.closeTo(1.447, 9),
+      expect.closeTo(1.4705, 9),
+      expect.closeTo(1.494, 9),
+      1.5,
+    ]);
+    expect(result.spilled).toBeCloseTo(135, 6);
+    expect(result.refills).toEqual([]);
+    expect(result.daysToMinimum).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { liningMaterials } from './lining';
+
+// Daily water budget of a pond. Rain on the surface, runoff from the catchment and pumped
+// inflow raise the level; evaporation and seepage through the bed lower it. Exchange water
+// is drained and replaced the same day, so it costs water but leaves the level alone.
+// The pond is treated as straight-sided: one mm of depth is area / 1000 m³ at any level.
+
+// mm/day through an unlined bed, keyed like soilTypeOptions in src/utils/ponds.ts.
+export const soilSeepage: Record<string, number> = {
+  sandy: 25,
+  loamy: 8,
+  clayey: 2,
+  organic: 5,
+};
+
+// Share of rain on the catchment that reaches the pond.
+export const runoffCoefficients: Record<string, number> = {
+  forest: 0.1,
+  grass: 0.2,
+  cultivated: 0.35,
+  bare: 0.5,
+  paved: 0.85,
+};
+
+// Liner seepage from the lining materials; earthen ponds by their soil.
+export const seepageFor = (soilType: string, liner: string): number =>
+  liningMaterials[liner]?.seepage ?? soilSeepage[soilType] ?? soilSeepage.loamy;
+
+export interface WaterBalanceInput {
+  area: number; // m², water surface
+  depth: number; // m at the start of the cycle
+  fullDepth: number; // m, spill level and refill target
+  minDepth: number; // m, lowest the stock tolerates
+  refillDepth: number; // m; refill to fullDepth when the level falls to this, 0 for never
+  evaporation: number; // mm/day
+  seepage: number; // mm/day
+  rainfall: number; // mm/day, average over the cycle
+  catchmentArea: number; // m² of land draining into the pond, not counting the pond
+  runoffCoefficient: number; // 0-1
+  exchange: number; // % of the full volume drained and replaced per day
+  pumping: number; // m³/day pumped in continuously
+  days: number; // cycle length
+  fillAtStart: boolean; // fill from empty to fullDepth before day 1
+}
+
+export interface WaterBalanceDay {
+  day: number; // 1-based
+  depth: number; // m at the end of the day, after any refill
+  unrefilledDepth: number; // m at the end of the day had no refills been made
+  refill: number; // m³ pumped in to refill that day
+}
+
+export interface WaterBalanceFlows {
+  rainfall: number; // m³/day
+  runoff: number;
+  pumping: number;
+  evaporation: number;
+  seepage: number;
+  exchange: number;
+  net: number; // m³/day change in storage, before spills and refills
+}
+
+export interface WaterBalanceResult {
+  flows: WaterBalanceFlows;
+  netDepthChange: number; // mm/day
+  daily: WaterBalanceDay[];
+  refills: { day: number; volume: number }[];
+  spilled: number; // m³ lost over the spillway across the cycle
+  demand: {
+    initialFill: number; // m³
+    refills: number;
+    exchange: number;
+    pumping: number;
+    total: number;
+  };
+  // Days from the start until the level, without refills, is below minDepth; null if it
+  // never gets there. Beyond the cycle when the fall is slow.
+  daysToMinimum: number | null;
+}
+
+export const calculateWaterBalance = (input: WaterBalanceInput): WaterBalanceResult => {
+  const { area, fullDepth, minDepth, refillDepth, days } = input;
+  const volumePerMm = area / 1000;
+
+  const flows = {
+    rainfall: input.rainfall * volumePerMm,
+    runoff: (input.rainfall / 1000) * input.catchmentArea * input.runoffCoefficient,
+    pumping: input.pumping,
+    evaporation: input.evaporation * volumePerMm,
+    seepage: input.seepage * volumePerMm,
+    exchange: (input.exchange / 100) * area * fullDepth,
+  };
+  const net = flows.rainfall + flows.runoff + flows.pumping - flows.evaporation - flows.seepage;
+  const change = area > 0 ? net / area : 0; // m/day
+
+  const startDepth = input.fillAtStart ? fullDepth : input.depth;
+  let depth = startDepth;
+  let unrefilled = startDepth;
+  let spilled = 0;
+  const daily: WaterBalanceDay[] = [];
+  const refills: WaterBalanceResult['refills'] = [];
+
+  for (let day = 1; day <= days; day++) {
+    depth = Math.max(0, depth + change);
+    if (depth > fullDepth) {
+      spilled += (depth - fullDepth) * area;
+      depth = fullDepth;
+    }
+    unrefilled = Math.min(fullDepth, Math.max(0, unrefilled + change));
+    let refill = 0;
+    if (refillDepth > 0 && depth <= refillDepth) {
+      refill = (fullDepth - depth) * area;
+      refills.push({ day, volume: refill });
+      depth = fullDepth;
+    }
+    daily.push({ day, depth, unrefilledDepth: unrefilled, refill });
+  }
+
+  let daysToMinimum: number | null = null;
+  if (startDepth < minDepth) {
+    daysToMinimum = 0;
+  } else if (change < 0) {
+    daysToMinimum = Math.floor((startDepth - minDepth) / -change) + 1;
+  }
+
+  const demand = {
+    initialFill: input.fillAtStart ? Math.max(0, fullDepth - input.depth) * area : 0,
+    refills: refills.reduce((sum, refill) => sum + refill.volume, 0),
+    exchange: flows.exchange * days,
+    pumping: flows.pumping * days,
+  };
+
+  return {
+    flows: { ...flows, net },
+    netDepthChange: change * 1000,
+    daily,
+    refills,
+    spilled,
+    demand: { ...demand, total: demand.initialFill + demand.refills + demand.exchange + demand.pumping },
+    daysToMinimum,
+  };
+};
@@ -0,0 +1,309 @@
+import type { GrowthStage, SpeciesProfile, WaterParameter } from '../species/catalog';
+import type { PondWaterQualityRange, WaterQualityParameter, WaterQualityReading } from '../types/records';
+
+export interface WaterQualityRange {
+  name: string;
+  unit: string;
+  optimal: {
+    min: number;
+    max: number;
+  };
+  warning: {
+    min: number;
+    max: number;
+  };
+  critical: {
+    min: number;
+    max: number;
+  };
+  recommendations: string[];
+  // Where the bands came from when they are not the generic ones below.
+  basis?: 'species' | 'stage' | 'pond';
+}
+
+// Generic warmwater pond bands. Readings are stored and compared in each parameter's `unit`.
+export const waterQualityParameters: Record<WaterQualityParameter, WaterQualityRange> = {
+  dissolvedOxygen: {
+    name: 'Dissolved Oxygen',
+    unit: 'mg/L',
+    optimal: { min: 5, max: 8 },
+    warning: { min: 3, max: 10 },
+    critical: { min: 2, max: 12 },
+    recommendations: [
+      'Increase aeration if levels are low',
+      'Check stocking density if consistently low',
+      'Monitor feeding rate if levels fluctuate',
+    ],
+  },
+  temperature: {
+    name: 'Temperature',
+    unit: '°C',
+    optimal: { min: 25, max: 30 },
+    warning: { min: 20, max: 32 },
+    critical: { min: 15, max: 35 },
+    recommendations: [
+      'Use shading during hot periods',
+      'Adjust feeding based on temperature',
+      'Consider water exchange in extreme conditions',
+    ],
+  },
+  pH: {
+    name: 'pH',
+    unit: '',
+    optimal: { min: 6.5, max: 8.5 },
+    warning: { min: 6.0, max: 9.0 },
+    critical: { min: 5.5, max: 9.5 },
+    recommendations: [
+      'Add lime if pH is low',
+      'Check alkalinity levels',
+      'Monitor after heavy rain',
+    ],
+  },
+  ammonia: {
+    name: 'Ammonia',
+    unit: 'mg/L',
+    optimal: { min: 0, max: 0.5 },
+    warning: { min: 0, max: 1.0 },
+    critical: { min: 0, max: 2.0 },
+    recommendations: [
+      'Reduce feeding if levels are high',
+      'Increase water exchange',
+      'Check biofilter efficiency',
+    ],
+  },
+  nitrite: {
+    name: 'Nitrite',
+    unit: 'mg/L',
+    optimal: { min: 0, max: 0.1 },
+    warning: { min: 0, max: 0.5 },
+    critical: { min: 0, max: 1.0 },
+    recommendations: [
+      'Add salt to reduce toxicity',
+      'Check nitrifying bacteria',
+      'Increase oxygenation',
+    ],
+  },
+  nitrate: {
+    name: 'Nitrate',
+    unit: 'mg/L',
+    optimal: { min: 0, max: 50 },
+    warning: { min: 0, max: 100 },
+    critical: { min: 0, max: 200 },
+    recommendations: [
+      'Regular water exchange',
+      'Monitor plant growth',
+      'Check denitrification',
+    ],
+  },
+  alkalinity: {
+    name: 'Alkalinity',
+    unit: 'mg/L CaCO3',
+    optimal: { min: 100, max: 200 },
+    warning: { min: 50, max: 300 },
+    critical: { min: 20, max: 400 },
+    recommendations: [
+      'Add buffer if low',
+      'Check limestone addition',
+      'Monitor pH stability',
+    ],
+  },
+  hardness: {
+    name: 'Hardness',
+    unit: 'mg/L CaCO3',
+    optimal: { min: 100, max: 250 },
+    warning: { min: 50, max: 350 },
+    critical: { min: 20, max: 450 },
+    recommendations: [
+      'Add calcium if low',
+      'Check mineral content',
+      'Balance with alkalinity',
+    ],
+  },
+  salinity: {
+    name: 'Salinity',
+    unit: 'ppt',
+    optimal: { min: 0, max: 5 },
+    warning: { min: 0, max: 10 },
+    critical: { min: 0, max: 15 },
+    recommendations: [
+      'Adjust based on species',
+      'Monitor after rain',
+      'Check evaporation rate',
+    ],
+  },
+  turbidity: {
+    name: 'Turbidity',
+    unit: 'NTU',
+    optimal: { min: 0, max: 30 },
+    warning: { min: 0, max: 50 },
+    critical: { min: 0, max: 100 },
+    recommendations: [
+      'Use settling tanks',
+      'Add mechanical filtration',
+      'Check erosion sources',
+    ],
+  },
+  phosphate: {
+    name: 'Phosphate',
+    unit: 'mg/L',
+    optimal: { min: 0, max: 0.5 },
+    warning: { min: 0, max: 1.0 },
+    critical: { min: 0, max: 2.0 },
+    recommendations: [
+      'Control feed waste',
+      'Monitor algae growth',
+      'Check fertilization rate',
+    ],
+  },
+  carbonDioxide: {
+    name: 'Carbon Dioxide',
+    unit: 'mg/L',
+    optimal: { min: 0, max: 10 },
+    warning: { min: 0, max: 15 },
+    critical: { min: 0, max: 20 },
+    recommendations: [
+      'Increase aeration',
+      'Check respiration rate',
+      'Monitor plant density',
+    ],
+  },
+  chloride: {
+    name: 'Chloride',
+    unit: 'mg/L',
+    optimal: { min: 20, max: 500 },
+    warning: { min: 10, max: 1000 },
+    critical: { min: 0, max: 2000 },
+    recommendations: [
+      'Add salt to keep at least 10 parts chloride per part nitrite',
+      'Check source water chloride before adding salt',
+      'Retest after heavy rain or water exchange',
+    ],
+  },
+};
+
+// Species profiles name pH 'ph'.
+const speciesParameters: Record<WaterParameter, WaterQualityParameter> = {
+  temperature: 'temperature',
+  dissolvedOxygen: 'dissolvedOxygen',
+  ph: 'pH',
+  ammonia: 'ammonia',
+  nitrite: 'nitrite',
+  nitrate: 'nitrate',
+  alkalinity: 'alkalinity',
+  hardness: 'hardness',
+  turbidity: 'turbidity',
+  salinity: 'salinity',
+};
+
+export interface RangeSources {
+  species?: SpeciesProfile;
+  stage?: GrowthStage;
+  custom?: Partial<Record<WaterQualityParameter, PondWaterQualityRange>>;
+}
+
+// Bands for the stock in a pond. A species' optimum is the optimal band and its tolerable
+// range the warning band; a life stage's own ranges replace the species', and ranges set on
+// the pond replace both. Parameters none of them cover keep the generic bands.
+export const waterQualityRangesFor = ({
+  species,
+  stage,
+  custom = {},
+}: RangeSources): Record<WaterQualityParameter, WaterQualityRange> => {
+  const ranges = { ...waterQualityParameters };
+  if (species) {
+    const stageRanges = stage ? species.stageWaterQuality?.[stage] : undefined;
+    (Object.keys(speciesParameters) as WaterParameter[]).forEach((key) => {
+      const range = stageRanges?.[key] ?? species.waterQuality[key];
+      if (!range) return;
+      const parameter = speciesParameters[key];
+      const tolerable = { min: range.min, max: range.max };
+      ranges[parameter] = {
+        ...ranges[parameter],
+        optimal: range.optimal,
+        warning: tolerable,
+        critical: tolerable,
+        basis: stageRanges?.[key] ? 'stage' : 'species',
+      };
+    });
+  }
+  (Object.entries(custom) as [WaterQualityParameter, PondWaterQualityRange][]).forEach(([parameter, range]) => {
+    ranges[parameter] = {
+      ...ranges[parameter],
+      optimal: range.optimal,
+      warning: range.warning,
+      critical: range.warning,
+      basis: 'pond',
+    };
+  });
+  return ranges;
+};
+
+export type QualityStatus = 'Optimal' | 'Warning' | 'Critical';
+
+export interface QualityAnalysis {
+  parameter: string;
+  value: number;
+  status: QualityStatus;
+  recommendations: string[];
+}
+
+export const analyzeParameter = (
+  parameter: WaterQualityParameter,
+  value: number,
+  ranges: Record<WaterQualityParameter, WaterQualityRange> = waterQualityParameters
+): QualityAnalysis => {
+  const range = ranges[parameter];
+  let status: QualityStatus;
+
+  if (value >= range.optimal.min && value <= range.optimal.max) {
+    status = 'Optimal';
+  } else if (value >= range.warning.min && value <= range.warning.max) {
+    status = 'Warning';
+  } else {
+    status = 'Critical';
+  }
+
+  return {
+    parameter: range.name,
+    value,
+    status,
+    recommendations: range.recommendations,
+  };
+};
+
+// Worst status among the analysed parameters.
+export const overallQualityStatus = (analysis: QualityAnalysis[]): QualityStatus => {
+  if (analysis.some((result) => result.status === 'Critical')) return 'Critical';
+  if (analysis.some((result) => result.status === 'Warning')) return 'Warning';
+  return 'Optimal';
+};
+
+export interface ParameterStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  latest: number;
+  latestAt: string;
+}
+
+// Summary of one parameter over a set of readings; null when none measured it.
+export const parameterStats = (
+  readings: WaterQualityReading[],
+  parameter: WaterQualityParameter
+): ParameterStats | null => {
+  const measured = readings
+    .filter((reading) => reading.values[parameter] !== undefined)
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  if (!measured.length) return null;
+  const values = measured.map((reading) => reading.values[parameter]!);
+  const latest = measured[measured.length - 1];
+  return {
+    count: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    latest: latest.values[parameter]!,
+    latestAt: latest.takenAt,
+  };
+};
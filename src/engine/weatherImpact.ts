@@ -0,0 +1,248 @@
+import type { SpeciesProfile } from '../species/catalog';
+import { oxygenSaturation } from './oxygen';
+
+export type WeatherRisk = 'Low' | 'Moderate' | 'High';
+
+export interface WeatherImpactInput {
+  temperature: number; // °C, air
+  humidity: number; // % relative humidity
+  rainfall: number; // mm/day
+  windSpeed: number; // km/h
+  cloudCover: number; // %
+  season: string; // 'Spring' | 'Summer' | 'Fall' | 'Winter'
+  dissolvedOxygen: number; // mg/L measured; 0 to estimate from the weather
+  stockingDensity: number; // fish/m³
+  pressure: number; // kPa at the site
+  species: SpeciesProfile;
+}
+
+export interface WeatherImpact {
+  waterQuality: {
+    temperature: number; // °C
+    dissolvedOxygen: number; // mg/L
+    oxygenSaturation: number; // mg/L
+    pH: number;
+    turbidity: number; // NTU
+  };
+  fishHealth: {
+    stressLevel: string;
+    feedingBehavior: string;
+    growthImpact: string;
+    diseaseRisk: string;
+  };
+  operationalImpact: {
+    feedingSchedule: string;
+    waterExchange: string;
+    aeration: string;
+    monitoring: string;
+  };
+  recommendations: string[];
+  riskLevel: WeatherRisk;
+  oxygenRisk: WeatherRisk; // estimated oxygen against the species' optimal minimum
+  preventiveMeasures: string[];
+}
+
+export const calculateWeatherImpact = (input: WeatherImpactInput): WeatherImpact => {
+  const { temperature, rainfall, windSpeed, cloudCover, season, dissolvedOxygen, stockingDensity } = input;
+
+  // Calculate water temperature based on air temperature and environmental factors
+  const waterTemp = temperature - (
+    (cloudCover * 0.05) + // Cloud cover reduces temperature
+    (windSpeed * 0.1) + // Wind chill effect
+    (season === 'Winter' ? 2 : season === 'Summer' ? -1 : 0) // Seasonal adjustment
+  );
+
+  // Dissolved oxygen: saturation at the site's pressure, drawn down by the stock and
+  // mixed back towards saturation by wind and rain
+  const saturation = oxygenSaturation({ temperature: waterTemp, pressure: input.pressure });
+  const calculatedOxygen = dissolvedOxygen || saturation * Math.max(0, Math.min(1,
+    1 + (windSpeed * 0.05) - // Wind increases oxygen
+    (stockingDensity * 0.001) + // Stocking density decreases oxygen
+    (rainfall * 0.02) // Rainfall can increase oxygen
+  ));
+
+  // Calculate pH changes
+  const basePH = 7.0;
+  const pH = basePH + (
+    (rainfall * 0.1) - // Rain can lower pH
+    (temperature * 0.02) + // Temperature can affect pH
+    (season === 'Summer' ? 0.2 : season === 'Winter' ? -0.2 : 0) // Seasonal variation
+  );
+
+  // Calculate turbidity based on rainfall and wind
+  const turbidity = (rainfall * 2) + (windSpeed * 0.5);
+
+  // Determine stress level based on species parameters
+  const { temperature: tempRange, dissolvedOxygen: oxygenRange } = input.species.waterQuality;
+  const speciesParam = {
+    optimalTemp: tempRange.optimal,
+    stressTemp: { min: tempRange.min, max: tempRange.max },
+    oxygenRequirement: oxygenRange.optimal.min,
+  };
+  let stressLevel: WeatherRisk = 'Low';
+
+  if (waterTemp < speciesParam.stressTemp.min || waterTemp > speciesParam.stressTemp.max) {
+    stressLevel = 'High';
+  } else if (waterTemp < speciesParam.optimalTemp.min || waterTemp > speciesParam.optimalTemp.max) {
+    stressLevel = 'Moderate';
+  }
+
+  let oxygenRisk: WeatherRisk = 'Low';
+  if (calculatedOxygen < speciesParam.oxygenRequirement) {
+    oxygenRisk = 'High';
+  } else if (calculatedOxygen < speciesParam.oxygenRequirement * 1.2) {
+    oxygenRisk = 'Moderate';
+  }
+
+  // Determine feeding behavior based on conditions
+  let feedingBehavior = 'Normal';
+  if (stressLevel === 'High') {
+    feedingBehavior = 'Significantly Reduced';
+  } else if (stressLevel === 'Moderate') {
+    feedingBehavior = 'Slightly Reduced';
+  }
+
+  // Calculate growth impact
+  let growthImpact = 'Optimal';
+  if (stressLevel === 'High') {
+    growthImpact = 'Severely Reduced';
+  } else if (stressLevel === 'Moderate') {
+    growthImpact = 'Moderately Reduced';
+  }
+
+  // Assess disease risk
+  let diseaseRisk = 'Low';
+  if (stressLevel === 'High' && oxygenRisk === 'High') {
+    diseaseRisk = 'High';
+  } else if (stressLevel === 'Moderate' || oxygenRisk !== 'Low') {
+    diseaseRisk = 'Moderate';
+  }
+
+  // Generate operational recommendations
+  const recommendations: string[] = [];
+  const preventiveMeasures: string[] = [];
+
+  // Temperature-based recommendations
+  if (waterTemp > speciesParam.optimalTemp.max) {
+    recommendations.push('Increase aeration to help reduce water temperature');
+    recommendations.push('Consider partial water exchange with cooler water');
+    preventiveMeasures.push('Install temperature monitoring system');
+    preventiveMeasures.push('Prepare emergency cooling procedures');
+  } else if (waterTemp < speciesParam.optimalTemp.min) {
+    recommendations.push('Monitor water temperature closely');
+    recommendations.push('Consider using pond covers to retain heat');
+    preventiveMeasures.push('Install backup heating system');
+  }
+
+  // Oxygen-based recommendations
+  if (oxygenRisk === 'High') {
+    recommendations.push('Increase aeration immediately');
+    recommendations.push('Reduce feeding until oxygen levels improve');
+    preventiveMeasures.push('Install oxygen monitoring system');
+    preventiveMeasures.push('Have backup aeration equipment ready');
+  }
+
+  // Rainfall and turbidity recommendations
+  if (rainfall > 5) {
+    recommendations.push('Monitor water quality parameters more frequently');
+    recommendations.push('Check and maintain proper drainage');
+    preventiveMeasures.push('Implement erosion control measures');
+  }
+
+  // Wind-based recommendations
+  if (windSpeed > 20) {
+    recommendations.push('Secure equipment and pond covers');
+    recommendations.push('Monitor water turbulence');
+    preventiveMeasures.push('Install wind breaks around ponds');
+  }
+
+  // Determine feeding schedule adjustments
+  let feedingSchedule = 'Maintain regular schedule';
+  if (stressLevel === 'High') {
+    feedingSchedule = 'Reduce feeding by 50%';
+  } else if (stressLevel === 'Moderate') {
+    feedingSchedule = 'Reduce feeding by 25%';
+  }
+
+  // Water exchange recommendations
+  let waterExchange = 'Normal schedule';
+  if (rainfall > 5 || turbidity > 10) {
+    waterExchange = 'Increase frequency';
+  }
+
+  // Aeration requirements
+  let aeration = 'Normal operation';
+  if (oxygenRisk === 'High') {
+    aeration = 'Increase intensity';
+  }
+
+  // Monitoring frequency
+  let monitoring = 'Regular intervals';
+  if (stressLevel === 'High') {
+    monitoring = 'Hourly monitoring required';
+  } else if (stressLevel === 'Moderate') {
+    monitoring = 'Increase frequency';
+  }
+
+  return {
+    waterQuality: {
+      temperature: waterTemp,
+      dissolvedOxygen: calculatedOxygen,
+      oxygenSaturation: saturation,
+      pH,
+      turbidity,
+    },
+    fishHealth: {
+      stressLevel,
+      feedingBehavior,
+      growthImpact,
+      diseaseRisk,
+    },
+    operationalImpact: {
+      feedingSchedule,
+      waterExchange,
+      aeration,
+      monitoring,
+    },
+    recommendations,
+    riskLevel: stressLevel,
+    oxygenRisk,
+    preventiveMeasures,
+  };
+};
+
+// One day of a weather forecast, reduced to what the impact model reads.
+export interface WeatherDay {
+  date: string; // YYYY-MM-DD
+  temperature: number; // °C, daily mean air temperature
+  humidity: number; // %
+  rainfall: number; // mm over the day
+  windSpeed: number; // km/h, daily mean
+  cloudCover: number; // %
+}
+
+export interface WeatherTimelineDay extends WeatherDay {
+  impact: WeatherImpact;
+  needsAction: boolean; // the model recommends doing something that day
+}
+
+// Runs the impact model for each forecast day. Measured oxygen only describes today, so
+// every forecast day is estimated from its weather.
+export const weatherImpactTimeline = (
+  days: WeatherDay[],
+  base: Pick<WeatherImpactInput, 'stockingDensity' | 'pressure' | 'species'>,
+  seasonFor: (date: string) => string
+): WeatherTimelineDay[] =>
+  days.map((day) => {
+    const impact = calculateWeatherImpact({
+      ...base,
+      temperature: day.temperature,
+      humidity: day.humidity,
+      rainfall: day.rainfall,
+      windSpeed: day.windSpeed,
+      cloudCover: day.cloudCover,
+      season: seasonFor(day.date),
+      dissolvedOxygen: 0,
+    });
+    return { ...day, impact, needsAction: impact.recommendations.length > 0 };
+  });
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { builtInSpecies, findSpecies } from '../species/catalog';
+import {
+  applyColdSnap,
+  dailyAirTemperatures,
+  forecastWinterIce,
+  winterFeedingSchedule,
+  winterOxygenDemand,
+  winterRation,
+} from './winterIce';
+import type { WinterStock } from './winterIce';
+
+const trout = findSpecies(builtInSpecies, 'trout')!;
+const carp = findSpecies(builtInSpecies, 'carp')!;
+const stocks: WinterStock[] = [
+  { species: trout, stage: 'adult', biomass: 800 },
+  { species: carp, stage: 'juvenile', biomass: 200 },
+];
+
+// November to March in a Kashmir valley, with three weeks 8 °C colder from day 50.
+const airTemperatures = applyColdSnap(
+  dailyAirTemperatures([
+    { days: 30, temperature: 7 },
+    { days: 31, temperature: 2 },
+    { days: 31, temperature: -1 },
+    { days: 28, temperature: 1 },
+    { days: 31, temperature: 7 },
+  ]),
+  50,
+  21,
+  8
+);
+const input = { airTemperatures, area: 1000, depth: 1.2, stocks, pressure: 84, threshold: 5, windSpeed: 2 };
+
+describe('dailyAirTemperatures', () => {
+  it('interpolates between mid-month means', () => {
+    expect(dailyAirTemperatures([{ days: 2, temperature: 0 }, { days: 2, temperature: 4 }])).toEqual([0, 1, 3, 4]);
+  });
+
+  it('applies the cold snap to its days only', () => {
+    expect(airTemperatures).toHaveLength(151);
+    expect(airTemperatures[48]).toBeCloseTo(1.7097, 4);
+    expect(airTemperatures[49]).toBeCloseTo(-6.3871, 4);
+  });
+});
+
+describe('winterOxygenDemand', () => {
+  it('slows fish and mud to under-ice temperature', () => {
+    expect(winterOxygenDemand({ area: 1000, stocks })).toEqual({
+      fish: expect.closeTo(1871.43, 2),
+      sediment: expect.closeTo(437.48, 2),
+      total: expect.closeTo(2308.91, 2),
+    });
+  });
+});
+
+describe('forecastWinterIce', () => {
+  it('freezes in the cold snap and runs out of oxygen under the ice', () => {
+    const { daily, recommendations, ...result } = forecastWinterIce(input);
+    expect(result).toEqual({
+      iceOnDay: 50,
+      iceCoverDays: 73,
+      maxIceThickness: expect.closeTo(25.7915, 4),
+      maxIceDay: 91,
+      frozenToBottom: false,
+      saturation: expect.closeTo(11.4507, 4),
+      demand: { fish: expect.closeTo(1871.43, 2), sediment: expect.closeTo(437.48, 2), total: expect.closeTo(2308.91, 2) },
+      minimumOxygen: 0,
+      breachDay: 52,
+      openWaterArea: expect.closeTo(657.54, 2),
+      aerators: 1,
+      inflow: expect.closeTo(400.85, 2),
+    });
+    expect(daily[49]).toEqual({
+      day: 50,
+      airTemperature: expect.closeTo(-6.3871, 4),
+      waterTemperature: 2,
+      iceThickness: expect.closeTo(5.0545, 4),
+      oxygen: expect.closeTo(8.8492, 4),
+    });
+    expect(recommendations).toHaveLength(5);
+  });
+
+  it('plans rations week by week', () => {
+    const weeks = winterFeedingSchedule(forecastWinterIce(input), stocks, 5);
+    expect(weeks).toHaveLength(22);
+    expect(weeks[0]).toMatchObject({ week: 1, startDay: 1, waterTemperature: 7, iceThickness: 0 });
+    expect(weeks[0].rations.map((ration) => [ration.speciesId, ration.advice])).toEqual([
+      ['trout', 'Reduced ration'],
+      ['carp', 'Stop feeding'],
+    ]);
+    expect(weeks[0].rations[0].feed).toBeCloseTo(3.4, 9);
+    expect(weeks[7].rations.every((ration) => ration.advice === 'Stop feeding until oxygen recovers')).toBe(true);
+  });
+});
+
+describe('winterRation', () => {
+  it('keeps trout on a maintenance ration below their minimum', () => {
+    expect(winterRation(stocks[0], 2, false)).toMatchObject({ rate: expect.closeTo(0.08, 9), feedsPerDay: 1 });
+    expect(winterRation(stocks[0], 12, false)).toMatchObject({ rate: 1.5, feedsPerDay: 2, feed: 12, advice: 'Normal ration' });
+    expect(winterRation(stocks[1], 2, false)).toMatchObject({ rate: 0, advice: 'Stop feeding' });
+  });
+});
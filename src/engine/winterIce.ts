@@ -0,0 +1,272 @@
+import { feedingRateFor } from '../species/catalog';
+import type { GrowthStage, SpeciesProfile } from '../species/catalog';
+import { AERATOR_OUTPUT } from './aeration';
+import { BIOLOGICAL_THETA, DEFAULT_SEDIMENT_DEMAND, nightFishRespiration, surfaceTransfer } from './nightOxygen';
+import { oxygenSaturation } from './oxygen';
+
+// Winter on a still pond that freezes. The water cools towards the air until the column
+// reaches 4 °C, its densest; colder water then stays on top and freezes. Ice grows with
+// the square root of accumulated freezing degree-days (Stefan's law) and melts back on
+// days above 0 °C. Under ice nothing puts oxygen back, so fish and pond mud draw down
+// what the water held at freeze-up. Plankton respiration is left out: under ice, and
+// most of all under snow, the bloom dies back.
+
+// Stefan coefficient in cm per √(°C·day); snow on the ice insulates and slows growth.
+export const iceExposures: Record<string, { label: string; coefficient: number }> = {
+  bare: { label: 'Windswept, no snow on the ice', coefficient: 2.7 },
+  snow: { label: 'Some snow on the ice', coefficient: 2 },
+  deepSnow: { label: 'Deep snow or sheltered pond', coefficient: 1.4 },
+};
+
+export const ICE_MELT_RATE = 0.5; // cm of ice per °C·day above freezing
+export const UNDER_ICE_TEMPERATURE = 2; // °C, mean of the column between 0 at the ice and 4 at the bottom
+export const DEFAULT_INFLOW_OXYGEN = 9; // mg/L, spring or stream water in winter
+
+const DENSEST_WATER = 4; // °C
+const ICE_DENSITY = 0.917; // t/m³; each cm of ice takes 0.917 cm of water
+// Air-water heat exchange, W/m²/°C, and the heat held by a m² of water per m of depth.
+const HEAT_EXCHANGE = 20;
+const WATER_HEAT_CAPACITY = 4.186e6; // J/m³/°C
+// Fish respiration halves for each 10 °C colder (Q10 of 2) from the 25 °C figure.
+const FISH_Q10 = 2;
+
+export interface WinterStock {
+  species: SpeciesProfile;
+  stage: GrowthStage;
+  biomass: number; // kg
+}
+
+export interface WinterIceInput {
+  airTemperatures: number[]; // °C, daily mean from the first day of the winter
+  startWaterTemperature?: number; // °C on the first day; defaults to the first day's air
+  area: number; // m²
+  depth: number; // m, mean
+  iceCoefficient?: number; // cm/√(°C·day), see iceExposures
+  stocks: WinterStock[];
+  sedimentDemand?: number; // g O₂/m²/day at 20 °C
+  pressure?: number; // kPa
+  windSpeed?: number; // m/s over an open hole
+  threshold: number; // mg/L the stock must not drop below
+  inflowOxygen?: number; // mg/L in water that can be let in
+}
+
+export interface WinterIceDay {
+  day: number; // 1-based
+  airTemperature: number; // °C
+  waterTemperature: number; // °C, column mean
+  iceThickness: number; // cm
+  oxygen: number; // mg/L; saturated while the pond is open
+}
+
+export interface WinterOxygenDemand {
+  fish: number; // g O₂/day under ice
+  sediment: number;
+  total: number;
+}
+
+export interface WinterIceForecast {
+  daily: WinterIceDay[];
+  iceOnDay: number | null; // first day with ice
+  iceCoverDays: number;
+  maxIceThickness: number; // cm
+  maxIceDay: number | null;
+  frozenToBottom: boolean; // ice would take nearly all the water
+  saturation: number; // mg/L under ice, at the site's pressure
+  demand: WinterOxygenDemand;
+  minimumOxygen: number; // mg/L
+  // First ice-covered day below the threshold; null if oxygen holds.
+  breachDay: number | null;
+  // What keeps oxygen at the threshold under full ice: open water kept free of ice by a
+  // bubbler or agitator, aerators, or a steady inflow of oxygenated water.
+  openWaterArea: number; // m²
+  aerators: number;
+  inflow: number | null; // L/min; null when the inflow holds no more oxygen than the threshold
+  recommendations: string[];
+}
+
+// Straight lines between monthly means taken at mid-month, level before the first and after
+// the last. Months are given in order with their length in days.
+export const dailyAirTemperatures = (months: { days: number; temperature: number }[]): number[] => {
+  const anchors: { day: number; temperature: number }[] = [];
+  let start = 0;
+  months.forEach((month) => {
+    anchors.push({ day: start + month.days / 2, temperature: month.temperature });
+    start += month.days;
+  });
+  return Array.from({ length: start }, (_, index) => {
+    const day = index + 0.5;
+    const next = anchors.findIndex((anchor) => anchor.day >= day);
+    if (next === 0) return anchors[0].temperature;
+    if (next < 0) return anchors[anchors.length - 1].temperature;
+    const a = anchors[next - 1];
+    const b = anchors[next];
+    return a.temperature + ((b.temperature - a.temperature) * (day - a.day)) / (b.day - a.day);
+  });
+};
+
+// Lowers the air temperature by `drop` °C for `days` days from `startDay` (1-based).
+export const applyColdSnap = (temperatures: number[], startDay: number, days: number, drop: number): number[] =>
+  temperatures.map((value, index) => (index + 1 >= startDay && index + 1 < startDay + days ? value - drop : value));
+
+export const winterOxygenDemand = (
+  input: Pick<WinterIceInput, 'area' | 'stocks' | 'sedimentDemand'>,
+  temperature = UNDER_ICE_TEMPERATURE
+): WinterOxygenDemand => {
+  const fish = input.stocks.reduce(
+    (sum, stock) =>
+      sum +
+      (stock.biomass * nightFishRespiration(stock.species.production.oxygenConsumption) * 24 * FISH_Q10 ** ((temperature - 25) / 10)) /
+        1000,
+    0
+  );
+  const sediment = input.area * (input.sedimentDemand ?? DEFAULT_SEDIMENT_DEMAND) * BIOLOGICAL_THETA ** (temperature - 20);
+  return { fish, sediment, total: fish + sediment };
+};
+
+export const forecastWinterIce = (input: WinterIceInput): WinterIceForecast => {
+  const coefficient = input.iceCoefficient ?? iceExposures.snow.coefficient;
+  const cooling = Math.min(1, (HEAT_EXCHANGE * 86400) / (WATER_HEAT_CAPACITY * input.depth));
+  const saturation = oxygenSaturation({ temperature: UNDER_ICE_TEMPERATURE, pressure: input.pressure });
+  const demand = winterOxygenDemand(input);
+
+  let water = input.startWaterTemperature ?? input.airTemperatures[0] ?? DENSEST_WATER;
+  let ice = 0;
+  let oxygen = saturation;
+  const daily = input.airTemperatures.map((air, index): WinterIceDay => {
+    if (ice > 0 || (water <= DENSEST_WATER && air < 0)) {
+      // Stefan's law in its incremental form: h² grows by α² per freezing degree-day.
+      ice = air < 0 ? Math.sqrt(ice ** 2 + coefficient ** 2 * -air) : Math.max(0, ice - ICE_MELT_RATE * air);
+    }
+    if (ice > 0) {
+      water = UNDER_ICE_TEMPERATURE;
+      const waterDepth = Math.max(0.05, input.depth - (ICE_DENSITY * ice) / 100);
+      oxygen = Math.max(0, oxygen - demand.total / (input.area * waterDepth));
+    } else {
+      const next = water + cooling * (air - water);
+      water = air < water ? Math.max(DENSEST_WATER, next) : next;
+      oxygen = oxygenSaturation({ temperature: water, pressure: input.pressure });
+    }
+    return { day: index + 1, airTemperature: air, waterTemperature: water, iceThickness: ice, oxygen };
+  });
+
+  const iced = daily.filter((day) => day.iceThickness > 0);
+  const thickest = iced.reduce<WinterIceDay | null>(
+    (max, day) => (!max || day.iceThickness > max.iceThickness ? day : max),
+    null
+  );
+  const breach = iced.find((day) => day.oxygen < input.threshold);
+  const maxIceThickness = thickest?.iceThickness ?? 0;
+
+  // Oxygen kept at the threshold: surface transfer through open water, aerators delivering
+  // their rated output scaled by the deficit, or inflow carrying its excess over the threshold.
+  const deficit = Math.max(0.1, saturation - input.threshold);
+  const openWaterArea = demand.total / (surfaceTransfer(input.windSpeed ?? 0) * 24 * deficit);
+  const aeratorOutput = AERATOR_OUTPUT * (saturation / oxygenSaturation({ temperature: UNDER_ICE_TEMPERATURE }));
+  const aerators = Math.ceil(((demand.total / 1000 / 24) * (saturation / deficit)) / aeratorOutput);
+  const inflowOxygen = input.inflowOxygen ?? DEFAULT_INFLOW_OXYGEN;
+  const inflow = inflowOxygen > input.threshold ? (demand.total / (inflowOxygen - input.threshold)) * (1000 / 1440) : null;
+
+  const recommendations: string[] = [];
+  if (iced.length) {
+    recommendations.push('Keep a hole open with a bubbler or surface agitator near the deep end; holes cut by hand refreeze overnight');
+    recommendations.push('Run aerators gently under ice: mixing the whole pond chills the 4 °C bottom water the fish shelter in');
+    recommendations.push('Sweep snow off part of the ice so light reaches the water');
+  }
+  if (breach) {
+    recommendations.push('Stop feeding and remove dead fish before oxygen falls; both add to the demand');
+    recommendations.push('Measure oxygen through a hole every two or three days and start aeration or inflow before the safe level');
+  }
+  if (maxIceThickness / 100 > input.depth * 0.5) {
+    recommendations.push('Raise the water level before freeze-up or move the stock to deeper ponds; ice will take over half the depth');
+  }
+  if (inflow === null) {
+    recommendations.push('The inflow holds too little oxygen to help; aerate it over a cascade or splash board first');
+  }
+
+  return {
+    daily,
+    iceOnDay: iced[0]?.day ?? null,
+    iceCoverDays: iced.length,
+    maxIceThickness,
+    maxIceDay: thickest?.day ?? null,
+    frozenToBottom: (ICE_DENSITY * maxIceThickness) / 100 >= input.depth * 0.9,
+    saturation,
+    demand,
+    minimumOxygen: Math.min(...daily.map((day) => day.oxygen)),
+    breachDay: breach?.day ?? null,
+    openWaterArea,
+    aerators,
+    inflow,
+    recommendations,
+  };
+};
+
+export interface WinterRation {
+  speciesId: string;
+  rate: number; // % of biomass per day
+  feedsPerDay: number;
+  feed: number; // kg/day
+  advice: string;
+}
+
+export interface WinterFeedingWeek {
+  week: number; // 1-based
+  startDay: number;
+  waterTemperature: number; // °C, weekly mean
+  iceThickness: number; // cm, thickest that week
+  minimumOxygen: number; // mg/L
+  rations: WinterRation[];
+}
+
+// Share of the cool-water ration fed at the species' lowest tolerable temperature; rations
+// taper in a straight line from there up to the bottom of the optimal range.
+const RATION_AT_MINIMUM = 0.25;
+// Coldwater species keep eating a little below their minimum; others stop.
+const COLDWATER_MAINTENANCE = 0.1;
+
+export const winterRation = (stock: WinterStock, temperature: number, oxygenLow: boolean): WinterRation => {
+  const { species, stage, biomass } = stock;
+  const { min, optimal } = species.waterQuality.temperature;
+  const frequency = species.feeding.frequency[stage];
+  const ration = (rate: number, feedsPerDay: number, advice: string): WinterRation => ({
+    speciesId: species.id,
+    rate,
+    feedsPerDay,
+    feed: (biomass * rate) / 100,
+    advice,
+  });
+
+  if (oxygenLow) return ration(0, 0, 'Stop feeding until oxygen recovers');
+  if (temperature >= optimal.min) return ration(feedingRateFor(species, stage, temperature), frequency, 'Normal ration');
+  const cool = species.feeding.suboptimalRates[stage];
+  if (temperature >= min) {
+    const share = RATION_AT_MINIMUM + ((1 - RATION_AT_MINIMUM) * (temperature - min)) / Math.max(optimal.min - min, 1);
+    return ration(cool * share, Math.max(1, Math.ceil(frequency / 2)), 'Reduced ration');
+  }
+  return species.thermalGroup === 'coldwater'
+    ? ration(cool * COLDWATER_MAINTENANCE, 1, 'Maintenance ration on milder days')
+    : ration(0, 0, 'Stop feeding');
+};
+
+// Week-by-week ration for each stock, from the forecast's water temperature and oxygen.
+export const winterFeedingSchedule = (
+  forecast: WinterIceForecast,
+  stocks: WinterStock[],
+  threshold: number
+): WinterFeedingWeek[] => {
+  const weeks: WinterFeedingWeek[] = [];
+  for (let start = 0; start < forecast.daily.length; start += 7) {
+    const days = forecast.daily.slice(start, start + 7);
+    const waterTemperature = days.reduce((sum, day) => sum + day.waterTemperature, 0) / days.length;
+    const minimumOxygen = Math.min(...days.map((day) => day.oxygen));
+    weeks.push({
+      week: weeks.length + 1,
+      startDay: start + 1,
+      waterTemperature,
+      iceThickness: Math.max(...days.map((day) => day.iceThickness)),
+      minimumOxygen,
+      rations: stocks.map((stock) => winterRation(stock, waterTemperature, minimumOxygen < threshold)),
+    });
+  }
+  return weeks;
+};
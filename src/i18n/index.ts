@@ -0,0 +1,43 @@
+// Message catalogs are keyed by the English text, so any string that has no
+// translation yet simply shows in English.
+export type Language = 'en' | 'hi' | 'ur' | 'bn' | 'ks';
+export type Direction = 'ltr' | 'rtl';
+export type Messages = Record<string, string>;
+
+export const languageOptions: { value: Language; label: string; dir: Direction }[] = [
+  { value: 'en', label: 'English', dir: 'ltr' },
+  { value: 'hi', label: 'हिन्दी', dir: 'ltr' },
+  { value: 'ur', label: 'اردو', dir: 'rtl' },
+  { value: 'bn', label: 'বাংলা', dir: 'ltr' },
+  { value: 'ks', label: 'کٲشُر', dir: 'rtl' },
+];
+
+export const isLanguage = (value: string): value is Language =>
+  languageOptions.some((option) => option.value === value);
+
+export const directionOf = (language: Language): Direction =>
+  languageOptions.find((option) => option.value === language)?.dir ?? 'ltr';
+
+// Each catalog is its own chunk and is only fetched when that language is picked.
+const loaders: Record<Exclude<Language, 'en'>, () => Promise<{ default: Messages }>> = {
+  hi: () => import('./locales/hi'),
+  ur: () => import('./locales/ur'),
+  bn: () => import('./locales/bn'),
+  ks: () => import('./locales/ks'),
+};
+
+export const loadMessages = async (language: Language): Promise<Messages> =>
+  language === 'en' ? {} : (await loaders[language]()).default;
+
+// Looks up a message and fills `{name}` placeholders from params.
+export const translate = (
+  messages: Messages,
+  key: string,
+  params?: Record<string, string | number>
+) => {
+  const message = messages[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
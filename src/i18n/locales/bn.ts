@@ -0,0 +1,851 @@
+import type { Messages } from '..';
+
+// Bengali messages, keyed by the English text.
+const messages: Messages = {
+  '💧 Water Management': '💧 পানি ব্যবস্থাপনা',
+  '🗺️ Pond Registry': '🗺️ পুকুর নিবন্ধন',
+  'Register pond details': 'পুকুরের তথ্য নিবন্ধন করুন',
+  '💧 Water Quality': '💧 পানির গুণমান',
+  'Monitor water parameters': 'পানির মাপকাঠি পর্যবেক্ষণ',
+  '🌊 Water Quality Monitor': '🌊 পানির গুণমান মনিটর',
+  'Advanced water monitoring': 'উন্নত পানি পর্যবেক্ষণ',
+  '📉 Water Quality History': '📉 জলের গুণমানের ইতিহাস',
+  'Trends and statistics per pond': 'প্রতি পুকুরের প্রবণতা ও পরিসংখ্যান',
+  '📊 Water Quality Predictor': '📊 পানির গুণমান পূর্বাভাস',
+  'Predict water parameters': 'পানির মাপকাঠির পূর্বাভাস',
+  '🌙 Night Oxygen Forecast': '🌙 রাতের অক্সিজেন পূর্বাভাস',
+  'Predict pre-dawn oxygen crashes': 'ভোরের আগে অক্সিজেন পতনের পূর্বাভাস',
+  '🧊 Winter Ice Manager': '🧊 শীতকালীন বরফ ব্যবস্থাপক',
+  'Ice cover, under-ice oxygen and winter feeding': 'বরফের আস্তরণ, বরফের নিচে অক্সিজেন ও শীতকালীন খাদ্য',
+  '📡 Sensors': '📡 সেন্সর',
+  'Live readings from pond probes': 'পুকুরের প্রোব থেকে সরাসরি রিডিং',
+  '💨 Pond Evaporation': '💨 পুকুরের বাষ্পীভবন',
+  'Calculate water loss': 'পানি ক্ষতির হিসাব',
+  '🚰 Water Balance': '🚰 পানির ভারসাম্য',
+  'Level projection, refills and water demand': 'স্তরের পূর্বাভাস, পুনর্ভরণ ও পানির চাহিদা',
+  '🏊 Pond Sediment': '🏊 পুকুরের পলি',
+  'Manage sediment buildup': 'পলি জমার ব্যবস্থাপনা',
+  '🧪 Pond Liming': '🧪 পুকুরে চুন প্রয়োগ',
+  'Calculate lime requirements': 'চুনের প্রয়োজন হিসাব',
+  '🏗️ Pond Lining': '🏗️ পুকুরের লাইনিং',
+  'Calculate lining costs': 'লাইনিং খরচ হিসাব',
+  '🐟 Fish Management': '🐟 মাছ ব্যবস্থাপনা',
+  '📚 Species Catalog': '📚 প্রজাতির তালিকা',
+  'View and extend species data': 'প্রজাতির তথ্য দেখুন ও যোগ করুন',
+  '🧺 Production Batches': '🧺 উৎপাদন ব্যাচ',
+  'Track production cycles': 'উৎপাদন চক্র অনুসরণ',
+  '📈 Growth Tracker': '📈 বৃদ্ধি ট্র্যাকার',
+  'Track growth rates': 'বৃদ্ধির হার অনুসরণ',
+  '📊 Growth Benchmark': '📊 বৃদ্ধির মানদণ্ড',
+  'Compare growth rates': 'বৃদ্ধির হার তুলনা',
+  '📈 Growth Predictor': '📈 বৃদ্ধির পূর্বাভাস',
+  'Predict fish growth': 'মাছের বৃদ্ধির পূর্বাভাস',
+  '❤️ Fish Stress Monitor': '❤️ মাছের চাপ মনিটর',
+  'Monitor fish stress levels': 'মাছের চাপের মাত্রা পর্যবেক্ষণ',
+  '🔢 Fish Calculator': '🔢 মাছ ক্যালকুলেটর',
+  'Fish calculations': 'মাছের হিসাব',
+  '📊 Fish Stocking Calculator': '📊 মাছ মজুদ ক্যালকুলেটর',
+  'Calculate stocking density': 'মজুদ ঘনত্ব হিসাব',
+  '⚖️ Fish Yield Calculator': '⚖️ মাছের ফলন ক্যালকুলেটর',
+  'Calculate fish yield': 'মাছের ফলন হিসাব',
+  '🍽️ Feed Management': '🍽️ খাদ্য ব্যবস্থাপনা',
+  'Optimize feeding': 'খাওয়ানো উন্নত করুন',
+  '🧮 FCR Calculator': '🧮 FCR ক্যালকুলেটর',
+  'Calculate feed conversion': 'খাদ্য রূপান্তর হিসাব',
+  '⚡ FCR Optimizer': '⚡ FCR অপটিমাইজার',
+  'Optimize feed conversion': 'খাদ্য রূপান্তর উন্নত করুন',
+  '🍽️ Feeding Calculator': '🍽️ খাওয়ানো ক্যালকুলেটর',
+  'Calculate feeding amounts': 'খাদ্যের পরিমাণ হিসাব',
+  '🏥 Health Management': '🏥 স্বাস্থ্য ব্যবস্থাপনা',
+  '🔬 Disease Prevention': '🔬 রোগ প্রতিরোধ',
+  'Prevent diseases': 'রোগ প্রতিরোধ করুন',
+  '⚕️ Disease Risk Assessment': '⚕️ রোগের ঝুঁকি মূল্যায়ন',
+  'Assess disease risks': 'রোগের ঝুঁকি মূল্যায়ন করুন',
+  '♻️ Waste to Fertilizer': '♻️ বর্জ্য থেকে সার',
+  'Convert waste to fertilizer': 'বর্জ্যকে সারে রূপান্তর করুন',
+  '🌡️ Environment': '🌡️ পরিবেশ',
+  '🌡️ Environmental Monitor': '🌡️ পরিবেশ মনিটর',
+  'Monitor environment': 'পরিবেশ পর্যবেক্ষণ',
+  '⚡ Energy Efficiency': '⚡ জ্বালানি দক্ষতা',
+  'Optimize energy usage': 'জ্বালানি ব্যবহার উন্নত করুন',
+  '🌤️ Weather Impact': '🌤️ আবহাওয়ার প্রভাব',
+  'Analyze weather effects': 'আবহাওয়ার প্রভাব বিশ্লেষণ',
+  '💨 Aeration Calculator': '💨 বায়ুসঞ্চালন ক্যালকুলেটর',
+  'Design aeration systems': 'বায়ুসঞ্চালন ব্যবস্থা নকশা করুন',
+  '📊 Business Tools': '📊 ব্যবসায়িক সরঞ্জাম',
+  '📈 Market Analysis': '📈 বাজার বিশ্লেষণ',
+  'Analyze market trends': 'বাজারের প্রবণতা বিশ্লেষণ',
+  '💰 Profitability Calculator': '💰 লাভজনকতা ক্যালকুলেটর',
+  'Calculate profits': 'লাভ হিসাব',
+  '⏲️ Harvest Timing Advisor': '⏲️ আহরণ সময় পরামর্শক',
+  'Optimize harvest timing': 'আহরণের সময় উন্নত করুন',
+  '📦 Inventory': '📦 মজুদ',
+  'Manage stock': 'মজুদ ব্যবস্থাপনা',
+  '📊 Reports': '📊 প্রতিবেদন',
+  'Generate reports': 'প্রতিবেদন তৈরি করুন',
+  '📅 Production Calendar': '📅 উৎপাদন ক্যালেন্ডার',
+  'Plan production': 'উৎপাদন পরিকল্পনা',
+  '⚙️ Preferences': '⚙️ পছন্দসমূহ',
+  '🔔 Alert Rules': '🔔 সতর্কতার নিয়ম',
+  'Limits, notifications and alert history': 'সীমা, বিজ্ঞপ্তি ও সতর্কতার ইতিহাস',
+  '⚙️ Settings': '⚙️ সেটিংস',
+  'Currency, units, language and backups': 'মুদ্রা, একক, ভাষা ও ব্যাকআপ',
+  '🏠 Home': '🏠 হোম',
+  'ℹ️ About': 'ℹ️ পরিচিতি',
+  '👥 Our Team': '👥 আমাদের দল',
+  '📞 Contact Us': '📞 যোগাযোগ করুন',
+  '🔒 Privacy Policy': '🔒 গোপনীয়তা নীতি',
+  '⚖️ Disclaimer': '⚖️ দায়মুক্তি',
+  '🔍 Quick Links': '🔍 দ্রুত লিংক',
+  '👥 Company': '👥 কোম্পানি',
+  '📜 Legal': '📜 আইনি',
+  'Aquaculture Tools': 'জলজ চাষের সরঞ্জাম',
+  'Comprehensive suite of tools for modern aquaculture management': 'আধুনিক জলজ চাষ ব্যবস্থাপনার জন্য সম্পূর্ণ সরঞ্জাম সংগ্রহ',
+  'Home': 'হোম',
+  'About': 'পরিচিতি',
+  'All rights reserved.': 'সর্বস্বত্ব সংরক্ষিত।',
+  'Tools': 'সরঞ্জাম',
+  'Language': 'ভাষা',
+  'Units': 'একক',
+  'Metric (m, kg, °C)': 'মেট্রিক (m, kg, °C)',
+  'Imperial (ft, lb, °F)': 'ইম্পেরিয়াল (ft, lb, °F)',
+  'Feed Management': 'খাদ্য ব্যবস্থাপনা',
+  'Preferences': 'পছন্দসমূহ',
+  'Pond Registry': 'পুকুর নিবন্ধন',
+  'Water Quality': 'পানির গুণমান',
+  'Water Quality Monitor': 'পানির গুণমান মনিটর',
+  'Water Quality Predictor': 'পানির গুণমান পূর্বাভাস',
+  'Pond Evaporation': 'পুকুরের বাষ্পীভবন',
+  'Pond Sediment': 'পুকুরের পলি',
+  'Pond Liming': 'পুকুরে চুন প্রয়োগ',
+  'Pond Lining': 'পুকুরের লাইনিং',
+  'Species Catalog': 'প্রজাতির তালিকা',
+  'Production Batches': 'উৎপাদন ব্যাচ',
+  'Growth Tracker': 'বৃদ্ধি ট্র্যাকার',
+  'Growth Benchmark': 'বৃদ্ধির মানদণ্ড',
+  'Growth Predictor': 'বৃদ্ধির পূর্বাভাস',
+  'Fish Stress Monitor': 'মাছের চাপ মনিটর',
+  'Fish Calculator': 'মাছ ক্যালকুলেটর',
+  'Fish Stocking Calculator': 'মাছ মজুদ ক্যালকুলেটর',
+  'Fish Yield Calculator': 'মাছের ফলন ক্যালকুলেটর',
+  'FCR Calculator': 'FCR ক্যালকুলেটর',
+  'FCR Optimizer': 'FCR অপটিমাইজার',
+  'Feeding Calculator': 'খাওয়ানো ক্যালকুলেটর',
+  'Disease Prevention': 'রোগ প্রতিরোধ',
+  'Disease Risk Assessment': 'রোগের ঝুঁকি মূল্যায়ন',
+  'Waste to Fertilizer': 'বর্জ্য থেকে সার',
+  'Energy Efficiency': 'জ্বালানি দক্ষতা',
+  'Weather Impact': 'আবহাওয়ার প্রভাব',
+  'Aeration Calculator': 'বায়ুসঞ্চালন ক্যালকুলেটর',
+  'Market Analysis': 'বাজার বিশ্লেষণ',
+  'Profitability Calculator': 'লাভজনকতা ক্যালকুলেটর',
+  'Harvest Timing Advisor': 'আহরণ সময় পরামর্শক',
+  'Inventory': 'মজুদ',
+  'Reports': 'প্রতিবেদন',
+  'Production Calendar': 'উৎপাদন ক্যালেন্ডার',
+  'Settings': 'সেটিংস',
+  'Choose how money and measurements are shown and the default prices every calculator starts from.': 'টাকা ও পরিমাপ কীভাবে দেখাবে এবং প্রতিটি ক্যালকুলেটর কোন ডিফল্ট দামে শুরু হবে তা বেছে নিন।',
+  'Changes are saved on this device straight away.': 'পরিবর্তনগুলো সঙ্গে সঙ্গে এই ডিভাইসে সংরক্ষিত হয়।',
+  'Currency & Number Format': 'মুদ্রা ও সংখ্যার বিন্যাস',
+  'Currency': 'মুদ্রা',
+  'Number Format': 'সংখ্যার বিন্যাস',
+  'India formats group large amounts in lakh and crore': 'ভারতীয় বিন্যাসে বড় অঙ্ক লাখ ও কোটিতে দেখানো হয়',
+  'Exchange Rate ({symbol} per US$)': 'বিনিময় হার ({symbol} প্রতি US$)',
+  'Converts built-in reference prices such as species market prices and liner costs': 'প্রজাতির বাজারদর ও লাইনার খরচের মতো অন্তর্নির্মিত রেফারেন্স দাম রূপান্তর করে',
+  'Preview: {amount}': 'পূর্বরূপ: {amount}',
+  'Default Prices': 'ডিফল্ট দাম',
+  'Electricity Tariff ({symbol}/kWh)': 'বিদ্যুৎ শুল্ক ({symbol}/kWh)',
+  'Used for aerator and equipment running costs': 'এয়ারেটর ও যন্ত্র চালানোর খরচে ব্যবহৃত হয়',
+  'Labor ({symbol}/day)': 'শ্রম ({symbol}/দিন)',
+  'Cost of one worker for one day': 'একজন শ্রমিকের এক দিনের খরচ',
+  'Feed Price ({symbol}/kg)': 'খাদ্যের দাম ({symbol}/kg)',
+  'Used wherever a feed cost is estimated': 'যেখানেই খাদ্যের খরচ অনুমান করা হয় সেখানে ব্যবহৃত হয়',
+  'Unit System': 'একক পদ্ধতি',
+  'Individual fields can still be switched with their unit picker': 'আলাদা ঘরগুলো এখনও নিজস্ব একক নির্বাচক দিয়ে বদলানো যায়',
+  'Urdu and Kashmiri are shown right to left': 'উর্দু ও কাশ্মীরি ডান থেকে বামে দেখানো হয়',
+  'Monitor and analyze your pond\'s water quality parameters': 'আপনার পুকুরের পানির গুণমানের মাপকাঠি পর্যবেক্ষণ ও বিশ্লেষণ করুন',
+  'Dissolved Oxygen': 'দ্রবীভূত অক্সিজেন',
+  'Temperature': 'তাপমাত্রা',
+  'Ammonia': 'অ্যামোনিয়া',
+  'Nitrite': 'নাইট্রাইট',
+  'Nitrate': 'নাইট্রেট',
+  'Alkalinity': 'ক্ষারত্ব',
+  'Hardness': 'খরতা',
+  'Salinity': 'লবণাক্ততা',
+  'Turbidity': 'ঘোলাটেভাব',
+  'Phosphate': 'ফসফেট',
+  'Carbon Dioxide': 'কার্বন ডাই অক্সাইড',
+  'Optimal: {min}-{max} {unit}': 'সর্বোত্তম: {min}-{max} {unit}',
+  'Analyze Parameters': 'মাপকাঠি বিশ্লেষণ করুন',
+  'Overall Status: {status}': 'সামগ্রিক অবস্থা: {status}',
+  'Optimal': 'সর্বোত্তম',
+  'Warning': 'সতর্কতা',
+  'Critical': 'গুরুতর',
+  'Immediate action required!': 'অবিলম্বে ব্যবস্থা নিন!',
+  'Some parameters need attention.': 'কিছু মাপকাঠিতে মনোযোগ দরকার।',
+  'All parameters are within optimal range.': 'সব মাপকাঠি সর্বোত্তম সীমার মধ্যে আছে।',
+  'Recommendations:': 'সুপারিশ:',
+  'Increase aeration if levels are low': 'মাত্রা কম হলে বায়ুসঞ্চালন বাড়ান',
+  'Check stocking density if consistently low': 'ধারাবাহিকভাবে কম থাকলে মজুদ ঘনত্ব পরীক্ষা করুন',
+  'Monitor feeding rate if levels fluctuate': 'মাত্রা ওঠানামা করলে খাওয়ানোর হার লক্ষ্য করুন',
+  'Use shading during hot periods': 'গরমের সময় ছায়া ব্যবহার করুন',
+  'Adjust feeding based on temperature': 'তাপমাত্রা অনুযায়ী খাওয়ানো ঠিক করুন',
+  'Consider water exchange in extreme conditions': 'চরম অবস্থায় পানি বদলানোর কথা ভাবুন',
+  'Add lime if pH is low': 'pH কম হলে চুন দিন',
+  'Check alkalinity levels': 'ক্ষারত্বের মাত্রা পরীক্ষা করুন',
+  'Monitor after heavy rain': 'ভারী বৃষ্টির পর পর্যবেক্ষণ করুন',
+  'Reduce feeding if levels are high': 'মাত্রা বেশি হলে খাওয়ানো কমান',
+  'Increase water exchange': 'পানি বদলানো বাড়ান',
+  'Check biofilter efficiency': 'বায়োফিল্টারের দক্ষতা পরীক্ষা করুন',
+  'Add salt to reduce toxicity': 'বিষাক্ততা কমাতে লবণ দিন',
+  'Check nitrifying bacteria': 'নাইট্রিফাইং ব্যাকটেরিয়া পরীক্ষা করুন',
+  'Increase oxygenation': 'অক্সিজেন বাড়ান',
+  'Regular water exchange': 'নিয়মিত পানি বদলান',
+  'Monitor plant growth': 'উদ্ভিদের বৃদ্ধি লক্ষ্য করুন',
+  'Check denitrification': 'ডিনাইট্রিফিকেশন পরীক্ষা করুন',
+  'Add buffer if low': 'কম হলে বাফার দিন',
+  'Check limestone addition': 'চুনাপাথর যোগ পরীক্ষা করুন',
+  'Monitor pH stability': 'pH স্থিতিশীলতা লক্ষ্য করুন',
+  'Add calcium if low': 'কম হলে ক্যালসিয়াম দিন',
+  'Check mineral content': 'খনিজের পরিমাণ পরীক্ষা করুন',
+  'Balance with alkalinity': 'ক্ষারত্বের সাথে ভারসাম্য রাখুন',
+  'Adjust based on species': 'প্রজাতি অনুযায়ী ঠিক করুন',
+  'Monitor after rain': 'বৃষ্টির পর পর্যবেক্ষণ করুন',
+  'Check evaporation rate': 'বাষ্পীভবনের হার পরীক্ষা করুন',
+  'Use settling tanks': 'থিতানো ট্যাংক ব্যবহার করুন',
+  'Add mechanical filtration': 'যান্ত্রিক ছাঁকন যোগ করুন',
+  'Check erosion sources': 'ক্ষয়ের উৎস পরীক্ষা করুন',
+  'Control feed waste': 'খাদ্যের অপচয় নিয়ন্ত্রণ করুন',
+  'Monitor algae growth': 'শৈবালের বৃদ্ধি লক্ষ্য করুন',
+  'Check fertilization rate': 'সার প্রয়োগের হার পরীক্ষা করুন',
+  'Increase aeration': 'বায়ুসঞ্চালন বাড়ান',
+  'Check respiration rate': 'শ্বসন হার পরীক্ষা করুন',
+  'Monitor plant density': 'উদ্ভিদের ঘনত্ব লক্ষ্য করুন',
+  'Assess disease risks based on environmental parameters and fish behavior': 'পরিবেশগত মাপকাঠি ও মাছের আচরণের ভিত্তিতে রোগের ঝুঁকি মূল্যায়ন করুন',
+  'Species': 'প্রজাতি',
+  'Water Temperature': 'পানির তাপমাত্রা',
+  'Stocking Density': 'মজুদ ঘনত্ব',
+  'Feeding Rate (% biomass/day)': 'খাওয়ানোর হার (% বায়োমাস/দিন)',
+  'Mortality Rate (%)': 'মৃত্যুহার (%)',
+  'Fish Behavior': 'মাছের আচরণ',
+  'Observed Symptoms': 'পর্যবেক্ষিত লক্ষণ',
+  'Risk Factors': 'ঝুঁকির কারণ',
+  'Analyze Risk': 'ঝুঁকি বিশ্লেষণ করুন',
+  'Risk Factors Analysis': 'ঝুঁকির কারণ বিশ্লেষণ',
+  'Risk Level': 'ঝুঁকির মাত্রা',
+  'Factor': 'কারণ',
+  'Status': 'অবস্থা',
+  'Risk Score': 'ঝুঁকির স্কোর',
+  'Oxygen': 'অক্সিজেন',
+  'Density': 'ঘনত্ব',
+  'Mortality': 'মৃত্যু',
+  'Behavior': 'আচরণ',
+  'low': 'কম',
+  'medium': 'মাঝারি',
+  'high': 'বেশি',
+  '{probability}% Risk': '{probability}% ঝুঁকি',
+  'Common Symptoms:': 'সাধারণ লক্ষণ:',
+  'Preventive Measures:': 'প্রতিরোধমূলক ব্যবস্থা:',
+  'Recommended Treatments:': 'প্রস্তাবিত চিকিৎসা:',
+  'White Spot Disease (Ich)': 'সাদা দাগ রোগ (ইক)',
+  'Bacterial Gill Disease': 'ব্যাকটেরিয়াজনিত ফুলকা রোগ',
+  'Columnaris Disease': 'কলামনারিস রোগ',
+  'Saprolegniasis (Fungal Infection)': 'স্যাপ্রোলেগনিয়াসিস (ছত্রাক সংক্রমণ)',
+  'Aeromonas Infection': 'অ্যারোমোনাস সংক্রমণ',
+  'Trichodiniasis': 'ট্রাইকোডিনিয়াসিস',
+  'Streptococcosis': 'স্ট্রেপটোকক্কোসিস',
+  'Lethargy': 'অলসতা',
+  'Erratic swimming': 'এলোমেলো সাঁতার',
+  'Gasping at surface': 'উপরিতলে হাঁপানো',
+  'Red/inflamed gills': 'লাল/ফোলা ফুলকা',
+  'Skin lesions': 'ত্বকে ক্ষত',
+  'White spots on skin': 'ত্বকে সাদা দাগ',
+  'Bloated abdomen': 'ফোলা পেট',
+  'Fin rot': 'পাখনা পচা',
+  'Color changes': 'রঙের পরিবর্তন',
+  'Excess mucus production': 'অতিরিক্ত শ্লেষ্মা তৈরি',
+  'Scale loss': 'আঁশ ঝরে পড়া',
+  'Pop-eye condition': 'চোখ ফুলে বের হওয়া',
+  'Ulcers': 'আলসার',
+  'Hemorrhages': 'রক্তক্ষরণ',
+  'Cotton-like growth': 'তুলার মতো বৃদ্ধি',
+  'Black/brown spots': 'কালো/বাদামি দাগ',
+  'Rapid operculum movement': 'কানকোর দ্রুত নড়াচড়া',
+  'Flashing behavior': 'গা ঘষা আচরণ',
+  'Tail/fin erosion': 'লেজ/পাখনা ক্ষয়',
+  'Body deformities': 'দেহের বিকৃতি',
+  'Rapid breathing': 'দ্রুত শ্বাস নেওয়া',
+  'Dark body color': 'শরীরের গাঢ় রঙ',
+  'Quarantine new fish': 'নতুন মাছ আলাদা রাখুন',
+  'Maintain optimal water quality': 'পানির সর্বোত্তম গুণমান বজায় রাখুন',
+  'Regular health monitoring': 'নিয়মিত স্বাস্থ্য পর্যবেক্ষণ',
+  'Maintain good water quality': 'পানির ভালো গুণমান বজায় রাখুন',
+  'Avoid overcrowding': 'অতিরিক্ত ভিড় এড়িয়ে চলুন',
+  'Regular gill checks': 'নিয়মিত ফুলকা পরীক্ষা',
+  'Reduce stress factors': 'চাপের কারণ কমান',
+  'Maintain clean environment': 'পরিষ্কার পরিবেশ বজায় রাখুন',
+  'Regular water changes': 'নিয়মিত পানি বদলান',
+  'Avoid physical damage': 'শারীরিক আঘাত এড়ান',
+  'Maintain water quality': 'পানির গুণমান বজায় রাখুন',
+  'Proper handling': 'সঠিকভাবে নাড়াচাড়া',
+  'Good sanitation': 'ভালো পরিচ্ছন্নতা',
+  'Stress reduction': 'চাপ কমানো',
+  'Regular health checks': 'নিয়মিত স্বাস্থ্য পরীক্ষা',
+  'Regular water quality monitoring': 'নিয়মিত পানির গুণমান পর্যবেক্ষণ',
+  'Maintain optimal water temperature': 'পানির সর্বোত্তম তাপমাত্রা বজায় রাখুন',
+  'Regular disinfection': 'নিয়মিত জীবাণুমুক্তকরণ',
+  'Proper feed storage': 'খাদ্যের সঠিক সংরক্ষণ',
+  'Increase temperature to 30°C gradually': 'তাপমাত্রা ধীরে ধীরে 30°C পর্যন্ত বাড়ান',
+  'Salt treatment (0.15-0.3%)': 'লবণ চিকিৎসা (0.15-0.3%)',
+  'Commercial ich treatment': 'বাণিজ্যিক ইক চিকিৎসা',
+  'Formalin bath treatment': 'ফরমালিন স্নান চিকিৎসা',
+  'Antibiotic treatment under veterinary guidance': 'পশু চিকিৎসকের পরামর্শে অ্যান্টিবায়োটিক চিকিৎসা',
+  'Potassium permanganate bath': 'পটাশিয়াম পারম্যাঙ্গানেট স্নান',
+  'Improve aeration': 'বায়ুসঞ্চালন উন্নত করুন',
+  'Antibiotic treatment': 'অ্যান্টিবায়োটিক চিকিৎসা',
+  'Salt bath treatment': 'লবণ স্নান চিকিৎসা',
+  'Copper sulfate treatment': 'কপার সালফেট চিকিৎসা',
+  'Malachite green treatment': 'ম্যালাকাইট গ্রিন চিকিৎসা',
+  'Remove infected tissue': 'সংক্রমিত টিস্যু অপসারণ করুন',
+  'Wound disinfection': 'ক্ষত জীবাণুমুক্তকরণ',
+  'Salt treatment (2-3%)': 'লবণ চিকিৎসা (2-3%)',
+  'Reduce feeding rate': 'খাওয়ানোর হার কমান',
+  'Optimize harvest timing based on growth, market conditions, and profitability': 'বৃদ্ধি, বাজার পরিস্থিতি ও লাভের ভিত্তিতে আহরণের সময় ঠিক করুন',
+  'Initial Weight': 'প্রাথমিক ওজন',
+  'Current Weight': 'বর্তমান ওজন',
+  'Target Weight': 'লক্ষ্য ওজন',
+  'Stocking Date': 'মজুদের তারিখ',
+  'Growth Rate': 'বৃদ্ধির হার',
+  'Feeding Rate (% biomass)': 'খাওয়ানোর হার (% বায়োমাস)',
+  'Survival Rate (%)': 'বেঁচে থাকার হার (%)',
+  'Market Price ({symbol}/kg)': 'বাজারদর ({symbol}/kg)',
+  'Production Costs ({symbol}/day)': 'উৎপাদন খরচ ({symbol}/দিন)',
+  'Seasonal Pricing': 'মৌসুমি দাম',
+  'Peak Season': 'ভরা মৌসুম',
+  'Off Season': 'অমৌসুম',
+  'Normal': 'স্বাভাবিক',
+  'Festival Season': 'উৎসবের মৌসুম',
+  'Excellent': 'চমৎকার',
+  'Good': 'ভালো',
+  'Fair': 'মোটামুটি',
+  'Poor': 'খারাপ',
+  'Harvest Timing Analysis': 'আহরণ সময় বিশ্লেষণ',
+  'Optimal Harvest Date': 'সর্বোত্তম আহরণের তারিখ',
+  'Days to Harvest': 'আহরণ পর্যন্ত দিন',
+  'Expected Weight': 'প্রত্যাশিত ওজন',
+  'Confidence Level': 'আস্থার মাত্রা',
+  'Economic Projection': 'অর্থনৈতিক প্রক্ষেপণ',
+  'Expected Revenue': 'প্রত্যাশিত আয়',
+  'Production Cost': 'উৎপাদন খরচ',
+  'Projected Profit': 'প্রক্ষেপিত লাভ',
+  'Price Variation': 'দামের ওঠানামা',
+  'Growth and Profit Projection': 'বৃদ্ধি ও লাভের প্রক্ষেপণ',
+  'Weeks': 'সপ্তাহ',
+  'Weight (g)': 'ওজন (g)',
+  'Profit ({symbol})': 'লাভ ({symbol})',
+  'Risk Assessment': 'ঝুঁকি মূল্যায়ন',
+  'Risk Factor': 'ঝুঁকির কারণ',
+  'Level': 'মাত্রা',
+  'Impact': 'প্রভাব',
+  'Recommendations': 'সুপারিশ',
+  'Market Price': 'বাজারদর',
+  'May slow growth rate and affect survival': 'বৃদ্ধি ধীর করতে পারে ও বেঁচে থাকায় প্রভাব ফেলতে পারে',
+  'Below optimal growth rate for species': 'প্রজাতির সর্বোত্তম বৃদ্ধির হারের চেয়ে কম',
+  'Lower prices during off-season': 'অমৌসুমে কম দাম',
+  'Consider improving water quality before harvest': 'আহরণের আগে পানির গুণমান উন্নত করার কথা ভাবুন',
+  'Monitor growth rate more frequently': 'বৃদ্ধির হার আরও ঘন ঘন পর্যবেক্ষণ করুন',
+  'Evaluate possibility of extending culture period to reach peak season': 'ভরা মৌসুমে পৌঁছাতে চাষের সময় বাড়ানোর সম্ভাবনা যাচাই করুন',
+  'Consider partial harvesting strategy': 'আংশিক আহরণ কৌশলের কথা ভাবুন',
+  'Review production costs and feeding strategy': 'উৎপাদন খরচ ও খাওয়ানোর কৌশল পর্যালোচনা করুন',
+  'Consider alternative market channels': 'বিকল্প বাজার মাধ্যমের কথা ভাবুন',
+  'Optimal harvest window: {date} (±{days} days)': 'সর্বোত্তম আহরণকাল: {date} (±{days} দিন)',
+  'Online': 'অনলাইন',
+  'Offline': 'অফলাইন',
+  'Connected. Everything is also saved on this device.': 'সংযুক্ত। সবকিছু এই ডিভাইসেও সংরক্ষিত হয়।',
+  'No connection. The app keeps working and saves on this device.': 'সংযোগ নেই। অ্যাপ চলতে থাকবে এবং এই ডিভাইসে সংরক্ষণ করবে।',
+  'Not backed up': 'ব্যাকআপ হয়নি',
+  'Latest changes ({date}) are not backed up yet': 'সাম্প্রতিক পরিবর্তনের ({date}) এখনও ব্যাকআপ হয়নি',
+  'Backup & Restore': 'ব্যাকআপ ও পুনরুদ্ধার',
+  'Save every pond, batch, record and setting to one file, or bring them back from a file saved earlier on this or another device.': 'প্রতিটি পুকুর, ব্যাচ, রেকর্ড ও সেটিং একটি ফাইলে সংরক্ষণ করুন, অথবা এই বা অন্য ডিভাইসে আগে সংরক্ষিত ফাইল থেকে ফিরিয়ে আনুন।',
+  'Download backup': 'ব্যাকআপ ডাউনলোড করুন',
+  'Restore from file': 'ফাইল থেকে পুনরুদ্ধার করুন',
+  'Last backup: {date}': 'শেষ ব্যাকআপ: {date}',
+  'No backup downloaded yet': 'এখনও কোনো ব্যাকআপ ডাউনলোড হয়নি',
+  '…and {count} more problems': '…এবং আরও {count}টি সমস্যা',
+  'The backup could not be created.': 'ব্যাকআপ তৈরি করা যায়নি।',
+  'The backup could not be compared with the data on this device.': 'ব্যাকআপটি এই ডিভাইসের ডেটার সঙ্গে তুলনা করা যায়নি।',
+  'Backup restored.': 'ব্যাকআপ পুনরুদ্ধার হয়েছে।',
+  'The backup could not be restored.': 'ব্যাকআপ পুনরুদ্ধার করা যায়নি।',
+  'Restore Backup': 'ব্যাকআপ পুনরুদ্ধার করুন',
+  'Backup from {date}': '{date}-এর ব্যাকআপ',
+  'an unknown date': 'অজানা তারিখ',
+  'Data': 'ডেটা',
+  'New': 'নতুন',
+  'Same': 'একই',
+  'Different': 'ভিন্ন',
+  'Only on this device': 'শুধু এই ডিভাইসে',
+  'Merge: add the backup to what is on this device': 'একত্র করুন: ব্যাকআপটি এই ডিভাইসের ডেটায় যোগ করুন',
+  'Replace: make this device match the backup exactly': 'প্রতিস্থাপন করুন: এই ডিভাইসকে হুবহু ব্যাকআপের মতো করুন',
+  'Records and settings that are only on this device will be deleted.': 'যে রেকর্ড ও সেটিং শুধু এই ডিভাইসে আছে সেগুলো মুছে যাবে।',
+  '{count} records differ between this device and the backup': '{count}টি রেকর্ড এই ডিভাইস ও ব্যাকআপে ভিন্ন',
+  'Keep the backup version': 'ব্যাকআপের সংস্করণ রাখুন',
+  'Keep this device version': 'এই ডিভাইসের সংস্করণ রাখুন',
+  'Record': 'রেকর্ড',
+  'Field': 'ফিল্ড',
+  'This device': 'এই ডিভাইস',
+  'Backup': 'ব্যাকআপ',
+  'Cancel': 'বাতিল',
+  'Restore': 'পুনরুদ্ধার করুন',
+  'Production batches': 'উৎপাদন ব্যাচ',
+  'Calendar tasks': 'ক্যালেন্ডারের কাজ',
+  'Feeding schedules': 'খাওয়ানোর সময়সূচি',
+  'Feed stock': 'খাদ্যের মজুদ',
+  'Feeding history': 'খাওয়ানোর ইতিহাস',
+  'Ponds': 'পুকুর',
+  'Custom species': 'নিজস্ব প্রজাতি',
+  'The file is not valid JSON.': 'ফাইলটি বৈধ JSON নয়।',
+  'The file is not an Aquaculture Tools backup.': 'ফাইলটি Aquaculture Tools-এর ব্যাকআপ নয়।',
+  'The backup was made by a newer version of the app. Update the app and try again.': 'ব্যাকআপটি অ্যাপের নতুন সংস্করণে তৈরি। অ্যাপ আপডেট করে আবার চেষ্টা করুন।',
+  'The backup has no data section.': 'ব্যাকআপে কোনো ডেটা অংশ নেই।',
+  'The settings section is not valid.': 'সেটিংস অংশটি বৈধ নয়।',
+  'Ignore': 'বাদ দিন',
+  'Date (or date and time)': 'তারিখ (বা তারিখ ও সময়)',
+  'Time': 'সময়',
+  'Pond': 'পুকুর',
+  'Sampler': 'নমুনা সংগ্রাহক',
+  'Notes': 'মন্তব্য',
+  'Day/Month/Year': 'দিন/মাস/বছর',
+  'Month/Day/Year': 'মাস/দিন/বছর',
+  'Year-Month-Day': 'বছর-মাস-দিন',
+  'Choose file': 'ফাইল বেছে নিন',
+  'Map columns': 'কলাম মেলান',
+  'Review': 'পর্যালোচনা',
+  'Done': 'সম্পন্ন',
+  'Date is missing': 'তারিখ নেই',
+  'Cannot read the date "{value}"': 'তারিখ "{value}" পড়া যায়নি',
+  'Cannot read the time "{value}"': 'সময় "{value}" পড়া যায়নি',
+  'No saved pond is named "{value}"': '"{value}" নামে কোনো সংরক্ষিত পুকুর নেই',
+  'No pond given': 'কোনো পুকুর দেওয়া হয়নি',
+  '{parameter}: "{value}" is not a number': '{parameter}: "{value}" সংখ্যা নয়',
+  '{parameter}: {value} {unit} is outside the possible range': '{parameter}: {value} {unit} সম্ভাব্য সীমার বাইরে',
+  '{parameter}: "{value}" is a detection limit, stored as {limit}': '{parameter}: "{value}" শনাক্তকরণ সীমা, {limit} হিসেবে সংরক্ষিত',
+  'No measured values': 'কোনো মাপা মান নেই',
+  'Map a column to Date': 'একটি কলাম তারিখ হিসেবে মেলান',
+  'Map at least one water-quality parameter': 'অন্তত একটি জলের গুণমান প্যারামিটার মেলান',
+  '{target} is mapped to more than one column': '{target} একাধিক কলামের সঙ্গে মেলানো হয়েছে',
+  'Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.': 'পুরনো .xls ওয়ার্কবুক সমর্থিত নয়। শিটটি .xlsx বা CSV হিসেবে সংরক্ষণ করে আবার চেষ্টা করুন।',
+  'The file needs a header row and at least one row of readings.': 'ফাইলে একটি শিরোনাম সারি ও অন্তত একটি রিডিং সারি থাকতে হবে।',
+  'The file could not be read.': 'ফাইলটি পড়া যায়নি।',
+  'The readings could not be saved.': 'রিডিংগুলো সংরক্ষণ করা যায়নি।',
+  'Import Water-Quality Readings': 'জলের গুণমানের রিডিং আমদানি করুন',
+  'Choose a CSV or Excel (.xlsx) file with one sample per row and a header row naming the columns, for example Date, Pond, DO (mg/L), Temp (°C), pH.': 'এমন একটি CSV বা Excel (.xlsx) ফাইল বেছে নিন যার প্রতি সারিতে একটি নমুনা এবং একটি শিরোনাম সারিতে কলামের নাম আছে, যেমন Date, Pond, DO (mg/L), Temp (°C), pH।',
+  '{file}: {rows} rows and {columns} columns': '{file}: {rows}টি সারি ও {columns}টি কলাম',
+  'Add your ponds in the Pond Registry first; readings are stored per pond.': 'আগে পুকুর রেজিস্ট্রিতে আপনার পুকুর যোগ করুন; রিডিং প্রতিটি পুকুরের জন্য সংরক্ষিত হয়।',
+  'Used for rows without a pond column': 'যে সারিতে পুকুরের কলাম নেই সেগুলোর জন্য',
+  'Used for rows without a sampler column': 'যে সারিতে নমুনা সংগ্রাহকের কলাম নেই সেগুলোর জন্য',
+  'Column': 'কলাম',
+  'Sample values': 'নমুনা মান',
+  'Import as': 'যে হিসেবে আমদানি',
+  'Unit': 'একক',
+  'Column {number}': 'কলাম {number}',
+  'Date format': 'তারিখের বিন্যাস',
+  'Decimal separator': 'দশমিক চিহ্ন',
+  'Point (7.5)': 'বিন্দু (7.5)',
+  'Comma (7,5)': 'কমা (7,5)',
+  'The numbers in the file do not settle the separator; check it': 'ফাইলের সংখ্যা থেকে চিহ্ন নিশ্চিত হয় না; যাচাই করুন',
+  'Detected from the numbers in the file': 'ফাইলের সংখ্যা থেকে শনাক্ত',
+  '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}': '{parameter}: "{value}" বিন্দু বা কমা দশমিক চিহ্নে ভিন্নভাবে পড়া হয়, {number} হিসেবে সংরক্ষিত',
+  'Every date in the file reads both ways; check the order': 'ফাইলের প্রতিটি তারিখ দুইভাবেই পড়া যায়; ক্রম যাচাই করুন',
+  'Detected from the dates in the file': 'ফাইলের তারিখ থেকে শনাক্ত',
+  'Map a Pond column or choose a pond in the previous step.': 'পুকুরের কলাম মেলান বা আগের ধাপে পুকুর বেছে নিন।',
+  '{count} ready to import': '{count}টি আমদানির জন্য প্রস্তুত',
+  '{count} with errors': '{count}টিতে ত্রুটি',
+  '{count} already saved': '{count}টি আগেই সংরক্ষিত',
+  'Show only rows with problems': 'শুধু সমস্যাযুক্ত সারি দেখান',
+  'Row': 'সারি',
+  'Date': 'তারিখ',
+  'Problems': 'সমস্যা',
+  'Already saved for this pond and time; skipped': 'এই পুকুর ও সময়ের জন্য আগেই সংরক্ষিত; বাদ দেওয়া হয়েছে',
+  'Showing the first {count} rows.': 'প্রথম {count}টি সারি দেখানো হচ্ছে।',
+  '{count} readings imported.': '{count}টি রিডিং আমদানি হয়েছে।',
+  'Parameter': 'প্যারামিটার',
+  'Close': 'বন্ধ করুন',
+  'Back': 'পেছনে',
+  'Next': 'পরবর্তী',
+  'Import {count} readings': '{count}টি রিডিং আমদানি করুন',
+  '{count} saved readings. Showing the latest, taken {date}.': '{count}টি সংরক্ষিত রিডিং। {date}-এ নেওয়া সর্বশেষটি দেখানো হচ্ছে।',
+  'No saved readings for this pond yet.': 'এই পুকুরের এখনও কোনো সংরক্ষিত রিডিং নেই।',
+  'Import readings': 'রিডিং আমদানি করুন',
+  'Water-quality readings': 'জলের গুণমানের রিডিং',
+  'Water Quality History': 'জলের গুণমানের ইতিহাস',
+  'Trends, statistics and pond-by-pond comparison of every saved water-quality reading. Shaded bands mark the optimal (green), warning (amber) and critical (red) ranges.': 'প্রতিটি সংরক্ষিত জলের গুণমান রিডিংয়ের প্রবণতা, পরিসংখ্যান ও পুকুর-ভিত্তিক তুলনা। ছায়াযুক্ত পট্টি সর্বোত্তম (সবুজ), সতর্কতা (অ্যাম্বার) ও সংকটপূর্ণ (লাল) পরিসর দেখায়।',
+  'Parameters': 'প্যারামিটার',
+  'Period': 'সময়কাল',
+  'Leave empty to compare every pond with readings': 'রিডিং থাকা সব পুকুর তুলনা করতে খালি রাখুন',
+  'Last 7 days': 'গত 7 দিন',
+  'Last 30 days': 'গত 30 দিন',
+  'Last 90 days': 'গত 90 দিন',
+  'Last 12 months': 'গত 12 মাস',
+  'All readings': 'সব রিডিং',
+  'No readings in this period.': 'এই সময়কালে কোনো রিডিং নেই।',
+  'Record or import readings in the Water Quality Monitor.': 'জলের গুণমান মনিটরে রিডিং লিখুন বা আমদানি করুন।',
+  'None of the chosen parameters were measured in this period.': 'এই সময়কালে নির্বাচিত কোনো প্যারামিটার মাপা হয়নি।',
+  'Deleted pond': 'মুছে ফেলা পুকুর',
+  'Statistics': 'পরিসংখ্যান',
+  'Readings': 'রিডিং',
+  'Min': 'সর্বনিম্ন',
+  'Mean': 'গড়',
+  'Max': 'সর্বোচ্চ',
+  'Latest': 'সর্বশেষ',
+  'Taken': 'নেওয়া হয়েছে',
+  'Values': 'মান',
+  'Delete': 'মুছুন',
+  'Showing the latest {count} of {total} readings.': '{total}টির মধ্যে সর্বশেষ {count}টি রিডিং দেখানো হচ্ছে।',
+  'History': 'ইতিহাস',
+  'Sampled at': 'নমুনা নেওয়ার সময়',
+  'Choose a pond to keep readings in its history.': 'রিডিং ইতিহাসে রাখতে একটি পুকুর বেছে নিন।',
+  'Trend Window': 'প্রবণতার সময়সীমা',
+  'Readings fitted for trends and projections': 'প্রবণতা ও পূর্বাভাসে ব্যবহৃত রিডিং',
+  'Last 24 hours': 'গত 24 ঘণ্টা',
+  'Last 3 days': 'গত 3 দিন',
+  'Chloride': 'ক্লোরাইড',
+  'Salinity (ppt)': 'লবণাক্ততা (ppt)',
+  'Protects fish against nitrite': 'মাছকে নাইট্রাইট থেকে রক্ষা করে',
+  'Un-ionized NH₃: {value} mg/L ({percent}% of total ammonia)': 'অ-আয়নিত NH₃: {value} mg/L (মোট অ্যামোনিয়ার {percent}%)',
+  'Enter pH and temperature to judge the toxic NH₃ share.': 'বিষাক্ত NH₃ অংশ বিচার করতে pH ও তাপমাত্রা লিখুন।',
+  'Chloride to nitrite ratio: {ratio}:1': 'ক্লোরাইড ও নাইট্রাইটের অনুপাত: {ratio}:1',
+  'Enter chloride or salinity to judge nitrite toxicity.': 'নাইট্রাইটের বিষাক্ততা বিচার করতে ক্লোরাইড বা লবণাক্ততা লিখুন।',
+  'Add salt to keep at least 10 parts chloride per part nitrite': 'প্রতি ভাগ নাইট্রাইটে অন্তত 10 ভাগ ক্লোরাইড রাখতে লবণ দিন',
+  'Check source water chloride before adding salt': 'লবণ দেওয়ার আগে উৎস জলের ক্লোরাইড পরীক্ষা করুন',
+  'Retest after heavy rain or water exchange': 'ভারী বৃষ্টি বা জল বদলের পরে আবার পরীক্ষা করুন',
+  'Farm Site': 'খামারের স্থান',
+  'Elevation': 'উচ্চতা',
+  'Height above sea level; thinner air holds less oxygen in the water': 'সমুদ্রপৃষ্ঠ থেকে উচ্চতা; পাতলা বাতাসে জল কম অক্সিজেন ধরে',
+  'Barometric Pressure (kPa)': 'বায়ুচাপ (kPa)',
+  'Leave empty to use {pressure} kPa, the standard pressure at this elevation': 'এই উচ্চতার মানক চাপ {pressure} kPa ব্যবহার করতে খালি রাখুন',
+  'Fresh water at 25 °C holds {saturation} mg/L of oxygen at saturation here.': 'এখানে 25 °C-এ মিঠা জল সম্পৃক্ত অবস্থায় {saturation} mg/L অক্সিজেন ধরে।',
+  '{percent}% of saturation ({saturation} mg/L at this site)': 'সম্পৃক্ততার {percent}% (এই স্থানে {saturation} mg/L)',
+  'Enter temperature to see percent saturation.': 'সম্পৃক্ততার শতাংশ দেখতে তাপমাত্রা লিখুন।',
+  'Night Oxygen Forecast': 'রাতের অক্সিজেন পূর্বাভাস',
+  'Simulates dissolved oxygen hour by hour from dusk to dawn, when fish, plankton and pond mud consume oxygen and nothing produces it, and finds the latest time to start the aerators.': 'সূর্যাস্ত থেকে ভোর পর্যন্ত ঘণ্টায় ঘণ্টায় দ্রবীভূত অক্সিজেনের অনুকরণ করে, যখন মাছ, প্লাঙ্কটন ও পুকুরের কাদা অক্সিজেন খরচ করে এবং কিছুই তা তৈরি করে না, এবং এয়ারেটর চালুর শেষ সময় খুঁজে দেয়।',
+  'Minimum Safe Oxygen': 'ন্যূনতম নিরাপদ অক্সিজেন',
+  'Dissolved Oxygen at Dusk': 'সূর্যাস্তে দ্রবীভূত অক্সিজেন',
+  'Pond Area': 'পুকুরের আয়তন',
+  'Average Depth': 'গড় গভীরতা',
+  'Fish Biomass': 'মাছের জৈবভর',
+  'Filled from the pond\'s active batches': 'পুকুরের সক্রিয় ব্যাচ থেকে পূরণ করা',
+  'Secchi Depth': 'সেকি গভীরতা',
+  'Shallower readings mean a denser plankton bloom': 'কম গভীরতা মানে ঘন প্লাঙ্কটন ব্লুম',
+  'Sediment Oxygen Demand (g O₂/m²/day)': 'তলানির অক্সিজেন চাহিদা (g O₂/m²/দিন)',
+  'About 1 for a typical earthen pond, 2-3 with heavy organic mud': 'সাধারণ মাটির পুকুরে প্রায় 1, ভারী জৈব কাদায় 2-3',
+  'Night Wind Speed': 'রাতের বাতাসের গতি',
+  'Number of Aerators': 'এয়ারেটরের সংখ্যা',
+  'Filled from the pond\'s Aeration Calculator result': 'পুকুরের এয়ারেশন ক্যালকুলেটর ফলাফল থেকে পূরণ করা',
+  'Aerator Output (kg O₂/hour each)': 'এয়ারেটর আউটপুট (প্রতিটি kg O₂/ঘণ্টা)',
+  'Leave empty for fresh water': 'মিঠা জলের জন্য খালি রাখুন',
+  'Dusk': 'সূর্যাস্ত',
+  'Dawn': 'ভোর',
+  'Site pressure {pressure} kPa, from the elevation in Settings.': 'স্থানের চাপ {pressure} kPa, সেটিংসের উচ্চতা থেকে।',
+  'Forecast Night Oxygen': 'রাতের অক্সিজেনের পূর্বাভাস দিন',
+  'Oxygen stays above {threshold} mg/L all night; the lowest is {minimum} mg/L at {time}. No aeration needed.': 'সারা রাত অক্সিজেন {threshold} mg/L-এর ওপরে থাকে; সর্বনিম্ন {time}-এ {minimum} mg/L। এয়ারেশনের প্রয়োজন নেই।',
+  'Oxygen falls below {threshold} mg/L at {time} and the aerators cannot hold it even if started at dusk (lowest {aerated} mg/L). Add aeration, cut feeding or reduce the stock.': '{time}-এ অক্সিজেন {threshold} mg/L-এর নিচে নামে এবং সূর্যাস্ত থেকে চালালেও এয়ারেটর তা ধরে রাখতে পারে না (সর্বনিম্ন {aerated} mg/L)। এয়ারেশন বাড়ান, খাবার কমান বা মজুদ কমান।',
+  'Without aeration oxygen falls below {threshold} mg/L at {time}, reaching {minimum} mg/L by {minimumTime}. Start the aerators by {start}.': 'এয়ারেশন ছাড়া {time}-এ অক্সিজেন {threshold} mg/L-এর নিচে নামে এবং {minimumTime}-এর মধ্যে {minimum} mg/L-এ পৌঁছায়। {start}-এর মধ্যে এয়ারেটর চালু করুন।',
+  'Without aeration': 'এয়ারেশন ছাড়া',
+  'With aerators': 'এয়ারেটরসহ',
+  'Oxygen Budget': 'অক্সিজেন বাজেট',
+  'Saturation': 'সম্পৃক্ততা',
+  'Fish respiration': 'মাছের শ্বসন',
+  'Plankton respiration': 'প্লাঙ্কটনের শ্বসন',
+  'Sediment demand': 'তলানির চাহিদা',
+  'Total consumption': 'মোট খরচ',
+  'Measure dissolved oxygen and Secchi depth around sunset for the best forecast.': 'সেরা পূর্বাভাসের জন্য সূর্যাস্তের কাছাকাছি দ্রবীভূত অক্সিজেন ও সেকি গভীরতা মাপুন।',
+  'Sensors': 'সেন্সর',
+  'Stream dissolved oxygen, temperature and pH from pond probes into the monitors and water-quality history.': 'পুকুরের প্রোব থেকে দ্রবীভূত অক্সিজেন, তাপমাত্রা ও pH সরাসরি মনিটর ও পানির মানের ইতিহাসে পাঠান।',
+  'MQTT broker': 'MQTT ব্রোকার',
+  'Off': 'বন্ধ',
+  'Connecting': 'সংযোগ হচ্ছে',
+  'Connected': 'সংযুক্ত',
+  'Disconnected': 'সংযোগ বিচ্ছিন্ন',
+  'Error': 'ত্রুটি',
+  'Connect': 'সংযোগ করুন',
+  'Broker WebSocket URL': 'ব্রোকার WebSocket URL',
+  'Client ID': 'ক্লায়েন্ট ID',
+  'Leave blank for a random ID': 'এলোমেলো ID-র জন্য ফাঁকা রাখুন',
+  'Username': 'ব্যবহারকারীর নাম',
+  'Password': 'পাসওয়ার্ড',
+  'Kept on this device only, never in backups': 'শুধু এই ডিভাইসে রাখা হয়, ব্যাকআপে কখনো নয়',
+  'Save to history every (minutes)': 'প্রতি (মিনিট) ইতিহাসে সংরক্ষণ করুন',
+  '0 shows live values without saving them. Simulated values are never saved': '0 হলে সরাসরি মান সংরক্ষণ ছাড়াই দেখায়। সিমুলেটেড মান কখনো সংরক্ষিত হয় না',
+  'Devices': 'ডিভাইস',
+  'Add Device': 'ডিভাইস যোগ করুন',
+  'Edit Device': 'ডিভাইস সম্পাদনা করুন',
+  'No devices yet. Add a simulated probe to try live readings without hardware.': 'এখনো কোনো ডিভাইস নেই। হার্ডওয়্যার ছাড়া সরাসরি রিডিং দেখতে একটি সিমুলেটেড প্রোব যোগ করুন।',
+  'Name': 'নাম',
+  'Source': 'উৎস',
+  'Latest values': 'সর্বশেষ মান',
+  'Actions': 'কার্যক্রম',
+  'Last reading {date}': 'শেষ রিডিং {date}',
+  'Publishes to {topic}': '{topic}-এ প্রকাশ করে',
+  'No pond': 'কোনো পুকুর নেই',
+  'Sensor': 'সেন্সর',
+  'Waiting': 'অপেক্ষমাণ',
+  'Live': 'সরাসরি',
+  'Stale': 'পুরোনো',
+  'HTTP polling': 'HTTP পোলিং',
+  'Simulator': 'সিমুলেটর',
+  'Connection': 'সংযোগ',
+  'Topic': 'টপিক',
+  'MQTT topic filter; + matches one level and # the rest': 'MQTT টপিক ফিল্টার; + একটি স্তর ও # বাকি সব মেলায়',
+  'Optional. Also publish simulated readings here when the broker is connected': 'ঐচ্ছিক। ব্রোকার সংযুক্ত থাকলে সিমুলেটেড রিডিং এখানেও প্রকাশ করুন',
+  'URL': 'URL',
+  'Returns the latest reading as JSON; the server must allow cross-origin requests': 'সর্বশেষ রিডিং JSON হিসেবে ফেরত দেয়; সার্ভারকে ক্রস-অরিজিন অনুরোধ অনুমোদন করতে হবে',
+  'Interval (seconds)': 'বিরতি (সেকেন্ড)',
+  'Stale after (minutes)': 'এত (মিনিট) পরে পুরোনো',
+  'Flag the device when no reading arrives for this long': 'এতক্ষণ কোনো রিডিং না এলে ডিভাইসটি চিহ্নিত করুন',
+  'Calibration offsets': 'ক্যালিব্রেশন অফসেট',
+  'Added to every raw value, e.g. -0.15 when the probe reads pH 0.15 high against a reference.': 'প্রতিটি কাঁচা মানের সাথে যোগ হয়, যেমন রেফারেন্সের তুলনায় প্রোব pH 0.15 বেশি পড়লে -0.15।',
+  'Save': 'সংরক্ষণ করুন',
+  'Devices may send JSON such as {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}, or a bare number on a topic ending in the parameter name, e.g. farm/pond-1/do. Values are read in mg/L and °C.': 'ডিভাইস {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}-এর মতো JSON পাঠাতে পারে, অথবা প্যারামিটারের নামে শেষ হওয়া টপিকে শুধু একটি সংখ্যা, যেমন farm/pond-1/do। মান mg/L ও °C-তে পড়া হয়।',
+  'Waiting for the first reading from this pond\'s sensors.': 'এই পুকুরের সেন্সর থেকে প্রথম রিডিংয়ের অপেক্ষা।',
+  'Live sensor values': 'সরাসরি সেন্সর মান',
+  'Measured {date}': '{date}-এ মাপা হয়েছে',
+  'No recent reading from {devices}. Check the probe, its power and its connection.': '{devices} থেকে সাম্প্রতিক কোনো রিডিং নেই। প্রোব, এর বিদ্যুৎ ও সংযোগ পরীক্ষা করুন।',
+  'Use live values': 'সরাসরি মান ব্যবহার করুন',
+  'Follow live': 'সরাসরি অনুসরণ করুন',
+  'Could not read any values from the last message': 'শেষ বার্তা থেকে কোনো মান পড়া যায়নি',
+  'All ponds': 'সব পুকুর',
+  'Quantity at or below the item minimum': 'পরিমাণ আইটেমের ন্যূনতমে বা তার নিচে',
+  'Pending more than {days} days past its date': 'নির্ধারিত তারিখের পর {days} দিনের বেশি বাকি',
+  'for {minutes} min': '{minutes} মিনিট ধরে',
+  'Cleared {date}': '{date}-এ মিটেছে',
+  'Acknowledged': 'স্বীকৃত',
+  'Snoozed until {date}': '{date} পর্যন্ত স্থগিত',
+  'Open': 'খোলা',
+  'Alert Rules': 'সতর্কতার নিয়ম',
+  'Add Rule': 'নিয়ম যোগ করুন',
+  'Edit Rule': 'নিয়ম সম্পাদনা করুন',
+  'Rules are checked against saved readings, live sensor values, inventory and the production calendar. Alerts appear under the bell at the top of the page.': 'নিয়মগুলো সংরক্ষিত রিডিং, সরাসরি সেন্সর মান, মজুত ও উৎপাদন ক্যালেন্ডারের বিপরীতে যাচাই করা হয়। সতর্কতা পাতার উপরে ঘণ্টার নিচে দেখা যায়।',
+  'No alert rules yet.': 'এখনো কোনো সতর্কতার নিয়ম নেই।',
+  'Condition': 'শর্ত',
+  'Severity': 'তীব্রতা',
+  'Alert History': 'সতর্কতার ইতিহাস',
+  'Open only': 'শুধু খোলা',
+  'No alerts so far.': 'এখন পর্যন্ত কোনো সতর্কতা নেই।',
+  'Raised': 'উত্থাপিত',
+  'Alert': 'সতর্কতা',
+  'Audit trail': 'অডিট ট্রেইল',
+  'Acknowledge': 'স্বীকার করুন',
+  'Threshold': 'সীমা',
+  'Uses the minimum set on each inventory item.': 'প্রতিটি মজুত আইটেমে নির্ধারিত ন্যূনতম ব্যবহার করে।',
+  'Leave blank to name the rule after its condition': 'শর্ত অনুযায়ী নাম রাখতে ফাঁকা রাখুন',
+  'Watch': 'নজরদারি',
+  'Pond (none for every pond)': 'পুকুর (সব পুকুরের জন্য কোনোটি নয়)',
+  'When': 'কখন',
+  'For at least (minutes)': 'অন্তত (মিনিট) ধরে',
+  'Readings must stay past the limit over this span; 0 alerts on the first reading': 'রিডিং এই পুরো সময় সীমার বাইরে থাকতে হবে; 0 প্রথম রিডিংয়েই সতর্ক করে',
+  'Days overdue before alerting': 'সতর্কতার আগে বিলম্বের দিন',
+  'Alerts': 'সতর্কতা',
+  'Nothing needs attention.': 'কোনো কিছুতে মনোযোগের প্রয়োজন নেই।',
+  'Snooze': 'স্থগিত করুন',
+  'Alert rules and history': 'সতর্কতার নিয়ম ও ইতিহাস',
+  '{hours} h': '{hours} ঘ',
+  'Low stock (at or below the item minimum)': 'কম মজুত (আইটেমের ন্যূনতমে বা নিচে)',
+  'Overdue calendar tasks': 'বিলম্বিত ক্যালেন্ডার কাজ',
+  'Below': 'নিচে',
+  'Above': 'উপরে',
+  'Info': 'তথ্য',
+  '{parameter} in {pond} is {value} {unit}, below {threshold} {unit}': '{pond}-এ {parameter} {value} {unit}, {threshold} {unit}-এর নিচে',
+  '{parameter} in {pond} is {value} {unit}, above {threshold} {unit}': '{pond}-এ {parameter} {value} {unit}, {threshold} {unit}-এর উপরে',
+  '{parameter} below {threshold} {unit}': '{parameter} {threshold} {unit}-এর নিচে',
+  '{parameter} above {threshold} {unit}': '{parameter} {threshold} {unit}-এর উপরে',
+  '{item} is down to {quantity} {unit} (minimum {minimum} {unit})': '{item} কমে {quantity} {unit} হয়েছে (ন্যূনতম {minimum} {unit})',
+  '"{task}" is {days} days overdue': '"{task}" {days} দিন বিলম্বিত',
+  'Snoozed': 'স্থগিত',
+  'Cleared': 'মিটেছে',
+  'Low dissolved oxygen': 'কম দ্রবীভূত অক্সিজেন',
+  'Dissolved oxygen below optimal': 'দ্রবীভূত অক্সিজেন সর্বোত্তমের নিচে',
+  'High water temperature': 'পানির উচ্চ তাপমাত্রা',
+  'Low pH': 'কম pH',
+  'High pH': 'উচ্চ pH',
+  'High ammonia': 'উচ্চ অ্যামোনিয়া',
+  'High nitrite': 'উচ্চ নাইট্রাইট',
+  'Low stock': 'কম মজুত',
+  'Overdue task': 'বিলম্বিত কাজ',
+  'Custom ranges for {pond}': '{pond}-এর জন্য নিজস্ব সীমা',
+  'Set limits for stock whose needs differ from its species, such as broodstock or hatchery tanks. Readings outside the acceptable limits are critical; parameters left off follow the species.': 'যে মজুতের চাহিদা তার প্রজাতি থেকে আলাদা, যেমন ব্রুডস্টক বা হ্যাচারি ট্যাংক, তার জন্য সীমা ঠিক করুন। গ্রহণযোগ্য সীমার বাইরের রিডিং গুরুতর; বন্ধ রাখা প্যারামিটার প্রজাতি অনুসরণ করে।',
+  'Custom': 'নিজস্ব',
+  'Lowest acceptable': 'সর্বনিম্ন গ্রহণযোগ্য',
+  'Optimal from': 'সর্বোত্তম থেকে',
+  'Optimal to': 'সর্বোত্তম পর্যন্ত',
+  'Highest acceptable': 'সর্বোচ্চ গ্রহণযোগ্য',
+  'Limits must rise from lowest acceptable through the optimal range to highest acceptable: {parameters}': 'সীমা সর্বনিম্ন গ্রহণযোগ্য থেকে সর্বোত্তম পরিসর হয়ে সর্বোচ্চ গ্রহণযোগ্য পর্যন্ত বাড়তে হবে: {parameters}',
+  'Batch': 'ব্যাচ',
+  'Life stage': 'জীবনের পর্যায়',
+  'Sets the ranges and the ammonia and nitrite toxicity limits': 'পরিসর এবং অ্যামোনিয়া ও নাইট্রাইট বিষাক্ততার সীমা ঠিক করে',
+  'Fry need more oxygen and cleaner water': 'পোনার বেশি অক্সিজেন ও পরিষ্কার পানি দরকার',
+  'Ranges for {species}, {stage}.': '{species}, {stage}-এর জন্য পরিসর।',
+  'all stages': 'সব পর্যায়',
+  'Fry': 'পোনা',
+  'Fingerling': 'আঙুলে পোনা',
+  'Juvenile': 'কিশোর',
+  'Adult': 'প্রাপ্তবয়স্ক',
+  'Generic warmwater ranges. Choose a species or batch for its own.': 'সাধারণ উষ্ণ-পানির পরিসর। নিজস্ব পরিসরের জন্য প্রজাতি বা ব্যাচ বেছে নিন।',
+  '{count} parameters use custom ranges set for this pond.': '{count}টি প্যারামিটার এই পুকুরের নিজস্ব পরিসর ব্যবহার করে।',
+  'Custom ranges': 'নিজস্ব পরিসর',
+  'Pond range, optimal: {min}-{max} {unit}': 'পুকুরের পরিসর, সর্বোত্তম: {min}-{max} {unit}',
+  'Water Balance': 'পানির ভারসাম্য',
+  'Pond Water Balance': 'পুকুরের পানির ভারসাম্য',
+  'Day-by-day water budget of a pond: rain and runoff in, evaporation and seepage out, with planned exchange, pumping and refills. Shows how the level moves, when to refill and how much water a cycle needs.': 'পুকুরের দৈনিক পানির হিসাব: বৃষ্টি ও প্রবাহ ভেতরে, বাষ্পীভবন ও চুয়ানো বাইরে, পরিকল্পিত বিনিময়, পাম্পিং ও পুনর্ভরণসহ। স্তর কীভাবে বদলায়, কখন ভরতে হবে এবং এক চক্রে কত পানি লাগে তা দেখায়।',
+  'Water Surface Area': 'পানির পৃষ্ঠের ক্ষেত্রফল',
+  'Current Depth': 'বর্তমান গভীরতা',
+  'Full Depth': 'পূর্ণ গভীরতা',
+  'Spill level, and the level refills go back to': 'উপচে পড়ার স্তর, এবং যে স্তর পর্যন্ত পুনর্ভরণ হয়',
+  'Minimum Depth': 'সর্বনিম্ন গভীরতা',
+  'Filled from the stocked species': 'মজুত প্রজাতি থেকে পূরণ করা',
+  'Refill At Depth': 'এই গভীরতায় পুনর্ভরণ',
+  'Leave empty to plan no refills': 'পুনর্ভরণ পরিকল্পনা না করতে ফাঁকা রাখুন',
+  'Evaporation': 'বাষ্পীভবন',
+  'Filled from the pond\'s Pond Evaporation result': 'পুকুরের পুকুর বাষ্পীভবন ফলাফল থেকে পূরণ করা',
+  'Seepage': 'চুয়ানো',
+  'Estimated from the pond\'s soil and liner': 'পুকুরের মাটি ও লাইনার থেকে অনুমান',
+  'Rainfall': 'বৃষ্টিপাত',
+  'Average over the cycle': 'চক্রের গড়',
+  'Catchment Area': 'জলাধার এলাকা',
+  'Land draining into the pond': 'যে জমির পানি পুকুরে যায়',
+  'Catchment Surface': 'জলাধারের পৃষ্ঠ',
+  'Water Exchange (% per day)': 'পানি বিনিময় (% প্রতিদিন)',
+  'Drained and replaced, so the level stays': 'নিষ্কাশন ও প্রতিস্থাপন হয়, তাই স্তর একই থাকে',
+  'Pumped Inflow (m³/day)': 'পাম্পে আসা পানি (m³/দিন)',
+  'Continuous topping up': 'অবিরাম পূরণ',
+  'Cycle Length (days)': 'চক্রের দৈর্ঘ্য (দিন)',
+  'Start Date': 'শুরুর তারিখ',
+  'Fill the pond to full depth at the start': 'শুরুতে পুকুর পূর্ণ গভীরতা পর্যন্ত ভরুন',
+  'Calculate Water Balance': 'পানির ভারসাম্য হিসাব করুন',
+  'Inflows match or exceed losses; the level holds without refills.': 'আগমন ক্ষতির সমান বা বেশি; পুনর্ভরণ ছাড়াই স্তর বজায় থাকে।',
+  'The pond already starts below the minimum depth.': 'পুকুর শুরু থেকেই সর্বনিম্ন গভীরতার নিচে।',
+  '{days} days until minimum depth: without refills the level falls {rate} mm/day and drops below {depth} on {date}.': 'সর্বনিম্ন গভীরতা পর্যন্ত {days} দিন: পুনর্ভরণ ছাড়া স্তর {rate} mm/দিন নামে এবং {date}-এ {depth}-এর নিচে যায়।',
+  'Day {day}': 'দিন {day}',
+  'With refills': 'পুনর্ভরণসহ',
+  'Without refills': 'পুনর্ভরণ ছাড়া',
+  'Daily Flows': 'দৈনিক প্রবাহ',
+  'Rain on the pond': 'পুকুরে বৃষ্টি',
+  'Catchment runoff': 'জলাধার থেকে প্রবাহ',
+  'Pumped inflow': 'পাম্পে আসা পানি',
+  'Net change': 'নিট পরিবর্তন',
+  'Exchange (drained and replaced)': 'বিনিময় (নিষ্কাশন ও প্রতিস্থাপন)',
+  'Refill Schedule': 'পুনর্ভরণের সময়সূচি',
+  'No refills needed in this cycle.': 'এই চক্রে পুনর্ভরণের প্রয়োজন নেই।',
+  'Day': 'দিন',
+  'Volume': 'আয়তন',
+  'Water Demand per Cycle': 'প্রতি চক্রে পানির চাহিদা',
+  'Initial fill': 'প্রাথমিক ভরাট',
+  'Refills': 'পুনর্ভরণ',
+  'Water exchange': 'পানি বিনিময়',
+  'Drained and refilled the same day, so it uses water but does not lower the level': 'একই দিনে নিষ্কাশন ও পুনরায় ভরা হয়, তাই পানি লাগে কিন্তু স্তর কমে না',
+  'Total demand': 'মোট চাহিদা',
+  'Spilled over the outlet': 'নির্গমপথ দিয়ে উপচে পড়া',
+  'Enter the pond and its water flows to project the level over the cycle.': 'চক্রজুড়ে স্তরের পূর্বাভাস পেতে পুকুর ও এর পানির প্রবাহ লিখুন।',
+  'Forest or dense cover': 'বন বা ঘন আবরণ',
+  'Grass or pasture': 'ঘাস বা চারণভূমি',
+  'Cultivated fields': 'চাষের জমি',
+  'Bare or compacted soil': 'খালি বা শক্ত মাটি',
+  'Roofs and paved yards': 'ছাদ ও পাকা উঠান',
+  'Latitude (°)': 'অক্ষাংশ (°)',
+  'Negative south of the equator; sets day length for evaporation estimates': 'বিষুবরেখার দক্ষিণে ঋণাত্মক; বাষ্পীভবন অনুমানের জন্য দিনের দৈর্ঘ্য ঠিক করে',
+  'Climate Station': 'জলবায়ু কেন্দ্র',
+  'District whose monthly normals prefill the weather inputs; also sets latitude and elevation': 'যে জেলার মাসিক স্বাভাবিক মান আবহাওয়ার ঘর পূরণ করে; অক্ষাংশ ও উচ্চতাও ঠিক করে',
+  'Edit or replace normals': 'স্বাভাবিক মান সম্পাদনা বা প্রতিস্থাপন করুন',
+  'None': 'কোনোটি নয়',
+  'Climate normals for {station}': '{station}-এর জলবায়ু স্বাভাবিক মান',
+  'Delete station': 'কেন্দ্র মুছুন',
+  'Enter your own station\'s monthly means to replace the bundled district figures, or save them as a new station.': 'সঙ্গে থাকা জেলার হিসাব বদলাতে নিজের কেন্দ্রের মাসিক গড় লিখুন, অথবা নতুন কেন্দ্র হিসেবে সংরক্ষণ করুন।',
+  'Every month needs a number for each value, and the station needs a name, latitude and elevation.': 'প্রতি মাসে প্রতিটি মানের জন্য একটি সংখ্যা লাগবে, এবং কেন্দ্রের নাম, অক্ষাংশ ও উচ্চতা লাগবে।',
+  'Month': 'মাস',
+  'Reset to bundled normals': 'সঙ্গে থাকা স্বাভাবিক মানে ফেরান',
+  'Save as new station': 'নতুন কেন্দ্র হিসেবে সংরক্ষণ করুন',
+  'State': 'রাজ্য',
+  'Station Name': 'কেন্দ্রের নাম',
+  'Choose a climate station in': 'জলবায়ু কেন্দ্র বেছে নিন:',
+  'to prefill the weather from monthly normals.': 'যাতে মাসিক স্বাভাবিক মান থেকে আবহাওয়া পূরণ হয়।',
+  'Weather prefilled from {station} normals; edit any value to override': '{station}-এর স্বাভাবিক মান থেকে আবহাওয়া পূরণ; বদলাতে যেকোনো মান সম্পাদনা করুন',
+  'Air Temperature (°C)': 'বাতাসের তাপমাত্রা (°C)',
+  'Daily Range (°C)': 'দৈনিক পার্থক্য (°C)',
+  'Humidity (%)': 'আর্দ্রতা (%)',
+  'Rainfall (mm/month)': 'বৃষ্টিপাত (mm/মাস)',
+  'Sunshine (h/day)': 'রোদ (ঘণ্টা/দিন)',
+  'Wind (km/h)': 'বাতাস (km/h)',
+  'Climate stations': 'জলবায়ু কেন্দ্র',
+  'January': 'জানুয়ারি',
+  'February': 'ফেব্রুয়ারি',
+  'March': 'মার্চ',
+  'April': 'এপ্রিল',
+  'May': 'মে',
+  'June': 'জুন',
+  'July': 'জুলাই',
+  'August': 'আগস্ট',
+  'September': 'সেপ্টেম্বর',
+  'October': 'অক্টোবর',
+  'November': 'নভেম্বর',
+  'December': 'ডিসেম্বর',
+  'Winter Ice Manager': 'শীতকালীন বরফ ব্যবস্থাপক',
+  'Estimates when a pond freezes and how thick the ice gets from freezing degree-days, how fast fish and pond mud use up the oxygen under the ice, what open water, aeration or inflow keeps it safe, and how far to cut feeding through the winter.': 'হিমাঙ্ক ডিগ্রি-দিন থেকে অনুমান করে পুকুর কখন জমবে ও বরফ কত পুরু হবে, মাছ ও পুকুরের কাদা বরফের নিচে কত দ্রুত অক্সিজেন খরচ করে, কতটা খোলা জল, বায়ুসঞ্চালন বা জলপ্রবাহ তা নিরাপদ রাখে, এবং সারা শীতে খাদ্য কতটা কমাতে হবে।',
+  'Stock': 'মজুত',
+  'Growth Stage': 'বৃদ্ধির পর্যায়',
+  'Remove': 'সরান',
+  'Add species': 'প্রজাতি যোগ করুন',
+  'Winter Weather': 'শীতের আবহাওয়া',
+  'to prefill the monthly air temperatures.': 'যাতে মাসিক বায়ুর তাপমাত্রা আগে থেকে পূরণ হয়।',
+  'Mean air temperature of each winter month': 'শীতের প্রতিটি মাসের গড় বায়ু তাপমাত্রা',
+  'Winter Starts In': 'শীত শুরু হয়',
+  'Snow and Shelter': 'তুষার ও আড়াল',
+  'Windswept, no snow on the ice': 'ঝোড়ো হাওয়া, বরফের ওপর তুষার নেই',
+  'Some snow on the ice': 'বরফের ওপর কিছু তুষার',
+  'Deep snow or sheltered pond': 'গভীর তুষার বা আড়ালে থাকা পুকুর',
+  'Water Temperature at Start': 'শুরুতে জলের তাপমাত্রা',
+  'Leave empty to start from the air temperature': 'বায়ুর তাপমাত্রা থেকে শুরু করতে ফাঁকা রাখুন',
+  'Cold Snap': 'শৈত্যপ্রবাহ',
+  'Starts On': 'শুরুর তারিখ',
+  'Leave empty for a normal winter': 'স্বাভাবিক শীতের জন্য ফাঁকা রাখুন',
+  'Length (days)': 'সময়কাল (দিন)',
+  'Colder Than Normal By (°C)': 'স্বাভাবিকের চেয়ে কত ঠান্ডা (°C)',
+  'Inflow Oxygen': 'আগত জলে অক্সিজেন',
+  'Spring or stream water that can be let in': 'ঝরনা বা নালার জল যা ভেতরে ছাড়া যায়',
+  'Over open water in the ice': 'বরফের মাঝে খোলা জলের ওপর',
+  'Wind Speed': 'বাতাসের গতি',
+  'Forecast Winter Ice': 'শীতকালীন বরফের পূর্বাভাস দিন',
+  'No ice expected: the daily mean air temperature does not fall below freezing once the pond has cooled to 4 °C.': 'বরফের সম্ভাবনা নেই: পুকুর 4 °C পর্যন্ত ঠান্ডা হওয়ার পর দৈনিক গড় বায়ু তাপমাত্রা হিমাঙ্কের নিচে নামে না।',
+  'Ice from {date}, {days} days of cover in all, thickest {thickness} around {maxDate}.': '{date} থেকে বরফ, মোট {days} দিন বরফের আস্তরণ, {maxDate} নাগাদ সবচেয়ে পুরু {thickness}।',
+  'The pond would freeze nearly to the bottom.': 'পুকুর প্রায় তলা পর্যন্ত জমে যাবে।',
+  'Under the ice oxygen falls below {threshold} mg/L on {date}, reaching {minimum} mg/L.': 'বরফের নিচে অক্সিজেন {date} তারিখে {threshold} mg/L-এর নিচে নামে এবং {minimum} mg/L-এ পৌঁছায়।',
+  'Oxygen stays above {threshold} mg/L under the ice; the lowest is {minimum} mg/L.': 'বরফের নিচে অক্সিজেন {threshold} mg/L-এর ওপরে থাকে; সর্বনিম্ন {minimum} mg/L।',
+  'day': 'দিন',
+  'Air temperature (°C)': 'বায়ুর তাপমাত্রা (°C)',
+  'Ice (cm)': 'বরফ (cm)',
+  'Oxygen (mg/L)': 'অক্সিজেন (mg/L)',
+  'Keeping Oxygen Under Ice': 'বরফের নিচে অক্সিজেন বজায় রাখা',
+  'Open water kept free of ice': 'বরফমুক্ত রাখা খোলা জল',
+  'or aerators': 'অথবা এয়ারেটর',
+  'or a steady inflow of': 'অথবা নিয়মিত জলপ্রবাহ',
+  'Open water alone cannot keep up: the pond surface is too small for its stock. Aerate or let in water.': 'শুধু খোলা জল যথেষ্ট নয়: পুকুরের পৃষ্ঠ তার মজুতের তুলনায় খুব ছোট। বায়ুসঞ্চালন করুন বা জল ঢোকান।',
+  'Keep a hole open with a bubbler or surface agitator near the deep end; holes cut by hand refreeze overnight': 'গভীর প্রান্তের কাছে বাবলার বা পৃষ্ঠ আলোড়ক দিয়ে একটি গর্ত খোলা রাখুন; হাতে কাটা গর্ত রাতারাতি আবার জমে যায়',
+  'Run aerators gently under ice: mixing the whole pond chills the 4 °C bottom water the fish shelter in': 'বরফের নিচে এয়ারেটর ধীরে চালান: পুরো পুকুর মেশালে তলার 4 °C জল ঠান্ডা হয়ে যায় যেখানে মাছ আশ্রয় নেয়',
+  'Sweep snow off part of the ice so light reaches the water': 'বরফের কিছু অংশ থেকে তুষার সরিয়ে দিন যাতে আলো জলে পৌঁছায়',
+  'Stop feeding and remove dead fish before oxygen falls; both add to the demand': 'অক্সিজেন কমার আগে খাওয়ানো বন্ধ করুন ও মরা মাছ তুলে ফেলুন; দুটোই চাহিদা বাড়ায়',
+  'Measure oxygen through a hole every two or three days and start aeration or inflow before the safe level': 'প্রতি দুই-তিন দিনে গর্ত দিয়ে অক্সিজেন মাপুন এবং নিরাপদ মাত্রার আগেই বায়ুসঞ্চালন বা জলপ্রবাহ শুরু করুন',
+  'Raise the water level before freeze-up or move the stock to deeper ponds; ice will take over half the depth': 'জমার আগে জলস্তর বাড়ান বা মজুত গভীর পুকুরে সরান; বরফ অর্ধেকের বেশি গভীরতা নেবে',
+  'The inflow holds too little oxygen to help; aerate it over a cascade or splash board first': 'আগত জলে অক্সিজেন খুব কম; আগে ঝরনাধারা বা স্প্ল্যাশ বোর্ডে বায়ুসঞ্চালন করুন',
+  'Winter Feeding Schedule': 'শীতকালীন খাদ্য সূচি',
+  'Add a species to the stock for a feeding schedule.': 'খাদ্য সূচির জন্য মজুতে একটি প্রজাতি যোগ করুন।',
+  'Week of': 'সপ্তাহ',
+  'Water (°C)': 'জল (°C)',
+  'Ice': 'বরফ',
+  'Normal ration': 'স্বাভাবিক খাদ্য',
+  'Reduced ration': 'কমানো খাদ্য',
+  'Maintenance ration on milder days': 'কম ঠান্ডা দিনে রক্ষণাবেক্ষণ খাদ্য',
+  'Stop feeding': 'খাওয়ানো বন্ধ করুন',
+  'Stop feeding until oxygen recovers': 'অক্সিজেন স্বাভাবিক না হওয়া পর্যন্ত খাওয়ানো বন্ধ রাখুন',
+  'Enter the pond, its stock and the winter air temperatures to forecast ice and under-ice oxygen.': 'বরফ ও বরফের নিচে অক্সিজেনের পূর্বাভাসের জন্য পুকুর, তার মজুত ও শীতের বায়ু তাপমাত্রা লিখুন।',
+  'Between 10 and 5000': '10 থেকে 5000-এর মধ্যে',
+};
+
+export default messages;
@@ -0,0 +1,851 @@
+import type { Messages } from '..';
+
+// Hindi messages, keyed by the English text.
+const messages: Messages = {
+  '💧 Water Management': '💧 जल प्रबंधन',
+  '🗺️ Pond Registry': '🗺️ तालाब रजिस्टर',
+  'Register pond details': 'तालाब का विवरण दर्ज करें',
+  '💧 Water Quality': '💧 जल गुणवत्ता',
+  'Monitor water parameters': 'जल मापदंडों की निगरानी',
+  '🌊 Water Quality Monitor': '🌊 जल गुणवत्ता मॉनिटर',
+  'Advanced water monitoring': 'उन्नत जल निगरानी',
+  '📉 Water Quality History': '📉 जल गुणवत्ता इतिहास',
+  'Trends and statistics per pond': 'प्रति तालाब रुझान और आँकड़े',
+  '📊 Water Quality Predictor': '📊 जल गुणवत्ता पूर्वानुमान',
+  'Predict water parameters': 'जल मापदंडों का पूर्वानुमान',
+  '🌙 Night Oxygen Forecast': '🌙 रात्रि ऑक्सीजन पूर्वानुमान',
+  'Predict pre-dawn oxygen crashes': 'भोर से पहले ऑक्सीजन गिरावट का पूर्वानुमान',
+  '🧊 Winter Ice Manager': '🧊 शीतकालीन बर्फ प्रबंधक',
+  'Ice cover, under-ice oxygen and winter feeding': 'बर्फ की परत, बर्फ के नीचे ऑक्सीजन और सर्दियों में आहार',
+  '📡 Sensors': '📡 सेंसर',
+  'Live readings from pond probes': 'तालाब प्रोब से लाइव रीडिंग',
+  '💨 Pond Evaporation': '💨 तालाब वाष्पीकरण',
+  'Calculate water loss': 'पानी की हानि की गणना',
+  '🚰 Water Balance': '🚰 जल संतुलन',
+  'Level projection, refills and water demand': 'स्तर अनुमान, पुनर्भरण और पानी की माँग',
+  '🏊 Pond Sediment': '🏊 तालाब तलछट',
+  'Manage sediment buildup': 'तलछट जमाव का प्रबंधन',
+  '🧪 Pond Liming': '🧪 तालाब में चूना',
+  'Calculate lime requirements': 'चूने की आवश्यकता की गणना',
+  '🏗️ Pond Lining': '🏗️ तालाब लाइनिंग',
+  'Calculate lining costs': 'लाइनिंग लागत की गणना',
+  '🐟 Fish Management': '🐟 मछली प्रबंधन',
+  '📚 Species Catalog': '📚 प्रजाति सूची',
+  'View and extend species data': 'प्रजाति डेटा देखें और जोड़ें',
+  '🧺 Production Batches': '🧺 उत्पादन बैच',
+  'Track production cycles': 'उत्पादन चक्र पर नज़र रखें',
+  '📈 Growth Tracker': '📈 वृद्धि ट्रैकर',
+  'Track growth rates': 'वृद्धि दर पर नज़र रखें',
+  '📊 Growth Benchmark': '📊 वृद्धि मानक',
+  'Compare growth rates': 'वृद्धि दरों की तुलना',
+  '📈 Growth Predictor': '📈 वृद्धि पूर्वानुमान',
+  'Predict fish growth': 'मछली वृद्धि का पूर्वानुमान',
+  '❤️ Fish Stress Monitor': '❤️ मछली तनाव मॉनिटर',
+  'Monitor fish stress levels': 'मछली के तनाव स्तर की निगरानी',
+  '🔢 Fish Calculator': '🔢 मछली कैलकुलेटर',
+  'Fish calculations': 'मछली गणनाएँ',
+  '📊 Fish Stocking Calculator': '📊 मछली संचयन कैलकुलेटर',
+  'Calculate stocking density': 'संचयन घनत्व की गणना',
+  '⚖️ Fish Yield Calculator': '⚖️ मछली उपज कैलकुलेटर',
+  'Calculate fish yield': 'मछली उपज की गणना',
+  '🍽️ Feed Management': '🍽️ चारा प्रबंधन',
+  'Optimize feeding': 'खिलाने को बेहतर बनाएँ',
+  '🧮 FCR Calculator': '🧮 FCR कैलकुलेटर',
+  'Calculate feed conversion': 'आहार रूपांतरण की गणना',
+  '⚡ FCR Optimizer': '⚡ FCR अनुकूलक',
+  'Optimize feed conversion': 'आहार रूपांतरण सुधारें',
+  '🍽️ Feeding Calculator': '🍽️ आहार कैलकुलेटर',
+  'Calculate feeding amounts': 'आहार मात्रा की गणना',
+  '🏥 Health Management': '🏥 स्वास्थ्य प्रबंधन',
+  '🔬 Disease Prevention': '🔬 रोग रोकथाम',
+  'Prevent diseases': 'रोगों से बचाव',
+  '⚕️ Disease Risk Assessment': '⚕️ रोग जोखिम आकलन',
+  'Assess disease risks': 'रोग जोखिम का आकलन करें',
+  '♻️ Waste to Fertilizer': '♻️ अपशिष्ट से खाद',
+  'Convert waste to fertilizer': 'अपशिष्ट को खाद में बदलें',
+  '🌡️ Environment': '🌡️ पर्यावरण',
+  '🌡️ Environmental Monitor': '🌡️ पर्यावरण मॉनिटर',
+  'Monitor environment': 'पर्यावरण की निगरानी',
+  '⚡ Energy Efficiency': '⚡ ऊर्जा दक्षता',
+  'Optimize energy usage': 'ऊर्जा उपयोग सुधारें',
+  '🌤️ Weather Impact': '🌤️ मौसम प्रभाव',
+  'Analyze weather effects': 'मौसम के प्रभावों का विश्लेषण',
+  '💨 Aeration Calculator': '💨 वातन कैलकुलेटर',
+  'Design aeration systems': 'वातन प्रणाली डिज़ाइन करें',
+  '📊 Business Tools': '📊 व्यवसाय उपकरण',
+  '📈 Market Analysis': '📈 बाज़ार विश्लेषण',
+  'Analyze market trends': 'बाज़ार रुझानों का विश्लेषण',
+  '💰 Profitability Calculator': '💰 लाभप्रदता कैलकुलेटर',
+  'Calculate profits': 'लाभ की गणना',
+  '⏲️ Harvest Timing Advisor': '⏲️ कटाई समय सलाहकार',
+  'Optimize harvest timing': 'कटाई का समय सुधारें',
+  '📦 Inventory': '📦 इन्वेंटरी',
+  'Manage stock': 'स्टॉक प्रबंधन',
+  '📊 Reports': '📊 रिपोर्ट',
+  'Generate reports': 'रिपोर्ट बनाएँ',
+  '📅 Production Calendar': '📅 उत्पादन कैलेंडर',
+  'Plan production': 'उत्पादन की योजना',
+  '⚙️ Preferences': '⚙️ वरीयताएँ',
+  '🔔 Alert Rules': '🔔 अलर्ट नियम',
+  'Limits, notifications and alert history': 'सीमाएँ, सूचनाएँ और अलर्ट इतिहास',
+  '⚙️ Settings': '⚙️ सेटिंग्स',
+  'Currency, units, language and backups': 'मुद्रा, इकाइयाँ, भाषा और बैकअप',
+  '🏠 Home': '🏠 होम',
+  'ℹ️ About': 'ℹ️ परिचय',
+  '👥 Our Team': '👥 हमारी टीम',
+  '📞 Contact Us': '📞 संपर्क करें',
+  '🔒 Privacy Policy': '🔒 गोपनीयता नीति',
+  '⚖️ Disclaimer': '⚖️ अस्वीकरण',
+  '🔍 Quick Links': '🔍 त्वरित लिंक',
+  '👥 Company': '👥 कंपनी',
+  '📜 Legal': '📜 कानूनी',
+  'Aquaculture Tools': 'जलकृषि उपकरण',
+  'Comprehensive suite of tools for modern aquaculture management': 'आधुनिक जलकृषि प्रबंधन के लिए उपकरणों का संपूर्ण संग्रह',
+  'Home': 'होम',
+  'About': 'परिचय',
+  'All rights reserved.': 'सर्वाधिकार सुरक्षित।',
+  'Tools': 'उपकरण',
+  'Language': 'भाषा',
+  'Units': 'इकाइयाँ',
+  'Metric (m, kg, °C)': 'मीट्रिक (m, kg, °C)',
+  'Imperial (ft, lb, °F)': 'इंपीरियल (ft, lb, °F)',
+  'Feed Management': 'चारा प्रबंधन',
+  'Preferences': 'वरीयताएँ',
+  'Pond Registry': 'तालाब रजिस्टर',
+  'Water Quality': 'जल गुणवत्ता',
+  'Water Quality Monitor': 'जल गुणवत्ता मॉनिटर',
+  'Water Quality Predictor': 'जल गुणवत्ता पूर्वानुमान',
+  'Pond Evaporation': 'तालाब वाष्पीकरण',
+  'Pond Sediment': 'तालाब तलछट',
+  'Pond Liming': 'तालाब में चूना',
+  'Pond Lining': 'तालाब लाइनिंग',
+  'Species Catalog': 'प्रजाति सूची',
+  'Production Batches': 'उत्पादन बैच',
+  'Growth Tracker': 'वृद्धि ट्रैकर',
+  'Growth Benchmark': 'वृद्धि मानक',
+  'Growth Predictor': 'वृद्धि पूर्वानुमान',
+  'Fish Stress Monitor': 'मछली तनाव मॉनिटर',
+  'Fish Calculator': 'मछली कैलकुलेटर',
+  'Fish Stocking Calculator': 'मछली संचयन कैलकुलेटर',
+  'Fish Yield Calculator': 'मछली उपज कैलकुलेटर',
+  'FCR Calculator': 'FCR कैलकुलेटर',
+  'FCR Optimizer': 'FCR अनुकूलक',
+  'Feeding Calculator': 'आहार कैलकुलेटर',
+  'Disease Prevention': 'रोग रोकथाम',
+  'Disease Risk Assessment': 'रोग जोखिम आकलन',
+  'Waste to Fertilizer': 'अपशिष्ट से खाद',
+  'Energy Efficiency': 'ऊर्जा दक्षता',
+  'Weather Impact': 'मौसम प्रभाव',
+  'Aeration Calculator': 'वातन कैलकुलेटर',
+  'Market Analysis': 'बाज़ार विश्लेषण',
+  'Profitability Calculator': 'लाभप्रदता कैलकुलेटर',
+  'Harvest Timing Advisor': 'कटाई समय सलाहकार',
+  'Inventory': 'इन्वेंटरी',
+  'Reports': 'रिपोर्ट',
+  'Production Calendar': 'उत्पादन कैलेंडर',
+  'Settings': 'सेटिंग्स',
+  'Choose how money and measurements are shown and the default prices every calculator starts from.': 'चुनें कि पैसे और माप कैसे दिखें और हर कैलकुलेटर किन डिफ़ॉल्ट कीमतों से शुरू हो।',
+  'Changes are saved on this device straight away.': 'बदलाव इसी डिवाइस पर तुरंत सहेजे जाते हैं।',
+  'Currency & Number Format': 'मुद्रा और संख्या प्रारूप',
+  'Currency': 'मुद्रा',
+  'Number Format': 'संख्या प्रारूप',
+  'India formats group large amounts in lakh and crore': 'भारतीय प्रारूप बड़ी राशियों को लाख और करोड़ में दिखाते हैं',
+  'Exchange Rate ({symbol} per US$)': 'विनिमय दर ({symbol} प्रति US$)',
+  'Converts built-in reference prices such as species market prices and liner costs': 'प्रजातियों के बाज़ार भाव और लाइनर लागत जैसी अंतर्निहित संदर्भ कीमतों को बदलता है',
+  'Preview: {amount}': 'पूर्वावलोकन: {amount}',
+  'Default Prices': 'डिफ़ॉल्ट कीमतें',
+  'Electricity Tariff ({symbol}/kWh)': 'बिजली दर ({symbol}/kWh)',
+  'Used for aerator and equipment running costs': 'एरेटर और उपकरण चलाने की लागत के लिए उपयोग होता है',
+  'Labor ({symbol}/day)': 'मज़दूरी ({symbol}/दिन)',
+  'Cost of one worker for one day': 'एक मज़दूर की एक दिन की लागत',
+  'Feed Price ({symbol}/kg)': 'चारे का मूल्य ({symbol}/kg)',
+  'Used wherever a feed cost is estimated': 'जहाँ भी चारे की लागत का अनुमान लगाया जाता है वहाँ उपयोग होता है',
+  'Unit System': 'इकाई प्रणाली',
+  'Individual fields can still be switched with their unit picker': 'अलग-अलग फ़ील्ड अब भी अपने इकाई चयनकर्ता से बदले जा सकते हैं',
+  'Urdu and Kashmiri are shown right to left': 'उर्दू और कश्मीरी दाएँ से बाएँ दिखाई जाती हैं',
+  'Monitor and analyze your pond\'s water quality parameters': 'अपने तालाब के जल गुणवत्ता मापदंडों की निगरानी और विश्लेषण करें',
+  'Dissolved Oxygen': 'घुलित ऑक्सीजन',
+  'Temperature': 'तापमान',
+  'Ammonia': 'अमोनिया',
+  'Nitrite': 'नाइट्राइट',
+  'Nitrate': 'नाइट्रेट',
+  'Alkalinity': 'क्षारीयता',
+  'Hardness': 'कठोरता',
+  'Salinity': 'लवणता',
+  'Turbidity': 'गंदलापन',
+  'Phosphate': 'फॉस्फेट',
+  'Carbon Dioxide': 'कार्बन डाइऑक्साइड',
+  'Optimal: {min}-{max} {unit}': 'उत्तम: {min}-{max} {unit}',
+  'Analyze Parameters': 'मापदंडों का विश्लेषण करें',
+  'Overall Status: {status}': 'समग्र स्थिति: {status}',
+  'Optimal': 'उत्तम',
+  'Warning': 'चेतावनी',
+  'Critical': 'गंभीर',
+  'Immediate action required!': 'तुरंत कार्रवाई आवश्यक!',
+  'Some parameters need attention.': 'कुछ मापदंडों पर ध्यान देने की ज़रूरत है।',
+  'All parameters are within optimal range.': 'सभी मापदंड उत्तम सीमा में हैं।',
+  'Recommendations:': 'सुझाव:',
+  'Increase aeration if levels are low': 'स्तर कम हो तो वातन बढ़ाएँ',
+  'Check stocking density if consistently low': 'लगातार कम रहे तो संचयन घनत्व जाँचें',
+  'Monitor feeding rate if levels fluctuate': 'स्तर ऊपर-नीचे हो तो आहार दर पर नज़र रखें',
+  'Use shading during hot periods': 'गर्म समय में छाया का उपयोग करें',
+  'Adjust feeding based on temperature': 'तापमान के अनुसार आहार बदलें',
+  'Consider water exchange in extreme conditions': 'अत्यधिक परिस्थितियों में पानी बदलने पर विचार करें',
+  'Add lime if pH is low': 'pH कम हो तो चूना डालें',
+  'Check alkalinity levels': 'क्षारीयता स्तर जाँचें',
+  'Monitor after heavy rain': 'भारी बारिश के बाद निगरानी करें',
+  'Reduce feeding if levels are high': 'स्तर अधिक हो तो आहार कम करें',
+  'Increase water exchange': 'पानी बदलने की मात्रा बढ़ाएँ',
+  'Check biofilter efficiency': 'बायोफ़िल्टर की कार्यक्षमता जाँचें',
+  'Add salt to reduce toxicity': 'विषाक्तता कम करने के लिए नमक डालें',
+  'Check nitrifying bacteria': 'नाइट्रीकारी बैक्टीरिया जाँचें',
+  'Increase oxygenation': 'ऑक्सीजन बढ़ाएँ',
+  'Regular water exchange': 'नियमित रूप से पानी बदलें',
+  'Monitor plant growth': 'पौधों की वृद्धि पर नज़र रखें',
+  'Check denitrification': 'विनाइट्रीकरण जाँचें',
+  'Add buffer if low': 'कम हो तो बफ़र डालें',
+  'Check limestone addition': 'चूना पत्थर की मात्रा जाँचें',
+  'Monitor pH stability': 'pH स्थिरता पर नज़र रखें',
+  'Add calcium if low': 'कम हो तो कैल्शियम डालें',
+  'Check mineral content': 'खनिज मात्रा जाँचें',
+  'Balance with alkalinity': 'क्षारीयता के साथ संतुलन रखें',
+  'Adjust based on species': 'प्रजाति के अनुसार समायोजित करें',
+  'Monitor after rain': 'बारिश के बाद निगरानी करें',
+  'Check evaporation rate': 'वाष्पीकरण दर जाँचें',
+  'Use settling tanks': 'निथारने वाले टैंकों का उपयोग करें',
+  'Add mechanical filtration': 'यांत्रिक छनन जोड़ें',
+  'Check erosion sources': 'कटाव के स्रोत जाँचें',
+  'Control feed waste': 'बचे हुए चारे को नियंत्रित करें',
+  'Monitor algae growth': 'शैवाल की वृद्धि पर नज़र रखें',
+  'Check fertilization rate': 'खाद डालने की दर जाँचें',
+  'Increase aeration': 'वातन बढ़ाएँ',
+  'Check respiration rate': 'श्वसन दर जाँचें',
+  'Monitor plant density': 'पौधों के घनत्व पर नज़र रखें',
+  'Assess disease risks based on environmental parameters and fish behavior': 'पर्यावरणीय मापदंडों और मछली के व्यवहार के आधार पर रोग जोखिम का आकलन करें',
+  'Species': 'प्रजाति',
+  'Water Temperature': 'पानी का तापमान',
+  'Stocking Density': 'संचयन घनत्व',
+  'Feeding Rate (% biomass/day)': 'आहार दर (% बायोमास/दिन)',
+  'Mortality Rate (%)': 'मृत्यु दर (%)',
+  'Fish Behavior': 'मछली का व्यवहार',
+  'Observed Symptoms': 'देखे गए लक्षण',
+  'Risk Factors': 'जोखिम कारक',
+  'Analyze Risk': 'जोखिम का विश्लेषण करें',
+  'Risk Factors Analysis': 'जोखिम कारक विश्लेषण',
+  'Risk Level': 'जोखिम स्तर',
+  'Factor': 'कारक',
+  'Status': 'स्थिति',
+  'Risk Score': 'जोखिम अंक',
+  'Oxygen': 'ऑक्सीजन',
+  'Density': 'घनत्व',
+  'Mortality': 'मृत्यु दर',
+  'Behavior': 'व्यवहार',
+  'low': 'कम',
+  'medium': 'मध्यम',
+  'high': 'अधिक',
+  '{probability}% Risk': '{probability}% जोखिम',
+  'Common Symptoms:': 'सामान्य लक्षण:',
+  'Preventive Measures:': 'बचाव के उपाय:',
+  'Recommended Treatments:': 'सुझाए गए उपचार:',
+  'White Spot Disease (Ich)': 'सफ़ेद धब्बा रोग (इक)',
+  'Bacterial Gill Disease': 'जीवाणु गलफड़ा रोग',
+  'Columnaris Disease': 'कॉलमनेरिस रोग',
+  'Saprolegniasis (Fungal Infection)': 'सैप्रोलेग्नियासिस (फफूंद संक्रमण)',
+  'Aeromonas Infection': 'एरोमोनास संक्रमण',
+  'Trichodiniasis': 'ट्राइकोडिनियासिस',
+  'Streptococcosis': 'स्ट्रेप्टोकोकोसिस',
+  'Lethargy': 'सुस्ती',
+  'Erratic swimming': 'अनियमित तैरना',
+  'Gasping at surface': 'सतह पर हाँफना',
+  'Red/inflamed gills': 'लाल/सूजे गलफड़े',
+  'Skin lesions': 'त्वचा पर घाव',
+  'White spots on skin': 'त्वचा पर सफ़ेद धब्बे',
+  'Bloated abdomen': 'फूला हुआ पेट',
+  'Fin rot': 'पंख सड़न',
+  'Color changes': 'रंग में बदलाव',
+  'Excess mucus production': 'अत्यधिक श्लेष्मा बनना',
+  'Scale loss': 'शल्क झड़ना',
+  'Pop-eye condition': 'उभरी आँखें',
+  'Ulcers': 'अल्सर',
+  'Hemorrhages': 'रक्तस्राव',
+  'Cotton-like growth': 'रुई जैसी वृद्धि',
+  'Black/brown spots': 'काले/भूरे धब्बे',
+  'Rapid operculum movement': 'गलफड़ा ढक्कन की तेज़ गति',
+  'Flashing behavior': 'चमकना/रगड़ना',
+  'Tail/fin erosion': 'पूँछ/पंख का घिसना',
+  'Body deformities': 'शरीर की विकृतियाँ',
+  'Rapid breathing': 'तेज़ साँस लेना',
+  'Dark body color': 'गहरा शरीर रंग',
+  'Quarantine new fish': 'नई मछलियों को अलग रखें',
+  'Maintain optimal water quality': 'पानी की उत्तम गुणवत्ता बनाए रखें',
+  'Regular health monitoring': 'नियमित स्वास्थ्य निगरानी',
+  'Maintain good water quality': 'पानी की अच्छी गुणवत्ता बनाए रखें',
+  'Avoid overcrowding': 'अत्यधिक भीड़ से बचें',
+  'Regular gill checks': 'गलफड़ों की नियमित जाँच',
+  'Reduce stress factors': 'तनाव के कारण कम करें',
+  'Maintain clean environment': 'स्वच्छ वातावरण बनाए रखें',
+  'Regular water changes': 'नियमित रूप से पानी बदलें',
+  'Avoid physical damage': 'शारीरिक चोट से बचाएँ',
+  'Maintain water quality': 'पानी की गुणवत्ता बनाए रखें',
+  'Proper handling': 'सही तरीके से संभालें',
+  'Good sanitation': 'अच्छी स्वच्छता',
+  'Stress reduction': 'तनाव में कमी',
+  'Regular health checks': 'नियमित स्वास्थ्य जाँच',
+  'Regular water quality monitoring': 'जल गुणवत्ता की नियमित निगरानी',
+  'Maintain optimal water temperature': 'पानी का उत्तम तापमान बनाए रखें',
+  'Regular disinfection': 'नियमित कीटाणुशोधन',
+  'Proper feed storage': 'चारे का सही भंडारण',
+  'Increase temperature to 30°C gradually': 'तापमान धीरे-धीरे 30°C तक बढ़ाएँ',
+  'Salt treatment (0.15-0.3%)': 'नमक उपचार (0.15-0.3%)',
+  'Commercial ich treatment': 'बाज़ार में उपलब्ध इक उपचार',
+  'Formalin bath treatment': 'फ़ॉर्मेलिन स्नान उपचार',
+  'Antibiotic treatment under veterinary guidance': 'पशु चिकित्सक की देखरेख में एंटीबायोटिक उपचार',
+  'Potassium permanganate bath': 'पोटैशियम परमैंगनेट स्नान',
+  'Improve aeration': 'वातन सुधारें',
+  'Antibiotic treatment': 'एंटीबायोटिक उपचार',
+  'Salt bath treatment': 'नमक स्नान उपचार',
+  'Copper sulfate treatment': 'कॉपर सल्फ़ेट उपचार',
+  'Malachite green treatment': 'मैलाकाइट ग्रीन उपचार',
+  'Remove infected tissue': 'संक्रमित ऊतक हटाएँ',
+  'Wound disinfection': 'घाव का कीटाणुशोधन',
+  'Salt treatment (2-3%)': 'नमक उपचार (2-3%)',
+  'Reduce feeding rate': 'आहार दर कम करें',
+  'Optimize harvest timing based on growth, market conditions, and profitability': 'वृद्धि, बाज़ार की स्थिति और लाभप्रदता के आधार पर कटाई का समय तय करें',
+  'Initial Weight': 'प्रारंभिक वज़न',
+  'Current Weight': 'वर्तमान वज़न',
+  'Target Weight': 'लक्ष्य वज़न',
+  'Stocking Date': 'संचयन तिथि',
+  'Growth Rate': 'वृद्धि दर',
+  'Feeding Rate (% biomass)': 'आहार दर (% बायोमास)',
+  'Survival Rate (%)': 'उत्तरजीविता दर (%)',
+  'Market Price ({symbol}/kg)': 'बाज़ार मूल्य ({symbol}/kg)',
+  'Production Costs ({symbol}/day)': 'उत्पादन लागत ({symbol}/दिन)',
+  'Seasonal Pricing': 'मौसमी मूल्य',
+  'Peak Season': 'चरम मौसम',
+  'Off Season': 'ऑफ़ सीज़न',
+  'Normal': 'सामान्य',
+  'Festival Season': 'त्योहारी मौसम',
+  'Excellent': 'उत्कृष्ट',
+  'Good': 'अच्छा',
+  'Fair': 'ठीक-ठाक',
+  'Poor': 'खराब',
+  'Harvest Timing Analysis': 'कटाई समय विश्लेषण',
+  'Optimal Harvest Date': 'उत्तम कटाई तिथि',
+  'Days to Harvest': 'कटाई तक दिन',
+  'Expected Weight': 'अपेक्षित वज़न',
+  'Confidence Level': 'विश्वास स्तर',
+  'Economic Projection': 'आर्थिक अनुमान',
+  'Expected Revenue': 'अपेक्षित आय',
+  'Production Cost': 'उत्पादन लागत',
+  'Projected Profit': 'अनुमानित लाभ',
+  'Price Variation': 'मूल्य में उतार-चढ़ाव',
+  'Growth and Profit Projection': 'वृद्धि और लाभ अनुमान',
+  'Weeks': 'सप्ताह',
+  'Weight (g)': 'वज़न (g)',
+  'Profit ({symbol})': 'लाभ ({symbol})',
+  'Risk Assessment': 'जोखिम आकलन',
+  'Risk Factor': 'जोखिम कारक',
+  'Level': 'स्तर',
+  'Impact': 'प्रभाव',
+  'Recommendations': 'सुझाव',
+  'Market Price': 'बाज़ार मूल्य',
+  'May slow growth rate and affect survival': 'वृद्धि धीमी कर सकता है और उत्तरजीविता पर असर डाल सकता है',
+  'Below optimal growth rate for species': 'प्रजाति के लिए उत्तम वृद्धि दर से कम',
+  'Lower prices during off-season': 'ऑफ़ सीज़न में कम कीमतें',
+  'Consider improving water quality before harvest': 'कटाई से पहले पानी की गुणवत्ता सुधारने पर विचार करें',
+  'Monitor growth rate more frequently': 'वृद्धि दर की अधिक बार निगरानी करें',
+  'Evaluate possibility of extending culture period to reach peak season': 'चरम मौसम तक पहुँचने के लिए पालन अवधि बढ़ाने की संभावना देखें',
+  'Consider partial harvesting strategy': 'आंशिक कटाई की रणनीति पर विचार करें',
+  'Review production costs and feeding strategy': 'उत्पादन लागत और आहार रणनीति की समीक्षा करें',
+  'Consider alternative market channels': 'वैकल्पिक बाज़ार माध्यमों पर विचार करें',
+  'Optimal harvest window: {date} (±{days} days)': 'उत्तम कटाई अवधि: {date} (±{days} दिन)',
+  'Online': 'ऑनलाइन',
+  'Offline': 'ऑफ़लाइन',
+  'Connected. Everything is also saved on this device.': 'जुड़े हुए हैं। सब कुछ इस डिवाइस पर भी सहेजा जाता है।',
+  'No connection. The app keeps working and saves on this device.': 'कोई कनेक्शन नहीं। ऐप काम करता रहेगा और इस डिवाइस पर सहेजेगा।',
+  'Not backed up': 'बैकअप नहीं हुआ',
+  'Latest changes ({date}) are not backed up yet': 'हाल के बदलावों ({date}) का अभी बैकअप नहीं हुआ है',
+  'Backup & Restore': 'बैकअप और पुनर्स्थापना',
+  'Save every pond, batch, record and setting to one file, or bring them back from a file saved earlier on this or another device.': 'हर तालाब, बैच, रिकॉर्ड और सेटिंग एक फ़ाइल में सहेजें, या इस या किसी दूसरे डिवाइस पर पहले सहेजी गई फ़ाइल से वापस लाएँ।',
+  'Download backup': 'बैकअप डाउनलोड करें',
+  'Restore from file': 'फ़ाइल से पुनर्स्थापित करें',
+  'Last backup: {date}': 'पिछला बैकअप: {date}',
+  'No backup downloaded yet': 'अभी तक कोई बैकअप डाउनलोड नहीं हुआ',
+  '…and {count} more problems': '…और {count} अन्य समस्याएँ',
+  'The backup could not be created.': 'बैकअप नहीं बन सका।',
+  'The backup could not be compared with the data on this device.': 'बैकअप की इस डिवाइस के डेटा से तुलना नहीं हो सकी।',
+  'Backup restored.': 'बैकअप पुनर्स्थापित हो गया।',
+  'The backup could not be restored.': 'बैकअप पुनर्स्थापित नहीं हो सका।',
+  'Restore Backup': 'बैकअप पुनर्स्थापित करें',
+  'Backup from {date}': '{date} का बैकअप',
+  'an unknown date': 'अज्ञात तिथि',
+  'Data': 'डेटा',
+  'New': 'नया',
+  'Same': 'समान',
+  'Different': 'अलग',
+  'Only on this device': 'केवल इस डिवाइस पर',
+  'Merge: add the backup to what is on this device': 'मिलाएँ: बैकअप को इस डिवाइस के डेटा में जोड़ें',
+  'Replace: make this device match the backup exactly': 'बदलें: इस डिवाइस को बिल्कुल बैकअप जैसा बनाएँ',
+  'Records and settings that are only on this device will be deleted.': 'जो रिकॉर्ड और सेटिंग केवल इस डिवाइस पर हैं, वे हटा दिए जाएँगे।',
+  '{count} records differ between this device and the backup': '{count} रिकॉर्ड इस डिवाइस और बैकअप में अलग हैं',
+  'Keep the backup version': 'बैकअप वाला संस्करण रखें',
+  'Keep this device version': 'इस डिवाइस वाला संस्करण रखें',
+  'Record': 'रिकॉर्ड',
+  'Field': 'फ़ील्ड',
+  'This device': 'यह डिवाइस',
+  'Backup': 'बैकअप',
+  'Cancel': 'रद्द करें',
+  'Restore': 'पुनर्स्थापित करें',
+  'Production batches': 'उत्पादन बैच',
+  'Calendar tasks': 'कैलेंडर कार्य',
+  'Feeding schedules': 'आहार समय-सारणी',
+  'Feed stock': 'चारा भंडार',
+  'Feeding history': 'आहार इतिहास',
+  'Ponds': 'तालाब',
+  'Custom species': 'कस्टम प्रजातियाँ',
+  'The file is not valid JSON.': 'फ़ाइल मान्य JSON नहीं है।',
+  'The file is not an Aquaculture Tools backup.': 'यह फ़ाइल Aquaculture Tools का बैकअप नहीं है।',
+  'The backup was made by a newer version of the app. Update the app and try again.': 'यह बैकअप ऐप के नए संस्करण से बना है। ऐप अपडेट करके फिर कोशिश करें।',
+  'The backup has no data section.': 'बैकअप में डेटा भाग नहीं है।',
+  'The settings section is not valid.': 'सेटिंग भाग मान्य नहीं है।',
+  'Ignore': 'छोड़ें',
+  'Date (or date and time)': 'तारीख (या तारीख और समय)',
+  'Time': 'समय',
+  'Pond': 'तालाब',
+  'Sampler': 'नमूना लेने वाला',
+  'Notes': 'टिप्पणी',
+  'Day/Month/Year': 'दिन/माह/वर्ष',
+  'Month/Day/Year': 'माह/दिन/वर्ष',
+  'Year-Month-Day': 'वर्ष-माह-दिन',
+  'Choose file': 'फ़ाइल चुनें',
+  'Map columns': 'कॉलम मिलाएँ',
+  'Review': 'जाँचें',
+  'Done': 'पूरा',
+  'Date is missing': 'तारीख नहीं है',
+  'Cannot read the date "{value}"': 'तारीख "{value}" पढ़ी नहीं जा सकी',
+  'Cannot read the time "{value}"': 'समय "{value}" पढ़ा नहीं जा सका',
+  'No saved pond is named "{value}"': '"{value}" नाम का कोई सहेजा गया तालाब नहीं है',
+  'No pond given': 'कोई तालाब नहीं दिया गया',
+  '{parameter}: "{value}" is not a number': '{parameter}: "{value}" संख्या नहीं है',
+  '{parameter}: {value} {unit} is outside the possible range': '{parameter}: {value} {unit} संभव सीमा से बाहर है',
+  '{parameter}: "{value}" is a detection limit, stored as {limit}': '{parameter}: "{value}" पहचान सीमा है, {limit} के रूप में सहेजा गया',
+  'No measured values': 'कोई मापा गया मान नहीं',
+  'Map a column to Date': 'किसी कॉलम को तारीख से मिलाएँ',
+  'Map at least one water-quality parameter': 'कम से कम एक जल-गुणवत्ता मापदंड मिलाएँ',
+  '{target} is mapped to more than one column': '{target} एक से अधिक कॉलम से मिलाया गया है',
+  'Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.': 'पुरानी .xls वर्कबुक समर्थित नहीं हैं। शीट को .xlsx या CSV के रूप में सहेजकर फिर कोशिश करें।',
+  'The file needs a header row and at least one row of readings.': 'फ़ाइल में एक शीर्षक पंक्ति और कम से कम एक रीडिंग पंक्ति होनी चाहिए।',
+  'The file could not be read.': 'फ़ाइल पढ़ी नहीं जा सकी।',
+  'The readings could not be saved.': 'रीडिंग सहेजी नहीं जा सकीं।',
+  'Import Water-Quality Readings': 'जल-गुणवत्ता रीडिंग आयात करें',
+  'Choose a CSV or Excel (.xlsx) file with one sample per row and a header row naming the columns, for example Date, Pond, DO (mg/L), Temp (°C), pH.': 'ऐसी CSV या Excel (.xlsx) फ़ाइल चुनें जिसमें हर पंक्ति में एक नमूना हो और एक शीर्षक पंक्ति कॉलमों के नाम बताए, जैसे Date, Pond, DO (mg/L), Temp (°C), pH।',
+  '{file}: {rows} rows and {columns} columns': '{file}: {rows} पंक्तियाँ और {columns} कॉलम',
+  'Add your ponds in the Pond Registry first; readings are stored per pond.': 'पहले तालाब रजिस्टर में अपने तालाब जोड़ें; रीडिंग हर तालाब के लिए सहेजी जाती हैं।',
+  'Used for rows without a pond column': 'जिन पंक्तियों में तालाब कॉलम नहीं है, उनके लिए',
+  'Used for rows without a sampler column': 'जिन पंक्तियों में नमूना लेने वाले का कॉलम नहीं है, उनके लिए',
+  'Column': 'कॉलम',
+  'Sample values': 'नमूना मान',
+  'Import as': 'इस रूप में आयात करें',
+  'Unit': 'इकाई',
+  'Column {number}': 'कॉलम {number}',
+  'Date format': 'तारीख का प्रारूप',
+  'Decimal separator': 'दशमलव चिह्न',
+  'Point (7.5)': 'बिंदु (7.5)',
+  'Comma (7,5)': 'अल्पविराम (7,5)',
+  'The numbers in the file do not settle the separator; check it': 'फ़ाइल की संख्याओं से चिह्न तय नहीं होता; इसे जाँचें',
+  'Detected from the numbers in the file': 'फ़ाइल की संख्याओं से पहचाना गया',
+  '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}': '{parameter}: "{value}" बिंदु या अल्पविराम दशमलव चिह्न से अलग पढ़ा जाता है, {number} के रूप में सहेजा गया',
+  'Every date in the file reads both ways; check the order': 'फ़ाइल की हर तारीख दोनों तरह पढ़ी जा सकती है; क्रम जाँचें',
+  'Detected from the dates in the file': 'फ़ाइल की तारीखों से पहचाना गया',
+  'Map a Pond column or choose a pond in the previous step.': 'तालाब कॉलम मिलाएँ या पिछले चरण में तालाब चुनें।',
+  '{count} ready to import': '{count} आयात के लिए तैयार',
+  '{count} with errors': '{count} में त्रुटियाँ',
+  '{count} already saved': '{count} पहले से सहेजी गईं',
+  'Show only rows with problems': 'केवल समस्या वाली पंक्तियाँ दिखाएँ',
+  'Row': 'पंक्ति',
+  'Date': 'तारीख',
+  'Problems': 'समस्याएँ',
+  'Already saved for this pond and time; skipped': 'इस तालाब और समय के लिए पहले से सहेजी गई; छोड़ दी गई',
+  'Showing the first {count} rows.': 'पहली {count} पंक्तियाँ दिखाई जा रही हैं।',
+  '{count} readings imported.': '{count} रीडिंग आयात हुईं।',
+  'Parameter': 'मापदंड',
+  'Close': 'बंद करें',
+  'Back': 'पीछे',
+  'Next': 'आगे',
+  'Import {count} readings': '{count} रीडिंग आयात करें',
+  '{count} saved readings. Showing the latest, taken {date}.': '{count} सहेजी गई रीडिंग। {date} को ली गई नवीनतम दिखाई जा रही है।',
+  'No saved readings for this pond yet.': 'इस तालाब की अभी कोई सहेजी गई रीडिंग नहीं है।',
+  'Import readings': 'रीडिंग आयात करें',
+  'Water-quality readings': 'जल-गुणवत्ता रीडिंग',
+  'Water Quality History': 'जल गुणवत्ता इतिहास',
+  'Trends, statistics and pond-by-pond comparison of every saved water-quality reading. Shaded bands mark the optimal (green), warning (amber) and critical (red) ranges.': 'हर सहेजी गई जल-गुणवत्ता रीडिंग के रुझान, आँकड़े और तालाब-दर-तालाब तुलना। छायांकित पट्टियाँ इष्टतम (हरा), चेतावनी (एम्बर) और गंभीर (लाल) सीमाएँ दिखाती हैं।',
+  'Parameters': 'मापदंड',
+  'Period': 'अवधि',
+  'Leave empty to compare every pond with readings': 'रीडिंग वाले सभी तालाबों की तुलना के लिए खाली छोड़ें',
+  'Last 7 days': 'पिछले 7 दिन',
+  'Last 30 days': 'पिछले 30 दिन',
+  'Last 90 days': 'पिछले 90 दिन',
+  'Last 12 months': 'पिछले 12 महीने',
+  'All readings': 'सभी रीडिंग',
+  'No readings in this period.': 'इस अवधि में कोई रीडिंग नहीं।',
+  'Record or import readings in the Water Quality Monitor.': 'जल गुणवत्ता मॉनिटर में रीडिंग दर्ज या आयात करें।',
+  'None of the chosen parameters were measured in this period.': 'इस अवधि में चुने गए किसी भी मापदंड को नहीं मापा गया।',
+  'Deleted pond': 'हटाया गया तालाब',
+  'Statistics': 'आँकड़े',
+  'Readings': 'रीडिंग',
+  'Min': 'न्यूनतम',
+  'Mean': 'औसत',
+  'Max': 'अधिकतम',
+  'Latest': 'नवीनतम',
+  'Taken': 'लिया गया',
+  'Values': 'मान',
+  'Delete': 'हटाएँ',
+  'Showing the latest {count} of {total} readings.': '{total} में से नवीनतम {count} रीडिंग दिखाई जा रही हैं।',
+  'History': 'इतिहास',
+  'Sampled at': 'नमूना लेने का समय',
+  'Choose a pond to keep readings in its history.': 'रीडिंग को इतिहास में रखने के लिए तालाब चुनें।',
+  'Trend Window': 'रुझान अवधि',
+  'Readings fitted for trends and projections': 'रुझान और अनुमान के लिए उपयोग की गई रीडिंग',
+  'Last 24 hours': 'पिछले 24 घंटे',
+  'Last 3 days': 'पिछले 3 दिन',
+  'Chloride': 'क्लोराइड',
+  'Salinity (ppt)': 'लवणता (ppt)',
+  'Protects fish against nitrite': 'मछली को नाइट्राइट से बचाता है',
+  'Un-ionized NH₃: {value} mg/L ({percent}% of total ammonia)': 'अआयनित NH₃: {value} mg/L (कुल अमोनिया का {percent}%)',
+  'Enter pH and temperature to judge the toxic NH₃ share.': 'विषैले NH₃ हिस्से को आँकने के लिए pH और तापमान दर्ज करें।',
+  'Chloride to nitrite ratio: {ratio}:1': 'क्लोराइड-नाइट्राइट अनुपात: {ratio}:1',
+  'Enter chloride or salinity to judge nitrite toxicity.': 'नाइट्राइट विषाक्तता आँकने के लिए क्लोराइड या लवणता दर्ज करें।',
+  'Add salt to keep at least 10 parts chloride per part nitrite': 'प्रति भाग नाइट्राइट कम से कम 10 भाग क्लोराइड रखने के लिए नमक डालें',
+  'Check source water chloride before adding salt': 'नमक डालने से पहले स्रोत जल का क्लोराइड जाँचें',
+  'Retest after heavy rain or water exchange': 'भारी बारिश या पानी बदलने के बाद फिर जाँचें',
+  'Farm Site': 'फार्म स्थल',
+  'Elevation': 'ऊँचाई',
+  'Height above sea level; thinner air holds less oxygen in the water': 'समुद्र तल से ऊँचाई; पतली हवा में पानी कम ऑक्सीजन रखता है',
+  'Barometric Pressure (kPa)': 'वायुमंडलीय दाब (kPa)',
+  'Leave empty to use {pressure} kPa, the standard pressure at this elevation': 'इस ऊँचाई के मानक दाब {pressure} kPa के लिए खाली छोड़ें',
+  'Fresh water at 25 °C holds {saturation} mg/L of oxygen at saturation here.': 'यहाँ 25 °C पर मीठा पानी संतृप्ति पर {saturation} mg/L ऑक्सीजन रखता है।',
+  '{percent}% of saturation ({saturation} mg/L at this site)': 'संतृप्ति का {percent}% (इस स्थल पर {saturation} mg/L)',
+  'Enter temperature to see percent saturation.': 'संतृप्ति प्रतिशत देखने के लिए तापमान दर्ज करें।',
+  'Night Oxygen Forecast': 'रात्रि ऑक्सीजन पूर्वानुमान',
+  'Simulates dissolved oxygen hour by hour from dusk to dawn, when fish, plankton and pond mud consume oxygen and nothing produces it, and finds the latest time to start the aerators.': 'सूर्यास्त से भोर तक घंटे-दर-घंटे घुलित ऑक्सीजन का अनुकरण करता है, जब मछली, प्लवक और तालाब की मिट्टी ऑक्सीजन खपत करते हैं और कुछ भी इसे नहीं बनाता, तथा एरेटर चालू करने का अंतिम समय बताता है।',
+  'Minimum Safe Oxygen': 'न्यूनतम सुरक्षित ऑक्सीजन',
+  'Dissolved Oxygen at Dusk': 'सूर्यास्त पर घुलित ऑक्सीजन',
+  'Pond Area': 'तालाब क्षेत्रफल',
+  'Average Depth': 'औसत गहराई',
+  'Fish Biomass': 'मछली बायोमास',
+  'Filled from the pond\'s active batches': 'तालाब के सक्रिय बैचों से भरा गया',
+  'Secchi Depth': 'सेकी गहराई',
+  'Shallower readings mean a denser plankton bloom': 'कम गहराई का अर्थ घना प्लवक प्रस्फुटन है',
+  'Sediment Oxygen Demand (g O₂/m²/day)': 'तलछट ऑक्सीजन मांग (g O₂/m²/दिन)',
+  'About 1 for a typical earthen pond, 2-3 with heavy organic mud': 'सामान्य मिट्टी के तालाब के लिए लगभग 1, भारी जैविक कीचड़ के साथ 2-3',
+  'Night Wind Speed': 'रात की हवा की गति',
+  'Number of Aerators': 'एरेटर की संख्या',
+  'Filled from the pond\'s Aeration Calculator result': 'तालाब के एरेशन कैलकुलेटर परिणाम से भरा गया',
+  'Aerator Output (kg O₂/hour each)': 'एरेटर उत्पादन (kg O₂/घंटा प्रत्येक)',
+  'Leave empty for fresh water': 'मीठे पानी के लिए खाली छोड़ें',
+  'Dusk': 'सूर्यास्त',
+  'Dawn': 'भोर',
+  'Site pressure {pressure} kPa, from the elevation in Settings.': 'स्थल दाब {pressure} kPa, सेटिंग्स की ऊँचाई से।',
+  'Forecast Night Oxygen': 'रात्रि ऑक्सीजन का पूर्वानुमान करें',
+  'Oxygen stays above {threshold} mg/L all night; the lowest is {minimum} mg/L at {time}. No aeration needed.': 'पूरी रात ऑक्सीजन {threshold} mg/L से ऊपर रहती है; न्यूनतम {time} पर {minimum} mg/L है। एरेशन की आवश्यकता नहीं।',
+  'Oxygen falls below {threshold} mg/L at {time} and the aerators cannot hold it even if started at dusk (lowest {aerated} mg/L). Add aeration, cut feeding or reduce the stock.': '{time} पर ऑक्सीजन {threshold} mg/L से नीचे गिरती है और सूर्यास्त से चलाने पर भी एरेटर इसे नहीं रोक पाते (न्यूनतम {aerated} mg/L)। एरेशन बढ़ाएँ, आहार घटाएँ या स्टॉक कम करें।',
+  'Without aeration oxygen falls below {threshold} mg/L at {time}, reaching {minimum} mg/L by {minimumTime}. Start the aerators by {start}.': 'एरेशन के बिना {time} पर ऑक्सीजन {threshold} mg/L से नीचे गिरती है और {minimumTime} तक {minimum} mg/L पहुँचती है। एरेटर {start} तक चालू करें।',
+  'Without aeration': 'एरेशन के बिना',
+  'With aerators': 'एरेटर के साथ',
+  'Oxygen Budget': 'ऑक्सीजन बजट',
+  'Saturation': 'संतृप्ति',
+  'Fish respiration': 'मछली श्वसन',
+  'Plankton respiration': 'प्लवक श्वसन',
+  'Sediment demand': 'तलछट मांग',
+  'Total consumption': 'कुल खपत',
+  'Measure dissolved oxygen and Secchi depth around sunset for the best forecast.': 'सर्वोत्तम पूर्वानुमान के लिए सूर्यास्त के आसपास घुलित ऑक्सीजन और सेकी गहराई मापें।',
+  'Sensors': 'सेंसर',
+  'Stream dissolved oxygen, temperature and pH from pond probes into the monitors and water-quality history.': 'तालाब प्रोब से घुलित ऑक्सीजन, तापमान और pH सीधे मॉनिटर और जल-गुणवत्ता इतिहास में भेजें।',
+  'MQTT broker': 'MQTT ब्रोकर',
+  'Off': 'बंद',
+  'Connecting': 'जुड़ रहा है',
+  'Connected': 'जुड़ा हुआ',
+  'Disconnected': 'डिस्कनेक्ट',
+  'Error': 'त्रुटि',
+  'Connect': 'कनेक्ट करें',
+  'Broker WebSocket URL': 'ब्रोकर WebSocket URL',
+  'Client ID': 'क्लाइंट ID',
+  'Leave blank for a random ID': 'यादृच्छिक ID के लिए खाली छोड़ें',
+  'Username': 'उपयोगकर्ता नाम',
+  'Password': 'पासवर्ड',
+  'Kept on this device only, never in backups': 'केवल इसी डिवाइस पर रखा जाता है, बैकअप में कभी नहीं',
+  'Save to history every (minutes)': 'इतिहास में हर (मिनट) सहेजें',
+  '0 shows live values without saving them. Simulated values are never saved': '0 लाइव मान बिना सहेजे दिखाता है। सिम्युलेटेड मान कभी सहेजे नहीं जाते',
+  'Devices': 'डिवाइस',
+  'Add Device': 'डिवाइस जोड़ें',
+  'Edit Device': 'डिवाइस संपादित करें',
+  'No devices yet. Add a simulated probe to try live readings without hardware.': 'अभी कोई डिवाइस नहीं। बिना हार्डवेयर के लाइव रीडिंग आज़माने के लिए सिम्युलेटेड प्रोब जोड़ें।',
+  'Name': 'नाम',
+  'Source': 'स्रोत',
+  'Latest values': 'नवीनतम मान',
+  'Actions': 'कार्रवाइयाँ',
+  'Last reading {date}': 'अंतिम रीडिंग {date}',
+  'Publishes to {topic}': '{topic} पर प्रकाशित करता है',
+  'No pond': 'कोई तालाब नहीं',
+  'Sensor': 'सेंसर',
+  'Waiting': 'प्रतीक्षा में',
+  'Live': 'लाइव',
+  'Stale': 'पुराना',
+  'HTTP polling': 'HTTP पोलिंग',
+  'Simulator': 'सिम्युलेटर',
+  'Connection': 'कनेक्शन',
+  'Topic': 'टॉपिक',
+  'MQTT topic filter; + matches one level and # the rest': 'MQTT टॉपिक फ़िल्टर; + एक स्तर से और # बाकी सब से मेल खाता है',
+  'Optional. Also publish simulated readings here when the broker is connected': 'वैकल्पिक। ब्रोकर जुड़ा होने पर सिम्युलेटेड रीडिंग यहाँ भी प्रकाशित करें',
+  'URL': 'URL',
+  'Returns the latest reading as JSON; the server must allow cross-origin requests': 'नवीनतम रीडिंग JSON के रूप में लौटाता है; सर्वर को क्रॉस-ओरिजिन अनुरोध अनुमत करने होंगे',
+  'Interval (seconds)': 'अंतराल (सेकंड)',
+  'Stale after (minutes)': 'इतने (मिनट) बाद पुराना',
+  'Flag the device when no reading arrives for this long': 'इतनी देर तक कोई रीडिंग न आने पर डिवाइस को चिह्नित करें',
+  'Calibration offsets': 'अंशांकन ऑफ़सेट',
+  'Added to every raw value, e.g. -0.15 when the probe reads pH 0.15 high against a reference.': 'हर कच्चे मान में जोड़ा जाता है, जैसे संदर्भ की तुलना में प्रोब pH 0.15 अधिक पढ़े तो -0.15।',
+  'Save': 'सहेजें',
+  'Devices may send JSON such as {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}, or a bare number on a topic ending in the parameter name, e.g. farm/pond-1/do. Values are read in mg/L and °C.': 'डिवाइस {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000} जैसा JSON भेज सकते हैं, या पैरामीटर नाम पर खत्म होने वाले टॉपिक पर केवल एक संख्या, जैसे farm/pond-1/do। मान mg/L और °C में पढ़े जाते हैं।',
+  'Waiting for the first reading from this pond\'s sensors.': 'इस तालाब के सेंसर से पहली रीडिंग की प्रतीक्षा है।',
+  'Live sensor values': 'लाइव सेंसर मान',
+  'Measured {date}': '{date} को मापा गया',
+  'No recent reading from {devices}. Check the probe, its power and its connection.': '{devices} से कोई हालिया रीडिंग नहीं। प्रोब, उसकी बिजली और कनेक्शन जाँचें।',
+  'Use live values': 'लाइव मान उपयोग करें',
+  'Follow live': 'लाइव के साथ चलें',
+  'Could not read any values from the last message': 'पिछले संदेश से कोई मान नहीं पढ़ा जा सका',
+  'All ponds': 'सभी तालाब',
+  'Quantity at or below the item minimum': 'मात्रा वस्तु के न्यूनतम पर या उससे कम',
+  'Pending more than {days} days past its date': 'अपनी तारीख से {days} दिन से अधिक लंबित',
+  'for {minutes} min': '{minutes} मिनट तक',
+  'Cleared {date}': '{date} को समाप्त',
+  'Acknowledged': 'स्वीकार किया',
+  'Snoozed until {date}': '{date} तक स्थगित',
+  'Open': 'खुला',
+  'Alert Rules': 'अलर्ट नियम',
+  'Add Rule': 'नियम जोड़ें',
+  'Edit Rule': 'नियम संपादित करें',
+  'Rules are checked against saved readings, live sensor values, inventory and the production calendar. Alerts appear under the bell at the top of the page.': 'नियम सहेजी गई रीडिंग, लाइव सेंसर मान, इन्वेंटरी और उत्पादन कैलेंडर पर जाँचे जाते हैं। अलर्ट पृष्ठ के ऊपर घंटी के नीचे दिखते हैं।',
+  'No alert rules yet.': 'अभी कोई अलर्ट नियम नहीं।',
+  'Condition': 'शर्त',
+  'Severity': 'गंभीरता',
+  'Alert History': 'अलर्ट इतिहास',
+  'Open only': 'केवल खुले',
+  'No alerts so far.': 'अब तक कोई अलर्ट नहीं।',
+  'Raised': 'उठाया गया',
+  'Alert': 'अलर्ट',
+  'Audit trail': 'ऑडिट ट्रेल',
+  'Acknowledge': 'स्वीकार करें',
+  'Threshold': 'सीमा',
+  'Uses the minimum set on each inventory item.': 'हर इन्वेंटरी वस्तु पर तय न्यूनतम का उपयोग करता है।',
+  'Leave blank to name the rule after its condition': 'नियम को उसकी शर्त के नाम से रखने के लिए खाली छोड़ें',
+  'Watch': 'निगरानी',
+  'Pond (none for every pond)': 'तालाब (सभी तालाबों के लिए कोई नहीं)',
+  'When': 'कब',
+  'For at least (minutes)': 'कम से कम (मिनट) तक',
+  'Readings must stay past the limit over this span; 0 alerts on the first reading': 'रीडिंग इस पूरी अवधि में सीमा से बाहर रहनी चाहिए; 0 पहली रीडिंग पर अलर्ट करता है',
+  'Days overdue before alerting': 'अलर्ट से पहले विलंब के दिन',
+  'Alerts': 'अलर्ट',
+  'Nothing needs attention.': 'किसी चीज़ पर ध्यान देने की ज़रूरत नहीं।',
+  'Snooze': 'स्थगित करें',
+  'Alert rules and history': 'अलर्ट नियम और इतिहास',
+  '{hours} h': '{hours} घं',
+  'Low stock (at or below the item minimum)': 'कम स्टॉक (वस्तु के न्यूनतम पर या कम)',
+  'Overdue calendar tasks': 'विलंबित कैलेंडर कार्य',
+  'Below': 'से कम',
+  'Above': 'से अधिक',
+  'Info': 'सूचना',
+  '{parameter} in {pond} is {value} {unit}, below {threshold} {unit}': '{pond} में {parameter} {value} {unit} है, {threshold} {unit} से कम',
+  '{parameter} in {pond} is {value} {unit}, above {threshold} {unit}': '{pond} में {parameter} {value} {unit} है, {threshold} {unit} से अधिक',
+  '{parameter} below {threshold} {unit}': '{parameter} {threshold} {unit} से कम',
+  '{parameter} above {threshold} {unit}': '{parameter} {threshold} {unit} से अधिक',
+  '{item} is down to {quantity} {unit} (minimum {minimum} {unit})': '{item} घटकर {quantity} {unit} रह गया है (न्यूनतम {minimum} {unit})',
+  '"{task}" is {days} days overdue': '"{task}" {days} दिन विलंबित है',
+  'Snoozed': 'स्थगित',
+  'Cleared': 'समाप्त',
+  'Low dissolved oxygen': 'कम घुलित ऑक्सीजन',
+  'Dissolved oxygen below optimal': 'घुलित ऑक्सीजन इष्टतम से कम',
+  'High water temperature': 'पानी का उच्च तापमान',
+  'Low pH': 'कम pH',
+  'High pH': 'उच्च pH',
+  'High ammonia': 'उच्च अमोनिया',
+  'High nitrite': 'उच्च नाइट्राइट',
+  'Low stock': 'कम स्टॉक',
+  'Overdue task': 'विलंबित कार्य',
+  'Custom ranges for {pond}': '{pond} के लिए अपनी सीमाएँ',
+  'Set limits for stock whose needs differ from its species, such as broodstock or hatchery tanks. Readings outside the acceptable limits are critical; parameters left off follow the species.': 'उस स्टॉक के लिए सीमाएँ तय करें जिसकी ज़रूरतें उसकी प्रजाति से अलग हैं, जैसे ब्रूडस्टॉक या हैचरी टैंक। स्वीकार्य सीमा से बाहर की रीडिंग गंभीर है; जो मापदंड बंद हैं वे प्रजाति का पालन करते हैं।',
+  'Custom': 'अपनी',
+  'Lowest acceptable': 'न्यूनतम स्वीकार्य',
+  'Optimal from': 'इष्टतम से',
+  'Optimal to': 'इष्टतम तक',
+  'Highest acceptable': 'अधिकतम स्वीकार्य',
+  'Limits must rise from lowest acceptable through the optimal range to highest acceptable: {parameters}': 'सीमाएँ न्यूनतम स्वीकार्य से इष्टतम सीमा होते हुए अधिकतम स्वीकार्य तक बढ़नी चाहिए: {parameters}',
+  'Batch': 'बैच',
+  'Life stage': 'जीवन अवस्था',
+  'Sets the ranges and the ammonia and nitrite toxicity limits': 'सीमाएँ और अमोनिया व नाइट्राइट विषाक्तता सीमाएँ तय करता है',
+  'Fry need more oxygen and cleaner water': 'फ्राई को अधिक ऑक्सीजन और साफ पानी चाहिए',
+  'Ranges for {species}, {stage}.': '{species}, {stage} के लिए सीमाएँ।',
+  'all stages': 'सभी अवस्थाएँ',
+  'Fry': 'फ्राई',
+  'Fingerling': 'फिंगरलिंग',
+  'Juvenile': 'किशोर',
+  'Adult': 'वयस्क',
+  'Generic warmwater ranges. Choose a species or batch for its own.': 'सामान्य गर्म-जल सीमाएँ। उसकी अपनी सीमाओं के लिए प्रजाति या बैच चुनें।',
+  '{count} parameters use custom ranges set for this pond.': '{count} मापदंड इस तालाब के लिए तय अपनी सीमाएँ उपयोग करते हैं।',
+  'Custom ranges': 'अपनी सीमाएँ',
+  'Pond range, optimal: {min}-{max} {unit}': 'तालाब की सीमा, इष्टतम: {min}-{max} {unit}',
+  'Water Balance': 'जल संतुलन',
+  'Pond Water Balance': 'तालाब जल संतुलन',
+  'Day-by-day water budget of a pond: rain and runoff in, evaporation and seepage out, with planned exchange, pumping and refills. Shows how the level moves, when to refill and how much water a cycle needs.': 'तालाब का दिन-प्रतिदिन जल बजट: बारिश और अपवाह अंदर, वाष्पीकरण और रिसाव बाहर, नियोजित विनिमय, पंपिंग और पुनर्भरण के साथ। दिखाता है कि स्तर कैसे बदलता है, कब भरना है और एक चक्र में कितना पानी चाहिए।',
+  'Water Surface Area': 'जल सतह क्षेत्रफल',
+  'Current Depth': 'वर्तमान गहराई',
+  'Full Depth': 'पूर्ण गहराई',
+  'Spill level, and the level refills go back to': 'छलकने का स्तर, और वह स्तर जहाँ तक पुनर्भरण होता है',
+  'Minimum Depth': 'न्यूनतम गहराई',
+  'Filled from the stocked species': 'संग्रहित प्रजाति से भरा गया',
+  'Refill At Depth': 'इस गहराई पर पुनर्भरण',
+  'Leave empty to plan no refills': 'पुनर्भरण की योजना न बनाने के लिए खाली छोड़ें',
+  'Evaporation': 'वाष्पीकरण',
+  'Filled from the pond\'s Pond Evaporation result': 'तालाब के तालाब वाष्पीकरण परिणाम से भरा गया',
+  'Seepage': 'रिसाव',
+  'Estimated from the pond\'s soil and liner': 'तालाब की मिट्टी और लाइनर से अनुमानित',
+  'Rainfall': 'वर्षा',
+  'Average over the cycle': 'चक्र का औसत',
+  'Catchment Area': 'जलग्रहण क्षेत्र',
+  'Land draining into the pond': 'तालाब में बहने वाली भूमि',
+  'Catchment Surface': 'जलग्रहण सतह',
+  'Water Exchange (% per day)': 'जल विनिमय (% प्रति दिन)',
+  'Drained and replaced, so the level stays': 'निकाला और बदला जाता है, इसलिए स्तर बना रहता है',
+  'Pumped Inflow (m³/day)': 'पंप से आवक (m³/दिन)',
+  'Continuous topping up': 'लगातार भराई',
+  'Cycle Length (days)': 'चक्र की अवधि (दिन)',
+  'Start Date': 'आरंभ तिथि',
+  'Fill the pond to full depth at the start': 'शुरुआत में तालाब को पूरी गहराई तक भरें',
+  'Calculate Water Balance': 'जल संतुलन की गणना करें',
+  'Inflows match or exceed losses; the level holds without refills.': 'आवक नुकसान के बराबर या अधिक है; स्तर बिना पुनर्भरण के बना रहता है।',
+  'The pond already starts below the minimum depth.': 'तालाब पहले से ही न्यूनतम गहराई से नीचे शुरू होता है।',
+  '{days} days until minimum depth: without refills the level falls {rate} mm/day and drops below {depth} on {date}.': 'न्यूनतम गहराई तक {days} दिन: बिना पुनर्भरण के स्तर {rate} mm/दिन गिरता है और {date} को {depth} से नीचे चला जाता है।',
+  'Day {day}': 'दिन {day}',
+  'With refills': 'पुनर्भरण के साथ',
+  'Without refills': 'बिना पुनर्भरण',
+  'Daily Flows': 'दैनिक प्रवाह',
+  'Rain on the pond': 'तालाब पर वर्षा',
+  'Catchment runoff': 'जलग्रहण अपवाह',
+  'Pumped inflow': 'पंप से आवक',
+  'Net change': 'शुद्ध परिवर्तन',
+  'Exchange (drained and replaced)': 'विनिमय (निकाला और बदला)',
+  'Refill Schedule': 'पुनर्भरण समय-सारणी',
+  'No refills needed in this cycle.': 'इस चक्र में पुनर्भरण की आवश्यकता नहीं।',
+  'Day': 'दिन',
+  'Volume': 'आयतन',
+  'Water Demand per Cycle': 'प्रति चक्र पानी की माँग',
+  'Initial fill': 'प्रारंभिक भराई',
+  'Refills': 'पुनर्भरण',
+  'Water exchange': 'जल विनिमय',
+  'Drained and refilled the same day, so it uses water but does not lower the level': 'उसी दिन निकाला और फिर भरा जाता है, इसलिए पानी लगता है पर स्तर नहीं घटता',
+  'Total demand': 'कुल माँग',
+  'Spilled over the outlet': 'निकास से बहा',
+  'Enter the pond and its water flows to project the level over the cycle.': 'चक्र में स्तर का अनुमान लगाने के लिए तालाब और उसके जल प्रवाह दर्ज करें।',
+  'Forest or dense cover': 'वन या घना आवरण',
+  'Grass or pasture': 'घास या चरागाह',
+  'Cultivated fields': 'खेती वाले खेत',
+  'Bare or compacted soil': 'नंगी या सख्त मिट्टी',
+  'Roofs and paved yards': 'छतें और पक्के आँगन',
+  'Latitude (°)': 'अक्षांश (°)',
+  'Negative south of the equator; sets day length for evaporation estimates': 'भूमध्य रेखा के दक्षिण में ऋणात्मक; वाष्पीकरण अनुमान के लिए दिन की लंबाई तय करता है',
+  'Climate Station': 'जलवायु स्टेशन',
+  'District whose monthly normals prefill the weather inputs; also sets latitude and elevation': 'वह ज़िला जिसके मासिक सामान्य मान मौसम इनपुट भरते हैं; अक्षांश और ऊँचाई भी तय करता है',
+  'Edit or replace normals': 'सामान्य मान संपादित करें या बदलें',
+  'None': 'कोई नहीं',
+  'Climate normals for {station}': '{station} के जलवायु सामान्य मान',
+  'Delete station': 'स्टेशन हटाएँ',
+  'Enter your own station\'s monthly means to replace the bundled district figures, or save them as a new station.': 'साथ आए ज़िला आँकड़ों को बदलने के लिए अपने स्टेशन के मासिक औसत दर्ज करें, या उन्हें नए स्टेशन के रूप में सहेजें।',
+  'Every month needs a number for each value, and the station needs a name, latitude and elevation.': 'हर महीने में हर मान के लिए संख्या चाहिए, और स्टेशन को नाम, अक्षांश और ऊँचाई चाहिए।',
+  'Month': 'महीना',
+  'Reset to bundled normals': 'साथ आए सामान्य मानों पर लौटाएँ',
+  'Save as new station': 'नए स्टेशन के रूप में सहेजें',
+  'State': 'राज्य',
+  'Station Name': 'स्टेशन का नाम',
+  'Choose a climate station in': 'जलवायु स्टेशन चुनें:',
+  'to prefill the weather from monthly normals.': 'ताकि मौसम मासिक सामान्य मानों से भरा जाए।',
+  'Weather prefilled from {station} normals; edit any value to override': 'मौसम {station} के सामान्य मानों से भरा गया; बदलने के लिए कोई भी मान संपादित करें',
+  'Air Temperature (°C)': 'वायु तापमान (°C)',
+  'Daily Range (°C)': 'दैनिक अंतर (°C)',
+  'Humidity (%)': 'आर्द्रता (%)',
+  'Rainfall (mm/month)': 'वर्षा (mm/माह)',
+  'Sunshine (h/day)': 'धूप (घंटे/दिन)',
+  'Wind (km/h)': 'हवा (km/h)',
+  'Climate stations': 'जलवायु स्टेशन',
+  'January': 'जनवरी',
+  'February': 'फ़रवरी',
+  'March': 'मार्च',
+  'April': 'अप्रैल',
+  'May': 'मई',
+  'June': 'जून',
+  'July': 'जुलाई',
+  'August': 'अगस्त',
+  'September': 'सितंबर',
+  'October': 'अक्टूबर',
+  'November': 'नवंबर',
+  'December': 'दिसंबर',
+  'Winter Ice Manager': 'शीतकालीन बर्फ प्रबंधक',
+  'Estimates when a pond freezes and how thick the ice gets from freezing degree-days, how fast fish and pond mud use up the oxygen under the ice, what open water, aeration or inflow keeps it safe, and how far to cut feeding through the winter.': 'हिमांक डिग्री-दिनों से अनुमान लगाता है कि तालाब कब जमेगा और बर्फ कितनी मोटी होगी, मछलियाँ और तालाब की कीचड़ बर्फ के नीचे ऑक्सीजन कितनी तेज़ी से खर्च करती हैं, कितना खुला पानी, वातन या जल प्रवाह इसे सुरक्षित रखता है, और पूरी सर्दी में आहार कितना घटाना है।',
+  'Stock': 'स्टॉक',
+  'Growth Stage': 'वृद्धि अवस्था',
+  'Remove': 'हटाएं',
+  'Add species': 'प्रजाति जोड़ें',
+  'Winter Weather': 'सर्दियों का मौसम',
+  'to prefill the monthly air temperatures.': 'ताकि मासिक वायु तापमान पहले से भरे जा सकें।',
+  'Mean air temperature of each winter month': 'सर्दियों के हर महीने का औसत वायु तापमान',
+  'Winter Starts In': 'सर्दी शुरू होती है',
+  'Snow and Shelter': 'बर्फबारी और आड़',
+  'Windswept, no snow on the ice': 'तेज़ हवा वाला, बर्फ पर हिम नहीं',
+  'Some snow on the ice': 'बर्फ पर कुछ हिम',
+  'Deep snow or sheltered pond': 'गहरा हिम या आड़ वाला तालाब',
+  'Water Temperature at Start': 'शुरुआत में पानी का तापमान',
+  'Leave empty to start from the air temperature': 'वायु तापमान से शुरू करने के लिए खाली छोड़ें',
+  'Cold Snap': 'शीत लहर',
+  'Starts On': 'शुरू होने की तारीख',
+  'Leave empty for a normal winter': 'सामान्य सर्दी के लिए खाली छोड़ें',
+  'Length (days)': 'अवधि (दिन)',
+  'Colder Than Normal By (°C)': 'सामान्य से कितना ठंडा (°C)',
+  'Inflow Oxygen': 'आने वाले पानी में ऑक्सीजन',
+  'Spring or stream water that can be let in': 'झरने या नाले का पानी जो अंदर छोड़ा जा सके',
+  'Over open water in the ice': 'बर्फ के बीच खुले पानी के ऊपर',
+  'Wind Speed': 'हवा की गति',
+  'Forecast Winter Ice': 'शीतकालीन बर्फ का पूर्वानुमान करें',
+  'No ice expected: the daily mean air temperature does not fall below freezing once the pond has cooled to 4 °C.': 'बर्फ की संभावना नहीं: तालाब के 4 °C तक ठंडा होने के बाद दैनिक औसत वायु तापमान हिमांक से नीचे नहीं जाता।',
+  'Ice from {date}, {days} days of cover in all, thickest {thickness} around {maxDate}.': '{date} से बर्फ, कुल {days} दिन बर्फ की परत, {maxDate} के आसपास सबसे मोटी {thickness}।',
+  'The pond would freeze nearly to the bottom.': 'तालाब लगभग तल तक जम जाएगा।',
+  'Under the ice oxygen falls below {threshold} mg/L on {date}, reaching {minimum} mg/L.': 'बर्फ के नीचे ऑक्सीजन {date} को {threshold} mg/L से नीचे गिरती है और {minimum} mg/L तक पहुँचती है।',
+  'Oxygen stays above {threshold} mg/L under the ice; the lowest is {minimum} mg/L.': 'बर्फ के नीचे ऑक्सीजन {threshold} mg/L से ऊपर रहती है; सबसे कम {minimum} mg/L है।',
+  'day': 'दिन',
+  'Air temperature (°C)': 'वायु तापमान (°C)',
+  'Ice (cm)': 'बर्फ (cm)',
+  'Oxygen (mg/L)': 'ऑक्सीजन (mg/L)',
+  'Keeping Oxygen Under Ice': 'बर्फ के नीचे ऑक्सीजन बनाए रखना',
+  'Open water kept free of ice': 'बर्फ से मुक्त रखा गया खुला पानी',
+  'or aerators': 'या वातक',
+  'or a steady inflow of': 'या लगातार जल प्रवाह',
+  'Open water alone cannot keep up: the pond surface is too small for its stock. Aerate or let in water.': 'केवल खुला पानी पर्याप्त नहीं: तालाब की सतह उसके स्टॉक के लिए बहुत छोटी है। वातन करें या पानी अंदर छोड़ें।',
+  'Keep a hole open with a bubbler or surface agitator near the deep end; holes cut by hand refreeze overnight': 'गहरे सिरे के पास बबलर या सतही एजिटेटर से एक छेद खुला रखें; हाथ से काटे गए छेद रात भर में फिर जम जाते हैं',
+  'Run aerators gently under ice: mixing the whole pond chills the 4 °C bottom water the fish shelter in': 'बर्फ के नीचे वातक धीरे चलाएँ: पूरे तालाब को मिलाने से तल का 4 °C पानी ठंडा हो जाता है जिसमें मछलियाँ शरण लेती हैं',
+  'Sweep snow off part of the ice so light reaches the water': 'बर्फ के कुछ हिस्से से हिम हटा दें ताकि रोशनी पानी तक पहुँचे',
+  'Stop feeding and remove dead fish before oxygen falls; both add to the demand': 'ऑक्सीजन गिरने से पहले आहार बंद करें और मरी मछलियाँ निकालें; दोनों मांग बढ़ाते हैं',
+  'Measure oxygen through a hole every two or three days and start aeration or inflow before the safe level': 'हर दो-तीन दिन में छेद से ऑक्सीजन मापें और सुरक्षित स्तर से पहले वातन या जल प्रवाह शुरू करें',
+  'Raise the water level before freeze-up or move the stock to deeper ponds; ice will take over half the depth': 'जमने से पहले जल स्तर बढ़ाएँ या स्टॉक को गहरे तालाबों में ले जाएँ; बर्फ आधी से अधिक गहराई ले लेगी',
+  'The inflow holds too little oxygen to help; aerate it over a cascade or splash board first': 'आने वाले पानी में बहुत कम ऑक्सीजन है; पहले इसे झरने या स्प्लैश बोर्ड से वातित करें',
+  'Winter Feeding Schedule': 'सर्दियों की आहार सारणी',
+  'Add a species to the stock for a feeding schedule.': 'आहार सारणी के लिए स्टॉक में एक प्रजाति जोड़ें।',
+  'Week of': 'सप्ताह',
+  'Water (°C)': 'पानी (°C)',
+  'Ice': 'बर्फ',
+  'Normal ration': 'सामान्य आहार',
+  'Reduced ration': 'घटा हुआ आहार',
+  'Maintenance ration on milder days': 'कम ठंडे दिनों में रखरखाव आहार',
+  'Stop feeding': 'आहार बंद करें',
+  'Stop feeding until oxygen recovers': 'ऑक्सीजन सुधरने तक आहार बंद करें',
+  'Enter the pond, its stock and the winter air temperatures to forecast ice and under-ice oxygen.': 'बर्फ और बर्फ के नीचे ऑक्सीजन के पूर्वानुमान के लिए तालाब, उसका स्टॉक और सर्दियों का वायु तापमान दर्ज करें।',
+  'Between 10 and 5000': '10 से 5000 के बीच',
+};
+
+export default messages;
@@ -0,0 +1,851 @@
+import type { Messages } from '..';
+
+// Kashmiri (Perso-Arabic script) messages, keyed by the English text.
+const messages: Messages = {
+  '💧 Water Management': '💧 آبُک انتظام',
+  '🗺️ Pond Registry': '🗺️ تالاب رجسٹر',
+  'Register pond details': 'تالابٕچ تفصیل درج کٔریو',
+  '💧 Water Quality': '💧 آبُک معیار',
+  'Monitor water parameters': 'آبٕکۍ پیمانہٕ وُچھِو',
+  '🌊 Water Quality Monitor': '🌊 آبُک معیار مانیٹر',
+  'Advanced water monitoring': 'جدید آبُک نِگرٲنی',
+  '📉 Water Quality History': '📉 آبی معیارٕچ تاریخ',
+  'Trends and statistics per pond': 'پرٛتھ تالابٕک رجحان تہٕ اعداد و شمار',
+  '📊 Water Quality Predictor': '📊 آبُک معیار پیشگوئی',
+  'Predict water parameters': 'آبٕکۍ پیمانہٕ پیشگوئی',
+  '🌙 Night Oxygen Forecast': '🌙 راتُک آکسیجن پیشن گوئی',
+  'Predict pre-dawn oxygen crashes': 'صُبحٕ برونٛہ آکسیجن کمی ہٕنز پیشن گوئی',
+  '🧊 Winter Ice Manager': '🧊 وَندٕ شین منیجر',
+  'Ice cover, under-ice oxygen and winter feeding': 'شین ہُنٛد تہٕ، شینہٕ تَل آکسیجن تہٕ وَندٕ کھٮ۪ن',
+  '📡 Sensors': '📡 سینسر',
+  'Live readings from pond probes': 'تالابٕچن پروبو پؠٹھ براہِ راست ریڈنگ',
+  '💨 Pond Evaporation': '💨 تالابُک بخارات',
+  'Calculate water loss': 'آبٕچ کمی ہُنٛد حساب',
+  '🚰 Water Balance': '🚰 آبُک توازن',
+  'Level projection, refills and water demand': 'سطحُک اندازٕ، دوبارٕ بَرُن تہٕ آبٕچ مانگ',
+  '🏊 Pond Sediment': '🏊 تالابُک گاد',
+  'Manage sediment buildup': 'گاد جمع گژھنُک انتظام',
+  '🧪 Pond Liming': '🧪 تالابس منٛز چوٗن',
+  'Calculate lime requirements': 'چوٗنٕچ ضروٗرت ہُنٛد حساب',
+  '🏗️ Pond Lining': '🏗️ تالابُک لائننگ',
+  'Calculate lining costs': 'لائننگ خرچُک حساب',
+  '🐟 Fish Management': '🐟 گاڑن ہُنٛد انتظام',
+  '📚 Species Catalog': '📚 قسمن ہٕنز فہرست',
+  'View and extend species data': 'قسمن ہُنٛد ڈیٹا وُچھِو تہٕ بڑھٲوِو',
+  '🧺 Production Batches': '🧺 پیداوارُک بیچ',
+  'Track production cycles': 'پیداوارُک چکر وُچھِو',
+  '📈 Growth Tracker': '📈 بڑھوتری ٹریکر',
+  'Track growth rates': 'بڑھوتری ہٕنز شرح وُچھِو',
+  '📊 Growth Benchmark': '📊 بڑھوتری ہُنٛد معیار',
+  'Compare growth rates': 'بڑھوتری ہٕنزٕ شرح مقابلہٕ کٔریو',
+  '📈 Growth Predictor': '📈 بڑھوتری پیشگوئی',
+  'Predict fish growth': 'گاڑن ہٕنز بڑھوتری پیشگوئی',
+  '❤️ Fish Stress Monitor': '❤️ گاڑن ہُنٛد دباو مانیٹر',
+  'Monitor fish stress levels': 'گاڑن ہُنٛد دباو وُچھِو',
+  '🔢 Fish Calculator': '🔢 گاڑ کیلکولیٹر',
+  'Fish calculations': 'گاڑن ہُنٛد حساب',
+  '📊 Fish Stocking Calculator': '📊 گاڑ ذخیرہٕ کیلکولیٹر',
+  'Calculate stocking density': 'ذخیرہٕ کثافتُک حساب',
+  '⚖️ Fish Yield Calculator': '⚖️ گاڑ پیداوار کیلکولیٹر',
+  'Calculate fish yield': 'گاڑن ہٕنز پیداوار حساب',
+  '🍽️ Feed Management': '🍽️ خوراکُک انتظام',
+  'Optimize feeding': 'خوراک دِنۍ بہتر بنٲوِو',
+  '🧮 FCR Calculator': '🧮 FCR کیلکولیٹر',
+  'Calculate feed conversion': 'خوراک تبدیلی ہُنٛد حساب',
+  '⚡ FCR Optimizer': '⚡ FCR بہتر ساز',
+  'Optimize feed conversion': 'خوراک تبدیلی بہتر بنٲوِو',
+  '🍽️ Feeding Calculator': '🍽️ خوراک کیلکولیٹر',
+  'Calculate feeding amounts': 'خوراکٕچ مقدار حساب',
+  '🏥 Health Management': '🏥 صحتُک انتظام',
+  '🔬 Disease Prevention': '🔬 بیمٲری نِشہٕ بچاو',
+  'Prevent diseases': 'بیمٲرین نِشہٕ بچاو',
+  '⚕️ Disease Risk Assessment': '⚕️ بیمٲری ہٕندِ خطرُک جائزٕ',
+  'Assess disease risks': 'بیمٲری ہٕندۍ خطرٕ جانچِو',
+  '♻️ Waste to Fertilizer': '♻️ فضلہٕ پیٹھٕ کھاد',
+  'Convert waste to fertilizer': 'فضلہٕ کھادس منٛز بدلٲوِو',
+  '🌡️ Environment': '🌡️ ماحول',
+  '🌡️ Environmental Monitor': '🌡️ ماحولیاتی مانیٹر',
+  'Monitor environment': 'ماحولُک نِگرٲنی',
+  '⚡ Energy Efficiency': '⚡ توانٲیی ہٕنز بچت',
+  'Optimize energy usage': 'توانٲیی ہُنٛد استعمال بہتر بنٲوِو',
+  '🌤️ Weather Impact': '🌤️ موسمُک اثر',
+  'Analyze weather effects': 'موسمٕکۍ اثرات جانچِو',
+  '💨 Aeration Calculator': '💨 ہوا رسٲنی کیلکولیٹر',
+  'Design aeration systems': 'ہوا رسٲنی نظام ڈیزائن کٔریو',
+  '📊 Business Tools': '📊 کاروبٲری اوزار',
+  '📈 Market Analysis': '📈 بازرُک تجزیہٕ',
+  'Analyze market trends': 'بازرٕچ رجحانات جانچِو',
+  '💰 Profitability Calculator': '💰 منافع کیلکولیٹر',
+  'Calculate profits': 'منافعُک حساب',
+  '⏲️ Harvest Timing Advisor': '⏲️ فصل کَڈنٕچ وقتُک مشیر',
+  'Optimize harvest timing': 'فصل کَڈنُک وقت بہتر بنٲوِو',
+  '📦 Inventory': '📦 انوینٹری',
+  'Manage stock': 'اسٹاکُک انتظام',
+  '📊 Reports': '📊 رپورٹ',
+  'Generate reports': 'رپورٹ تیار کٔریو',
+  '📅 Production Calendar': '📅 پیداوارُک کیلنڈر',
+  'Plan production': 'پیداوارٕچ منصوبہٕ بندی',
+  '⚙️ Preferences': '⚙️ ترجیحات',
+  '🔔 Alert Rules': '🔔 الرٹ قاعدٕ',
+  'Limits, notifications and alert history': 'حدٕ، اطلاعات تہٕ الرٹن ہٕنز تٲریخ',
+  '⚙️ Settings': '⚙️ ترتیبات',
+  'Currency, units, language and backups': 'کرنسی، اِکایہٕ، زبان تہٕ بیک اپ',
+  '🏠 Home': '🏠 گَرٕ',
+  'ℹ️ About': 'ℹ️ تعارُف',
+  '👥 Our Team': '👥 سٲنۍ ٹیم',
+  '📞 Contact Us': '📞 رابطہٕ کٔریو',
+  '🔒 Privacy Policy': '🔒 رازداری ہٕنز پالیسی',
+  '⚖️ Disclaimer': '⚖️ دستبرداری',
+  '🔍 Quick Links': '🔍 فوری لِنک',
+  '👥 Company': '👥 کمپنی',
+  '📜 Legal': '📜 قانوٗنی',
+  'Aquaculture Tools': 'آبی زراعتُک اوزار',
+  'Comprehensive suite of tools for modern aquaculture management': 'نَوِ آبی زراعتُک انتظامہٕ خٲطرٕ اوزارن ہُنٛد مکمل مجموعہ',
+  'Home': 'گَرٕ',
+  'About': 'تعارُف',
+  'All rights reserved.': 'سٲری حق محفوظ۔',
+  'Tools': 'اوزار',
+  'Language': 'زبان',
+  'Units': 'اِکایہٕ',
+  'Metric (m, kg, °C)': 'میٹرک (m, kg, °C)',
+  'Imperial (ft, lb, °F)': 'امپیریل (ft, lb, °F)',
+  'Feed Management': 'خوراکُک انتظام',
+  'Preferences': 'ترجیحات',
+  'Pond Registry': 'تالاب رجسٹر',
+  'Water Quality': 'آبُک معیار',
+  'Water Quality Monitor': 'آبُک معیار مانیٹر',
+  'Water Quality Predictor': 'آبُک معیار پیشگوئی',
+  'Pond Evaporation': 'تالابُک بخارات',
+  'Pond Sediment': 'تالابُک گاد',
+  'Pond Liming': 'تالابس منٛز چوٗن',
+  'Pond Lining': 'تالابُک لائننگ',
+  'Species Catalog': 'قسمن ہٕنز فہرست',
+  'Production Batches': 'پیداوارُک بیچ',
+  'Growth Tracker': 'بڑھوتری ٹریکر',
+  'Growth Benchmark': 'بڑھوتری ہُنٛد معیار',
+  'Growth Predictor': 'بڑھوتری پیشگوئی',
+  'Fish Stress Monitor': 'گاڑن ہُنٛد دباو مانیٹر',
+  'Fish Calculator': 'گاڑ کیلکولیٹر',
+  'Fish Stocking Calculator': 'گاڑ ذخیرہٕ کیلکولیٹر',
+  'Fish Yield Calculator': 'گاڑ پیداوار کیلکولیٹر',
+  'FCR Calculator': 'FCR کیلکولیٹر',
+  'FCR Optimizer': 'FCR بہتر ساز',
+  'Feeding Calculator': 'خوراک کیلکولیٹر',
+  'Disease Prevention': 'بیمٲری نِشہٕ بچاو',
+  'Disease Risk Assessment': 'بیمٲری ہٕندِ خطرُک جائزٕ',
+  'Waste to Fertilizer': 'فضلہٕ پیٹھٕ کھاد',
+  'Energy Efficiency': 'توانٲیی ہٕنز بچت',
+  'Weather Impact': 'موسمُک اثر',
+  'Aeration Calculator': 'ہوا رسٲنی کیلکولیٹر',
+  'Market Analysis': 'بازرُک تجزیہٕ',
+  'Profitability Calculator': 'منافع کیلکولیٹر',
+  'Harvest Timing Advisor': 'فصل کَڈنٕچ وقتُک مشیر',
+  'Inventory': 'انوینٹری',
+  'Reports': 'رپورٹ',
+  'Production Calendar': 'پیداوارُک کیلنڈر',
+  'Settings': 'ترتیبات',
+  'Choose how money and measurements are shown and the default prices every calculator starts from.': 'ژارِو زِ پونسہٕ تہٕ ناپ کِتھہٕ پٲٹھۍ ہاونہٕ یِن تہٕ پرٛتھ کیلکولیٹر کَمَن طے شُدہ قیمتن سٕتۍ شروٗع گژھہِ۔',
+  'Changes are saved on this device straight away.': 'تبدیلی چھِ فوراً یتھۍ آلس پیٹھ محفوظ گژھان۔',
+  'Currency & Number Format': 'کرنسی تہٕ نمبرٕچ شکل',
+  'Currency': 'کرنسی',
+  'Number Format': 'نمبرٕچ شکل',
+  'India formats group large amounts in lakh and crore': 'ہندوستٲنی شکلہٕ چھِ بٔڑۍ رقمہٕ لچھ تہٕ کروڑس منٛز ہاوان',
+  'Exchange Rate ({symbol} per US$)': 'تبادلہٕ شرح ({symbol} فی US$)',
+  'Converts built-in reference prices such as species market prices and liner costs': 'قسمن ہٕنز بازر قیمت تہٕ لائنر خرچ ہِشۍ اندرٕمۍ حوالہٕ قیمتہٕ چھُ بدلاوان',
+  'Preview: {amount}': 'پیش نظارٕ: {amount}',
+  'Default Prices': 'طے شُدہ قیمتہٕ',
+  'Electricity Tariff ({symbol}/kWh)': 'بِجلی ہُنٛد نرخ ({symbol}/kWh)',
+  'Used for aerator and equipment running costs': 'ایریٹر تہٕ آلات چلاونٕکِس خرچس خٲطرٕ ورتاونہٕ یِوان',
+  'Labor ({symbol}/day)': 'مزدوٗری ({symbol}/دۄہ)',
+  'Cost of one worker for one day': 'اکھ مزدوٗر اکِس دۄہس خٲطرٕ خرچ',
+  'Feed Price ({symbol}/kg)': 'خوراکٕچ قیمت ({symbol}/kg)',
+  'Used wherever a feed cost is estimated': 'یتہِ تہِ خوراکُک خرچ اندازٕ کرنہٕ یِوان چھُ، تتہِ ورتاونہٕ یِوان',
+  'Unit System': 'اِکایہٕ نظام',
+  'Individual fields can still be switched with their unit picker': 'الگ الگ خانہٕ ہیکن وۄنۍ تہِ پنٕنۍ اِکایہٕ ژارن وٲلۍ سٕتۍ بدلٲوِتھ',
+  'Urdu and Kashmiri are shown right to left': 'اردو تہٕ کٲشُر چھِ دَچھنہٕ پیٹھٕ کھۄورٕ ہاونہٕ یِوان',
+  'Monitor and analyze your pond\'s water quality parameters': 'پنٕنِس تالابس منٛز آبُک معیار وُچھِو تہٕ جانچِو',
+  'Dissolved Oxygen': 'حل شُدہ آکسیجن',
+  'Temperature': 'درجہٕ حرارت',
+  'Ammonia': 'امونیا',
+  'Nitrite': 'نائٹرائٹ',
+  'Nitrate': 'نائٹریٹ',
+  'Alkalinity': 'الکلائنٹی',
+  'Hardness': 'سختی',
+  'Salinity': 'نمکیات',
+  'Turbidity': 'گدلہٕ پن',
+  'Phosphate': 'فاسفیٹ',
+  'Carbon Dioxide': 'کاربن ڈائی آکسائیڈ',
+  'Optimal: {min}-{max} {unit}': 'بہترین: {min}-{max} {unit}',
+  'Analyze Parameters': 'پیمانہٕ جانچِو',
+  'Overall Status: {status}': 'مجموعی حالت: {status}',
+  'Optimal': 'بہترین',
+  'Warning': 'خبردار',
+  'Critical': 'سنگین',
+  'Immediate action required!': 'فوری کارروٲیی ضروٗری!',
+  'Some parameters need attention.': 'کینٛہہ پیمانن پیٹھ چھُ توجہ ضروٗری۔',
+  'All parameters are within optimal range.': 'سٲری پیمانہٕ چھِ بہترین حدس اندر۔',
+  'Recommendations:': 'صلاح:',
+  'Increase aeration if levels are low': 'سطح کم آسِ تہٕ ہوا رسٲنی بڑھٲوِو',
+  'Check stocking density if consistently low': 'برابر کم روزِ تہٕ ذخیرہٕ کثافت جانچِو',
+  'Monitor feeding rate if levels fluctuate': 'سطح ہیٛر بۄن گژھِ تہٕ خوراکٕچ شرح وُچھِو',
+  'Use shading during hot periods': 'گرم وقتس منٛز سایہ ورتٲوِو',
+  'Adjust feeding based on temperature': 'درجہٕ حرارتٕکۍ مطابق خوراک بدلٲوِو',
+  'Consider water exchange in extreme conditions': 'سخت حالاتن منٛز آب بدلاونس پیٹھ غور کٔریو',
+  'Add lime if pH is low': 'pH کم آسِ تہٕ چوٗن ترٲوِو',
+  'Check alkalinity levels': 'الکلائنٹی ہٕنز سطح جانچِو',
+  'Monitor after heavy rain': 'زبردست روٗدٕ پَتہٕ نِگرٲنی کٔریو',
+  'Reduce feeding if levels are high': 'سطح زیادٕ آسِ تہٕ خوراک کم کٔریو',
+  'Increase water exchange': 'آب بدلاون بڑھٲوِو',
+  'Check biofilter efficiency': 'بایو فلٹرٕچ کارکردگی جانچِو',
+  'Add salt to reduce toxicity': 'زہر کم کرنہٕ خٲطرٕ نون ترٲوِو',
+  'Check nitrifying bacteria': 'نائٹریفائنگ بیکٹیریا جانچِو',
+  'Increase oxygenation': 'آکسیجن بڑھٲوِو',
+  'Regular water exchange': 'باقاعدٕ آب بدلاون',
+  'Monitor plant growth': 'کُلۍ بوٗٹین ہٕنز بڑھوتری وُچھِو',
+  'Check denitrification': 'ڈی نائٹریفکیشن جانچِو',
+  'Add buffer if low': 'کم آسِ تہٕ بفر ترٲوِو',
+  'Check limestone addition': 'چوٗنہٕ کَنۍ ہٕنز مقدار جانچِو',
+  'Monitor pH stability': 'pH ہُنٛد استحکام وُچھِو',
+  'Add calcium if low': 'کم آسِ تہٕ کیلشیم ترٲوِو',
+  'Check mineral content': 'معدنیاتٕچ مقدار جانچِو',
+  'Balance with alkalinity': 'الکلائنٹی سٕتۍ توازن تھٲوِو',
+  'Adjust based on species': 'قسمٕکۍ مطابق ٹھیک کٔریو',
+  'Monitor after rain': 'روٗدٕ پَتہٕ نِگرٲنی کٔریو',
+  'Check evaporation rate': 'بخاراتٕچ شرح جانچِو',
+  'Use settling tanks': 'تہہ نشینی ٹینک ورتٲوِو',
+  'Add mechanical filtration': 'مکینیکل فلٹریشن لاگِو',
+  'Check erosion sources': 'کٹاوٕکۍ ذرائع جانچِو',
+  'Control feed waste': 'خوراکُک ضیاع روٗکِو',
+  'Monitor algae growth': 'کائی ہٕنز بڑھوتری وُچھِو',
+  'Check fertilization rate': 'کھاد ترٲونٕچ شرح جانچِو',
+  'Increase aeration': 'ہوا رسٲنی بڑھٲوِو',
+  'Check respiration rate': 'شاہ نِنٕچ شرح جانچِو',
+  'Monitor plant density': 'کُلۍ بوٗٹین ہٕنز کثافت وُچھِو',
+  'Assess disease risks based on environmental parameters and fish behavior': 'ماحولیاتی پیمانن تہٕ گاڑن ہٕندِ رویہٕ کِس بنیادس پیٹھ بیمٲری ہٕندۍ خطرٕ جانچِو',
+  'Species': 'قسم',
+  'Water Temperature': 'آبُک درجہٕ حرارت',
+  'Stocking Density': 'ذخیرہٕ کثافت',
+  'Feeding Rate (% biomass/day)': 'خوراکٕچ شرح (% بایوماس/دۄہ)',
+  'Mortality Rate (%)': 'مرنٕچ شرح (%)',
+  'Fish Behavior': 'گاڑن ہُنٛد رویہٕ',
+  'Observed Symptoms': 'وُچھمٕتۍ علامات',
+  'Risk Factors': 'خطرٕچ وجوہات',
+  'Analyze Risk': 'خطرٕ جانچِو',
+  'Risk Factors Analysis': 'خطرٕچ وجوہاتن ہُنٛد تجزیہٕ',
+  'Risk Level': 'خطرٕچ سطح',
+  'Factor': 'وجہ',
+  'Status': 'حالت',
+  'Risk Score': 'خطرٕچ اسکور',
+  'Oxygen': 'آکسیجن',
+  'Density': 'کثافت',
+  'Mortality': 'مَرُن',
+  'Behavior': 'رویہٕ',
+  'low': 'کم',
+  'medium': 'درمیانہٕ',
+  'high': 'زیادٕ',
+  '{probability}% Risk': '{probability}% خطرٕ',
+  'Common Symptoms:': 'عام علامات:',
+  'Preventive Measures:': 'بچاوٕچ تدبیرٕ:',
+  'Recommended Treatments:': 'صلاح دِنہٕ آمتۍ علاج:',
+  'White Spot Disease (Ich)': 'سفید داغن ہٕنز بیمٲری (اِک)',
+  'Bacterial Gill Disease': 'بیکٹیریل گلپھڑن ہٕنز بیمٲری',
+  'Columnaris Disease': 'کالمنیرس بیمٲری',
+  'Saprolegniasis (Fungal Infection)': 'سیپرولیگنیاسس (پھپھوندی ہُنٛد انفیکشن)',
+  'Aeromonas Infection': 'ایرومونس انفیکشن',
+  'Trichodiniasis': 'ٹرائیکوڈینیاسس',
+  'Streptococcosis': 'اسٹریپٹوکوکوسس',
+  'Lethargy': 'سُستی',
+  'Erratic swimming': 'بے ترتیب ترُن',
+  'Gasping at surface': 'سطحس پیٹھ ہانپُن',
+  'Red/inflamed gills': 'وۄزُل/وۄتھمٕتۍ گلپھڑٕ',
+  'Skin lesions': 'مۄژِ پیٹھ زخم',
+  'White spots on skin': 'مۄژِ پیٹھ سفید داغ',
+  'Bloated abdomen': 'وۄتھمُت یڈ',
+  'Fin rot': 'پَرٕ گلُن',
+  'Color changes': 'رنگس منٛز تبدیلی',
+  'Excess mucus production': 'زیادٕ لیسہٕ بنُن',
+  'Scale loss': 'چھلکہٕ پیُن',
+  'Pop-eye condition': 'نیبر نیرمٕژ اَچھ',
+  'Ulcers': 'ناسوٗر',
+  'Hemorrhages': 'خوٗن وَسُن',
+  'Cotton-like growth': 'کَپسٕ ہِشۍ بڑھوتری',
+  'Black/brown spots': 'کرٕہُن/بۄرٕ داغ',
+  'Rapid operculum movement': 'گلپھڑٕ ڈَکنٕچ تیز حرکت',
+  'Flashing behavior': 'رگڑنُک رویہٕ',
+  'Tail/fin erosion': 'لٔٹ/پَرٕ گَسُن',
+  'Body deformities': 'جسمٕچ خرٲبی',
+  'Rapid breathing': 'تیز شاہ نِیُن',
+  'Dark body color': 'جسمُک گوٚڈ رنگ',
+  'Quarantine new fish': 'نٔوۍ گاڑ الگ تھٲوِو',
+  'Maintain optimal water quality': 'آبُک بہترین معیار قٲیم تھٲوِو',
+  'Regular health monitoring': 'باقاعدٕ صحتٕچ نِگرٲنی',
+  'Maintain good water quality': 'آبُک رۅٚت معیار قٲیم تھٲوِو',
+  'Avoid overcrowding': 'زیادٕ بیٖڑ نِشہٕ بچِو',
+  'Regular gill checks': 'گلپھڑن ہٕنز باقاعدٕ جانچ',
+  'Reduce stress factors': 'دباوٕچ وجوہات کم کٔریو',
+  'Maintain clean environment': 'صاف ماحول قٲیم تھٲوِو',
+  'Regular water changes': 'باقاعدٕ آب بدلٲوِو',
+  'Avoid physical damage': 'جسمٲنی نقصان نِشہٕ بچٲوِو',
+  'Maintain water quality': 'آبُک معیار قٲیم تھٲوِو',
+  'Proper handling': 'ٹھیک پٲٹھۍ سنبھالُن',
+  'Good sanitation': 'رۅٚت صفٲیی',
+  'Stress reduction': 'دباوس منٛز کمی',
+  'Regular health checks': 'باقاعدٕ صحتٕچ جانچ',
+  'Regular water quality monitoring': 'آبٕکِس معیارس باقاعدٕ نِگرٲنی',
+  'Maintain optimal water temperature': 'آبُک بہترین درجہٕ حرارت قٲیم تھٲوِو',
+  'Regular disinfection': 'باقاعدٕ جراثیم کُشی',
+  'Proper feed storage': 'خوراکُک ٹھیک ذخیرٕ',
+  'Increase temperature to 30°C gradually': 'درجہٕ حرارت آہستہ آہستہ 30°C تام بڑھٲوِو',
+  'Salt treatment (0.15-0.3%)': 'نونہٕ سٕتۍ علاج (0.15-0.3%)',
+  'Commercial ich treatment': 'تجارتی اِک علاج',
+  'Formalin bath treatment': 'فارملین غسلٕ سٕتۍ علاج',
+  'Antibiotic treatment under veterinary guidance': 'ویٹرنری رہنمٲیی منٛز اینٹی بایوٹک علاج',
+  'Potassium permanganate bath': 'پوٹاشیم پرمینگنیٹ غسل',
+  'Improve aeration': 'ہوا رسٲنی بہتر بنٲوِو',
+  'Antibiotic treatment': 'اینٹی بایوٹک علاج',
+  'Salt bath treatment': 'نونہٕ غسلٕ سٕتۍ علاج',
+  'Copper sulfate treatment': 'کاپر سلفیٹ سٕتۍ علاج',
+  'Malachite green treatment': 'میلاکائٹ گرین سٕتۍ علاج',
+  'Remove infected tissue': 'متاثر بافت کَڈِو',
+  'Wound disinfection': 'زخمٕچ جراثیم کُشی',
+  'Salt treatment (2-3%)': 'نونہٕ سٕتۍ علاج (2-3%)',
+  'Reduce feeding rate': 'خوراکٕچ شرح کم کٔریو',
+  'Optimize harvest timing based on growth, market conditions, and profitability': 'بڑھوتری، بازرٕکۍ حالات تہٕ منافعٕکِس بنیادس پیٹھ فصل کَڈنُک وقت بہتر بنٲوِو',
+  'Initial Weight': 'ابتدٲیی وزن',
+  'Current Weight': 'موجودٕ وزن',
+  'Target Weight': 'ہدف وزن',
+  'Stocking Date': 'ذخیرٕ کرنٕچ تاریخ',
+  'Growth Rate': 'بڑھوتری ہٕنز شرح',
+  'Feeding Rate (% biomass)': 'خوراکٕچ شرح (% بایوماس)',
+  'Survival Rate (%)': 'زِندٕ روزنٕچ شرح (%)',
+  'Market Price ({symbol}/kg)': 'بازر قیمت ({symbol}/kg)',
+  'Production Costs ({symbol}/day)': 'پیداوارُک خرچ ({symbol}/دۄہ)',
+  'Seasonal Pricing': 'موسمی قیمت',
+  'Peak Season': 'عروجُک موسم',
+  'Off Season': 'غٲر موسم',
+  'Normal': 'معمول',
+  'Festival Season': 'تہوارن ہُنٛد موسم',
+  'Excellent': 'بہترین',
+  'Good': 'رۅٚت',
+  'Fair': 'ٹھیک',
+  'Poor': 'خراب',
+  'Harvest Timing Analysis': 'فصل کَڈنٕکِس وقتُک تجزیہٕ',
+  'Optimal Harvest Date': 'فصل کَڈنٕچ بہترین تاریخ',
+  'Days to Harvest': 'فصل کَڈنس تام دۄہ',
+  'Expected Weight': 'متوقع وزن',
+  'Confidence Level': 'اعتمادٕچ سطح',
+  'Economic Projection': 'معٲشی تخمینہٕ',
+  'Expected Revenue': 'متوقع آمدنی',
+  'Production Cost': 'پیداوارُک خرچ',
+  'Projected Profit': 'متوقع منافع',
+  'Price Variation': 'قیمتس منٛز ہیٛر بۄن',
+  'Growth and Profit Projection': 'بڑھوتری تہٕ منافعُک تخمینہٕ',
+  'Weeks': 'ہفتہٕ',
+  'Weight (g)': 'وزن (g)',
+  'Profit ({symbol})': 'منافع ({symbol})',
+  'Risk Assessment': 'خطرُک جائزٕ',
+  'Risk Factor': 'خطرٕچ وجہ',
+  'Level': 'سطح',
+  'Impact': 'اثر',
+  'Recommendations': 'صلاح',
+  'Market Price': 'بازر قیمت',
+  'May slow growth rate and affect survival': 'بڑھوتری ہیکہِ سُست گژھِتھ تہٕ زِندٕ روزُن متاثر گژھِتھ',
+  'Below optimal growth rate for species': 'قسمہٕ خٲطرٕ بہترین بڑھوتری شرحہٕ کھۄتہٕ کم',
+  'Lower prices during off-season': 'غٲر موسمس منٛز کم قیمتہٕ',
+  'Consider improving water quality before harvest': 'فصل کَڈنہٕ برونٛہہ آبُک معیار بہتر بناونس پیٹھ غور کٔریو',
+  'Monitor growth rate more frequently': 'بڑھوتری ہٕنز شرح زیادٕ باقاعدٕ وُچھِو',
+  'Evaluate possibility of extending culture period to reach peak season': 'عروجُک موسم واتنہٕ خٲطرٕ پرورشٕچ مدت بڑھاونُک امکان وُچھِو',
+  'Consider partial harvesting strategy': 'جزوی فصل کَڈنٕچ حکمت عملی پیٹھ غور کٔریو',
+  'Review production costs and feeding strategy': 'پیداوارُک خرچ تہٕ خوراکٕچ حکمت عملی دوبارٕ وُچھِو',
+  'Consider alternative market channels': 'متبادل بازر ذرائع پیٹھ غور کٔریو',
+  'Optimal harvest window: {date} (±{days} days)': 'فصل کَڈنُک بہترین وقت: {date} (±{days} دۄہ)',
+  'Online': 'آن لائن',
+  'Offline': 'آف لائن',
+  'Connected. Everything is also saved on this device.': 'رابطہٕ قٲیم۔ سورُے چھُ یتھ آلس پیٹھ تہِ محفوظ گژھان۔',
+  'No connection. The app keeps working and saves on this device.': 'کانٛہہ رابطہٕ چھُ نہٕ۔ ایپ روزِ کام کران تہٕ یتھ آلس پیٹھ محفوظ کران۔',
+  'Not backed up': 'بیک اپ گوو نہٕ',
+  'Latest changes ({date}) are not backed up yet': 'تازٕ تبدیلین ({date}) ہُنٛد چھُ نہٕ وۄنۍ تام بیک اپ گومُت',
+  'Backup & Restore': 'بیک اپ تہٕ بحٲلی',
+  'Save every pond, batch, record and setting to one file, or bring them back from a file saved earlier on this or another device.': 'ہر تالاب، بیچ، ریکارڈ تہٕ ترتیب اکھ فائلس منز محفوظ کٔرِو، یا یِمہٕ یا بیٚیہِ آلہٕ پیٹھ گۄڈٕ محفوظ کٔرمٕژ فائلہِ منزٕ واپس اَنِو۔',
+  'Download backup': 'بیک اپ ڈاؤن لوڈ کٔرِو',
+  'Restore from file': 'فائلہِ منزٕ بحال کٔرِو',
+  'Last backup: {date}': 'آخری بیک اپ: {date}',
+  'No backup downloaded yet': 'وۄنۍ تام چھُ نہٕ کانٛہہ بیک اپ ڈاؤن لوڈ گومُت',
+  '…and {count} more problems': '…تہٕ {count} بیٚیہِ مسلہٕ',
+  'The backup could not be created.': 'بیک اپ ہیوٚک نہٕ بٔنِتھ۔',
+  'The backup could not be compared with the data on this device.': 'بیک اپُک مقابلہ ہیوٚک نہٕ یِمہٕ آلہٕ کِس ڈیٹاہس سۭتۍ سپدِتھ۔',
+  'Backup restored.': 'بیک اپ گوو بحال۔',
+  'The backup could not be restored.': 'بیک اپ ہیوٚک نہٕ بحال سپدِتھ۔',
+  'Restore Backup': 'بیک اپ بحال کٔرِو',
+  'Backup from {date}': '{date} ہُنٛد بیک اپ',
+  'an unknown date': 'نامعلوم تاریخ',
+  'Data': 'ڈیٹا',
+  'New': 'نوٚو',
+  'Same': 'اکھۍ ہیوٚو',
+  'Different': 'مختلف',
+  'Only on this device': 'صرف یِمہٕ آلہٕ پیٹھ',
+  'Merge: add the backup to what is on this device': 'مِلٲوِو: بیک اپ یِمہٕ آلہٕ کِس ڈیٹاہس سۭتۍ شامل کٔرِو',
+  'Replace: make this device match the backup exactly': 'بدلٲوِو: یہ آلہ بنٲوِو بِلکُل بیک اپ ہیوٚو',
+  'Records and settings that are only on this device will be deleted.': 'یِم ریکارڈ تہٕ ترتیبات صرف یِمہٕ آلہٕ پیٹھ چھِ، تِم گژھن خارج۔',
+  '{count} records differ between this device and the backup': '{count} ریکارڈ چھِ یِمہٕ آلہٕ تہٕ بیک اپس منز مختلف',
+  'Keep the backup version': 'بیک اپُک ورژن تھٲوِو',
+  'Keep this device version': 'یِمہٕ آلہٕ ہُنٛد ورژن تھٲوِو',
+  'Record': 'ریکارڈ',
+  'Field': 'فیلڈ',
+  'This device': 'یہ آلہ',
+  'Backup': 'بیک اپ',
+  'Cancel': 'منسوخ کٔرِو',
+  'Restore': 'بحال کٔرِو',
+  'Production batches': 'پیداوٲری بیچ',
+  'Calendar tasks': 'کیلنڈرٕ کٲم',
+  'Feeding schedules': 'خوراکٕچ وقت سٲرنی',
+  'Feed stock': 'خوراکُک ذخیرٕ',
+  'Feeding history': 'خوراکٕچ تٲریخ',
+  'Ponds': 'تالاب',
+  'Custom species': 'پننہِ اقسام',
+  'The file is not valid JSON.': 'فائل چھِ نہٕ درست JSON۔',
+  'The file is not an Aquaculture Tools backup.': 'یہ فائل چھِ نہٕ Aquaculture Tools ہُنٛد بیک اپ۔',
+  'The backup was made by a newer version of the app. Update the app and try again.': 'یہ بیک اپ چھُ ایپہِ ہِندِ نٔوِس ورژنس سۭتۍ بنیومُت۔ ایپ اپ ڈیٹ کٔرِتھ کٔرِو دوبارٕ کوشش۔',
+  'The backup has no data section.': 'بیک اپس منز چھُ نہٕ ڈیٹاہُک حصہٕ۔',
+  'The settings section is not valid.': 'ترتیباتن ہُنٛد حصہٕ چھُ نہٕ درست۔',
+  'Ignore': 'ترٲوِو',
+  'Date (or date and time)': 'تاریخ (یا تاریخ تہٕ وقت)',
+  'Time': 'وقت',
+  'Pond': 'تالاب',
+  'Sampler': 'نمونہ ہیٛنہٕ وول',
+  'Notes': 'نوٹ',
+  'Day/Month/Year': 'دۄہ/رٮ۪تھ/ؤری',
+  'Month/Day/Year': 'رٮ۪تھ/دۄہ/ؤری',
+  'Year-Month-Day': 'ؤری-رٮ۪تھ-دۄہ',
+  'Choose file': 'فائل ژارِو',
+  'Map columns': 'کالم مِلٲوِو',
+  'Review': 'جایزٕ',
+  'Done': 'مکمل',
+  'Date is missing': 'تاریخ چھےٚ نہٕ',
+  'Cannot read the date "{value}"': 'تاریخ "{value}" ہیٚچھ نہٕ پٔرِتھ',
+  'Cannot read the time "{value}"': 'وقت "{value}" ہیوٚک نہٕ پٔرِتھ',
+  'No saved pond is named "{value}"': '"{value}" ناوُک کانٛہہ محفوظ تالاب چھُ نہٕ',
+  'No pond given': 'کانٛہہ تالاب چھُ نہٕ دِتمُت',
+  '{parameter}: "{value}" is not a number': '{parameter}: "{value}" چھُ نہٕ عدد',
+  '{parameter}: {value} {unit} is outside the possible range': '{parameter}: {value} {unit} چھُ ممکنہ حدٕ نیبر',
+  '{parameter}: "{value}" is a detection limit, stored as {limit}': '{parameter}: "{value}" چھےٚ شناختٕچ حد، {limit} کٔرِتھ محفوظ',
+  'No measured values': 'کانٛہہ مینٛنہٕ آمٕژ قدر چھےٚ نہٕ',
+  'Map a column to Date': 'کانٛہہ کالم تاریخ سۭتۍ مِلٲوِو',
+  'Map at least one water-quality parameter': 'کَم از کَم اکھ آبی معیارُک پیمانہٕ مِلٲوِو',
+  '{target} is mapped to more than one column': '{target} چھُ اکہٕ کھۄتہٕ زیادٕ کالمن سۭتۍ مِلاونہٕ آمُت',
+  'Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.': 'پرٲنۍ .xls ورک بُک چھِ نہٕ معاون۔ شیٹ کٔرِو .xlsx یا CSV کٔرِتھ محفوظ تہٕ کٔرِو دوبارٕ کوشش۔',
+  'The file needs a header row and at least one row of readings.': 'فائلس منز گژھہِ اکھ عنوانٕچ قطار تہٕ کَم از کَم اکھ ریڈنگٕچ قطار آسٕنۍ۔',
+  'The file could not be read.': 'فائل ہیٚچھ نہٕ پٔرِتھ۔',
+  'The readings could not be saved.': 'ریڈنگ ہیٚکہٕ نہٕ محفوظ سپدِتھ۔',
+  'Import Water-Quality Readings': 'آبی معیارٕچ ریڈنگ درآمد کٔرِو',
+  'Choose a CSV or Excel (.xlsx) file with one sample per row and a header row naming the columns, for example Date, Pond, DO (mg/L), Temp (°C), pH.': 'اَکھ CSV یا Excel (.xlsx) فائل ژارِو یتھ منز پرٛتھ قطارِ منز اکھ نمونہ آسہِ تہٕ اکھ عنوانٕچ قطار کالمن ہٕنٛد ناو وَنہِ، مثلاً Date, Pond, DO (mg/L), Temp (°C), pH۔',
+  '{file}: {rows} rows and {columns} columns': '{file}: {rows} قطارٕ تہٕ {columns} کالم',
+  'Add your ponds in the Pond Registry first; readings are stored per pond.': 'گۄڈٕ کٔرِو پنٕنۍ تالاب تالاب رجسٹری منز شامل؛ ریڈنگ چھِ پرٛتھ تالابہٕ خٲطرٕ محفوظ سپدان۔',
+  'Used for rows without a pond column': 'تِمن قطارن خٲطرٕ یِمن منز تالابُک کالم چھُ نہٕ',
+  'Used for rows without a sampler column': 'تِمن قطارن خٲطرٕ یِمن منز نمونہ ہیٛنہٕ والیُک کالم چھُ نہٕ',
+  'Column': 'کالم',
+  'Sample values': 'نمونہ قدرٕ',
+  'Import as': 'یِتھٕ پٲٹھۍ درآمد',
+  'Unit': 'اِکٲیی',
+  'Column {number}': 'کالم {number}',
+  'Date format': 'تاریخُک طرز',
+  'Decimal separator': 'اعشاری نشان',
+  'Point (7.5)': 'نُقطہ (7.5)',
+  'Comma (7,5)': 'کاما (7,5)',
+  'The numbers in the file do not settle the separator; check it': 'فائلہِ ہٕندۍ اعداد چھِنہٕ نشان طے کران؛ یہ وُچھِو',
+  'Detected from the numbers in the file': 'فائلہِ ہٕندٮ۪و اعدادو منزٕ پرٛزنوومُت',
+  '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}': '{parameter}: "{value}" چھُ نُقطہ یا کاما اعشاری نشانہٕ سٕتۍ بیون پرنہٕ یِوان، {number} کِتھ محفوظ',
+  'Every date in the file reads both ways; check the order': 'فائلہِ ہنٛز پرٛتھ تاریخ ہیٚکہِ دۄشوٕنی طرفہٕ پٔرِتھ؛ ترتیب وُچھِو',
+  'Detected from the dates in the file': 'فائلہِ ہنٛزن تاریخن منزٕ پرٛزنوومُت',
+  'Map a Pond column or choose a pond in the previous step.': 'تالابُک کالم مِلٲوِو یا پٔتِمِس مرحلس منز تالاب ژارِو۔',
+  '{count} ready to import': '{count} درآمدٕ خٲطرٕ تیار',
+  '{count} with errors': '{count} منز غلطی',
+  '{count} already saved': '{count} گۄڈے محفوظ',
+  'Show only rows with problems': 'صرف مسلہٕ والٕنۍ قطارٕ ہاوِو',
+  'Row': 'قطار',
+  'Date': 'تاریخ',
+  'Problems': 'مسلہٕ',
+  'Already saved for this pond and time; skipped': 'یِمہٕ تالابہٕ تہٕ وقتہٕ خٲطرٕ گۄڈے محفوظ؛ ترٲوِتھ',
+  'Showing the first {count} rows.': 'گۄڈنیٚکۍ {count} قطارٕ چھِ ہاونہٕ یِوان۔',
+  '{count} readings imported.': '{count} ریڈنگ گٲیہ درآمد۔',
+  'Parameter': 'پیمانہٕ',
+  'Close': 'بند کٔرِو',
+  'Back': 'پَتھ',
+  'Next': 'برونٛہہ',
+  'Import {count} readings': '{count} ریڈنگ درآمد کٔرِو',
+  '{count} saved readings. Showing the latest, taken {date}.': '{count} محفوظ ریڈنگ۔ {date} ہٕنٛز تازٕ ریڈنگ چھےٚ ہاونہٕ یِوان۔',
+  'No saved readings for this pond yet.': 'یِمہٕ تالابُک چھُ نہٕ وۄنۍ تام کانٛہہ محفوظ ریڈنگ۔',
+  'Import readings': 'ریڈنگ درآمد کٔرِو',
+  'Water-quality readings': 'آبی معیارٕچ ریڈنگ',
+  'Water Quality History': 'آبی معیارٕچ تاریخ',
+  'Trends, statistics and pond-by-pond comparison of every saved water-quality reading. Shaded bands mark the optimal (green), warning (amber) and critical (red) ranges.': 'پرٛتھ محفوظ آبی معیار ریڈنگُک رجحان، اعداد و شمار تہٕ تالاب وار مقابلہ۔ سایہٕ دار پٹیہٕ ہاوان بہترین (سبز)، خبردار (کہربائی) تہٕ نازک (ۄزُل) حد۔',
+  'Parameters': 'پیرامیٹر',
+  'Period': 'مدت',
+  'Leave empty to compare every pond with readings': 'ریڈنگ وٲلۍ سٲری تالاب مقابلہٕ خٲطرٕ خٲلی ترٲوِو',
+  'Last 7 days': 'پٔتِم 7 دۄہ',
+  'Last 30 days': 'پٔتِم 30 دۄہ',
+  'Last 90 days': 'پٔتِم 90 دۄہ',
+  'Last 12 months': 'پٔتِم 12 رٮ۪تھ',
+  'All readings': 'سٲری ریڈنگ',
+  'No readings in this period.': 'یِمہِ مدتس منٛز چھُ نہٕ کانٛہہ ریڈنگ۔',
+  'Record or import readings in the Water Quality Monitor.': 'آبی معیار مانیٹرس منٛز ریڈنگ درج یا درآمد کٔرِو۔',
+  'None of the chosen parameters were measured in this period.': 'یِمہِ مدتس منٛز آو نہٕ کانٛہہ ژارنہٕ آمت پیرامیٹر ناپنہٕ۔',
+  'Deleted pond': 'ہٹاونہٕ آمت تالاب',
+  'Statistics': 'اعداد و شمار',
+  'Readings': 'ریڈنگ',
+  'Min': 'کم از کم',
+  'Mean': 'اوسط',
+  'Max': 'زیادٕ کھوتہٕ زیادٕ',
+  'Latest': 'تازٕ',
+  'Taken': 'نیومُت',
+  'Values': 'قدر',
+  'Delete': 'ہٹٲوِو',
+  'Showing the latest {count} of {total} readings.': '{total} منٛزٕ تازٕ {count} ریڈنگ چھےٚ ہاونہٕ یِوان۔',
+  'History': 'تاریخ',
+  'Sampled at': 'نمونہٕ ہیونُک وَکھ',
+  'Choose a pond to keep readings in its history.': 'ریڈنگ تاریخس منٛز تھاونہٕ خٲطرٕ تالاب ژٲرِو۔',
+  'Trend Window': 'رجحانٕچ مدت',
+  'Readings fitted for trends and projections': 'رجحان تہٕ اندازن خٲطرٕ ورتاونہٕ آمٕژ ریڈنگ',
+  'Last 24 hours': 'پٔتِم 24 گٲنٹہٕ',
+  'Last 3 days': 'پٔتِم 3 دۄہ',
+  'Chloride': 'کلورائیڈ',
+  'Salinity (ppt)': 'نمکیات (ppt)',
+  'Protects fish against nitrite': 'گاڑن چھُ نائٹرائٹ نِشہِ بچاوان',
+  'Un-ionized NH₃: {value} mg/L ({percent}% of total ammonia)': 'غیر آئنی NH₃: {value} mg/L (کُل امونیاہُک {percent}%)',
+  'Enter pH and temperature to judge the toxic NH₃ share.': 'زہریلہ NH₃ حصہٕ پرکھنہٕ خٲطرٕ pH تہٕ درجہ حرارت درج کٔرِو۔',
+  'Chloride to nitrite ratio: {ratio}:1': 'کلورائیڈ تہٕ نائٹرائٹُک تناسب: {ratio}:1',
+  'Enter chloride or salinity to judge nitrite toxicity.': 'نائٹرائٹُک زہر پرکھنہٕ خٲطرٕ کلورائیڈ یا نمکیات درج کٔرِو۔',
+  'Add salt to keep at least 10 parts chloride per part nitrite': 'پرٛتھ حصہٕ نائٹرائٹس کم از کم 10 حصہٕ کلورائیڈ تھاونہٕ خٲطرٕ نُون ترٲوِو',
+  'Check source water chloride before adding salt': 'نُون ترٲونہٕ برٛونٹھ منبع آبُک کلورائیڈ جانچِو',
+  'Retest after heavy rain or water exchange': 'زور روٗد یا آب بدلاونہٕ پتہٕ دوبارٕ جانچِو',
+  'Farm Site': 'فارمٕچ جاے',
+  'Elevation': 'اوٚچائی',
+  'Height above sea level; thinner air holds less oxygen in the water': 'سمندرٕ سطحہِ پؠٹھٕ اوٚچائی؛ لۄتہِ ہوا منٛز چھُ آب کم آکسیجن رَٹان',
+  'Barometric Pressure (kPa)': 'ہوا دباو (kPa)',
+  'Leave empty to use {pressure} kPa, the standard pressure at this elevation': 'یِمہِ اوٚچائی ہُک معیٲری دباو {pressure} kPa ورتاونہٕ خٲطرٕ خٲلی ترٲوِو',
+  'Fresh water at 25 °C holds {saturation} mg/L of oxygen at saturation here.': 'یتھ جایہِ چھُ 25 °C پؠٹھ مۆدُر آب سیرابی پؠٹھ {saturation} mg/L آکسیجن رَٹان۔',
+  '{percent}% of saturation ({saturation} mg/L at this site)': 'سیرابی ہُک {percent}% (یتھ جایہِ {saturation} mg/L)',
+  'Enter temperature to see percent saturation.': 'سیرابی ہُند فیصد وُچھنہٕ خٲطرٕ درجہ حرارت درج کٔرِو۔',
+  'Night Oxygen Forecast': 'راتُک آکسیجن پیشن گوئی',
+  'Simulates dissolved oxygen hour by hour from dusk to dawn, when fish, plankton and pond mud consume oxygen and nothing produces it, and finds the latest time to start the aerators.': 'شامہٕ پؠٹھہٕ صُبحس تام گٲنٛٹہٕ بہٕ گٲنٛٹہٕ حل شُدہ آکسیجن ہٕنز نقل کران، ییٚلہِ گاڑ، پلینکٹن تہٕ تالابُک مٔٹ آکسیجن خرچ کران چھِ تہٕ کانٛہہ چیز چھُنہٕ یہِ بناوان، تہٕ ایریٹر چلاونُک آخری وقت کڈان۔',
+  'Minimum Safe Oxygen': 'کَم کھوتہٕ کَم محفوظ آکسیجن',
+  'Dissolved Oxygen at Dusk': 'شامہٕ وِزِ حل شُدہ آکسیجن',
+  'Pond Area': 'تالابُک رقبہ',
+  'Average Depth': 'اوسط گہرٲیی',
+  'Fish Biomass': 'گاڑن ہُند بایوماس',
+  'Filled from the pond\'s active batches': 'تالابٕچ فعال بیچو منٛز بٔرِتھ',
+  'Secchi Depth': 'سیکی گہرٲیی',
+  'Shallower readings mean a denser plankton bloom': 'کَم گہرٲیی ہُند مطلب چھُ گَنہٕ پلینکٹن بلوم',
+  'Sediment Oxygen Demand (g O₂/m²/day)': 'تَلچھٹ آکسیجن مانٛگ (g O₂/m²/دۄہ)',
+  'About 1 for a typical earthen pond, 2-3 with heavy organic mud': 'عام مٔٹہٕ تالابس خٲطرٕ لگ بگ 1، زیادٕ نامیاتی چِکہِ سٕتؠ 2-3',
+  'Night Wind Speed': 'راتُک ہوا رفتار',
+  'Number of Aerators': 'ایریٹرن ہُند تعداد',
+  'Filled from the pond\'s Aeration Calculator result': 'تالابُک ایریشن کیلکولیٹر نتیجہٕ منٛز بٔرِتھ',
+  'Aerator Output (kg O₂/hour each)': 'ایریٹر آؤٹ پُٹ (kg O₂/گٲنٛٹہٕ پرٛتھ اَکھ)',
+  'Leave empty for fresh water': 'مۆدُر آبس خٲطرٕ خٲلی ترٲوِو',
+  'Dusk': 'شام',
+  'Dawn': 'صُبح',
+  'Site pressure {pressure} kPa, from the elevation in Settings.': 'جایہِ ہُند دباو {pressure} kPa، ترتیباتن منٛز اوٚچائی پؠٹھہٕ۔',
+  'Forecast Night Oxygen': 'راتُک آکسیجن پیشن گوئی کٔرِو',
+  'Oxygen stays above {threshold} mg/L all night; the lowest is {minimum} mg/L at {time}. No aeration needed.': 'پوٗرٕ رات چھُ آکسیجن {threshold} mg/L کھوتہٕ ہؠور روزان؛ سارِوٕے کھوتہٕ کَم {time} پؠٹھ {minimum} mg/L۔ ایریشنٕچ ضرورت چھَنہٕ۔',
+  'Oxygen falls below {threshold} mg/L at {time} and the aerators cannot hold it even if started at dusk (lowest {aerated} mg/L). Add aeration, cut feeding or reduce the stock.': '{time} پؠٹھ چھُ آکسیجن {threshold} mg/L کھوتہٕ بۄن گژھان تہٕ شامہٕ پؠٹھہٕ چلاونہٕ سٕتؠ تہِ ہیٚکن نہٕ ایریٹر یہِ رۆکِتھ (کَم کھوتہٕ کَم {aerated} mg/L)۔ ایریشن بڑٲوِو، خوراک کَم کٔرِو یا اسٹاک گھٹٲوِو۔',
+  'Without aeration oxygen falls below {threshold} mg/L at {time}, reaching {minimum} mg/L by {minimumTime}. Start the aerators by {start}.': 'ایریشن وَرٲے چھُ {time} پؠٹھ آکسیجن {threshold} mg/L کھوتہٕ بۄن گژھان تہٕ {minimumTime} تام {minimum} mg/L واتان۔ ایریٹر {start} تام چلٲوِو۔',
+  'Without aeration': 'ایریشن وَرٲے',
+  'With aerators': 'ایریٹرن سٕتؠ',
+  'Oxygen Budget': 'آکسیجن بجٹ',
+  'Saturation': 'سیرابی',
+  'Fish respiration': 'گاڑن ہُند تنفس',
+  'Plankton respiration': 'پلینکٹنُک تنفس',
+  'Sediment demand': 'تَلچھٹ مانٛگ',
+  'Total consumption': 'کُل خرچ',
+  'Measure dissolved oxygen and Secchi depth around sunset for the best forecast.': 'بہترین پیشن گوئی خٲطرٕ شامہٕ نِش حل شُدہ آکسیجن تہٕ سیکی گہرٲیی مِنِو۔',
+  'Sensors': 'سینسر',
+  'Stream dissolved oxygen, temperature and pH from pond probes into the monitors and water-quality history.': 'تالابٕچن پروبو پؠٹھ حل شُدہ آکسیجن، درجہ حرارت تہٕ pH سیدٕ مانیٹرن تہٕ آبہٕ کِس معیارٕچ تٲریخس منز سوزِو۔',
+  'MQTT broker': 'MQTT بروکر',
+  'Off': 'بنٛد',
+  'Connecting': 'جُڑان',
+  'Connected': 'جُڑمُت',
+  'Disconnected': 'منقطع',
+  'Error': 'غلطی',
+  'Connect': 'جوڑِو',
+  'Broker WebSocket URL': 'بروکر WebSocket URL',
+  'Client ID': 'کلائنٹ ID',
+  'Leave blank for a random ID': 'بےترتیب ID خٲطرٕ خٲلی ترٲوِو',
+  'Username': 'یوزر ناو',
+  'Password': 'پاس ورڈ',
+  'Kept on this device only, never in backups': 'صرف یتھ آلس پؠٹھ تھاونہٕ یِوان، بیک اپس منز زانٛہہ نہٕ',
+  'Save to history every (minutes)': 'تٲریخس منز پرٛتھ (منٹ) محفوظ کٔرِو',
+  '0 shows live values without saving them. Simulated values are never saved': '0 ہاوان براہِ راست قدرٕ بغیر محفوظ کرنہٕ۔ مصنوعی قدرٕ چھُنہٕ زانٛہہ محفوظ گژھان',
+  'Devices': 'آلات',
+  'Add Device': 'آلہ شٲمِل کٔرِو',
+  'Edit Device': 'آلس منز ترمیم کٔرِو',
+  'No devices yet. Add a simulated probe to try live readings without hardware.': 'وُنی تام کانٛہہ آلہ نہٕ۔ ہارڈویئرٕ بغیر براہِ راست ریڈنگ آزماونہٕ خٲطرٕ مصنوعی پروب شٲمِل کٔرِو۔',
+  'Name': 'ناو',
+  'Source': 'ماخذ',
+  'Latest values': 'تازٕ ترین قدرٕ',
+  'Actions': 'اقدامات',
+  'Last reading {date}': 'آخری ریڈنگ {date}',
+  'Publishes to {topic}': '{topic} پؠٹھ شایع کران',
+  'No pond': 'کانٛہہ تالاب نہٕ',
+  'Sensor': 'سینسر',
+  'Waiting': 'انتظار',
+  'Live': 'براہِ راست',
+  'Stale': 'پرون',
+  'HTTP polling': 'HTTP پولنگ',
+  'Simulator': 'سمیولیٹر',
+  'Connection': 'کنکشن',
+  'Topic': 'ٹاپک',
+  'MQTT topic filter; + matches one level and # the rest': 'MQTT ٹاپک فلٹر؛ + اکھ سطح تہٕ # باقی سٲری میلان',
+  'Optional. Also publish simulated readings here when the broker is connected': 'اختیٲری۔ بروکر جُڑِتھ آسنہٕ وِزِ مصنوعی ریڈنگ یتیٚتھ تہِ شایع کٔرِو',
+  'URL': 'URL',
+  'Returns the latest reading as JSON; the server must allow cross-origin requests': 'تازٕ ترین ریڈنگ JSON شکلہِ منز واپس دِوان؛ سرورس پزِ کراس اوریجن درخواستن ہٕنز اجازت دِنۍ',
+  'Interval (seconds)': 'وقفہ (سیکنڈ)',
+  'Stale after (minutes)': 'یِمن (منٹن) پتہٕ پرون',
+  'Flag the device when no reading arrives for this long': 'یوت کال کانٛہہ ریڈنگ نہٕ یِنہٕ پؠٹھ آلس نشان لٲگِو',
+  'Calibration offsets': 'کیلیبریشن آفسیٹ',
+  'Added to every raw value, e.g. -0.15 when the probe reads pH 0.15 high against a reference.': 'پرٛتھ خام قدرس منز جمع کرنہٕ یِوان، مثلاً حوالس مقابلہٕ پروب pH 0.15 زیادٕ پرِ تیلہِ -0.15۔',
+  'Save': 'محفوظ کٔرِو',
+  'Devices may send JSON such as {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}, or a bare number on a topic ending in the parameter name, e.g. farm/pond-1/do. Values are read in mg/L and °C.': 'آلات ہیٚکن {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000} ہیو JSON سوزِتھ، یا پیرامیٹرٕ کِس ناوس پؠٹھ ختم گژھن وٲلِس ٹاپکس پؠٹھ صرف اکھ عدد، مثلاً farm/pond-1/do۔ قدرٕ چھِ mg/L تہٕ °C منز پرنہٕ یِوان۔',
+  'Waiting for the first reading from this pond\'s sensors.': 'یَتھ تالابٕکِس سینسرو پؠٹھ گۄڈنِچ ریڈنگ ہُنٛد انتظار۔',
+  'Live sensor values': 'براہِ راست سینسر قدرٕ',
+  'Measured {date}': '{date} مِنہٕ آمٕت',
+  'No recent reading from {devices}. Check the probe, its power and its connection.': '{devices} پؠٹھ کانٛہہ حالیہ ریڈنگ نہٕ۔ پروب، تمۍ سُنٛد بجلی تہٕ کنکشن چیک کٔرِو۔',
+  'Use live values': 'براہِ راست قدرٕ استعمال کٔرِو',
+  'Follow live': 'براہِ راست سٟتۍ پَکِو',
+  'Could not read any values from the last message': 'آخری پیغامہٕ منز ہیٚچ نہٕ کانٛہہ قدر پٔرِتھ',
+  'All ponds': 'سٲری تالاب',
+  'Quantity at or below the item minimum': 'مقدار چیزٕ کِس کَم از کَم حدس پؠٹھ یا تمہِ کھۄتہٕ کَم',
+  'Pending more than {days} days past its date': 'پننہِ تٲریخہِ پتہٕ {days} دۄہن کھۄتہٕ زیادٕ التوا منز',
+  'for {minutes} min': '{minutes} منٹ تام',
+  'Cleared {date}': '{date} ختم',
+  'Acknowledged': 'تسلیم کوٚر',
+  'Snoozed until {date}': '{date} تام مؤخر',
+  'Open': 'کھُلہٕ',
+  'Alert Rules': 'الرٹ قاعدٕ',
+  'Add Rule': 'قاعدٕ شٲمِل کٔرِو',
+  'Edit Rule': 'قاعدس منز ترمیم کٔرِو',
+  'Rules are checked against saved readings, live sensor values, inventory and the production calendar. Alerts appear under the bell at the top of the page.': 'قاعدٕ چھِ محفوظ ریڈنگن، براہِ راست سینسر قدرن، انوینٹری تہٕ پیداوٲری کیلنڈرس پؠٹھ جانچنہٕ یِوان۔ الرٹ چھِ صفحُک پؠٹھ گھنٹی تَل ہاونہٕ یِوان۔',
+  'No alert rules yet.': 'وُنی تام کانٛہہ الرٹ قاعدٕ نہٕ۔',
+  'Condition': 'شرط',
+  'Severity': 'شدت',
+  'Alert History': 'الرٹن ہٕنز تٲریخ',
+  'Open only': 'صرف کھُلہٕ',
+  'No alerts so far.': 'وُنی تام کانٛہہ الرٹ نہٕ۔',
+  'Raised': 'جٲری گوٚو',
+  'Alert': 'الرٹ',
+  'Audit trail': 'آڈٹ ریکارڈ',
+  'Acknowledge': 'تسلیم کٔرِو',
+  'Threshold': 'حد',
+  'Uses the minimum set on each inventory item.': 'پرٛتھ انوینٹری چیزِ پؠٹھ مقرر کَم از کَم حد استعمال کران۔',
+  'Leave blank to name the rule after its condition': 'قاعدس پننہِ شرطہِ ہُنٛد ناو دِنہٕ خٲطرٕ خٲلی ترٲوِو',
+  'Watch': 'نِگرٲنی',
+  'Pond (none for every pond)': 'تالاب (سٲرِنی تالابن خٲطرٕ کانٛہہ نہٕ)',
+  'When': 'کَر',
+  'For at least (minutes)': 'کَم از کَم (منٹ) تام',
+  'Readings must stay past the limit over this span; 0 alerts on the first reading': 'ریڈنگ پزِ یتھ پورٕ وقتس حدٕ نیبر روزٕنۍ؛ 0 گۄڈنیچ ریڈنگِ پؠٹھ الرٹ کران',
+  'Days overdue before alerting': 'الرٹ برونٛہہ تاخیرٕچ دۄہ',
+  'Alerts': 'الرٹ',
+  'Nothing needs attention.': 'کانٛہہ چیز چھُ نہٕ توجہ ضروری۔',
+  'Snooze': 'مؤخر کٔرِو',
+  'Alert rules and history': 'الرٹ قاعدٕ تہٕ تٲریخ',
+  '{hours} h': '{hours} گٲنٹہٕ',
+  'Low stock (at or below the item minimum)': 'کَم اسٹاک (چیزٕ کِس کَم از کَم حدس پؠٹھ یا کَم)',
+  'Overdue calendar tasks': 'تاخیر شُدہ کیلنڈر کٲم',
+  'Below': 'کھۄتہٕ کَم',
+  'Above': 'کھۄتہٕ زیادٕ',
+  'Info': 'معلومات',
+  '{parameter} in {pond} is {value} {unit}, below {threshold} {unit}': '{pond} منز {parameter} چھُ {value} {unit}، {threshold} {unit} کھۄتہٕ کَم',
+  '{parameter} in {pond} is {value} {unit}, above {threshold} {unit}': '{pond} منز {parameter} چھُ {value} {unit}، {threshold} {unit} کھۄتہٕ زیادٕ',
+  '{parameter} below {threshold} {unit}': '{parameter} {threshold} {unit} کھۄتہٕ کَم',
+  '{parameter} above {threshold} {unit}': '{parameter} {threshold} {unit} کھۄتہٕ زیادٕ',
+  '{item} is down to {quantity} {unit} (minimum {minimum} {unit})': '{item} چھُ کَم گٔژھِتھ {quantity} {unit} (کَم از کَم {minimum} {unit})',
+  '"{task}" is {days} days overdue': '"{task}" چھُ {days} دۄہ تاخیرس منز',
+  'Snoozed': 'مؤخر',
+  'Cleared': 'ختم',
+  'Low dissolved oxygen': 'کَم حل شُدہ آکسیجن',
+  'Dissolved oxygen below optimal': 'حل شُدہ آکسیجن بہترین کھۄتہٕ کَم',
+  'High water temperature': 'آبُک زیادٕ درجہ حرارت',
+  'Low pH': 'کَم pH',
+  'High pH': 'زیادٕ pH',
+  'High ammonia': 'زیادٕ امونیا',
+  'High nitrite': 'زیادٕ نائٹرائٹ',
+  'Low stock': 'کَم اسٹاک',
+  'Overdue task': 'تاخیر شُدہ کٲم',
+  'Custom ranges for {pond}': '{pond} خٲطرٕ پننہٕ حدٕ',
+  'Set limits for stock whose needs differ from its species, such as broodstock or hatchery tanks. Readings outside the acceptable limits are critical; parameters left off follow the species.': 'تمہِ اسٹاکہِ خٲطرٕ حدٕ مقرر کٔرِو یَمہِ ہٕنز ضرورت پننہِ نسلہِ نِشہِ الگ چھےٚ، یِتھہٕ پٲٹھۍ بروڈ اسٹاک یا ہیچری ٹینک۔ قابلِ قبول حدٕ نیبر ریڈنگ چھےٚ سنگین؛ بند پیرامیٹر چھِ نسلہِ مطابق۔',
+  'Custom': 'پننہٕ',
+  'Lowest acceptable': 'کَم از کَم قابلِ قبول',
+  'Optimal from': 'بہترین پؠٹھہٕ',
+  'Optimal to': 'بہترین تام',
+  'Highest acceptable': 'زیادٕ کھۄتہٕ زیادٕ قابلِ قبول',
+  'Limits must rise from lowest acceptable through the optimal range to highest acceptable: {parameters}': 'حدٕ گژھن کَم از کَم قابلِ قبولہٕ پؠٹھہٕ بہترین حدٕ ہتھ زیادٕ کھۄتہٕ زیادٕ قابلِ قبولس تام ہُرُن: {parameters}',
+  'Batch': 'بیچ',
+  'Life stage': 'زندگی ہُنٛد مرحلہ',
+  'Sets the ranges and the ammonia and nitrite toxicity limits': 'حدٕ تہٕ امونیا تہٕ نائٹرائٹ زہرٕچ حدٕ مقرر کران',
+  'Fry need more oxygen and cleaner water': 'فرائی چھِ زیادٕ آکسیجن تہٕ صاف آب ضروری',
+  'Ranges for {species}, {stage}.': '{species}، {stage} خٲطرٕ حدٕ۔',
+  'all stages': 'سٲری مرحلہ',
+  'Fry': 'فرائی',
+  'Fingerling': 'فنگرلنگ',
+  'Juvenile': 'نوجوان',
+  'Adult': 'بالغ',
+  'Generic warmwater ranges. Choose a species or batch for its own.': 'عام گرم آبُک حدٕ۔ پننہِ حدٕ خٲطرٕ نسل یا بیچ ژٲرِو۔',
+  '{count} parameters use custom ranges set for this pond.': '{count} پیرامیٹر چھِ یتھ تالابس خٲطرٕ مقرر پننہٕ حدٕ استعمال کران۔',
+  'Custom ranges': 'پننہٕ حدٕ',
+  'Pond range, optimal: {min}-{max} {unit}': 'تالابٕچ حد، بہترین: {min}-{max} {unit}',
+  'Water Balance': 'آبُک توازن',
+  'Pond Water Balance': 'تالابٕک آبُک توازن',
+  'Day-by-day water budget of a pond: rain and runoff in, evaporation and seepage out, with planned exchange, pumping and refills. Shows how the level moves, when to refill and how much water a cycle needs.': 'تالابُک دۄہ وار آبٕچ بجٹ: روٗد تہٕ بہاو اندر، بخارات تہٕ رساو نیبر، منصوبہ بند تبادلہ، پمپنگ تہٕ دوبارٕ بَرنہٕ سان۔ ہاوان زِ سطح کِتھہٕ پٲٹھۍ بدلان چھےٚ، کر بَرُن چھُ تہٕ اکِس چکرس کوتاه آب چھُ ضروری۔',
+  'Water Surface Area': 'آبٕچ سطحُک رقبہ',
+  'Current Depth': 'موجودٕ گہرٲے',
+  'Full Depth': 'پوٗرٕ گہرٲے',
+  'Spill level, and the level refills go back to': 'چھلکنٕچ سطح، تہٕ سُہ سطح یَتھ تام دوبارٕ بَرنہٕ یِوان چھُ',
+  'Minimum Depth': 'کَم از کَم گہرٲے',
+  'Filled from the stocked species': 'ذخیرٕ کٔرمژِ نسلہِ پؠٹھٕ بَرنہٕ آمُت',
+  'Refill At Depth': 'یتھ گہرٲیس پؠٹھ دوبارٕ بَرُن',
+  'Leave empty to plan no refills': 'دوبارٕ بَرنٕچ منصوبہ بندی نہٕ کرنہٕ خٲطرٕ خٲلی ترٲوِو',
+  'Evaporation': 'بخارات',
+  'Filled from the pond\'s Pond Evaporation result': 'تالابٕک تالاب بخاراتٕچ نتیجہِ پؠٹھٕ بَرنہٕ آمُت',
+  'Seepage': 'رساو',
+  'Estimated from the pond\'s soil and liner': 'تالابٕچ مِژ تہٕ لائنرٕ پؠٹھٕ اندازٕ',
+  'Rainfall': 'روٗد',
+  'Average over the cycle': 'چکرُک اوسط',
+  'Catchment Area': 'آبگیر رقبہ',
+  'Land draining into the pond': 'زمین یَمِچ آب تالابس منز گژھان چھُ',
+  'Catchment Surface': 'آبگیر سطح',
+  'Water Exchange (% per day)': 'آبُک تبادلہ (% فی دۄہ)',
+  'Drained and replaced, so the level stays': 'کَڈنہٕ تہٕ بدلاونہٕ یِوان، تَوے روزان سطح برقرار',
+  'Pumped Inflow (m³/day)': 'پمپہٕ سٟتؠ آمد (m³/دۄہ)',
+  'Continuous topping up': 'مسلسل بَرُن',
+  'Cycle Length (days)': 'چکرٕچ مدت (دۄہ)',
+  'Start Date': 'شروعاتٕچ تٲریخ',
+  'Fill the pond to full depth at the start': 'شروعاتس منز تالاب پوٗرٕ گہرٲیس تام بٔرِو',
+  'Calculate Water Balance': 'آبُک توازن شمار کٔرِو',
+  'Inflows match or exceed losses; the level holds without refills.': 'آمد چھےٚ نقصانس برابر یا زیادٕ؛ سطح روزان دوبارٕ بَرنہٕ ورٲے برقرار۔',
+  'The pond already starts below the minimum depth.': 'تالاب چھُ گۄڈٕ پؠٹھٕ کَم از کَم گہرٲیہِ بۄن۔',
+  '{days} days until minimum depth: without refills the level falls {rate} mm/day and drops below {depth} on {date}.': 'کَم از کَم گہرٲیس تام {days} دۄہ: دوبارٕ بَرنہٕ ورٲے وسان سطح {rate} mm/دۄہ تہٕ {date} گژھان {depth} بۄن۔',
+  'Day {day}': 'دۄہ {day}',
+  'With refills': 'دوبارٕ بَرنہٕ سان',
+  'Without refills': 'دوبارٕ بَرنہٕ ورٲے',
+  'Daily Flows': 'دۄہ وار بہاو',
+  'Rain on the pond': 'تالابس پؠٹھ روٗد',
+  'Catchment runoff': 'آبگیرٕ پؠٹھٕ بہاو',
+  'Pumped inflow': 'پمپہٕ سٟتؠ آمد',
+  'Net change': 'خالص تبدیلی',
+  'Exchange (drained and replaced)': 'تبادلہ (کَڈِتھ تہٕ بدلٲوِتھ)',
+  'Refill Schedule': 'دوبارٕ بَرنٕچ شیڈول',
+  'No refills needed in this cycle.': 'یتھ چکرس منز چھُ نہٕ دوبارٕ بَرُن ضروری۔',
+  'Day': 'دۄہ',
+  'Volume': 'حجم',
+  'Water Demand per Cycle': 'فی چکر آبٕچ مانگ',
+  'Initial fill': 'ابتدٲیی بَرُن',
+  'Refills': 'دوبارٕ بَرُن',
+  'Water exchange': 'آبُک تبادلہ',
+  'Drained and refilled the same day, so it uses water but does not lower the level': 'تَتھی دۄہ کَڈنہٕ تہٕ بیٚیہِ بَرنہٕ یِوان، تَوے گَژھان آب مگر سطح چھُنہٕ وَسان',
+  'Total demand': 'کُل مانگ',
+  'Spilled over the outlet': 'نکاسہٕ پؠٹھٕ وٕتھ گوٚو',
+  'Enter the pond and its water flows to project the level over the cycle.': 'چکرس منز سطحُک اندازٕ لاگنہٕ خٲطرٕ تالاب تہٕ تمیُک آبُک بہاو درج کٔرِو۔',
+  'Forest or dense cover': 'جنگل یا گَنہٕ احاطہ',
+  'Grass or pasture': 'گاسہٕ یا چراگاہ',
+  'Cultivated fields': 'کاشت کٔرمژ زمین',
+  'Bare or compacted soil': 'ننگ یا سخت مِژ',
+  'Roofs and paved yards': 'چھتہٕ تہٕ پختہٕ آنگن',
+  'Latitude (°)': 'عرض بلد (°)',
+  'Negative south of the equator; sets day length for evaporation estimates': 'خطِ استوا کِس جنوبس منز منفی؛ بخاراتن ہٕندِس اندازس خٲطرٕ دۄہچ ڈیگر کران مقرر',
+  'Climate Station': 'موسمی اسٹیشن',
+  'District whose monthly normals prefill the weather inputs; also sets latitude and elevation': 'سُہ ضلع یُس ماہانہ معمول موسمٕچ اندراج بَران چھُ؛ عرض بلد تہٕ اوٚچائی تہِ کران مقرر',
+  'Edit or replace normals': 'معمول بدلٲوِو یا تبدیل کٔرِو',
+  'None': 'کانٛہہ نہٕ',
+  'Climate normals for {station}': '{station} ہٕند موسمی معمول',
+  'Delete station': 'اسٹیشن ژٹِو',
+  'Enter your own station\'s monthly means to replace the bundled district figures, or save them as a new station.': 'شٲمل ضلعی اعداد بدلاونہٕ خٲطرٕ پنٕنہِ اسٹیشنُک ماہانہ اوسط درج کٔرِو، یا تِم نٔوِس اسٹیشنس ہِو محفوظ کٔرِو۔',
+  'Every month needs a number for each value, and the station needs a name, latitude and elevation.': 'پرتھ رٮ۪تس منز پرتھ قدرٕ خٲطرٕ عدد ضروری، تہٕ اسٹیشنس ناو، عرض بلد تہٕ اوٚچائی ضروری۔',
+  'Month': 'رؠتھ',
+  'Reset to bundled normals': 'شٲمل معمولس پؠٹھ واپس کٔرِو',
+  'Save as new station': 'نٔوِس اسٹیشنس ہِو محفوظ کٔرِو',
+  'State': 'ریاست',
+  'Station Name': 'اسٹیشنُک ناو',
+  'Choose a climate station in': 'موسمی اسٹیشن ژارِو:',
+  'to prefill the weather from monthly normals.': 'تاکہ موسم ماہانہ معمولہٕ سٟتؠ بَرنہٕ یِیہِ۔',
+  'Weather prefilled from {station} normals; edit any value to override': 'موسم {station} ہٕندِ معمولہٕ سٟتؠ بَرنہٕ آمُت؛ بدلاونہٕ خٲطرٕ کانٛہہ تہِ قدر بدلٲوِو',
+  'Air Temperature (°C)': 'ہوا ہُنٛد درجہ حرارت (°C)',
+  'Daily Range (°C)': 'دۄہ وار فرق (°C)',
+  'Humidity (%)': 'نمی (%)',
+  'Rainfall (mm/month)': 'روٗد (mm/رؠتھ)',
+  'Sunshine (h/day)': 'تاپھ (گنٹہٕ/دۄہ)',
+  'Wind (km/h)': 'ہوا (km/h)',
+  'Climate stations': 'موسمی اسٹیشن',
+  'January': 'جنوری',
+  'February': 'فروری',
+  'March': 'مارچ',
+  'April': 'اپریل',
+  'May': 'مئی',
+  'June': 'جون',
+  'July': 'جولائی',
+  'August': 'اگست',
+  'September': 'ستمبر',
+  'October': 'اکتوبر',
+  'November': 'نومبر',
+  'December': 'دسمبر',
+  'Winter Ice Manager': 'وَندٕ شین منیجر',
+  'Estimates when a pond freezes and how thick the ice gets from freezing degree-days, how fast fish and pond mud use up the oxygen under the ice, what open water, aeration or inflow keeps it safe, and how far to cut feeding through the winter.': 'شین ڈِگری دۄہن نِشہِ اَندازٕ کران زِ پوکھٕر کر گَژھہِ شین تہٕ شین کوتاہ موٚٹ گَژھہِ، گاڑ تہٕ پوکھرُک گِل کوتاہ جلد شینہٕ تَل آکسیجن خرچ کران، کوتاہ کھۄلمُت آب، ہوا دِنہٕ یا آبٕچ آمد تھاوان محفوظ، تہٕ پوٗرِس وَندس منٛز کھٮ۪ن کوتاہ کَم کَرُن۔',
+  'Stock': 'اسٹاک',
+  'Growth Stage': 'بڑھنُک مرحلہ',
+  'Remove': 'ہٹٲوِو',
+  'Add species': 'قسم شامل کٔرِو',
+  'Winter Weather': 'وَندُک موسم',
+  'to prefill the monthly air temperatures.': 'تاکہ ماہانہ ہوا ہُنٛد درجہ حرارت برونٛہہ پیٹھ بَرنہٕ یِیہِ۔',
+  'Mean air temperature of each winter month': 'وَندٕکِس پرٛتھ رٮ۪تس ہُنٛد اوسط ہوا ہُنٛد درجہ حرارت',
+  'Winter Starts In': 'وَندٕ چھُ شروٗع گَژھان',
+  'Snow and Shelter': 'شین تہٕ آڑ',
+  'Windswept, no snow on the ice': 'تیز ہوا، شینس پیٹھ نٔو شین نہٕ',
+  'Some snow on the ice': 'شینس پیٹھ کینٛہہ نٔو شین',
+  'Deep snow or sheltered pond': 'گَہَن شین یا آڑٕ وول پوکھٕر',
+  'Water Temperature at Start': 'شروٗعاتس پٮ۪ٹھ آبُک درجہ حرارت',
+  'Leave empty to start from the air temperature': 'ہوا کِس درجہ حرارتس نِشہِ شروٗع کرنہٕ خٲطرٕ خٲلی ترٛٲوِو',
+  'Cold Snap': 'سرد لہر',
+  'Starts On': 'شروٗع گَژھنٕچ تاریخ',
+  'Leave empty for a normal winter': 'عام وَندٕ خٲطرٕ خٲلی ترٛٲوِو',
+  'Length (days)': 'مدت (دۄہ)',
+  'Colder Than Normal By (°C)': 'معمولس نِشہِ کوتاہ ژھۄکھ (°C)',
+  'Inflow Oxygen': 'یِنہٕ وٲلِس آبس منٛز آکسیجن',
+  'Spring or stream water that can be let in': 'ناگٕ یا نالٕک آب یُس اَندر ترٛاونہٕ ہیٚکہِ یِتھ',
+  'Over open water in the ice': 'شینس منٛز کھۄلمُتِس آبس پیٹھ',
+  'Wind Speed': 'ہوا ہٕنز رفتار',
+  'Forecast Winter Ice': 'وَندٕ شینُک پیشن گوئی کٔرِو',
+  'No ice expected: the daily mean air temperature does not fall below freezing once the pond has cooled to 4 °C.': 'شین ہُنٛد امکان نہٕ: پوکھرِ 4 °C تام ژھۄکھ گَژھنہٕ پتہٕ چھُ نہٕ روزانہ اوسط ہوا ہُنٛد درجہ حرارت شین بِندس تَل واتان۔',
+  'Ice from {date}, {days} days of cover in all, thickest {thickness} around {maxDate}.': '{date} پیٹھ شین، کُل {days} دۄہ شین ہُنٛد تہٕ، {maxDate} کِس آس پاس سارِوٕے کھوتہٕ موٚٹ {thickness}۔',
+  'The pond would freeze nearly to the bottom.': 'پوکھٕر گَژھہِ تقریباً تَلس تام شین۔',
+  'Under the ice oxygen falls below {threshold} mg/L on {date}, reaching {minimum} mg/L.': 'شینہٕ تَل چھِ آکسیجن {date} {threshold} mg/L نِشہِ تَل پیوان تہٕ {minimum} mg/L تام واتان۔',
+  'Oxygen stays above {threshold} mg/L under the ice; the lowest is {minimum} mg/L.': 'شینہٕ تَل چھِ آکسیجن {threshold} mg/L پیٹھ روزان؛ سارِوٕے کھوتہٕ کَم {minimum} mg/L۔',
+  'day': 'دۄہ',
+  'Air temperature (°C)': 'ہوا ہُنٛد درجہ حرارت (°C)',
+  'Ice (cm)': 'شین (cm)',
+  'Oxygen (mg/L)': 'آکسیجن (mg/L)',
+  'Keeping Oxygen Under Ice': 'شینہٕ تَل آکسیجن برقرار تھاوُن',
+  'Open water kept free of ice': 'شینہٕ روٚس تھوومُت کھۄلمُت آب',
+  'or aerators': 'یا ایریٹر',
+  'or a steady inflow of': 'یا آبٕچ لگاتار آمد',
+  'Open water alone cannot keep up: the pond surface is too small for its stock. Aerate or let in water.': 'صرف کھۄلمُت آب چھُ نہٕ کٲفی: پوکھرٕچ سطح چھےٚ اَمہِ کِس اسٹاکس خٲطرٕ واریاہ لۄکٕٹ۔ ہوا دِیِو یا آب ترٛٲوِو اَندر۔',
+  'Keep a hole open with a bubbler or surface agitator near the deep end; holes cut by hand refreeze overnight': 'گَہرِس طرفس نزدیک ببلر یا سطحی ایجیٹیٹرٕ سٟتؠ اکھ سوراخ کھۄلمُت تھٲوِو؛ اَتھٕ سٟتؠ ژٹمٕتؠ سوراخ گَژھن رٲژٕ رٲژٕ واپس شین',
+  'Run aerators gently under ice: mixing the whole pond chills the 4 °C bottom water the fish shelter in': 'شینہٕ تَل ایریٹر آہستہ چلٲوِو: پوٗرٕ پوکھٕر مِلاونہٕ سٟتؠ گَژھہِ تَلُک 4 °C آب ژھۄکھ یتھ منٛز گاڑ پناہ ہیٚوان چھِ',
+  'Sweep snow off part of the ice so light reaches the water': 'شینس کینٛہہ حصس پیٹھ نٔو شین ہٹٲوِو تاکہ گاشہٕ واتہِ آبس تام',
+  'Stop feeding and remove dead fish before oxygen falls; both add to the demand': 'آکسیجن پیونہٕ برونٛہہ کھٮ۪ن بند کٔرِو تہٕ مۄدمٕتؠ گاڑ کڈِو؛ دۄشوَے چھِ مانگ ہُرٲوان',
+  'Measure oxygen through a hole every two or three days and start aeration or inflow before the safe level': 'پرٛتھ زٕ ترٛےٚ دۄہ سوراخٕ ذریعہٕ آکسیجن مٔنِو تہٕ محفوظ سطحہِ برونٛہہ ہوا دِنہٕ یا آبٕچ آمد شروٗع کٔرِو',
+  'Raise the water level before freeze-up or move the stock to deeper ponds; ice will take over half the depth': 'شین گَژھنہٕ برونٛہہ آبٕچ سطح ہُرٲوِو یا اسٹاک گَہرٮ۪ن پوکھرن منٛز منتقل کٔرِو؛ شین ہیٚیہِ اَڑٕ کھوتہٕ زیادٕ گہرٲئی',
+  'The inflow holds too little oxygen to help; aerate it over a cascade or splash board first': 'یِنہٕ وٲلِس آبس منٛز چھےٚ واریاہ کَم آکسیجن؛ گۄڈٕ دِیِو اَتھ آبشار یا اسپلیش بورڈٕ سٟتؠ ہوا',
+  'Winter Feeding Schedule': 'وَندٕ کھٮ۪نٕچ شیڈول',
+  'Add a species to the stock for a feeding schedule.': 'کھٮ۪نٕچ شیڈول خٲطرٕ اسٹاکس منٛز اکھ قسم شامل کٔرِو۔',
+  'Week of': 'ہفتہ',
+  'Water (°C)': 'آب (°C)',
+  'Ice': 'شین',
+  'Normal ration': 'معمولٕچ کھٮ۪ن',
+  'Reduced ration': 'کَم کٔرمٕژ کھٮ۪ن',
+  'Maintenance ration on milder days': 'کَم ژھۄکھ دۄہن بُنیٲدی کھٮ۪ن',
+  'Stop feeding': 'کھٮ۪ن بند کٔرِو',
+  'Stop feeding until oxygen recovers': 'آکسیجن بحال گَژھنس تام کھٮ۪ن بند کٔرِو',
+  'Enter the pond, its stock and the winter air temperatures to forecast ice and under-ice oxygen.': 'شین تہٕ شینہٕ تَل آکسیجنٕچ پیشن گوئی خٲطرٕ پوکھٕر، تمیُک اسٹاک تہٕ وَندُک ہوا ہُنٛد درجہ حرارت درج کٔرِو۔',
+  'Between 10 and 5000': '10 تہٕ 5000 درمیان',
+};
+
+export default messages;
@@ -0,0 +1,851 @@
+import type { Messages } from '..';
+
+// Urdu messages, keyed by the English text.
+const messages: Messages = {
+  '💧 Water Management': '💧 پانی کا انتظام',
+  '🗺️ Pond Registry': '🗺️ تالاب رجسٹر',
+  'Register pond details': 'تالاب کی تفصیلات درج کریں',
+  '💧 Water Quality': '💧 پانی کا معیار',
+  'Monitor water parameters': 'پانی کے پیمانوں کی نگرانی',
+  '🌊 Water Quality Monitor': '🌊 پانی کے معیار کا مانیٹر',
+  'Advanced water monitoring': 'جدید پانی کی نگرانی',
+  '📉 Water Quality History': '📉 آبی معیار کی تاریخ',
+  'Trends and statistics per pond': 'ہر تالاب کے رجحانات اور اعداد و شمار',
+  '📊 Water Quality Predictor': '📊 پانی کے معیار کی پیش گوئی',
+  'Predict water parameters': 'پانی کے پیمانوں کی پیش گوئی',
+  '🌙 Night Oxygen Forecast': '🌙 رات کی آکسیجن کی پیش گوئی',
+  'Predict pre-dawn oxygen crashes': 'صبح سے پہلے آکسیجن کی کمی کی پیش گوئی',
+  '🧊 Winter Ice Manager': '🧊 سرمائی برف منیجر',
+  'Ice cover, under-ice oxygen and winter feeding': 'برف کی تہہ، برف کے نیچے آکسیجن اور سردیوں کی خوراک',
+  '📡 Sensors': '📡 سینسر',
+  'Live readings from pond probes': 'تالاب کے پروبز سے براہ راست ریڈنگ',
+  '💨 Pond Evaporation': '💨 تالاب کا بخارات',
+  'Calculate water loss': 'پانی کے نقصان کا حساب',
+  '🚰 Water Balance': '🚰 پانی کا توازن',
+  'Level projection, refills and water demand': 'سطح کا تخمینہ، دوبارہ بھرائی اور پانی کی طلب',
+  '🏊 Pond Sediment': '🏊 تالاب کی تلچھٹ',
+  'Manage sediment buildup': 'تلچھٹ کے جمع ہونے کا انتظام',
+  '🧪 Pond Liming': '🧪 تالاب میں چونا',
+  'Calculate lime requirements': 'چونے کی ضرورت کا حساب',
+  '🏗️ Pond Lining': '🏗️ تالاب کی لائننگ',
+  'Calculate lining costs': 'لائننگ کی لاگت کا حساب',
+  '🐟 Fish Management': '🐟 مچھلی کا انتظام',
+  '📚 Species Catalog': '📚 انواع کی فہرست',
+  'View and extend species data': 'انواع کا ڈیٹا دیکھیں اور بڑھائیں',
+  '🧺 Production Batches': '🧺 پیداواری بیچ',
+  'Track production cycles': 'پیداواری چکر کی نگرانی',
+  '📈 Growth Tracker': '📈 نشوونما ٹریکر',
+  'Track growth rates': 'نشوونما کی شرح کی نگرانی',
+  '📊 Growth Benchmark': '📊 نشوونما کا معیار',
+  'Compare growth rates': 'نشوونما کی شرحوں کا موازنہ',
+  '📈 Growth Predictor': '📈 نشوونما کی پیش گوئی',
+  'Predict fish growth': 'مچھلی کی نشوونما کی پیش گوئی',
+  '❤️ Fish Stress Monitor': '❤️ مچھلی کے دباؤ کا مانیٹر',
+  'Monitor fish stress levels': 'مچھلی کے دباؤ کی سطح کی نگرانی',
+  '🔢 Fish Calculator': '🔢 مچھلی کیلکولیٹر',
+  'Fish calculations': 'مچھلی کے حسابات',
+  '📊 Fish Stocking Calculator': '📊 مچھلی ذخیرہ کیلکولیٹر',
+  'Calculate stocking density': 'ذخیرہ کثافت کا حساب',
+  '⚖️ Fish Yield Calculator': '⚖️ مچھلی پیداوار کیلکولیٹر',
+  'Calculate fish yield': 'مچھلی کی پیداوار کا حساب',
+  '🍽️ Feed Management': '🍽️ خوراک کا انتظام',
+  'Optimize feeding': 'خوراک دینا بہتر بنائیں',
+  '🧮 FCR Calculator': '🧮 FCR کیلکولیٹر',
+  'Calculate feed conversion': 'خوراک کی تبدیلی کا حساب',
+  '⚡ FCR Optimizer': '⚡ FCR بہتر ساز',
+  'Optimize feed conversion': 'خوراک کی تبدیلی بہتر بنائیں',
+  '🍽️ Feeding Calculator': '🍽️ خوراک کیلکولیٹر',
+  'Calculate feeding amounts': 'خوراک کی مقدار کا حساب',
+  '🏥 Health Management': '🏥 صحت کا انتظام',
+  '🔬 Disease Prevention': '🔬 بیماری سے بچاؤ',
+  'Prevent diseases': 'بیماریوں سے بچاؤ',
+  '⚕️ Disease Risk Assessment': '⚕️ بیماری کے خطرے کا جائزہ',
+  'Assess disease risks': 'بیماری کے خطرات کا جائزہ لیں',
+  '♻️ Waste to Fertilizer': '♻️ فضلے سے کھاد',
+  'Convert waste to fertilizer': 'فضلے کو کھاد میں بدلیں',
+  '🌡️ Environment': '🌡️ ماحول',
+  '🌡️ Environmental Monitor': '🌡️ ماحولیاتی مانیٹر',
+  'Monitor environment': 'ماحول کی نگرانی',
+  '⚡ Energy Efficiency': '⚡ توانائی کی بچت',
+  'Optimize energy usage': 'توانائی کا استعمال بہتر بنائیں',
+  '🌤️ Weather Impact': '🌤️ موسم کا اثر',
+  'Analyze weather effects': 'موسم کے اثرات کا تجزیہ',
+  '💨 Aeration Calculator': '💨 ہوا رسانی کیلکولیٹر',
+  'Design aeration systems': 'ہوا رسانی کے نظام ڈیزائن کریں',
+  '📊 Business Tools': '📊 کاروباری اوزار',
+  '📈 Market Analysis': '📈 مارکیٹ کا تجزیہ',
+  'Analyze market trends': 'مارکیٹ کے رجحانات کا تجزیہ',
+  '💰 Profitability Calculator': '💰 منافع کیلکولیٹر',
+  'Calculate profits': 'منافع کا حساب',
+  '⏲️ Harvest Timing Advisor': '⏲️ فصل کی کٹائی کے وقت کا مشیر',
+  'Optimize harvest timing': 'کٹائی کا وقت بہتر بنائیں',
+  '📦 Inventory': '📦 انوینٹری',
+  'Manage stock': 'اسٹاک کا انتظام',
+  '📊 Reports': '📊 رپورٹس',
+  'Generate reports': 'رپورٹس تیار کریں',
+  '📅 Production Calendar': '📅 پیداواری کیلنڈر',
+  'Plan production': 'پیداوار کی منصوبہ بندی',
+  '⚙️ Preferences': '⚙️ ترجیحات',
+  '🔔 Alert Rules': '🔔 الرٹ قواعد',
+  'Limits, notifications and alert history': 'حدود، اطلاعات اور الرٹ کی تاریخ',
+  '⚙️ Settings': '⚙️ ترتیبات',
+  'Currency, units, language and backups': 'کرنسی، اکائیاں، زبان اور بیک اپ',
+  '🏠 Home': '🏠 ہوم',
+  'ℹ️ About': 'ℹ️ تعارف',
+  '👥 Our Team': '👥 ہماری ٹیم',
+  '📞 Contact Us': '📞 رابطہ کریں',
+  '🔒 Privacy Policy': '🔒 رازداری کی پالیسی',
+  '⚖️ Disclaimer': '⚖️ دستبرداری',
+  '🔍 Quick Links': '🔍 فوری روابط',
+  '👥 Company': '👥 کمپنی',
+  '📜 Legal': '📜 قانونی',
+  'Aquaculture Tools': 'آبی زراعت کے اوزار',
+  'Comprehensive suite of tools for modern aquaculture management': 'جدید آبی زراعت کے انتظام کے لیے اوزاروں کا مکمل مجموعہ',
+  'Home': 'ہوم',
+  'About': 'تعارف',
+  'All rights reserved.': 'جملہ حقوق محفوظ ہیں۔',
+  'Tools': 'اوزار',
+  'Language': 'زبان',
+  'Units': 'اکائیاں',
+  'Metric (m, kg, °C)': 'میٹرک (m, kg, °C)',
+  'Imperial (ft, lb, °F)': 'امپیریل (ft, lb, °F)',
+  'Feed Management': 'خوراک کا انتظام',
+  'Preferences': 'ترجیحات',
+  'Pond Registry': 'تالاب رجسٹر',
+  'Water Quality': 'پانی کا معیار',
+  'Water Quality Monitor': 'پانی کے معیار کا مانیٹر',
+  'Water Quality Predictor': 'پانی کے معیار کی پیش گوئی',
+  'Pond Evaporation': 'تالاب کا بخارات',
+  'Pond Sediment': 'تالاب کی تلچھٹ',
+  'Pond Liming': 'تالاب میں چونا',
+  'Pond Lining': 'تالاب کی لائننگ',
+  'Species Catalog': 'انواع کی فہرست',
+  'Production Batches': 'پیداواری بیچ',
+  'Growth Tracker': 'نشوونما ٹریکر',
+  'Growth Benchmark': 'نشوونما کا معیار',
+  'Growth Predictor': 'نشوونما کی پیش گوئی',
+  'Fish Stress Monitor': 'مچھلی کے دباؤ کا مانیٹر',
+  'Fish Calculator': 'مچھلی کیلکولیٹر',
+  'Fish Stocking Calculator': 'مچھلی ذخیرہ کیلکولیٹر',
+  'Fish Yield Calculator': 'مچھلی پیداوار کیلکولیٹر',
+  'FCR Calculator': 'FCR کیلکولیٹر',
+  'FCR Optimizer': 'FCR بہتر ساز',
+  'Feeding Calculator': 'خوراک کیلکولیٹر',
+  'Disease Prevention': 'بیماری سے بچاؤ',
+  'Disease Risk Assessment': 'بیماری کے خطرے کا جائزہ',
+  'Waste to Fertilizer': 'فضلے سے کھاد',
+  'Energy Efficiency': 'توانائی کی بچت',
+  'Weather Impact': 'موسم کا اثر',
+  'Aeration Calculator': 'ہوا رسانی کیلکولیٹر',
+  'Market Analysis': 'مارکیٹ کا تجزیہ',
+  'Profitability Calculator': 'منافع کیلکولیٹر',
+  'Harvest Timing Advisor': 'فصل کی کٹائی کے وقت کا مشیر',
+  'Inventory': 'انوینٹری',
+  'Reports': 'رپورٹس',
+  'Production Calendar': 'پیداواری کیلنڈر',
+  'Settings': 'ترتیبات',
+  'Choose how money and measurements are shown and the default prices every calculator starts from.': 'منتخب کریں کہ رقم اور پیمائشیں کیسے دکھائی جائیں اور ہر کیلکولیٹر کن طے شدہ قیمتوں سے شروع ہو۔',
+  'Changes are saved on this device straight away.': 'تبدیلیاں فوراً اسی آلے پر محفوظ ہو جاتی ہیں۔',
+  'Currency & Number Format': 'کرنسی اور نمبر کی شکل',
+  'Currency': 'کرنسی',
+  'Number Format': 'نمبر کی شکل',
+  'India formats group large amounts in lakh and crore': 'بھارتی شکلیں بڑی رقموں کو لاکھ اور کروڑ میں دکھاتی ہیں',
+  'Exchange Rate ({symbol} per US$)': 'شرح تبادلہ ({symbol} فی US$)',
+  'Converts built-in reference prices such as species market prices and liner costs': 'انواع کی مارکیٹ قیمتوں اور لائنر کی لاگت جیسی اندرونی حوالہ قیمتوں کو تبدیل کرتا ہے',
+  'Preview: {amount}': 'پیش منظر: {amount}',
+  'Default Prices': 'طے شدہ قیمتیں',
+  'Electricity Tariff ({symbol}/kWh)': 'بجلی کا نرخ ({symbol}/kWh)',
+  'Used for aerator and equipment running costs': 'ایریٹر اور آلات چلانے کی لاگت کے لیے استعمال ہوتا ہے',
+  'Labor ({symbol}/day)': 'مزدوری ({symbol}/دن)',
+  'Cost of one worker for one day': 'ایک مزدور کی ایک دن کی لاگت',
+  'Feed Price ({symbol}/kg)': 'خوراک کی قیمت ({symbol}/kg)',
+  'Used wherever a feed cost is estimated': 'جہاں بھی خوراک کی لاگت کا اندازہ لگایا جائے وہاں استعمال ہوتا ہے',
+  'Unit System': 'اکائی کا نظام',
+  'Individual fields can still be switched with their unit picker': 'الگ الگ خانے اب بھی اپنے اکائی منتخب کنندہ سے بدلے جا سکتے ہیں',
+  'Urdu and Kashmiri are shown right to left': 'اردو اور کشمیری دائیں سے بائیں دکھائی جاتی ہیں',
+  'Monitor and analyze your pond\'s water quality parameters': 'اپنے تالاب کے پانی کے معیار کے پیمانوں کی نگرانی اور تجزیہ کریں',
+  'Dissolved Oxygen': 'حل شدہ آکسیجن',
+  'Temperature': 'درجہ حرارت',
+  'Ammonia': 'امونیا',
+  'Nitrite': 'نائٹرائٹ',
+  'Nitrate': 'نائٹریٹ',
+  'Alkalinity': 'الکلائنٹی',
+  'Hardness': 'سختی',
+  'Salinity': 'نمکیات',
+  'Turbidity': 'گدلا پن',
+  'Phosphate': 'فاسفیٹ',
+  'Carbon Dioxide': 'کاربن ڈائی آکسائیڈ',
+  'Optimal: {min}-{max} {unit}': 'بہترین: {min}-{max} {unit}',
+  'Analyze Parameters': 'پیمانوں کا تجزیہ کریں',
+  'Overall Status: {status}': 'مجموعی حالت: {status}',
+  'Optimal': 'بہترین',
+  'Warning': 'انتباہ',
+  'Critical': 'سنگین',
+  'Immediate action required!': 'فوری کارروائی ضروری ہے!',
+  'Some parameters need attention.': 'کچھ پیمانوں پر توجہ کی ضرورت ہے۔',
+  'All parameters are within optimal range.': 'تمام پیمانے بہترین حد میں ہیں۔',
+  'Recommendations:': 'سفارشات:',
+  'Increase aeration if levels are low': 'سطح کم ہو تو ہوا رسانی بڑھائیں',
+  'Check stocking density if consistently low': 'مسلسل کم رہے تو ذخیرہ کثافت جانچیں',
+  'Monitor feeding rate if levels fluctuate': 'سطح اوپر نیچے ہو تو خوراک کی شرح پر نظر رکھیں',
+  'Use shading during hot periods': 'گرم دنوں میں سایہ استعمال کریں',
+  'Adjust feeding based on temperature': 'درجہ حرارت کے مطابق خوراک بدلیں',
+  'Consider water exchange in extreme conditions': 'شدید حالات میں پانی بدلنے پر غور کریں',
+  'Add lime if pH is low': 'pH کم ہو تو چونا ڈالیں',
+  'Check alkalinity levels': 'الکلائنٹی کی سطح جانچیں',
+  'Monitor after heavy rain': 'تیز بارش کے بعد نگرانی کریں',
+  'Reduce feeding if levels are high': 'سطح زیادہ ہو تو خوراک کم کریں',
+  'Increase water exchange': 'پانی کی تبدیلی بڑھائیں',
+  'Check biofilter efficiency': 'بایو فلٹر کی کارکردگی جانچیں',
+  'Add salt to reduce toxicity': 'زہریلا پن کم کرنے کے لیے نمک ڈالیں',
+  'Check nitrifying bacteria': 'نائٹریفائنگ بیکٹیریا جانچیں',
+  'Increase oxygenation': 'آکسیجن بڑھائیں',
+  'Regular water exchange': 'باقاعدہ پانی کی تبدیلی',
+  'Monitor plant growth': 'پودوں کی نشوونما پر نظر رکھیں',
+  'Check denitrification': 'ڈی نائٹریفکیشن جانچیں',
+  'Add buffer if low': 'کم ہو تو بفر ڈالیں',
+  'Check limestone addition': 'چونے کے پتھر کی مقدار جانچیں',
+  'Monitor pH stability': 'pH کے استحکام پر نظر رکھیں',
+  'Add calcium if low': 'کم ہو تو کیلشیم ڈالیں',
+  'Check mineral content': 'معدنیات کی مقدار جانچیں',
+  'Balance with alkalinity': 'الکلائنٹی کے ساتھ توازن رکھیں',
+  'Adjust based on species': 'نوع کے مطابق ترتیب دیں',
+  'Monitor after rain': 'بارش کے بعد نگرانی کریں',
+  'Check evaporation rate': 'بخارات کی شرح جانچیں',
+  'Use settling tanks': 'تہہ نشینی ٹینک استعمال کریں',
+  'Add mechanical filtration': 'مکینیکل فلٹریشن لگائیں',
+  'Check erosion sources': 'کٹاؤ کے ذرائع جانچیں',
+  'Control feed waste': 'خوراک کا ضیاع روکیں',
+  'Monitor algae growth': 'کائی کی نشوونما پر نظر رکھیں',
+  'Check fertilization rate': 'کھاد ڈالنے کی شرح جانچیں',
+  'Increase aeration': 'ہوا رسانی بڑھائیں',
+  'Check respiration rate': 'سانس کی شرح جانچیں',
+  'Monitor plant density': 'پودوں کی کثافت پر نظر رکھیں',
+  'Assess disease risks based on environmental parameters and fish behavior': 'ماحولیاتی پیمانوں اور مچھلی کے رویے کی بنیاد پر بیماری کے خطرات کا جائزہ لیں',
+  'Species': 'نوع',
+  'Water Temperature': 'پانی کا درجہ حرارت',
+  'Stocking Density': 'ذخیرہ کثافت',
+  'Feeding Rate (% biomass/day)': 'خوراک کی شرح (% بایوماس/دن)',
+  'Mortality Rate (%)': 'شرح اموات (%)',
+  'Fish Behavior': 'مچھلی کا رویہ',
+  'Observed Symptoms': 'مشاہدہ شدہ علامات',
+  'Risk Factors': 'خطرے کے عوامل',
+  'Analyze Risk': 'خطرے کا تجزیہ کریں',
+  'Risk Factors Analysis': 'خطرے کے عوامل کا تجزیہ',
+  'Risk Level': 'خطرے کی سطح',
+  'Factor': 'عامل',
+  'Status': 'حالت',
+  'Risk Score': 'خطرے کا اسکور',
+  'Oxygen': 'آکسیجن',
+  'Density': 'کثافت',
+  'Mortality': 'اموات',
+  'Behavior': 'رویہ',
+  'low': 'کم',
+  'medium': 'درمیانہ',
+  'high': 'زیادہ',
+  '{probability}% Risk': '{probability}% خطرہ',
+  'Common Symptoms:': 'عام علامات:',
+  'Preventive Measures:': 'احتیاطی تدابیر:',
+  'Recommended Treatments:': 'تجویز کردہ علاج:',
+  'White Spot Disease (Ich)': 'سفید دھبوں کی بیماری (اِک)',
+  'Bacterial Gill Disease': 'بیکٹیریل گلپھڑوں کی بیماری',
+  'Columnaris Disease': 'کالمنیرس کی بیماری',
+  'Saprolegniasis (Fungal Infection)': 'سیپرولیگنیاسس (پھپھوندی کا انفیکشن)',
+  'Aeromonas Infection': 'ایرومونس انفیکشن',
+  'Trichodiniasis': 'ٹرائیکوڈینیاسس',
+  'Streptococcosis': 'اسٹریپٹوکوکوسس',
+  'Lethargy': 'سستی',
+  'Erratic swimming': 'بے ترتیب تیرنا',
+  'Gasping at surface': 'سطح پر ہانپنا',
+  'Red/inflamed gills': 'سرخ/سوجے ہوئے گلپھڑے',
+  'Skin lesions': 'جلد پر زخم',
+  'White spots on skin': 'جلد پر سفید دھبے',
+  'Bloated abdomen': 'پھولا ہوا پیٹ',
+  'Fin rot': 'پنکھ کا گلنا',
+  'Color changes': 'رنگ میں تبدیلی',
+  'Excess mucus production': 'زیادہ بلغم بننا',
+  'Scale loss': 'چھلکوں کا گرنا',
+  'Pop-eye condition': 'ابھری ہوئی آنکھیں',
+  'Ulcers': 'ناسور',
+  'Hemorrhages': 'خون بہنا',
+  'Cotton-like growth': 'روئی جیسی بڑھوتری',
+  'Black/brown spots': 'سیاہ/بھورے دھبے',
+  'Rapid operculum movement': 'گلپھڑے کے ڈھکن کی تیز حرکت',
+  'Flashing behavior': 'رگڑنے کا رویہ',
+  'Tail/fin erosion': 'دم/پنکھ کا گھسنا',
+  'Body deformities': 'جسمانی بدصورتیاں',
+  'Rapid breathing': 'تیز سانس لینا',
+  'Dark body color': 'جسم کا گہرا رنگ',
+  'Quarantine new fish': 'نئی مچھلیوں کو الگ رکھیں',
+  'Maintain optimal water quality': 'پانی کا بہترین معیار برقرار رکھیں',
+  'Regular health monitoring': 'باقاعدہ صحت کی نگرانی',
+  'Maintain good water quality': 'پانی کا اچھا معیار برقرار رکھیں',
+  'Avoid overcrowding': 'زیادہ بھیڑ سے بچیں',
+  'Regular gill checks': 'گلپھڑوں کی باقاعدہ جانچ',
+  'Reduce stress factors': 'دباؤ کے عوامل کم کریں',
+  'Maintain clean environment': 'صاف ماحول برقرار رکھیں',
+  'Regular water changes': 'باقاعدگی سے پانی بدلیں',
+  'Avoid physical damage': 'جسمانی نقصان سے بچائیں',
+  'Maintain water quality': 'پانی کا معیار برقرار رکھیں',
+  'Proper handling': 'مناسب طریقے سے سنبھالیں',
+  'Good sanitation': 'اچھی صفائی',
+  'Stress reduction': 'دباؤ میں کمی',
+  'Regular health checks': 'باقاعدہ صحت کی جانچ',
+  'Regular water quality monitoring': 'پانی کے معیار کی باقاعدہ نگرانی',
+  'Maintain optimal water temperature': 'پانی کا بہترین درجہ حرارت برقرار رکھیں',
+  'Regular disinfection': 'باقاعدہ جراثیم کشی',
+  'Proper feed storage': 'خوراک کا مناسب ذخیرہ',
+  'Increase temperature to 30°C gradually': 'درجہ حرارت آہستہ آہستہ 30°C تک بڑھائیں',
+  'Salt treatment (0.15-0.3%)': 'نمک سے علاج (0.15-0.3%)',
+  'Commercial ich treatment': 'تجارتی اِک علاج',
+  'Formalin bath treatment': 'فارملین غسل سے علاج',
+  'Antibiotic treatment under veterinary guidance': 'ویٹرنری رہنمائی میں اینٹی بایوٹک علاج',
+  'Potassium permanganate bath': 'پوٹاشیم پرمینگنیٹ غسل',
+  'Improve aeration': 'ہوا رسانی بہتر بنائیں',
+  'Antibiotic treatment': 'اینٹی بایوٹک علاج',
+  'Salt bath treatment': 'نمک کے غسل سے علاج',
+  'Copper sulfate treatment': 'کاپر سلفیٹ سے علاج',
+  'Malachite green treatment': 'میلاکائٹ گرین سے علاج',
+  'Remove infected tissue': 'متاثرہ بافت ہٹائیں',
+  'Wound disinfection': 'زخم کی جراثیم کشی',
+  'Salt treatment (2-3%)': 'نمک سے علاج (2-3%)',
+  'Reduce feeding rate': 'خوراک کی شرح کم کریں',
+  'Optimize harvest timing based on growth, market conditions, and profitability': 'نشوونما، مارکیٹ کے حالات اور منافع کی بنیاد پر کٹائی کا وقت بہتر بنائیں',
+  'Initial Weight': 'ابتدائی وزن',
+  'Current Weight': 'موجودہ وزن',
+  'Target Weight': 'ہدف وزن',
+  'Stocking Date': 'ذخیرہ کرنے کی تاریخ',
+  'Growth Rate': 'نشوونما کی شرح',
+  'Feeding Rate (% biomass)': 'خوراک کی شرح (% بایوماس)',
+  'Survival Rate (%)': 'بقا کی شرح (%)',
+  'Market Price ({symbol}/kg)': 'مارکیٹ قیمت ({symbol}/kg)',
+  'Production Costs ({symbol}/day)': 'پیداواری لاگت ({symbol}/دن)',
+  'Seasonal Pricing': 'موسمی قیمت',
+  'Peak Season': 'عروج کا موسم',
+  'Off Season': 'غیر موسم',
+  'Normal': 'معمول',
+  'Festival Season': 'تہواروں کا موسم',
+  'Excellent': 'بہترین',
+  'Good': 'اچھا',
+  'Fair': 'مناسب',
+  'Poor': 'خراب',
+  'Harvest Timing Analysis': 'کٹائی کے وقت کا تجزیہ',
+  'Optimal Harvest Date': 'کٹائی کی بہترین تاریخ',
+  'Days to Harvest': 'کٹائی تک دن',
+  'Expected Weight': 'متوقع وزن',
+  'Confidence Level': 'اعتماد کی سطح',
+  'Economic Projection': 'معاشی تخمینہ',
+  'Expected Revenue': 'متوقع آمدنی',
+  'Production Cost': 'پیداواری لاگت',
+  'Projected Profit': 'متوقع منافع',
+  'Price Variation': 'قیمت میں اتار چڑھاؤ',
+  'Growth and Profit Projection': 'نشوونما اور منافع کا تخمینہ',
+  'Weeks': 'ہفتے',
+  'Weight (g)': 'وزن (g)',
+  'Profit ({symbol})': 'منافع ({symbol})',
+  'Risk Assessment': 'خطرے کا جائزہ',
+  'Risk Factor': 'خطرے کا عامل',
+  'Level': 'سطح',
+  'Impact': 'اثر',
+  'Recommendations': 'سفارشات',
+  'Market Price': 'مارکیٹ قیمت',
+  'May slow growth rate and affect survival': 'نشوونما سست اور بقا متاثر ہو سکتی ہے',
+  'Below optimal growth rate for species': 'نوع کے لیے بہترین شرح نشوونما سے کم',
+  'Lower prices during off-season': 'غیر موسم میں کم قیمتیں',
+  'Consider improving water quality before harvest': 'کٹائی سے پہلے پانی کا معیار بہتر بنانے پر غور کریں',
+  'Monitor growth rate more frequently': 'نشوونما کی شرح کی زیادہ کثرت سے نگرانی کریں',
+  'Evaluate possibility of extending culture period to reach peak season': 'عروج کے موسم تک پہنچنے کے لیے پرورش کی مدت بڑھانے کا امکان دیکھیں',
+  'Consider partial harvesting strategy': 'جزوی کٹائی کی حکمت عملی پر غور کریں',
+  'Review production costs and feeding strategy': 'پیداواری لاگت اور خوراک کی حکمت عملی کا جائزہ لیں',
+  'Consider alternative market channels': 'متبادل مارکیٹ ذرائع پر غور کریں',
+  'Optimal harvest window: {date} (±{days} days)': 'کٹائی کا بہترین وقت: {date} (±{days} دن)',
+  'Online': 'آن لائن',
+  'Offline': 'آف لائن',
+  'Connected. Everything is also saved on this device.': 'رابطہ قائم ہے۔ سب کچھ اس آلے پر بھی محفوظ ہوتا ہے۔',
+  'No connection. The app keeps working and saves on this device.': 'کوئی رابطہ نہیں۔ ایپ کام کرتی رہے گی اور اس آلے پر محفوظ کرے گی۔',
+  'Not backed up': 'بیک اپ نہیں ہوا',
+  'Latest changes ({date}) are not backed up yet': 'حالیہ تبدیلیوں ({date}) کا ابھی بیک اپ نہیں ہوا',
+  'Backup & Restore': 'بیک اپ اور بحالی',
+  'Save every pond, batch, record and setting to one file, or bring them back from a file saved earlier on this or another device.': 'ہر تالاب، بیچ، ریکارڈ اور ترتیب ایک فائل میں محفوظ کریں، یا اس یا کسی دوسرے آلے پر پہلے محفوظ کی گئی فائل سے واپس لائیں۔',
+  'Download backup': 'بیک اپ ڈاؤن لوڈ کریں',
+  'Restore from file': 'فائل سے بحال کریں',
+  'Last backup: {date}': 'آخری بیک اپ: {date}',
+  'No backup downloaded yet': 'ابھی تک کوئی بیک اپ ڈاؤن لوڈ نہیں ہوا',
+  '…and {count} more problems': '…اور {count} مزید مسائل',
+  'The backup could not be created.': 'بیک اپ نہیں بن سکا۔',
+  'The backup could not be compared with the data on this device.': 'بیک اپ کا اس آلے کے ڈیٹا سے موازنہ نہیں ہو سکا۔',
+  'Backup restored.': 'بیک اپ بحال ہو گیا۔',
+  'The backup could not be restored.': 'بیک اپ بحال نہیں ہو سکا۔',
+  'Restore Backup': 'بیک اپ بحال کریں',
+  'Backup from {date}': '{date} کا بیک اپ',
+  'an unknown date': 'نامعلوم تاریخ',
+  'Data': 'ڈیٹا',
+  'New': 'نیا',
+  'Same': 'یکساں',
+  'Different': 'مختلف',
+  'Only on this device': 'صرف اس آلے پر',
+  'Merge: add the backup to what is on this device': 'ضم کریں: بیک اپ کو اس آلے کے ڈیٹا میں شامل کریں',
+  'Replace: make this device match the backup exactly': 'تبدیل کریں: اس آلے کو بالکل بیک اپ جیسا بنائیں',
+  'Records and settings that are only on this device will be deleted.': 'جو ریکارڈ اور ترتیبات صرف اس آلے پر ہیں وہ حذف ہو جائیں گے۔',
+  '{count} records differ between this device and the backup': '{count} ریکارڈ اس آلے اور بیک اپ میں مختلف ہیں',
+  'Keep the backup version': 'بیک اپ والا ورژن رکھیں',
+  'Keep this device version': 'اس آلے والا ورژن رکھیں',
+  'Record': 'ریکارڈ',
+  'Field': 'فیلڈ',
+  'This device': 'یہ آلہ',
+  'Backup': 'بیک اپ',
+  'Cancel': 'منسوخ کریں',
+  'Restore': 'بحال کریں',
+  'Production batches': 'پیداواری بیچ',
+  'Calendar tasks': 'کیلنڈر کے کام',
+  'Feeding schedules': 'خوراک کے اوقات',
+  'Feed stock': 'خوراک کا ذخیرہ',
+  'Feeding history': 'خوراک کی تاریخ',
+  'Ponds': 'تالاب',
+  'Custom species': 'حسب ضرورت اقسام',
+  'The file is not valid JSON.': 'فائل درست JSON نہیں ہے۔',
+  'The file is not an Aquaculture Tools backup.': 'یہ فائل Aquaculture Tools کا بیک اپ نہیں ہے۔',
+  'The backup was made by a newer version of the app. Update the app and try again.': 'یہ بیک اپ ایپ کے نئے ورژن سے بنا ہے۔ ایپ اپ ڈیٹ کر کے دوبارہ کوشش کریں۔',
+  'The backup has no data section.': 'بیک اپ میں ڈیٹا کا حصہ نہیں ہے۔',
+  'The settings section is not valid.': 'ترتیبات کا حصہ درست نہیں ہے۔',
+  'Ignore': 'نظرانداز کریں',
+  'Date (or date and time)': 'تاریخ (یا تاریخ اور وقت)',
+  'Time': 'وقت',
+  'Pond': 'تالاب',
+  'Sampler': 'نمونہ لینے والا',
+  'Notes': 'نوٹس',
+  'Day/Month/Year': 'دن/مہینہ/سال',
+  'Month/Day/Year': 'مہینہ/دن/سال',
+  'Year-Month-Day': 'سال-مہینہ-دن',
+  'Choose file': 'فائل منتخب کریں',
+  'Map columns': 'کالم ملائیں',
+  'Review': 'جائزہ',
+  'Done': 'مکمل',
+  'Date is missing': 'تاریخ موجود نہیں',
+  'Cannot read the date "{value}"': 'تاریخ "{value}" پڑھی نہیں جا سکی',
+  'Cannot read the time "{value}"': 'وقت "{value}" پڑھا نہیں جا سکا',
+  'No saved pond is named "{value}"': '"{value}" نام کا کوئی محفوظ تالاب نہیں',
+  'No pond given': 'کوئی تالاب نہیں دیا گیا',
+  '{parameter}: "{value}" is not a number': '{parameter}: "{value}" عدد نہیں ہے',
+  '{parameter}: {value} {unit} is outside the possible range': '{parameter}: {value} {unit} ممکنہ حد سے باہر ہے',
+  '{parameter}: "{value}" is a detection limit, stored as {limit}': '{parameter}: "{value}" حدِ شناخت ہے، {limit} کے طور پر محفوظ',
+  'No measured values': 'کوئی ناپی گئی قدر نہیں',
+  'Map a column to Date': 'کسی کالم کو تاریخ سے ملائیں',
+  'Map at least one water-quality parameter': 'کم از کم ایک آبی معیار کا پیمانہ ملائیں',
+  '{target} is mapped to more than one column': '{target} ایک سے زیادہ کالموں سے ملایا گیا ہے',
+  'Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.': 'پرانی .xls ورک بکس معاون نہیں ہیں۔ شیٹ کو .xlsx یا CSV کے طور پر محفوظ کر کے دوبارہ کوشش کریں۔',
+  'The file needs a header row and at least one row of readings.': 'فائل میں ایک عنوانی قطار اور کم از کم ایک ریڈنگ کی قطار ہونی چاہیے۔',
+  'The file could not be read.': 'فائل پڑھی نہیں جا سکی۔',
+  'The readings could not be saved.': 'ریڈنگز محفوظ نہیں ہو سکیں۔',
+  'Import Water-Quality Readings': 'آبی معیار کی ریڈنگز درآمد کریں',
+  'Choose a CSV or Excel (.xlsx) file with one sample per row and a header row naming the columns, for example Date, Pond, DO (mg/L), Temp (°C), pH.': 'ایسی CSV یا Excel (.xlsx) فائل منتخب کریں جس کی ہر قطار میں ایک نمونہ ہو اور ایک عنوانی قطار کالموں کے نام بتائے، مثلاً Date, Pond, DO (mg/L), Temp (°C), pH۔',
+  '{file}: {rows} rows and {columns} columns': '{file}: {rows} قطاریں اور {columns} کالم',
+  'Add your ponds in the Pond Registry first; readings are stored per pond.': 'پہلے تالاب رجسٹری میں اپنے تالاب شامل کریں؛ ریڈنگز ہر تالاب کے لیے محفوظ ہوتی ہیں۔',
+  'Used for rows without a pond column': 'جن قطاروں میں تالاب کا کالم نہیں ان کے لیے',
+  'Used for rows without a sampler column': 'جن قطاروں میں نمونہ لینے والے کا کالم نہیں ان کے لیے',
+  'Column': 'کالم',
+  'Sample values': 'نمونہ قدریں',
+  'Import as': 'بطور درآمد',
+  'Unit': 'اکائی',
+  'Column {number}': 'کالم {number}',
+  'Date format': 'تاریخ کی ترتیب',
+  'Decimal separator': 'اعشاری علامت',
+  'Point (7.5)': 'نقطہ (7.5)',
+  'Comma (7,5)': 'کاما (7,5)',
+  'The numbers in the file do not settle the separator; check it': 'فائل کے اعداد سے علامت طے نہیں ہوتی؛ اسے جانچیں',
+  'Detected from the numbers in the file': 'فائل کے اعداد سے پہچانا گیا',
+  '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}': '{parameter}: "{value}" نقطے یا کاما اعشاری علامت سے مختلف پڑھا جاتا ہے، {number} کے طور پر محفوظ کیا گیا',
+  'Every date in the file reads both ways; check the order': 'فائل کی ہر تاریخ دونوں طرح پڑھی جا سکتی ہے؛ ترتیب جانچیں',
+  'Detected from the dates in the file': 'فائل کی تاریخوں سے پہچانا گیا',
+  'Map a Pond column or choose a pond in the previous step.': 'تالاب کا کالم ملائیں یا پچھلے مرحلے میں تالاب منتخب کریں۔',
+  '{count} ready to import': '{count} درآمد کے لیے تیار',
+  '{count} with errors': '{count} میں غلطیاں',
+  '{count} already saved': '{count} پہلے سے محفوظ',
+  'Show only rows with problems': 'صرف مسائل والی قطاریں دکھائیں',
+  'Row': 'قطار',
+  'Date': 'تاریخ',
+  'Problems': 'مسائل',
+  'Already saved for this pond and time; skipped': 'اس تالاب اور وقت کے لیے پہلے سے محفوظ؛ چھوڑ دی گئی',
+  'Showing the first {count} rows.': 'پہلی {count} قطاریں دکھائی جا رہی ہیں۔',
+  '{count} readings imported.': '{count} ریڈنگز درآمد ہو گئیں۔',
+  'Parameter': 'پیمانہ',
+  'Close': 'بند کریں',
+  'Back': 'واپس',
+  'Next': 'آگے',
+  'Import {count} readings': '{count} ریڈنگز درآمد کریں',
+  '{count} saved readings. Showing the latest, taken {date}.': '{count} محفوظ ریڈنگز۔ {date} کو لی گئی تازہ ترین دکھائی جا رہی ہے۔',
+  'No saved readings for this pond yet.': 'اس تالاب کی ابھی کوئی محفوظ ریڈنگ نہیں۔',
+  'Import readings': 'ریڈنگز درآمد کریں',
+  'Water-quality readings': 'آبی معیار کی ریڈنگز',
+  'Water Quality History': 'آبی معیار کی تاریخ',
+  'Trends, statistics and pond-by-pond comparison of every saved water-quality reading. Shaded bands mark the optimal (green), warning (amber) and critical (red) ranges.': 'ہر محفوظ آبی معیار ریڈنگ کے رجحانات، اعداد و شمار اور تالاب بہ تالاب موازنہ۔ سایہ دار پٹیاں بہترین (سبز)، انتباہ (کہربائی) اور نازک (سرخ) حدود دکھاتی ہیں۔',
+  'Parameters': 'پیرامیٹرز',
+  'Period': 'مدت',
+  'Leave empty to compare every pond with readings': 'ریڈنگز والے تمام تالابوں کے موازنے کے لیے خالی چھوڑیں',
+  'Last 7 days': 'گزشتہ 7 دن',
+  'Last 30 days': 'گزشتہ 30 دن',
+  'Last 90 days': 'گزشتہ 90 دن',
+  'Last 12 months': 'گزشتہ 12 ماہ',
+  'All readings': 'تمام ریڈنگز',
+  'No readings in this period.': 'اس مدت میں کوئی ریڈنگ نہیں۔',
+  'Record or import readings in the Water Quality Monitor.': 'آبی معیار مانیٹر میں ریڈنگز درج یا درآمد کریں۔',
+  'None of the chosen parameters were measured in this period.': 'اس مدت میں منتخب پیرامیٹرز میں سے کوئی نہیں ناپا گیا۔',
+  'Deleted pond': 'حذف شدہ تالاب',
+  'Statistics': 'اعداد و شمار',
+  'Readings': 'ریڈنگز',
+  'Min': 'کم از کم',
+  'Mean': 'اوسط',
+  'Max': 'زیادہ سے زیادہ',
+  'Latest': 'تازہ ترین',
+  'Taken': 'لیا گیا',
+  'Values': 'قدریں',
+  'Delete': 'حذف کریں',
+  'Showing the latest {count} of {total} readings.': '{total} میں سے تازہ ترین {count} ریڈنگز دکھائی جا رہی ہیں۔',
+  'History': 'تاریخ',
+  'Sampled at': 'نمونہ لینے کا وقت',
+  'Choose a pond to keep readings in its history.': 'ریڈنگز کو تاریخ میں رکھنے کے لیے تالاب منتخب کریں۔',
+  'Trend Window': 'رجحان کی مدت',
+  'Readings fitted for trends and projections': 'رجحانات اور اندازوں کے لیے استعمال ہونے والی ریڈنگز',
+  'Last 24 hours': 'گزشتہ 24 گھنٹے',
+  'Last 3 days': 'گزشتہ 3 دن',
+  'Chloride': 'کلورائیڈ',
+  'Salinity (ppt)': 'نمکیات (ppt)',
+  'Protects fish against nitrite': 'مچھلی کو نائٹرائٹ سے بچاتا ہے',
+  'Un-ionized NH₃: {value} mg/L ({percent}% of total ammonia)': 'غیر آئنی NH₃: {value} mg/L (کل امونیا کا {percent}%)',
+  'Enter pH and temperature to judge the toxic NH₃ share.': 'زہریلے NH₃ حصے کو جانچنے کے لیے pH اور درجہ حرارت درج کریں۔',
+  'Chloride to nitrite ratio: {ratio}:1': 'کلورائیڈ اور نائٹرائٹ کا تناسب: {ratio}:1',
+  'Enter chloride or salinity to judge nitrite toxicity.': 'نائٹرائٹ کے زہریلے پن کو جانچنے کے لیے کلورائیڈ یا نمکیات درج کریں۔',
+  'Add salt to keep at least 10 parts chloride per part nitrite': 'ہر حصہ نائٹرائٹ کے لیے کم از کم 10 حصے کلورائیڈ رکھنے کو نمک ڈالیں',
+  'Check source water chloride before adding salt': 'نمک ڈالنے سے پہلے منبع کے پانی کا کلورائیڈ جانچیں',
+  'Retest after heavy rain or water exchange': 'تیز بارش یا پانی کی تبدیلی کے بعد دوبارہ جانچیں',
+  'Farm Site': 'فارم کا مقام',
+  'Elevation': 'بلندی',
+  'Height above sea level; thinner air holds less oxygen in the water': 'سطح سمندر سے بلندی؛ پتلی ہوا میں پانی کم آکسیجن رکھتا ہے',
+  'Barometric Pressure (kPa)': 'بیرومیٹرک دباؤ (kPa)',
+  'Leave empty to use {pressure} kPa, the standard pressure at this elevation': 'اس بلندی کے معیاری دباؤ {pressure} kPa کے لیے خالی چھوڑیں',
+  'Fresh water at 25 °C holds {saturation} mg/L of oxygen at saturation here.': 'یہاں 25 °C پر میٹھا پانی سیرابی پر {saturation} mg/L آکسیجن رکھتا ہے۔',
+  '{percent}% of saturation ({saturation} mg/L at this site)': 'سیرابی کا {percent}% (اس مقام پر {saturation} mg/L)',
+  'Enter temperature to see percent saturation.': 'سیرابی کا فیصد دیکھنے کے لیے درجہ حرارت درج کریں۔',
+  'Night Oxygen Forecast': 'رات کی آکسیجن کی پیش گوئی',
+  'Simulates dissolved oxygen hour by hour from dusk to dawn, when fish, plankton and pond mud consume oxygen and nothing produces it, and finds the latest time to start the aerators.': 'غروب سے صبح تک گھنٹہ بہ گھنٹہ حل شدہ آکسیجن کی نقل کرتا ہے، جب مچھلی، پلینکٹن اور تالاب کی مٹی آکسیجن استعمال کرتے ہیں اور کوئی اسے پیدا نہیں کرتا، اور ایریٹر چلانے کا آخری وقت بتاتا ہے۔',
+  'Minimum Safe Oxygen': 'کم سے کم محفوظ آکسیجن',
+  'Dissolved Oxygen at Dusk': 'غروب کے وقت حل شدہ آکسیجن',
+  'Pond Area': 'تالاب کا رقبہ',
+  'Average Depth': 'اوسط گہرائی',
+  'Fish Biomass': 'مچھلی کا بایوماس',
+  'Filled from the pond\'s active batches': 'تالاب کے فعال بیچوں سے بھرا گیا',
+  'Secchi Depth': 'سیکی گہرائی',
+  'Shallower readings mean a denser plankton bloom': 'کم گہرائی کا مطلب گھنا پلینکٹن بلوم ہے',
+  'Sediment Oxygen Demand (g O₂/m²/day)': 'تلچھٹ آکسیجن طلب (g O₂/m²/دن)',
+  'About 1 for a typical earthen pond, 2-3 with heavy organic mud': 'عام مٹی کے تالاب کے لیے تقریباً 1، زیادہ نامیاتی کیچڑ کے ساتھ 2-3',
+  'Night Wind Speed': 'رات کی ہوا کی رفتار',
+  'Number of Aerators': 'ایریٹرز کی تعداد',
+  'Filled from the pond\'s Aeration Calculator result': 'تالاب کے ایریشن کیلکولیٹر کے نتیجے سے بھرا گیا',
+  'Aerator Output (kg O₂/hour each)': 'ایریٹر آؤٹ پٹ (kg O₂/گھنٹہ فی ایریٹر)',
+  'Leave empty for fresh water': 'میٹھے پانی کے لیے خالی چھوڑیں',
+  'Dusk': 'غروب',
+  'Dawn': 'صبح',
+  'Site pressure {pressure} kPa, from the elevation in Settings.': 'مقام کا دباؤ {pressure} kPa، ترتیبات میں بلندی سے۔',
+  'Forecast Night Oxygen': 'رات کی آکسیجن کی پیش گوئی کریں',
+  'Oxygen stays above {threshold} mg/L all night; the lowest is {minimum} mg/L at {time}. No aeration needed.': 'ساری رات آکسیجن {threshold} mg/L سے اوپر رہتی ہے؛ کم ترین {time} پر {minimum} mg/L ہے۔ ایریشن کی ضرورت نہیں۔',
+  'Oxygen falls below {threshold} mg/L at {time} and the aerators cannot hold it even if started at dusk (lowest {aerated} mg/L). Add aeration, cut feeding or reduce the stock.': '{time} پر آکسیجن {threshold} mg/L سے نیچے گرتی ہے اور غروب سے چلانے پر بھی ایریٹر اسے نہیں روک پاتے (کم ترین {aerated} mg/L)۔ ایریشن بڑھائیں، خوراک کم کریں یا اسٹاک گھٹائیں۔',
+  'Without aeration oxygen falls below {threshold} mg/L at {time}, reaching {minimum} mg/L by {minimumTime}. Start the aerators by {start}.': 'ایریشن کے بغیر {time} پر آکسیجن {threshold} mg/L سے نیچے گرتی ہے اور {minimumTime} تک {minimum} mg/L تک پہنچتی ہے۔ ایریٹر {start} تک چلائیں۔',
+  'Without aeration': 'ایریشن کے بغیر',
+  'With aerators': 'ایریٹرز کے ساتھ',
+  'Oxygen Budget': 'آکسیجن بجٹ',
+  'Saturation': 'سیرابی',
+  'Fish respiration': 'مچھلی کا تنفس',
+  'Plankton respiration': 'پلینکٹن کا تنفس',
+  'Sediment demand': 'تلچھٹ طلب',
+  'Total consumption': 'کل کھپت',
+  'Measure dissolved oxygen and Secchi depth around sunset for the best forecast.': 'بہترین پیش گوئی کے لیے غروب کے قریب حل شدہ آکسیجن اور سیکی گہرائی ناپیں۔',
+  'Sensors': 'سینسر',
+  'Stream dissolved oxygen, temperature and pH from pond probes into the monitors and water-quality history.': 'تالاب کے پروبز سے حل شدہ آکسیجن، درجہ حرارت اور pH براہ راست مانیٹرز اور پانی کے معیار کی تاریخ میں بھیجیں۔',
+  'MQTT broker': 'MQTT بروکر',
+  'Off': 'بند',
+  'Connecting': 'جڑ رہا ہے',
+  'Connected': 'جڑا ہوا',
+  'Disconnected': 'منقطع',
+  'Error': 'خرابی',
+  'Connect': 'جوڑیں',
+  'Broker WebSocket URL': 'بروکر WebSocket URL',
+  'Client ID': 'کلائنٹ ID',
+  'Leave blank for a random ID': 'بے ترتیب ID کے لیے خالی چھوڑیں',
+  'Username': 'صارف نام',
+  'Password': 'پاس ورڈ',
+  'Kept on this device only, never in backups': 'صرف اسی آلے پر رکھا جاتا ہے، بیک اپ میں کبھی نہیں',
+  'Save to history every (minutes)': 'تاریخ میں ہر (منٹ) محفوظ کریں',
+  '0 shows live values without saving them. Simulated values are never saved': '0 براہ راست قدریں محفوظ کیے بغیر دکھاتا ہے۔ مصنوعی قدریں کبھی محفوظ نہیں ہوتیں',
+  'Devices': 'آلات',
+  'Add Device': 'آلہ شامل کریں',
+  'Edit Device': 'آلہ میں ترمیم کریں',
+  'No devices yet. Add a simulated probe to try live readings without hardware.': 'ابھی کوئی آلہ نہیں۔ ہارڈویئر کے بغیر براہ راست ریڈنگ آزمانے کے لیے مصنوعی پروب شامل کریں۔',
+  'Name': 'نام',
+  'Source': 'ماخذ',
+  'Latest values': 'تازہ ترین قدریں',
+  'Actions': 'اقدامات',
+  'Last reading {date}': 'آخری ریڈنگ {date}',
+  'Publishes to {topic}': '{topic} پر شائع کرتا ہے',
+  'No pond': 'کوئی تالاب نہیں',
+  'Sensor': 'سینسر',
+  'Waiting': 'منتظر',
+  'Live': 'براہ راست',
+  'Stale': 'پرانا',
+  'HTTP polling': 'HTTP پولنگ',
+  'Simulator': 'سمیولیٹر',
+  'Connection': 'کنکشن',
+  'Topic': 'ٹاپک',
+  'MQTT topic filter; + matches one level and # the rest': 'MQTT ٹاپک فلٹر؛ + ایک سطح سے اور # باقی سب سے ملتا ہے',
+  'Optional. Also publish simulated readings here when the broker is connected': 'اختیاری۔ بروکر جڑا ہونے پر مصنوعی ریڈنگ یہاں بھی شائع کریں',
+  'URL': 'URL',
+  'Returns the latest reading as JSON; the server must allow cross-origin requests': 'تازہ ترین ریڈنگ JSON کی شکل میں لوٹاتا ہے؛ سرور کو کراس اوریجن درخواستوں کی اجازت دینی ہوگی',
+  'Interval (seconds)': 'وقفہ (سیکنڈ)',
+  'Stale after (minutes)': 'اتنے (منٹ) بعد پرانا',
+  'Flag the device when no reading arrives for this long': 'اتنی دیر تک کوئی ریڈنگ نہ آنے پر آلے کو نشان زد کریں',
+  'Calibration offsets': 'کیلیبریشن آفسیٹ',
+  'Added to every raw value, e.g. -0.15 when the probe reads pH 0.15 high against a reference.': 'ہر خام قدر میں جمع کیا جاتا ہے، مثلاً حوالہ کے مقابلے پروب pH 0.15 زیادہ پڑھے تو -0.15۔',
+  'Save': 'محفوظ کریں',
+  'Devices may send JSON such as {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}, or a bare number on a topic ending in the parameter name, e.g. farm/pond-1/do. Values are read in mg/L and °C.': 'آلات {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000} جیسا JSON بھیج سکتے ہیں، یا پیرامیٹر کے نام پر ختم ہونے والے ٹاپک پر صرف ایک عدد، مثلاً farm/pond-1/do۔ قدریں mg/L اور °C میں پڑھی جاتی ہیں۔',
+  'Waiting for the first reading from this pond\'s sensors.': 'اس تالاب کے سینسرز سے پہلی ریڈنگ کا انتظار ہے۔',
+  'Live sensor values': 'براہ راست سینسر قدریں',
+  'Measured {date}': '{date} کو ناپا گیا',
+  'No recent reading from {devices}. Check the probe, its power and its connection.': '{devices} سے کوئی حالیہ ریڈنگ نہیں۔ پروب، اس کی بجلی اور کنکشن چیک کریں۔',
+  'Use live values': 'براہ راست قدریں استعمال کریں',
+  'Follow live': 'براہ راست کے ساتھ چلیں',
+  'Could not read any values from the last message': 'آخری پیغام سے کوئی قدر نہیں پڑھی جا سکی',
+  'All ponds': 'تمام تالاب',
+  'Quantity at or below the item minimum': 'مقدار شے کی کم از کم حد پر یا اس سے کم',
+  'Pending more than {days} days past its date': 'اپنی تاریخ سے {days} دن سے زیادہ زیر التوا',
+  'for {minutes} min': '{minutes} منٹ تک',
+  'Cleared {date}': '{date} کو ختم',
+  'Acknowledged': 'تسلیم کیا',
+  'Snoozed until {date}': '{date} تک مؤخر',
+  'Open': 'کھلا',
+  'Alert Rules': 'الرٹ قواعد',
+  'Add Rule': 'قاعدہ شامل کریں',
+  'Edit Rule': 'قاعدے میں ترمیم کریں',
+  'Rules are checked against saved readings, live sensor values, inventory and the production calendar. Alerts appear under the bell at the top of the page.': 'قواعد محفوظ ریڈنگز، براہ راست سینسر قدروں، انوینٹری اور پیداواری کیلنڈر پر جانچے جاتے ہیں۔ الرٹس صفحے کے اوپر گھنٹی کے نیچے دکھائی دیتے ہیں۔',
+  'No alert rules yet.': 'ابھی کوئی الرٹ قاعدہ نہیں۔',
+  'Condition': 'شرط',
+  'Severity': 'شدت',
+  'Alert History': 'الرٹ کی تاریخ',
+  'Open only': 'صرف کھلے',
+  'No alerts so far.': 'اب تک کوئی الرٹ نہیں۔',
+  'Raised': 'جاری ہوا',
+  'Alert': 'الرٹ',
+  'Audit trail': 'آڈٹ ریکارڈ',
+  'Acknowledge': 'تسلیم کریں',
+  'Threshold': 'حد',
+  'Uses the minimum set on each inventory item.': 'ہر انوینٹری شے پر مقرر کم از کم حد استعمال کرتا ہے۔',
+  'Leave blank to name the rule after its condition': 'قاعدے کو اس کی شرط کا نام دینے کے لیے خالی چھوڑیں',
+  'Watch': 'نگرانی',
+  'Pond (none for every pond)': 'تالاب (تمام تالابوں کے لیے کوئی نہیں)',
+  'When': 'کب',
+  'For at least (minutes)': 'کم از کم (منٹ) تک',
+  'Readings must stay past the limit over this span; 0 alerts on the first reading': 'ریڈنگ اس پورے عرصے میں حد سے باہر رہنی چاہیے؛ 0 پہلی ریڈنگ پر الرٹ کرتا ہے',
+  'Days overdue before alerting': 'الرٹ سے پہلے تاخیر کے دن',
+  'Alerts': 'الرٹس',
+  'Nothing needs attention.': 'کسی چیز پر توجہ کی ضرورت نہیں۔',
+  'Snooze': 'مؤخر کریں',
+  'Alert rules and history': 'الرٹ قواعد اور تاریخ',
+  '{hours} h': '{hours} گھنٹے',
+  'Low stock (at or below the item minimum)': 'کم اسٹاک (شے کی کم از کم حد پر یا کم)',
+  'Overdue calendar tasks': 'تاخیر شدہ کیلنڈر کام',
+  'Below': 'سے کم',
+  'Above': 'سے زیادہ',
+  'Info': 'معلومات',
+  '{parameter} in {pond} is {value} {unit}, below {threshold} {unit}': '{pond} میں {parameter} {value} {unit} ہے، {threshold} {unit} سے کم',
+  '{parameter} in {pond} is {value} {unit}, above {threshold} {unit}': '{pond} میں {parameter} {value} {unit} ہے، {threshold} {unit} سے زیادہ',
+  '{parameter} below {threshold} {unit}': '{parameter} {threshold} {unit} سے کم',
+  '{parameter} above {threshold} {unit}': '{parameter} {threshold} {unit} سے زیادہ',
+  '{item} is down to {quantity} {unit} (minimum {minimum} {unit})': '{item} کم ہو کر {quantity} {unit} رہ گیا ہے (کم از کم {minimum} {unit})',
+  '"{task}" is {days} days overdue': '"{task}" {days} دن تاخیر سے ہے',
+  'Snoozed': 'مؤخر',
+  'Cleared': 'ختم',
+  'Low dissolved oxygen': 'کم حل شدہ آکسیجن',
+  'Dissolved oxygen below optimal': 'حل شدہ آکسیجن بہترین سے کم',
+  'High water temperature': 'پانی کا زیادہ درجہ حرارت',
+  'Low pH': 'کم pH',
+  'High pH': 'زیادہ pH',
+  'High ammonia': 'زیادہ امونیا',
+  'High nitrite': 'زیادہ نائٹرائٹ',
+  'Low stock': 'کم اسٹاک',
+  'Overdue task': 'تاخیر شدہ کام',
+  'Custom ranges for {pond}': '{pond} کے لیے اپنی حدود',
+  'Set limits for stock whose needs differ from its species, such as broodstock or hatchery tanks. Readings outside the acceptable limits are critical; parameters left off follow the species.': 'اس اسٹاک کے لیے حدود مقرر کریں جس کی ضروریات اس کی نسل سے مختلف ہیں، جیسے بروڈ اسٹاک یا ہیچری ٹینک۔ قابل قبول حد سے باہر ریڈنگ سنگین ہے؛ بند پیرامیٹر نسل کے مطابق رہتے ہیں۔',
+  'Custom': 'اپنی',
+  'Lowest acceptable': 'کم از کم قابل قبول',
+  'Optimal from': 'بہترین از',
+  'Optimal to': 'بہترین تک',
+  'Highest acceptable': 'زیادہ سے زیادہ قابل قبول',
+  'Limits must rise from lowest acceptable through the optimal range to highest acceptable: {parameters}': 'حدود کم از کم قابل قبول سے بہترین حد سے ہوتے ہوئے زیادہ سے زیادہ قابل قبول تک بڑھنی چاہییں: {parameters}',
+  'Batch': 'بیچ',
+  'Life stage': 'زندگی کا مرحلہ',
+  'Sets the ranges and the ammonia and nitrite toxicity limits': 'حدود اور امونیا و نائٹرائٹ زہریلے پن کی حدیں مقرر کرتا ہے',
+  'Fry need more oxygen and cleaner water': 'فرائی کو زیادہ آکسیجن اور صاف پانی چاہیے',
+  'Ranges for {species}, {stage}.': '{species}، {stage} کے لیے حدود۔',
+  'all stages': 'تمام مراحل',
+  'Fry': 'فرائی',
+  'Fingerling': 'فنگرلنگ',
+  'Juvenile': 'نوعمر',
+  'Adult': 'بالغ',
+  'Generic warmwater ranges. Choose a species or batch for its own.': 'عام گرم پانی کی حدود۔ اپنی حدود کے لیے نسل یا بیچ منتخب کریں۔',
+  '{count} parameters use custom ranges set for this pond.': '{count} پیرامیٹر اس تالاب کے لیے مقرر اپنی حدود استعمال کرتے ہیں۔',
+  'Custom ranges': 'اپنی حدود',
+  'Pond range, optimal: {min}-{max} {unit}': 'تالاب کی حد، بہترین: {min}-{max} {unit}',
+  'Water Balance': 'پانی کا توازن',
+  'Pond Water Balance': 'تالاب کے پانی کا توازن',
+  'Day-by-day water budget of a pond: rain and runoff in, evaporation and seepage out, with planned exchange, pumping and refills. Shows how the level moves, when to refill and how much water a cycle needs.': 'تالاب کا روزانہ پانی کا بجٹ: بارش اور بہاؤ اندر، بخارات اور رساؤ باہر، منصوبہ بند تبادلے، پمپنگ اور دوبارہ بھرائی کے ساتھ۔ دکھاتا ہے کہ سطح کیسے بدلتی ہے، کب بھرنا ہے اور ایک چکر میں کتنا پانی چاہیے۔',
+  'Water Surface Area': 'پانی کی سطح کا رقبہ',
+  'Current Depth': 'موجودہ گہرائی',
+  'Full Depth': 'مکمل گہرائی',
+  'Spill level, and the level refills go back to': 'چھلکنے کی سطح، اور وہ سطح جس تک دوبارہ بھرا جاتا ہے',
+  'Minimum Depth': 'کم از کم گہرائی',
+  'Filled from the stocked species': 'ذخیرہ شدہ نسل سے بھرا گیا',
+  'Refill At Depth': 'اس گہرائی پر دوبارہ بھرائی',
+  'Leave empty to plan no refills': 'دوبارہ بھرائی کی منصوبہ بندی نہ کرنے کے لیے خالی چھوڑیں',
+  'Evaporation': 'بخارات',
+  'Filled from the pond\'s Pond Evaporation result': 'تالاب کے تالاب بخارات کے نتیجے سے بھرا گیا',
+  'Seepage': 'رساؤ',
+  'Estimated from the pond\'s soil and liner': 'تالاب کی مٹی اور لائنر سے اندازہ',
+  'Rainfall': 'بارش',
+  'Average over the cycle': 'چکر کی اوسط',
+  'Catchment Area': 'آبگیر رقبہ',
+  'Land draining into the pond': 'تالاب میں بہنے والی زمین',
+  'Catchment Surface': 'آبگیر سطح',
+  'Water Exchange (% per day)': 'پانی کا تبادلہ (% فی دن)',
+  'Drained and replaced, so the level stays': 'نکالا اور بدلا جاتا ہے، اس لیے سطح برقرار رہتی ہے',
+  'Pumped Inflow (m³/day)': 'پمپ سے آمد (m³/دن)',
+  'Continuous topping up': 'مسلسل بھرائی',
+  'Cycle Length (days)': 'چکر کی مدت (دن)',
+  'Start Date': 'آغاز کی تاریخ',
+  'Fill the pond to full depth at the start': 'آغاز میں تالاب کو مکمل گہرائی تک بھریں',
+  'Calculate Water Balance': 'پانی کا توازن شمار کریں',
+  'Inflows match or exceed losses; the level holds without refills.': 'آمد نقصان کے برابر یا زیادہ ہے؛ سطح دوبارہ بھرائی کے بغیر برقرار رہتی ہے۔',
+  'The pond already starts below the minimum depth.': 'تالاب پہلے ہی کم از کم گہرائی سے نیچے شروع ہوتا ہے۔',
+  '{days} days until minimum depth: without refills the level falls {rate} mm/day and drops below {depth} on {date}.': 'کم از کم گہرائی تک {days} دن: دوبارہ بھرائی کے بغیر سطح {rate} mm/دن گرتی ہے اور {date} کو {depth} سے نیچے چلی جاتی ہے۔',
+  'Day {day}': 'دن {day}',
+  'With refills': 'دوبارہ بھرائی کے ساتھ',
+  'Without refills': 'دوبارہ بھرائی کے بغیر',
+  'Daily Flows': 'روزانہ بہاؤ',
+  'Rain on the pond': 'تالاب پر بارش',
+  'Catchment runoff': 'آبگیر سے بہاؤ',
+  'Pumped inflow': 'پمپ سے آمد',
+  'Net change': 'خالص تبدیلی',
+  'Exchange (drained and replaced)': 'تبادلہ (نکالا اور بدلا)',
+  'Refill Schedule': 'دوبارہ بھرائی کا شیڈول',
+  'No refills needed in this cycle.': 'اس چکر میں دوبارہ بھرائی کی ضرورت نہیں۔',
+  'Day': 'دن',
+  'Volume': 'حجم',
+  'Water Demand per Cycle': 'فی چکر پانی کی طلب',
+  'Initial fill': 'ابتدائی بھرائی',
+  'Refills': 'دوبارہ بھرائیاں',
+  'Water exchange': 'پانی کا تبادلہ',
+  'Drained and refilled the same day, so it uses water but does not lower the level': 'اسی دن نکالا اور دوبارہ بھرا جاتا ہے، اس لیے پانی لگتا ہے مگر سطح کم نہیں ہوتی',
+  'Total demand': 'کل طلب',
+  'Spilled over the outlet': 'نکاس سے بہہ گیا',
+  'Enter the pond and its water flows to project the level over the cycle.': 'چکر میں سطح کا اندازہ لگانے کے لیے تالاب اور اس کے پانی کے بہاؤ درج کریں۔',
+  'Forest or dense cover': 'جنگل یا گھنا احاطہ',
+  'Grass or pasture': 'گھاس یا چراگاہ',
+  'Cultivated fields': 'کاشت شدہ کھیت',
+  'Bare or compacted soil': 'ننگی یا سخت مٹی',
+  'Roofs and paved yards': 'چھتیں اور پختہ صحن',
+  'Latitude (°)': 'عرض البلد (°)',
+  'Negative south of the equator; sets day length for evaporation estimates': 'خط استوا کے جنوب میں منفی؛ بخارات کے اندازوں کے لیے دن کی لمبائی طے کرتا ہے',
+  'Climate Station': 'موسمیاتی اسٹیشن',
+  'District whose monthly normals prefill the weather inputs; also sets latitude and elevation': 'وہ ضلع جس کے ماہانہ معمول کے اعداد موسم کے اندراجات بھرتے ہیں؛ عرض البلد اور بلندی بھی طے کرتا ہے',
+  'Edit or replace normals': 'معمول کے اعداد میں ترمیم کریں یا بدلیں',
+  'None': 'کوئی نہیں',
+  'Climate normals for {station}': '{station} کے موسمیاتی معمول',
+  'Delete station': 'اسٹیشن حذف کریں',
+  'Enter your own station\'s monthly means to replace the bundled district figures, or save them as a new station.': 'شامل ضلعی اعداد کو بدلنے کے لیے اپنے اسٹیشن کی ماہانہ اوسط درج کریں، یا انہیں نئے اسٹیشن کے طور پر محفوظ کریں۔',
+  'Every month needs a number for each value, and the station needs a name, latitude and elevation.': 'ہر مہینے میں ہر قدر کے لیے عدد درکار ہے، اور اسٹیشن کو نام، عرض البلد اور بلندی درکار ہے۔',
+  'Month': 'مہینہ',
+  'Reset to bundled normals': 'شامل معمول پر واپس کریں',
+  'Save as new station': 'نئے اسٹیشن کے طور پر محفوظ کریں',
+  'State': 'ریاست',
+  'Station Name': 'اسٹیشن کا نام',
+  'Choose a climate station in': 'موسمیاتی اسٹیشن منتخب کریں:',
+  'to prefill the weather from monthly normals.': 'تاکہ موسم ماہانہ معمول سے بھرا جائے۔',
+  'Weather prefilled from {station} normals; edit any value to override': 'موسم {station} کے معمول سے بھرا گیا؛ بدلنے کے لیے کوئی بھی قدر تبدیل کریں',
+  'Air Temperature (°C)': 'ہوا کا درجہ حرارت (°C)',
+  'Daily Range (°C)': 'روزانہ فرق (°C)',
+  'Humidity (%)': 'نمی (%)',
+  'Rainfall (mm/month)': 'بارش (mm/ماہ)',
+  'Sunshine (h/day)': 'دھوپ (گھنٹے/دن)',
+  'Wind (km/h)': 'ہوا (km/h)',
+  'Climate stations': 'موسمیاتی اسٹیشن',
+  'January': 'جنوری',
+  'February': 'فروری',
+  'March': 'مارچ',
+  'April': 'اپریل',
+  'May': 'مئی',
+  'June': 'جون',
+  'July': 'جولائی',
+  'August': 'اگست',
+  'September': 'ستمبر',
+  'October': 'اکتوبر',
+  'November': 'نومبر',
+  'December': 'دسمبر',
+  'Winter Ice Manager': 'سرمائی برف منیجر',
+  'Estimates when a pond freezes and how thick the ice gets from freezing degree-days, how fast fish and pond mud use up the oxygen under the ice, what open water, aeration or inflow keeps it safe, and how far to cut feeding through the winter.': 'منجمد ڈگری دنوں سے اندازہ لگاتا ہے کہ تالاب کب جمے گا اور برف کتنی موٹی ہوگی، مچھلیاں اور تالاب کی کیچڑ برف کے نیچے آکسیجن کتنی تیزی سے خرچ کرتی ہیں، کتنا کھلا پانی، ہوا دہی یا پانی کی آمد اسے محفوظ رکھتی ہے، اور پوری سردی میں خوراک کتنی کم کرنی ہے۔',
+  'Stock': 'ذخیرہ',
+  'Growth Stage': 'نشوونما کا مرحلہ',
+  'Remove': 'ہٹائیں',
+  'Add species': 'نوع شامل کریں',
+  'Winter Weather': 'سردیوں کا موسم',
+  'to prefill the monthly air temperatures.': 'تاکہ ماہانہ ہوا کا درجہ حرارت پہلے سے بھرا جا سکے۔',
+  'Mean air temperature of each winter month': 'سردیوں کے ہر مہینے کا اوسط ہوا کا درجہ حرارت',
+  'Winter Starts In': 'سردی شروع ہوتی ہے',
+  'Snow and Shelter': 'برف باری اور اوٹ',
+  'Windswept, no snow on the ice': 'تیز ہوا والا، برف پر برف باری نہیں',
+  'Some snow on the ice': 'برف پر کچھ برف باری',
+  'Deep snow or sheltered pond': 'گہری برف باری یا اوٹ والا تالاب',
+  'Water Temperature at Start': 'شروع میں پانی کا درجہ حرارت',
+  'Leave empty to start from the air temperature': 'ہوا کے درجہ حرارت سے شروع کرنے کے لیے خالی چھوڑیں',
+  'Cold Snap': 'سرد لہر',
+  'Starts On': 'شروع ہونے کی تاریخ',
+  'Leave empty for a normal winter': 'عام سردی کے لیے خالی چھوڑیں',
+  'Length (days)': 'مدت (دن)',
+  'Colder Than Normal By (°C)': 'معمول سے کتنا ٹھنڈا (°C)',
+  'Inflow Oxygen': 'آنے والے پانی میں آکسیجن',
+  'Spring or stream water that can be let in': 'چشمے یا نالے کا پانی جو اندر چھوڑا جا سکے',
+  'Over open water in the ice': 'برف کے بیچ کھلے پانی کے اوپر',
+  'Wind Speed': 'ہوا کی رفتار',
+  'Forecast Winter Ice': 'سرمائی برف کی پیش گوئی کریں',
+  'No ice expected: the daily mean air temperature does not fall below freezing once the pond has cooled to 4 °C.': 'برف کا امکان نہیں: تالاب کے 4 °C تک ٹھنڈا ہونے کے بعد روزانہ اوسط ہوا کا درجہ حرارت نقطۂ انجماد سے نیچے نہیں جاتا۔',
+  'Ice from {date}, {days} days of cover in all, thickest {thickness} around {maxDate}.': '{date} سے برف، کل {days} دن برف کی تہہ، {maxDate} کے آس پاس سب سے موٹی {thickness}۔',
+  'The pond would freeze nearly to the bottom.': 'تالاب تقریباً تہہ تک جم جائے گا۔',
+  'Under the ice oxygen falls below {threshold} mg/L on {date}, reaching {minimum} mg/L.': 'برف کے نیچے آکسیجن {date} کو {threshold} mg/L سے نیچے گرتی ہے اور {minimum} mg/L تک پہنچتی ہے۔',
+  'Oxygen stays above {threshold} mg/L under the ice; the lowest is {minimum} mg/L.': 'برف کے نیچے آکسیجن {threshold} mg/L سے اوپر رہتی ہے؛ سب سے کم {minimum} mg/L ہے۔',
+  'day': 'دن',
+  'Air temperature (°C)': 'ہوا کا درجہ حرارت (°C)',
+  'Ice (cm)': 'برف (cm)',
+  'Oxygen (mg/L)': 'آکسیجن (mg/L)',
+  'Keeping Oxygen Under Ice': 'برف کے نیچے آکسیجن برقرار رکھنا',
+  'Open water kept free of ice': 'برف سے پاک رکھا گیا کھلا پانی',
+  'or aerators': 'یا ہوا دہندہ آلات',
+  'or a steady inflow of': 'یا پانی کی مسلسل آمد',
+  'Open water alone cannot keep up: the pond surface is too small for its stock. Aerate or let in water.': 'صرف کھلا پانی کافی نہیں: تالاب کی سطح اس کے ذخیرے کے لیے بہت چھوٹی ہے۔ ہوا دیں یا پانی اندر چھوڑیں۔',
+  'Keep a hole open with a bubbler or surface agitator near the deep end; holes cut by hand refreeze overnight': 'گہرے سرے کے قریب ببلر یا سطحی ایجیٹیٹر سے ایک سوراخ کھلا رکھیں؛ ہاتھ سے کاٹے گئے سوراخ رات بھر میں پھر جم جاتے ہیں',
+  'Run aerators gently under ice: mixing the whole pond chills the 4 °C bottom water the fish shelter in': 'برف کے نیچے ہوا دہندہ آلات آہستہ چلائیں: پورے تالاب کو ملانے سے تہہ کا 4 °C پانی ٹھنڈا ہو جاتا ہے جس میں مچھلیاں پناہ لیتی ہیں',
+  'Sweep snow off part of the ice so light reaches the water': 'برف کے کچھ حصے سے برف باری ہٹا دیں تاکہ روشنی پانی تک پہنچے',
+  'Stop feeding and remove dead fish before oxygen falls; both add to the demand': 'آکسیجن گرنے سے پہلے خوراک بند کریں اور مردہ مچھلیاں نکالیں؛ دونوں طلب بڑھاتے ہیں',
+  'Measure oxygen through a hole every two or three days and start aeration or inflow before the safe level': 'ہر دو تین دن میں سوراخ سے آکسیجن ناپیں اور محفوظ سطح سے پہلے ہوا دہی یا پانی کی آمد شروع کریں',
+  'Raise the water level before freeze-up or move the stock to deeper ponds; ice will take over half the depth': 'جمنے سے پہلے پانی کی سطح بڑھائیں یا ذخیرہ گہرے تالابوں میں منتقل کریں؛ برف آدھی سے زیادہ گہرائی لے لے گی',
+  'The inflow holds too little oxygen to help; aerate it over a cascade or splash board first': 'آنے والے پانی میں بہت کم آکسیجن ہے؛ پہلے اسے آبشار یا اسپلیش بورڈ سے ہوا دیں',
+  'Winter Feeding Schedule': 'سردیوں کا خوراک کا شیڈول',
+  'Add a species to the stock for a feeding schedule.': 'خوراک کے شیڈول کے لیے ذخیرے میں ایک نوع شامل کریں۔',
+  'Week of': 'ہفتہ',
+  'Water (°C)': 'پانی (°C)',
+  'Ice': 'برف',
+  'Normal ration': 'معمول کی خوراک',
+  'Reduced ration': 'کم کی گئی خوراک',
+  'Maintenance ration on milder days': 'کم سرد دنوں میں بنیادی خوراک',
+  'Stop feeding': 'خوراک بند کریں',
+  'Stop feeding until oxygen recovers': 'آکسیجن بحال ہونے تک خوراک بند کریں',
+  'Enter the pond, its stock and the winter air temperatures to forecast ice and under-ice oxygen.': 'برف اور برف کے نیچے آکسیجن کی پیش گوئی کے لیے تالاب، اس کا ذخیرہ اور سردیوں کا ہوا کا درجہ حرارت درج کریں۔',
+  'Between 10 and 5000': '10 اور 5000 کے درمیان',
+};
+
+export default messages;
@@ -31,6 +31,15 @@ import {
   Warning,
   CheckCircle,
 } from '@mui/icons-material';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondDimensions, savePondResult, toFieldValue } from '../utils/ponds';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import { calculateAeration } from '../engine';
+import type { AerationResult } from '../engine';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useSite } from '../contexts/SiteContext';
 
 interface AerationData {
   // Pond Dimensions
@@ -46,27 +55,9 @@ interface AerationData {
   // Water Parameters
   temperature: string;
   dissolvedOxygen: string;
+  salinity: string;
 }
 
-interface AerationAnalysis {
-  waterVolume: number;
-  fishBiomass: number;
-  oxygenDemand: number;
-  requiredAerators: number;
-  aeratorType: string;
-  maintenanceSchedule: string[];
-  energyCost: number;
-  recommendations: string[];
-  riskLevel: 'low' | 'medium' | 'high';
-}
-
-const fishSpeciesList = [
-  { value: 'carp', name: 'Common Carp', oxygenDemand: 0.2 },
-  { value: 'tilapia', name: 'Tilapia', oxygenDemand: 0.25 },
-  { value: 'catfish', name: 'Catfish', oxygenDemand: 0.3 },
-  { value: 'trout', name: 'Rainbow Trout', oxygenDemand: 0.35 },
-];
-
 const initialFormData: AerationData = {
   length: '',
   width: '',
@@ -76,11 +67,17 @@ const initialFormData: AerationData = {
   averageWeight: '',
   temperature: '',
   dissolvedOxygen: '',
+  salinity: '',
 };
 
 export default function AerationCalculator() {
+  const { format } = useUnits();
+  const { settings, formatMoney } = useCurrency();
+  const { pressure } = useSite();
   const [formData, setFormData] = useState<AerationData>(initialFormData);
-  const [analysis, setAnalysis] = useState<AerationAnalysis | null>(null);
+  const [analysis, setAnalysis] = useState<AerationResult | null>(null);
+  const [pondId, setPondId] = useState('');
+  const { catalog } = useSpeciesCatalog();
 
   const handleChange = (field: keyof AerationData) => (
     event: React.ChangeEvent<HTMLInputElement | { value: unknown }>
@@ -91,72 +88,54 @@ export default function AerationCalculator() {
     }));
   };
 
-  const calculateAeration = () => {
-    // Calculate water volume (m³)
-    const length = parseFloat(formData.length);
-    const width = parseFloat(formData.width);
-    const depth = parseFloat(formData.depth);
-    const waterVolume = length * width * depth;
-
-    // Calculate fish biomass (kg)
-    const quantity = parseFloat(formData.fishQuantity);
-    const weight = parseFloat(formData.averageWeight);
-    const fishBiomass = quantity * weight;
-
-    // Calculate oxygen demand
-    const selectedSpecies = fishSpeciesList.find(s => s.value === formData.fishSpecies);
-    const baseOxygenDemand = selectedSpecies?.oxygenDemand || 0.25; // kg O₂/kg fish/day
-    const temperature = parseFloat(formData.temperature);
-    const temperatureFactor = 1 + (temperature - 25) * 0.02; // 2% increase per °C above 25°C
-    const oxygenDemand = fishBiomass * baseOxygenDemand * temperatureFactor;
-
-    // Calculate required aerators (assuming 1 aerator provides 2 kg O₂/hour)
-    const requiredAerators = Math.ceil(oxygenDemand / (2 * 24));
-
-    // Estimate energy cost (assuming 1 kW per aerator, $0.12 per kWh)
-    const dailyEnergyCost = requiredAerators * 1 * 24 * 0.12;
-
-    // Generate maintenance schedule
-    const maintenanceSchedule = [
-      'Daily: Check aerator operation and clean water inlets',
-      'Weekly: Inspect electrical connections and mounting hardware',
-      'Monthly: Clean/replace filters and check motor bearings',
-      'Quarterly: Full system inspection and performance testing',
-    ];
-
-    // Generate recommendations
-    const recommendations = [
-      `Install ${requiredAerators} aerators with minimum 1 HP capacity each`,
-      'Position aerators to ensure uniform oxygen distribution',
-      'Implement backup power system for emergency situations',
-      'Monitor dissolved oxygen levels during early morning hours',
-    ];
-
-    // Determine risk level
-    let riskLevel: 'low' | 'medium' | 'high' = 'low';
-    const currentDO = parseFloat(formData.dissolvedOxygen);
-    if (currentDO < 3) {
-      riskLevel = 'high';
-    } else if (currentDO < 5) {
-      riskLevel = 'medium';
-    }
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    const { length, width, depth } = getPondDimensions(pond);
+    setFormData((prev) => ({
+      ...prev,
+      length: toFieldValue(length),
+      width: toFieldValue(width),
+      depth: toFieldValue(depth),
+    }));
+  };
 
-    setAnalysis({
-      waterVolume,
-      fishBiomass,
-      oxygenDemand,
-      requiredAerators,
-      aeratorType: '1 HP Paddle Wheel Aerator',
-      maintenanceSchedule,
-      energyCost: dailyEnergyCost,
-      recommendations,
-      riskLevel,
+  const handleCalculate = () => {
+    const selectedSpecies = findSpecies(catalog, formData.fishSpecies);
+    const result = calculateAeration({
+      length: parseFloat(formData.length),
+      width: parseFloat(formData.width),
+      depth: parseFloat(formData.depth),
+      fishQuantity: parseFloat(formData.fishQuantity),
+      averageWeight: parseFloat(formData.averageWeight),
+      oxygenConsumption: selectedSpecies?.production.oxygenConsumption,
+      temperature: parseFloat(formData.temperature),
+      dissolvedOxygen: parseFloat(formData.dissolvedOxygen),
+      salinity: parseFloat(formData.salinity) || 0,
+      pressure,
+      energyPrice: settings.electricityTariff,
     });
+    setAnalysis(result);
+
+    if (pondId) {
+      const { requiredAerators, oxygenDemand, fishBiomass, aeratorOutput, riskLevel } = result;
+      savePondResult(pondId, 'aeration', {
+        summary: `${requiredAerators} aerator(s), ${oxygenDemand.toFixed(1)} kg O₂/day demand, ${riskLevel} risk`,
+        values: {
+          requiredAerators,
+          oxygenDemand,
+          fishBiomass,
+          aeratorOutput,
+          dailyEnergyCost: result.energyCost,
+          riskLevel,
+        },
+      });
+    }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    calculateAeration();
+    handleCalculate();
   };
 
   return (
@@ -174,6 +153,9 @@ export default function AerationCalculator() {
                 <Pool color="primary" /> Pond Dimensions
               </Typography>
               <Grid container spacing={2} sx={{ mb: 3 }}>
+                <Grid item xs={12}>
+                  <PondPicker value={pondId} onChange={handlePondSelect} />
+                </Grid>
                 <Grid item xs={12} sm={4}>
                   <TextField
                     fullWidth
@@ -219,8 +201,8 @@ export default function AerationCalculator() {
                       label="Fish Species"
                       onChange={handleChange('fishSpecies')}
                     >
-                      {fishSpeciesList.map((species) => (
-                        <MenuItem key={species.value} value={species.value}>
+                      {catalog.map((species) => (
+                        <MenuItem key={species.id} value={species.id}>
                           {species.name}
                         </MenuItem>
                       ))}
@@ -254,7 +236,7 @@ export default function AerationCalculator() {
                 <Science color="primary" /> Water Parameters
               </Typography>
               <Grid container spacing={2} sx={{ mb: 3 }}>
-                <Grid item xs={12} sm={6}>
+                <Grid item xs={12} sm={4}>
                   <TextField
                     fullWidth
                     label="Temperature (°C)"
@@ -264,7 +246,7 @@ export default function AerationCalculator() {
                     required
                   />
                 </Grid>
-                <Grid item xs={12} sm={6}>
+                <Grid item xs={12} sm={4}>
                   <TextField
                     fullWidth
                     label="Dissolved Oxygen (mg/L)"
@@ -274,6 +256,21 @@ export default function AerationCalculator() {
                     required
                   />
                 </Grid>
+                <Grid item xs={12} sm={4}>
+                  <TextField
+                    fullWidth
+                    label="Salinity (ppt)"
+                    type="number"
+                    value={formData.salinity}
+                    onChange={handleChange('salinity')}
+                    helperText="Leave empty for fresh water"
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    Site pressure {pressure.toFixed(1)} kPa, from the elevation in Settings.
+                  </Typography>
+                </Grid>
               </Grid>
 
               <Button
@@ -324,19 +321,31 @@ export default function AerationCalculator() {
                         <ListItem>
                           <ListItemText 
                             primary="Water Volume"
-                            secondary={`${analysis.waterVolume.toFixed(1)} m³`}
+                            secondary={format(analysis.waterVolume, 'm³', 1)}
                           />
                         </ListItem>
                         <ListItem>
                           <ListItemText 
                             primary="Fish Biomass"
-                            secondary={`${analysis.fishBiomass.toFixed(1)} kg`}
+                            secondary={format(analysis.fishBiomass, 'kg', 1)}
                           />
                         </ListItem>
                         <ListItem>
                           <ListItemText 
                             primary="Oxygen Demand"
-                            secondary={`${analysis.oxygenDemand.toFixed(1)} kg O₂/day`}
+                            secondary={`${format(analysis.oxygenDemand, 'kg', 1)} O₂/day`}
+                          />
+                        </ListItem>
+                        <ListItem>
+                          <ListItemText 
+                            primary="Oxygen Saturation"
+                            secondary={`${analysis.oxygenSaturation.toFixed(2)} mg/L (reading ${analysis.percentSaturation.toFixed(0)}%)`}
+                          />
+                        </ListItem>
+                        <ListItem>
+                          <ListItemText 
+                            primary="Aerator Output at Site"
+                            secondary={`${analysis.aeratorOutput.toFixed(2)} kg O₂/hour each`}
                           />
                         </ListItem>
                         <ListItem>
@@ -360,13 +369,13 @@ export default function AerationCalculator() {
                         <ListItem>
                           <ListItemText 
                             primary="Daily Energy Cost"
-                            secondary={`$${analysis.energyCost.toFixed(2)}`}
+                            secondary={formatMoney(analysis.energyCost)}
                           />
                         </ListItem>
                         <ListItem>
                           <ListItemText 
                             primary="Monthly Energy Cost"
-                            secondary={`$${(analysis.energyCost * 30).toFixed(2)}`}
+                            secondary={formatMoney(analysis.energyCost * 30)}
                           />
                         </ListItem>
                       </List>
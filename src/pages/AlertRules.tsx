@@ -0,0 +1,346 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Switch,
+  FormControlLabel,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { useAlerts } from '../contexts/AlertContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { deleteRecord, putRecord, useCollection } from '../db';
+import { waterQualityParameters } from '../engine';
+import type { AlertEvent, AlertRule, AlertSeverity, WaterQualityParameter } from '../types/records';
+import {
+  alertMetricOptions,
+  alertText,
+  comparatorOptions,
+  emptyAlertRule,
+  severityColors,
+  severityLabel,
+  severityOptions,
+} from '../utils/alerts';
+
+// Longest history shown; older events stay in the store and in backups.
+const HISTORY_LIMIT = 200;
+
+const isWaterQuality = (metric: AlertRule['metric']): metric is WaterQualityParameter =>
+  metric in waterQualityParameters;
+
+const actionLabels: Record<AlertEvent['history'][number]['action'], string> = {
+  raised: 'Raised',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  cleared: 'Cleared',
+};
+
+export default function AlertRules() {
+  const { t } = useLanguage();
+  const [rules] = useCollection('alertRules');
+  const [ponds] = useCollection('ponds');
+  const { events, acknowledge } = useAlerts();
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState<Omit<AlertRule, 'id'>>(emptyAlertRule);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [openOnly, setOpenOnly] = useState(false);
+
+  const pondName = (pondId: string) =>
+    pondId ? ponds.find((pond) => pond.id === pondId)?.name ?? pondId : t('All ponds');
+
+  const condition = (rule: Omit<AlertRule, 'id'>) => {
+    if (rule.metric === 'lowStock') return t('Quantity at or below the item minimum');
+    if (rule.metric === 'overdueTasks') return t('Pending more than {days} days past its date', { days: rule.threshold });
+    const range = waterQualityParameters[rule.metric];
+    const text = t(rule.comparator === 'below' ? '{parameter} below {threshold} {unit}' : '{parameter} above {threshold} {unit}', {
+      parameter: t(range.name),
+      threshold: rule.threshold,
+      unit: range.unit,
+    });
+    return rule.durationMinutes > 0
+      ? `${text}, ${t('for {minutes} min', { minutes: rule.durationMinutes })}`
+      : text;
+  };
+
+  const handleOpenDialog = (rule?: AlertRule) => {
+    setFormData(rule ?? emptyAlertRule);
+    setEditingId(rule?.id ?? null);
+    setOpenDialog(true);
+  };
+
+  const handleChange = (field: keyof Omit<AlertRule, 'id'>) => (value: string | number | string[]) => {
+    const numeric = field === 'threshold' || field === 'durationMinutes';
+    setFormData((prev) => ({ ...prev, [field]: numeric ? Number(value) || 0 : value }));
+  };
+
+  const handleSave = async () => {
+    const rule: AlertRule = {
+      ...formData,
+      id: editingId ?? Date.now().toString(),
+      name: formData.name.trim() || condition(formData),
+      pondId: isWaterQuality(formData.metric) ? formData.pondId : '',
+    };
+    try {
+      await putRecord('alertRules', rule);
+      setOpenDialog(false);
+    } catch (error) {
+      console.error('Failed to save alert rule', error);
+    }
+  };
+
+  const handleToggle = (rule: AlertRule) => {
+    putRecord('alertRules', { ...rule, enabled: !rule.enabled }).catch((error) => {
+      console.error('Failed to save alert rule', error);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    deleteRecord('alertRules', id).catch((error) => {
+      console.error('Failed to delete alert rule', error);
+    });
+  };
+
+  const status = (event: AlertEvent) => {
+    if (event.clearedAt) return t('Cleared {date}', { date: new Date(event.clearedAt).toLocaleString() });
+    if (event.acknowledgedAt) return t('Acknowledged');
+    if (event.snoozedUntil && new Date(event.snoozedUntil) > new Date()) {
+      return t('Snoozed until {date}', { date: new Date(event.snoozedUntil).toLocaleString() });
+    }
+    return t('Open');
+  };
+
+  const history = events
+    .filter((event) => !openOnly || !event.clearedAt)
+    .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt))
+    .slice(0, HISTORY_LIMIT);
+
+  const metric = formData.metric;
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h5">{t('Alert Rules')}</Typography>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            {t('Add Rule')}
+          </Button>
+        </Box>
+        <Typography color="text.secondary" paragraph>
+          {t('Rules are checked against saved readings, live sensor values, inventory and the production calendar. Alerts appear under the bell at the top of the page.')}
+        </Typography>
+        {rules.length === 0 ? (
+          <Alert severity="info">{t('No alert rules yet.')}</Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Name')}</TableCell>
+                  <TableCell>{t('Condition')}</TableCell>
+                  <TableCell>{t('Pond')}</TableCell>
+                  <TableCell>{t('Severity')}</TableCell>
+                  <TableCell>{t('Actions')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} sx={{ opacity: rule.enabled ? 1 : 0.5 }}>
+                    <TableCell>{t(rule.name)}</TableCell>
+                    <TableCell>{condition(rule)}</TableCell>
+                    <TableCell>{isWaterQuality(rule.metric) ? pondName(rule.pondId) : '—'}</TableCell>
+                    <TableCell>
+                      <Chip size="small" color={severityColors[rule.severity]} label={t(severityLabel(rule.severity))} />
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <Switch size="small" checked={rule.enabled} onChange={() => handleToggle(rule)} />
+                      <IconButton size="small" onClick={() => handleOpenDialog(rule)}>
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => handleDelete(rule.id)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">{t('Alert History')}</Typography>
+          <FormControlLabel
+            control={<Switch checked={openOnly} onChange={(event) => setOpenOnly(event.target.checked)} />}
+            label={t('Open only')}
+          />
+        </Box>
+        {history.length === 0 ? (
+          <Alert severity="success">{t('No alerts so far.')}</Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Raised')}</TableCell>
+                  <TableCell>{t('Severity')}</TableCell>
+                  <TableCell>{t('Alert')}</TableCell>
+                  <TableCell>{t('Status')}</TableCell>
+                  <TableCell>{t('Audit trail')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {history.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(event.raisedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Chip size="small" color={severityColors[event.severity]} label={t(severityLabel(event.severity))} />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{t(event.ruleName)}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {alertText(event, t)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {status(event)}
+                      {!event.clearedAt && !event.acknowledgedAt && (
+                        <Button size="small" onClick={() => acknowledge(event)}>
+                          {t('Acknowledge')}
+                        </Button>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {event.history.map((entry, index) => (
+                        <Typography variant="body2" color="text.secondary" key={index}>
+                          {new Date(entry.at).toLocaleString()}: {t(actionLabels[entry.action])}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Dialog open={openDialog} onClose={() => setOpenDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? t('Edit Rule') : t('Add Rule')}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12}>
+              <FormField
+                label="Name"
+                value={formData.name}
+                onChange={handleChange('name')}
+                helperText="Leave blank to name the rule after its condition"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Watch"
+                value={metric}
+                onChange={handleChange('metric')}
+                type="select"
+                options={alertMetricOptions}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Severity"
+                value={formData.severity}
+                onChange={(value) => setFormData((prev) => ({ ...prev, severity: value as AlertSeverity }))}
+                type="select"
+                options={severityOptions}
+              />
+            </Grid>
+            {isWaterQuality(metric) && (
+              <>
+                <Grid item xs={12}>
+                  <PondPicker
+                    value={formData.pondId}
+                    onChange={(pond) => setFormData((prev) => ({ ...prev, pondId: pond?.id ?? '' }))}
+                    label={t('Pond (none for every pond)')}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4}>
+                  <FormField
+                    label="When"
+                    value={formData.comparator}
+                    onChange={handleChange('comparator')}
+                    type="select"
+                    options={comparatorOptions}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4}>
+                  <FormField
+                    label={
+                      waterQualityParameters[metric].unit
+                        ? `${t('Threshold')} (${waterQualityParameters[metric].unit})`
+                        : 'Threshold'
+                    }
+                    value={formData.threshold}
+                    onChange={handleChange('threshold')}
+                    type="number"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={4}>
+                  <FormField
+                    label="For at least (minutes)"
+                    value={formData.durationMinutes}
+                    onChange={handleChange('durationMinutes')}
+                    type="number"
+                    helperText="Readings must stay past the limit over this span; 0 alerts on the first reading"
+                  />
+                </Grid>
+              </>
+            )}
+            {metric === 'overdueTasks' && (
+              <Grid item xs={12} sm={6}>
+                <FormField
+                  label="Days overdue before alerting"
+                  value={formData.threshold}
+                  onChange={handleChange('threshold')}
+                  type="number"
+                />
+              </Grid>
+            )}
+            {metric === 'lowStock' && (
+              <Grid item xs={12}>
+                <Alert severity="info">
+                  {t('Uses the minimum set on each inventory item.')}
+                </Alert>
+              </Grid>
+            )}
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenDialog(false)}>{t('Cancel')}</Button>
+          <Button variant="contained" onClick={handleSave}>
+            {t('Save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
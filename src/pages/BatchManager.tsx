@@ -0,0 +1,525 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Card,
+  CardContent,
+  Chip,
+  Tabs,
+  Tab,
+  Link,
+  Alert,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ArrowForward as ArrowForwardIcon,
+} from '@mui/icons-material';
+import FormField from '../components/FormField';
+import { useCollection } from '../db';
+import { useSpeciesCatalog, findSpecies, speciesOptions } from '../species';
+import type { Batch, BatchStatus } from '../types/records';
+import {
+  emptyBatch,
+  batchStatusLabel,
+  nextBatchStatus,
+  today,
+  getStockOnHand,
+  getSurvivalRate,
+  getCurrentWeight,
+  getBiomass,
+  getBiomassGain,
+  getTotalFeed,
+  getHarvestedWeight,
+  getDaysSinceStocking,
+} from '../utils/batches';
+import type { BatchLog } from '../utils/batches';
+
+interface LogField {
+  field: string;
+  label: string;
+  type: 'text' | 'number' | 'date';
+}
+
+const dateField: LogField = { field: 'date', label: 'Date', type: 'date' };
+
+const batchLogs: { log: BatchLog; label: string; fields: LogField[] }[] = [
+  {
+    log: 'growthSamples',
+    label: 'Growth Samples',
+    fields: [
+      dateField,
+      { field: 'weight', label: 'Mean Weight (g)', type: 'number' },
+      { field: 'length', label: 'Mean Length (cm)', type: 'number' },
+      { field: 'sampleSize', label: 'Sample Size', type: 'number' },
+      { field: 'notes', label: 'Notes', type: 'text' },
+    ],
+  },
+  {
+    log: 'feedLogs',
+    label: 'Feed',
+    fields: [
+      dateField,
+      { field: 'amount', label: 'Amount (kg)', type: 'number' },
+      { field: 'feedType', label: 'Feed Type', type: 'text' },
+      { field: 'notes', label: 'Notes', type: 'text' },
+    ],
+  },
+  {
+    log: 'mortalities',
+    label: 'Mortalities',
+    fields: [
+      dateField,
+      { field: 'count', label: 'Fish Lost', type: 'number' },
+      { field: 'cause', label: 'Cause', type: 'text' },
+    ],
+  },
+  {
+    log: 'treatments',
+    label: 'Treatments',
+    fields: [
+      dateField,
+      { field: 'product', label: 'Product', type: 'text' },
+      { field: 'reason', label: 'Reason', type: 'text' },
+      { field: 'dose', label: 'Dose', type: 'text' },
+      { field: 'notes', label: 'Notes', type: 'text' },
+    ],
+  },
+  {
+    log: 'harvests',
+    label: 'Harvests',
+    fields: [
+      dateField,
+      { field: 'count', label: 'Fish Count', type: 'number' },
+      { field: 'weight', label: 'Total Weight (kg)', type: 'number' },
+      { field: 'pricePerKg', label: 'Price per kg', type: 'number' },
+      { field: 'notes', label: 'Notes', type: 'text' },
+    ],
+  },
+];
+
+const statusColor = (status: BatchStatus) => {
+  switch (status) {
+    case 'planned':
+      return 'default';
+    case 'stocked':
+      return 'info';
+    case 'growing':
+      return 'success';
+    case 'harvesting':
+      return 'warning';
+    default:
+      return 'secondary';
+  }
+};
+
+export default function BatchManager() {
+  const [batches, setBatches] = useCollection('batches');
+  const [ponds] = useCollection('ponds');
+  const { catalog } = useSpeciesCatalog();
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState<Omit<Batch, 'id'>>(emptyBatch);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeLog, setActiveLog] = useState(0);
+  const [entry, setEntry] = useState<Record<string, string>>({ date: today() });
+
+  const selectedBatch = batches.find((batch) => batch.id === selectedId) ?? null;
+  const currentLog = batchLogs[activeLog];
+  const pondName = (pondId: string) => ponds.find((pond) => pond.id === pondId)?.name ?? '—';
+  const speciesName = (speciesId: string) => findSpecies(catalog, speciesId)?.name ?? speciesId;
+
+  const updateBatch = (id: string, update: (batch: Batch) => Batch) => {
+    setBatches((prev) => prev.map((batch) => (batch.id === id ? update(batch) : batch)));
+  };
+
+  const handleOpenDialog = (batch?: Batch) => {
+    if (batch) {
+      setFormData(batch);
+      setEditingId(batch.id);
+    } else {
+      setFormData({ ...emptyBatch, stockingDate: today() });
+      setEditingId(null);
+    }
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setFormData(emptyBatch);
+    setEditingId(null);
+  };
+
+  const handleChange = (field: 'name' | 'pondId' | 'speciesId' | 'stockingDate' | 'count' | 'meanWeight' | 'hatchery' | 'notes') => (
+    value: string | number | string[]
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: typeof prev[field] === 'number' ? Number(value) || 0 : value,
+    }));
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name || !formData.speciesId) return;
+    if (editingId) {
+      updateBatch(editingId, (batch) => ({ ...batch, ...formData, id: editingId }));
+    } else {
+      const id = Date.now().toString();
+      setBatches((prev) => [...prev, { ...formData, id }]);
+      setSelectedId(id);
+    }
+    handleCloseDialog();
+  };
+
+  const handleDelete = (id: string) => {
+    setBatches((prev) => prev.filter((batch) => batch.id !== id));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  const handleAdvance = (batch: Batch) => {
+    const next = nextBatchStatus(batch.status);
+    if (next) {
+      updateBatch(batch.id, (current) => ({ ...current, status: next }));
+    }
+  };
+
+  const handleAddEntry = () => {
+    if (!selectedBatch) return;
+    const values = Object.fromEntries(
+      currentLog.fields.map(({ field, type }) => [
+        field,
+        type === 'number' ? Number(entry[field]) || 0 : entry[field] ?? '',
+      ])
+    );
+    const record = currentLog.log === 'growthSamples' ? values : { id: Date.now().toString(), ...values };
+    updateBatch(selectedBatch.id, (batch) => ({
+      ...batch,
+      [currentLog.log]: [...batch[currentLog.log], record],
+    }));
+    setEntry({ date: entry.date });
+  };
+
+  const handleDeleteEntry = (index: number) => {
+    if (!selectedBatch) return;
+    updateBatch(selectedBatch.id, (batch) => ({
+      ...batch,
+      [currentLog.log]: batch[currentLog.log].filter((_, i) => i !== index),
+    }));
+  };
+
+  const biomassGain = selectedBatch ? getBiomassGain(selectedBatch) : 0;
+  const totalFeed = selectedBatch ? getTotalFeed(selectedBatch) : 0;
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Production Batches
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        Follow each production cycle from planning through stocking, grow-out and harvest. Growth samples, feed, mortalities,
+        treatments and harvests are kept with the batch.
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            New Batch
+          </Button>
+        </Grid>
+
+        <Grid item xs={12}>
+          <Paper>
+            {batches.length === 0 ? (
+              <Box sx={{ p: 3 }}>
+                <Typography color="text.secondary">No batches yet.</Typography>
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Batch</TableCell>
+                      <TableCell>Species</TableCell>
+                      <TableCell>Pond</TableCell>
+                      <TableCell>Stocked</TableCell>
+                      <TableCell align="right">Fish on Hand</TableCell>
+                      <TableCell align="right">Biomass (kg)</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {batches.map((batch) => (
+                      <TableRow
+                        key={batch.id}
+                        hover
+                        selected={batch.id === selectedId}
+                        onClick={() => setSelectedId(batch.id)}
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell>{batch.name}</TableCell>
+                        <TableCell>{speciesName(batch.speciesId)}</TableCell>
+                        <TableCell>{pondName(batch.pondId)}</TableCell>
+                        <TableCell>{batch.stockingDate}</TableCell>
+                        <TableCell align="right">{getStockOnHand(batch).toLocaleString()}</TableCell>
+                        <TableCell align="right">{getBiomass(batch).toFixed(1)}</TableCell>
+                        <TableCell>
+                          <Chip size="small" label={batchStatusLabel(batch.status)} color={statusColor(batch.status)} />
+                        </TableCell>
+                        <TableCell>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleOpenDialog(batch);
+                            }}
+                          >
+                            <EditIcon />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(batch.id);
+                            }}
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Grid>
+
+        {selectedBatch && (
+          <Grid item xs={12}>
+            <Card>
+              <CardContent>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+                  <Box>
+                    <Typography variant="h6">
+                      {selectedBatch.name} · {speciesName(selectedBatch.speciesId)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      Day {getDaysSinceStocking(selectedBatch)} · {selectedBatch.count.toLocaleString()} stocked at{' '}
+                      {selectedBatch.meanWeight} g
+                      {selectedBatch.hatchery && ` from ${selectedBatch.hatchery}`}
+                    </Typography>
+                  </Box>
+                  {nextBatchStatus(selectedBatch.status) && (
+                    <Button
+                      variant="outlined"
+                      endIcon={<ArrowForwardIcon />}
+                      onClick={() => handleAdvance(selectedBatch)}
+                    >
+                      Mark as {batchStatusLabel(nextBatchStatus(selectedBatch.status) as BatchStatus)}
+                    </Button>
+                  )}
+                </Box>
+
+                <Grid container spacing={2} sx={{ mt: 1 }}>
+                  {[
+                    { label: 'Survival', value: `${getSurvivalRate(selectedBatch).toFixed(1)}%` },
+                    { label: 'Current Weight', value: `${getCurrentWeight(selectedBatch).toFixed(1)} g` },
+                    { label: 'Feed Used', value: `${totalFeed.toFixed(1)} kg` },
+                    { label: 'FCR', value: biomassGain > 0 && totalFeed > 0 ? (totalFeed / biomassGain).toFixed(2) : '—' },
+                    { label: 'Harvested', value: `${getHarvestedWeight(selectedBatch).toFixed(1)} kg` },
+                  ].map((stat) => (
+                    <Grid item xs={6} sm={4} md={2.4} key={stat.label}>
+                      <Typography variant="caption" color="text.secondary">
+                        {stat.label}
+                      </Typography>
+                      <Typography variant="h6">{stat.value}</Typography>
+                    </Grid>
+                  ))}
+                </Grid>
+
+                <Tabs
+                  value={activeLog}
+                  onChange={(_, value) => setActiveLog(value)}
+                  variant="scrollable"
+                  sx={{ mt: 2, borderBottom: 1, borderColor: 'divider' }}
+                >
+                  {batchLogs.map(({ log, label }) => (
+                    <Tab key={log} label={`${label} (${selectedBatch[log].length})`} />
+                  ))}
+                </Tabs>
+
+                {currentLog.log === 'growthSamples' && (
+                  <Alert severity="info" sx={{ mt: 2 }}>
+                    Samples can also be recorded and charted in the{' '}
+                    <Link component={RouterLink} to="/growth-tracker">
+                      Growth Tracker
+                    </Link>
+                    .
+                  </Alert>
+                )}
+
+                <Grid container spacing={2} sx={{ mt: 1 }}>
+                  {currentLog.fields.map(({ field, label, type }) => (
+                    <Grid item xs={12} sm={6} md key={field}>
+                      <FormField
+                        label={label}
+                        type={type}
+                        value={entry[field] ?? ''}
+                        onChange={(value) => setEntry((prev) => ({ ...prev, [field]: String(value) }))}
+                      />
+                    </Grid>
+                  ))}
+                  <Grid item xs={12} md="auto" sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Button variant="contained" onClick={handleAddEntry} disabled={!entry.date}>
+                      Add
+                    </Button>
+                  </Grid>
+                </Grid>
+
+                {selectedBatch[currentLog.log].length > 0 && (
+                  <TableContainer sx={{ mt: 2 }}>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          {currentLog.fields.map(({ field, label }) => (
+                            <TableCell key={field}>{label}</TableCell>
+                          ))}
+                          <TableCell />
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {(selectedBatch[currentLog.log] as object[]).map((row, index) => (
+                          <TableRow key={index}>
+                            {currentLog.fields.map(({ field }) => (
+                              <TableCell key={field}>{String((row as Record<string, unknown>)[field] ?? '')}</TableCell>
+                            ))}
+                            <TableCell>
+                              <IconButton size="small" onClick={() => handleDeleteEntry(index)}>
+                                <DeleteIcon />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+      </Grid>
+
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? 'Edit Batch' : 'New Batch'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} sm={6}>
+              <FormField label="Batch Name" value={formData.name} onChange={handleChange('name')} required />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Species"
+                type="select"
+                value={formData.speciesId}
+                onChange={handleChange('speciesId')}
+                options={speciesOptions(catalog)}
+                required
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Pond"
+                type="select"
+                value={formData.pondId}
+                onChange={handleChange('pondId')}
+                options={ponds.map((pond) => ({ value: pond.id, label: pond.name }))}
+                helperText={ponds.length === 0 ? 'Register ponds in the Pond Registry' : undefined}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Stocking Date"
+                type="date"
+                value={formData.stockingDate}
+                onChange={handleChange('stockingDate')}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <FormField label="Fish Stocked" type="number" value={formData.count} onChange={handleChange('count')} />
+            </Grid>
+            <Grid item xs={6}>
+              <FormField
+                label="Mean Weight at Stocking"
+                unit="g"
+                type="number"
+                value={formData.meanWeight}
+                onChange={handleChange('meanWeight')}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormField label="Source Hatchery" value={formData.hatchery} onChange={handleChange('hatchery')} />
+            </Grid>
+            <Grid item xs={12}>
+              <FormField label="Notes" value={formData.notes} onChange={handleChange('notes')} />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={!formData.name || !formData.speciesId}>
+            {editingId ? 'Save Changes' : 'Create Batch'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* SEO-optimized Blog Content */}
+      <Paper elevation={3} sx={{ p: 3, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          🐟 Production Batches: Managing Each Crop from Stocking to Harvest
+        </Typography>
+        <Typography variant="body1" paragraph>
+          A batch is one group of fish stocked together. Recording every sample, feed delivery, loss and treatment against it gives
+          you true survival, feed conversion and yield for each crop, and makes the next cycle easier to plan. 📈
+        </Typography>
+
+        <Typography variant="h5" gutterBottom sx={{ mt: 3 }}>
+          🔄 Batch Lifecycle
+        </Typography>
+        <Typography variant="body1" component="div">
+          <ul>
+            <li><strong>Planned:</strong> Pond, species and seed order agreed</li>
+            <li><strong>Stocked:</strong> Fish released into the pond</li>
+            <li><strong>Growing:</strong> Regular sampling and feeding</li>
+            <li><strong>Harvesting:</strong> Partial or full harvests under way</li>
+            <li><strong>Closed:</strong> Pond emptied and results final</li>
+          </ul>
+        </Typography>
+
+        <Typography variant="body2" sx={{ mt: 4, color: 'text.secondary' }}>
+          Last Updated: January 2025 | Written by Aquaculture Production Specialists
+        </Typography>
+      </Paper>
+    </Container>
+  );
+}
@@ -26,6 +26,11 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, findSpecies, speciesOptions } from '../species';
+import type { DiseaseCategory, Susceptibility } from '../species';
+import { useLanguage } from '../contexts/LanguageContext';
+import { assessAmmonia, assessNitrite, toxicityThresholds } from '../engine';
+import type { QualityStatus } from '../engine';
 
 interface CriticalParameters {
   temperature: { min: number; max: number };
@@ -51,6 +56,8 @@ interface FormData {
   riskFactors: string[];
   ammonia: string;
   nitrite: string;
+  chloride: string;
+  salinity: string;
   species: string;
   ageGroup: string;
   feedType: string;
@@ -112,6 +119,7 @@ interface DiseaseRisk {
 
 interface DiseaseInfo {
   name: string;
+  category: DiseaseCategory;
   symptoms: string[];
   treatments: string[];
   prevention: string[];
@@ -142,6 +150,8 @@ const initialFormData: FormData = {
   riskFactors: [],
   ammonia: '',
   nitrite: '',
+  chloride: '',
+  salinity: '',
   species: '',
   ageGroup: '',
   feedType: '',
@@ -198,6 +208,7 @@ const previousDiseasesList = [
 const diseases: DiseaseInfo[] = [
   {
     name: 'White Spot Disease (Ich)',
+    category: 'parasitic',
     symptoms: ['White spots on skin', 'Flashing behavior', 'Rapid breathing'],
     treatments: [
       'Increase temperature to 30°C gradually',
@@ -219,6 +230,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Bacterial Gill Disease',
+    category: 'bacterial',
     symptoms: ['Red/inflamed gills', 'Gasping at surface', 'Excess mucus production'],
     treatments: [
       'Antibiotic treatment under veterinary guidance',
@@ -238,6 +250,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Columnaris Disease',
+    category: 'bacterial',
     symptoms: ['Skin lesions', 'Cotton-like growth', 'Fin rot'],
     treatments: [
       'Antibiotic treatment',
@@ -257,6 +270,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Saprolegniasis (Fungal Infection)',
+    category: 'fungal',
     symptoms: ['Cotton-like growth', 'Scale loss', 'Lethargy'],
     treatments: [
       'Salt bath treatment',
@@ -276,6 +290,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Aeromonas Infection',
+    category: 'bacterial',
     symptoms: ['Ulcers', 'Hemorrhages', 'Pop-eye condition'],
     treatments: [
       'Antibiotic treatment',
@@ -295,6 +310,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Trichodiniasis',
+    category: 'parasitic',
     symptoms: ['Excess mucus production', 'Lethargy', 'Scale loss', 'Rapid breathing'],
     treatments: [
       'Formalin bath treatment',
@@ -319,6 +335,7 @@ const diseases: DiseaseInfo[] = [
   },
   {
     name: 'Streptococcosis',
+    category: 'bacterial',
     symptoms: ['Erratic swimming', 'Pop-eye condition', 'Hemorrhages', 'Dark body color'],
     treatments: [
       'Antibiotic treatment under veterinary guidance',
@@ -386,7 +403,22 @@ const seasonalPatterns: SeasonalPattern[] = [
   }
 ];
 
+const toxicityRisk: Record<QualityStatus, { value: number; status: RiskFactor['status'] }> = {
+  Optimal: { value: 0, status: 'low' },
+  Warning: { value: 50, status: 'medium' },
+  Critical: { value: 100, status: 'high' },
+};
+
+// Scales a disease's probability by how susceptible the species is to its category.
+const susceptibilityFactor: Record<Susceptibility, number> = {
+  low: 0.6,
+  medium: 1,
+  high: 1.3,
+};
+
 const DiseaseRiskAssessment: React.FC = () => {
+  const { t } = useLanguage();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [riskFactors, setRiskFactors] = useState<RiskFactor[]>([]);
   const [diseaseRisks, setDiseaseRisks] = useState<DiseaseRisk[]>([]);
@@ -431,15 +463,40 @@ const DiseaseRiskAssessment: React.FC = () => {
       status: ph < 6 || ph > 9 ? 'high' : ph < 6.5 || ph > 8.5 ? 'medium' : 'low',
     });
 
-    // Ammonia Risk
-    const ammonia = parseFloat(formData.ammonia);
+    // Ammonia Risk, from the un-ionized share at this pH and temperature
+    const thresholds = toxicityThresholds(findSpecies(catalog, formData.species));
+    const salinity = formData.salinity ? parseFloat(formData.salinity) : undefined;
+    const ammonia = assessAmmonia(
+      { totalAmmonia: parseFloat(formData.ammonia), pH: ph, temperature: temp, salinity },
+      thresholds
+    );
     factors.push({
       name: 'Ammonia',
-      value: ammonia > 1 ? 100 : ammonia > 0.5 ? 50 : 0,
+      value: toxicityRisk[ammonia.status].value,
       weight: 0.15,
-      status: ammonia > 1 ? 'high' : ammonia > 0.5 ? 'medium' : 'low',
+      status: toxicityRisk[ammonia.status].status,
     });
 
+    // Nitrite Risk, judged by the chloride available to block uptake
+    if (formData.nitrite) {
+      const nitrite = parseFloat(formData.nitrite);
+      const { status } = assessNitrite(
+        { nitrite, chloride: formData.chloride ? parseFloat(formData.chloride) : undefined, salinity },
+        thresholds
+      );
+      // Without chloride, fall back to the species' tolerable nitrite.
+      const species = findSpecies(catalog, formData.species);
+      const level =
+        status ??
+        (nitrite > (species?.waterQuality.nitrite.max ?? 1) ? 'Critical' : 'Warning');
+      factors.push({
+        name: 'Nitrite',
+        value: toxicityRisk[level].value,
+        weight: 0.1,
+        status: toxicityRisk[level].status,
+      });
+    }
+
     // Stocking Density Risk
     const density = parseFloat(formData.stockingDensity);
     factors.push({
@@ -479,9 +536,10 @@ const DiseaseRiskAssessment: React.FC = () => {
 
   const assessDiseaseRisks = (factors: RiskFactor[]): DiseaseRisk[] => {
     const risks: DiseaseRisk[] = [];
-    const speciesDiseases = diseases.filter(d => d.name === formData.species);
+    const species = findSpecies(catalog, formData.species);
+    if (!species) return risks;
 
-    speciesDiseases.forEach((disease) => {
+    diseases.forEach((disease) => {
       const temp = parseFloat(formData.temperature);
       const do_ = parseFloat(formData.dissolvedOxygen);
       const ph = parseFloat(formData.pH);
@@ -515,6 +573,10 @@ const DiseaseRiskAssessment: React.FC = () => {
         selectedSymptoms.includes(s)
       );
       probability += (matchingSymptoms.length / disease.symptoms.length) * 30;
+      probability = Math.min(
+        100,
+        probability * susceptibilityFactor[species.diseaseSusceptibility[disease.category]]
+      );
 
       let severity: 'low' | 'medium' | 'high' = 'low';
       if (probability > 70) severity = 'high';
@@ -558,10 +620,10 @@ const DiseaseRiskAssessment: React.FC = () => {
     <Container maxWidth="lg">
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="h5" gutterBottom>
-          Disease Risk Assessment
+          {t('Disease Risk Assessment')}
       </Typography>
         <Typography color="text.secondary" paragraph>
-          Assess disease risks based on environmental parameters and fish behavior
+          {t('Assess disease risks based on environmental parameters and fish behavior')}
       </Typography>
 
         <Grid container spacing={3}>
@@ -571,16 +633,14 @@ const DiseaseRiskAssessment: React.FC = () => {
               value={formData.species}
               onChange={handleInputChange('species')}
               type="select"
-              options={diseases.map((d) => ({
-                value: d.name,
-                label: d.name.charAt(0).toUpperCase() + d.name.slice(1),
-              }))}
+              options={speciesOptions(catalog)}
               required
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Water Temperature (°C)"
+                label="Water Temperature"
+                unit="°C"
                 value={formData.temperature}
                 onChange={handleInputChange('temperature')}
                 type="number"
@@ -589,7 +649,8 @@ const DiseaseRiskAssessment: React.FC = () => {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Dissolved Oxygen (mg/L)"
+                label="Dissolved Oxygen"
+                unit="mg/L"
                 value={formData.dissolvedOxygen}
                 onChange={handleInputChange('dissolvedOxygen')}
                 type="number"
@@ -607,16 +668,45 @@ const DiseaseRiskAssessment: React.FC = () => {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Ammonia (mg/L)"
+                label="Ammonia"
+                unit="mg/L"
                 value={formData.ammonia}
                 onChange={handleInputChange('ammonia')}
                 type="number"
                 required
               />
             </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Nitrite"
+              unit="mg/L"
+              value={formData.nitrite}
+              onChange={handleInputChange('nitrite')}
+              type="number"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Chloride"
+              unit="mg/L"
+              value={formData.chloride}
+              onChange={handleInputChange('chloride')}
+              type="number"
+              helperText="Protects fish against nitrite"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Salinity (ppt)"
+              value={formData.salinity}
+              onChange={handleInputChange('salinity')}
+              type="number"
+            />
+          </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-              label="Stocking Density (kg/m³)"
+              label="Stocking Density"
+              unit="kg/m³"
               value={formData.stockingDensity}
               onChange={handleInputChange('stockingDensity')}
                 type="number"
@@ -688,7 +778,7 @@ const DiseaseRiskAssessment: React.FC = () => {
               !formData.behavior.length
             }
           >
-            Analyze Risk
+            {t('Analyze Risk')}
             </Button>
           </Box>
       </Paper>
@@ -856,16 +946,16 @@ const DiseaseRiskAssessment: React.FC = () => {
             <Card>
               <CardContent>
           <Typography variant="h6" gutterBottom>
-                  Risk Factors Analysis
+                  {t('Risk Factors Analysis')}
           </Typography>
                 <Box sx={{ height: 300 }}>
                   <ResponsiveContainer width="100%" height="100%">
                     <RadarChart data={riskFactors}>
                       <PolarGrid />
-                      <PolarAngleAxis dataKey="name" />
+                      <PolarAngleAxis dataKey="name" tickFormatter={(name) => t(name)} />
                       <PolarRadiusAxis domain={[0, 100]} />
                       <Radar
-                        name="Risk Level"
+                        name={t('Risk Level')}
                         dataKey="value"
                         stroke="#8884d8"
                         fill="#8884d8"
@@ -878,18 +968,18 @@ const DiseaseRiskAssessment: React.FC = () => {
                   <Table size="small">
                     <TableHead>
                       <TableRow>
-                        <TableCell>Factor</TableCell>
-                        <TableCell>Status</TableCell>
-                        <TableCell align="right">Risk Score</TableCell>
+                        <TableCell>{t('Factor')}</TableCell>
+                        <TableCell>{t('Status')}</TableCell>
+                        <TableCell align="right">{t('Risk Score')}</TableCell>
                       </TableRow>
                     </TableHead>
                     <TableBody>
                       {riskFactors.map((factor) => (
                         <TableRow key={factor.name}>
-                          <TableCell>{factor.name}</TableCell>
+                          <TableCell>{t(factor.name)}</TableCell>
                           <TableCell>
                             <Chip
-                              label={factor.status.toUpperCase()}
+                              label={t(factor.status).toUpperCase()}
                               color={getStatusColor(factor.status)}
                               size="small"
                             />
@@ -908,7 +998,7 @@ const DiseaseRiskAssessment: React.FC = () => {
             <Card>
               <CardContent>
             <Typography variant="h6" gutterBottom>
-                  Disease Risk Assessment
+                  {t('Disease Risk Assessment')}
             </Typography>
                 {diseaseRisks.map((risk) => (
                   <Box key={risk.disease} sx={{ mb: 3 }}>
@@ -920,21 +1010,21 @@ const DiseaseRiskAssessment: React.FC = () => {
                         mb: 1,
                       }}
                     >
-                      <Typography variant="subtitle1">{risk.disease}</Typography>
+                      <Typography variant="subtitle1">{t(risk.disease)}</Typography>
                   <Chip
-                        label={`${risk.probability}% Risk`}
+                        label={t('{probability}% Risk', { probability: risk.probability })}
                         color={getStatusColor(risk.severity)}
                     size="small"
                   />
                     </Box>
                     <Typography variant="subtitle2" gutterBottom>
-                      Common Symptoms:
+                      {t('Common Symptoms:')}
                 </Typography>
                     <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
                       {risk.symptoms.map((symptom) => (
                         <Chip
                           key={symptom}
-                          label={symptom}
+                          label={t(symptom)}
                           size="small"
                           variant="outlined"
                         />
@@ -942,12 +1032,12 @@ const DiseaseRiskAssessment: React.FC = () => {
                     </Box>
                     <Divider sx={{ my: 1 }} />
                     <Typography variant="subtitle2" gutterBottom>
-                  Preventive Measures:
+                  {t('Preventive Measures:')}
                 </Typography>
                     <ul style={{ margin: 0, paddingLeft: '1.2rem' }}>
                       {risk.preventiveMeasures.map((measure, index) => (
                     <li key={index}>
-                      <Typography variant="body2">{measure}</Typography>
+                      <Typography variant="body2">{t(measure)}</Typography>
                     </li>
                   ))}
                 </ul>
@@ -955,12 +1045,12 @@ const DiseaseRiskAssessment: React.FC = () => {
                       <>
                         <Divider sx={{ my: 1 }} />
                         <Typography variant="subtitle2" gutterBottom>
-                          Recommended Treatments:
+                          {t('Recommended Treatments:')}
               </Typography>
                         <ul style={{ margin: 0, paddingLeft: '1.2rem' }}>
                           {risk.treatments.map((treatment, index) => (
                             <li key={index}>
-                              <Typography variant="body2">{treatment}</Typography>
+                              <Typography variant="body2">{t(treatment)}</Typography>
                             </li>
                           ))}
                         </ul>
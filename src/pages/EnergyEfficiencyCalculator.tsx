@@ -23,6 +23,7 @@ import {
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface Equipment {
   name: string;
@@ -90,7 +91,11 @@ const initialFormData: EnergyData = {
 };
 
 const EnergyEfficiencyCalculator: React.FC = () => {
-  const [formData, setFormData] = useState<EnergyData>(initialFormData);
+  const { settings, symbol, formatMoney, fromUsd } = useCurrency();
+  const [formData, setFormData] = useState<EnergyData>({
+    ...initialFormData,
+    electricityRate: settings.electricityTariff,
+  });
   const [currentEquipment, setCurrentEquipment] = useState<Equipment>(initialEquipment);
   const [analysis, setAnalysis] = useState<EnergyAnalysis | null>(null);
   const [historicalData, setHistoricalData] = useState<Array<{ month: string; consumption: number }>>([]);
@@ -180,7 +185,7 @@ const EnergyEfficiencyCalculator: React.FC = () => {
       savingsPotential.push({
         measure: 'Equipment Upgrades',
         savings: equipmentSavings * 12, // Annual savings
-        cost: equipment.length * 1000, // Estimated upgrade cost
+        cost: fromUsd(equipment.length * 1000), // Estimated upgrade cost
         payback: (equipment.length * 1000) / (equipmentSavings * 12),
       });
     }
@@ -191,7 +196,7 @@ const EnergyEfficiencyCalculator: React.FC = () => {
       savingsPotential.push({
         measure: 'Solar Installation',
         savings: solarSavings * 12,
-        cost: 15000,
+        cost: fromUsd(15000),
         payback: 15000 / (solarSavings * 12),
       });
     }
@@ -385,7 +390,7 @@ const EnergyEfficiencyCalculator: React.FC = () => {
                   <Grid item xs={12}>
                     <TextField
                       fullWidth
-                      label="Electricity Rate ($/kWh)"
+                      label={`Electricity Rate (${symbol}/kWh)`}
                       type="number"
                       value={formData.electricityRate || ''}
                       onChange={(e) => setFormData(prev => ({
@@ -431,7 +436,7 @@ const EnergyEfficiencyCalculator: React.FC = () => {
                         </TableRow>
                         <TableRow>
                           <TableCell>Monthly Cost</TableCell>
-                          <TableCell>${analysis.totalCost.toFixed(2)}</TableCell>
+                          <TableCell>{formatMoney(analysis.totalCost)}</TableCell>
                         </TableRow>
                         <TableRow>
                           <TableCell>Annual CO2 Emissions</TableCell>
@@ -458,8 +463,8 @@ const EnergyEfficiencyCalculator: React.FC = () => {
                         {analysis.savingsPotential.map((item, index) => (
                           <TableRow key={index}>
                             <TableCell>{item.measure}</TableCell>
-                            <TableCell>${item.savings.toFixed(2)}</TableCell>
-                            <TableCell>${item.cost.toFixed(2)}</TableCell>
+                            <TableCell>{formatMoney(item.savings)}</TableCell>
+                            <TableCell>{formatMoney(item.cost)}</TableCell>
                             <TableCell>{item.payback.toFixed(1)}</TableCell>
                           </TableRow>
                         ))}
@@ -30,6 +30,11 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { putRecord, useCollection } from '../db';
+import { parameterTrend } from '../engine';
+import type { ParameterTrend } from '../engine';
+import type { Pond, WaterQualityParameter, WaterQualityReading } from '../types/records';
 
 interface EnvironmentData {
   temperature: string;
@@ -54,7 +59,7 @@ interface Parameter {
   critical: { min: number; max: number };
 }
 
-const parameters: Record<string, Parameter> = {
+const parameters: Partial<Record<WaterQualityParameter, Parameter>> = {
   temperature: {
     name: 'Temperature',
     unit: '°C',
@@ -129,6 +134,13 @@ const weatherConditions = [
   'Stormy',
 ];
 
+const trendWindows = [
+  { value: '24', label: 'Last 24 hours' },
+  { value: '72', label: 'Last 3 days' },
+  { value: '168', label: 'Last 7 days' },
+  { value: '720', label: 'Last 30 days' },
+];
+
 const initialFormData: EnvironmentData = {
   temperature: '',
   dissolvedOxygen: '',
@@ -149,24 +161,74 @@ interface MonitoringResult {
   value: number;
   unit: string;
   status: 'Optimal' | 'Warning' | 'Critical';
-  trend: 'stable' | 'increasing' | 'decreasing';
+  trend: ParameterTrend;
   recommendations: string[];
 }
 
+const formatHours = (hours: number) =>
+  hours < 1 ? `${Math.round(hours * 60)} min` : hours < 48 ? `${Math.round(hours)} h` : `${Math.round(hours / 24)} days`;
+
+// Plain-language reading of a fitted trend, including the projected threshold crossing.
+const describeTrend = (trend: ParameterTrend, param: Parameter): string[] => {
+  if (trend.direction === 'insufficient') {
+    return [
+      trend.count === 0
+        ? 'No saved readings to compute a trend from. Choose a pond and record readings over time.'
+        : `Too little data for a trend: ${trend.count} reading${trend.count === 1 ? '' : 's'} over ${formatHours(
+            trend.spanHours
+          )}. At least 4 readings spanning an hour are needed.`,
+    ];
+  }
+  const rate = `${Math.abs(trend.slopePerHour!).toFixed(2)} ${param.unit ? `${param.unit} ` : ''}per hour`;
+  const confidence = `p = ${trend.pValue! < 0.001 ? '< 0.001' : trend.pValue!.toFixed(3)}, ${trend.count} readings over ${formatHours(
+    trend.spanHours
+  )}`;
+  const lines = [
+    trend.direction === 'stable'
+      ? `No significant trend (${confidence}).`
+      : `${trend.direction === 'increasing' ? 'Rising' : 'Falling'} ${rate} (${confidence}).`,
+  ];
+  if (trend.rateAlarm) {
+    lines.push(`Changing faster than the safe ${trend.rateLimit} ${param.unit ? `${param.unit} ` : ''}per hour.`);
+  }
+  if (trend.projection) {
+    const { bound, threshold, level, hours } = trend.projection;
+    lines.push(
+      `${param.name} will ${bound === 'min' ? 'drop below' : 'rise above'} ${threshold} ${param.unit} (${level}) in ~${formatHours(
+        hours
+      )} at the current rate.`
+    );
+  }
+  return lines;
+};
+
 export default function EnvironmentMonitor() {
   const [formData, setFormData] = useState<EnvironmentData>(initialFormData);
   const [results, setResults] = useState<MonitoringResult[]>([]);
   const [historicalData, setHistoricalData] = useState<any[]>([]);
   const [showResults, setShowResults] = useState(false);
+  const [pondId, setPondId] = useState('');
+  const [windowHours, setWindowHours] = useState('72');
+  // True once the current form values are in the pond's history, so re-analysing doesn't duplicate them.
+  const [saved, setSaved] = useState(false);
+  const [readings] = useCollection('waterQualityReadings');
 
   const handleChange = (field: keyof EnvironmentData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    setSaved(false);
+  };
+
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setSaved(false);
+    setShowResults(false);
   };
 
   const analyzeParameter = (
     parameter: string,
     value: number,
-    param: Parameter
+    param: Parameter,
+    trend: ParameterTrend
   ): MonitoringResult => {
     let status: 'Optimal' | 'Warning' | 'Critical';
     
@@ -193,8 +255,11 @@ export default function EnvironmentMonitor() {
       recommendations.push(`Continue regular monitoring`);
     }
 
-    // Simulate trend based on historical data
-    const trend = Math.random() > 0.5 ? 'stable' : Math.random() > 0.5 ? 'increasing' : 'decreasing';
+    if (trend.projection?.level === 'critical' || trend.rateAlarm) {
+      recommendations.unshift(`Act now on ${param.name}: the trend points to a critical reading`);
+    } else if (trend.projection) {
+      recommendations.unshift(`Check ${param.name} again before it reaches ${trend.projection.threshold}`);
+    }
 
     return {
       parameter: param.name,
@@ -206,34 +271,52 @@ export default function EnvironmentMonitor() {
     };
   };
 
-  const analyzeEnvironment = () => {
+  // Saves the entered values as a reading of the chosen pond, then fits trends over its history.
+  const analyzeEnvironment = async () => {
     const results: MonitoringResult[] = [];
-    const newHistoricalData = [];
-
-    // Analyze each parameter
-    for (const [key, param] of Object.entries(parameters)) {
-      if (formData[key as keyof EnvironmentData]) {
-        const value = parseFloat(formData[key as keyof EnvironmentData]);
-        const result = analyzeParameter(key, value, param);
-        results.push(result);
+    const entries = (Object.entries(parameters) as [WaterQualityParameter, Parameter][]).filter(
+      ([key]) => formData[key as keyof EnvironmentData]
+    );
+    const values: WaterQualityReading['values'] = Object.fromEntries(
+      entries.map(([key]) => [key, parseFloat(formData[key as keyof EnvironmentData])])
+    );
+
+    let history = readings.filter((reading) => reading.pondId === pondId);
+    if (pondId && !saved) {
+      const reading: WaterQualityReading = {
+        id: Date.now().toString(),
+        pondId,
+        takenAt: new Date().toISOString(),
+        sampler: '',
+        source: 'manual',
+        values,
+        notes: formData.weather ? `Weather: ${formData.weather}` : '',
+      };
+      try {
+        await putRecord('waterQualityReadings', reading);
+        history = [...history, reading];
+        setSaved(true);
+      } catch (error) {
+        console.error('Failed to save environment reading', error);
       }
     }
 
-    // Generate historical data points (simulated)
-    const now = new Date();
-    for (let i = 6; i >= 0; i--) {
-      const dataPoint: any = {
-        time: new Date(now.getTime() - i * 3600000).toLocaleTimeString(),
-      };
-      for (const [key, param] of Object.entries(parameters)) {
-        if (formData[key as keyof EnvironmentData]) {
-          const baseValue = parseFloat(formData[key as keyof EnvironmentData]);
-          dataPoint[key] = baseValue + (Math.random() - 0.5) * 2;
-        }
-      }
-      newHistoricalData.push(dataPoint);
+    const lookback = Number(windowHours);
+    for (const [key, param] of entries) {
+      const trend = parameterTrend(history, key, param, { windowHours: lookback });
+      results.push(analyzeParameter(key, values[key]!, param, trend));
     }
 
+    // Chart the stored readings that the trends were fitted to.
+    const latestTime = Math.max(0, ...history.map((reading) => new Date(reading.takenAt).getTime()));
+    const newHistoricalData = history
+      .filter((reading) => latestTime - new Date(reading.takenAt).getTime() <= lookback * 3600000)
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+      .map((reading) => ({
+        time: new Date(reading.takenAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }),
+        ...reading.values,
+      }));
+
     setResults(results);
     setHistoricalData(newHistoricalData);
     setShowResults(true);
@@ -263,6 +346,26 @@ export default function EnvironmentMonitor() {
         </Typography>
 
         <Grid container spacing={3}>
+          <Grid item xs={12} sm={6} md={8}>
+            <PondPicker value={pondId} onChange={handlePondSelect} />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Trend Window"
+              value={windowHours}
+              onChange={(value) => setWindowHours(String(value))}
+              type="select"
+              options={trendWindows}
+              helperText="Readings fitted for trends and projections"
+            />
+          </Grid>
+          {!pondId && (
+            <Grid item xs={12}>
+              <Alert severity="info">
+                Choose a pond to save these readings and compute trends from its history.
+              </Alert>
+            </Grid>
+          )}
           {Object.entries(parameters).map(([key, param]) => (
             <Grid item xs={12} sm={6} md={4} key={key}>
               <FormField
@@ -287,7 +390,8 @@ export default function EnvironmentMonitor() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Rainfall (mm)"
+              label="Rainfall"
+              unit="mm"
               value={formData.rainfall}
               onChange={handleChange('rainfall')}
               type="number"
@@ -295,7 +399,8 @@ export default function EnvironmentMonitor() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Wind Speed (km/h)"
+              label="Wind Speed"
+              unit="km/h"
               value={formData.windSpeed}
               onChange={handleChange('windSpeed')}
               type="number"
@@ -479,28 +584,35 @@ export default function EnvironmentMonitor() {
             <Typography variant="h6" gutterBottom>
               Parameter Trends
             </Typography>
-            <Box sx={{ height: 400 }}>
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={historicalData}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="time" />
-                  <YAxis />
-                  <Tooltip />
-                  <Legend />
-                  {Object.keys(parameters).map((key, index) => (
-                    formData[key as keyof EnvironmentData] && (
-                      <Line
-                        key={key}
-                        type="monotone"
-                        dataKey={key}
-                        stroke={`hsl(${index * 45}, 70%, 50%)`}
-                        name={parameters[key].name}
-                      />
-                    )
-                  ))}
-                </LineChart>
-              </ResponsiveContainer>
-            </Box>
+            {historicalData.length < 2 ? (
+              <Alert severity="info">
+                Not enough saved readings in this window to chart. Trends appear once the pond has a history.
+              </Alert>
+            ) : (
+              <Box sx={{ height: 400 }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={historicalData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {(Object.entries(parameters) as [WaterQualityParameter, Parameter][]).map(([key, param], index) => (
+                      formData[key as keyof EnvironmentData] && (
+                        <Line
+                          key={key}
+                          type="monotone"
+                          dataKey={key}
+                          stroke={`hsl(${index * 45}, 70%, 50%)`}
+                          name={param.name}
+                          connectNulls
+                        />
+                      )
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </Box>
+            )}
           </Paper>
 
           <Grid container spacing={3}>
@@ -521,11 +633,22 @@ export default function EnvironmentMonitor() {
                     </Typography>
                     <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
                       <Chip
-                        label={`Trend: ${result.trend}`}
+                        label={`Trend: ${result.trend.direction === 'insufficient' ? 'insufficient data' : result.trend.direction}`}
+                        color={result.trend.rateAlarm || result.trend.projection ? 'warning' : 'default'}
                         variant="outlined"
                         size="small"
                       />
                     </Box>
+                    {describeTrend(result.trend, parameters[result.trend.parameter]!).map((line, index) => (
+                      <Typography
+                        key={index}
+                        variant="body2"
+                        color={index > 0 ? 'warning.main' : 'text.secondary'}
+                        gutterBottom
+                      >
+                        {line}
+                      </Typography>
+                    ))}
                     <Divider sx={{ my: 1 }} />
                     <Typography variant="subtitle2" gutterBottom>
                       Recommendations:
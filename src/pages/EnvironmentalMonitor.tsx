@@ -17,14 +17,26 @@ import {
   Select,
   MenuItem,
   TextField,
+  Stack,
 } from '@mui/material';
 import {
   TrendingUp,
   TrendingDown,
   Warning,
   CheckCircle,
+  Tune,
 } from '@mui/icons-material';
+import BatchPicker from '../components/BatchPicker';
 import FormField from '../components/FormField';
+import LiveReadings from '../components/LiveReadings';
+import PondPicker from '../components/PondPicker';
+import PondRangesDialog from '../components/PondRangesDialog';
+import { useCollection } from '../db';
+import { analyzeParameter, waterQualityRangesFor } from '../engine';
+import { findSpecies, growthStageForWeight, growthStageOptions, speciesOptions, useSpeciesCatalog } from '../species';
+import type { GrowthStage } from '../species';
+import type { Batch, Pond, WaterQualityParameter, WaterQualityReading } from '../types/records';
+import { getCurrentWeight, isActiveBatch } from '../utils/batches';
 
 interface ParameterData {
   temperature: string;
@@ -42,27 +54,6 @@ interface ParameterData {
   windSpeed: string;
 }
 
-interface ParameterLimits {
-  min: number;
-  max: number;
-  unit: string;
-  criticalLow: number;
-  criticalHigh: number;
-}
-
-const parameterLimits: Record<string, ParameterLimits> = {
-  temperature: { min: 25, max: 32, unit: '°C', criticalLow: 22, criticalHigh: 35 },
-  dissolvedOxygen: { min: 5, max: 8, unit: 'mg/L', criticalLow: 3, criticalHigh: 12 },
-  ph: { min: 6.5, max: 8.5, unit: '', criticalLow: 6, criticalHigh: 9 },
-  ammonia: { min: 0, max: 0.5, unit: 'mg/L', criticalLow: 0, criticalHigh: 1 },
-  nitrite: { min: 0, max: 0.1, unit: 'mg/L', criticalLow: 0, criticalHigh: 0.5 },
-  nitrate: { min: 0, max: 50, unit: 'mg/L', criticalLow: 0, criticalHigh: 100 },
-  alkalinity: { min: 100, max: 200, unit: 'mg/L', criticalLow: 50, criticalHigh: 300 },
-  hardness: { min: 100, max: 250, unit: 'mg/L', criticalLow: 50, criticalHigh: 350 },
-  turbidity: { min: 0, max: 30, unit: 'NTU', criticalLow: 0, criticalHigh: 50 },
-  salinity: { min: 0, max: 5, unit: 'ppt', criticalLow: 0, criticalHigh: 10 },
-};
-
 const weatherConditions = [
   'Clear',
   'Partly Cloudy',
@@ -72,6 +63,21 @@ const weatherConditions = [
   'Storm',
 ];
 
+// Water-quality parameters on this form, by the form's own field names. Ranges come from
+// the stock's species and life stage and the pond's own limits; sensor values fill these too.
+const parameterFields: Partial<Record<WaterQualityParameter, keyof ParameterData>> = {
+  temperature: 'temperature',
+  dissolvedOxygen: 'dissolvedOxygen',
+  pH: 'ph',
+  ammonia: 'ammonia',
+  nitrite: 'nitrite',
+  nitrate: 'nitrate',
+  alkalinity: 'alkalinity',
+  hardness: 'hardness',
+  turbidity: 'turbidity',
+  salinity: 'salinity',
+};
+
 const initialFormData: ParameterData = {
   temperature: '',
   dissolvedOxygen: '',
@@ -99,24 +105,48 @@ interface Analysis {
 export default function EnvironmentalMonitor() {
   const [formData, setFormData] = useState<ParameterData>(initialFormData);
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [pondId, setPondId] = useState('');
+  const [batchId, setBatchId] = useState('');
+  const [speciesId, setSpeciesId] = useState('');
+  const [stage, setStage] = useState<GrowthStage | ''>('');
+  const [rangesOpen, setRangesOpen] = useState(false);
+  const [ponds] = useCollection('ponds');
+  const [batches] = useCollection('batches');
+  const { catalog } = useSpeciesCatalog();
+
+  const pond = ponds.find((candidate) => candidate.id === pondId);
+  const species = findSpecies(catalog, speciesId);
+  const stockRanges = waterQualityRangesFor({ species, stage: stage || undefined });
+  const ranges = waterQualityRangesFor({ species, stage: stage || undefined, custom: pond?.waterQualityRanges });
+  const customCount = Object.keys(pond?.waterQualityRanges ?? {}).length;
+  const fields = Object.entries(parameterFields) as [WaterQualityParameter, keyof ParameterData][];
+
+  const handleBatchSelect = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    setSpeciesId(batch.speciesId);
+    setStage(growthStageForWeight(getCurrentWeight(batch)));
+  };
+
+  const handlePondSelect = (selected: Pond | null) => {
+    setPondId(selected?.id ?? '');
+    const stocked = batches.find((batch) => batch.pondId === selected?.id && isActiveBatch(batch));
+    if (stocked) handleBatchSelect(stocked);
+  };
 
   const handleChange = (field: keyof ParameterData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateParameterStatus = (
-    parameter: string,
-    value: number
-  ): 'Optimal' | 'Warning' | 'Critical' => {
-    const limits = parameterLimits[parameter];
-    if (!limits) return 'Optimal';
-
-    if (value < limits.criticalLow || value > limits.criticalHigh) {
-      return 'Critical';
-    } else if (value < limits.min || value > limits.max) {
-      return 'Warning';
-    }
-    return 'Optimal';
+  const handleLiveValues = (values: WaterQualityReading['values']) => {
+    setFormData((prev) => {
+      const next = { ...prev };
+      (Object.entries(values) as [WaterQualityParameter, number][]).forEach(([parameter, value]) => {
+        const field = parameterFields[parameter];
+        if (field) next[field] = String(value);
+      });
+      return next;
+    });
   };
 
   const analyzeParameters = (): Analysis => {
@@ -126,22 +156,23 @@ export default function EnvironmentalMonitor() {
     let riskLevel = 0;
 
     // Analyze each parameter
-    Object.entries(parameterLimits).forEach(([param, limits]) => {
-      const value = parseFloat(formData[param as keyof ParameterData]);
+    fields.forEach(([parameter, field]) => {
+      const value = parseFloat(formData[field]);
       if (isNaN(value)) return;
 
-      const status = calculateParameterStatus(param, value);
+      const { status } = analyzeParameter(parameter, value, ranges);
       if (status !== 'Optimal') {
-        impactedParameters.push(param);
-        const formattedParam = param.replace(/([A-Z])/g, ' $1').toLowerCase();
-        
+        const range = ranges[parameter];
+        impactedParameters.push(range.name);
+        const formattedParam = range.name.toLowerCase();
+
         if (status === 'Critical') {
           riskLevel += 20;
-          issues.push(`Critical ${formattedParam} level: ${value}${limits.unit}`);
+          issues.push(`Critical ${formattedParam} level: ${value}${range.unit}`);
           recommendations.push(`Immediate action required for ${formattedParam}`);
         } else {
           riskLevel += 10;
-          issues.push(`${formattedParam} outside optimal range: ${value}${limits.unit}`);
+          issues.push(`${formattedParam} outside optimal range: ${value}${range.unit}`);
         }
       }
     });
@@ -218,19 +249,65 @@ export default function EnvironmentalMonitor() {
               <Typography variant="h6" gutterBottom>
                 Water Quality Parameters
               </Typography>
+              <Grid container spacing={2} sx={{ mb: 2 }}>
+                <Grid item xs={12} sm={6}>
+                  <PondPicker value={pondId} onChange={handlePondSelect} />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <BatchPicker
+                    value={batchId}
+                    onChange={handleBatchSelect}
+                    label="Batch"
+                    statuses={['stocked', 'growing', 'harvesting']}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Species"
+                    value={speciesId}
+                    onChange={(value) => setSpeciesId(String(value))}
+                    type="select"
+                    options={speciesOptions(catalog)}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Life stage"
+                    value={stage}
+                    onChange={(value) => setStage(value as GrowthStage)}
+                    type="select"
+                    options={growthStageOptions}
+                  />
+                </Grid>
+              </Grid>
+              <LiveReadings pondId={pondId} onUse={handleLiveValues} />
+              <Stack direction="row" spacing={1} justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+                <Typography variant="body2" color="text.secondary">
+                  {species
+                    ? `Ranges for ${species.name}${stage ? `, ${stage}` : ''}.`
+                    : 'Generic warmwater ranges. Choose a species or batch for its own.'}
+                  {customCount > 0 && ` ${customCount} parameters use custom ranges set for this pond.`}
+                </Typography>
+                <Button startIcon={<Tune />} onClick={() => setRangesOpen(true)} disabled={!pond}>
+                  Custom ranges
+                </Button>
+              </Stack>
               <Grid container spacing={2}>
-                {Object.entries(parameterLimits).map(([param, limits]) => (
-                  <Grid item xs={12} sm={6} key={param}>
-                    <FormField
-                      label={`${param.replace(/([A-Z])/g, ' $1').toLowerCase()} (${limits.unit})`}
-                      value={formData[param as keyof ParameterData]}
-                      onChange={handleChange(param as keyof ParameterData)}
-                      type="number"
-                      required
-                      helperText={`Optimal: ${limits.min}-${limits.max} ${limits.unit}`}
-                    />
-                  </Grid>
-                ))}
+                {fields.map(([parameter, field]) => {
+                  const range = ranges[parameter];
+                  return (
+                    <Grid item xs={12} sm={6} key={parameter}>
+                      <FormField
+                        label={range.unit ? `${range.name} (${range.unit})` : range.name}
+                        value={formData[field]}
+                        onChange={handleChange(field)}
+                        type="number"
+                        required
+                        helperText={`${range.basis === 'pond' ? 'Pond range, optimal' : 'Optimal'}: ${range.optimal.min}-${range.optimal.max} ${range.unit}`}
+                      />
+                    </Grid>
+                  );
+                })}
               </Grid>
 
               <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
@@ -255,7 +332,8 @@ export default function EnvironmentalMonitor() {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Rainfall (mm/day)"
+                    label="Rainfall"
+                    unit="mm/day"
                     value={formData.rainfall}
                     onChange={handleChange('rainfall')}
                     type="number"
@@ -264,7 +342,8 @@ export default function EnvironmentalMonitor() {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Wind Speed (km/h)"
+                    label="Wind Speed"
+                    unit="km/h"
                     value={formData.windSpeed}
                     onChange={handleChange('windSpeed')}
                     type="number"
@@ -329,7 +408,7 @@ export default function EnvironmentalMonitor() {
                     {analysis.impactedParameters.map((param) => (
                       <Chip
                         key={param}
-                        label={param.replace(/([A-Z])/g, ' $1').toLowerCase()}
+                        label={param}
                         color={analysis.status === 'Critical' ? 'error' : 'warning'}
                         size="small"
                       />
@@ -526,6 +605,7 @@ export default function EnvironmentalMonitor() {
           Last Updated: January 2025 | Written by Aquaculture Environmental Specialists | Based on Latest Research and Industry Best Practices
         </Typography>
       </Paper>
+      <PondRangesDialog open={rangesOpen} onClose={() => setRangesOpen(false)} pond={pond} baseRanges={stockRanges} />
     </Container>
   );
 };
\ No newline at end of file
@@ -19,6 +19,19 @@ import {
   Divider,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import BatchPicker from '../components/BatchPicker';
+import { useSpeciesCatalog, findSpecies, speciesOptions } from '../species';
+import type { Batch } from '../types/records';
+import {
+  getBiomass,
+  getDaysSinceStocking,
+  getHarvestedWeight,
+  getSurvivalRate,
+  getTotalFeed,
+} from '../utils/batches';
+import { calculateFCR } from '../engine';
+import type { FcrResult } from '../engine';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface FCRData {
   species: string;
@@ -29,29 +42,6 @@ interface FCRData {
   duration: string;
 }
 
-interface FCRResult {
-  fcr: number;
-  efficiency: number;
-  targetFCR: number;
-  deviation: number;
-  recommendations: string[];
-  costImplications: {
-    currentCost: number;
-    potentialSavings: number;
-  };
-}
-
-const targetFCR = {
-  tilapia: 1.6,
-  carp: 1.8,
-  catfish: 1.5,
-  trout: 1.2,
-  seabass: 1.7,
-  seabream: 1.8,
-};
-
-const feedCost = 45; // USD per kg
-
 const initialFormData: FCRData = {
   species: '',
   initialWeight: '',
@@ -62,83 +52,43 @@ const initialFormData: FCRData = {
 };
 
 export default function FcrCalculator() {
+  const { settings, formatMoney } = useCurrency();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<FCRData>(initialFormData);
-  const [result, setResult] = useState<FCRResult | null>(null);
+  const [result, setResult] = useState<FcrResult | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [batchId, setBatchId] = useState('');
 
   const handleChange = (field: keyof FCRData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateEfficiency = (fcr: number, targetFcr: number): number => {
-    return ((targetFcr - fcr) / targetFcr) * 100;
-  };
-
-  const generateRecommendations = (
-    fcr: number,
-    targetFcr: number,
-    efficiency: number
-  ): string[] => {
-    const recommendations: string[] = [];
-
-    if (fcr > targetFcr + 0.5) {
-      recommendations.push('Significant improvement needed in feed management');
-      recommendations.push('Review feeding frequency and portion sizes');
-      recommendations.push('Check for feed wastage during feeding');
-      recommendations.push('Assess water quality parameters');
-    } else if (fcr > targetFcr + 0.2) {
-      recommendations.push('Monitor feeding behavior more closely');
-      recommendations.push('Adjust feed amounts based on appetite');
-      recommendations.push('Consider feed quality and storage conditions');
-    } else if (fcr > targetFcr) {
-      recommendations.push('Fine-tune feeding schedule');
-      recommendations.push('Continue monitoring growth rates');
-      recommendations.push('Maintain current water quality');
-    } else {
-      recommendations.push('Maintain current feeding practices');
-      recommendations.push('Document successful management strategies');
-      recommendations.push('Consider sharing best practices');
-    }
-
-    if (efficiency < -20) {
-      recommendations.push('Urgent action needed to improve feed efficiency');
-      recommendations.push('Consider consulting a feed specialist');
-    }
-
-    return recommendations;
+  // Harvested fish count toward final biomass so partial harvests don't inflate FCR.
+  const handleBatchSelect = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    setFormData((prev) => ({
+      ...prev,
+      species: batch.speciesId,
+      initialWeight: ((batch.count * batch.meanWeight) / 1000).toFixed(1),
+      finalWeight: (getBiomass(batch) + getHarvestedWeight(batch)).toFixed(1),
+      feedGiven: getTotalFeed(batch).toFixed(1),
+      mortality: (100 - getSurvivalRate(batch)).toFixed(1),
+      duration: String(getDaysSinceStocking(batch)),
+    }));
   };
 
-  const calculateFCR = () => {
-    const initialBiomass = parseFloat(formData.initialWeight);
-    const finalBiomass = parseFloat(formData.finalWeight);
-    const feedGiven = parseFloat(formData.feedGiven);
-    const mortality = parseFloat(formData.mortality) || 0;
-    const duration = parseInt(formData.duration);
-
-    const biomassGain = finalBiomass - initialBiomass;
-    const fcr = feedGiven / biomassGain;
-    const targetFcr = targetFCR[formData.species as keyof typeof targetFCR];
-    const efficiency = calculateEfficiency(fcr, targetFcr);
-    const deviation = fcr - targetFcr;
-
-    const currentCost = feedGiven * feedCost;
-    const idealFeed = biomassGain * targetFcr;
-    const idealCost = idealFeed * feedCost;
-    const potentialSavings = fcr > targetFcr ? currentCost - idealCost : 0;
-
-    const result: FCRResult = {
-      fcr: parseFloat(fcr.toFixed(2)),
-      efficiency: parseFloat(efficiency.toFixed(2)),
-      targetFCR: targetFcr,
-      deviation: parseFloat(deviation.toFixed(2)),
-      recommendations: generateRecommendations(fcr, targetFcr, efficiency),
-      costImplications: {
-        currentCost: parseFloat(currentCost.toFixed(2)),
-        potentialSavings: parseFloat(potentialSavings.toFixed(2)),
-      },
-    };
-
-    setResult(result);
+  const handleCalculate = () => {
+    const species = findSpecies(catalog, formData.species);
+    if (!species) return;
+
+    setResult(calculateFCR({
+      initialBiomass: parseFloat(formData.initialWeight),
+      finalBiomass: parseFloat(formData.finalWeight),
+      feedGiven: parseFloat(formData.feedGiven),
+      targetFcr: species.production.fcr,
+      feedCost: settings.feedPrice,
+    }));
     setShowResults(true);
   };
 
@@ -159,22 +109,23 @@ export default function FcrCalculator() {
         </Typography>
 
         <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <BatchPicker value={batchId} onChange={handleBatchSelect} />
+          </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
               label="Species"
               value={formData.species}
               onChange={handleChange('species')}
               type="select"
-              options={Object.keys(targetFCR).map((s) => ({
-                value: s,
-                label: s.charAt(0).toUpperCase() + s.slice(1),
-              }))}
+              options={speciesOptions(catalog)}
               required
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Initial Weight (kg)"
+              label="Initial Weight"
+              unit="kg"
               value={formData.initialWeight}
               onChange={handleChange('initialWeight')}
               type="number"
@@ -183,7 +134,8 @@ export default function FcrCalculator() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Final Weight (kg)"
+              label="Final Weight"
+              unit="kg"
               value={formData.finalWeight}
               onChange={handleChange('finalWeight')}
               type="number"
@@ -192,7 +144,8 @@ export default function FcrCalculator() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Total Feed Given (kg)"
+              label="Total Feed Given"
+              unit="kg"
               value={formData.feedGiven}
               onChange={handleChange('feedGiven')}
               type="number"
@@ -221,7 +174,7 @@ export default function FcrCalculator() {
         <Box sx={{ mt: 3, display: 'flex', justifyContent: 'flex-end' }}>
           <Button
             variant="contained"
-            onClick={calculateFCR}
+            onClick={handleCalculate}
             disabled={
               !formData.species ||
               !formData.initialWeight ||
@@ -445,13 +398,13 @@ export default function FcrCalculator() {
                       <TableRow>
                         <TableCell>Current Feed Cost</TableCell>
                         <TableCell align="right">
-                          ${result.costImplications.currentCost}
+                          {formatMoney(result.costImplications.currentCost)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Potential Savings</TableCell>
                         <TableCell align="right">
-                          ${result.costImplications.potentialSavings}
+                          {formatMoney(result.costImplications.potentialSavings)}
                         </TableCell>
                       </TableRow>
                     </TableBody>
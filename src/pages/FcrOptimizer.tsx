@@ -14,6 +14,9 @@ import {
   MenuItem,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import { feedConversionRatio } from '../engine';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface FcrData {
   // Basic FCR inputs
@@ -79,6 +82,8 @@ interface FcrAnalysis {
 }
 
 export default function FcrOptimizer() {
+  const { formatMoney, fromUsd } = useCurrency();
+  const { format } = useUnits();
   const [formData, setFormData] = useState<FcrData>(initialFormData);
   const [analysis, setAnalysis] = useState<FcrAnalysis | null>(null);
 
@@ -98,7 +103,7 @@ export default function FcrOptimizer() {
 
     // Calculate basic FCR
     const weightGain = (finalWt - initialWt) * fishCount;
-    const fcr = feed / weightGain;
+    const fcr = feedConversionRatio(feed, weightGain);
 
     // Calculate feed efficiency
     const feedEfficiency = (weightGain / feed) * 100;
@@ -111,7 +116,7 @@ export default function FcrOptimizer() {
     const proteinEfficiencyRatio = weightGain / proteinIntake;
 
     // Estimate feed cost (assuming average cost per kg)
-    const feedCostPerKg = formData.feedType === 'Commercial pellet' ? 2.5 : 1.8;
+    const feedCostPerKg = fromUsd(formData.feedType === 'Commercial pellet' ? 2.5 : 1.8);
 
     // Generate recommendations
     const recommendations: string[] = [];
@@ -219,7 +224,8 @@ export default function FcrOptimizer() {
           <Grid container spacing={2}>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Total Feed Amount (kg)"
+                label="Total Feed Amount"
+                unit="kg"
                 value={formData.feedAmount}
                 onChange={handleChange('feedAmount')}
                 type="number"
@@ -229,7 +235,8 @@ export default function FcrOptimizer() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Initial Weight (g)"
+                label="Initial Weight"
+                unit="g"
                 value={formData.initialWeight}
                 onChange={handleChange('initialWeight')}
                 type="number"
@@ -239,7 +246,8 @@ export default function FcrOptimizer() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Final Weight (g)"
+                label="Final Weight"
+                unit="g"
                 value={formData.finalWeight}
                 onChange={handleChange('finalWeight')}
                 type="number"
@@ -319,7 +327,8 @@ export default function FcrOptimizer() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Water Temperature (°C)"
+                label="Water Temperature"
+                unit="°C"
                 value={formData.waterTemperature}
                 onChange={handleChange('waterTemperature')}
                 type="number"
@@ -387,13 +396,13 @@ export default function FcrOptimizer() {
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Daily Growth Rate:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.dailyGrowthRate.toFixed(2)} g/day
+                {format(analysis.dailyGrowthRate, 'g/day')}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Feed Cost:</Typography>
               <Typography variant="body1" gutterBottom>
-                ${analysis.feedCostPerKg.toFixed(2)}/kg
+                {formatMoney(analysis.feedCostPerKg)}/kg
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -36,70 +36,12 @@ import {
 } from '@mui/icons-material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import FormField from '../components/FormField';
-
-interface FeedingSchedule {
-  id: string;
-  time: string;
-  amount: number;
-  type: string;
-  notes: string;
-}
-
-interface FeedStock {
-  type: string;
-  amount: number;
-  unit: string;
-  lastUpdated: string;
-}
-
-const initialSchedules: FeedingSchedule[] = [
-  {
-    id: '1',
-    time: '08:00',
-    amount: 2.5,
-    type: 'Starter Feed',
-    notes: 'Morning feeding',
-  },
-  {
-    id: '2',
-    time: '14:00',
-    amount: 2.0,
-    type: 'Grower Feed',
-    notes: 'Afternoon feeding',
-  },
-  {
-    id: '3',
-    time: '18:00',
-    amount: 1.5,
-    type: 'Finisher Feed',
-    notes: 'Evening feeding',
-  },
-];
-
-const initialStock: FeedStock[] = [
-  {
-    type: 'Starter Feed',
-    amount: 50,
-    unit: 'kg',
-    lastUpdated: new Date().toISOString(),
-  },
-  {
-    type: 'Grower Feed',
-    amount: 75,
-    unit: 'kg',
-    lastUpdated: new Date().toISOString(),
-  },
-  {
-    type: 'Finisher Feed',
-    amount: 100,
-    unit: 'kg',
-    lastUpdated: new Date().toISOString(),
-  },
-];
+import { useCollection } from '../db';
+import type { FeedingSchedule } from '../types/records';
 
 const FeedManagement: React.FC = () => {
-  const [schedules, setSchedules] = useState<FeedingSchedule[]>(initialSchedules);
-  const [stock, setStock] = useState<FeedStock[]>(initialStock);
+  const [schedules, setSchedules] = useCollection('feedingSchedules');
+  const [stock, setStock] = useCollection('feedStock');
   const [editingSchedule, setEditingSchedule] = useState<FeedingSchedule | null>(null);
   const [showDialog, setShowDialog] = useState(false);
   const [newSchedule, setNewSchedule] = useState<Partial<FeedingSchedule>>({});
@@ -365,7 +307,7 @@ const FeedManagement: React.FC = () => {
                       </TableRow>
                     </TableHead>
                     <TableBody>
-                      {schedules
+                      {[...schedules]
                         .sort((a, b) => a.time.localeCompare(b.time))
                         .map((item) => (
                           <TableRow key={item.id}>
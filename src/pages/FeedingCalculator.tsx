@@ -39,6 +39,12 @@ import {
   Info as InfoIcon,
 } from '@mui/icons-material';
 import FormField from '../components/FormField';
+import { useCollection } from '../db';
+import BatchPicker from '../components/BatchPicker';
+import type { Batch, FeedingHistory } from '../types/records';
+import { useSpeciesCatalog, findSpecies, growthStages, feedingRateFor, growthStageForWeight } from '../species';
+import { addBatchEntry, getBiomass, getCurrentWeight } from '../utils/batches';
+import type { GrowthStage } from '../species';
 
 interface FeedingData {
   species: string;
@@ -48,110 +54,6 @@ interface FeedingData {
   feedingFrequency: number;
 }
 
-interface FeedingHistory {
-  id: number;
-  date: string;
-  amount: number;
-  notes: string;
-}
-
-interface Species {
-  name: string;
-  feedingRates: {
-    [key: string]: {
-      minTemp: number;
-      maxTemp: number;
-      rates: {
-        [key: string]: number; // growth stage -> feeding rate (% of biomass)
-      };
-    };
-  };
-  feedingTips: string[];
-  optimalFrequency: {
-    [key: string]: number; // growth stage -> times per day
-  };
-}
-
-const speciesData: { [key: string]: Species } = {
-  'Tilapia': {
-    name: 'Tilapia',
-    feedingRates: {
-      'optimal': {
-        minTemp: 25,
-        maxTemp: 32,
-        rates: {
-          'fry': 15,
-          'fingerling': 8,
-          'juvenile': 5,
-          'adult': 3,
-        },
-      },
-      'suboptimal': {
-        minTemp: 20,
-        maxTemp: 24,
-        rates: {
-          'fry': 12,
-          'fingerling': 6,
-          'juvenile': 4,
-          'adult': 2,
-        },
-      },
-    },
-    feedingTips: [
-      'Feed small amounts frequently for better feed conversion',
-      'Observe fish behavior during feeding to avoid overfeeding',
-      'Adjust feeding rate based on water quality conditions',
-      'Reduce feeding during periods of stress or disease',
-    ],
-    optimalFrequency: {
-      'fry': 6,
-      'fingerling': 4,
-      'juvenile': 3,
-      'adult': 2,
-    },
-  },
-  'Common Carp': {
-    name: 'Common Carp',
-    feedingRates: {
-      'optimal': {
-        minTemp: 20,
-        maxTemp: 28,
-        rates: {
-          'fry': 12,
-          'fingerling': 6,
-          'juvenile': 4,
-          'adult': 2,
-        },
-      },
-      'suboptimal': {
-        minTemp: 15,
-        maxTemp: 19,
-        rates: {
-          'fry': 10,
-          'fingerling': 5,
-          'juvenile': 3,
-          'adult': 1.5,
-        },
-      },
-    },
-    feedingTips: [
-      'Carp are bottom feeders - ensure feed reaches the bottom',
-      'Monitor water quality closely during intensive feeding',
-      'Supplement with natural pond productivity',
-      'Adjust feeding based on seasonal changes',
-    ],
-    optimalFrequency: {
-      'fry': 5,
-      'fingerling': 4,
-      'juvenile': 3,
-      'adult': 2,
-    },
-  },
-  // Add more species as needed
-};
-
-const growthStages = ['fry', 'fingerling', 'juvenile', 'adult'];
-
 export default function FeedingCalculator() {
   const [formData, setFormData] = useState<FeedingData>({
     species: '',
@@ -161,11 +63,15 @@ export default function FeedingCalculator() {
     feedingFrequency: 2,
   });
 
-  const [feedingHistory, setFeedingHistory] = useState<FeedingHistory[]>([]);
+  const [feedingHistory, setFeedingHistory] = useCollection('feedingHistory');
   const [calculatedAmount, setCalculatedAmount] = useState<number | null>(null);
   const [remindersEnabled, setRemindersEnabled] = useState(false);
   const [openDialog, setOpenDialog] = useState(false);
   const [selectedHistory, setSelectedHistory] = useState<FeedingHistory | null>(null);
+  const [batchId, setBatchId] = useState('');
+  const { catalog } = useSpeciesCatalog();
+  const selectedSpecies = findSpecies(catalog, formData.species);
+  const stage = formData.growthStage as GrowthStage;
 
   const handleChange = (field: keyof FeedingData) => (
     event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement> | SelectChangeEvent<string>
@@ -177,23 +83,23 @@ export default function FeedingCalculator() {
     }));
   };
 
-  const calculateFeedingRate = (): number => {
-    const species = speciesData[formData.species];
-    if (!species) return 0;
-
-    const temp = formData.waterTemperature;
-    let condition: 'optimal' | 'suboptimal' = 'optimal';
+  const handleBatchSelect = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    setFormData((prev) => ({
+      ...prev,
+      species: batch.speciesId,
+      biomass: Math.round(getBiomass(batch) * 10) / 10,
+      growthStage: growthStageForWeight(getCurrentWeight(batch)),
+    }));
+  };
 
-    if (
-      temp < species.feedingRates.optimal.minTemp ||
-      temp > species.feedingRates.optimal.maxTemp
-    ) {
-      condition = 'suboptimal';
-    }
+  const calculateFeedingRate = (): number => {
+    if (!selectedSpecies || !formData.growthStage) return 0;
 
-    const baseRate = species.feedingRates[condition].rates[formData.growthStage];
+    const baseRate = feedingRateFor(selectedSpecies, stage, formData.waterTemperature);
     const dailyAmount = (formData.biomass * baseRate) / 100;
-    return dailyAmount / species.optimalFrequency[formData.growthStage];
+    return dailyAmount / selectedSpecies.feeding.frequency[stage];
   };
 
   const handleCalculate = () => {
@@ -223,12 +129,21 @@ export default function FeedingCalculator() {
       notes,
     };
 
-    if (selectedHistory.id) {
+    if (feedingHistory.some((item) => item.id === selectedHistory.id)) {
       setFeedingHistory((prev) =>
         prev.map((item) => (item.id === selectedHistory.id ? newFeeding : item))
       );
     } else {
       setFeedingHistory((prev) => [...prev, newFeeding]);
+      if (batchId) {
+        addBatchEntry(batchId, 'feedLogs', {
+          id: newFeeding.id.toString(),
+          date: newFeeding.date.split('T')[0],
+          amount: newFeeding.amount,
+          feedType: '',
+          notes,
+        });
+      }
     }
 
     setOpenDialog(false);
@@ -255,16 +170,15 @@ export default function FeedingCalculator() {
   };
 
   useEffect(() => {
-    if (remindersEnabled && formData.species && formData.growthStage) {
-      const species = speciesData[formData.species];
-      const frequency = species.optimalFrequency[formData.growthStage];
+    if (remindersEnabled && selectedSpecies && formData.growthStage) {
+      const frequency = selectedSpecies.feeding.frequency[stage];
       const interval = 24 / frequency;
 
       // Set up notifications
       const timer = setInterval(() => {
         if ('Notification' in window && Notification.permission === 'granted') {
           new Notification('Feeding Reminder', {
-            body: `Time to feed your ${formData.species}!`,
+            body: `Time to feed your ${selectedSpecies.name}!`,
             icon: '/logo.png',
           });
         }
@@ -272,7 +186,7 @@ export default function FeedingCalculator() {
 
       return () => clearInterval(timer);
     }
-  }, [remindersEnabled, formData.species, formData.growthStage]);
+  }, [remindersEnabled, selectedSpecies, formData.growthStage, stage]);
 
   return (
     <Container maxWidth="lg">
@@ -290,6 +204,9 @@ export default function FeedingCalculator() {
               Feeding Parameters
             </Typography>
             <Grid container spacing={2}>
+              <Grid item xs={12}>
+                <BatchPicker value={batchId} onChange={handleBatchSelect} statuses={['stocked', 'growing', 'harvesting']} />
+              </Grid>
               <Grid item xs={12}>
                 <FormControl fullWidth required>
                   <InputLabel>Species</InputLabel>
@@ -298,9 +215,9 @@ export default function FeedingCalculator() {
                     onChange={handleChange('species') as (event: SelectChangeEvent<string>) => void}
                     label="Species"
                   >
-                    {Object.keys(speciesData).map((species) => (
-                      <MenuItem key={species} value={species}>
-                        {species}
+                    {catalog.map((species) => (
+                      <MenuItem key={species.id} value={species.id}>
+                        {species.name}
                       </MenuItem>
                     ))}
                   </Select>
@@ -308,7 +225,8 @@ export default function FeedingCalculator() {
               </Grid>
               <Grid item xs={12}>
                 <FormField
-                  label="Total Biomass (kg)"
+                  label="Total Biomass"
+                  unit="kg"
                   value={formData.biomass.toString()}
                   onChange={(value) =>
                     setFormData((prev) => ({ ...prev, biomass: parseFloat(value) || 0 }))
@@ -319,7 +237,8 @@ export default function FeedingCalculator() {
               </Grid>
               <Grid item xs={12}>
                 <FormField
-                  label="Water Temperature (°C)"
+                  label="Water Temperature"
+                  unit="°C"
                   value={formData.waterTemperature.toString()}
                   onChange={(value) =>
                     setFormData((prev) => ({
@@ -370,9 +289,9 @@ export default function FeedingCalculator() {
                   <Typography variant="subtitle1">
                     Recommended Feeding Amount: {calculatedAmount.toFixed(2)} kg per feeding
                   </Typography>
-                  {formData.species && formData.growthStage && (
+                  {selectedSpecies && formData.growthStage && (
                     <Typography variant="body2">
-                      Feed {speciesData[formData.species].optimalFrequency[formData.growthStage]} times
+                      Feed {selectedSpecies.feeding.frequency[stage]} times
                       per day
                     </Typography>
                   )}
@@ -389,13 +308,13 @@ export default function FeedingCalculator() {
             )}
           </Paper>
 
-          {formData.species && (
+          {selectedSpecies && (
             <Paper sx={{ p: 3, mt: 3 }}>
               <Typography variant="h6" gutterBottom>
                 Feeding Tips
               </Typography>
               <ul>
-                {speciesData[formData.species].feedingTips.map((tip, index) => (
+                {selectedSpecies.feeding.tips.map((tip, index) => (
                   <li key={index}>
                     <Typography variant="body2">{tip}</Typography>
                   </li>
@@ -24,6 +24,12 @@ import {
   TableRow,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondArea, savePondResult, toFieldValue } from '../utils/ponds';
+import { useSpeciesCatalog, findSpecies, speciesOptions } from '../species';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -78,27 +84,6 @@ interface CalculationResult {
   };
 }
 
-const speciesData = {
-  tilapia: {
-    maxDensity: 5, // kg/m³
-    feedConversion: 1.6,
-    seedCost: 0.1, // USD per fingerling
-    marketPrice: 3.5, // USD per kg
-  },
-  carp: {
-    maxDensity: 4,
-    feedConversion: 1.8,
-    seedCost: 0.15,
-    marketPrice: 4.0,
-  },
-  catfish: {
-    maxDensity: 6,
-    feedConversion: 1.5,
-    seedCost: 0.2,
-    marketPrice: 4.5,
-  },
-};
-
 const initialFormData: CalculatorData = {
   species: '',
   pondArea: '',
@@ -113,10 +98,14 @@ const initialFormData: CalculatorData = {
 };
 
 export default function FishCalculator() {
+  const { settings, formatMoney, fromUsd } = useCurrency();
+  const { format } = useUnits();
   const [tabValue, setTabValue] = useState(0);
   const [formData, setFormData] = useState<CalculatorData>(initialFormData);
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [pondId, setPondId] = useState('');
+  const { catalog } = useSpeciesCatalog();
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -126,6 +115,16 @@ export default function FishCalculator() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    setFormData((prev) => ({
+      ...prev,
+      pondArea: toFieldValue(getPondArea(pond)),
+      pondDepth: toFieldValue(pond.depth),
+    }));
+  };
+
   const calculateProduction = () => {
     const area = parseFloat(formData.pondArea);
     const depth = parseFloat(formData.pondDepth);
@@ -146,15 +145,16 @@ export default function FishCalculator() {
       ((targetWeight * 1000 - initialWeight * 1000) / growthRate)
     );
 
-    const speciesInfo = speciesData[formData.species as keyof typeof speciesData];
-    const feedRequired = (finalBiomass - initialBiomass) * speciesInfo.feedConversion;
+    const speciesInfo = findSpecies(catalog, formData.species);
+    if (!speciesInfo) return;
+    const feedRequired = (finalBiomass - initialBiomass) * speciesInfo.production.fcr;
     const waterRequired = volume * waterExchange * productionCycle;
 
     // Economic calculations
-    const feedCost = feedRequired * 1.2; // Assumed feed cost of $1.2 per kg
-    const seedCost = stockingNumber * speciesInfo.seedCost;
+    const feedCost = feedRequired * settings.feedPrice;
+    const seedCost = stockingNumber * fromUsd(speciesInfo.prices.seed);
     const operatingCost = (feedCost + seedCost) * 0.3; // Additional operating costs
-    const revenue = finalBiomass * speciesInfo.marketPrice;
+    const revenue = finalBiomass * fromUsd(speciesInfo.prices.market);
     const profit = revenue - (feedCost + seedCost + operatingCost);
 
     const result: CalculationResult = {
@@ -176,6 +176,13 @@ export default function FishCalculator() {
 
     setResult(result);
     setShowResults(true);
+
+    if (pondId) {
+      savePondResult(pondId, 'production', {
+        summary: `${stockingNumber.toLocaleString()} ${speciesInfo.name} → ${finalBiomass.toFixed(0)} kg in ${productionCycle} days`,
+        values: { species: formData.species, stockingNumber, finalBiomass, productionCycle, estimatedProfit: profit },
+      });
+    }
   };
 
   return (
@@ -189,22 +196,23 @@ export default function FishCalculator() {
       </Typography>
 
             <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <PondPicker value={pondId} onChange={handlePondSelect} />
+          </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
               label="Species"
               value={formData.species}
               onChange={handleChange('species')}
               type="select"
-              options={Object.keys(speciesData).map((s) => ({
-                value: s,
-                label: s.charAt(0).toUpperCase() + s.slice(1),
-              }))}
+              options={speciesOptions(catalog)}
               required
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Pond Area (m²)"
+              label="Pond Area"
+              unit="m²"
               value={formData.pondArea}
               onChange={handleChange('pondArea')}
                   type="number"
@@ -213,7 +221,8 @@ export default function FishCalculator() {
               </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Average Depth (m)"
+              label="Average Depth"
+              unit="m"
               value={formData.pondDepth}
               onChange={handleChange('pondDepth')}
                   type="number"
@@ -222,7 +231,8 @@ export default function FishCalculator() {
               </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Stocking Density (kg/m³)"
+              label="Stocking Density"
+              unit="kg/m³"
               value={formData.stockingDensity}
               onChange={handleChange('stockingDensity')}
                   type="number"
@@ -231,7 +241,8 @@ export default function FishCalculator() {
               </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Initial Weight (g)"
+              label="Initial Weight"
+              unit="g"
               value={formData.initialWeight}
               onChange={handleChange('initialWeight')}
                   type="number"
@@ -240,7 +251,8 @@ export default function FishCalculator() {
               </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Target Weight (g)"
+              label="Target Weight"
+              unit="g"
               value={formData.targetWeight}
               onChange={handleChange('targetWeight')}
                   type="number"
@@ -258,7 +270,8 @@ export default function FishCalculator() {
               </Grid>
           <Grid item xs={12} sm={6} md={4}>
                 <FormField
-              label="Growth Rate (g/day)"
+              label="Growth Rate"
+              unit="g/day"
               value={formData.growthRate}
               onChange={handleChange('growthRate')}
                   type="number"
@@ -466,7 +479,7 @@ export default function FishCalculator() {
                     <TableBody>
                       <TableRow>
                         <TableCell>Total Pond Volume</TableCell>
-                        <TableCell align="right">{result.totalVolume.toFixed(1)} m³</TableCell>
+                        <TableCell align="right">{format(result.totalVolume, 'm³', 1)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Number of Fish to Stock</TableCell>
@@ -474,11 +487,11 @@ export default function FishCalculator() {
                       </TableRow>
                       <TableRow>
                         <TableCell>Initial Biomass</TableCell>
-                        <TableCell align="right">{result.initialBiomass.toFixed(1)} kg</TableCell>
+                        <TableCell align="right">{format(result.initialBiomass, 'kg', 1)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Expected Final Biomass</TableCell>
-                        <TableCell align="right">{result.finalBiomass.toFixed(1)} kg</TableCell>
+                        <TableCell align="right">{format(result.finalBiomass, 'kg', 1)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Production Cycle</TableCell>
@@ -486,11 +499,11 @@ export default function FishCalculator() {
                       </TableRow>
                       <TableRow>
                         <TableCell>Total Feed Required</TableCell>
-                        <TableCell align="right">{result.feedRequired.toFixed(1)} kg</TableCell>
+                        <TableCell align="right">{format(result.feedRequired, 'kg', 1)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Water Requirement</TableCell>
-                        <TableCell align="right">{result.waterRequired.toFixed(1)} m³</TableCell>
+                        <TableCell align="right">{format(result.waterRequired, 'm³', 1)}</TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -511,25 +524,25 @@ export default function FishCalculator() {
                       <TableRow>
                         <TableCell>Estimated Revenue</TableCell>
                         <TableCell align="right">
-                          ${result.economicMetrics.estimatedRevenue.toFixed(2)}
+                          {formatMoney(result.economicMetrics.estimatedRevenue)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Feed Cost</TableCell>
                         <TableCell align="right">
-                          ${result.economicMetrics.feedCost.toFixed(2)}
+                          {formatMoney(result.economicMetrics.feedCost)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Seed Cost</TableCell>
                         <TableCell align="right">
-                          ${result.economicMetrics.seedCost.toFixed(2)}
+                          {formatMoney(result.economicMetrics.seedCost)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Operating Cost</TableCell>
                         <TableCell align="right">
-                          ${result.economicMetrics.operatingCost.toFixed(2)}
+                          {formatMoney(result.economicMetrics.operatingCost)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
@@ -538,7 +551,7 @@ export default function FishCalculator() {
                         </TableCell>
                         <TableCell align="right">
                           <Typography variant="subtitle1" color={result.economicMetrics.estimatedProfit > 0 ? 'success.main' : 'error.main'}>
-                            ${result.economicMetrics.estimatedProfit.toFixed(2)}
+                            {formatMoney(result.economicMetrics.estimatedProfit)}
                 </Typography>
                         </TableCell>
                       </TableRow>
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -14,9 +15,16 @@ import {
   Tooltip,
   IconButton,
   Chip,
+  Link,
 } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondDimensions, savePondResult, toFieldValue } from '../utils/ponds';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import { emptyBatch, saveBatch, today } from '../utils/batches';
+import { useUnits } from '../contexts/UnitsContext';
 
 interface StockingData {
   pondLength: string;
@@ -44,33 +52,6 @@ const initialFormData: StockingData = {
   expectedSurvival: '',
 };
 
-const fishSpeciesList = [
-  {
-    name: 'Tilapia',
-    maxDensity: 5, // kg/m³
-    growthRate: 2.5, // g/day
-    oxygenRequirement: 4, // mg/L
-  },
-  {
-    name: 'Common Carp',
-    maxDensity: 4,
-    growthRate: 2.0,
-    oxygenRequirement: 3.5,
-  },
-  {
-    name: 'Catfish',
-    maxDensity: 6,
-    growthRate: 3.0,
-    oxygenRequirement: 3,
-  },
-  {
-    name: 'Rohu',
-    maxDensity: 3,
-    growthRate: 1.8,
-    oxygenRequirement: 4,
-  },
-];
-
 const aerationSystems = [
   'Paddle Wheel',
   'Air Diffuser',
@@ -97,27 +78,43 @@ interface StockingAnalysis {
 }
 
 export default function FishStockingCalculator() {
+  const { format } = useUnits();
   const [formData, setFormData] = useState<StockingData>(initialFormData);
   const [analysis, setAnalysis] = useState<StockingAnalysis | null>(null);
+  const [pondId, setPondId] = useState('');
+  const [pondName, setPondName] = useState('');
+  const [plannedBatch, setPlannedBatch] = useState<string | null>(null);
+  const { catalog } = useSpeciesCatalog();
 
   const handleChange = (field: keyof StockingData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setPondName(pond?.name ?? '');
+    if (!pond) return;
+    const { length, width, depth } = getPondDimensions(pond);
+    setFormData((prev) => ({
+      ...prev,
+      pondLength: toFieldValue(length),
+      pondWidth: toFieldValue(width),
+      pondDepth: toFieldValue(depth),
+    }));
+  };
+
   const calculateStocking = () => {
     // Parse input values
     const volume = parseFloat(formData.pondLength) * 
                   parseFloat(formData.pondWidth) * 
                   parseFloat(formData.pondDepth);
     
-    const selectedSpecies = fishSpeciesList.find(
-      species => species.name === formData.fishSpecies
-    );
+    const selectedSpecies = findSpecies(catalog, formData.fishSpecies);
     
     if (!selectedSpecies) return null;
 
     // Calculate base stocking density
-    let baseDensity = selectedSpecies.maxDensity;
+    let baseDensity = selectedSpecies.production.maxDensity;
     
     // Adjust density based on aeration
     const aerationFactor = formData.aerationSystem === 'No Aeration' ? 0.6 : 1.0;
@@ -138,7 +135,7 @@ export default function FishStockingCalculator() {
     const expectedProduction = totalFish * targetWeight * survivalRate;
     
     // Calculate aeration requirement
-    const aerationReq = (expectedProduction * selectedSpecies.oxygenRequirement) / 1000;
+    const aerationReq = (expectedProduction * selectedSpecies.waterQuality.dissolvedOxygen.min) / 1000;
     
     // Calculate daily feed requirement
     const feedRate = formData.feedingStrategy.includes('Intensive') ? 0.05 :
@@ -189,6 +186,35 @@ export default function FishStockingCalculator() {
     e.preventDefault();
     const result = calculateStocking();
     if (result) setAnalysis(result);
+    setPlannedBatch(null);
+    if (result && pondId) {
+      savePondResult(pondId, 'stocking', {
+        summary: `Stock ${result.totalFishCount.toLocaleString()} ${findSpecies(catalog, formData.fishSpecies)?.name} for ${result.expectedProduction.toFixed(0)} kg expected`,
+        values: {
+          species: formData.fishSpecies,
+          totalFishCount: result.totalFishCount,
+          stockingDensity: result.recommendedStockingDensity,
+          expectedProduction: result.expectedProduction,
+        },
+      });
+    }
+  };
+
+  const handlePlanBatch = () => {
+    if (!analysis) return;
+    const speciesName = findSpecies(catalog, formData.fishSpecies)?.name ?? formData.fishSpecies;
+    const name = `${pondName || speciesName} ${today()}`;
+    saveBatch({
+      ...emptyBatch,
+      id: Date.now().toString(),
+      name,
+      pondId,
+      speciesId: formData.fishSpecies,
+      stockingDate: today(),
+      count: analysis.totalFishCount,
+      notes: `Planned for ${analysis.expectedProduction.toFixed(0)} kg expected production`,
+    });
+    setPlannedBatch(name);
   };
 
   return (
@@ -206,9 +232,13 @@ export default function FishStockingCalculator() {
             Pond Dimensions
           </Typography>
           <Grid container spacing={2}>
+            <Grid item xs={12}>
+              <PondPicker value={pondId} onChange={handlePondSelect} />
+            </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Length (m)"
+                label="Length"
+                unit="m"
                 value={formData.pondLength}
                 onChange={handleChange('pondLength')}
                 type="number"
@@ -217,7 +247,8 @@ export default function FishStockingCalculator() {
             </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Width (m)"
+                label="Width"
+                unit="m"
                 value={formData.pondWidth}
                 onChange={handleChange('pondWidth')}
                 type="number"
@@ -226,7 +257,8 @@ export default function FishStockingCalculator() {
             </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Depth (m)"
+                label="Depth"
+                unit="m"
                 value={formData.pondDepth}
                 onChange={handleChange('pondDepth')}
                 type="number"
@@ -247,8 +279,8 @@ export default function FishStockingCalculator() {
                   onChange={(e) => handleChange('fishSpecies')(e.target.value)}
                   required
                 >
-                  {fishSpeciesList.map((species) => (
-                    <MenuItem key={species.name} value={species.name}>
+                  {catalog.map((species) => (
+                    <MenuItem key={species.id} value={species.id}>
                       {species.name}
                     </MenuItem>
                   ))}
@@ -257,7 +289,8 @@ export default function FishStockingCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Target Size (g)"
+                label="Target Size"
+                unit="g"
                 value={formData.targetSize}
                 onChange={handleChange('targetSize')}
                 type="number"
@@ -357,13 +390,13 @@ export default function FishStockingCalculator() {
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Pond Volume:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.pondVolume.toFixed(1)} m³
+                {format(analysis.pondVolume, 'm³', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Recommended Stocking Density:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.recommendedStockingDensity.toFixed(1)} kg/m³
+                {format(analysis.recommendedStockingDensity, 'kg/m³', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -375,7 +408,7 @@ export default function FishStockingCalculator() {
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Expected Production:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.expectedProduction.toFixed(1)} kg
+                {format(analysis.expectedProduction, 'kg', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -433,6 +466,22 @@ export default function FishStockingCalculator() {
                 ))}
               </ul>
             </Grid>
+
+            <Grid item xs={12}>
+              {plannedBatch ? (
+                <Alert severity="success">
+                  Planned batch "{plannedBatch}" created. Set the stocking date and weight in{' '}
+                  <Link component={RouterLink} to="/batches">
+                    Production Batches
+                  </Link>
+                  .
+                </Alert>
+              ) : (
+                <Button variant="outlined" onClick={handlePlanBatch}>
+                  Plan a Batch with {analysis.totalFishCount.toLocaleString()} Fish
+                </Button>
+              )}
+            </Grid>
           </Grid>
         </Paper>
       )}
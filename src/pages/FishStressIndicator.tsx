@@ -28,8 +28,13 @@ import {
 } from '@mui/material';
 import { Info as InfoIcon } from '@mui/icons-material';
 import type { SelectChangeEvent } from '@mui/material/Select';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import type { SpeciesProfile, ParameterRange } from '../species';
 import { RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ResponsiveContainer } from 'recharts';
 import FormField from '../components/FormField';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useSite } from '../contexts/SiteContext';
+import { percentSaturation, SUPERSATURATION_LIMIT } from '../engine';
 
 interface StressData {
   waterTemperature: string;
@@ -48,6 +53,8 @@ interface StressData {
 
 interface StressAnalysis {
   stressLevel: 'Low' | 'Moderate' | 'High';
+  oxygenSaturation: number; // % of saturation at the site
+
   causes: string[];
   recommendations: string[];
   riskFactors: {
@@ -63,47 +70,24 @@ interface StressAnalysis {
   economicImpact: {
     growthReduction: number;
     mortalityRisk: number;
-    treatmentCost: number;
+    treatmentCost: number; // US$
   };
 }
 
-const speciesParameters = {
-  tilapia: {
-    tempRange: { min: 25, max: 32, optimal: 28 },
-    doRange: { min: 3, max: 8, optimal: 5 },
-    phRange: { min: 6.5, max: 8.5, optimal: 7.5 },
-    ammoniaMax: 0.5,
-    nitriteMax: 0.3,
-    salinityRange: { min: 0, max: 15, optimal: 0 },
-    description: 'Hardy species with good stress tolerance',
-  },
-  carp: {
-    tempRange: { min: 20, max: 28, optimal: 25 },
-    doRange: { min: 4, max: 8, optimal: 6 },
-    phRange: { min: 6.5, max: 8.5, optimal: 7.2 },
-    ammoniaMax: 0.4,
-    nitriteMax: 0.2,
-    salinityRange: { min: 0, max: 5, optimal: 0 },
-    description: 'Adaptable to various water conditions',
-  },
-  catfish: {
-    tempRange: { min: 24, max: 30, optimal: 27 },
-    doRange: { min: 3, max: 7, optimal: 5 },
-    phRange: { min: 6, max: 8.5, optimal: 7 },
-    ammoniaMax: 0.5,
-    nitriteMax: 0.3,
-    salinityRange: { min: 0, max: 8, optimal: 0 },
-    description: 'Tolerant of poor water quality',
-  },
-  trout: {
-    tempRange: { min: 10, max: 20, optimal: 15 },
-    doRange: { min: 6, max: 10, optimal: 8 },
-    phRange: { min: 6.5, max: 8.5, optimal: 7.5 },
-    ammoniaMax: 0.2,
-    nitriteMax: 0.1,
-    salinityRange: { min: 0, max: 30, optimal: 0 },
-    description: 'Sensitive to water quality changes',
-  },
+const optimalMidpoint = (range: ParameterRange) => (range.optimal.min + range.optimal.max) / 2;
+
+// Single-value targets the water quality score measures deviation from, derived
+// from the species' catalog ranges.
+const stressParameters = (species: SpeciesProfile) => {
+  const { temperature, dissolvedOxygen, ph, ammonia, nitrite, salinity } = species.waterQuality;
+  return {
+    tempRange: { min: temperature.min, max: temperature.max, optimal: optimalMidpoint(temperature) },
+    doRange: { min: dissolvedOxygen.min, max: dissolvedOxygen.max, optimal: dissolvedOxygen.optimal.min },
+    phRange: { min: ph.min, max: ph.max, optimal: optimalMidpoint(ph) },
+    ammoniaMax: ammonia.optimal.max,
+    nitriteMax: nitrite.optimal.max,
+    salinityRange: { min: salinity.min, max: salinity.max, optimal: optimalMidpoint(salinity) },
+  };
 };
 
 const behaviorOptions = [
@@ -142,6 +126,9 @@ const initialFormData: StressData = {
 };
 
 const FishStressIndicator: React.FC = () => {
+  const { catalog } = useSpeciesCatalog();
+  const { pressure } = useSite();
+  const { formatMoney, fromUsd } = useCurrency();
   const [formData, setFormData] = useState<StressData>(initialFormData);
   const [analysis, setAnalysis] = useState<StressAnalysis | null>(null);
 
@@ -166,7 +153,14 @@ const FishStressIndicator: React.FC = () => {
     }));
   };
 
-  const calculateWaterQualityScore = (params: typeof speciesParameters.tilapia) => {
+  const currentSaturation = () =>
+    percentSaturation(parseFloat(formData.dissolvedOxygen), {
+      temperature: parseFloat(formData.waterTemperature),
+      salinity: parseFloat(formData.salinity) || 0,
+      pressure,
+    });
+
+  const calculateWaterQualityScore = (params: ReturnType<typeof stressParameters>) => {
     const temp = parseFloat(formData.waterTemperature);
     const do_ = parseFloat(formData.dissolvedOxygen);
     const ph = parseFloat(formData.ph);
@@ -187,6 +181,9 @@ const FishStressIndicator: React.FC = () => {
     } else if (do_ < params.doRange.optimal) {
       score -= 15;
     }
+    if (currentSaturation() > SUPERSATURATION_LIMIT) {
+      score -= 15;
+    }
 
     // pH deviation
     const phDeviation = Math.abs(ph - params.phRange.optimal);
@@ -264,7 +261,9 @@ const FishStressIndicator: React.FC = () => {
   };
 
   const analyzeStress = () => {
-    const speciesParams = speciesParameters[formData.species as keyof typeof speciesParameters];
+    const species = findSpecies(catalog, formData.species);
+    if (!species) return null;
+    const speciesParams = stressParameters(species);
     
     // Calculate risk factors
     const waterQuality = calculateWaterQualityScore(speciesParams);
@@ -280,8 +279,12 @@ const FishStressIndicator: React.FC = () => {
       overallScore > 0.4 ? 'Moderate' : 'High';
 
     // Generate causes
+    const oxygenSaturation = currentSaturation();
     const causes: string[] = [];
     if (waterQuality < 0.6) causes.push('Poor water quality parameters');
+    if (oxygenSaturation > SUPERSATURATION_LIMIT) {
+      causes.push(`Oxygen supersaturation (${oxygenSaturation.toFixed(0)}%) can cause gas bubble disease`);
+    }
     if (behavior < 0.6) causes.push('Abnormal behavior patterns');
     if (feeding < 0.6) causes.push('Reduced feeding response');
     if (environmental < 0.6) causes.push('Suboptimal environmental conditions');
@@ -289,7 +292,7 @@ const FishStressIndicator: React.FC = () => {
 
     // Generate recommendations
     const recommendations = [
-      waterQuality < 0.6 ? `Optimize water parameters for ${formData.species} (Temp: ${speciesParams.tempRange.optimal}°C, DO: ${speciesParams.doRange.optimal} mg/L)` : null,
+      waterQuality < 0.6 ? `Optimize water parameters for ${species.name} (Temp: ${speciesParams.tempRange.optimal}°C, DO: ${speciesParams.doRange.optimal} mg/L)` : null,
       behavior < 0.6 ? 'Monitor fish behavior closely and identify specific stressors' : null,
       feeding < 0.6 ? 'Adjust feeding regime and monitor feed consumption' : null,
       environmental < 0.6 ? 'Improve environmental conditions (water flow, stocking density)' : null,
@@ -326,6 +329,7 @@ const FishStressIndicator: React.FC = () => {
 
     return {
       stressLevel,
+      oxygenSaturation,
       causes,
       recommendations,
       riskFactors: {
@@ -401,9 +405,9 @@ const FishStressIndicator: React.FC = () => {
                       label="Species"
                       onChange={handleSelectChange}
                     >
-                      {Object.entries(speciesParameters).map(([key, { description }]) => (
-                        <MenuItem key={key} value={key}>
-                          {key.charAt(0).toUpperCase() + key.slice(1)} - {description}
+                      {catalog.map((species) => (
+                        <MenuItem key={species.id} value={species.id}>
+                          {species.name} - {species.description}
                         </MenuItem>
                       ))}
                     </Select>
@@ -411,7 +415,8 @@ const FishStressIndicator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Water Temperature (°C)"
+                    label="Water Temperature"
+                    unit="°C"
                     value={formData.waterTemperature}
                     onChange={handleChange('waterTemperature')}
                     type="number"
@@ -421,7 +426,8 @@ const FishStressIndicator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Dissolved Oxygen (mg/L)"
+                    label="Dissolved Oxygen"
+                    unit="mg/L"
                     value={formData.dissolvedOxygen}
                     onChange={handleChange('dissolvedOxygen')}
                     type="number"
@@ -441,7 +447,8 @@ const FishStressIndicator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Ammonia (mg/L)"
+                    label="Ammonia"
+                    unit="mg/L"
                     value={formData.ammonia}
                     onChange={handleChange('ammonia')}
                     type="number"
@@ -451,7 +458,8 @@ const FishStressIndicator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Nitrite (mg/L)"
+                    label="Nitrite"
+                    unit="mg/L"
                     value={formData.nitrite}
                     onChange={handleChange('nitrite')}
                     type="number"
@@ -481,7 +489,8 @@ const FishStressIndicator: React.FC = () => {
               <Grid container spacing={2}>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Stocking Density (kg/m³)"
+                    label="Stocking Density"
+                    unit="kg/m³"
                     value={formData.stockingDensity}
                     onChange={handleChange('stockingDensity')}
                     type="number"
@@ -491,7 +500,8 @@ const FishStressIndicator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Water Flow (L/min)"
+                    label="Water Flow"
+                    unit="L/min"
                     value={formData.waterFlow}
                     onChange={handleChange('waterFlow')}
                     type="number"
@@ -603,6 +613,11 @@ const FishStressIndicator: React.FC = () => {
                   </Typography>
                 </Alert>
 
+                <Typography variant="body2" color="text.secondary">
+                  Dissolved oxygen is {analysis.oxygenSaturation.toFixed(0)}% of saturation at this temperature,
+                  salinity and site pressure.
+                </Typography>
+
                 <Typography variant="h6" sx={{ mt: 3, mb: 2 }}>
                   Risk Factor Analysis
                 </Typography>
@@ -641,7 +656,7 @@ const FishStressIndicator: React.FC = () => {
                       </TableRow>
                       <TableRow>
                         <TableCell>Estimated Treatment Cost</TableCell>
-                        <TableCell>${analysis.economicImpact.treatmentCost.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(fromUsd(analysis.economicImpact.treatmentCost))}</TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
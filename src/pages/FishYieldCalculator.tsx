@@ -17,6 +17,11 @@ import {
 } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
 import FormField from '../components/FormField';
+import BatchPicker from '../components/BatchPicker';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import type { Batch } from '../types/records';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface YieldData {
   initialStocking: string;
@@ -44,33 +49,6 @@ const initialFormData: YieldData = {
   managementLevel: '',
 };
 
-const speciesList = [
-  {
-    name: 'Tilapia',
-    growthRate: 2.5, // g/day
-    maxSize: 800, // g
-    optimalTemp: [25, 32], // °C
-  },
-  {
-    name: 'Common Carp',
-    growthRate: 2.0,
-    maxSize: 1500,
-    optimalTemp: [20, 28],
-  },
-  {
-    name: 'Catfish',
-    growthRate: 3.0,
-    maxSize: 1200,
-    optimalTemp: [24, 30],
-  },
-  {
-    name: 'Rohu',
-    growthRate: 1.8,
-    maxSize: 1000,
-    optimalTemp: [22, 30],
-  },
-];
-
 const waterQualityLevels = [
   'Excellent',
   'Good',
@@ -108,13 +86,28 @@ interface YieldAnalysis {
 }
 
 export default function FishYieldCalculator() {
+  const { settings, formatMoney, fromUsd } = useCurrency();
+  const { format } = useUnits();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<YieldData>(initialFormData);
   const [analysis, setAnalysis] = useState<YieldAnalysis | null>(null);
+  const [batchId, setBatchId] = useState('');
 
   const handleChange = (field: keyof YieldData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleBatchSelect = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    setFormData((prev) => ({
+      ...prev,
+      speciesType: batch.speciesId,
+      initialStocking: String(batch.count),
+      initialWeight: String(batch.meanWeight),
+    }));
+  };
+
   const calculateYield = () => {
     // Parse input values
     const initialStock = parseFloat(formData.initialStocking);
@@ -124,9 +117,7 @@ export default function FishYieldCalculator() {
     const fcr = parseFloat(formData.expectedFCR);
     const mortality = parseFloat(formData.mortalityRate);
 
-    const selectedSpecies = speciesList.find(
-      species => species.name === formData.speciesType
-    );
+    const selectedSpecies = findSpecies(catalog, formData.speciesType);
 
     if (!selectedSpecies) return null;
 
@@ -180,9 +171,9 @@ export default function FishYieldCalculator() {
     }
 
     // Calculate final weight
-    const dailyGrowth = selectedSpecies.growthRate * growthRateModifier;
+    const dailyGrowth = selectedSpecies.production.growthRate * growthRateModifier;
     const weightGain = dailyGrowth * growthDays;
-    const finalWeight = Math.min(initialWt + weightGain, selectedSpecies.maxSize);
+    const finalWeight = Math.min(initialWt + weightGain, selectedSpecies.production.marketWeight);
 
     // Calculate biomass
     const finalCount = initialStock * survivalRate;
@@ -195,8 +186,8 @@ export default function FishYieldCalculator() {
     const productionEfficiency = (biomassGain / feedRequired) * 100;
 
     // Economic calculations (assuming some base values)
-    const feedCostPerKg = 2.0; // USD
-    const fishPricePerKg = 4.0; // USD
+    const feedCostPerKg = settings.feedPrice;
+    const fishPricePerKg = fromUsd(4.0); // reference price, US$/kg
     const feedCost = feedRequired * feedCostPerKg;
     const expectedRevenue = biomassGain * fishPricePerKg;
     const profitMargin = ((expectedRevenue - feedCost) / expectedRevenue) * 100;
@@ -265,6 +256,9 @@ export default function FishYieldCalculator() {
             Stock Information
           </Typography>
           <Grid container spacing={2}>
+            <Grid item xs={12}>
+              <BatchPicker value={batchId} onChange={handleBatchSelect} />
+            </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
                 label="Initial Stocking (pieces)"
@@ -276,7 +270,8 @@ export default function FishYieldCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Initial Weight (g)"
+                label="Initial Weight"
+                unit="g"
                 value={formData.initialWeight}
                 onChange={handleChange('initialWeight')}
                 type="number"
@@ -297,8 +292,8 @@ export default function FishYieldCalculator() {
                   onChange={(e) => handleChange('speciesType')(e.target.value)}
                   required
                 >
-                  {speciesList.map((species) => (
-                    <MenuItem key={species.name} value={species.name}>
+                  {catalog.map((species) => (
+                    <MenuItem key={species.id} value={species.id}>
                       {species.name}
                     </MenuItem>
                   ))}
@@ -422,7 +417,7 @@ export default function FishYieldCalculator() {
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Expected Yield:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.expectedYield.toFixed(1)} kg
+                {format(analysis.expectedYield, 'kg', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -434,13 +429,13 @@ export default function FishYieldCalculator() {
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Final Weight:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.finalWeight.toFixed(1)} g
+                {format(analysis.finalWeight, 'g', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
               <Typography variant="subtitle1">Feed Required:</Typography>
               <Typography variant="body1" gutterBottom>
-                {analysis.feedRequired.toFixed(1)} kg
+                {format(analysis.feedRequired, 'kg', 1)}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={6}>
@@ -458,13 +453,13 @@ export default function FishYieldCalculator() {
                 <Grid item xs={12} sm={4}>
                   <Typography variant="subtitle2">Feed Cost:</Typography>
                   <Typography variant="body2" gutterBottom>
-                    ${analysis.economicIndicators.feedCost.toFixed(2)}
+                    {formatMoney(analysis.economicIndicators.feedCost)}
                   </Typography>
                 </Grid>
                 <Grid item xs={12} sm={4}>
                   <Typography variant="subtitle2">Expected Revenue:</Typography>
                   <Typography variant="body2" gutterBottom>
-                    ${analysis.economicIndicators.expectedRevenue.toFixed(2)}
+                    {formatMoney(analysis.economicIndicators.expectedRevenue)}
                   </Typography>
                 </Grid>
                 <Grid item xs={12} sm={4}>
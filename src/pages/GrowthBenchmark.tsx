@@ -15,6 +15,8 @@ import {
   LinearProgress,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import { useUnits } from '../contexts/UnitsContext';
 
 interface GrowthData {
   species: string;
@@ -38,15 +40,6 @@ const initialFormData: GrowthData = {
   stockingDensity: '',
 };
 
-const fishSpecies = [
-  'Tilapia',
-  'Common Carp',
-  'Catfish',
-  'Rainbow Trout',
-  'Sea Bass',
-  'Sea Bream',
-];
-
 const feedTypes = [
   'Commercial Pellets - High Protein',
   'Commercial Pellets - Standard',
@@ -70,6 +63,8 @@ interface BenchmarkResult {
 }
 
 export default function GrowthBenchmark() {
+  const { format } = useUnits();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<GrowthData>(initialFormData);
   const [result, setResult] = useState<BenchmarkResult | null>(null);
 
@@ -78,16 +73,8 @@ export default function GrowthBenchmark() {
   };
 
   const getSpeciesOptimalGrowthRate = (species: string): number => {
-    // Daily growth rates in grams per day for optimal conditions
-    const optimalRates: { [key: string]: number } = {
-      'Tilapia': 3.5,
-      'Common Carp': 4.0,
-      'Catfish': 5.0,
-      'Rainbow Trout': 4.5,
-      'Sea Bass': 3.8,
-      'Sea Bream': 3.2,
-    };
-    return optimalRates[species] || 3.5;
+    // Typical grow-out gain in grams per day; the factors below adjust it for the conditions
+    return findSpecies(catalog, species)?.production.growthRate ?? 2.5;
   };
 
   const getFeedEfficiencyFactor = (feedType: string): number => {
@@ -101,15 +88,8 @@ export default function GrowthBenchmark() {
   };
 
   const getTemperatureImpact = (temp: number, species: string): number => {
-    const optimalTemps: { [key: string]: number } = {
-      'Tilapia': 28,
-      'Common Carp': 25,
-      'Catfish': 26,
-      'Rainbow Trout': 15,
-      'Sea Bass': 22,
-      'Sea Bream': 23,
-    };
-    const optimalTemp = optimalTemps[species] || 25;
+    const optimalRange = findSpecies(catalog, species)?.waterQuality.temperature.optimal;
+    const optimalTemp = optimalRange ? (optimalRange.min + optimalRange.max) / 2 : 25;
     const tempDiff = Math.abs(temp - optimalTemp);
     return tempDiff <= 2 ? 1 : tempDiff <= 4 ? 0.9 : 0.7;
   };
@@ -157,7 +137,7 @@ export default function GrowthBenchmark() {
         impact: tempFactor >= 1 ? 'Positive' : tempFactor >= 0.9 ? 'Neutral' : 'Negative',
         description: `${temperature}°C - ${
           tempFactor >= 1 ? 'Optimal' : tempFactor >= 0.9 ? 'Acceptable' : 'Suboptimal'
-        } for ${formData.species}`,
+        } for ${findSpecies(catalog, formData.species)?.name ?? formData.species}`,
       },
       {
         factor: 'Stocking Density',
@@ -247,9 +227,9 @@ export default function GrowthBenchmark() {
                   onChange={(e) => handleChange('species')(e.target.value)}
                   label="Species"
                 >
-                  {fishSpecies.map((species) => (
-                    <MenuItem key={species} value={species}>
-                      {species}
+                  {catalog.map((species) => (
+                    <MenuItem key={species.id} value={species.id}>
+                      {species.name}
                     </MenuItem>
                   ))}
                 </Select>
@@ -267,7 +247,8 @@ export default function GrowthBenchmark() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Current Weight (g)"
+                label="Current Weight"
+                unit="g"
                 value={formData.currentWeight}
                 onChange={handleChange('currentWeight')}
                 type="number"
@@ -277,7 +258,8 @@ export default function GrowthBenchmark() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Stocking Weight (g)"
+                label="Stocking Weight"
+                unit="g"
                 value={formData.stockingWeight}
                 onChange={handleChange('stockingWeight')}
                 type="number"
@@ -321,7 +303,8 @@ export default function GrowthBenchmark() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Water Temperature (°C)"
+                label="Water Temperature"
+                unit="°C"
                 value={formData.waterTemperature}
                 onChange={handleChange('waterTemperature')}
                 type="number"
@@ -397,7 +380,7 @@ export default function GrowthBenchmark() {
                 Actual Growth Rate:
               </Typography>
               <Typography variant="body1">
-                {result.actualGrowthRate.toFixed(2)} g/day
+                {format(result.actualGrowthRate, 'g/day')}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={4}>
@@ -405,7 +388,7 @@ export default function GrowthBenchmark() {
                 Expected Growth Rate:
               </Typography>
               <Typography variant="body1">
-                {result.expectedGrowthRate.toFixed(2)} g/day
+                {format(result.expectedGrowthRate, 'g/day')}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={4}>
@@ -21,6 +21,11 @@ import {
   LinearProgress,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import { predictGrowth, toGrowthSpecies } from '../engine';
+import type { GrowthPrediction } from '../engine';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface GrowthData {
   species: string;
@@ -44,80 +49,10 @@ const initialFormData: GrowthData = {
   feedCost: '',
 };
 
-interface Species {
-  name: string;
-  optimalTemp: number;
-  maxGrowthRate: number;
-  defaultFCR: number;
-  optimalDensity: number;
-  temperatureTolerance: number;
-}
-
-const fishSpecies: { [key: string]: Species } = {
-  'Tilapia': {
-    name: 'Tilapia',
-    optimalTemp: 28,
-    maxGrowthRate: 3.5,
-    defaultFCR: 1.6,
-    optimalDensity: 20,
-    temperatureTolerance: 5,
-  },
-  'Common Carp': {
-    name: 'Common Carp',
-    optimalTemp: 25,
-    maxGrowthRate: 4.0,
-    defaultFCR: 1.8,
-    optimalDensity: 15,
-    temperatureTolerance: 8,
-  },
-  'Catfish': {
-    name: 'Catfish',
-    optimalTemp: 26,
-    maxGrowthRate: 5.0,
-    defaultFCR: 1.4,
-    optimalDensity: 25,
-    temperatureTolerance: 6,
-  },
-  'Rainbow Trout': {
-    name: 'Rainbow Trout',
-    optimalTemp: 15,
-    maxGrowthRate: 4.5,
-    defaultFCR: 1.2,
-    optimalDensity: 10,
-    temperatureTolerance: 4,
-  },
-  'Sea Bass': {
-    name: 'Sea Bass',
-    optimalTemp: 22,
-    maxGrowthRate: 3.8,
-    defaultFCR: 1.5,
-    optimalDensity: 12,
-    temperatureTolerance: 5,
-  },
-};
-
-interface GrowthPrediction {
-  finalWeight: number;
-  totalBiomass: number;
-  feedConsumption: number;
-  feedCost: number;
-  dailyGrowthRate: number;
-  efficiencyScore: number;
-  recommendations: string[];
-  monthlyProjections: {
-    month: number;
-    weight: number;
-    biomass: number;
-    feedRequired: number;
-  }[];
-  environmentalFactors: {
-    factor: string;
-    status: string;
-    impact: string;
-  }[];
-}
-
 export default function GrowthPredictor() {
+  const { symbol, formatMoney } = useCurrency();
+  const { format } = useUnits();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<GrowthData>(initialFormData);
   const [result, setResult] = useState<GrowthPrediction | null>(null);
 
@@ -125,147 +60,23 @@ export default function GrowthPredictor() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateGrowthEfficiency = (
-    temp: number,
-    species: Species,
-    density: number
-  ): number => {
-    // Temperature effect
-    const tempDiff = Math.abs(temp - species.optimalTemp);
-    const tempEffect = Math.max(0.5, 1 - (tempDiff / species.temperatureTolerance) * 0.5);
-
-    // Density effect
-    const densityEffect = Math.max(
-      0.7,
-      1 - Math.abs(density - species.optimalDensity) / species.optimalDensity * 0.3
-    );
-
-    return tempEffect * densityEffect;
-  };
-
-  const calculateMonthlyGrowth = (
-    initialWeight: number,
-    dailyGrowthRate: number,
-    months: number
-  ): number[] => {
-    const weights: number[] = [initialWeight];
-    for (let i = 1; i <= months; i++) {
-      const prevWeight = weights[i - 1];
-      const monthlyGrowth = prevWeight * (1 + dailyGrowthRate * 30);
-      weights.push(monthlyGrowth);
-    }
-    return weights;
-  };
-
-  const predictGrowth = (): GrowthPrediction => {
-    const species = fishSpecies[formData.species];
-    const initialWeight = parseFloat(formData.initialWeight);
-    const feedingRate = parseFloat(formData.feedingRate) / 100; // Convert to decimal
-    const temperature = parseFloat(formData.waterTemperature);
-    const growthPeriod = parseFloat(formData.growthPeriod);
-    const fcr = formData.fcr ? parseFloat(formData.fcr) : species.defaultFCR;
-    const density = formData.stockingDensity ? parseFloat(formData.stockingDensity) : species.optimalDensity;
-    const feedCost = formData.feedCost ? parseFloat(formData.feedCost) : 0;
-
-    // Calculate growth efficiency based on environmental conditions
-    const efficiency = calculateGrowthEfficiency(temperature, species, density);
-
-    // Calculate daily growth rate
-    const baseGrowthRate = (species.maxGrowthRate / 100) * efficiency * feedingRate;
-    const dailyGrowthRate = baseGrowthRate / fcr;
-
-    // Calculate monthly projections
-    const months = Math.ceil(growthPeriod / 30);
-    const monthlyWeights = calculateMonthlyGrowth(initialWeight, dailyGrowthRate, months);
-
-    // Calculate final metrics
-    const finalWeight = monthlyWeights[monthlyWeights.length - 1];
-    const weightGain = finalWeight - initialWeight;
-    const feedConsumption = weightGain * fcr;
-    const totalBiomass = finalWeight * density;
-
-    // Generate monthly projections
-    const monthlyProjections = monthlyWeights.map((weight, index) => ({
-      month: index,
-      weight: weight,
-      biomass: weight * density,
-      feedRequired: index === 0 ? 0 : (weight - monthlyWeights[index - 1]) * fcr,
-    }));
-
-    // Analyze environmental factors
-    const environmentalFactors = [
-      {
-        factor: 'Water Temperature',
-        status: `${temperature}°C (Optimal: ${species.optimalTemp}°C)`,
-        impact: Math.abs(temperature - species.optimalTemp) <= species.temperatureTolerance / 2
-          ? 'Optimal'
-          : Math.abs(temperature - species.optimalTemp) <= species.temperatureTolerance
-          ? 'Acceptable'
-          : 'Suboptimal',
-      },
-      {
-        factor: 'Stocking Density',
-        status: `${density} fish/m³ (Optimal: ${species.optimalDensity})`,
-        impact: Math.abs(density - species.optimalDensity) <= species.optimalDensity * 0.2
-          ? 'Optimal'
-          : Math.abs(density - species.optimalDensity) <= species.optimalDensity * 0.4
-          ? 'Acceptable'
-          : 'Suboptimal',
-      },
-      {
-        factor: 'Feed Conversion',
-        status: `FCR: ${fcr.toFixed(2)} (Default: ${species.defaultFCR})`,
-        impact: fcr <= species.defaultFCR * 1.1
-          ? 'Optimal'
-          : fcr <= species.defaultFCR * 1.3
-          ? 'Acceptable'
-          : 'Suboptimal',
-      },
-    ];
-
-    // Calculate efficiency score (0-100)
-    const efficiencyScore = efficiency * 100;
-
-    // Generate recommendations
-    const recommendations: string[] = [];
-
-    if (Math.abs(temperature - species.optimalTemp) > species.temperatureTolerance / 2) {
-      recommendations.push('Consider temperature control measures for optimal growth');
-    }
-
-    if (Math.abs(density - species.optimalDensity) > species.optimalDensity * 0.2) {
-      recommendations.push('Adjust stocking density to optimize growth and resource utilization');
-    }
-
-    if (fcr > species.defaultFCR * 1.1) {
-      recommendations.push('Review feeding practices to improve feed conversion efficiency');
-    }
-
-    if (feedingRate < 0.02) {
-      recommendations.push('Consider increasing feeding rate for better growth performance');
-    } else if (feedingRate > 0.04) {
-      recommendations.push('Monitor water quality closely with high feeding rate');
-    }
-
-    return {
-      finalWeight,
-      totalBiomass,
-      feedConsumption,
-      feedCost: feedCost * feedConsumption,
-      dailyGrowthRate: baseGrowthRate,
-      efficiencyScore,
-      recommendations,
-      monthlyProjections,
-      environmentalFactors,
-    };
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const result = predictGrowth();
-    setResult(result);
+    const profile = findSpecies(catalog, formData.species);
+    if (!profile) {
+      setResult(null);
+      return;
+    }
+    setResult(predictGrowth(toGrowthSpecies(profile), {
+      initialWeight: parseFloat(formData.initialWeight),
+      feedingRate: parseFloat(formData.feedingRate),
+      temperature: parseFloat(formData.waterTemperature),
+      growthPeriod: parseFloat(formData.growthPeriod),
+      fcr: formData.fcr ? parseFloat(formData.fcr) : undefined,
+      stockingDensity: formData.stockingDensity ? parseFloat(formData.stockingDensity) : undefined,
+      feedCost: formData.feedCost ? parseFloat(formData.feedCost) : undefined,
+    }));
   };
-
   return (
     <Container maxWidth="md">
       <Typography variant="h4" component="h1" gutterBottom>
@@ -289,9 +100,9 @@ export default function GrowthPredictor() {
                   onChange={(e) => handleChange('species')(e.target.value)}
                   label="Species"
                 >
-                  {Object.keys(fishSpecies).map((species) => (
-                    <MenuItem key={species} value={species}>
-                      {species}
+                  {catalog.map((species) => (
+                    <MenuItem key={species.id} value={species.id}>
+                      {species.name}
                     </MenuItem>
                   ))}
                 </Select>
@@ -299,7 +110,8 @@ export default function GrowthPredictor() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Initial Weight (g)"
+                label="Initial Weight"
+                unit="g"
                 value={formData.initialWeight}
                 onChange={handleChange('initialWeight')}
                 type="number"
@@ -319,7 +131,8 @@ export default function GrowthPredictor() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Water Temperature (°C)"
+                label="Water Temperature"
+                unit="°C"
                 value={formData.waterTemperature}
                 onChange={handleChange('waterTemperature')}
                 type="number"
@@ -365,7 +178,7 @@ export default function GrowthPredictor() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Feed Cost ($/kg)"
+                label={`Feed Cost (${symbol}/kg)`}
                 value={formData.feedCost}
                 onChange={handleChange('feedCost')}
                 type="number"
@@ -419,26 +232,26 @@ export default function GrowthPredictor() {
                     <TableRow>
                       <TableCell>Final Weight:</TableCell>
                       <TableCell align="right">
-                        {result.finalWeight.toFixed(2)} g
+                        {format(result.finalWeight, 'g')}
                       </TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Total Biomass:</TableCell>
                       <TableCell align="right">
-                        {result.totalBiomass.toFixed(2)} kg/m³
+                        {result.totalBiomass.toFixed(2)} g/m³
                       </TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Feed Required:</TableCell>
                       <TableCell align="right">
-                        {result.feedConsumption.toFixed(2)} kg
+                        {result.feedConsumption.toFixed(2)} g/fish
                       </TableCell>
                     </TableRow>
                     {result.feedCost > 0 && (
                       <TableRow>
                         <TableCell>Estimated Feed Cost:</TableCell>
                         <TableCell align="right">
-                          ${result.feedCost.toFixed(2)}
+                          {formatMoney(result.feedCost)}
                         </TableCell>
                       </TableRow>
                     )}
@@ -498,8 +311,8 @@ export default function GrowthPredictor() {
                   <TableRow>
                     <TableCell>Month</TableCell>
                     <TableCell align="right">Weight (g)</TableCell>
-                    <TableCell align="right">Biomass (kg/m³)</TableCell>
-                    <TableCell align="right">Feed Required (kg)</TableCell>
+                    <TableCell align="right">Biomass (g/m³)</TableCell>
+                    <TableCell align="right">Feed Required (g/fish)</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -23,21 +23,11 @@ import {
 } from '@mui/material';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { SelectChangeEvent } from '@mui/material/Select';
-
-interface GrowthData {
-  date: string;
-  weight: number;
-  length: number;
-  sampleSize: number;
-  notes: string;
-}
-
-interface GrowthRecord {
-  id: string;
-  species: string;
-  batchId: string;
-  data: GrowthData[];
-}
+import { useCollection } from '../db';
+import type { GrowthData } from '../types/records';
+import { useSpeciesCatalog } from '../species';
+import BatchPicker from '../components/BatchPicker';
+import { emptyBatch, today } from '../utils/batches';
 
 const initialGrowthData: GrowthData = {
   date: new Date().toISOString().split('T')[0],
@@ -48,8 +38,13 @@ const initialGrowthData: GrowthData = {
 };
 
 const GrowthTracker: React.FC = () => {
-  const [records, setRecords] = useState<GrowthRecord[]>([]);
-  const [currentRecord, setCurrentRecord] = useState<GrowthRecord | null>(null);
+  const [batches, setBatches] = useCollection('batches');
+  const { catalog } = useSpeciesCatalog();
+  const [currentBatchId, setCurrentBatchId] = useState('');
+  const currentBatch = batches.find(batch => batch.id === currentBatchId) ?? null;
+  const samples = currentBatch
+    ? [...currentBatch.growthSamples].sort((a, b) => a.date.localeCompare(b.date))
+    : [];
   const [newData, setNewData] = useState<GrowthData>(initialGrowthData);
   const [species, setSpecies] = useState('');
   const [batchId, setBatchId] = useState('');
@@ -70,35 +65,30 @@ const GrowthTracker: React.FC = () => {
     }));
   };
 
-  const createNewRecord = () => {
+  // Quick start for a batch that is already in the water; full details live in Production Batches.
+  const createNewBatch = () => {
     if (!species || !batchId) return;
 
-    const newRecord: GrowthRecord = {
-      id: Date.now().toString(),
-      species,
-      batchId,
-      data: [],
-    };
-
-    setRecords(prev => [...prev, newRecord]);
-    setCurrentRecord(newRecord);
+    const id = Date.now().toString();
+    setBatches(prev => [
+      ...prev,
+      { ...emptyBatch, id, name: batchId, speciesId: species, stockingDate: today(), status: 'growing' },
+    ]);
+    setCurrentBatchId(id);
+    setBatchId('');
     setNewData(initialGrowthData);
   };
 
   const addGrowthData = () => {
-    if (!currentRecord) return;
+    if (!currentBatch) return;
 
-    const updatedRecord = {
-      ...currentRecord,
-      data: [...currentRecord.data, { ...newData }],
-    };
-
-    setRecords(prev =>
-      prev.map(record =>
-        record.id === currentRecord.id ? updatedRecord : record
+    setBatches(prev =>
+      prev.map(batch =>
+        batch.id === currentBatch.id
+          ? { ...batch, growthSamples: [...batch.growthSamples, { ...newData }] }
+          : batch
       )
     );
-    setCurrentRecord(updatedRecord);
     setNewData(initialGrowthData);
   };
 
@@ -128,6 +118,18 @@ const GrowthTracker: React.FC = () => {
                   Batch Information
                 </Typography>
                 <Grid container spacing={2}>
+                  <Grid item xs={12}>
+                    <BatchPicker
+                      value={currentBatchId}
+                      onChange={(batch) => setCurrentBatchId(batch?.id ?? '')}
+                      statuses={['stocked', 'growing', 'harvesting']}
+                    />
+                  </Grid>
+                  <Grid item xs={12}>
+                    <Typography variant="body2" color="text.secondary">
+                      Or start tracking a batch that is already stocked:
+                    </Typography>
+                  </Grid>
                   <Grid item xs={12}>
                     <FormControl fullWidth>
                       <InputLabel>Species</InputLabel>
@@ -136,18 +138,18 @@ const GrowthTracker: React.FC = () => {
                         label="Species"
                         onChange={handleSpeciesChange}
                       >
-                        <MenuItem value="tilapia">Tilapia</MenuItem>
-                        <MenuItem value="carp">Carp</MenuItem>
-                        <MenuItem value="catfish">Catfish</MenuItem>
-                        <MenuItem value="trout">Trout</MenuItem>
-                        <MenuItem value="salmon">Salmon</MenuItem>
+                        {catalog.map(item => (
+                          <MenuItem key={item.id} value={item.id}>
+                            {item.name}
+                          </MenuItem>
+                        ))}
                       </Select>
                     </FormControl>
                   </Grid>
                   <Grid item xs={12}>
                     <TextField
                       fullWidth
-                      label="Batch ID"
+                      label="Batch Name"
                       value={batchId}
                       onChange={handleBatchIdChange}
                     />
@@ -155,7 +157,7 @@ const GrowthTracker: React.FC = () => {
                   <Grid item xs={12}>
                     <Button
                       variant="contained"
-                      onClick={createNewRecord}
+                      onClick={createNewBatch}
                       disabled={!species || !batchId}
                     >
                       Create New Batch
@@ -166,7 +168,7 @@ const GrowthTracker: React.FC = () => {
             </Card>
           </Grid>
 
-          {currentRecord && (
+          {currentBatch && (
             <Grid item xs={12} md={6}>
               <Card>
                 <CardContent>
@@ -241,7 +243,7 @@ const GrowthTracker: React.FC = () => {
             </Grid>
           )}
 
-          {currentRecord && currentRecord.data.length > 0 && (
+          {samples.length > 0 && (
             <>
               <Grid item xs={12}>
                 <Card>
@@ -252,7 +254,7 @@ const GrowthTracker: React.FC = () => {
                     <Box sx={{ width: '100%', height: 400 }}>
                       <ResponsiveContainer>
                         <LineChart
-                          data={currentRecord.data}
+                          data={samples}
                           margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
                         >
                           <CartesianGrid strokeDasharray="3 3" />
@@ -276,9 +278,9 @@ const GrowthTracker: React.FC = () => {
                     <Typography variant="h6" gutterBottom>
                       Growth Data
                     </Typography>
-                    {calculateGrowthRate(currentRecord.data) && (
+                    {calculateGrowthRate(samples) && (
                       <Alert severity="info" sx={{ mb: 2 }}>
-                        Average Growth Rate: {calculateGrowthRate(currentRecord.data)} g/day
+                        Average Growth Rate: {calculateGrowthRate(samples)} g/day
                       </Alert>
                     )}
                     <TableContainer>
@@ -293,7 +295,7 @@ const GrowthTracker: React.FC = () => {
                           </TableRow>
                         </TableHead>
                         <TableBody>
-                          {currentRecord.data.map((row, index) => (
+                          {samples.map((row, index) => (
                             <TableRow key={index}>
                               <TableCell>{row.date}</TableCell>
                               <TableCell>{row.weight}</TableCell>
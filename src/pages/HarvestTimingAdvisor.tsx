@@ -29,6 +29,10 @@ import InfoIcon from '@mui/icons-material/Info';
 import TrendingUpIcon from '@mui/icons-material/TrendingUp';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import FormField from '../components/FormField';
+import BatchPicker from '../components/BatchPicker';
+import { useSpeciesCatalog, findSpecies, speciesOptions } from '../species';
+import type { Batch } from '../types/records';
+import { getCurrentWeight, getGrowthRate, getSurvivalRate } from '../utils/batches';
 import {
   LineChart,
   Line,
@@ -39,6 +43,8 @@ import {
   Tooltip as RechartsTooltip,
   Legend as RechartsLegend,
 } from 'recharts';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface HarvestData {
   species: string;
@@ -227,24 +233,6 @@ const seasonalPricingOptions = [
   'Festival Season',
 ];
 
-const speciesData = {
-  tilapia: {
-    optimalGrowthRate: 2.5,
-    maxWeight: 800,
-    priceVariation: 0.2,
-  },
-  carp: {
-    optimalGrowthRate: 3.0,
-    maxWeight: 1500,
-    priceVariation: 0.15,
-  },
-  catfish: {
-    optimalGrowthRate: 3.5,
-    maxWeight: 1200,
-    priceVariation: 0.25,
-  },
-};
-
 interface HarvestAnalysis {
   timing: {
     optimalDate: Date;
@@ -288,15 +276,39 @@ const initialFormData: HarvestData = {
 };
 
 export default function HarvestTimingAdvisor() {
+  const { t } = useLanguage();
+  const { symbol, formatMoney } = useCurrency();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<HarvestData>(initialFormData);
   const [analysis, setAnalysis] = useState<HarvestAnalysis | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [batchId, setBatchId] = useState('');
 
   const handleChange = (field: keyof HarvestData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleBatchSelect = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    const growthRate = getGrowthRate(batch);
+    const marketWeight = findSpecies(catalog, batch.speciesId)?.production.marketWeight;
+    setFormData((prev) => ({
+      ...prev,
+      species: batch.speciesId,
+      stockingDate: batch.stockingDate,
+      initialWeight: String(batch.meanWeight),
+      currentWeight: String(getCurrentWeight(batch)),
+      targetWeight: marketWeight ? String(marketWeight) : prev.targetWeight,
+      growthRate: growthRate !== null ? growthRate.toFixed(2) : prev.growthRate,
+      survivalRate: getSurvivalRate(batch).toFixed(1),
+    }));
+  };
+
   const calculateHarvestTiming = () => {
+    const species = findSpecies(catalog, formData.species);
+    if (!species) return;
+
     // Parse input values
     const currentWeight = parseFloat(formData.currentWeight);
     const targetWeight = parseFloat(formData.targetWeight);
@@ -315,14 +327,14 @@ export default function HarvestTimingAdvisor() {
 
     // Determine confidence level based on water quality and growth rate
     let confidenceLevel: 'high' | 'medium' | 'low' = 'medium';
-    if (formData.waterQuality === 'Excellent' && growthRate >= speciesData[formData.species as keyof typeof speciesData].optimalGrowthRate) {
+    if (formData.waterQuality === 'Excellent' && growthRate >= species.production.growthRate) {
       confidenceLevel = 'high';
     } else if (formData.waterQuality === 'Poor') {
       confidenceLevel = 'low';
     }
 
     // Calculate economic projections
-    const priceVariation = speciesData[formData.species as keyof typeof speciesData].priceVariation;
+    const priceVariation = species.prices.variation;
     const seasonalFactor = formData.seasonalPricing === 'Peak Season' ? 1.2 :
                           formData.seasonalPricing === 'Off Season' ? 0.8 : 1.0;
 
@@ -351,7 +363,7 @@ export default function HarvestTimingAdvisor() {
       });
     }
 
-    if (growthRate < speciesData[formData.species as keyof typeof speciesData].optimalGrowthRate) {
+    if (growthRate < species.production.growthRate) {
       risks.push({
         factor: 'Growth Rate',
         level: 'medium',
@@ -385,7 +397,10 @@ export default function HarvestTimingAdvisor() {
       recommendations.push('Consider alternative market channels');
     }
 
-    recommendations.push(`Optimal harvest window: ${optimalDate.toLocaleDateString()} (±${Math.ceil(daysToHarvest * 0.1)} days)`);
+    recommendations.push(t('Optimal harvest window: {date} (±{days} days)', {
+      date: optimalDate.toLocaleDateString(),
+      days: Math.ceil(daysToHarvest * 0.1),
+    }));
 
     const analysis: HarvestAnalysis = {
       timing: {
@@ -426,23 +441,23 @@ export default function HarvestTimingAdvisor() {
     <Container maxWidth="lg">
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="h5" gutterBottom>
-        Harvest Timing Advisor
+        {t('Harvest Timing Advisor')}
       </Typography>
         <Typography color="text.secondary" paragraph>
-          Optimize harvest timing based on growth, market conditions, and profitability
+          {t('Optimize harvest timing based on growth, market conditions, and profitability')}
       </Typography>
 
         <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <BatchPicker value={batchId} onChange={handleBatchSelect} statuses={['stocked', 'growing', 'harvesting']} />
+          </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
               label="Species"
               value={formData.species}
               onChange={handleChange('species')}
               type="select"
-              options={Object.keys(speciesData).map((s) => ({
-                value: s,
-                label: s.charAt(0).toUpperCase() + s.slice(1),
-              }))}
+              options={speciesOptions(catalog)}
               required
             />
           </Grid>
@@ -457,7 +472,8 @@ export default function HarvestTimingAdvisor() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Initial Weight (g)"
+              label="Initial Weight"
+              unit="g"
               value={formData.initialWeight}
               onChange={handleChange('initialWeight')}
               type="number"
@@ -466,7 +482,8 @@ export default function HarvestTimingAdvisor() {
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Current Weight (g)"
+                label="Current Weight"
+                unit="g"
                 value={formData.currentWeight}
                 onChange={handleChange('currentWeight')}
                 type="number"
@@ -475,7 +492,8 @@ export default function HarvestTimingAdvisor() {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Target Weight (g)"
+                label="Target Weight"
+                unit="g"
                 value={formData.targetWeight}
                 onChange={handleChange('targetWeight')}
                 type="number"
@@ -484,7 +502,8 @@ export default function HarvestTimingAdvisor() {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-                label="Growth Rate (g/day)"
+                label="Growth Rate"
+                unit="g/day"
                 value={formData.growthRate}
                 onChange={handleChange('growthRate')}
                 type="number"
@@ -511,7 +530,7 @@ export default function HarvestTimingAdvisor() {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-              label="Market Price ($/kg)"
+              label={t('Market Price ({symbol}/kg)', { symbol })}
               value={formData.marketPrice}
               onChange={handleChange('marketPrice')}
                 type="number"
@@ -520,7 +539,7 @@ export default function HarvestTimingAdvisor() {
             </Grid>
           <Grid item xs={12} sm={6} md={4}>
               <FormField
-              label="Production Costs ($/day)"
+              label={t('Production Costs ({symbol}/day)', { symbol })}
               value={formData.productionCosts}
               onChange={handleChange('productionCosts')}
                 type="number"
@@ -723,32 +742,32 @@ export default function HarvestTimingAdvisor() {
             <Card>
               <CardContent>
           <Typography variant="h6" gutterBottom>
-            Harvest Timing Analysis
+            {t('Harvest Timing Analysis')}
           </Typography>
                 <TableContainer>
                   <Table>
                     <TableBody>
                       <TableRow>
-                        <TableCell>Optimal Harvest Date</TableCell>
+                        <TableCell>{t('Optimal Harvest Date')}</TableCell>
                         <TableCell align="right">
                           {analysis.timing.optimalDate.toLocaleDateString()}
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Days to Harvest</TableCell>
+                        <TableCell>{t('Days to Harvest')}</TableCell>
                         <TableCell align="right">{analysis.timing.daysToHarvest}</TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Expected Weight</TableCell>
+                        <TableCell>{t('Expected Weight')}</TableCell>
                         <TableCell align="right">
                           {analysis.timing.weightAtHarvest}g
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Confidence Level</TableCell>
+                        <TableCell>{t('Confidence Level')}</TableCell>
                         <TableCell align="right">
                           <Chip
-                            label={analysis.timing.confidenceLevel.toUpperCase()}
+                            label={t(analysis.timing.confidenceLevel).toUpperCase()}
                             color={getStatusColor(analysis.timing.confidenceLevel)}
                             size="small"
                           />
@@ -765,25 +784,25 @@ export default function HarvestTimingAdvisor() {
             <Card>
               <CardContent>
                 <Typography variant="h6" gutterBottom>
-                  Economic Projection
+                  {t('Economic Projection')}
                 </Typography>
                 <TableContainer>
                   <Table>
                     <TableBody>
                       <TableRow>
-                        <TableCell>Expected Revenue</TableCell>
+                        <TableCell>{t('Expected Revenue')}</TableCell>
                         <TableCell align="right">
-                          ${analysis.economics.expectedRevenue.toFixed(2)}
+                          {formatMoney(analysis.economics.expectedRevenue)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Production Cost</TableCell>
+                        <TableCell>{t('Production Cost')}</TableCell>
                         <TableCell align="right">
-                          ${analysis.economics.productionCost.toFixed(2)}
+                          {formatMoney(analysis.economics.productionCost)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Projected Profit</TableCell>
+                        <TableCell>{t('Projected Profit')}</TableCell>
                         <TableCell align="right">
                           <Typography
                             color={
@@ -792,12 +811,12 @@ export default function HarvestTimingAdvisor() {
                                 : 'error.main'
                             }
                           >
-                            ${analysis.economics.projectedProfit.toFixed(2)}
+                            {formatMoney(analysis.economics.projectedProfit)}
               </Typography>
                         </TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell>Price Variation</TableCell>
+                        <TableCell>{t('Price Variation')}</TableCell>
                         <TableCell align="right">
                           ±{analysis.economics.priceVariation}%
                         </TableCell>
@@ -813,13 +832,13 @@ export default function HarvestTimingAdvisor() {
             <Card>
               <CardContent>
           <Typography variant="h6" gutterBottom>
-                  Growth and Profit Projection
+                  {t('Growth and Profit Projection')}
           </Typography>
                 <Box sx={{ height: 300 }}>
                   <ResponsiveContainer width="100%" height="100%">
                     <LineChart data={analysis.growthProjection}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="week" label={{ value: 'Weeks', position: 'bottom' }} />
+                      <XAxis dataKey="week" label={{ value: t('Weeks'), position: 'bottom' }} />
                       <YAxis yAxisId="left" orientation="left" stroke="#8884d8" />
                       <YAxis yAxisId="right" orientation="right" stroke="#82ca9d" />
                       <RechartsTooltip title="Value" />
@@ -829,14 +848,14 @@ export default function HarvestTimingAdvisor() {
                         type="monotone"
                         dataKey="weight"
                         stroke="#8884d8"
-                        name="Weight (g)"
+                        name={t('Weight (g)')}
                       />
                       <Line
                         yAxisId="right"
                         type="monotone"
                         dataKey="profit"
                         stroke="#82ca9d"
-                        name="Profit ($)"
+                        name={t('Profit ({symbol})', { symbol })}
                       />
                     </LineChart>
                   </ResponsiveContainer>
@@ -849,29 +868,29 @@ export default function HarvestTimingAdvisor() {
             <Card>
               <CardContent>
           <Typography variant="h6" gutterBottom>
-                  Risk Assessment
+                  {t('Risk Assessment')}
           </Typography>
                 <TableContainer>
                   <Table>
                     <TableHead>
                       <TableRow>
-                        <TableCell>Risk Factor</TableCell>
-                        <TableCell>Level</TableCell>
-                        <TableCell>Impact</TableCell>
+                        <TableCell>{t('Risk Factor')}</TableCell>
+                        <TableCell>{t('Level')}</TableCell>
+                        <TableCell>{t('Impact')}</TableCell>
                       </TableRow>
                     </TableHead>
                     <TableBody>
                       {analysis.risks.map((risk, index) => (
                         <TableRow key={index}>
-                          <TableCell>{risk.factor}</TableCell>
+                          <TableCell>{t(risk.factor)}</TableCell>
                           <TableCell>
               <Chip
-                              label={risk.level.toUpperCase()}
+                              label={t(risk.level).toUpperCase()}
                               color={getStatusColor(risk.level)}
                 size="small"
                             />
                           </TableCell>
-                          <TableCell>{risk.impact}</TableCell>
+                          <TableCell>{t(risk.impact)}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -885,14 +904,14 @@ export default function HarvestTimingAdvisor() {
             <Card>
               <CardContent>
           <Typography variant="h6" gutterBottom>
-            Recommendations
+            {t('Recommendations')}
           </Typography>
                 <Divider sx={{ mb: 2 }} />
                 <ul style={{ margin: 0, paddingLeft: '1.2rem' }}>
             {analysis.recommendations.map((rec, index) => (
               <li key={index}>
                       <Typography variant="body1" paragraph>
-                        {rec}
+                        {t(rec)}
           </Typography>
               </li>
             ))}
@@ -34,19 +34,9 @@ import {
   Warning as WarningIcon,
   Inventory as InventoryIcon,
 } from '@mui/icons-material';
-
-interface InventoryItem {
-  id: string;
-  name: string;
-  category: string;
-  quantity: number;
-  unit: string;
-  minThreshold: number;
-  lastRestocked: string;
-  expiryDate?: string;
-  supplier: string;
-  cost: number;
-}
+import { useCollection } from '../db';
+import type { InventoryItem } from '../types/records';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -102,7 +92,8 @@ function TabPanel(props: TabPanelProps) {
 }
 
 export default function InventoryManagement() {
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const { symbol, formatMoney } = useCurrency();
+  const [inventory, setInventory] = useCollection('inventoryItems');
   const [openDialog, setOpenDialog] = useState(false);
   const [formData, setFormData] = useState(initialFormData);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -203,7 +194,7 @@ export default function InventoryManagement() {
               Add New Item
             </Button>
             <Typography variant="h6">
-              Total Inventory Value: ${calculateTotalValue().toFixed(2)}
+              Total Inventory Value: {formatMoney(calculateTotalValue())}
             </Typography>
           </Box>
         </Grid>
@@ -296,7 +287,7 @@ export default function InventoryManagement() {
                         </TableCell>
                         <TableCell>{item.lastRestocked}</TableCell>
                         <TableCell>{item.expiryDate || 'N/A'}</TableCell>
-                        <TableCell align="right">${item.cost}</TableCell>
+                        <TableCell align="right">{formatMoney(item.cost)}</TableCell>
                         <TableCell>
                           <IconButton
                             size="small"
@@ -353,7 +344,7 @@ export default function InventoryManagement() {
                           </TableCell>
                           <TableCell>{item.lastRestocked}</TableCell>
                           <TableCell>{item.expiryDate || 'N/A'}</TableCell>
-                          <TableCell align="right">${item.cost}</TableCell>
+                          <TableCell align="right">{formatMoney(item.cost)}</TableCell>
                           <TableCell>
                             <IconButton
                               size="small"
@@ -641,7 +632,7 @@ export default function InventoryManagement() {
               <Grid item xs={12} sm={6}>
                 <TextField
                   fullWidth
-                  label="Cost per Unit"
+                  label={`Cost per Unit (${symbol})`}
                   type="number"
                   value={formData.cost}
                   onChange={handleInputChange('cost')}
@@ -44,6 +44,8 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, speciesOptions } from '../species';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface MarketData {
   species: string;
@@ -140,6 +142,8 @@ const generateHistoricalData = (): PriceData[] => {
 };
 
 export default function MarketAnalysis() {
+  const { symbol, formatMoney } = useCurrency();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<MarketData>(initialFormData);
   const [analysis, setAnalysis] = useState<MarketAnalysis | null>(null);
   const [historicalData, setHistoricalData] = useState<PriceData[]>([]);
@@ -250,9 +254,10 @@ export default function MarketAnalysis() {
           <Grid item xs={12} sm={6} md={4}>
             <FormField
               label="Species"
-                      value={formData.species}
+              value={formData.species}
               onChange={handleChange('species')}
-              type="text"
+              type="select"
+              options={speciesOptions(catalog)}
               required
             />
           </Grid>
@@ -268,7 +273,8 @@ export default function MarketAnalysis() {
                 </Grid>
           <Grid item xs={12} sm={6} md={4}>
                   <FormField
-              label="Quantity (kg)"
+              label="Quantity"
+              unit="kg"
               value={formData.quantity}
               onChange={handleChange('quantity')}
                     type="number"
@@ -277,7 +283,7 @@ export default function MarketAnalysis() {
                 </Grid>
           <Grid item xs={12} sm={6} md={4}>
                   <FormField
-                    label="Production Cost ($/kg)"
+                    label={`Production Cost (${symbol}/kg)`}
                     value={formData.productionCost}
                     onChange={handleChange('productionCost')}
                     type="number"
@@ -296,7 +302,7 @@ export default function MarketAnalysis() {
                 </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Competitor Price ($/kg)"
+              label={`Competitor Price (${symbol}/kg)`}
               value={formData.competitorPrice}
               onChange={handleChange('competitorPrice')}
               type="number"
@@ -325,7 +331,7 @@ export default function MarketAnalysis() {
                 </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <FormField
-              label="Transport Cost ($/kg)"
+              label={`Transport Cost (${symbol}/kg)`}
               value={formData.transportCost}
               onChange={handleChange('transportCost')}
               type="number"
@@ -525,19 +531,19 @@ export default function MarketAnalysis() {
                       <TableRow>
                         <TableCell>Suggested Price</TableCell>
                         <TableCell align="right">
-                          ${analysis.priceAnalysis.suggestedPrice}/kg
+                          {formatMoney(analysis.priceAnalysis.suggestedPrice)}/kg
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Minimum Price</TableCell>
                         <TableCell align="right">
-                          ${analysis.priceAnalysis.minPrice}/kg
+                          {formatMoney(analysis.priceAnalysis.minPrice)}/kg
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Maximum Price</TableCell>
                         <TableCell align="right">
-                          ${analysis.priceAnalysis.maxPrice}/kg
+                          {formatMoney(analysis.priceAnalysis.maxPrice)}/kg
                         </TableCell>
                       </TableRow>
                       <TableRow>
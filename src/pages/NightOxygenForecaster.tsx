@@ -0,0 +1,437 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  Alert,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+} from '@mui/material';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSite } from '../contexts/SiteContext';
+import { useCollection } from '../db';
+import {
+  AERATOR_OUTPUT,
+  DEFAULT_DAWN_HOUR,
+  DEFAULT_DUSK_HOUR,
+  DEFAULT_SEDIMENT_DEMAND,
+  forecastNightOxygen,
+  nightFishRespiration,
+} from '../engine';
+import type { NightOxygenForecast } from '../engine';
+import { findSpecies, speciesOptions, useSpeciesCatalog } from '../species';
+import type { Pond } from '../types/records';
+import { getBiomass, isActiveBatch } from '../utils/batches';
+import { getPondArea, savePondResult, toFieldValue } from '../utils/ponds';
+
+interface ForecastForm {
+  speciesId: string;
+  duskOxygen: string;
+  temperature: string;
+  salinity: string;
+  area: string;
+  depth: string;
+  fishBiomass: string;
+  secchiDepth: string;
+  sedimentDemand: string;
+  aerators: string;
+  aeratorOutput: string;
+  windSpeed: string;
+  threshold: string;
+  duskHour: string;
+  dawnHour: string;
+}
+
+const initialForm: ForecastForm = {
+  speciesId: '',
+  duskOxygen: '',
+  temperature: '',
+  salinity: '',
+  area: '',
+  depth: '',
+  fishBiomass: '',
+  secchiDepth: '',
+  sedimentDemand: String(DEFAULT_SEDIMENT_DEMAND),
+  aerators: '',
+  aeratorOutput: String(AERATOR_OUTPUT),
+  windSpeed: '',
+  threshold: '3',
+  duskHour: String(DEFAULT_DUSK_HOUR),
+  dawnHour: String(DEFAULT_DAWN_HOUR),
+};
+
+const formatClock = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const hourOptions = Array.from({ length: 24 }, (_, hour) => ({ value: String(hour), label: formatClock(hour) }));
+
+export default function NightOxygenForecaster() {
+  const { t } = useLanguage();
+  const { pressure } = useSite();
+  const { catalog } = useSpeciesCatalog();
+  const [batches] = useCollection('batches');
+  const [readings] = useCollection('waterQualityReadings');
+  const [pondId, setPondId] = useState('');
+  const [form, setForm] = useState<ForecastForm>(initialForm);
+  const [forecast, setForecast] = useState<NightOxygenForecast | null>(null);
+
+  const update = (field: keyof ForecastForm) => (value: string | number | string[]) =>
+    setForm((prev) => ({ ...prev, [field]: String(value) }));
+
+  const handleSpeciesChange = (value: string | number | string[]) => {
+    const species = findSpecies(catalog, String(value));
+    setForm((prev) => ({
+      ...prev,
+      speciesId: String(value),
+      threshold: species ? String(species.waterQuality.dissolvedOxygen.min) : prev.threshold,
+    }));
+  };
+
+  // Fills the pond's size, standing stock, aerators and latest evening reading.
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setForecast(null);
+    if (!pond) return;
+    const stocked = batches.filter((batch) => batch.pondId === pond.id && isActiveBatch(batch));
+    const species = findSpecies(catalog, stocked[0]?.speciesId ?? '');
+    const aeration = pond.results.aeration?.values;
+    const latest = readings
+      .filter((reading) => reading.pondId === pond.id)
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt))[0];
+    setForm((prev) => ({
+      ...prev,
+      area: toFieldValue(getPondArea(pond)),
+      depth: toFieldValue(pond.depth),
+      fishBiomass: stocked.length ? toFieldValue(stocked.reduce((sum, batch) => sum + getBiomass(batch), 0)) : prev.fishBiomass,
+      speciesId: species?.id ?? prev.speciesId,
+      threshold: species ? String(species.waterQuality.dissolvedOxygen.min) : prev.threshold,
+      aerators: aeration ? String(aeration.requiredAerators) : prev.aerators,
+      aeratorOutput: aeration?.aeratorOutput ? toFieldValue(Number(aeration.aeratorOutput)) : prev.aeratorOutput,
+      duskOxygen: latest?.values.dissolvedOxygen !== undefined ? String(latest.values.dissolvedOxygen) : prev.duskOxygen,
+      temperature: latest?.values.temperature !== undefined ? String(latest.values.temperature) : prev.temperature,
+      salinity: latest?.values.salinity !== undefined ? String(latest.values.salinity) : prev.salinity,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const species = findSpecies(catalog, form.speciesId);
+    const result = forecastNightOxygen({
+      duskOxygen: parseFloat(form.duskOxygen),
+      temperature: parseFloat(form.temperature),
+      salinity: parseFloat(form.salinity) || 0,
+      pressure,
+      area: parseFloat(form.area),
+      depth: parseFloat(form.depth),
+      fishBiomass: parseFloat(form.fishBiomass) || 0,
+      fishRespiration: nightFishRespiration(species?.production.oxygenConsumption),
+      secchiDepth: parseFloat(form.secchiDepth),
+      sedimentDemand: parseFloat(form.sedimentDemand) || 0,
+      aeratorCapacity: (parseFloat(form.aerators) || 0) * (parseFloat(form.aeratorOutput) || 0),
+      windSpeed: parseFloat(form.windSpeed) || 0,
+      threshold: parseFloat(form.threshold),
+      duskHour: Number(form.duskHour),
+      dawnHour: Number(form.dawnHour),
+    });
+    setForecast(result);
+
+    if (pondId) {
+      const start = result.aeratorStartHour !== null ? formatClock(result.aeratorStartHour) : 'none';
+      savePondResult(pondId, 'nightOxygen', {
+        summary: `Pre-dawn minimum ${result.minimum.toFixed(1)} mg/L at ${formatClock(result.minimumHour)}, aerators from ${start}`,
+        values: {
+          minimum: result.minimum,
+          minimumHour: result.minimumHour,
+          aeratorStartHour: start,
+          aeratorsSufficient: result.aeratorsSufficient ? 'yes' : 'no',
+        },
+      });
+    }
+  };
+
+  const renderVerdict = (result: NightOxygenForecast) => {
+    const threshold = parseFloat(form.threshold);
+    if (result.breachHour === null) {
+      return (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          {t('Oxygen stays above {threshold} mg/L all night; the lowest is {minimum} mg/L at {time}. No aeration needed.', {
+            threshold,
+            minimum: result.minimum.toFixed(1),
+            time: formatClock(result.minimumHour),
+          })}
+        </Alert>
+      );
+    }
+    if (!result.aeratorsSufficient) {
+      return (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {t('Oxygen falls below {threshold} mg/L at {time} and the aerators cannot hold it even if started at dusk (lowest {aerated} mg/L). Add aeration, cut feeding or reduce the stock.', {
+            threshold,
+            time: formatClock(result.breachHour),
+            aerated: result.aeratedMinimum.toFixed(1),
+          })}
+        </Alert>
+      );
+    }
+    return (
+      <Alert severity="warning" sx={{ mb: 3 }}>
+        {t('Without aeration oxygen falls below {threshold} mg/L at {time}, reaching {minimum} mg/L by {minimumTime}. Start the aerators by {start}.', {
+          threshold,
+          time: formatClock(result.breachHour),
+          minimum: result.minimum.toFixed(1),
+          minimumTime: formatClock(result.minimumHour),
+          start: formatClock(result.aeratorStartHour!),
+        })}
+      </Alert>
+    );
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        {t('Night Oxygen Forecast')}
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        {t('Simulates dissolved oxygen hour by hour from dusk to dawn, when fish, plankton and pond mud consume oxygen and nothing produces it, and finds the latest time to start the aerators.')}
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3 }}>
+            <form onSubmit={handleSubmit}>
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <PondPicker value={pondId} onChange={handlePondSelect} />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Species"
+                    type="select"
+                    value={form.speciesId}
+                    onChange={handleSpeciesChange}
+                    options={speciesOptions(catalog)}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Minimum Safe Oxygen"
+                    type="number"
+                    unit="mg/L"
+                    value={form.threshold}
+                    onChange={update('threshold')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Dissolved Oxygen at Dusk"
+                    type="number"
+                    unit="mg/L"
+                    value={form.duskOxygen}
+                    onChange={update('duskOxygen')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Water Temperature"
+                    type="number"
+                    unit="°C"
+                    value={form.temperature}
+                    onChange={update('temperature')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Pond Area"
+                    type="number"
+                    unit="m²"
+                    value={form.area}
+                    onChange={update('area')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Average Depth"
+                    type="number"
+                    unit="m"
+                    value={form.depth}
+                    onChange={update('depth')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Fish Biomass"
+                    type="number"
+                    unit="kg"
+                    value={form.fishBiomass}
+                    onChange={update('fishBiomass')}
+                    helperText="Filled from the pond's active batches"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Secchi Depth"
+                    type="number"
+                    unit="cm"
+                    value={form.secchiDepth}
+                    onChange={update('secchiDepth')}
+                    helperText="Shallower readings mean a denser plankton bloom"
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Sediment Oxygen Demand (g O₂/m²/day)"
+                    type="number"
+                    value={form.sedimentDemand}
+                    onChange={update('sedimentDemand')}
+                    helperText="About 1 for a typical earthen pond, 2-3 with heavy organic mud"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Night Wind Speed"
+                    type="number"
+                    unit="m/s"
+                    value={form.windSpeed}
+                    onChange={update('windSpeed')}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Number of Aerators"
+                    type="number"
+                    value={form.aerators}
+                    onChange={update('aerators')}
+                    helperText="Filled from the pond's Aeration Calculator result"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Aerator Output (kg O₂/hour each)"
+                    type="number"
+                    value={form.aeratorOutput}
+                    onChange={update('aeratorOutput')}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Salinity (ppt)"
+                    type="number"
+                    value={form.salinity}
+                    onChange={update('salinity')}
+                    helperText="Leave empty for fresh water"
+                  />
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <FormField label="Dusk" type="select" value={form.duskHour} onChange={update('duskHour')} options={hourOptions} />
+                </Grid>
+                <Grid item xs={6} sm={3}>
+                  <FormField label="Dawn" type="select" value={form.dawnHour} onChange={update('dawnHour')} options={hourOptions} />
+                </Grid>
+                <Grid item xs={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    {t('Site pressure {pressure} kPa, from the elevation in Settings.', { pressure: pressure.toFixed(1) })}
+                  </Typography>
+                </Grid>
+                <Grid item xs={12}>
+                  <Button type="submit" variant="contained" size="large" fullWidth>
+                    {t('Forecast Night Oxygen')}
+                  </Button>
+                </Grid>
+              </Grid>
+            </form>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          {forecast ? (
+            <Paper sx={{ p: 3 }}>
+              {renderVerdict(forecast)}
+
+              <Box sx={{ height: 300, mb: 3 }}>
+                <ResponsiveContainer>
+                  <LineChart data={forecast.hourly} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="hour" tickFormatter={formatClock} />
+                    <YAxis domain={[0, 'auto']} tickFormatter={(value: number) => value.toFixed(1)} />
+                    <ReferenceLine y={parseFloat(form.threshold)} stroke="#f44336" strokeDasharray="4 4" />
+                    <ChartTooltip
+                      labelFormatter={(hour) => formatClock(Number(hour))}
+                      formatter={(value: number) => `${value.toFixed(2)} mg/L`}
+                    />
+                    <Legend />
+                    <Line dataKey="unaerated" name={t('Without aeration')} stroke="#8884d8" isAnimationActive={false} />
+                    {forecast.breachHour !== null && (
+                      <Line dataKey="aerated" name={t('With aerators')} stroke="#82ca9d" isAnimationActive={false} />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </Box>
+
+              <Typography variant="h6" gutterBottom>
+                {t('Oxygen Budget')}
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>{t('Saturation')}</TableCell>
+                      <TableCell align="right">{forecast.saturation.toFixed(2)} mg/L</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Fish respiration')}</TableCell>
+                      <TableCell align="right">{forecast.budget.fish.toFixed(3)} mg/L/h</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Plankton respiration')}</TableCell>
+                      <TableCell align="right">{forecast.budget.plankton.toFixed(3)} mg/L/h</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Sediment demand')}</TableCell>
+                      <TableCell align="right">{forecast.budget.sediment.toFixed(3)} mg/L/h</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>
+                        <strong>{t('Total consumption')}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{forecast.budget.total.toFixed(3)} mg/L/h</strong>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          ) : (
+            <Alert severity="info">
+              {t('Measure dissolved oxygen and Secchi depth around sunset for the best forecast.')}
+            </Alert>
+          )}
+        </Grid>
+      </Grid>
+    </Container>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -11,8 +12,29 @@ import {
   InputLabel,
   Select,
   MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import ClimateNormalsPicker from '../components/ClimateNormalsPicker';
+import type { Pond } from '../types/records';
+import { getPondDimensions, savePondResult, toFieldValue } from '../utils/ponds';
+import { useUnits } from '../contexts/UnitsContext';
+import { useSite } from '../contexts/SiteContext';
+import {
+  DEFAULT_PAN_COEFFICIENT,
+  DEFAULT_TEMPERATURE_RANGE,
+  calculateEvaporation,
+  evaporationMethods,
+} from '../engine';
+import type { EvaporationMethod, EvaporationResult } from '../engine';
+import { cloudCoverLabel } from '../climate';
+import type { MonthlyNormals } from '../climate';
 
 interface EvaporationData {
   pondLength: string;
@@ -26,6 +48,12 @@ interface EvaporationData {
   rainfall: string;
   season: string;
   cloudCover: string;
+  method: EvaporationMethod;
+  latitude: string;
+  elevation: string;
+  temperatureRange: string;
+  panEvaporation: string;
+  panCoefficient: string;
 }
 
 const initialFormData: EvaporationData = {
@@ -40,123 +68,105 @@ const initialFormData: EvaporationData = {
   rainfall: '',
   season: '',
   cloudCover: '',
+  method: 'empirical',
+  latitude: '',
+  elevation: '',
+  temperatureRange: '',
+  panEvaporation: '',
+  panCoefficient: '',
 };
 
 const seasons = ['Spring', 'Summer', 'Fall', 'Winter'];
 const cloudCoverOptions = ['Clear', 'Partly Cloudy', 'Mostly Cloudy', 'Overcast'];
 
-export default function PondEvaporationCalculator() {
-  const [formData, setFormData] = useState<EvaporationData>(initialFormData);
-  const [result, setResult] = useState<{
-    dailyEvaporation: number;
-    weeklyEvaporation: number;
-    monthlyEvaporation: number;
-    recommendations: string[];
-    riskLevel: 'Low' | 'Moderate' | 'High';
-  } | null>(null);
-
-  const handleChange = (field: keyof EvaporationData) => (value: string) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
-  };
-
-  const calculateEvaporation = () => {
-    // Get form values
-    const length = parseFloat(formData.pondLength);
-    const width = parseFloat(formData.pondWidth);
-    const waterTemp = parseFloat(formData.waterTemperature);
-    const airTemp = parseFloat(formData.airTemperature);
-    const humidity = parseFloat(formData.humidity);
-    const windSpeed = parseFloat(formData.windSpeed);
-    const sunlight = parseFloat(formData.sunlightHours);
-    const rainfall = parseFloat(formData.rainfall);
-
-    // Calculate surface area
-    const surfaceArea = length * width;
-
-    // Basic evaporation rate calculation (simplified model)
-    // Base rate affected by temperature difference
-    let baseRate = 0.1; // base evaporation rate in cm/day
-    
-    // Temperature effect
-    const tempDiff = waterTemp - airTemp;
-    baseRate *= (1 + (tempDiff * 0.05));
-
-    // Wind effect (increases evaporation)
-    baseRate *= (1 + (windSpeed * 0.02));
-
-    // Humidity effect (reduces evaporation)
-    baseRate *= (1 - (humidity / 200)); // divided by 200 to normalize effect
-
-    // Sunlight hours effect
-    baseRate *= (1 + (sunlight / 24) * 0.5);
-
-    // Cloud cover effect
-    const cloudCoverFactor = {
-      'Clear': 1,
-      'Partly Cloudy': 0.8,
-      'Mostly Cloudy': 0.6,
-      'Overcast': 0.4,
-    }[formData.cloudCover] || 1;
-    baseRate *= cloudCoverFactor;
-
-    // Seasonal adjustment
-    const seasonFactor = {
-      'Summer': 1.2,
-      'Spring': 1,
-      'Fall': 0.8,
-      'Winter': 0.6,
-    }[formData.season] || 1;
-    baseRate *= seasonFactor;
-
-    // Convert to volume
-    const dailyEvaporation = (baseRate * surfaceArea) / 100; // convert cm to m³
-    const weeklyEvaporation = dailyEvaporation * 7;
-    const monthlyEvaporation = dailyEvaporation * 30;
-
-    // Calculate risk level
-    let riskLevel: 'Low' | 'Moderate' | 'High' = 'Low';
-    if (baseRate > 0.5) {
-      riskLevel = 'High';
-    } else if (baseRate > 0.3) {
-      riskLevel = 'Moderate';
-    }
+const methodOptions = (Object.keys(evaporationMethods) as EvaporationMethod[]).map((method) => ({
+  value: method,
+  label: evaporationMethods[method],
+}));
+
+// What each method draws on, for the comparison table.
+const methodInputs: Record<EvaporationMethod, string> = {
+  empirical: 'Temperatures, humidity, wind, sunlight, cloud cover, season',
+  penmanMonteith: 'Air temperature and range, humidity, wind, sunlight, latitude, elevation, season',
+  hargreaves: 'Air temperature and range, latitude, season',
+  pan: 'Pan reading and coefficient',
+};
 
-    // Generate recommendations
-    const recommendations = [
-      'Monitor water levels daily during high evaporation periods',
-      'Consider installing shade structures to reduce evaporation',
-      'Maintain proper water depth to minimize temperature fluctuations',
-    ];
-
-    if (riskLevel === 'High') {
-      recommendations.push(
-        'Install water level monitoring system',
-        'Plan for emergency water supply',
-        'Consider reducing pond surface area during peak evaporation season'
-      );
-    }
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : parseFloat(value));
 
-    if (windSpeed > 15) {
-      recommendations.push('Install windbreaks to reduce evaporation');
-    }
+export default function PondEvaporationCalculator() {
+  const { site } = useSite();
+  const [formData, setFormData] = useState<EvaporationData>(() => ({
+    ...initialFormData,
+    latitude: site.latitude === null ? '' : String(site.latitude),
+    elevation: String(site.elevation),
+  }));
+  const [result, setResult] = useState<EvaporationResult | null>(null);
+  const { format } = useUnits();
+  const needsLocation = formData.method === 'penmanMonteith' || formData.method === 'hargreaves';
+  const [pondId, setPondId] = useState('');
+
+  const handleChange = (field: keyof EvaporationData) => (value: string | number | string[]) => {
+    setFormData((prev) => ({ ...prev, [field]: String(value) }));
+  };
 
-    if (sunlight > 10) {
-      recommendations.push('Consider using pond covers during peak sunlight hours');
-    }
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    const { length, width, depth } = getPondDimensions(pond);
+    setFormData((prev) => ({
+      ...prev,
+      pondLength: toFieldValue(length),
+      pondWidth: toFieldValue(width),
+      pondDepth: toFieldValue(depth),
+    }));
+  };
 
-    return {
-      dailyEvaporation,
-      weeklyEvaporation,
-      monthlyEvaporation,
-      recommendations,
-      riskLevel,
-    };
+  const handleNormals = (normals: MonthlyNormals) => {
+    setFormData((prev) => ({
+      ...prev,
+      airTemperature: toFieldValue(normals.temperature),
+      temperatureRange: toFieldValue(normals.temperatureRange),
+      humidity: toFieldValue(normals.humidity),
+      windSpeed: toFieldValue(normals.windSpeed),
+      sunlightHours: toFieldValue(normals.sunlightHours),
+      rainfall: toFieldValue(normals.rainfall),
+      season: normals.season,
+      cloudCover: cloudCoverLabel(normals.cloudCover),
+    }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const result = calculateEvaporation();
+    const result = calculateEvaporation({
+      length: parseFloat(formData.pondLength),
+      width: parseFloat(formData.pondWidth),
+      waterTemperature: parseFloat(formData.waterTemperature),
+      airTemperature: parseFloat(formData.airTemperature),
+      humidity: parseFloat(formData.humidity),
+      windSpeed: parseFloat(formData.windSpeed),
+      sunlightHours: parseFloat(formData.sunlightHours),
+      season: formData.season,
+      cloudCover: formData.cloudCover,
+      method: formData.method,
+      latitude: optionalNumber(formData.latitude),
+      elevation: optionalNumber(formData.elevation),
+      temperatureRange: optionalNumber(formData.temperatureRange),
+      panEvaporation: optionalNumber(formData.panEvaporation),
+      panCoefficient: optionalNumber(formData.panCoefficient),
+    });
     setResult(result);
+    if (pondId) {
+      savePondResult(pondId, 'evaporation', {
+        summary: `${result.dailyEvaporation.toFixed(2)} m³/day lost, ${result.riskLevel.toLowerCase()} risk`,
+        values: {
+          dailyEvaporation: result.dailyEvaporation,
+          monthlyEvaporation: result.monthlyEvaporation,
+          riskLevel: result.riskLevel,
+          method: result.method,
+        },
+      });
+    }
   };
 
   return (
@@ -171,9 +181,16 @@ export default function PondEvaporationCalculator() {
       <Paper sx={{ p: 3, mt: 3 }}>
         <form onSubmit={handleSubmit}>
           <Grid container spacing={2}>
+            <Grid item xs={12}>
+              <PondPicker value={pondId} onChange={handlePondSelect} />
+            </Grid>
+            <Grid item xs={12}>
+              <ClimateNormalsPicker onFill={handleNormals} />
+            </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Pond Length (m)"
+                label="Pond Length"
+                unit="m"
                 value={formData.pondLength}
                 onChange={handleChange('pondLength')}
                 type="number"
@@ -183,7 +200,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Pond Width (m)"
+                label="Pond Width"
+                unit="m"
                 value={formData.pondWidth}
                 onChange={handleChange('pondWidth')}
                 type="number"
@@ -193,7 +211,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={4}>
               <FormField
-                label="Pond Depth (m)"
+                label="Pond Depth"
+                unit="m"
                 value={formData.pondDepth}
                 onChange={handleChange('pondDepth')}
                 type="number"
@@ -203,7 +222,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Water Temperature (°C)"
+                label="Water Temperature"
+                unit="°C"
                 value={formData.waterTemperature}
                 onChange={handleChange('waterTemperature')}
                 type="number"
@@ -213,7 +233,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Air Temperature (°C)"
+                label="Air Temperature"
+                unit="°C"
                 value={formData.airTemperature}
                 onChange={handleChange('airTemperature')}
                 type="number"
@@ -233,7 +254,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Wind Speed (km/h)"
+                label="Wind Speed"
+                unit="km/h"
                 value={formData.windSpeed}
                 onChange={handleChange('windSpeed')}
                 type="number"
@@ -253,7 +275,8 @@ export default function PondEvaporationCalculator() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Rainfall (mm/day)"
+                label="Rainfall"
+                unit="mm/day"
                 value={formData.rainfall}
                 onChange={handleChange('rainfall')}
                 type="number"
@@ -293,6 +316,65 @@ export default function PondEvaporationCalculator() {
                 </Select>
               </FormControl>
             </Grid>
+            <Grid item xs={12}>
+              <FormField
+                label="Evaporation Method"
+                value={formData.method}
+                onChange={handleChange('method')}
+                type="select"
+                options={methodOptions}
+                helperText="All methods are compared in the results; this one sets the saved figures"
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Latitude (°)"
+                value={formData.latitude}
+                onChange={handleChange('latitude')}
+                type="number"
+                required={needsLocation}
+                helperText="Negative south of the equator; from Settings"
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Elevation"
+                unit="m"
+                value={formData.elevation}
+                onChange={handleChange('elevation')}
+                type="number"
+                helperText="Height above sea level; from Settings"
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Daily Temperature Range (°C)"
+                value={formData.temperatureRange}
+                onChange={handleChange('temperatureRange')}
+                type="number"
+                helperText={`Day maximum minus night minimum; ${DEFAULT_TEMPERATURE_RANGE} °C if left empty`}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Class-A Pan Evaporation"
+                unit="mm/day"
+                value={formData.panEvaporation}
+                onChange={handleChange('panEvaporation')}
+                type="number"
+                required={formData.method === 'pan'}
+                helperText="Published by the nearest weather or fisheries station"
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Pan Coefficient"
+                value={formData.panCoefficient}
+                onChange={handleChange('panCoefficient')}
+                type="number"
+                helperText={`Pond evaporation as a share of pan evaporation; ${DEFAULT_PAN_COEFFICIENT} if left empty`}
+              />
+            </Grid>
           </Grid>
 
           <Box sx={{ mt: 3, display: 'flex', justifyContent: 'center' }}>
@@ -323,7 +405,7 @@ export default function PondEvaporationCalculator() {
             }
             sx={{ mb: 2 }}
           >
-            Evaporation Risk Level: {result.riskLevel}
+            Evaporation Risk Level: {result.riskLevel} ({evaporationMethods[result.method]})
           </Alert>
 
           <Grid container spacing={2}>
@@ -332,7 +414,7 @@ export default function PondEvaporationCalculator() {
                 Daily Evaporation:
               </Typography>
               <Typography variant="body1">
-                {result.dailyEvaporation.toFixed(2)} m³
+                {format(result.dailyEvaporation, 'm³')}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={4}>
@@ -340,7 +422,7 @@ export default function PondEvaporationCalculator() {
                 Weekly Evaporation:
               </Typography>
               <Typography variant="body1">
-                {result.weeklyEvaporation.toFixed(2)} m³
+                {format(result.weeklyEvaporation, 'm³')}
               </Typography>
             </Grid>
             <Grid item xs={12} sm={4}>
@@ -348,11 +430,47 @@ export default function PondEvaporationCalculator() {
                 Monthly Evaporation:
               </Typography>
               <Typography variant="body1">
-                {result.monthlyEvaporation.toFixed(2)} m³
+                {format(result.monthlyEvaporation, 'm³')}
               </Typography>
             </Grid>
           </Grid>
 
+          <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+            Method Comparison
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Method</TableCell>
+                  <TableCell align="right">Rate</TableCell>
+                  <TableCell align="right">Daily Loss</TableCell>
+                  <TableCell>Based on</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {result.comparison.map((estimate) => (
+                  <TableRow key={estimate.method} selected={estimate.method === result.method}>
+                    <TableCell>{evaporationMethods[estimate.method]}</TableCell>
+                    <TableCell align="right">
+                      {estimate.rate === null ? '—' : format(estimate.rate, 'mm/day')}
+                    </TableCell>
+                    <TableCell align="right">
+                      {estimate.dailyEvaporation === null ? '—' : format(estimate.dailyEvaporation, 'm³')}
+                    </TableCell>
+                    <TableCell>
+                      {estimate.rate === null
+                        ? estimate.method === 'pan'
+                          ? 'Enter a pan reading'
+                          : 'Enter the latitude'
+                        : methodInputs[estimate.method]}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
           <Box sx={{ mt: 3 }}>
             <Typography variant="h6" gutterBottom>
               Recommendations:
@@ -365,6 +483,9 @@ export default function PondEvaporationCalculator() {
               ))}
             </ul>
           </Box>
+          <Button component={RouterLink} to="/water-balance" variant="outlined">
+            Plan refills and water demand with seepage and rainfall
+          </Button>
         </Paper>
       )}
       {/* SEO-optimized Blog Content */}
@@ -20,6 +20,13 @@ import {
 } from '@mui/material';
 import { SelectChangeEvent } from '@mui/material/Select';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondArea, savePondResult, toFieldValue } from '../utils/ponds';
+import { calculateLimeRequirement, limeTypes, soilTypes } from '../engine';
+import type { LimingResult } from '../engine';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface LimingData {
   pondArea: string;
@@ -32,70 +39,9 @@ interface LimingData {
   alkalinity: string;
 }
 
-interface LimeType {
-  name: string;
-  neutralizingValue: number;
-  solubility: number;
-  costPerTon: number;
-}
-
-interface SoilType {
-  name: string;
-  bufferCapacity: number;
-  description: string;
-}
-
-const limeTypes: Record<string, LimeType> = {
-  agricultural: {
-    name: 'Agricultural Limestone',
-    neutralizingValue: 100,
-    solubility: 0.6,
-    costPerTon: 30,
-  },
-  hydrated: {
-    name: 'Hydrated Lime',
-    neutralizingValue: 136,
-    solubility: 0.9,
-    costPerTon: 45,
-  },
-  quicklime: {
-    name: 'Quicklime',
-    neutralizingValue: 179,
-    solubility: 1.0,
-    costPerTon: 60,
-  },
-  dolomitic: {
-    name: 'Dolomitic Limestone',
-    neutralizingValue: 109,
-    solubility: 0.5,
-    costPerTon: 35,
-  },
-};
-
-const soilTypes: Record<string, SoilType> = {
-  sandy: {
-    name: 'Sandy Soil',
-    bufferCapacity: 0.5,
-    description: 'Low buffering capacity, requires less lime',
-  },
-  loamy: {
-    name: 'Loamy Soil',
-    bufferCapacity: 1.0,
-    description: 'Medium buffering capacity',
-  },
-  clayey: {
-    name: 'Clay Soil',
-    bufferCapacity: 1.5,
-    description: 'High buffering capacity, requires more lime',
-  },
-  organic: {
-    name: 'Organic Soil',
-    bufferCapacity: 2.0,
-    description: 'Very high buffering capacity, requires most lime',
-  },
-};
-
 const PondLimingCalculator: React.FC = () => {
+  const { settings, formatMoney } = useCurrency();
+  const { format } = useUnits();
   const [formData, setFormData] = useState<LimingData>({
     pondArea: '',
     pondDepth: '',
@@ -107,12 +53,20 @@ const PondLimingCalculator: React.FC = () => {
     alkalinity: '',
   });
 
-  const [results, setResults] = useState<{
-    limeRequired: number;
-    cost: number;
-    applicationRate: number;
-    recommendations: string[];
-  } | null>(null);
+  const [results, setResults] = useState<LimingResult | null>(null);
+  const [pondId, setPondId] = useState('');
+
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    setFormData((prev) => ({
+      ...prev,
+      pondArea: String(getPondArea(pond) / 10000),
+      pondDepth: toFieldValue(pond.depth),
+      soilType: pond.soilType in soilTypes ? pond.soilType : prev.soilType,
+      waterSource: pond.waterSource,
+    }));
+  };
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement> | SelectChangeEvent<string>
@@ -127,7 +81,7 @@ const PondLimingCalculator: React.FC = () => {
     }
   };
 
-  const calculateLimeRequirement = () => {
+  const handleCalculate = () => {
     const {
       pondArea,
       pondDepth,
@@ -161,70 +115,25 @@ const PondLimingCalculator: React.FC = () => {
       return;
     }
 
-    // Calculate volume in cubic meters
-    const pondVolume = area * depth;
-
-    // pH difference factor
-    const pHDifference = targetpH - currentpH;
-    
-    // Base lime requirement (kg/ha)
-    let baseLimeReq = pHDifference * 1000;
-
-    // Adjust for soil type
-    baseLimeReq *= soilTypes[soilType].bufferCapacity;
-
-    // Adjust for alkalinity
-    if (alkLevel < 50) {
-      baseLimeReq *= 1.3;
-    } else if (alkLevel > 150) {
-      baseLimeReq *= 0.7;
-    }
-
-    // Adjust for water source
-    if (waterSource === 'groundwater') {
-      baseLimeReq *= 0.8;
-    } else if (waterSource === 'rainwater') {
-      baseLimeReq *= 1.2;
-    }
-
-    // Adjust for lime type efficiency
-    const selectedLime = limeTypes[limeType];
-    const limeEfficiencyFactor = selectedLime.neutralizingValue / 100;
-    const finalLimeReq = baseLimeReq / limeEfficiencyFactor;
-
-    // Calculate cost
-    const costPerKg = selectedLime.costPerTon / 1000;
-    const totalCost = finalLimeReq * costPerKg;
-
-    // Application rate (kg/m²)
-    const applicationRate = finalLimeReq / (area * 10000);
-
-    // Generate recommendations
-    const recommendations = [
-      `Apply ${finalLimeReq.toFixed(2)} kg of ${selectedLime.name} total.`,
-      `Spread lime evenly at a rate of ${applicationRate.toFixed(3)} kg/m².`,
-      `For best results, apply lime during dry weather.`,
-      `Monitor pH weekly after application.`,
-    ];
-
-    if (selectedLime.solubility < 0.7) {
-      recommendations.push(
-        'This lime type dissolves slowly. Consider multiple smaller applications.'
-      );
-    }
-
-    if (pHDifference > 2) {
-      recommendations.push(
-        'Large pH adjustment needed. Consider gradual adjustment over multiple applications.'
-      );
-    }
-
-    setResults({
-      limeRequired: finalLimeReq,
-      cost: totalCost,
-      applicationRate: applicationRate,
-      recommendations,
+    const result = calculateLimeRequirement({
+      pondArea: area,
+      currentPH: currentpH,
+      targetPH: targetpH,
+      soilType,
+      waterSource,
+      limeType,
+      alkalinity: alkLevel,
+      usdRate: settings.usdRate,
     });
+    setResults(result);
+
+    if (pondId) {
+      const { limeRequired, applicationRate, cost } = result;
+      savePondResult(pondId, 'liming', {
+        summary: `${limeRequired.toFixed(1)} kg of ${limeTypes[limeType].name} to raise pH ${currentpH} → ${targetpH}`,
+        values: { limeRequired, limeType, applicationRate, cost },
+      });
+    }
   };
 
   return (
@@ -236,9 +145,13 @@ const PondLimingCalculator: React.FC = () => {
         <Divider sx={{ mb: 3 }} />
 
         <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <PondPicker value={pondId} onChange={handlePondSelect} />
+          </Grid>
           <Grid item xs={12} md={6}>
             <FormField
-              label="Pond Area (hectares)"
+              label="Pond Area"
+              unit="ha"
               type="number"
               name="pondArea"
               value={formData.pondArea}
@@ -314,7 +227,8 @@ const PondLimingCalculator: React.FC = () => {
           </Grid>
           <Grid item xs={12} md={6}>
             <FormField
-              label="Water Alkalinity (mg/L CaCO₃)"
+              label="Water Alkalinity (as CaCO₃)"
+              unit="mg/L"
               type="number"
               name="alkalinity"
               value={formData.alkalinity}
@@ -327,7 +241,7 @@ const PondLimingCalculator: React.FC = () => {
           <Button
             variant="contained"
             color="primary"
-            onClick={calculateLimeRequirement}
+            onClick={handleCalculate}
             size="large"
           >
             Calculate Lime Requirement
@@ -352,7 +266,7 @@ const PondLimingCalculator: React.FC = () => {
                     <TableBody>
                       <TableRow>
                         <TableCell>Total Lime Required</TableCell>
-                        <TableCell>{results.limeRequired.toFixed(2)} kg</TableCell>
+                        <TableCell>{format(results.limeRequired, 'kg')}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Application Rate</TableCell>
@@ -362,7 +276,7 @@ const PondLimingCalculator: React.FC = () => {
                       </TableRow>
                       <TableRow>
                         <TableCell>Estimated Cost</TableCell>
-                        <TableCell>${results.cost.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(results.cost)}</TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
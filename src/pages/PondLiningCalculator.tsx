@@ -20,7 +20,14 @@ import {
   TableRow,
 } from '@mui/material';
 import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondDimensions, savePondResult } from '../utils/ponds';
+import { calculateLiningCosts, liningMaterials } from '../engine';
+import type { LiningResult } from '../engine';
 import type { SelectChangeEvent } from '@mui/material/Select';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface PondData {
   length: number;
@@ -33,76 +40,6 @@ interface PondData {
   additionalCosts: number;
 }
 
-interface Material {
-  name: string;
-  costPerSqm: number;
-  lifespan: number;
-  durability: string;
-  maintenance: string;
-  installation: string;
-  description: string;
-}
-
-interface CostAnalysis {
-  totalArea: number;
-  materialCost: number;
-  laborCost: number;
-  totalCost: number;
-  costPerSqm: number;
-  annualCost: number;
-  recommendations: string[];
-  maintenancePlan: string[];
-  installationSteps: string[];
-}
-
-const materials: Record<string, Material> = {
-  hdpe: {
-    name: 'HDPE (High-Density Polyethylene)',
-    costPerSqm: 8,
-    lifespan: 15,
-    durability: 'High',
-    maintenance: 'Low',
-    installation: 'Moderate',
-    description: 'Excellent chemical resistance and durability',
-  },
-  pvc: {
-    name: 'PVC (Polyvinyl Chloride)',
-    costPerSqm: 5,
-    lifespan: 10,
-    durability: 'Moderate',
-    maintenance: 'Moderate',
-    installation: 'Easy',
-    description: 'Cost-effective and widely available',
-  },
-  epdm: {
-    name: 'EPDM (Rubber)',
-    costPerSqm: 12,
-    lifespan: 20,
-    durability: 'Very High',
-    maintenance: 'Low',
-    installation: 'Easy',
-    description: 'Highly flexible and excellent UV resistance',
-  },
-  butyl: {
-    name: 'Butyl Rubber',
-    costPerSqm: 15,
-    lifespan: 25,
-    durability: 'Very High',
-    maintenance: 'Low',
-    installation: 'Moderate',
-    description: 'Superior durability and puncture resistance',
-  },
-  geomembrane: {
-    name: 'Reinforced Geomembrane',
-    costPerSqm: 10,
-    lifespan: 18,
-    durability: 'High',
-    maintenance: 'Low',
-    installation: 'Complex',
-    description: 'High strength and good chemical resistance',
-  },
-};
-
 const initialFormData: PondData = {
   length: 0,
   width: 0,
@@ -115,8 +52,28 @@ const initialFormData: PondData = {
 };
 
 const PondLiningCalculator: React.FC = () => {
-  const [formData, setFormData] = useState<PondData>(initialFormData);
-  const [analysis, setAnalysis] = useState<CostAnalysis | null>(null);
+  const { format } = useUnits();
+  const { settings, symbol, formatMoney } = useCurrency();
+  const [formData, setFormData] = useState<PondData>({
+    ...initialFormData,
+    laborCostPerDay: settings.laborPerDay,
+  });
+  const [analysis, setAnalysis] = useState<LiningResult | null>(null);
+  const [pondId, setPondId] = useState('');
+
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    const { length, width, depth } = getPondDimensions(pond);
+    setFormData(prev => ({
+      ...prev,
+      length: Math.round(length * 100) / 100,
+      width: Math.round(width * 100) / 100,
+      depth,
+      slopeRatio: pond.slopeRatio,
+      materialType: pond.liner in liningMaterials ? pond.liner : prev.materialType,
+    }));
+  };
 
   const handleInputChange = (field: keyof PondData) => (value: string | number) => {
     setFormData(prev => ({
@@ -133,85 +90,28 @@ const PondLiningCalculator: React.FC = () => {
     }));
   };
 
-  const calculateLiningCosts = () => {
-    const {
-      length,
-      width,
-      depth,
-      slopeRatio,
+  const handleCalculate = () => {
+    const { materialType } = formData;
+    const result = calculateLiningCosts({
+      length: Number(formData.length),
+      width: Number(formData.width),
+      depth: Number(formData.depth),
+      slopeRatio: Number(formData.slopeRatio),
       materialType,
-      laborCostPerDay,
-      estimatedDays,
-      additionalCosts,
-    } = formData;
-
-    // Calculate total surface area including slopes
-    const slopeLength = depth * slopeRatio;
-    const bottomArea = length * width;
-    const sideArea1 = (length + (2 * slopeLength)) * depth;
-    const sideArea2 = (width + (2 * slopeLength)) * depth;
-    const totalArea = bottomArea + (2 * sideArea1) + (2 * sideArea2);
-
-    // Add 10% for overlaps and wastage
-    const totalAreaWithOverlap = totalArea * 1.1;
-
-    const material = materials[materialType];
-    const materialCost = totalAreaWithOverlap * material.costPerSqm;
-    const laborCost = laborCostPerDay * estimatedDays;
-    const totalCost = materialCost + laborCost + additionalCosts;
-    const costPerSqm = totalCost / totalArea;
-    const annualCost = totalCost / material.lifespan;
-
-    // Generate recommendations based on pond size and material
-    const recommendations = [];
-    if (totalArea > 1000) {
-      recommendations.push('Consider hiring professional installation team');
-      recommendations.push('Implement quality control measures during installation');
-    }
-    if (material.installation === 'Complex') {
-      recommendations.push('Ensure installers are certified for this material');
-    }
-    if (depth > 3) {
-      recommendations.push('Use reinforced material at deeper sections');
-    }
-    recommendations.push(`Expected lifespan: ${material.lifespan} years with proper maintenance`);
-
-    // Generate maintenance plan
-    const maintenancePlan = [
-      'Regular inspection for tears and punctures',
-      'Clean liner surface periodically',
-      'Maintain proper water chemistry',
-      'Monitor for UV degradation',
-    ];
-    if (material.maintenance === 'Moderate') {
-      maintenancePlan.push('Schedule bi-annual professional inspection');
-    }
-
-    // Generate installation steps
-    const installationSteps = [
-      'Site preparation and excavation',
-      'Subgrade preparation and compaction',
-      'Installation of underlayment or geotextile',
-      `Installation of ${material.name} liner`,
-      'Seaming and joining sections',
-      'Anchor trench construction',
-      'Quality control inspection',
-    ];
-    if (material.installation === 'Complex') {
-      installationSteps.push('Professional certification inspection');
-    }
-
-    setAnalysis({
-      totalArea: totalAreaWithOverlap,
-      materialCost,
-      laborCost,
-      totalCost,
-      costPerSqm,
-      annualCost,
-      recommendations,
-      maintenancePlan,
-      installationSteps,
+      laborCostPerDay: Number(formData.laborCostPerDay),
+      estimatedDays: Number(formData.estimatedDays),
+      additionalCosts: Number(formData.additionalCosts),
+      usdRate: settings.usdRate,
     });
+    setAnalysis(result);
+
+    if (pondId) {
+      const { totalArea, totalCost, annualCost } = result;
+      savePondResult(pondId, 'lining', {
+        summary: `${totalArea.toFixed(0)} m² of ${liningMaterials[materialType].name}, total cost ${formatMoney(totalCost)}`,
+        values: { materialType, totalArea, totalCost, annualCost },
+      });
+    }
   };
 
   return (
@@ -225,24 +125,30 @@ const PondLiningCalculator: React.FC = () => {
         </Typography>
 
         <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <PondPicker value={pondId} onChange={handlePondSelect} />
+          </Grid>
           <Grid item xs={12} md={6}>
             <FormField
               type="number"
-              label="Length (m)"
+              label="Length"
+              unit="m"
               value={formData.length}
               onChange={handleInputChange('length')}
               required
             />
             <FormField
               type="number"
-              label="Width (m)"
+              label="Width"
+              unit="m"
               value={formData.width}
               onChange={handleInputChange('width')}
               required
             />
             <FormField
               type="number"
-              label="Depth (m)"
+              label="Depth"
+              unit="m"
               value={formData.depth}
               onChange={handleInputChange('depth')}
               required
@@ -264,7 +170,7 @@ const PondLiningCalculator: React.FC = () => {
                 onChange={handleSelectChange}
                 name="materialType"
               >
-                {Object.entries(materials).map(([key, material]) => (
+                {Object.entries(liningMaterials).map(([key, material]) => (
                   <MenuItem key={key} value={key}>
                     {material.name} - {material.description}
                   </MenuItem>
@@ -278,19 +184,23 @@ const PondLiningCalculator: React.FC = () => {
                   <TableBody>
                     <TableRow>
                       <TableCell>Durability</TableCell>
-                      <TableCell>{materials[formData.materialType].durability}</TableCell>
+                      <TableCell>{liningMaterials[formData.materialType].durability}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Maintenance</TableCell>
-                      <TableCell>{materials[formData.materialType].maintenance}</TableCell>
+                      <TableCell>{liningMaterials[formData.materialType].maintenance}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Installation</TableCell>
-                      <TableCell>{materials[formData.materialType].installation}</TableCell>
+                      <TableCell>{liningMaterials[formData.materialType].installation}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Lifespan</TableCell>
-                      <TableCell>{materials[formData.materialType].lifespan} years</TableCell>
+                      <TableCell>{liningMaterials[formData.materialType].lifespan} years</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>Seepage</TableCell>
+                      <TableCell>{liningMaterials[formData.materialType].seepage} mm/day</TableCell>
                     </TableRow>
                   </TableBody>
                 </Table>
@@ -300,7 +210,7 @@ const PondLiningCalculator: React.FC = () => {
 
           <Grid item xs={12} md={6}>
             <FormField
-              label="Labor Cost per Day ($)"
+              label={`Labor Cost per Day (${symbol})`}
               value={formData.laborCostPerDay}
               onChange={handleInputChange('laborCostPerDay')}
               type="number"
@@ -312,7 +222,7 @@ const PondLiningCalculator: React.FC = () => {
               type="number"
             />
             <FormField
-              label="Additional Costs ($)"
+              label={`Additional Costs (${symbol})`}
               value={formData.additionalCosts}
               onChange={handleInputChange('additionalCosts')}
               type="number"
@@ -323,7 +233,7 @@ const PondLiningCalculator: React.FC = () => {
           <Grid item xs={12} md={6}>
             <Button
               variant="contained"
-              onClick={calculateLiningCosts}
+              onClick={handleCalculate}
               disabled={!formData.length || !formData.width || !formData.depth || !formData.materialType}
               sx={{ mt: 2 }}
             >
@@ -338,27 +248,27 @@ const PondLiningCalculator: React.FC = () => {
                   <TableBody>
                     <TableRow>
                       <TableCell>Total Area (with overlap)</TableCell>
-                      <TableCell>{analysis.totalArea.toFixed(2)} m²</TableCell>
+                      <TableCell>{format(analysis.totalArea, 'm²')}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Material Cost</TableCell>
-                      <TableCell>${analysis.materialCost.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(analysis.materialCost)}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Labor Cost</TableCell>
-                      <TableCell>${analysis.laborCost.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(analysis.laborCost)}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Total Cost</TableCell>
-                      <TableCell>${analysis.totalCost.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(analysis.totalCost)}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Cost per Square Meter</TableCell>
-                      <TableCell>${analysis.costPerSqm.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(analysis.costPerSqm)}</TableCell>
                     </TableRow>
                     <TableRow>
                       <TableCell>Annual Cost (over lifespan)</TableCell>
-                      <TableCell>${analysis.annualCost.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(analysis.annualCost)}</TableCell>
                     </TableRow>
                   </TableBody>
                 </Table>
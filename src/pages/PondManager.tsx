@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Card,
+  CardContent,
+  List,
+  ListItem,
+  ListItemText,
+  Link,
+  Alert,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import FormField from '../components/FormField';
+import { useCollection } from '../db';
+import type { Pond, PondShape } from '../types/records';
+import {
+  emptyPond,
+  getPondArea,
+  getPondVolume,
+  pondCalculators,
+  pondShapeOptions,
+  soilTypeOptions,
+  waterSourceOptions,
+  linerOptions,
+} from '../utils/ponds';
+
+const optionLabel = (options: { value: string; label: string }[], value: string) =>
+  options.find((option) => option.value === value)?.label ?? value;
+
+export default function PondManager() {
+  const [ponds, setPonds] = useCollection('ponds');
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState<Omit<Pond, 'id'>>(emptyPond);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedPond = ponds.find((pond) => pond.id === selectedId) ?? null;
+
+  const handleOpenDialog = (pond?: Pond) => {
+    if (pond) {
+      setFormData(pond);
+      setEditingId(pond.id);
+    } else {
+      setFormData(emptyPond);
+      setEditingId(null);
+    }
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setFormData(emptyPond);
+    setEditingId(null);
+  };
+
+  const handleChange = (field: keyof Omit<Pond, 'id' | 'results'>) => (
+    value: string | number | string[]
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: typeof prev[field] === 'number' ? Number(value) || 0 : value,
+    }));
+  };
+
+  const handleSubmit = () => {
+    if (!formData.name) return;
+    if (editingId) {
+      setPonds((prev) =>
+        prev.map((pond) => (pond.id === editingId ? { ...formData, id: editingId } : pond))
+      );
+    } else {
+      setPonds((prev) => [...prev, { ...formData, id: Date.now().toString() }]);
+    }
+    handleCloseDialog();
+  };
+
+  const handleDelete = (id: string) => {
+    setPonds((prev) => prev.filter((pond) => pond.id !== id));
+    if (selectedId === id) {
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Pond Registry
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        Record each pond once and pick it from any pond calculator instead of retyping its dimensions.
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            Add Pond
+          </Button>
+        </Grid>
+
+        <Grid item xs={12} md={selectedPond ? 7 : 12}>
+          <Paper>
+            {ponds.length === 0 ? (
+              <Box sx={{ p: 3 }}>
+                <Typography color="text.secondary">No ponds registered yet.</Typography>
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Name</TableCell>
+                      <TableCell>Shape</TableCell>
+                      <TableCell align="right">Area (m²)</TableCell>
+                      <TableCell align="right">Volume (m³)</TableCell>
+                      <TableCell>Soil</TableCell>
+                      <TableCell>Liner</TableCell>
+                      <TableCell>Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {ponds.map((pond) => (
+                      <TableRow
+                        key={pond.id}
+                        hover
+                        selected={pond.id === selectedId}
+                        onClick={() => setSelectedId(pond.id)}
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell>{pond.name}</TableCell>
+                        <TableCell>{optionLabel(pondShapeOptions, pond.shape)}</TableCell>
+                        <TableCell align="right">{getPondArea(pond).toFixed(1)}</TableCell>
+                        <TableCell align="right">{getPondVolume(pond).toFixed(1)}</TableCell>
+                        <TableCell>{optionLabel(soilTypeOptions, pond.soilType)}</TableCell>
+                        <TableCell>{optionLabel(linerOptions, pond.liner)}</TableCell>
+                        <TableCell>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleOpenDialog(pond);
+                            }}
+                          >
+                            <EditIcon />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(pond.id);
+                            }}
+                          >
+                            <DeleteIcon />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </Grid>
+
+        {selectedPond && (
+          <Grid item xs={12} md={5}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6" gutterBottom>
+                  {selectedPond.name}: Latest Results
+                </Typography>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  Water source: {optionLabel(waterSourceOptions, selectedPond.waterSource)}
+                  {selectedPond.notes && ` · ${selectedPond.notes}`}
+                </Typography>
+                {Object.keys(selectedPond.results).length === 0 ? (
+                  <Alert severity="info">
+                    No results yet. Select this pond in a calculator to record one.
+                  </Alert>
+                ) : (
+                  <List dense>
+                    {Object.entries(selectedPond.results).map(([key, result]) => (
+                      <ListItem key={key} disableGutters>
+                        <ListItemText
+                          primary={
+                            pondCalculators[key] ? (
+                              <Link component={RouterLink} to={pondCalculators[key].path}>
+                                {pondCalculators[key].name}
+                              </Link>
+                            ) : (
+                              key
+                            )
+                          }
+                          secondary={`${result.summary} (${new Date(result.calculatedAt).toLocaleString()})`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+      </Grid>
+
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingId ? 'Edit Pond' : 'Add Pond'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} sm={6}>
+              <FormField label="Pond Name" value={formData.name} onChange={handleChange('name')} required />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Shape"
+                type="select"
+                value={formData.shape}
+                onChange={(value) => setFormData((prev) => ({ ...prev, shape: value as PondShape }))}
+                options={pondShapeOptions}
+              />
+            </Grid>
+            {formData.shape === 'rectangular' && (
+              <>
+                <Grid item xs={6}>
+                  <FormField label="Length" unit="m" type="number" value={formData.length} onChange={handleChange('length')} />
+                </Grid>
+                <Grid item xs={6}>
+                  <FormField label="Width" unit="m" type="number" value={formData.width} onChange={handleChange('width')} />
+                </Grid>
+              </>
+            )}
+            {formData.shape === 'circular' && (
+              <Grid item xs={12}>
+                <FormField label="Diameter" unit="m" type="number" value={formData.diameter} onChange={handleChange('diameter')} />
+              </Grid>
+            )}
+            {formData.shape === 'irregular' && (
+              <Grid item xs={12}>
+                <FormField label="Surface Area" unit="m²" type="number" value={formData.area} onChange={handleChange('area')} />
+              </Grid>
+            )}
+            <Grid item xs={6}>
+              <FormField label="Average Depth" unit="m" type="number" value={formData.depth} onChange={handleChange('depth')} />
+            </Grid>
+            <Grid item xs={6}>
+              <FormField
+                label="Bank Slope Ratio"
+                type="number"
+                value={formData.slopeRatio}
+                onChange={handleChange('slopeRatio')}
+                helperText="Horizontal run per 1 m of depth"
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Soil Type"
+                type="select"
+                value={formData.soilType}
+                onChange={handleChange('soilType')}
+                options={soilTypeOptions}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Water Source"
+                type="select"
+                value={formData.waterSource}
+                onChange={handleChange('waterSource')}
+                options={waterSourceOptions}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormField
+                label="Liner"
+                type="select"
+                value={formData.liner}
+                onChange={handleChange('liner')}
+                options={linerOptions}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <FormField label="Notes" value={formData.notes} onChange={handleChange('notes')} />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={!formData.name}>
+            {editingId ? 'Save Changes' : 'Add Pond'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* SEO-optimized Blog Content */}
+      <Paper elevation={3} sx={{ p: 3, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          🗺️ Pond Registry: Keeping Pond Records in One Place
+        </Typography>
+        <Typography variant="body1" paragraph>
+          Every pond calculation starts from the same few facts: size, depth, soil, water source and lining. Recording them once keeps every calculator consistent and builds a history of results for each pond. 🐟
+        </Typography>
+
+        <Typography variant="h5" gutterBottom sx={{ mt: 3 }}>
+          📏 Measuring Your Ponds
+        </Typography>
+        <Typography variant="body1" component="div">
+          <ul>
+            <li><strong>Rectangular:</strong> Length and width at the water line</li>
+            <li><strong>Circular:</strong> Diameter at the water line</li>
+            <li><strong>Irregular:</strong> Surface area from a survey or map</li>
+            <li><strong>Depth:</strong> Average of several soundings</li>
+          </ul>
+        </Typography>
+
+        <Typography variant="body2" sx={{ mt: 4, color: 'text.secondary' }}>
+          Last Updated: January 2025 | Written by Aquaculture Pond Management Specialists
+        </Typography>
+      </Paper>
+    </Container>
+  );
+}
@@ -24,6 +24,13 @@ import {
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import PondPicker from '../components/PondPicker';
+import type { Pond } from '../types/records';
+import { getPondArea, savePondResult } from '../utils/ponds';
+import { calculateSedimentAnalysis, sedimentTypes } from '../engine';
+import type { SedimentResult } from '../engine';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface SedimentData {
   pondArea: number;
@@ -38,36 +45,6 @@ interface SedimentData {
   waterExchangeRate: number;
 }
 
-interface SedimentAnalysis {
-  totalVolume: number;
-  removalRequired: boolean;
-  disposalMethod: string;
-  estimatedCost: number;
-  nutrientContent: {
-    nitrogen: number;
-    phosphorus: number;
-    organicMatter: number;
-  };
-  recommendations: string[];
-  managementPlan: string[];
-  preventiveMeasures: string[];
-  timeline: string;
-}
-
-const sedimentTypes = {
-  sandy: { density: 1500, nutrientRetention: 0.6, description: 'Sandy sediment with low nutrient content' },
-  loamy: { density: 1300, nutrientRetention: 0.8, description: 'Loamy sediment with moderate nutrient content' },
-  clayey: { density: 1200, nutrientRetention: 0.9, description: 'Clay-rich sediment with high nutrient retention' },
-  organic: { density: 1100, nutrientRetention: 1.0, description: 'Highly organic sediment' },
-};
-
-const disposalMethods = {
-  agricultural: { cost: 10, description: 'Use as agricultural fertilizer' },
-  landfill: { cost: 30, description: 'Disposal at landfill' },
-  composting: { cost: 20, description: 'Composting and soil amendment' },
-  landReclamation: { cost: 15, description: 'Use in land reclamation projects' },
-};
-
 const initialFormData: SedimentData = {
   pondArea: 0,
   pondDepth: 0,
@@ -82,9 +59,23 @@ const initialFormData: SedimentData = {
 };
 
 const PondSedimentManager: React.FC = () => {
+  const { settings, formatMoney } = useCurrency();
+  const { format } = useUnits();
   const [formData, setFormData] = useState<SedimentData>(initialFormData);
-  const [analysis, setAnalysis] = useState<SedimentAnalysis | null>(null);
+  const [analysis, setAnalysis] = useState<SedimentResult | null>(null);
   const [historicalData, setHistoricalData] = useState<Array<{ date: string; depth: number }>>([]);
+  const [pondId, setPondId] = useState('');
+
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    if (!pond) return;
+    setFormData(prev => ({
+      ...prev,
+      pondArea: Math.round(getPondArea(pond) * 100) / 100,
+      pondDepth: pond.depth,
+      sedimentType: pond.soilType in sedimentTypes ? pond.soilType : prev.sedimentType,
+    }));
+  };
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
@@ -102,106 +93,22 @@ const PondSedimentManager: React.FC = () => {
     }));
   };
 
-  const calculateSedimentAnalysis = () => {
-    const {
-      pondArea,
-      pondDepth,
-      sedimentDepth,
-      sedimentType,
-      organicContent,
-      pondAge,
-      lastCleaned,
-      feedingRate,
-      stockingDensity,
-      waterExchangeRate,
-    } = formData;
-
-    // Calculate total sediment volume
-    const totalVolume = pondArea * sedimentDepth;
-
-    // Determine if removal is required based on multiple factors
-    const depthRatio = sedimentDepth / pondDepth;
-    const timeFactor = lastCleaned > 2;
-    const organicFactor = organicContent > 30;
-    const removalRequired = depthRatio > 0.2 || timeFactor || organicFactor;
-
-    // Select disposal method based on sediment characteristics
-    let disposalMethod = 'agricultural';
-    if (organicContent > 40) {
-      disposalMethod = 'composting';
-    } else if (organicContent < 10) {
-      disposalMethod = 'landReclamation';
-    }
-
-    // Calculate nutrient content
-    const sedimentInfo = sedimentTypes[sedimentType as keyof typeof sedimentTypes];
-    const nutrientContent = {
-      nitrogen: totalVolume * sedimentInfo.nutrientRetention * (organicContent / 100) * 0.05,
-      phosphorus: totalVolume * sedimentInfo.nutrientRetention * (organicContent / 100) * 0.02,
-      organicMatter: totalVolume * sedimentInfo.nutrientRetention * (organicContent / 100),
-    };
-
-    // Calculate estimated cost
-    const removalCost = totalVolume * 5; // Base removal cost
-    const disposalCost = totalVolume * disposalMethods[disposalMethod as keyof typeof disposalMethods].cost;
-    const totalCost = removalCost + disposalCost;
-
-    // Generate recommendations
-    const recommendations = [];
-    if (depthRatio > 0.2) {
-      recommendations.push('Immediate sediment removal recommended due to high accumulation');
-    }
-    if (organicContent > 30) {
-      recommendations.push('High organic content indicates need for improved feeding management');
-    }
-    if (waterExchangeRate < 10) {
-      recommendations.push('Increase water exchange rate to reduce sediment accumulation');
-    }
+  const handleCalculate = () => {
+    const result = calculateSedimentAnalysis({ ...formData, usdRate: settings.usdRate });
 
-    // Generate management plan
-    const managementPlan = [
-      'Regular monitoring of sediment depth',
-      'Optimize feeding practices to reduce waste',
-      'Maintain proper water exchange',
-      'Schedule periodic sediment removal',
-      'Monitor water quality parameters',
-    ];
-
-    // Generate preventive measures
-    const preventiveMeasures = [
-      'Implement proper feeding management',
-      'Maintain optimal stocking density',
-      'Regular water quality monitoring',
-      'Use high-quality feeds',
-      'Install sediment traps',
-    ];
-
-    // Determine timeline
-    let timeline = 'Annual removal recommended';
-    if (depthRatio > 0.3) {
-      timeline = 'Immediate removal required';
-    } else if (depthRatio < 0.1) {
-      timeline = 'Monitor and reassess in 6 months';
+    setHistoricalData(prev => [
+      ...prev,
+      { date: new Date().toISOString().split('T')[0], depth: formData.sedimentDepth },
+    ]);
+    setAnalysis(result);
+
+    if (pondId) {
+      const { totalVolume, timeline, removalRequired, estimatedCost } = result;
+      savePondResult(pondId, 'sediment', {
+        summary: `${totalVolume.toFixed(1)} m³ of sediment; ${timeline.toLowerCase()}`,
+        values: { totalVolume, sedimentDepth: formData.sedimentDepth, removalRequired: removalRequired ? 'yes' : 'no', estimatedCost },
+      });
     }
-
-    // Add to historical data
-    const newDataPoint = {
-      date: new Date().toISOString().split('T')[0],
-      depth: sedimentDepth,
-    };
-    setHistoricalData(prev => [...prev, newDataPoint]);
-
-    setAnalysis({
-      totalVolume,
-      removalRequired,
-      disposalMethod,
-      estimatedCost: totalCost,
-      nutrientContent,
-      recommendations,
-      managementPlan,
-      preventiveMeasures,
-      timeline,
-    });
   };
 
   return (
@@ -222,6 +129,9 @@ const PondSedimentManager: React.FC = () => {
                   Pond Parameters
                 </Typography>
                 <Grid container spacing={2}>
+                  <Grid item xs={12}>
+                    <PondPicker value={pondId} onChange={handlePondSelect} />
+                  </Grid>
                   <Grid item xs={12} sm={6}>
                     <TextField
                       fullWidth
@@ -332,7 +242,7 @@ const PondSedimentManager: React.FC = () => {
                 </Grid>
                 <Button
                   variant="contained"
-                  onClick={calculateSedimentAnalysis}
+                  onClick={handleCalculate}
                   disabled={!formData.pondArea || !formData.pondDepth || !formData.sedimentDepth || !formData.sedimentType}
                   sx={{ mt: 2 }}
                 >
@@ -354,7 +264,7 @@ const PondSedimentManager: React.FC = () => {
                       <TableBody>
                         <TableRow>
                           <TableCell>Total Sediment Volume</TableCell>
-                          <TableCell>{analysis.totalVolume.toFixed(2)} m³</TableCell>
+                          <TableCell>{format(analysis.totalVolume, 'm³')}</TableCell>
                         </TableRow>
                         <TableRow>
                           <TableCell>Removal Required</TableCell>
@@ -366,7 +276,7 @@ const PondSedimentManager: React.FC = () => {
                         </TableRow>
                         <TableRow>
                           <TableCell>Estimated Cost</TableCell>
-                          <TableCell>${analysis.estimatedCost.toFixed(2)}</TableCell>
+                          <TableCell>{formatMoney(analysis.estimatedCost)}</TableCell>
                         </TableRow>
                       </TableBody>
                     </Table>
@@ -380,15 +290,15 @@ const PondSedimentManager: React.FC = () => {
                       <TableBody>
                         <TableRow>
                           <TableCell>Nitrogen</TableCell>
-                          <TableCell>{analysis.nutrientContent.nitrogen.toFixed(2)} kg</TableCell>
+                          <TableCell>{format(analysis.nutrientContent.nitrogen, 'kg')}</TableCell>
                         </TableRow>
                         <TableRow>
                           <TableCell>Phosphorus</TableCell>
-                          <TableCell>{analysis.nutrientContent.phosphorus.toFixed(2)} kg</TableCell>
+                          <TableCell>{format(analysis.nutrientContent.phosphorus, 'kg')}</TableCell>
                         </TableRow>
                         <TableRow>
                           <TableCell>Organic Matter</TableCell>
-                          <TableCell>{analysis.nutrientContent.organicMatter.toFixed(2)} kg</TableCell>
+                          <TableCell>{format(analysis.nutrientContent.organicMatter, 'kg')}</TableCell>
                         </TableRow>
                       </TableBody>
                     </Table>
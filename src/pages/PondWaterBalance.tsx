@@ -0,0 +1,486 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  Alert,
+  Box,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCollection } from '../db';
+import { calculateWaterBalance, runoffCoefficients, seepageFor } from '../engine';
+import type { WaterBalanceResult } from '../engine';
+import { findSpecies, useSpeciesCatalog } from '../species';
+import type { Pond } from '../types/records';
+import { unitForSystem } from '../units';
+import { isActiveBatch, today } from '../utils/batches';
+import { catchmentOptions, getPondArea, savePondResult, toFieldValue } from '../utils/ponds';
+
+interface BalanceForm {
+  area: string;
+  depth: string;
+  fullDepth: string;
+  minDepth: string;
+  refillDepth: string;
+  evaporation: string;
+  seepage: string;
+  rainfall: string;
+  catchmentArea: string;
+  catchment: string;
+  exchange: string;
+  pumping: string;
+  days: string;
+  startDate: string;
+  fillAtStart: boolean;
+}
+
+const initialForm: BalanceForm = {
+  area: '',
+  depth: '',
+  fullDepth: '',
+  minDepth: '',
+  refillDepth: '',
+  evaporation: '',
+  seepage: String(seepageFor('loamy', 'none')),
+  rainfall: '0',
+  catchmentArea: '0',
+  catchment: 'grass',
+  exchange: '0',
+  pumping: '0',
+  days: '120',
+  startDate: today(),
+  fillAtStart: false,
+};
+
+const DAY_MS = 86400000;
+
+export default function PondWaterBalance() {
+  const { t } = useLanguage();
+  const { format, system, toDisplay } = useUnits();
+  const { catalog } = useSpeciesCatalog();
+  const [batches] = useCollection('batches');
+  const [pondId, setPondId] = useState('');
+  const [form, setForm] = useState<BalanceForm>(initialForm);
+  const [result, setResult] = useState<WaterBalanceResult | null>(null);
+
+  const depthUnit = unitForSystem('m', system);
+
+  const update = (field: Exclude<keyof BalanceForm, 'fillAtStart'>) => (value: string | number | string[]) =>
+    setForm((prev) => ({ ...prev, [field]: String(value) }));
+
+  const dateOfDay = (day: number) =>
+    new Date(new Date(form.startDate).getTime() + (day - 1) * DAY_MS).toLocaleDateString();
+
+  // Fills size, seepage from the soil and liner, the saved evaporation estimate and the
+  // stocked species' minimum depth.
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setResult(null);
+    if (!pond) return;
+    const area = getPondArea(pond);
+    const evaporation = pond.results.evaporation?.values.dailyEvaporation;
+    const stocked = batches.find((batch) => batch.pondId === pond.id && isActiveBatch(batch));
+    const species = findSpecies(catalog, stocked?.speciesId ?? '');
+    setForm((prev) => ({
+      ...prev,
+      area: toFieldValue(area),
+      depth: toFieldValue(pond.depth),
+      fullDepth: toFieldValue(pond.depth),
+      seepage: String(seepageFor(pond.soilType, pond.liner)),
+      evaporation: evaporation !== undefined && area > 0 ? toFieldValue((Number(evaporation) / area) * 1000) : prev.evaporation,
+      minDepth: species ? toFieldValue(Math.min(species.production.minDepth, pond.depth)) : prev.minDepth,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const days = Math.max(1, Math.round(parseFloat(form.days) || 0));
+    const balance = calculateWaterBalance({
+      area: parseFloat(form.area),
+      depth: parseFloat(form.depth) || 0,
+      fullDepth: parseFloat(form.fullDepth),
+      minDepth: parseFloat(form.minDepth) || 0,
+      refillDepth: parseFloat(form.refillDepth) || 0,
+      evaporation: parseFloat(form.evaporation) || 0,
+      seepage: parseFloat(form.seepage) || 0,
+      rainfall: parseFloat(form.rainfall) || 0,
+      catchmentArea: parseFloat(form.catchmentArea) || 0,
+      runoffCoefficient: runoffCoefficients[form.catchment] ?? 0,
+      exchange: parseFloat(form.exchange) || 0,
+      pumping: parseFloat(form.pumping) || 0,
+      days,
+      fillAtStart: form.fillAtStart,
+    });
+    setResult(balance);
+
+    if (pondId) {
+      const level = balance.daysToMinimum !== null ? `minimum depth in ${balance.daysToMinimum} days` : 'level holds';
+      savePondResult(pondId, 'waterBalance', {
+        summary: `${balance.demand.total.toFixed(0)} m³ over ${days} days, ${balance.refills.length} refills, ${level}`,
+        values: {
+          totalDemand: balance.demand.total,
+          refills: balance.refills.length,
+          netDepthChange: balance.netDepthChange,
+          daysToMinimum: balance.daysToMinimum ?? 'none',
+        },
+      });
+    }
+  };
+
+  const renderLevelWarning = (balance: WaterBalanceResult) => {
+    const days = balance.daily.length;
+    if (balance.daysToMinimum === null) {
+      return (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          {t('Inflows match or exceed losses; the level holds without refills.')}
+        </Alert>
+      );
+    }
+    if (balance.daysToMinimum === 0) {
+      return (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {t('The pond already starts below the minimum depth.')}
+        </Alert>
+      );
+    }
+    return (
+      <Alert severity={balance.daysToMinimum <= days ? 'warning' : 'info'} sx={{ mb: 3 }}>
+        {t('{days} days until minimum depth: without refills the level falls {rate} mm/day and drops below {depth} on {date}.', {
+          days: balance.daysToMinimum,
+          rate: (-balance.netDepthChange).toFixed(1),
+          depth: format(parseFloat(form.minDepth) || 0, 'm'),
+          date: dateOfDay(balance.daysToMinimum),
+        })}
+      </Alert>
+    );
+  };
+
+  const flowRows = (balance: WaterBalanceResult): [string, number][] => [
+    ['Rain on the pond', balance.flows.rainfall],
+    ['Catchment runoff', balance.flows.runoff],
+    ['Pumped inflow', balance.flows.pumping],
+    ['Evaporation', -balance.flows.evaporation],
+    ['Seepage', -balance.flows.seepage],
+  ];
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        {t('Pond Water Balance')}
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        {t('Day-by-day water budget of a pond: rain and runoff in, evaporation and seepage out, with planned exchange, pumping and refills. Shows how the level moves, when to refill and how much water a cycle needs.')}
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={5}>
+          <Paper sx={{ p: 3 }}>
+            <form onSubmit={handleSubmit}>
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <PondPicker value={pondId} onChange={handlePondSelect} />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Water Surface Area" type="number" unit="m²" value={form.area} onChange={update('area')} required />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Current Depth" type="number" unit="m" value={form.depth} onChange={update('depth')} required />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Full Depth"
+                    type="number"
+                    unit="m"
+                    value={form.fullDepth}
+                    onChange={update('fullDepth')}
+                    helperText="Spill level, and the level refills go back to"
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Minimum Depth"
+                    type="number"
+                    unit="m"
+                    value={form.minDepth}
+                    onChange={update('minDepth')}
+                    helperText="Filled from the stocked species"
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Refill At Depth"
+                    type="number"
+                    unit="m"
+                    value={form.refillDepth}
+                    onChange={update('refillDepth')}
+                    helperText="Leave empty to plan no refills"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Evaporation"
+                    type="number"
+                    unit="mm/day"
+                    value={form.evaporation}
+                    onChange={update('evaporation')}
+                    helperText="Filled from the pond's Pond Evaporation result"
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Seepage"
+                    type="number"
+                    unit="mm/day"
+                    value={form.seepage}
+                    onChange={update('seepage')}
+                    helperText="Estimated from the pond's soil and liner"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Rainfall"
+                    type="number"
+                    unit="mm/day"
+                    value={form.rainfall}
+                    onChange={update('rainfall')}
+                    helperText="Average over the cycle"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Catchment Area"
+                    type="number"
+                    unit="m²"
+                    value={form.catchmentArea}
+                    onChange={update('catchmentArea')}
+                    helperText="Land draining into the pond"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Catchment Surface"
+                    type="select"
+                    value={form.catchment}
+                    onChange={update('catchment')}
+                    options={catchmentOptions}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Water Exchange (% per day)"
+                    type="number"
+                    value={form.exchange}
+                    onChange={update('exchange')}
+                    helperText="Drained and replaced, so the level stays"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Pumped Inflow (m³/day)"
+                    type="number"
+                    value={form.pumping}
+                    onChange={update('pumping')}
+                    helperText="Continuous topping up"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Cycle Length (days)" type="number" value={form.days} onChange={update('days')} required />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Start Date" type="date" value={form.startDate} onChange={update('startDate')} />
+                </Grid>
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={form.fillAtStart}
+                        onChange={(event) => setForm((prev) => ({ ...prev, fillAtStart: event.target.checked }))}
+                      />
+                    }
+                    label={t('Fill the pond to full depth at the start')}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <Button type="submit" variant="contained" size="large" fullWidth>
+                    {t('Calculate Water Balance')}
+                  </Button>
+                </Grid>
+              </Grid>
+            </form>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          {result ? (
+            <Paper sx={{ p: 3 }}>
+              {renderLevelWarning(result)}
+
+              <Box sx={{ height: 300, mb: 3 }}>
+                <ResponsiveContainer>
+                  <LineChart
+                    data={result.daily.map((day) => ({
+                      day: day.day,
+                      depth: toDisplay(day.depth, 'm'),
+                      unrefilled: toDisplay(day.unrefilledDepth, 'm'),
+                    }))}
+                    margin={{ top: 5, right: 20, bottom: 5, left: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="day" />
+                    <YAxis domain={[0, 'auto']} tickFormatter={(value: number) => value.toFixed(2)} />
+                    <ReferenceLine y={toDisplay(parseFloat(form.minDepth) || 0, 'm')} stroke="#f44336" strokeDasharray="4 4" />
+                    <ChartTooltip
+                      labelFormatter={(day) => t('Day {day}', { day: Number(day) })}
+                      formatter={(value: number) => `${value.toFixed(2)} ${depthUnit}`}
+                    />
+                    <Legend />
+                    {result.refills.length > 0 && (
+                      <Line dataKey="depth" name={t('With refills')} stroke="#1976d2" dot={false} isAnimationActive={false} />
+                    )}
+                    <Line dataKey="unrefilled" name={t('Without refills')} stroke="#ff9800" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </Box>
+
+              <Typography variant="h6" gutterBottom>
+                {t('Daily Flows')}
+              </Typography>
+              <TableContainer sx={{ mb: 3 }}>
+                <Table size="small">
+                  <TableBody>
+                    {flowRows(result).map(([label, volume]) => (
+                      <TableRow key={label}>
+                        <TableCell>{t(label)}</TableCell>
+                        <TableCell align="right">{format(volume, 'm³')}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell>
+                        <strong>{t('Net change')}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>
+                          {format(result.flows.net, 'm³')} ({format(result.netDepthChange, 'mm/day', 1)})
+                        </strong>
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Exchange (drained and replaced)')}</TableCell>
+                      <TableCell align="right">{format(result.flows.exchange, 'm³')}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+
+              <Typography variant="h6" gutterBottom>
+                {t('Refill Schedule')}
+              </Typography>
+              {result.refills.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  {t('No refills needed in this cycle.')}
+                </Typography>
+              ) : (
+                <TableContainer sx={{ mb: 3, maxHeight: 240 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{t('Day')}</TableCell>
+                        <TableCell>{t('Date')}</TableCell>
+                        <TableCell align="right">{t('Volume')}</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {result.refills.map((refill) => (
+                        <TableRow key={refill.day}>
+                          <TableCell>{refill.day}</TableCell>
+                          <TableCell>{dateOfDay(refill.day)}</TableCell>
+                          <TableCell align="right">{format(refill.volume, 'm³', 0)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+
+              <Typography variant="h6" gutterBottom>
+                {t('Water Demand per Cycle')}
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>{t('Initial fill')}</TableCell>
+                      <TableCell align="right">{format(result.demand.initialFill, 'm³', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Refills')}</TableCell>
+                      <TableCell align="right">{format(result.demand.refills, 'm³', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>
+                        {t('Water exchange')}
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {t('Drained and refilled the same day, so it uses water but does not lower the level')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{format(result.demand.exchange, 'm³', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Pumped inflow')}</TableCell>
+                      <TableCell align="right">{format(result.demand.pumping, 'm³', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>
+                        <strong>{t('Total demand')}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{format(result.demand.total, 'm³', 0)}</strong>
+                      </TableCell>
+                    </TableRow>
+                    {result.spilled > 0 && (
+                      <TableRow>
+                        <TableCell>{t('Spilled over the outlet')}</TableCell>
+                        <TableCell align="right">{format(result.spilled, 'm³', 0)}</TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+          ) : (
+            <Alert severity="info">
+              {t('Enter the pond and its water flows to project the level over the cycle.')}
+            </Alert>
+          )}
+        </Grid>
+      </Grid>
+    </Container>
+  );
+}
@@ -28,16 +28,8 @@ import {
 } from '@mui/icons-material';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import { LocalizationProvider, DatePicker } from '@mui/x-date-pickers';
-
-interface Task {
-  id: string;
-  title: string;
-  date: Date;
-  type: string;
-  description: string;
-  priority: 'Low' | 'Medium' | 'High';
-  status: 'Pending' | 'Completed';
-}
+import { useCollection } from '../db';
+import type { Task } from '../types/records';
 
 interface TaskFormData {
   title: string;
@@ -68,7 +60,7 @@ const initialFormData: TaskFormData = {
 };
 
 const ProductionCalendar: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasks, setTasks] = useCollection('calendarTasks');
   const [openDialog, setOpenDialog] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [formData, setFormData] = useState<TaskFormData>({
@@ -43,6 +43,9 @@ import {
   Legend as RechartsLegend,
 } from 'recharts';
 import FormField from '../components/FormField';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { calculateFinancials } from '../engine';
+import type { FinancialResult } from '../engine';
 
 interface FinancialData {
   // Capital Costs
@@ -69,35 +72,6 @@ interface FinancialData {
   interestRate: string;
 }
 
-interface FinancialAnalysis {
-  capitalCosts: {
-    total: number;
-    breakdown: { name: string; value: number }[];
-  };
-  operatingCosts: {
-    total: number;
-    breakdown: { name: string; value: number }[];
-  };
-  revenue: {
-    annual: number;
-    perCycle: number;
-  };
-  profitability: {
-  grossProfit: number;
-  netProfit: number;
-    roi: number;
-  paybackPeriod: number;
-  breakEvenPoint: number;
-  };
-  cashFlow: {
-    month: string;
-    income: number;
-    expenses: number;
-    balance: number;
-  }[];
-  recommendations: string[];
-}
-
 const initialFormData: FinancialData = {
   pondConstruction: '',
   equipment: '',
@@ -121,121 +95,41 @@ const initialFormData: FinancialData = {
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 export default function ProfitabilityCalculator() {
+  const { symbol, formatMoney } = useCurrency();
   const [formData, setFormData] = useState<FinancialData>(initialFormData);
-  const [analysis, setAnalysis] = useState<FinancialAnalysis | null>(null);
+  const [analysis, setAnalysis] = useState<FinancialResult | null>(null);
   const [showResults, setShowResults] = useState(false);
 
   const handleChange = (field: keyof FinancialData) => (value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateFinancials = () => {
-    // Parse input values
-    const capitalCosts = {
-      pondConstruction: parseFloat(formData.pondConstruction),
-      equipment: parseFloat(formData.equipment),
-      infrastructure: parseFloat(formData.infrastructure),
-      permits: parseFloat(formData.permits),
-    };
-
-    const operatingCosts = {
-      seedStock: parseFloat(formData.seedStock),
-      feed: parseFloat(formData.feed),
-      labor: parseFloat(formData.labor),
-      electricity: parseFloat(formData.electricity),
-      maintenance: parseFloat(formData.maintenance),
-      chemicals: parseFloat(formData.chemicals),
-      marketing: parseFloat(formData.marketing),
-    };
-
-    // Calculate total costs
-    const totalCapitalCosts = Object.values(capitalCosts).reduce((a, b) => a + b, 0);
-    const totalOperatingCosts = Object.values(operatingCosts).reduce((a, b) => a + b, 0);
-
-    // Calculate revenue
-    const cyclesPerYear = parseFloat(formData.cyclesPerYear);
-    const productionPerCycle = parseFloat(formData.productionPerCycle);
-    const survivalRate = parseFloat(formData.survivalRate) / 100;
-    const sellingPrice = parseFloat(formData.sellingPrice);
-
-    const revenuePerCycle = productionPerCycle * survivalRate * sellingPrice;
-    const annualRevenue = revenuePerCycle * cyclesPerYear;
-
-    // Calculate loan payments if applicable
-    const loanAmount = parseFloat(formData.loanAmount) || 0;
-    const interestRate = (parseFloat(formData.interestRate) || 0) / 100;
-    const annualLoanPayment = loanAmount > 0 
-      ? (loanAmount * interestRate * Math.pow(1 + interestRate, 5)) / (Math.pow(1 + interestRate, 5) - 1)
-      : 0;
-
-    // Calculate profitability metrics
-    const annualOperatingCosts = totalOperatingCosts * cyclesPerYear;
-    const grossProfit = annualRevenue - annualOperatingCosts;
-    const netProfit = grossProfit - annualLoanPayment;
-    const totalInvestment = totalCapitalCosts + loanAmount;
-    const roi = (netProfit / totalInvestment) * 100;
-    const paybackPeriod = totalInvestment / netProfit;
-    const breakEvenPoint = totalOperatingCosts / (sellingPrice - (totalOperatingCosts / productionPerCycle));
-
-    // Generate cash flow projection
-    const cashFlow = Array.from({ length: 12 }, (_, i) => {
-      const month = new Date(2024, i).toLocaleString('default', { month: 'short' });
-      const cycleIncome = (annualRevenue / cyclesPerYear) * (i % (12 / cyclesPerYear) === 0 ? 1 : 0);
-      const cycleExpenses = (annualOperatingCosts / cyclesPerYear) * (i % (12 / cyclesPerYear) === 0 ? 1 : 0);
-      return {
-        month,
-        income: cycleIncome,
-        expenses: cycleExpenses + (annualLoanPayment / 12),
-        balance: cycleIncome - (cycleExpenses + (annualLoanPayment / 12)),
-      };
-    });
-
-    // Generate recommendations
-    const recommendations = [];
-    if (roi < 15) {
-      recommendations.push('Consider ways to reduce operating costs');
-      recommendations.push('Explore higher-value markets or products');
-    }
-    if (paybackPeriod > 3) {
-      recommendations.push('Look for opportunities to increase production efficiency');
-      recommendations.push('Evaluate financing options to reduce debt burden');
-    }
-    if (operatingCosts.feed / totalOperatingCosts > 0.5) {
-      recommendations.push('Optimize feed management to reduce costs');
-      recommendations.push('Consider alternative feed sources');
-    }
-
-    const analysis: FinancialAnalysis = {
+  const handleCalculate = () => {
+    const result = calculateFinancials({
       capitalCosts: {
-        total: totalCapitalCosts,
-        breakdown: Object.entries(capitalCosts).map(([name, value]) => ({
-          name: name.replace(/([A-Z])/g, ' $1').trim(),
-          value,
-        })),
+        pondConstruction: parseFloat(formData.pondConstruction),
+        equipment: parseFloat(formData.equipment),
+        infrastructure: parseFloat(formData.infrastructure),
+        permits: parseFloat(formData.permits),
       },
       operatingCosts: {
-        total: totalOperatingCosts,
-        breakdown: Object.entries(operatingCosts).map(([name, value]) => ({
-          name: name.replace(/([A-Z])/g, ' $1').trim(),
-          value,
-        })),
-      },
-      revenue: {
-        annual: annualRevenue,
-        perCycle: revenuePerCycle,
+        seedStock: parseFloat(formData.seedStock),
+        feed: parseFloat(formData.feed),
+        labor: parseFloat(formData.labor),
+        electricity: parseFloat(formData.electricity),
+        maintenance: parseFloat(formData.maintenance),
+        chemicals: parseFloat(formData.chemicals),
+        marketing: parseFloat(formData.marketing),
       },
-      profitability: {
-        grossProfit,
-        netProfit,
-        roi,
-        paybackPeriod,
-        breakEvenPoint,
-      },
-      cashFlow,
-      recommendations,
-    };
+      cyclesPerYear: parseFloat(formData.cyclesPerYear),
+      productionPerCycle: parseFloat(formData.productionPerCycle),
+      survivalRate: parseFloat(formData.survivalRate),
+      sellingPrice: parseFloat(formData.sellingPrice),
+      loanAmount: parseFloat(formData.loanAmount) || 0,
+      interestRate: parseFloat(formData.interestRate) || 0,
+    });
 
-    setAnalysis(analysis);
+    setAnalysis(result);
     setShowResults(true);
   };
 
@@ -256,7 +150,7 @@ export default function ProfitabilityCalculator() {
           <Grid container spacing={3}>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Pond Construction ($)"
+                label={`Pond Construction (${symbol})`}
                 value={formData.pondConstruction}
                 onChange={handleChange('pondConstruction')}
                 type="number"
@@ -265,7 +159,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Equipment ($)"
+                label={`Equipment (${symbol})`}
                 value={formData.equipment}
                 onChange={handleChange('equipment')}
                 type="number"
@@ -274,7 +168,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Infrastructure ($)"
+                label={`Infrastructure (${symbol})`}
                 value={formData.infrastructure}
                 onChange={handleChange('infrastructure')}
                 type="number"
@@ -283,7 +177,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Permits & Licenses ($)"
+                label={`Permits & Licenses (${symbol})`}
                 value={formData.permits}
                 onChange={handleChange('permits')}
                 type="number"
@@ -300,7 +194,7 @@ export default function ProfitabilityCalculator() {
           <Grid container spacing={3}>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Seed Stock ($)"
+                label={`Seed Stock (${symbol})`}
                 value={formData.seedStock}
                 onChange={handleChange('seedStock')}
                 type="number"
@@ -309,7 +203,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Feed ($)"
+                label={`Feed (${symbol})`}
                 value={formData.feed}
                 onChange={handleChange('feed')}
                 type="number"
@@ -318,7 +212,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Labor ($)"
+                label={`Labor (${symbol})`}
                 value={formData.labor}
                 onChange={handleChange('labor')}
                 type="number"
@@ -327,7 +221,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Electricity ($)"
+                label={`Electricity (${symbol})`}
                 value={formData.electricity}
                 onChange={handleChange('electricity')}
                 type="number"
@@ -336,7 +230,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Maintenance ($)"
+                label={`Maintenance (${symbol})`}
                 value={formData.maintenance}
                 onChange={handleChange('maintenance')}
                 type="number"
@@ -345,7 +239,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Chemicals ($)"
+                label={`Chemicals (${symbol})`}
                 value={formData.chemicals}
                 onChange={handleChange('chemicals')}
                 type="number"
@@ -354,7 +248,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Marketing ($)"
+                label={`Marketing (${symbol})`}
                 value={formData.marketing}
                 onChange={handleChange('marketing')}
                 type="number"
@@ -380,7 +274,8 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Production per Cycle (kg)"
+                label="Production per Cycle"
+                unit="kg"
                 value={formData.productionPerCycle}
                 onChange={handleChange('productionPerCycle')}
                 type="number"
@@ -398,7 +293,7 @@ export default function ProfitabilityCalculator() {
             </Grid>
             <Grid item xs={12} sm={6} md={3}>
               <FormField
-                label="Selling Price ($/kg)"
+                label={`Selling Price (${symbol}/kg)`}
                 value={formData.sellingPrice}
                 onChange={handleChange('sellingPrice')}
                 type="number"
@@ -415,7 +310,7 @@ export default function ProfitabilityCalculator() {
           <Grid container spacing={3}>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Loan Amount ($)"
+                label={`Loan Amount (${symbol})`}
                 value={formData.loanAmount}
                 onChange={handleChange('loanAmount')}
                 type="number"
@@ -435,7 +330,7 @@ export default function ProfitabilityCalculator() {
         <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
             <Button
               variant="contained"
-            onClick={calculateFinancials}
+            onClick={handleCalculate}
             disabled={Object.values(formData).some((v) => !v)}
             >
               Calculate Profitability
@@ -624,7 +519,7 @@ export default function ProfitabilityCalculator() {
                           <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                         ))}
                       </Pie>
-                      <RechartsTooltip />
+                      <RechartsTooltip formatter={(value: number) => formatMoney(value)} />
                     </PieChart>
                   </ResponsiveContainer>
                 </Box>
@@ -644,7 +539,7 @@ export default function ProfitabilityCalculator() {
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="month" />
                       <YAxis />
-                      <RechartsTooltip />
+                      <RechartsTooltip formatter={(value: number) => formatMoney(value)} />
                       <RechartsLegend />
                       <Line
                         type="monotone"
@@ -683,31 +578,31 @@ export default function ProfitabilityCalculator() {
                       <TableRow>
                         <TableCell>Total Capital Costs</TableCell>
                         <TableCell align="right">
-                          ${analysis.capitalCosts.total.toLocaleString()}
+                          {formatMoney(analysis.capitalCosts.total)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Operating Costs per Cycle</TableCell>
                         <TableCell align="right">
-                          ${analysis.operatingCosts.total.toLocaleString()}
+                          {formatMoney(analysis.operatingCosts.total)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Annual Revenue</TableCell>
                         <TableCell align="right">
-                          ${analysis.revenue.annual.toLocaleString()}
+                          {formatMoney(analysis.revenue.annual)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Gross Profit</TableCell>
                         <TableCell align="right">
-                          ${analysis.profitability.grossProfit.toLocaleString()}
+                          {formatMoney(analysis.profitability.grossProfit)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Net Profit</TableCell>
                         <TableCell align="right">
-                          ${analysis.profitability.netProfit.toLocaleString()}
+                          {formatMoney(analysis.profitability.netProfit)}
                         </TableCell>
                       </TableRow>
                     </TableBody>
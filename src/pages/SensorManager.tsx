@@ -0,0 +1,397 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Stack,
+  Switch,
+  FormControlLabel,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSensors } from '../contexts/SensorContext';
+import type { BrokerStatus, DeviceStatus } from '../contexts/SensorContext';
+import { deleteRecord, putRecord, useCollection } from '../db';
+import { waterQualityParameters } from '../engine';
+import { formatSensorValues, newSensorDevice, transportOptions } from '../sensors';
+import type { SensorDevice, SensorTransport, WaterQualityParameter } from '../types/records';
+
+// Parameters field probes usually measure; offsets for others are kept but not shown.
+const calibrationParameters: WaterQualityParameter[] = ['dissolvedOxygen', 'temperature', 'pH', 'salinity', 'turbidity'];
+
+const brokerColors: Record<BrokerStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  off: 'default',
+  connecting: 'info',
+  connected: 'success',
+  disconnected: 'warning',
+  error: 'error',
+};
+
+const statusColors: Record<DeviceStatus, 'default' | 'info' | 'success' | 'warning'> = {
+  off: 'default',
+  waiting: 'info',
+  live: 'success',
+  stale: 'warning',
+};
+
+const statusLabels: Record<DeviceStatus, string> = {
+  off: 'Off',
+  waiting: 'Waiting',
+  live: 'Live',
+  stale: 'Stale',
+};
+
+const brokerLabels: Record<BrokerStatus, string> = {
+  off: 'Off',
+  connecting: 'Connecting',
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  error: 'Error',
+};
+
+export default function SensorManager() {
+  const { t } = useLanguage();
+  const {
+    settings,
+    updateSettings,
+    password,
+    setPassword,
+    brokerStatus,
+    brokerError,
+    devices,
+    live,
+    deviceErrors,
+    deviceStatus,
+  } = useSensors();
+  const [ponds] = useCollection('ponds');
+  const [openDialog, setOpenDialog] = useState(false);
+  const [formData, setFormData] = useState<SensorDevice>(newSensorDevice());
+  const [calibration, setCalibration] = useState<Partial<Record<WaterQualityParameter, string>>>({});
+
+  const pondName = (pondId: string) => ponds.find((pond) => pond.id === pondId)?.name ?? t('No pond');
+
+  const handleOpenDialog = (device?: SensorDevice) => {
+    const next = device ?? newSensorDevice(ponds[0]?.id);
+    setFormData(next);
+    setCalibration(
+      Object.fromEntries(Object.entries(next.calibration).map(([parameter, offset]) => [parameter, String(offset)]))
+    );
+    setOpenDialog(true);
+  };
+
+  const handleChange = (field: keyof SensorDevice) => (value: string | number | string[]) => {
+    const numeric = field === 'pollSeconds' || field === 'staleMinutes';
+    setFormData((prev) => ({ ...prev, [field]: numeric ? Number(value) || 0 : value }));
+  };
+
+  const handleSave = async () => {
+    const offsets = Object.fromEntries(
+      Object.entries(calibration)
+        .map(([parameter, text]) => [parameter, parseFloat(text ?? '')])
+        .filter(([, offset]) => Number.isFinite(offset) && offset !== 0)
+    );
+    const device: SensorDevice = {
+      ...formData,
+      id: formData.id || Date.now().toString(),
+      name: formData.name.trim() || t('Sensor'),
+      calibration: { ...formData.calibration, ...offsets },
+    };
+    calibrationParameters.forEach((parameter) => {
+      if (!(parameter in offsets)) delete device.calibration[parameter];
+    });
+    try {
+      await putRecord('sensorDevices', device);
+      setOpenDialog(false);
+    } catch (error) {
+      console.error('Failed to save sensor device', error);
+    }
+  };
+
+  const handleToggle = (device: SensorDevice) => {
+    putRecord('sensorDevices', { ...device, enabled: !device.enabled }).catch((error) => {
+      console.error('Failed to save sensor device', error);
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    deleteRecord('sensorDevices', id).catch((error) => {
+      console.error('Failed to delete sensor device', error);
+    });
+  };
+
+  const source = (device: SensorDevice) => {
+    if (device.transport === 'http') return device.url;
+    if (device.transport === 'simulator') return device.topic ? t('Publishes to {topic}', { topic: device.topic }) : '';
+    return device.topic;
+  };
+
+  return (
+    <Container maxWidth="lg">
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h5" gutterBottom>
+          {t('Sensors')}
+        </Typography>
+        <Typography color="text.secondary" paragraph>
+          {t('Stream dissolved oxygen, temperature and pH from pond probes into the monitors and water-quality history.')}
+        </Typography>
+
+        <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+          <Typography variant="h6">{t('MQTT broker')}</Typography>
+          <Chip size="small" color={brokerColors[brokerStatus]} label={t(brokerLabels[brokerStatus])} />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.connect}
+                onChange={(event) => updateSettings({ connect: event.target.checked })}
+                disabled={!settings.brokerUrl}
+              />
+            }
+            label={t('Connect')}
+          />
+        </Stack>
+        {brokerError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {t(brokerError)}
+          </Alert>
+        )}
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={6}>
+            <FormField
+              label="Broker WebSocket URL"
+              value={settings.brokerUrl}
+              onChange={(value) => updateSettings({ brokerUrl: String(value).trim(), connect: false })}
+              helperText="e.g. wss://broker.example.com:8084/mqtt"
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <FormField
+              label="Client ID"
+              value={settings.clientId}
+              onChange={(value) => updateSettings({ clientId: String(value).trim(), connect: false })}
+              helperText="Leave blank for a random ID"
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormField
+              label="Username"
+              value={settings.username}
+              onChange={(value) => updateSettings({ username: String(value), connect: false })}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              type="password"
+              label={t('Password')}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              helperText={t('Kept on this device only, never in backups')}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormField
+              label="Save to history every (minutes)"
+              value={settings.recordMinutes}
+              onChange={(value) => updateSettings({ recordMinutes: Math.max(0, Number(value) || 0) })}
+              type="number"
+              helperText="0 shows live values without saving them. Simulated values are never saved"
+            />
+          </Grid>
+        </Grid>
+      </Paper>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6">{t('Devices')}</Typography>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            {t('Add Device')}
+          </Button>
+        </Box>
+        {devices.length === 0 ? (
+          <Alert severity="info">
+            {t('No devices yet. Add a simulated probe to try live readings without hardware.')}
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Name')}</TableCell>
+                  <TableCell>{t('Pond')}</TableCell>
+                  <TableCell>{t('Source')}</TableCell>
+                  <TableCell>{t('Status')}</TableCell>
+                  <TableCell>{t('Latest values')}</TableCell>
+                  <TableCell>{t('Actions')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {devices.map((device) => {
+                  const status = deviceStatus(device);
+                  const reading = live[device.id];
+                  return (
+                    <TableRow key={device.id}>
+                      <TableCell>
+                        {device.name}
+                        <Typography variant="body2" color="text.secondary">
+                          {t(transportOptions.find((option) => option.value === device.transport)?.label ?? '')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{pondName(device.pondId)}</TableCell>
+                      <TableCell sx={{ wordBreak: 'break-all' }}>{source(device)}</TableCell>
+                      <TableCell>
+                        <Tooltip
+                          title={
+                            reading
+                              ? t('Last reading {date}', { date: new Date(reading.receivedAt).toLocaleString() })
+                              : ''
+                          }
+                        >
+                          <Chip size="small" color={statusColors[status]} label={t(statusLabels[status])} />
+                        </Tooltip>
+                        {deviceErrors[device.id] && (
+                          <Typography variant="body2" color="error">
+                            {t(deviceErrors[device.id])}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{reading ? formatSensorValues(reading.values) : '—'}</TableCell>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        <Switch size="small" checked={device.enabled} onChange={() => handleToggle(device)} />
+                        <IconButton size="small" onClick={() => handleOpenDialog(device)}>
+                          <EditIcon />
+                        </IconButton>
+                        <IconButton size="small" onClick={() => handleDelete(device.id)}>
+                          <DeleteIcon />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+        <Alert severity="info" sx={{ mt: 2 }}>
+          {t(
+            'Devices may send JSON such as {"do": 5.4, "temp": 28.1, "ph": 7.8, "ts": 1760000000}, or a bare number on a topic ending in the parameter name, e.g. farm/pond-1/do. Values are read in mg/L and °C.'
+          )}
+        </Alert>
+      </Paper>
+
+      <Dialog open={openDialog} onClose={() => setOpenDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{formData.id ? t('Edit Device') : t('Add Device')}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} sm={6}>
+              <FormField label="Name" value={formData.name} onChange={handleChange('name')} required />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Connection"
+                value={formData.transport}
+                onChange={(value) => setFormData((prev) => ({ ...prev, transport: value as SensorTransport }))}
+                type="select"
+                options={transportOptions}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <PondPicker
+                value={formData.pondId}
+                onChange={(pond) => setFormData((prev) => ({ ...prev, pondId: pond?.id ?? '' }))}
+              />
+            </Grid>
+            {formData.transport !== 'http' && (
+              <Grid item xs={12}>
+                <FormField
+                  label="Topic"
+                  value={formData.topic}
+                  onChange={handleChange('topic')}
+                  helperText={
+                    formData.transport === 'mqtt'
+                      ? 'MQTT topic filter; + matches one level and # the rest'
+                      : 'Optional. Also publish simulated readings here when the broker is connected'
+                  }
+                />
+              </Grid>
+            )}
+            {formData.transport === 'http' && (
+              <Grid item xs={12}>
+                <FormField
+                  label="URL"
+                  value={formData.url}
+                  onChange={handleChange('url')}
+                  helperText="Returns the latest reading as JSON; the server must allow cross-origin requests"
+                />
+              </Grid>
+            )}
+            {formData.transport !== 'mqtt' && (
+              <Grid item xs={12} sm={6}>
+                <FormField
+                  label="Interval (seconds)"
+                  value={formData.pollSeconds}
+                  onChange={handleChange('pollSeconds')}
+                  type="number"
+                />
+              </Grid>
+            )}
+            <Grid item xs={12} sm={6}>
+              <FormField
+                label="Stale after (minutes)"
+                value={formData.staleMinutes}
+                onChange={handleChange('staleMinutes')}
+                type="number"
+                helperText="Flag the device when no reading arrives for this long"
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <Typography variant="subtitle2">{t('Calibration offsets')}</Typography>
+              <Typography variant="body2" color="text.secondary">
+                {t('Added to every raw value, e.g. -0.15 when the probe reads pH 0.15 high against a reference.')}
+              </Typography>
+            </Grid>
+            {calibrationParameters.map((parameter) => (
+              <Grid item xs={6} sm={4} key={parameter}>
+                <FormField
+                  label={
+                    waterQualityParameters[parameter].unit
+                      ? `${t(waterQualityParameters[parameter].name)} (${waterQualityParameters[parameter].unit})`
+                      : waterQualityParameters[parameter].name
+                  }
+                  value={calibration[parameter] ?? ''}
+                  onChange={(value) => setCalibration((prev) => ({ ...prev, [parameter]: String(value) }))}
+                  type="number"
+                />
+              </Grid>
+            ))}
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenDialog(false)}>{t('Cancel')}</Button>
+          <Button variant="contained" onClick={handleSave} disabled={formData.transport === 'http' && !formData.url}>
+            {t('Save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
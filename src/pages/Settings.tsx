@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Grid,
+  Alert,
+  Button,
+} from '@mui/material';
+import FormField from '../components/FormField';
+import BackupRestore from '../components/BackupRestore';
+import ClimateNormalsDialog from '../components/ClimateNormalsDialog';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useUnits } from '../contexts/UnitsContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSite } from '../contexts/SiteContext';
+import { currencyOptions, localeOptions } from '../utils/currency';
+import { oxygenSaturation, pressureAtElevation } from '../engine';
+import { findStation, stationOptions, useClimateStations } from '../climate';
+import type { ClimateStation } from '../climate';
+import type { CurrencySettings } from '../utils/currency';
+import { unitSystemOptions } from '../units';
+import { languageOptions } from '../i18n';
+import type { Language } from '../i18n';
+import type { UnitSystem } from '../units';
+
+export default function Settings() {
+  const { settings, updateSettings, symbol, formatMoney } = useCurrency();
+  const { system, setSystem } = useUnits();
+  const { language, setLanguage, t } = useLanguage();
+  const { site, updateSite, pressure } = useSite();
+  const { stations, customStations } = useClimateStations();
+  const [editingNormals, setEditingNormals] = useState(false);
+  const station = findStation(stations, site.stationId);
+
+  // Picking a station also places the farm at its latitude and elevation.
+  const selectStation = (selected: ClimateStation | undefined) => {
+    updateSite(
+      selected
+        ? { stationId: selected.id, latitude: selected.latitude, elevation: selected.elevation }
+        : { stationId: '' }
+    );
+  };
+
+  const handleChange = (field: keyof CurrencySettings) => (value: string | number | string[]) => {
+    updateSettings({ [field]: typeof settings[field] === 'number' ? Number(value) : String(value) });
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        {t('Settings')}
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        {t('Choose how money and measurements are shown and the default prices every calculator starts from.')}{' '}
+        {t('Changes are saved on this device straight away.')}
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3, height: '100%' }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Currency & Number Format')}
+            </Typography>
+            <Grid container spacing={2}>
+              <Grid item xs={12}>
+                <FormField
+                  label="Currency"
+                  type="select"
+                  value={settings.currency}
+                  onChange={handleChange('currency')}
+                  options={currencyOptions}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label="Number Format"
+                  type="select"
+                  value={settings.locale}
+                  onChange={handleChange('locale')}
+                  options={localeOptions}
+                  helperText="India formats group large amounts in lakh and crore"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label={t('Exchange Rate ({symbol} per US$)', { symbol })}
+                  type="number"
+                  value={settings.usdRate}
+                  onChange={handleChange('usdRate')}
+                  helperText="Converts built-in reference prices such as species market prices and liner costs"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Alert severity="info">
+                  {t('Preview: {amount}', { amount: formatMoney(12345678.9) })}
+                </Alert>
+              </Grid>
+            </Grid>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3, height: '100%' }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Default Prices')}
+            </Typography>
+            <Grid container spacing={2}>
+              <Grid item xs={12}>
+                <FormField
+                  label={t('Electricity Tariff ({symbol}/kWh)', { symbol })}
+                  type="number"
+                  value={settings.electricityTariff}
+                  onChange={handleChange('electricityTariff')}
+                  helperText="Used for aerator and equipment running costs"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label={t('Labor ({symbol}/day)', { symbol })}
+                  type="number"
+                  value={settings.laborPerDay}
+                  onChange={handleChange('laborPerDay')}
+                  helperText="Cost of one worker for one day"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label={t('Feed Price ({symbol}/kg)', { symbol })}
+                  type="number"
+                  value={settings.feedPrice}
+                  onChange={handleChange('feedPrice')}
+                  helperText="Used wherever a feed cost is estimated"
+                />
+              </Grid>
+            </Grid>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Units')}
+            </Typography>
+            <FormField
+              label="Unit System"
+              type="select"
+              value={system}
+              onChange={(value) => setSystem(value as UnitSystem)}
+              options={unitSystemOptions}
+              helperText="Individual fields can still be switched with their unit picker"
+            />
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Language')}
+            </Typography>
+            <FormField
+              label="Language"
+              type="select"
+              value={language}
+              onChange={(value) => setLanguage(value as Language)}
+              options={languageOptions}
+              helperText="Urdu and Kashmiri are shown right to left"
+            />
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Farm Site')}
+            </Typography>
+            <Grid container spacing={2}>
+              <Grid item xs={12}>
+                <FormField
+                  label="Climate Station"
+                  type="select"
+                  value={station ? station.id : ''}
+                  onChange={(value) => selectStation(findStation(stations, String(value)))}
+                  options={[{ value: '', label: 'None' }, ...stationOptions(stations)]}
+                  helperText="District whose monthly normals prefill the weather inputs; also sets latitude and elevation"
+                />
+                {station && (
+                  <Button size="small" sx={{ mt: 1 }} onClick={() => setEditingNormals(true)}>
+                    {t('Edit or replace normals')}
+                  </Button>
+                )}
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label="Latitude (°)"
+                  type="number"
+                  value={site.latitude ?? ''}
+                  onChange={(value) => updateSite({ latitude: value === '' ? null : Number(value) })}
+                  helperText="Negative south of the equator; sets day length for evaporation estimates"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label="Elevation"
+                  unit="m"
+                  type="number"
+                  value={site.elevation}
+                  onChange={(value) => updateSite({ elevation: Number(value) || 0 })}
+                  helperText="Height above sea level; thinner air holds less oxygen in the water"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField
+                  label="Barometric Pressure (kPa)"
+                  type="number"
+                  value={site.pressure ?? ''}
+                  onChange={(value) => updateSite({ pressure: value === '' ? null : Number(value) })}
+                  helperText={t('Leave empty to use {pressure} kPa, the standard pressure at this elevation', {
+                    pressure: pressureAtElevation(site.elevation).toFixed(1),
+                  })}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Alert severity="info">
+                  {t('Fresh water at 25 °C holds {saturation} mg/L of oxygen at saturation here.', {
+                    saturation: oxygenSaturation({ temperature: 25, pressure }).toFixed(2),
+                  })}
+                </Alert>
+              </Grid>
+            </Grid>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12}>
+          <BackupRestore />
+        </Grid>
+      </Grid>
+      <ClimateNormalsDialog
+        open={editingNormals}
+        onClose={() => setEditingNormals(false)}
+        station={station}
+        saved={customStations.some((each) => each.id === site.stationId)}
+        onSaved={selectStation}
+      />
+    </Container>
+  );
+}
@@ -0,0 +1,480 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Typography,
+  Paper,
+  Button,
+  Box,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Card,
+  CardContent,
+  Chip,
+  Divider,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Restore as RestoreIcon,
+} from '@mui/icons-material';
+import FormField from '../components/FormField';
+import {
+  useSpeciesCatalog,
+  findSpecies,
+  speciesOptions,
+  isBuiltInSpecies,
+  growthStages,
+  formatPriceRange,
+} from '../species';
+import type { SpeciesProfile, WaterParameter } from '../species';
+import { useCurrency } from '../contexts/CurrencyContext';
+
+const thermalGroupOptions = [
+  { value: 'warmwater', label: 'Warmwater' },
+  { value: 'coolwater', label: 'Coolwater' },
+  { value: 'coldwater', label: 'Coldwater' },
+];
+
+const rangeFields: { param: WaterParameter; label: string; unit: string }[] = [
+  { param: 'temperature', label: 'Temperature', unit: '°C' },
+  { param: 'dissolvedOxygen', label: 'Dissolved Oxygen', unit: 'mg/L' },
+  { param: 'ph', label: 'pH', unit: '' },
+  { param: 'salinity', label: 'Salinity', unit: 'ppt' },
+  { param: 'ammonia', label: 'Ammonia (TAN)', unit: 'mg/L' },
+];
+
+const productionFields: { field: keyof SpeciesProfile['production']; label: string }[] = [
+  { field: 'maxDensity', label: 'Max Density (kg/m³)' },
+  { field: 'stockingDensity', label: 'Stocking Density (fish/m³)' },
+  { field: 'minDepth', label: 'Min Depth (m)' },
+  { field: 'growthRate', label: 'Growth Rate (g/day)' },
+  { field: 'maxGrowthRate', label: 'Max Growth Rate (% body weight/day)' },
+  { field: 'marketWeight', label: 'Market Weight (g)' },
+  { field: 'fcr', label: 'FCR' },
+  { field: 'oxygenConsumption', label: 'O₂ Use (kg/kg fish/day)' },
+];
+
+const toSpeciesId = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export default function SpeciesCatalog() {
+  const { formatMoney, fromUsd } = useCurrency();
+  const { catalog, customSpecies, setCustomSpecies } = useSpeciesCatalog();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState('tilapia');
+  const [formData, setFormData] = useState<SpeciesProfile | null>(null);
+
+  const selectedSpecies = selectedId ? findSpecies(catalog, selectedId) ?? null : null;
+  const isCustomised = (id: string) => customSpecies.some((species) => species.id === id);
+
+  const handleOpenDialog = (species?: SpeciesProfile) => {
+    if (species) {
+      setFormData(species);
+      setEditingId(species.id);
+    } else {
+      const template = findSpecies(catalog, templateId) ?? catalog[0];
+      setFormData({ ...template, id: '', name: '', scientificName: '', image: undefined });
+      setEditingId(null);
+    }
+    setOpenDialog(true);
+  };
+
+  const handleCloseDialog = () => {
+    setOpenDialog(false);
+    setFormData(null);
+    setEditingId(null);
+  };
+
+  const handleTemplateChange = (value: string | number | string[]) => {
+    const id = String(value);
+    setTemplateId(id);
+    const template = findSpecies(catalog, id);
+    if (template && formData && !editingId) {
+      setFormData({ ...template, id: '', name: formData.name, scientificName: formData.scientificName, image: undefined });
+    }
+  };
+
+  const handleTextChange = (field: 'name' | 'scientificName' | 'description' | 'thermalGroup') => (
+    value: string | number | string[]
+  ) => {
+    setFormData((prev) => (prev ? { ...prev, [field]: String(value) } : prev));
+  };
+
+  const handleRangeChange = (param: WaterParameter, bound: 'min' | 'max' | 'optimalMin' | 'optimalMax') => (
+    value: string | number | string[]
+  ) => {
+    const number = Number(value) || 0;
+    setFormData((prev) => {
+      if (!prev) return prev;
+      const range = prev.waterQuality[param];
+      const updated =
+        bound === 'optimalMin'
+          ? { ...range, optimal: { ...range.optimal, min: number } }
+          : bound === 'optimalMax'
+            ? { ...range, optimal: { ...range.optimal, max: number } }
+            : { ...range, [bound]: number };
+      return { ...prev, waterQuality: { ...prev.waterQuality, [param]: updated } };
+    });
+  };
+
+  const handleProductionChange = (field: keyof SpeciesProfile['production']) => (
+    value: string | number | string[]
+  ) => {
+    setFormData((prev) =>
+      prev ? { ...prev, production: { ...prev.production, [field]: Number(value) || 0 } } : prev
+    );
+  };
+
+  const handlePriceChange = (field: 'seed' | 'market') => (value: string | number | string[]) => {
+    setFormData((prev) =>
+      prev ? { ...prev, prices: { ...prev.prices, [field]: Number(value) || 0 } } : prev
+    );
+  };
+
+  const handleSubmit = () => {
+    if (!formData || !formData.name) return;
+    let id = editingId ?? toSpeciesId(formData.name);
+    if (!editingId && (!id || findSpecies(catalog, id))) {
+      id = `${id || 'species'}-${Date.now()}`;
+    }
+    const profile = { ...formData, id };
+    setCustomSpecies((prev) => [...prev.filter((species) => species.id !== id), profile]);
+    setSelectedId(id);
+    handleCloseDialog();
+  };
+
+  // Deleting a customised built-in species restores the bundled values.
+  const handleDelete = (id: string) => {
+    setCustomSpecies((prev) => prev.filter((species) => species.id !== id));
+    if (selectedId === id && !isBuiltInSpecies(id)) {
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        Species Catalog
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        The species parameters used by every calculator. Adjust a species to match your local conditions or add a new one.
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            Add Species
+          </Button>
+        </Grid>
+
+        <Grid item xs={12} md={selectedSpecies ? 7 : 12}>
+          <Paper>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Species</TableCell>
+                    <TableCell>Optimal Temp (°C)</TableCell>
+                    <TableCell align="right">Min DO (mg/L)</TableCell>
+                    <TableCell align="right">Max Density (kg/m³)</TableCell>
+                    <TableCell align="right">FCR</TableCell>
+                    <TableCell>Source</TableCell>
+                    <TableCell>Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {catalog.map((species) => (
+                    <TableRow
+                      key={species.id}
+                      hover
+                      selected={species.id === selectedId}
+                      onClick={() => setSelectedId(species.id)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>
+                        <Typography variant="body2">{species.name}</Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ fontStyle: 'italic' }}>
+                          {species.scientificName}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {species.waterQuality.temperature.optimal.min}-{species.waterQuality.temperature.optimal.max}
+                      </TableCell>
+                      <TableCell align="right">{species.waterQuality.dissolvedOxygen.min}</TableCell>
+                      <TableCell align="right">{species.production.maxDensity}</TableCell>
+                      <TableCell align="right">{species.production.fcr}</TableCell>
+                      <TableCell>
+                        {!isBuiltInSpecies(species.id) ? (
+                          <Chip label="Custom" size="small" color="primary" />
+                        ) : isCustomised(species.id) ? (
+                          <Chip label="Customised" size="small" color="warning" />
+                        ) : (
+                          <Chip label="Built-in" size="small" variant="outlined" />
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleOpenDialog(species);
+                          }}
+                        >
+                          <EditIcon />
+                        </IconButton>
+                        {isCustomised(species.id) && (
+                          <Tooltip title={isBuiltInSpecies(species.id) ? 'Restore built-in values' : 'Delete species'}>
+                            <IconButton
+                              size="small"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDelete(species.id);
+                              }}
+                            >
+                              {isBuiltInSpecies(species.id) ? <RestoreIcon /> : <DeleteIcon />}
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </Grid>
+
+        {selectedSpecies && (
+          <Grid item xs={12} md={5}>
+            <Card>
+              <CardContent>
+                <Typography variant="h6">{selectedSpecies.name}</Typography>
+                <Typography variant="body2" color="text.secondary" paragraph>
+                  {selectedSpecies.description}
+                </Typography>
+
+                <Typography variant="subtitle2" gutterBottom>
+                  Water Quality (tolerable / optimal)
+                </Typography>
+                <Table size="small">
+                  <TableBody>
+                    {rangeFields.map(({ param, label, unit }) => {
+                      const range = selectedSpecies.waterQuality[param];
+                      return (
+                        <TableRow key={param}>
+                          <TableCell>{label}</TableCell>
+                          <TableCell>
+                            {range.min}-{range.max} / {range.optimal.min}-{range.optimal.max} {unit}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                <Divider sx={{ my: 2 }} />
+                <Typography variant="subtitle2" gutterBottom>
+                  Feeding (% biomass/day, feeds/day)
+                </Typography>
+                <Table size="small">
+                  <TableBody>
+                    {growthStages.map((stage) => (
+                      <TableRow key={stage}>
+                        <TableCell sx={{ textTransform: 'capitalize' }}>{stage}</TableCell>
+                        <TableCell>
+                          {selectedSpecies.feeding.rates[stage]}% × {selectedSpecies.feeding.frequency[stage]}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <Divider sx={{ my: 2 }} />
+                <Typography variant="subtitle2" gutterBottom>
+                  Disease Susceptibility
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                  {Object.entries(selectedSpecies.diseaseSusceptibility).map(([category, level]) => (
+                    <Chip
+                      key={category}
+                      size="small"
+                      label={`${category}: ${level}`}
+                      color={level === 'high' ? 'error' : level === 'medium' ? 'warning' : 'success'}
+                    />
+                  ))}
+                </Box>
+
+                <Typography variant="body2">
+                  Seed: {formatMoney(fromUsd(selectedSpecies.prices.seed))} per fingerling · Market:{' '}
+                  {formatPriceRange(selectedSpecies, (usd) => formatMoney(fromUsd(usd)))}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+      </Grid>
+
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="md" fullWidth>
+        <DialogTitle>{editingId ? `Edit ${formData?.name ?? 'Species'}` : 'Add Species'}</DialogTitle>
+        <DialogContent>
+          {formData && (
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              {!editingId && (
+                <Grid item xs={12}>
+                  <FormField
+                    label="Copy Parameters From"
+                    type="select"
+                    value={templateId}
+                    onChange={handleTemplateChange}
+                    options={speciesOptions(catalog)}
+                  />
+                </Grid>
+              )}
+              <Grid item xs={12} sm={4}>
+                <FormField label="Common Name" value={formData.name} onChange={handleTextChange('name')} required />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <FormField
+                  label="Scientific Name"
+                  value={formData.scientificName}
+                  onChange={handleTextChange('scientificName')}
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <FormField
+                  label="Thermal Group"
+                  type="select"
+                  value={formData.thermalGroup}
+                  onChange={handleTextChange('thermalGroup')}
+                  options={thermalGroupOptions}
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <FormField label="Description" value={formData.description} onChange={handleTextChange('description')} />
+              </Grid>
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">Water Quality Ranges</Typography>
+              </Grid>
+              {rangeFields.map(({ param, label, unit }) => (
+                <React.Fragment key={param}>
+                  <Grid item xs={6} sm={3}>
+                    <FormField
+                      label={`${label} Min ${unit}`.trim()}
+                      type="number"
+                      value={formData.waterQuality[param].min}
+                      onChange={handleRangeChange(param, 'min')}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={3}>
+                    <FormField
+                      label={`${label} Max ${unit}`.trim()}
+                      type="number"
+                      value={formData.waterQuality[param].max}
+                      onChange={handleRangeChange(param, 'max')}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={3}>
+                    <FormField
+                      label="Optimal Min"
+                      type="number"
+                      value={formData.waterQuality[param].optimal.min}
+                      onChange={handleRangeChange(param, 'optimalMin')}
+                    />
+                  </Grid>
+                  <Grid item xs={6} sm={3}>
+                    <FormField
+                      label="Optimal Max"
+                      type="number"
+                      value={formData.waterQuality[param].optimal.max}
+                      onChange={handleRangeChange(param, 'optimalMax')}
+                    />
+                  </Grid>
+                </React.Fragment>
+              ))}
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">Production</Typography>
+              </Grid>
+              {productionFields.map(({ field, label }) => (
+                <Grid item xs={6} sm={3} key={field}>
+                  <FormField
+                    label={label}
+                    type="number"
+                    value={formData.production[field]}
+                    onChange={handleProductionChange(field)}
+                  />
+                </Grid>
+              ))}
+
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">Prices</Typography>
+              </Grid>
+              <Grid item xs={6} sm={3}>
+                <FormField
+                  label="Seed Price (US$ per fingerling)"
+                  type="number"
+                  value={formData.prices.seed}
+                  onChange={handlePriceChange('seed')}
+                />
+              </Grid>
+              <Grid item xs={6} sm={3}>
+                <FormField
+                  label="Market Price (US$/kg)"
+                  type="number"
+                  value={formData.prices.market}
+                  onChange={handlePriceChange('market')}
+                />
+              </Grid>
+            </Grid>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={!formData?.name}>
+            {editingId ? 'Save Changes' : 'Add Species'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* SEO-optimized Blog Content */}
+      <Paper elevation={3} sx={{ p: 3, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          📚 Species Catalog: One Source for Species Parameters
+        </Typography>
+        <Typography variant="body1" paragraph>
+          Stocking density, feeding rates, oxygen demand and water quality limits all depend on the species you farm. Keeping these values in one catalog means every calculator gives answers that agree with each other. 🐟
+        </Typography>
+
+        <Typography variant="h5" gutterBottom sx={{ mt: 3 }}>
+          🌏 Local Species
+        </Typography>
+        <Typography variant="body1" component="div">
+          <ul>
+            <li><strong>Indian major carps:</strong> Rohu, Catla and Mrigal are included for polyculture ponds</li>
+            <li><strong>Coldwater species:</strong> Snow Trout for hill streams and raceways</li>
+            <li><strong>Your own species:</strong> Copy the closest species and adjust its ranges</li>
+          </ul>
+        </Typography>
+
+        <Typography variant="body2" sx={{ mt: 4, color: 'text.secondary' }}>
+          Last Updated: January 2025 | Written by Aquaculture Species Specialists
+        </Typography>
+      </Paper>
+    </Container>
+  );
+}
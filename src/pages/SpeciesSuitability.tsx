@@ -42,6 +42,9 @@ import {
   TrendingUp,
 } from '@mui/icons-material';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, formatPriceRange } from '../species';
+import type { SpeciesProfile } from '../species';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface SuitabilityData {
   waterTemperature: number[];
@@ -69,109 +72,15 @@ const initialFormData: SuitabilityData = {
   diseaseResistance: '',
 };
 
-interface Species {
-  name: string;
-  scientificName: string;
-  image: string;
-  temperatureRange: number[];
-  phRange: number[];
-  minOxygen: number;
-  minDepth: number;
-  growthRate: number;
-  diseaseResistance: number;
-  marketValue: number;
-  difficulty: number;
-  regulations: string[];
-  characteristics: string[];
-  care: string[];
-  marketTrends: {
-    demand: 'High' | 'Medium' | 'Low';
-    priceRange: string;
-    seasonality: string;
-  };
-}
-
-const speciesData: Species[] = [
-  {
-    name: 'Tilapia',
-    scientificName: 'Oreochromis niloticus',
-    image: '/species/tilapia.jpg',
-    temperatureRange: [24, 32],
-    phRange: [6.0, 8.5],
-    minOxygen: 4,
-    minDepth: 1,
-    growthRate: 4.5,
-    diseaseResistance: 4,
-    marketValue: 3,
-    difficulty: 2,
-    regulations: [
-      'Common aquaculture species in most regions',
-      'May require permits for commercial farming',
-      'Some restrictions on non-native species',
-    ],
-    characteristics: [
-      'Hardy and adaptable',
-      'Fast growth rate',
-      'Efficient feed conversion',
-      'Tolerant of poor water quality',
-    ],
-    care: [
-      'Regular water quality monitoring',
-      'Maintain water temperature above 24°C',
-      'Feed 2-3 times daily',
-      'Stock at appropriate density',
-    ],
-    marketTrends: {
-      demand: 'High',
-      priceRange: '$2-4/kg',
-      seasonality: 'Year-round demand',
-    },
-  },
-  {
-    name: 'Rainbow Trout',
-    scientificName: 'Oncorhynchus mykiss',
-    image: '/species/trout.jpg',
-    temperatureRange: [10, 18],
-    phRange: [6.5, 8.0],
-    minOxygen: 6,
-    minDepth: 1.5,
-    growthRate: 3.5,
-    diseaseResistance: 3,
-    marketValue: 4,
-    difficulty: 4,
-    regulations: [
-      'Strict environmental regulations',
-      'Water discharge permits required',
-      'Regular health inspections mandatory',
-    ],
-    characteristics: [
-      'Cold water species',
-      'High protein requirement',
-      'Sensitive to water quality',
-      'Premium market value',
-    ],
-    care: [
-      'Maintain high oxygen levels',
-      'Regular water quality testing',
-      'Temperature control essential',
-      'High-quality feed required',
-    ],
-    marketTrends: {
-      demand: 'High',
-      priceRange: '$6-10/kg',
-      seasonality: 'Peak demand in winter',
-    },
-  },
-  // Add more species as needed
-];
-
 const steps = ['Environmental Parameters', 'Operational Factors', 'Market Preferences'];
 
 export default function SpeciesSuitability() {
+  const { formatMoney, fromUsd } = useCurrency();
+  const { catalog } = useSpeciesCatalog();
   const [activeStep, setActiveStep] = useState(0);
   const [formData, setFormData] = useState<SuitabilityData>(initialFormData);
-  const [recommendations, setRecommendations] = useState<Species[]>([]);
-  const [selectedSpecies, setSelectedSpecies] = useState<Species | null>(null);
+  const [recommendations, setRecommendations] = useState<SpeciesProfile[]>([]);
+  const [selectedSpecies, setSelectedSpecies] = useState<SpeciesProfile | null>(null);
 
   const handleNext = () => {
     if (activeStep === steps.length - 1) {
@@ -191,26 +100,26 @@ export default function SpeciesSuitability() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const calculateSuitabilityScore = (species: Species): number => {
+  const calculateSuitabilityScore = (species: SpeciesProfile): number => {
     let score = 0;
 
     // Temperature suitability
     const tempMatch =
-      formData.waterTemperature[0] >= species.temperatureRange[0] &&
-      formData.waterTemperature[1] <= species.temperatureRange[1];
+      formData.waterTemperature[0] >= species.waterQuality.temperature.optimal.min &&
+      formData.waterTemperature[1] <= species.waterQuality.temperature.optimal.max;
     score += tempMatch ? 20 : 0;
 
     // pH suitability
     const phMatch =
-      formData.waterPH[0] >= species.phRange[0] &&
-      formData.waterPH[1] <= species.phRange[1];
+      formData.waterPH[0] >= species.waterQuality.ph.optimal.min &&
+      formData.waterPH[1] <= species.waterQuality.ph.optimal.max;
     score += phMatch ? 15 : 0;
 
     // Oxygen requirements
-    score += formData.dissolvedOxygen >= species.minOxygen ? 15 : 0;
+    score += formData.dissolvedOxygen >= species.waterQuality.dissolvedOxygen.min ? 15 : 0;
 
     // Depth requirements
-    score += formData.waterDepth >= species.minDepth ? 10 : 0;
+    score += formData.waterDepth >= species.production.minDepth ? 10 : 0;
 
     // Experience level match
     const experienceFactor = {
@@ -218,28 +127,28 @@ export default function SpeciesSuitability() {
       intermediate: 2,
       advanced: 3,
     }[formData.experience] || 2;
-    score += Math.max(0, 10 - Math.abs(experienceFactor - species.difficulty) * 3);
+    score += Math.max(0, 10 - Math.abs(experienceFactor - species.ratings.difficulty) * 3);
 
     // Growth rate preference match
-    if (formData.growthRate === 'fast' && species.growthRate >= 4) score += 10;
-    if (formData.growthRate === 'medium' && species.growthRate >= 3) score += 8;
+    if (formData.growthRate === 'fast' && species.ratings.growth >= 4) score += 10;
+    if (formData.growthRate === 'medium' && species.ratings.growth >= 3) score += 8;
     if (formData.growthRate === 'slow') score += 6;
 
     // Disease resistance preference match
-    if (formData.diseaseResistance === 'high' && species.diseaseResistance >= 4) score += 10;
-    if (formData.diseaseResistance === 'medium' && species.diseaseResistance >= 3) score += 8;
+    if (formData.diseaseResistance === 'high' && species.ratings.diseaseResistance >= 4) score += 10;
+    if (formData.diseaseResistance === 'medium' && species.ratings.diseaseResistance >= 3) score += 8;
     if (formData.diseaseResistance === 'low') score += 6;
 
     // Market value match
-    if (formData.marketPreference === 'high' && species.marketValue >= 4) score += 10;
-    if (formData.marketPreference === 'medium' && species.marketValue >= 3) score += 8;
+    if (formData.marketPreference === 'high' && species.ratings.marketValue >= 4) score += 10;
+    if (formData.marketPreference === 'medium' && species.ratings.marketValue >= 3) score += 8;
     if (formData.marketPreference === 'low') score += 6;
 
     return score;
   };
 
   const calculateRecommendations = () => {
-    const scoredSpecies = speciesData.map((species) => ({
+    const scoredSpecies = catalog.map((species) => ({
       species,
       score: calculateSuitabilityScore(species),
     }));
@@ -284,7 +193,8 @@ export default function SpeciesSuitability() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Dissolved Oxygen (mg/L)"
+                label="Dissolved Oxygen"
+                unit="mg/L"
                 value={formData.dissolvedOxygen.toString()}
                 onChange={(value) => handleChange('dissolvedOxygen')(parseFloat(value))}
                 type="number"
@@ -293,7 +203,8 @@ export default function SpeciesSuitability() {
             </Grid>
             <Grid item xs={12} sm={6}>
               <FormField
-                label="Water Depth (m)"
+                label="Water Depth"
+                unit="m"
                 value={formData.waterDepth.toString()}
                 onChange={(value) => handleChange('waterDepth')(parseFloat(value))}
                 type="number"
@@ -464,11 +375,11 @@ export default function SpeciesSuitability() {
               </Typography>
               <Grid container spacing={2}>
                 {recommendations.map((species) => (
-                  <Grid item xs={12} key={species.name}>
+                  <Grid item xs={12} key={species.id}>
                     <Card
                       sx={{
                         cursor: 'pointer',
-                        bgcolor: selectedSpecies?.name === species.name ? 'primary.light' : 'inherit',
+                        bgcolor: selectedSpecies?.id === species.id ? 'primary.light' : 'inherit',
                       }}
                       onClick={() => setSelectedSpecies(species)}
                     >
@@ -495,7 +406,7 @@ export default function SpeciesSuitability() {
                                 Growth Rate:
                               </Typography>
                               <Rating
-                                value={species.growthRate}
+                                value={species.ratings.growth}
                                 readOnly
                                 size="small"
                                 sx={{ ml: 1 }}
@@ -506,7 +417,7 @@ export default function SpeciesSuitability() {
                                 Disease Resistance:
                               </Typography>
                               <Rating
-                                value={species.diseaseResistance}
+                                value={species.ratings.diseaseResistance}
                                 readOnly
                                 size="small"
                                 sx={{ ml: 1 }}
@@ -514,13 +425,13 @@ export default function SpeciesSuitability() {
                             </Box>
                             <Box sx={{ mt: 1 }}>
                               <Chip
-                                label={`Market Value: ${species.marketTrends.demand}`}
+                                label={`Market Value: ${species.market.demand}`}
                                 size="small"
                                 color="primary"
                                 sx={{ mr: 1 }}
                               />
                               <Chip
-                                label={species.marketTrends.priceRange}
+                                label={formatPriceRange(species, (usd) => formatMoney(fromUsd(usd)))}
                                 size="small"
                                 variant="outlined"
                               />
@@ -555,23 +466,23 @@ export default function SpeciesSuitability() {
                             <TableRow>
                               <TableCell>Temperature Range</TableCell>
                               <TableCell>
-                                {selectedSpecies.temperatureRange[0]}-
-                                {selectedSpecies.temperatureRange[1]}°C
+                                {selectedSpecies.waterQuality.temperature.optimal.min}-
+                                {selectedSpecies.waterQuality.temperature.optimal.max}°C
                               </TableCell>
                             </TableRow>
                             <TableRow>
                               <TableCell>pH Range</TableCell>
                               <TableCell>
-                                {selectedSpecies.phRange[0]}-{selectedSpecies.phRange[1]}
+                                {selectedSpecies.waterQuality.ph.optimal.min}-{selectedSpecies.waterQuality.ph.optimal.max}
                               </TableCell>
                             </TableRow>
                             <TableRow>
                               <TableCell>Min. Oxygen</TableCell>
-                              <TableCell>{selectedSpecies.minOxygen} mg/L</TableCell>
+                              <TableCell>{selectedSpecies.waterQuality.dissolvedOxygen.min} mg/L</TableCell>
                             </TableRow>
                             <TableRow>
                               <TableCell>Min. Depth</TableCell>
-                              <TableCell>{selectedSpecies.minDepth} m</TableCell>
+                              <TableCell>{selectedSpecies.production.minDepth} m</TableCell>
                             </TableRow>
                           </TableBody>
                         </Table>
@@ -583,25 +494,25 @@ export default function SpeciesSuitability() {
                         <Typography variant="subtitle2" gutterBottom>
                           Growth Rate
                         </Typography>
-                        <Rating value={selectedSpecies.growthRate} readOnly />
+                        <Rating value={selectedSpecies.ratings.growth} readOnly />
                       </Box>
                       <Box sx={{ mb: 2 }}>
                         <Typography variant="subtitle2" gutterBottom>
                           Disease Resistance
                         </Typography>
-                        <Rating value={selectedSpecies.diseaseResistance} readOnly />
+                        <Rating value={selectedSpecies.ratings.diseaseResistance} readOnly />
                       </Box>
                       <Box sx={{ mb: 2 }}>
                         <Typography variant="subtitle2" gutterBottom>
                           Market Value
                         </Typography>
-                        <Rating value={selectedSpecies.marketValue} readOnly />
+                        <Rating value={selectedSpecies.ratings.marketValue} readOnly />
                       </Box>
                       <Box>
                         <Typography variant="subtitle2" gutterBottom>
                           Farming Difficulty
                         </Typography>
-                        <Rating value={selectedSpecies.difficulty} readOnly />
+                        <Rating value={selectedSpecies.ratings.difficulty} readOnly />
                       </Box>
                     </Grid>
                   </Grid>
@@ -663,7 +574,7 @@ export default function SpeciesSuitability() {
                               Market Demand
                             </Typography>
                             <Chip
-                              label={selectedSpecies.marketTrends.demand}
+                              label={selectedSpecies.market.demand}
                               color="primary"
                             />
                           </Grid>
@@ -672,7 +583,7 @@ export default function SpeciesSuitability() {
                               Price Range
                             </Typography>
                             <Chip
-                              label={selectedSpecies.marketTrends.priceRange}
+                              label={formatPriceRange(selectedSpecies, (usd) => formatMoney(fromUsd(usd)))}
                               variant="outlined"
                             />
                           </Grid>
@@ -681,7 +592,7 @@ export default function SpeciesSuitability() {
                               Seasonality
                             </Typography>
                             <Typography variant="body2">
-                              {selectedSpecies.marketTrends.seasonality}
+                              {selectedSpecies.market.seasonality}
                             </Typography>
                           </Grid>
                         </Grid>
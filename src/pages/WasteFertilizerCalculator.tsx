@@ -27,6 +27,9 @@ import { Info as InfoIcon } from '@mui/icons-material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend } from 'recharts';
 import FormField from '../components/FormField';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import type { SpeciesProfile } from '../species';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface WasteData {
   fishBiomass: string;
@@ -61,29 +64,6 @@ interface FertilizerResult {
   };
 }
 
-const fishSpeciesData = {
-  tilapia: {
-    wasteRate: 0.35,
-    nutrientRichness: 1.0,
-    description: 'Moderate waste production with balanced nutrient content',
-  },
-  carp: {
-    wasteRate: 0.4,
-    nutrientRichness: 1.1,
-    description: 'High waste production with rich nutrient content',
-  },
-  catfish: {
-    wasteRate: 0.3,
-    nutrientRichness: 0.9,
-    description: 'Lower waste production with standard nutrient content',
-  },
-  trout: {
-    wasteRate: 0.25,
-    nutrientRichness: 1.2,
-    description: 'Low waste production but nutrient-rich content',
-  },
-};
-
 const processingMethods = {
   composting: {
     efficiency: 0.7,
@@ -165,6 +145,8 @@ const initialFormData: WasteData = {
 };
 
 const WasteFertilizerCalculator: React.FC = () => {
+  const { formatMoney, fromUsd } = useCurrency();
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<WasteData>(initialFormData);
   const [result, setResult] = useState<FertilizerResult | null>(null);
 
@@ -182,16 +164,15 @@ const WasteFertilizerCalculator: React.FC = () => {
 
   const calculateNutrientContent = (
     baseFertilizer: number,
-    species: string,
+    species: SpeciesProfile,
     processingMethod: string,
     storage: string
   ): NutrientContent => {
-    const speciesData = fishSpeciesData[species as keyof typeof fishSpeciesData];
     const processData = processingMethods[processingMethod as keyof typeof processingMethods];
     const storageData = storageConditions[storage as keyof typeof storageConditions];
     
     const nutrientRetention = processData.nutrientRetention * (1 - storageData.nutrientLoss);
-    const baseContent = speciesData.nutrientRichness;
+    const baseContent = species.production.nutrientRichness;
 
     return {
       nitrogen: baseFertilizer * 0.05 * baseContent * nutrientRetention,
@@ -205,19 +186,20 @@ const WasteFertilizerCalculator: React.FC = () => {
     fertilizer: number,
     nutrientContent: NutrientContent
   ) => {
-    // Approximate values per kg
+    // Approximate values per kg, in US$
     const nitrogenValue = 2.5;
     const phosphorusValue = 3.0;
     const potassiumValue = 2.0;
     const organicMatterValue = 0.5;
 
-    const fertilizerValue =
+    const fertilizerValue = fromUsd(
       nutrientContent.nitrogen * nitrogenValue +
       nutrientContent.phosphorus * phosphorusValue +
       nutrientContent.potassium * potassiumValue +
-      nutrientContent.organicMatter * organicMatterValue;
+      nutrientContent.organicMatter * organicMatterValue
+    );
 
-    const disposalSavings = fertilizer * 0.3; // Assume $0.3/kg disposal cost savings
+    const disposalSavings = fertilizer * fromUsd(0.3); // Assume $0.3/kg disposal cost savings
     const totalBenefit = fertilizerValue + disposalSavings;
 
     return {
@@ -234,12 +216,13 @@ const WasteFertilizerCalculator: React.FC = () => {
     const pondArea = parseFloat(formData.pondSize);
     const proteinContent = parseFloat(formData.feedProtein);
 
-    const speciesData = fishSpeciesData[formData.fishSpecies as keyof typeof fishSpeciesData];
+    const species = findSpecies(catalog, formData.fishSpecies);
+    if (!species) return null;
     const processData = processingMethods[formData.processingMethod as keyof typeof processingMethods];
     const cropData = cropTypes[formData.cropType as keyof typeof cropTypes];
 
     // Calculate base waste production
-    const dailyWaste = feedRate * speciesData.wasteRate * (proteinContent / 32); // Adjust for protein content
+    const dailyWaste = feedRate * species.production.wasteRate * (proteinContent / 32); // Adjust for protein content
     
     // Convert waste to fertilizer
     const rawFertilizer = dailyWaste * frequency;
@@ -252,7 +235,7 @@ const WasteFertilizerCalculator: React.FC = () => {
     // Calculate nutrient content
     const nutrientContent = calculateNutrientContent(
       fertilizer,
-      formData.fishSpecies,
+      species,
       formData.processingMethod,
       formData.storageConditions
     );
@@ -344,9 +327,9 @@ const WasteFertilizerCalculator: React.FC = () => {
                       label="Fish Species"
                       onChange={handleSelectChange}
                     >
-                      {Object.entries(fishSpeciesData).map(([key, { description }]) => (
-                        <MenuItem key={key} value={key}>
-                          {key.charAt(0).toUpperCase() + key.slice(1)} - {description}
+                      {catalog.map((species) => (
+                        <MenuItem key={species.id} value={species.id}>
+                          {species.name} - {species.production.wasteRate} kg solids per kg feed
                         </MenuItem>
                       ))}
                     </Select>
@@ -354,7 +337,8 @@ const WasteFertilizerCalculator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Fish Biomass (kg)"
+                    label="Fish Biomass"
+                    unit="kg"
                     value={formData.fishBiomass}
                     onChange={handleChange('fishBiomass')}
                     type="number"
@@ -364,7 +348,8 @@ const WasteFertilizerCalculator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Daily Feeding Rate (kg)"
+                    label="Daily Feeding Rate"
+                    unit="kg"
                     value={formData.feedingRate}
                     onChange={handleChange('feedingRate')}
                     type="number"
@@ -384,7 +369,8 @@ const WasteFertilizerCalculator: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Pond Size (m²)"
+                    label="Pond Size"
+                    unit="m²"
                     value={formData.pondSize}
                     onChange={handleChange('pondSize')}
                     type="number"
@@ -538,15 +524,15 @@ const WasteFertilizerCalculator: React.FC = () => {
                     <TableBody>
                       <TableRow>
                         <TableCell>Fertilizer Value</TableCell>
-                        <TableCell>${result.economicValue.fertilizerValue.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(result.economicValue.fertilizerValue)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Disposal Cost Savings</TableCell>
-                        <TableCell>${result.economicValue.disposalSavings.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(result.economicValue.disposalSavings)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell>Total Economic Benefit</TableCell>
-                        <TableCell>${result.economicValue.totalBenefit.toFixed(2)}</TableCell>
+                        <TableCell>{formatMoney(result.economicValue.totalBenefit)}</TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
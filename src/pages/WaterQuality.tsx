@@ -25,6 +25,11 @@ import {
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContainer } from 'recharts';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import type { SpeciesProfile, WaterParameter } from '../species';
+import PondPicker from '../components/PondPicker';
+import { putRecord, useCollection } from '../db';
+import type { Pond, WaterQualityParameter } from '../types/records';
 
 interface WaterQualityData {
   temperature: number;
@@ -47,40 +52,27 @@ interface ParameterRange {
   optimal: { min: number; max: number };
 }
 
-const speciesParameters: Record<string, Record<string, ParameterRange>> = {
-  tilapia: {
-    temperature: { min: 20, max: 35, unit: '°C', optimal: { min: 25, max: 32 } },
-    dissolvedOxygen: { min: 3, max: 8, unit: 'mg/L', optimal: { min: 5, max: 7 } },
-    ph: { min: 6, max: 9, unit: 'pH', optimal: { min: 6.5, max: 8.5 } },
-    ammonia: { min: 0, max: 2, unit: 'mg/L', optimal: { min: 0, max: 0.5 } },
-    nitrite: { min: 0, max: 1, unit: 'mg/L', optimal: { min: 0, max: 0.3 } },
-    nitrate: { min: 0, max: 100, unit: 'mg/L', optimal: { min: 0, max: 50 } },
-    alkalinity: { min: 50, max: 200, unit: 'mg/L', optimal: { min: 100, max: 150 } },
-    hardness: { min: 50, max: 200, unit: 'mg/L', optimal: { min: 100, max: 150 } },
-    turbidity: { min: 0, max: 50, unit: 'NTU', optimal: { min: 5, max: 25 } },
-  },
-  carp: {
-    temperature: { min: 15, max: 32, unit: '°C', optimal: { min: 20, max: 28 } },
-    dissolvedOxygen: { min: 4, max: 8, unit: 'mg/L', optimal: { min: 5, max: 7 } },
-    ph: { min: 6.5, max: 9, unit: 'pH', optimal: { min: 7, max: 8.5 } },
-    ammonia: { min: 0, max: 1.5, unit: 'mg/L', optimal: { min: 0, max: 0.4 } },
-    nitrite: { min: 0, max: 0.8, unit: 'mg/L', optimal: { min: 0, max: 0.2 } },
-    nitrate: { min: 0, max: 80, unit: 'mg/L', optimal: { min: 0, max: 40 } },
-    alkalinity: { min: 60, max: 200, unit: 'mg/L', optimal: { min: 100, max: 150 } },
-    hardness: { min: 60, max: 200, unit: 'mg/L', optimal: { min: 100, max: 150 } },
-    turbidity: { min: 0, max: 40, unit: 'NTU', optimal: { min: 5, max: 20 } },
-  },
-  catfish: {
-    temperature: { min: 18, max: 32, unit: '°C', optimal: { min: 24, max: 30 } },
-    dissolvedOxygen: { min: 3, max: 8, unit: 'mg/L', optimal: { min: 5, max: 7 } },
-    ph: { min: 6, max: 8.5, unit: 'pH', optimal: { min: 6.5, max: 7.5 } },
-    ammonia: { min: 0, max: 2, unit: 'mg/L', optimal: { min: 0, max: 0.5 } },
-    nitrite: { min: 0, max: 1, unit: 'mg/L', optimal: { min: 0, max: 0.3 } },
-    nitrate: { min: 0, max: 100, unit: 'mg/L', optimal: { min: 0, max: 50 } },
-    alkalinity: { min: 50, max: 180, unit: 'mg/L', optimal: { min: 80, max: 140 } },
-    hardness: { min: 50, max: 180, unit: 'mg/L', optimal: { min: 80, max: 140 } },
-    turbidity: { min: 0, max: 50, unit: 'NTU', optimal: { min: 5, max: 25 } },
-  },
+// Display units for the parameters this page records; ranges come from the species catalog.
+const parameterUnits: Record<string, string> = {
+  temperature: '°C',
+  dissolvedOxygen: 'mg/L',
+  ph: 'pH',
+  ammonia: 'mg/L',
+  nitrite: 'mg/L',
+  nitrate: 'mg/L',
+  alkalinity: 'mg/L',
+  hardness: 'mg/L',
+  turbidity: 'NTU',
+};
+
+const getSpeciesParameters = (species?: SpeciesProfile): Record<string, ParameterRange> => {
+  if (!species) return {};
+  return Object.fromEntries(
+    Object.entries(parameterUnits).map(([param, unit]) => [
+      param,
+      { ...species.waterQuality[param as WaterParameter], unit },
+    ])
+  );
 };
 
 const initialFormData: WaterQualityData = {
@@ -97,11 +89,27 @@ const initialFormData: WaterQualityData = {
   timestamp: new Date().toISOString(),
 };
 
+// Stored readings name pH with a capital H; everything else matches this page's keys.
+const toReadingKey = (param: string) => (param === 'ph' ? 'pH' : param) as WaterQualityParameter;
+
 const WaterQuality: React.FC = () => {
+  const { catalog } = useSpeciesCatalog();
   const [formData, setFormData] = useState<WaterQualityData>(initialFormData);
-  const [history, setHistory] = useState<WaterQualityData[]>([]);
+  const [pondId, setPondId] = useState('');
+  const [sampler, setSampler] = useState('');
+  const [readings] = useCollection('waterQualityReadings');
   const [selectedParameter, setSelectedParameter] = useState<string>('temperature');
 
+  const history = readings
+    .filter((reading) => reading.pondId === pondId)
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .map((reading) => ({
+      timestamp: reading.takenAt,
+      ...Object.fromEntries(Object.keys(parameterUnits).map((param) => [param, reading.values[toReadingKey(param)]])),
+    }));
+
+  const speciesParameters = (speciesId: string) => getSpeciesParameters(findSpecies(catalog, speciesId));
+
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
     setFormData(prev => ({
@@ -122,14 +130,32 @@ const WaterQuality: React.FC = () => {
     setSelectedParameter(event.target.value);
   };
 
-  const addRecord = () => {
-    if (!formData.species) return;
-    setHistory(prev => [...prev, formData]);
-    setFormData(initialFormData);
+  // Zero is how this form shows an empty field, so only entered values are stored.
+  const addRecord = async () => {
+    if (!formData.species || !pondId) return;
+    const values = Object.fromEntries(
+      Object.keys(speciesParameters(formData.species))
+        .filter((param) => Number(formData[param as keyof WaterQualityData]) !== 0)
+        .map((param) => [toReadingKey(param), Number(formData[param as keyof WaterQualityData])])
+    );
+    try {
+      await putRecord('waterQualityReadings', {
+        id: Date.now().toString(),
+        pondId,
+        takenAt: new Date().toISOString(),
+        sampler,
+        source: 'manual',
+        values,
+        notes: '',
+      });
+      setFormData({ ...initialFormData, species: formData.species });
+    } catch (error) {
+      console.error('Failed to save water-quality reading', error);
+    }
   };
 
   const getParameterStatus = (value: number, parameter: string, species: string): 'success' | 'warning' | 'error' => {
-    const ranges = speciesParameters[species][parameter];
+    const ranges = speciesParameters(species)[parameter];
     if (!ranges) return 'error';
 
     if (value >= ranges.optimal.min && value <= ranges.optimal.max) return 'success';
@@ -140,7 +166,7 @@ const WaterQuality: React.FC = () => {
   const generateRecommendations = (): string[] => {
     if (!formData.species) return [];
     const recommendations: string[] = [];
-    const params = speciesParameters[formData.species];
+    const params = speciesParameters(formData.species);
 
     Object.entries(formData).forEach(([key, value]) => {
       if (key in params) {
@@ -178,6 +204,17 @@ const WaterQuality: React.FC = () => {
                   Input Parameters
                 </Typography>
                 <Grid container spacing={2}>
+                  <Grid item xs={12}>
+                    <PondPicker value={pondId} onChange={(pond: Pond | null) => setPondId(pond?.id ?? '')} />
+                  </Grid>
+                  <Grid item xs={12}>
+                    <TextField
+                      fullWidth
+                      label="Sampler"
+                      value={sampler}
+                      onChange={(event) => setSampler(event.target.value)}
+                    />
+                  </Grid>
                   <Grid item xs={12}>
                     <FormControl fullWidth>
                       <InputLabel>Species</InputLabel>
@@ -186,13 +223,15 @@ const WaterQuality: React.FC = () => {
                         label="Species"
                         onChange={handleSpeciesChange}
                       >
-                        <MenuItem value="tilapia">Tilapia</MenuItem>
-                        <MenuItem value="carp">Carp</MenuItem>
-                        <MenuItem value="catfish">Catfish</MenuItem>
+                        {catalog.map((species) => (
+                          <MenuItem key={species.id} value={species.id}>
+                            {species.name}
+                          </MenuItem>
+                        ))}
                       </Select>
                     </FormControl>
                   </Grid>
-                  {formData.species && Object.entries(speciesParameters[formData.species]).map(([param, range]) => (
+                  {formData.species && Object.entries(speciesParameters(formData.species)).map(([param, range]) => (
                     <Grid item xs={12} key={param}>
                       <TextField
                         fullWidth
@@ -211,11 +250,16 @@ const WaterQuality: React.FC = () => {
                 <Button
                   variant="contained"
                   onClick={addRecord}
-                  disabled={!formData.species}
+                  disabled={!formData.species || !pondId}
                   sx={{ mt: 2 }}
                 >
                   Add Record
                 </Button>
+                {!pondId && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    Choose a pond to save records to its history.
+                  </Typography>
+                )}
               </CardContent>
             </Card>
           </Grid>
@@ -239,7 +283,7 @@ const WaterQuality: React.FC = () => {
                           </TableRow>
                         </TableHead>
                         <TableBody>
-                          {Object.entries(speciesParameters[formData.species]).map(([param, range]) => (
+                          {Object.entries(speciesParameters(formData.species)).map(([param, range]) => (
                             <TableRow key={param}>
                               <TableCell>{param}</TableCell>
                               <TableCell>
@@ -302,7 +346,7 @@ const WaterQuality: React.FC = () => {
                           label="Parameter"
                           onChange={handleParameterChange}
                         >
-                          {Object.keys(speciesParameters[history[0].species]).map(param => (
+                          {Object.keys(parameterUnits).map(param => (
                             <MenuItem key={param} value={param}>
                               {param.charAt(0).toUpperCase() + param.slice(1)}
                             </MenuItem>
@@ -316,7 +360,7 @@ const WaterQuality: React.FC = () => {
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis
                             dataKey="timestamp"
-                            tickFormatter={(value) => new Date(value).toLocaleTimeString()}
+                            tickFormatter={(value) => new Date(value).toLocaleDateString()}
                           />
                           <YAxis />
                           <Legend />
@@ -325,6 +369,7 @@ const WaterQuality: React.FC = () => {
                             dataKey={selectedParameter}
                             stroke="#8884d8"
                             name={selectedParameter}
+                            connectNulls
                           />
                         </LineChart>
                       </ResponsiveContainer>
@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react';
+import { Link as RouterLink, useSearchParams } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Paper,
+  Grid,
+  Alert,
+  Box,
+  Chip,
+  IconButton,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import FormField from '../components/FormField';
+import { useLanguage } from '../contexts/LanguageContext';
+import { deleteRecord, useCollection } from '../db';
+import { analyzeParameter, parameterStats, waterQualityParameters } from '../engine';
+import type { QualityStatus } from '../engine';
+import type { WaterQualityParameter, WaterQualityReading } from '../types/records';
+
+const parameters = Object.keys(waterQualityParameters) as WaterQualityParameter[];
+
+const parameterOptions = parameters.map((parameter) => ({
+  value: parameter,
+  label: waterQualityParameters[parameter].name,
+}));
+
+const periodOptions = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'all', label: 'All readings' },
+];
+
+// One colour per compared pond, in selection order.
+const pondColors = ['#8884d8', '#82ca9d', '#ff7300', '#0088FE', '#d0457a', '#a0522d'];
+
+const statusColor: Record<QualityStatus, 'success' | 'warning' | 'error'> = {
+  Optimal: 'success',
+  Warning: 'warning',
+  Critical: 'error',
+};
+
+const formatValue = (value: number) => String(Math.round(value * 100) / 100);
+
+export default function WaterQualityHistory() {
+  const { t } = useLanguage();
+  const [searchParams] = useSearchParams();
+  const [ponds] = useCollection('ponds');
+  const [readings] = useCollection('waterQualityReadings');
+  const [selectedPonds, setSelectedPonds] = useState<string[]>(() =>
+    searchParams.get('pond') ? [searchParams.get('pond')!] : []
+  );
+  const [selectedParameters, setSelectedParameters] = useState<string[]>(['dissolvedOxygen', 'temperature', 'pH']);
+  const [period, setPeriod] = useState('30');
+
+  // Until ponds are chosen, compare every pond that has readings.
+  const pondIds = useMemo(
+    () =>
+      selectedPonds.length
+        ? selectedPonds
+        : ponds.filter((pond) => readings.some((reading) => reading.pondId === pond.id)).map((pond) => pond.id),
+    [selectedPonds, ponds, readings]
+  );
+  const pondName = (id: string) => ponds.find((pond) => pond.id === id)?.name ?? t('Deleted pond');
+
+  const inPeriod = useMemo(() => {
+    const since = period === 'all' ? '' : new Date(Date.now() - Number(period) * 86400000).toISOString();
+    return readings
+      .filter((reading) => pondIds.includes(reading.pondId) && reading.takenAt >= since)
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  }, [readings, pondIds, period]);
+
+  const byPond = (pondId: string) => inPeriod.filter((reading) => reading.pondId === pondId);
+
+  const handleDelete = async (reading: WaterQualityReading) => {
+    try {
+      await deleteRecord('waterQualityReadings', reading.id);
+    } catch (error) {
+      console.error('Failed to delete reading', error);
+    }
+  };
+
+  const renderChart = (parameter: WaterQualityParameter) => {
+    const range = waterQualityParameters[parameter];
+    const series = pondIds.map((pondId) => ({
+      pondId,
+      points: byPond(pondId)
+        .filter((reading) => reading.values[parameter] !== undefined)
+        .map((reading) => ({ time: new Date(reading.takenAt).getTime(), value: reading.values[parameter]! })),
+    }));
+    const values = series.flatMap((line) => line.points.map((point) => point.value));
+    if (!values.length) return null;
+
+    // Keep the warning limits in view so the bands show how close readings are to them.
+    const low = Math.min(...values, range.warning.min);
+    const high = Math.max(...values, range.warning.max);
+    const pad = (high - low) * 0.1 || 1;
+    const domain: [number, number] = [Math.max(0, low - pad), high + pad];
+
+    return (
+      <Grid item xs={12} md={selectedParameters.length > 1 ? 6 : 12} key={parameter}>
+        <Paper variant="outlined" sx={{ p: 2 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            {t(range.name)}
+            {range.unit && ` (${range.unit})`}
+          </Typography>
+          <Box sx={{ height: 280 }}>
+            <ResponsiveContainer>
+              <LineChart margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(time) => new Date(time).toLocaleDateString()}
+                />
+                <YAxis domain={domain} allowDataOverflow tickFormatter={formatValue} />
+                <ReferenceArea y1={domain[0]} y2={range.warning.min} fill="#f44336" fillOpacity={0.12} ifOverflow="hidden" />
+                <ReferenceArea y1={range.warning.min} y2={range.optimal.min} fill="#ff9800" fillOpacity={0.12} ifOverflow="hidden" />
+                <ReferenceArea y1={range.optimal.min} y2={range.optimal.max} fill="#4caf50" fillOpacity={0.12} ifOverflow="hidden" />
+                <ReferenceArea y1={range.optimal.max} y2={range.warning.max} fill="#ff9800" fillOpacity={0.12} ifOverflow="hidden" />
+                <ReferenceArea y1={range.warning.max} y2={domain[1]} fill="#f44336" fillOpacity={0.12} ifOverflow="hidden" />
+                <ChartTooltip
+                  labelFormatter={(time) => new Date(Number(time)).toLocaleString()}
+                  formatter={(value: number) => [`${formatValue(value)} ${range.unit}`]}
+                />
+                <Legend />
+                {series.map((line, index) => (
+                  <Line
+                    key={line.pondId}
+                    data={line.points}
+                    dataKey="value"
+                    name={pondName(line.pondId)}
+                    stroke={pondColors[index % pondColors.length]}
+                    dot={line.points.length < 60}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+        </Paper>
+      </Grid>
+    );
+  };
+
+  const charts = (selectedParameters as WaterQualityParameter[]).map(renderChart).filter(Boolean);
+  const recent = [...inPeriod].reverse().slice(0, 100);
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        {t('Water Quality History')}
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        {t('Trends, statistics and pond-by-pond comparison of every saved water-quality reading. Shaded bands mark the optimal (green), warning (amber) and critical (red) ranges.')}
+      </Typography>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <FormField
+              label="Ponds"
+              type="multiselect"
+              value={selectedPonds}
+              onChange={(value) => setSelectedPonds(value as string[])}
+              options={ponds.map((pond) => ({ value: pond.id, label: pond.name }))}
+              helperText="Leave empty to compare every pond with readings"
+            />
+          </Grid>
+          <Grid item xs={12} md={5}>
+            <FormField
+              label="Parameters"
+              type="multiselect"
+              value={selectedParameters}
+              onChange={(value) => setSelectedParameters(value as string[])}
+              options={parameterOptions}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <FormField
+              label="Period"
+              type="select"
+              value={period}
+              onChange={(value) => setPeriod(String(value))}
+              options={periodOptions}
+            />
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {inPeriod.length === 0 ? (
+        <Alert severity="info">
+          {t('No readings in this period.')}{' '}
+          <Link component={RouterLink} to="/water-quality-monitor">
+            {t('Record or import readings in the Water Quality Monitor.')}
+          </Link>
+        </Alert>
+      ) : (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            {charts.length ? (
+              charts
+            ) : (
+              <Grid item xs={12}>
+                <Alert severity="info">{t('None of the chosen parameters were measured in this period.')}</Alert>
+              </Grid>
+            )}
+          </Grid>
+
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Statistics')}
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('Parameter')}</TableCell>
+                    <TableCell>{t('Pond')}</TableCell>
+                    <TableCell align="right">{t('Readings')}</TableCell>
+                    <TableCell align="right">{t('Min')}</TableCell>
+                    <TableCell align="right">{t('Mean')}</TableCell>
+                    <TableCell align="right">{t('Max')}</TableCell>
+                    <TableCell align="right">{t('Latest')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {(selectedParameters as WaterQualityParameter[]).flatMap((parameter) =>
+                    pondIds.map((pondId) => {
+                      const stats = parameterStats(byPond(pondId), parameter);
+                      if (!stats) return null;
+                      const status = analyzeParameter(parameter, stats.latest).status;
+                      return (
+                        <TableRow key={`${parameter}-${pondId}`}>
+                          <TableCell>{t(waterQualityParameters[parameter].name)}</TableCell>
+                          <TableCell>{pondName(pondId)}</TableCell>
+                          <TableCell align="right">{stats.count}</TableCell>
+                          <TableCell align="right">{formatValue(stats.min)}</TableCell>
+                          <TableCell align="right">{formatValue(stats.mean)}</TableCell>
+                          <TableCell align="right">{formatValue(stats.max)}</TableCell>
+                          <TableCell align="right">
+                            <Tooltip title={new Date(stats.latestAt).toLocaleString()}>
+                              <Chip
+                                size="small"
+                                variant="outlined"
+                                color={statusColor[status]}
+                                label={`${formatValue(stats.latest)} ${waterQualityParameters[parameter].unit}`}
+                              />
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('Readings')}
+            </Typography>
+            <TableContainer sx={{ maxHeight: 480 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('Taken')}</TableCell>
+                    <TableCell>{t('Pond')}</TableCell>
+                    <TableCell>{t('Sampler')}</TableCell>
+                    <TableCell>{t('Values')}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {recent.map((reading) => (
+                    <TableRow key={reading.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>{new Date(reading.takenAt).toLocaleString()}</TableCell>
+                      <TableCell>{pondName(reading.pondId)}</TableCell>
+                      <TableCell>{reading.sampler || '—'}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                          {(Object.entries(reading.values) as [WaterQualityParameter, number][]).map(
+                            ([parameter, value]) => (
+                              <Chip
+                                key={parameter}
+                                size="small"
+                                variant="outlined"
+                                color={statusColor[analyzeParameter(parameter, value).status]}
+                                label={`${t(waterQualityParameters[parameter].name)}: ${formatValue(value)}`}
+                              />
+                            )
+                          )}
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right">
+                        <IconButton size="small" onClick={() => handleDelete(reading)} aria-label={t('Delete')}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {inPeriod.length > recent.length && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {t('Showing the latest {count} of {total} readings.', { count: recent.length, total: inPeriod.length })}
+              </Typography>
+            )}
+          </Paper>
+        </>
+      )}
+    </Container>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Container,
   Typography,
@@ -13,11 +14,38 @@ import {
   LinearProgress,
   Tooltip,
   IconButton,
+  Stack,
+  TextField,
 } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
 import WarningIcon from '@mui/icons-material/Warning';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { ShowChart, Tune, UploadFile } from '@mui/icons-material';
+import BatchPicker from '../components/BatchPicker';
 import FormField from '../components/FormField';
+import LiveReadings from '../components/LiveReadings';
+import PondPicker from '../components/PondPicker';
+import PondRangesDialog from '../components/PondRangesDialog';
+import WaterQualityImport from '../components/WaterQualityImport';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSite } from '../contexts/SiteContext';
+import { putRecord, useCollection } from '../db';
+import {
+  analyzeParameter,
+  assessAmmonia,
+  assessNitrite,
+  oxygenSaturation,
+  overallQualityStatus,
+  SUPERSATURATION_LIMIT,
+  toxicityThresholds,
+  waterQualityParameters as parameterRanges,
+  waterQualityRangesFor,
+} from '../engine';
+import type { AmmoniaAssessment, NitriteAssessment, QualityAnalysis, QualityStatus } from '../engine';
+import { findSpecies, growthStageForWeight, growthStageOptions, speciesOptions, useSpeciesCatalog } from '../species';
+import type { GrowthStage } from '../species';
+import type { Batch, Pond, WaterQualityParameter, WaterQualityReading } from '../types/records';
+import { getCurrentWeight, isActiveBatch } from '../utils/batches';
 
 interface WaterQualityData {
   dissolvedOxygen: string;
@@ -32,178 +60,7 @@ interface WaterQualityData {
   turbidity: string;
   phosphate: string;
   carbonDioxide: string;
-}
-
-interface ParameterRange {
-  name: string;
-  unit: string;
-  optimal: {
-    min: number;
-    max: number;
-  };
-  warning: {
-    min: number;
-    max: number;
-  };
-  critical: {
-    min: number;
-    max: number;
-  };
-  recommendations: string[];
-}
-
-const parameterRanges: Record<string, ParameterRange> = {
-  dissolvedOxygen: {
-    name: 'Dissolved Oxygen',
-    unit: 'mg/L',
-    optimal: { min: 5, max: 8 },
-    warning: { min: 3, max: 10 },
-    critical: { min: 2, max: 12 },
-    recommendations: [
-      'Increase aeration if levels are low',
-      'Check stocking density if consistently low',
-      'Monitor feeding rate if levels fluctuate',
-    ],
-  },
-  temperature: {
-    name: 'Temperature',
-    unit: '°C',
-    optimal: { min: 25, max: 30 },
-    warning: { min: 20, max: 32 },
-    critical: { min: 15, max: 35 },
-    recommendations: [
-      'Use shading during hot periods',
-      'Adjust feeding based on temperature',
-      'Consider water exchange in extreme conditions',
-    ],
-  },
-  pH: {
-    name: 'pH',
-    unit: '',
-    optimal: { min: 6.5, max: 8.5 },
-    warning: { min: 6.0, max: 9.0 },
-    critical: { min: 5.5, max: 9.5 },
-    recommendations: [
-      'Add lime if pH is low',
-      'Check alkalinity levels',
-      'Monitor after heavy rain',
-    ],
-  },
-  ammonia: {
-    name: 'Ammonia',
-    unit: 'mg/L',
-    optimal: { min: 0, max: 0.5 },
-    warning: { min: 0, max: 1.0 },
-    critical: { min: 0, max: 2.0 },
-    recommendations: [
-      'Reduce feeding if levels are high',
-      'Increase water exchange',
-      'Check biofilter efficiency',
-    ],
-  },
-  nitrite: {
-    name: 'Nitrite',
-    unit: 'mg/L',
-    optimal: { min: 0, max: 0.1 },
-    warning: { min: 0, max: 0.5 },
-    critical: { min: 0, max: 1.0 },
-    recommendations: [
-      'Add salt to reduce toxicity',
-      'Check nitrifying bacteria',
-      'Increase oxygenation',
-    ],
-  },
-  nitrate: {
-    name: 'Nitrate',
-    unit: 'mg/L',
-    optimal: { min: 0, max: 50 },
-    warning: { min: 0, max: 100 },
-    critical: { min: 0, max: 200 },
-    recommendations: [
-      'Regular water exchange',
-      'Monitor plant growth',
-      'Check denitrification',
-    ],
-  },
-  alkalinity: {
-    name: 'Alkalinity',
-    unit: 'mg/L CaCO3',
-    optimal: { min: 100, max: 200 },
-    warning: { min: 50, max: 300 },
-    critical: { min: 20, max: 400 },
-    recommendations: [
-      'Add buffer if low',
-      'Check limestone addition',
-      'Monitor pH stability',
-    ],
-  },
-  hardness: {
-    name: 'Hardness',
-    unit: 'mg/L CaCO3',
-    optimal: { min: 100, max: 250 },
-    warning: { min: 50, max: 350 },
-    critical: { min: 20, max: 450 },
-    recommendations: [
-      'Add calcium if low',
-      'Check mineral content',
-      'Balance with alkalinity',
-    ],
-  },
-  salinity: {
-    name: 'Salinity',
-    unit: 'ppt',
-    optimal: { min: 0, max: 5 },
-    warning: { min: 0, max: 10 },
-    critical: { min: 0, max: 15 },
-    recommendations: [
-      'Adjust based on species',
-      'Monitor after rain',
-      'Check evaporation rate',
-    ],
-  },
-  turbidity: {
-    name: 'Turbidity',
-    unit: 'NTU',
-    optimal: { min: 0, max: 30 },
-    warning: { min: 0, max: 50 },
-    critical: { min: 0, max: 100 },
-    recommendations: [
-      'Use settling tanks',
-      'Add mechanical filtration',
-      'Check erosion sources',
-    ],
-  },
-  phosphate: {
-    name: 'Phosphate',
-    unit: 'mg/L',
-    optimal: { min: 0, max: 0.5 },
-    warning: { min: 0, max: 1.0 },
-    critical: { min: 0, max: 2.0 },
-    recommendations: [
-      'Control feed waste',
-      'Monitor algae growth',
-      'Check fertilization rate',
-    ],
-  },
-  carbonDioxide: {
-    name: 'Carbon Dioxide',
-    unit: 'mg/L',
-    optimal: { min: 0, max: 10 },
-    warning: { min: 0, max: 15 },
-    critical: { min: 0, max: 20 },
-    recommendations: [
-      'Increase aeration',
-      'Check respiration rate',
-      'Monitor plant density',
-    ],
-  },
-};
-
-interface QualityAnalysis {
-  parameter: string;
-  value: number;
-  status: 'Optimal' | 'Warning' | 'Critical';
-  recommendations: string[];
+  chloride: string;
 }
 
 const initialFormData: WaterQualityData = {
@@ -219,66 +76,153 @@ const initialFormData: WaterQualityData = {
   turbidity: '',
   phosphate: '',
   carbonDioxide: '',
+  chloride: '',
 };
 
+// Value for a datetime-local input, which takes local time without a zone.
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
 export default function WaterQualityMonitor() {
+  const { t } = useLanguage();
+  const { catalog } = useSpeciesCatalog();
+  const { pressure } = useSite();
   const [formData, setFormData] = useState<WaterQualityData>(initialFormData);
   const [analysis, setAnalysis] = useState<QualityAnalysis[]>([]);
-  const [overallStatus, setOverallStatus] = useState<'Optimal' | 'Warning' | 'Critical' | null>(null);
+  const [overallStatus, setOverallStatus] = useState<QualityStatus | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [pondId, setPondId] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
+  const [takenAt, setTakenAt] = useState(() => toLocalInput(new Date()));
+  const [sampler, setSampler] = useState('');
+  // True while the form shows a reading that is already in the history.
+  const [saved, setSaved] = useState(false);
+  const [readings] = useCollection('waterQualityReadings');
+  const [batches] = useCollection('batches');
+  const [ponds] = useCollection('ponds');
+  const [batchId, setBatchId] = useState('');
+  const [speciesId, setSpeciesId] = useState('');
+  const [stage, setStage] = useState<GrowthStage | ''>('');
+  const [rangesOpen, setRangesOpen] = useState(false);
+  const [ammonia, setAmmonia] = useState<AmmoniaAssessment | null>(null);
+  const [nitrite, setNitrite] = useState<NitriteAssessment | null>(null);
+  const [saturation, setSaturation] = useState<number | null>(null);
+
+  const pondReadings = readings
+    .filter((reading) => reading.pondId === pondId)
+    .sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const latestReading = pondReadings[0];
+  const pond = ponds.find((candidate) => candidate.id === pondId);
+  const species = findSpecies(catalog, speciesId);
+  const stockRanges = waterQualityRangesFor({ species, stage: stage || undefined });
+  const ranges = waterQualityRangesFor({ species, stage: stage || undefined, custom: pond?.waterQualityRanges });
+  const customCount = Object.keys(pond?.waterQualityRanges ?? {}).length;
+
+  // Species and life stage from a batch, by the weight of its latest growth sample.
+  const applyBatch = (batch: Batch | null) => {
+    setBatchId(batch?.id ?? '');
+    if (!batch) return;
+    setSpeciesId(batch.speciesId);
+    setStage(growthStageForWeight(getCurrentWeight(batch)));
+  };
 
-  const handleChange = (field: keyof WaterQualityData) => (value: string) => {
-    setFormData((prev) => ({ ...prev, [field]: value }));
+  // Prefills the form with the pond's most recent saved reading.
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setShowResults(false);
+    const stocked = batches.find((batch) => batch.pondId === pond?.id && isActiveBatch(batch));
+    if (stocked) applyBatch(stocked);
+    const latest = readings
+      .filter((reading) => reading.pondId === pond?.id)
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt))[0];
+    setSaved(Boolean(latest));
+    setFormData(
+      latest
+        ? {
+            ...initialFormData,
+            ...Object.fromEntries(
+              (Object.entries(latest.values) as [WaterQualityParameter, number][]).map(([key, value]) => [
+                key,
+                String(value),
+              ])
+            ),
+          }
+        : initialFormData
+    );
   };
 
-  const analyzeParameter = (
-    parameter: keyof WaterQualityData,
-    value: number
-  ): QualityAnalysis => {
-    const range = parameterRanges[parameter];
-    let status: 'Optimal' | 'Warning' | 'Critical';
-
-    if (value >= range.optimal.min && value <= range.optimal.max) {
-      status = 'Optimal';
-    } else if (value >= range.warning.min && value <= range.warning.max) {
-      status = 'Warning';
-    } else {
-      status = 'Critical';
-    }
+  // Fills the form from the pond's sensors; the sensor feed saves its own readings when recording.
+  const handleLiveValues = (values: WaterQualityReading['values'], liveTakenAt: string, recorded: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      ...Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)])),
+    }));
+    setTakenAt(toLocalInput(new Date(liveTakenAt)));
+    setSaved(recorded);
+  };
 
-    return {
-      parameter: range.name,
-      value,
-      status,
-      recommendations: range.recommendations,
-    };
+  const handleChange = (field: keyof WaterQualityData) => (value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setSaved(false);
   };
 
-  const handleAnalyze = () => {
+  const handleAnalyze = async () => {
     const results: QualityAnalysis[] = [];
-    let criticalCount = 0;
-    let warningCount = 0;
+    const values: WaterQualityReading['values'] = {};
 
     Object.entries(formData).forEach(([param, valueStr]) => {
       if (valueStr) {
         const value = parseFloat(valueStr);
-        const result = analyzeParameter(param as keyof WaterQualityData, value);
-        results.push(result);
+        results.push(analyzeParameter(param as keyof WaterQualityData, value, ranges));
+        values[param as keyof WaterQualityData] = value;
+      }
+    });
 
-        if (result.status === 'Critical') criticalCount++;
-        if (result.status === 'Warning') warningCount++;
+    // Toxicity depends on the water around the reading, so it overrides the plain range check.
+    const thresholds = toxicityThresholds(species);
+    const ammoniaResult =
+      values.ammonia !== undefined && values.pH !== undefined && values.temperature !== undefined
+        ? assessAmmonia(
+            { totalAmmonia: values.ammonia, pH: values.pH, temperature: values.temperature, salinity: values.salinity },
+            thresholds
+          )
+        : null;
+    const nitriteResult =
+      values.nitrite !== undefined
+        ? assessNitrite({ nitrite: values.nitrite, chloride: values.chloride, salinity: values.salinity }, thresholds)
+        : null;
+    results.forEach((result) => {
+      if (result.parameter === parameterRanges.ammonia.name && ammoniaResult) result.status = ammoniaResult.status;
+      if (result.parameter === parameterRanges.nitrite.name && nitriteResult?.status) {
+        result.status = nitriteResult.status;
       }
     });
+    setAmmonia(ammoniaResult);
+    setNitrite(nitriteResult);
+    setSaturation(
+      values.temperature !== undefined
+        ? oxygenSaturation({ temperature: values.temperature, salinity: values.salinity, pressure })
+        : null
+    );
 
     setAnalysis(results);
     setShowResults(true);
-
-    if (criticalCount > 0) {
-      setOverallStatus('Critical');
-    } else if (warningCount > 0) {
-      setOverallStatus('Warning');
-    } else {
-      setOverallStatus('Optimal');
+    setOverallStatus(overallQualityStatus(results));
+
+    if (!pondId || saved) return;
+    try {
+      await putRecord('waterQualityReadings', {
+        id: Date.now().toString(),
+        pondId,
+        takenAt: new Date(takenAt || Date.now()).toISOString(),
+        sampler,
+        source: 'manual',
+        values,
+        notes: '',
+      });
+      setSaved(true);
+    } catch (error) {
+      console.error('Failed to save water-quality reading', error);
     }
   };
 
@@ -299,22 +243,130 @@ export default function WaterQualityMonitor() {
     <Container maxWidth="lg">
       <Paper sx={{ p: 3, mb: 3 }}>
         <Typography variant="h5" gutterBottom>
-          Water Quality Monitor
+          {t('Water Quality Monitor')}
         </Typography>
         <Typography color="text.secondary" paragraph>
-          Monitor and analyze your pond's water quality parameters
+          {t("Monitor and analyze your pond's water quality parameters")}
         </Typography>
 
+        <Grid container spacing={3} sx={{ mb: 3 }} alignItems="flex-start">
+          <Grid item xs={12} md={8}>
+            <PondPicker value={pondId} onChange={handlePondSelect} />
+            {pondId && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {latestReading
+                  ? t('{count} saved readings. Showing the latest, taken {date}.', {
+                      count: pondReadings.length,
+                      date: new Date(latestReading.takenAt).toLocaleString(),
+                    })
+                  : t('No saved readings for this pond yet.')}
+              </Typography>
+            )}
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <Stack direction="row" spacing={1} justifyContent={{ md: 'flex-end' }}>
+              <Button variant="outlined" startIcon={<UploadFile />} onClick={() => setImportOpen(true)}>
+                {t('Import readings')}
+              </Button>
+              <Button
+                component={RouterLink}
+                to={pondId ? `/water-quality-history?pond=${pondId}` : '/water-quality-history'}
+                startIcon={<ShowChart />}
+              >
+                {t('History')}
+              </Button>
+            </Stack>
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <TextField
+              fullWidth
+              label={t('Sampled at')}
+              type="datetime-local"
+              value={takenAt}
+              onChange={(event) => {
+                setTakenAt(event.target.value);
+                setSaved(false);
+              }}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <BatchPicker
+              value={batchId}
+              onChange={applyBatch}
+              label={t('Batch')}
+              statuses={['stocked', 'growing', 'harvesting']}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Species"
+              value={speciesId}
+              onChange={(value) => setSpeciesId(String(value))}
+              type="select"
+              options={speciesOptions(catalog)}
+              helperText="Sets the ranges and the ammonia and nitrite toxicity limits"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Life stage"
+              value={stage}
+              onChange={(value) => setStage(value as GrowthStage)}
+              type="select"
+              options={growthStageOptions}
+              helperText="Fry need more oxygen and cleaner water"
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={4}>
+            <FormField
+              label="Sampler"
+              value={sampler}
+              onChange={(value) => {
+                setSampler(String(value));
+                setSaved(false);
+              }}
+            />
+          </Grid>
+        </Grid>
+
+        <LiveReadings pondId={pondId} onUse={handleLiveValues} />
+
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          spacing={1}
+          justifyContent="space-between"
+          alignItems={{ sm: 'center' }}
+          sx={{ mb: 2 }}
+        >
+          <Typography variant="body2" color="text.secondary">
+            {species
+              ? t('Ranges for {species}, {stage}.', {
+                  species: species.name,
+                  stage: t(stage ? growthStageOptions.find((option) => option.value === stage)!.label : 'all stages'),
+                })
+              : t('Generic warmwater ranges. Choose a species or batch for its own.')}
+            {customCount > 0 && ` ${t('{count} parameters use custom ranges set for this pond.', { count: customCount })}`}
+          </Typography>
+          <Button startIcon={<Tune />} onClick={() => setRangesOpen(true)} disabled={!pond}>
+            {t('Custom ranges')}
+          </Button>
+        </Stack>
+
         <Grid container spacing={3}>
-          {Object.entries(parameterRanges).map(([key, param]) => (
+          {Object.entries(ranges).map(([key, param]) => (
             <Grid item xs={12} sm={6} md={4} key={key}>
               <FormField
-                label={`${param.name} (${param.unit})`}
+                label={param.unit ? `${t(param.name)} (${param.unit})` : t(param.name)}
                 value={formData[key as keyof WaterQualityData]}
                 onChange={handleChange(key as keyof WaterQualityData)}
                 type="number"
                 required
-                helperText={`Optimal: ${param.optimal.min}-${param.optimal.max} ${param.unit}`}
+                helperText={
+                  param.basis === 'pond'
+                    ? t('Pond range, optimal: {min}-{max} {unit}', { ...param.optimal, unit: param.unit })
+                    : t('Optimal: {min}-{max} {unit}', { ...param.optimal, unit: param.unit })
+                }
               />
             </Grid>
           ))}
@@ -326,7 +378,7 @@ export default function WaterQualityMonitor() {
             onClick={handleAnalyze}
             disabled={Object.values(formData).every((v) => !v)}
           >
-            Analyze Parameters
+            {t('Analyze Parameters')}
           </Button>
         </Box>
       </Paper>
@@ -335,10 +387,15 @@ export default function WaterQualityMonitor() {
         <Paper sx={{ p: 3 }}>
           {overallStatus && (
             <Alert severity={getStatusColor(overallStatus)} sx={{ mb: 3 }}>
-              <AlertTitle>Overall Status: {overallStatus}</AlertTitle>
-              {overallStatus === 'Critical' && 'Immediate action required!'}
-              {overallStatus === 'Warning' && 'Some parameters need attention.'}
-              {overallStatus === 'Optimal' && 'All parameters are within optimal range.'}
+              <AlertTitle>{t('Overall Status: {status}', { status: t(overallStatus) })}</AlertTitle>
+              {overallStatus === 'Critical' && t('Immediate action required!')}
+              {overallStatus === 'Warning' && t('Some parameters need attention.')}
+              {overallStatus === 'Optimal' && t('All parameters are within optimal range.')}
+            </Alert>
+          )}
+          {!pondId && (
+            <Alert severity="info" sx={{ mb: 3 }}>
+              {t('Choose a pond to keep readings in its history.')}
             </Alert>
           )}
 
@@ -355,28 +412,62 @@ export default function WaterQualityMonitor() {
                 >
                   <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                     <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>
-                      {result.parameter}
+                      {t(result.parameter)}
                     </Typography>
                     <Chip
-                      label={result.status}
+                      label={t(result.status)}
                       color={getStatusColor(result.status)}
                       size="small"
                     />
                   </Box>
                   <Typography variant="h6" gutterBottom>
-                    {result.value} {parameterRanges[Object.keys(parameterRanges).find(
-                      (key) => parameterRanges[key].name === result.parameter
-                    ) as string]?.unit}
+                    {result.value} {Object.values(parameterRanges).find(
+                      (range) => range.name === result.parameter
+                    )?.unit}
                   </Typography>
+                  {result.parameter === parameterRanges.dissolvedOxygen.name && (
+                    <Typography
+                      variant="body2"
+                      color={
+                        saturation && (result.value / saturation) * 100 > SUPERSATURATION_LIMIT
+                          ? 'warning.main'
+                          : 'text.secondary'
+                      }
+                    >
+                      {saturation
+                        ? t('{percent}% of saturation ({saturation} mg/L at this site)', {
+                            percent: ((result.value / saturation) * 100).toFixed(0),
+                            saturation: saturation.toFixed(2),
+                          })
+                        : t('Enter temperature to see percent saturation.')}
+                    </Typography>
+                  )}
+                  {result.parameter === parameterRanges.ammonia.name && (
+                    <Typography variant="body2" color="text.secondary">
+                      {ammonia
+                        ? t('Un-ionized NH₃: {value} mg/L ({percent}% of total ammonia)', {
+                            value: ammonia.unionized.toFixed(3),
+                            percent: (ammonia.fraction * 100).toFixed(1),
+                          })
+                        : t('Enter pH and temperature to judge the toxic NH₃ share.')}
+                    </Typography>
+                  )}
+                  {result.parameter === parameterRanges.nitrite.name && nitrite && (nitrite.ratio !== null || !nitrite.status) && (
+                    <Typography variant="body2" color="text.secondary">
+                      {nitrite.ratio !== null
+                        ? t('Chloride to nitrite ratio: {ratio}:1', { ratio: nitrite.ratio.toFixed(1) })
+                        : t('Enter chloride or salinity to judge nitrite toxicity.')}
+                    </Typography>
+                  )}
                   <Divider sx={{ my: 1 }} />
                   <Typography variant="subtitle2" gutterBottom>
-                    Recommendations:
+                    {t('Recommendations:')}
                   </Typography>
                   <ul style={{ margin: 0, paddingLeft: '1.2rem' }}>
                     {result.recommendations.map((rec, index) => (
                       <li key={index}>
                         <Typography variant="body2" color="text.secondary">
-                          {rec}
+                          {t(rec)}
                         </Typography>
                       </li>
                     ))}
@@ -387,6 +478,9 @@ export default function WaterQualityMonitor() {
           </Grid>
         </Paper>
       )}
+      <WaterQualityImport open={importOpen} onClose={() => setImportOpen(false)} defaultPondId={pondId} />
+      <PondRangesDialog open={rangesOpen} onClose={() => setRangesOpen(false)} pond={pond} baseRanges={stockRanges} />
+
       {/* SEO-optimized Blog Content */}
       <Paper elevation={3} sx={{ p: 3, mt: 4 }}>
         <Typography variant="h4" gutterBottom>
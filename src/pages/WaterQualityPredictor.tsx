@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Container,
   Typography,
@@ -19,11 +19,14 @@ import {
   InputLabel,
   Select,
   MenuItem,
-  Divider,
+  FormControlLabel,
+  Checkbox,
+  LinearProgress,
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -33,9 +36,33 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import FormField from '../components/FormField';
+import ClimateNormalsPicker from '../components/ClimateNormalsPicker';
+import { useSite } from '../contexts/SiteContext';
+import {
+  FORECAST_MODEL_VERSION,
+  forecastBands,
+  forecastWaterQuality,
+  MAX_MONTE_CARLO_RUNS,
+  MIN_MONTE_CARLO_RUNS,
+  monteCarloRates,
+} from '../engine';
+import type {
+  ForecastBand,
+  ForecastParameter,
+  ForecastPoint,
+  ForecastScenario,
+  MonteCarloOptions,
+  Season,
+} from '../engine';
+import { findSpecies, useSpeciesCatalog } from '../species';
+import type { MonthlyNormals } from '../climate';
+import { convert } from '../units';
+import { createScenarioFile, downloadScenario, parseScenario } from '../utils/forecastScenario';
+import type { ScenarioFile } from '../utils/forecastScenario';
 
 interface PredictionData {
   species: string;
+  readingTime: string;
   temperature: string;
   pH: string;  // Consistently use pH
   dissolvedOxygen: string;
@@ -46,14 +73,17 @@ interface PredictionData {
   hardness: string;
   turbidity: string;
   salinity: string;
+  secchiDepth: string;
   feedingRate: string;
-  stockingDensity: string;
+  feedProtein: string;
   waterExchangeRate: string;
-  sunlight: string;
   rainfall: string;
+  windSpeed: string;
   pondSize: string;
+  depth: string;
   fishBiomass: string;
   aerationHours: string;
+  aeratorCapacity: string;
   cloudCover: string;
   season: string;
 }
@@ -69,13 +99,14 @@ interface PredictionResult {
 
 interface ChartData {
   time: string;
-  temperature: number;
-  dissolvedOxygen: number;
-  pH: number;
-  ammonia: number;
+  value: number;
+  band?: [number, number];
 }
 
+const FORECAST_HOURS = 48;
+
 const initialFormData: PredictionData = {
+  readingTime: '8',
   temperature: '',
   pH: '',
   dissolvedOxygen: '',
@@ -86,46 +117,97 @@ const initialFormData: PredictionData = {
   hardness: '',
   turbidity: '',
   salinity: '',
+  secchiDepth: '',
   feedingRate: '',
-  stockingDensity: '',
+  feedProtein: '30',
   waterExchangeRate: '',
-  sunlight: '',
   rainfall: '',
+  windSpeed: '',
   species: '',
   pondSize: '',
+  depth: '',
   fishBiomass: '',
   aerationHours: '',
+  aeratorCapacity: '',
   cloudCover: '',
   season: '',
 };
 
-const speciesParameters = {
-  tilapia: {
-    tempRange: { min: 25, max: 32 },
-    pHRange: { min: 6.5, max: 8.5 },
-    doRange: { min: 4, max: 8 },
-    ammoniaMax: 0.5,
-  },
-  carp: {
-    tempRange: { min: 20, max: 28 },
-    pHRange: { min: 6.5, max: 8.5 },
-    doRange: { min: 5, max: 8 },
-    ammoniaMax: 0.4,
-  },
-  catfish: {
-    tempRange: { min: 24, max: 30 },
-    pHRange: { min: 6.5, max: 7.5 },
-    doRange: { min: 3, max: 7 },
-    ammoniaMax: 0.5,
-  },
-};
+const chartParameters: { value: ForecastParameter; label: string; digits: number }[] = [
+  { value: 'temperature', label: 'Temperature (°C)', digits: 1 },
+  { value: 'dissolvedOxygen', label: 'DO (mg/L)', digits: 1 },
+  { value: 'pH', label: 'pH', digits: 1 },
+  { value: 'ammonia', label: 'Ammonia (mg/L)', digits: 2 },
+  { value: 'nitrite', label: 'Nitrite (mg/L)', digits: 2 },
+  { value: 'nitrate', label: 'Nitrate (mg/L)', digits: 2 },
+];
+
+const hourOptions = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: `${String(hour).padStart(2, '0')}:00`,
+}));
+
+// Form fields as they were filled for a scenario, so a loaded file shows its inputs.
+const scenarioToForm = (scenario: ForecastScenario, species: string): PredictionData => ({
+  ...initialFormData,
+  species,
+  readingTime: String(scenario.startHour),
+  temperature: String(scenario.temperature),
+  pH: String(scenario.pH),
+  dissolvedOxygen: String(scenario.dissolvedOxygen),
+  ammonia: String(scenario.ammonia),
+  nitrite: String(scenario.nitrite),
+  nitrate: String(scenario.nitrate),
+  alkalinity: String(scenario.alkalinity),
+  salinity: String(scenario.salinity),
+  secchiDepth: String(scenario.secchiDepth),
+  feedingRate: String(scenario.feedRate),
+  feedProtein: String(scenario.feedProtein),
+  waterExchangeRate: String(scenario.waterExchange),
+  rainfall: String(scenario.rainfall),
+  windSpeed: String(scenario.windSpeed),
+  pondSize: String(scenario.area),
+  depth: String(scenario.depth),
+  fishBiomass: String(scenario.fishBiomass),
+  aerationHours: String(scenario.aerationHours),
+  aeratorCapacity: String(scenario.aeratorCapacity),
+  cloudCover: String(scenario.cloudCover),
+  season: scenario.season,
+});
+
+// Longest stretch of Monte Carlo runs between repaints, so the page stays responsive.
+const MONTE_CARLO_SLICE_MS = 30;
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve, 0));
 
 const WaterQualityPredictor: React.FC = () => {
+  const { catalog } = useSpeciesCatalog();
+  const { pressure } = useSite();
   const [formData, setFormData] = useState<PredictionData>(initialFormData);
   const [predictions, setPredictions] = useState<PredictionResult[]>([]);
-  const [chartData, setChartData] = useState<ChartData[]>([]);
+  const [forecast, setForecast] = useState<ForecastPoint[]>([]);
+  const [bands, setBands] = useState<ForecastBand[] | null>(null);
+  // Share of the Monte Carlo runs done, while they run.
+  const [uncertaintyProgress, setUncertaintyProgress] = useState<number | null>(null);
+  // Bumped to abandon runs still going for an earlier forecast.
+  const uncertaintyJob = useRef(0);
+  const [chartParameter, setChartParameter] = useState<ForecastParameter>('temperature');
+  const [showUncertainty, setShowUncertainty] = useState(false);
+  const [runs, setRuns] = useState('200');
+  const [seed, setSeed] = useState('1');
+  // Exactly what the shown forecast was computed from, for export.
+  const [lastRun, setLastRun] = useState<ScenarioFile | null>(null);
+  const [scenarioMessage, setScenarioMessage] = useState<{ severity: 'info' | 'error'; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
   const [showResults, setShowResults] = useState(false);
 
+  useEffect(
+    () => () => {
+      uncertaintyJob.current += 1;
+    },
+    []
+  );
+
   const handleInputChange = (field: keyof PredictionData) => (value: string | number | string[]) => {
     setFormData((prev) => ({ ...prev, [field]: String(value) }));
   };
@@ -138,129 +220,153 @@ const WaterQualityPredictor: React.FC = () => {
     }));
   };
 
-  const predictTemperature = (current: number, sunlight: number, rainfall: number): number[] => {
-    const predictions: number[] = [];
-    for (let i = 0; i < 48; i++) {
-      const hourOfDay = i % 24;
-      const sunlightEffect = hourOfDay >= 6 && hourOfDay <= 18 ? sunlight * 0.1 : -0.05;
-      const rainfallEffect = rainfall > 0 ? -rainfall * 0.2 : 0;
-      const newTemp = current + sunlightEffect + rainfallEffect + Math.random() * 0.2 - 0.1;
-      predictions.push(Number(newTemp.toFixed(1)));
-    }
-    return predictions;
+  const handleNormals = (normals: MonthlyNormals) => {
+    setFormData((prev) => ({
+      ...prev,
+      cloudCover: String(normals.cloudCover),
+      rainfall: String(Math.round(normals.rainfall * 10) / 10),
+      windSpeed: String(Math.round(convert(normals.windSpeed, 'km/h', 'm/s') * 10) / 10),
+      season: normals.season === 'Fall' ? 'autumn' : normals.season.toLowerCase(),
+    }));
   };
 
-  const predictDissolvedOxygen = (
-    temp: number,
-    feedingRate: number,
-    stockingDensity: number
-  ): number[] => {
-    const predictions: number[] = [];
-    for (let i = 0; i < 48; i++) {
-      const hourOfDay = i % 24;
-      const tempEffect = -0.1 * (temp - 25);
-      const feedingEffect = -0.2 * feedingRate;
-      const densityEffect = -0.1 * stockingDensity;
-      const photoEffect = hourOfDay >= 6 && hourOfDay <= 18 ? 0.5 : -0.3;
-      const newDO =
-        6 + tempEffect + feedingEffect + densityEffect + photoEffect + Math.random() * 0.2 - 0.1;
-      predictions.push(Number(newDO.toFixed(1)));
-    }
-    return predictions;
-  };
+  const buildScenario = (): ForecastScenario => ({
+    startHour: Number(formData.readingTime),
+    hours: FORECAST_HOURS,
+    temperature: parseFloat(formData.temperature),
+    pH: parseFloat(formData.pH),
+    dissolvedOxygen: parseFloat(formData.dissolvedOxygen),
+    ammonia: parseFloat(formData.ammonia),
+    nitrite: parseFloat(formData.nitrite) || 0,
+    nitrate: parseFloat(formData.nitrate) || 0,
+    alkalinity: parseFloat(formData.alkalinity) || 100,
+    salinity: parseFloat(formData.salinity) || 0,
+    secchiDepth: parseFloat(formData.secchiDepth) || 40,
+    area: parseFloat(formData.pondSize),
+    depth: parseFloat(formData.depth) || 1,
+    fishBiomass: parseFloat(formData.fishBiomass) || 0,
+    oxygenConsumption: findSpecies(catalog, formData.species)?.production.oxygenConsumption,
+    feedRate: parseFloat(formData.feedingRate) || 0,
+    feedProtein: parseFloat(formData.feedProtein) || 0,
+    waterExchange: parseFloat(formData.waterExchangeRate) || 0,
+    aeratorCapacity: parseFloat(formData.aeratorCapacity) || 0,
+    aerationHours: parseFloat(formData.aerationHours) || 0,
+    cloudCover: parseFloat(formData.cloudCover) || 0,
+    rainfall: parseFloat(formData.rainfall) || 0,
+    windSpeed: parseFloat(formData.windSpeed) || 0,
+    season: (formData.season || 'summer') as Season,
+    pressure,
+  });
 
-  const predictPH = (current: number, feedingRate: number, rainfall: number): number[] => {
-    const predictions: number[] = [];
-    for (let i = 0; i < 48; i++) {
-      const feedingEffect = -0.05 * feedingRate;
-      const rainfallEffect = rainfall > 0 ? -rainfall * 0.1 : 0;
-      const newPH = current + feedingEffect + rainfallEffect + Math.random() * 0.2 - 0.1;
-      predictions.push(Number(newPH.toFixed(1)));
+  const runUncertainty = async (scenario: ForecastScenario, monteCarlo: MonteCarloOptions | null) => {
+    const job = ++uncertaintyJob.current;
+    setBands(null);
+    if (!monteCarlo) {
+      setUncertaintyProgress(null);
+      return;
     }
-    return predictions;
-  };
-
-  const predictAmmonia = (
-    temp: number,
-    feedingRate: number,
-    waterExchange: number
-  ): number[] => {
-    const predictions: number[] = [];
-    for (let i = 0; i < 48; i++) {
-      const tempEffect = 0.01 * (temp - 25);
-      const feedingEffect = 0.02 * feedingRate;
-      const exchangeEffect = -0.05 * waterExchange;
-      const newAmmonia =
-        0.5 + tempEffect + feedingEffect + exchangeEffect + Math.random() * 0.1 - 0.05;
-      predictions.push(Number(Math.max(0, newAmmonia).toFixed(2)));
+    const rateSets = monteCarloRates(monteCarlo);
+    const results: ForecastPoint[][] = [];
+    while (results.length < rateSets.length) {
+      setUncertaintyProgress(results.length / rateSets.length);
+      await nextFrame();
+      if (job !== uncertaintyJob.current) return;
+      const sliceEnd = performance.now() + MONTE_CARLO_SLICE_MS;
+      do {
+        results.push(forecastWaterQuality(scenario, rateSets[results.length]));
+      } while (results.length < rateSets.length && performance.now() < sliceEnd);
     }
-    return predictions;
+    setBands(forecastBands(results));
+    setUncertaintyProgress(null);
   };
 
-  const generatePredictions = () => {
-    const temp = parseFloat(formData.temperature);
-    const do_ = parseFloat(formData.dissolvedOxygen);
-    const pH = parseFloat(formData.pH);
-    const ammonia = parseFloat(formData.ammonia);
-    const feeding = parseFloat(formData.feedingRate);
-    const density = parseFloat(formData.stockingDensity);
-    const exchange = parseFloat(formData.waterExchangeRate);
-    const sun = parseFloat(formData.sunlight);
-    const rain = parseFloat(formData.rainfall);
-
-    const tempPredictions = predictTemperature(temp, sun, rain);
-    const doPredictions = predictDissolvedOxygen(temp, feeding, density);
-    const phPredictions = predictPH(pH, feeding, rain);
-    const ammoniaPredictions = predictAmmonia(temp, feeding, exchange);
-
-    const chartData: ChartData[] = Array.from({ length: 48 }, (_, i) => ({
-      time: `${i}h`,
-      temperature: tempPredictions[i],
-      dissolvedOxygen: doPredictions[i],
-      pH: phPredictions[i],
-      ammonia: ammoniaPredictions[i],
-    }));
+  const runForecast = (scenario: ForecastScenario, monteCarlo: MonteCarloOptions | null, speciesId: string) => {
+    const points = forecastWaterQuality(scenario);
+    const last = points[points.length - 1];
+    const trend = (current: number, predicted: number): PredictionResult['trend'] =>
+      Math.abs(predicted - current) < 0.005 ? 'stable' : predicted > current ? 'increasing' : 'decreasing';
 
     const results: PredictionResult[] = [
       {
         parameter: 'Temperature',
-        current: temp,
-        predicted: tempPredictions[47],
-        trend: tempPredictions[47] > temp ? 'increasing' : 'decreasing',
-        risk: getRiskLevel(tempPredictions[47], 20, 25, 30),
-        recommendations: getTemperatureRecommendations(tempPredictions[47]),
+        current: scenario.temperature,
+        predicted: last.temperature,
+        trend: trend(scenario.temperature, last.temperature),
+        risk: getRiskLevel(last.temperature, 20, 25, 30),
+        recommendations: getTemperatureRecommendations(last.temperature),
       },
       {
         parameter: 'Dissolved Oxygen',
-        current: do_,
-        predicted: doPredictions[47],
-        trend: doPredictions[47] > do_ ? 'increasing' : 'decreasing',
-        risk: getRiskLevel(doPredictions[47], 4, 5, 8),
-        recommendations: getDORecommendations(doPredictions[47]),
+        current: scenario.dissolvedOxygen,
+        predicted: last.dissolvedOxygen,
+        trend: trend(scenario.dissolvedOxygen, last.dissolvedOxygen),
+        risk: getRiskLevel(last.dissolvedOxygen, 4, 5, 8),
+        recommendations: getDORecommendations(last.dissolvedOxygen),
       },
       {
         parameter: 'pH',
-        current: ph,
-        predicted: phPredictions[47],
-        trend: phPredictions[47] > ph ? 'increasing' : 'decreasing',
-        risk: getRiskLevel(phPredictions[47], 6.5, 7, 8.5),
-        recommendations: getPHRecommendations(phPredictions[47]),
+        current: scenario.pH,
+        predicted: last.pH,
+        trend: trend(scenario.pH, last.pH),
+        risk: getRiskLevel(last.pH, 6.5, 7, 8.5),
+        recommendations: getPHRecommendations(last.pH),
       },
       {
         parameter: 'Ammonia',
-        current: ammonia,
-        predicted: ammoniaPredictions[47],
-        trend: ammoniaPredictions[47] > ammonia ? 'increasing' : 'decreasing',
-        risk: getRiskLevel(ammoniaPredictions[47], 0, 0.5, 1),
-        recommendations: getAmmoniaRecommendations(ammoniaPredictions[47]),
+        current: scenario.ammonia,
+        predicted: last.ammonia,
+        trend: trend(scenario.ammonia, last.ammonia),
+        risk: getRiskLevel(last.ammonia, 0, 0.5, 1),
+        recommendations: getAmmoniaRecommendations(last.ammonia),
       },
     ];
 
     setPredictions(results);
-    setChartData(chartData);
+    setForecast(points);
+    runUncertainty(scenario, monteCarlo);
+    setLastRun(createScenarioFile(scenario, monteCarlo, speciesId));
     setShowResults(true);
   };
 
+  const generatePredictions = () => {
+    setScenarioMessage(null);
+    const runCount = Math.min(MAX_MONTE_CARLO_RUNS, Math.max(MIN_MONTE_CARLO_RUNS, parseInt(runs, 10) || 200));
+    if (showUncertainty) setRuns(String(runCount));
+    runForecast(
+      buildScenario(),
+      showUncertainty ? { runs: runCount, seed: parseInt(seed, 10) || 0 } : null,
+      formData.species
+    );
+  };
+
+  // Loads an exported scenario into the form and reruns it unchanged.
+  const handleScenarioFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const { file: scenarioFile, errors } = parseScenario(await file.text());
+    if (!scenarioFile) {
+      setScenarioMessage({ severity: 'error', text: errors.join(' ') });
+      return;
+    }
+    const { scenario, monteCarlo, speciesId } = scenarioFile;
+    setFormData(scenarioToForm(scenario, speciesId));
+    setShowUncertainty(Boolean(monteCarlo));
+    if (monteCarlo) {
+      setRuns(String(monteCarlo.runs));
+      setSeed(String(monteCarlo.seed));
+    }
+    setScenarioMessage(
+      scenarioFile.modelVersion < FORECAST_MODEL_VERSION
+        ? {
+            severity: 'info',
+            text: `Loaded ${file.name}. It was made with forecast model version ${scenarioFile.modelVersion}; this is version ${FORECAST_MODEL_VERSION}, so results may differ.`,
+          }
+        : { severity: 'info', text: `Loaded ${file.name}.` }
+    );
+    runForecast(scenario, monteCarlo, speciesId);
+  };
+
   const getRiskLevel = (value: number, low: number, medium: number, high: number): 'low' | 'medium' | 'high' => {
     if (value <= low || value >= high) return 'high';
     if (value < medium) return 'medium';
@@ -352,13 +458,22 @@ const WaterQualityPredictor: React.FC = () => {
     }
   };
 
+  const shownParameter = chartParameters.find((parameter) => parameter.value === chartParameter)!;
+  const chartData: ChartData[] = forecast.map((point, index) => ({
+    time: `${point.hour}h`,
+    value: point[chartParameter],
+    band: bands ? [bands[index].low[chartParameter], bands[index].high[chartParameter]] : undefined,
+  }));
+  const finalTemperature = forecast.length ? forecast[forecast.length - 1].temperature : 0;
+  const formatValue = (value: number) => value.toFixed(shownParameter.digits);
+
   return (
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
       <Typography variant="h4" gutterBottom>
         Water Quality Predictor
       </Typography>
       <Typography variant="body1" paragraph>
-        Predict water quality changes over the next 48 hours based on current conditions and management practices
+        Predict water quality changes over the next 48 hours from a mass balance of heat, oxygen, carbon dioxide and feed nitrogen. The same inputs always give the same forecast.
       </Typography>
 
       <Grid container spacing={3}>
@@ -369,7 +484,7 @@ const WaterQualityPredictor: React.FC = () => {
                 Current Parameters
               </Typography>
               <Grid container spacing={2}>
-                <Grid item xs={12}>
+                <Grid item xs={12} sm={6}>
                   <FormControl fullWidth>
                     <InputLabel>Species</InputLabel>
                     <Select
@@ -378,16 +493,29 @@ const WaterQualityPredictor: React.FC = () => {
                       label="Species"
                       onChange={handleSelectChange}
                     >
-                      <MenuItem value="tilapia">Tilapia</MenuItem>
-                      <MenuItem value="carp">Carp</MenuItem>
-                      <MenuItem value="catfish">Catfish</MenuItem>
+                      {catalog.map((species) => (
+                        <MenuItem key={species.id} value={species.id}>
+                          {species.name}
+                        </MenuItem>
+                      ))}
                     </Select>
                   </FormControl>
                 </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    type="select"
+                    label="Reading Time"
+                    value={formData.readingTime}
+                    onChange={handleInputChange('readingTime')}
+                    options={hourOptions}
+                    helperText="When the readings below were taken"
+                  />
+                </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Water Temperature (°C)"
+                    label="Water Temperature"
+                    unit="°C"
                     value={formData.temperature}
                     onChange={handleInputChange('temperature')}
                     required
@@ -407,7 +535,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Dissolved Oxygen (mg/L)"
+                    label="Dissolved Oxygen"
+                    unit="mg/L"
                     value={formData.dissolvedOxygen}
                     onChange={handleInputChange('dissolvedOxygen')}
                     required
@@ -417,7 +546,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Ammonia Level (mg/L)"
+                    label="Ammonia Level"
+                    unit="mg/L"
                     value={formData.ammonia}
                     onChange={handleInputChange('ammonia')}
                     required
@@ -427,7 +557,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Nitrite Level (mg/L)"
+                    label="Nitrite Level"
+                    unit="mg/L"
                     value={formData.nitrite}
                     onChange={handleInputChange('nitrite')}
                     required
@@ -437,7 +568,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Nitrate Level (mg/L)"
+                    label="Nitrate Level"
+                    unit="mg/L"
                     value={formData.nitrate}
                     onChange={handleInputChange('nitrate')}
                     required
@@ -447,7 +579,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Alkalinity (mg/L)"
+                    label="Alkalinity"
+                    unit="mg/L"
                     value={formData.alkalinity}
                     onChange={handleInputChange('alkalinity')}
                     required
@@ -457,7 +590,8 @@ const WaterQualityPredictor: React.FC = () => {
                 <Grid item xs={12} sm={6}>
                   <FormField
                     type="number"
-                    label="Hardness (mg/L)"
+                    label="Hardness"
+                    unit="mg/L"
                     value={formData.hardness}
                     onChange={handleInputChange('hardness')}
                     required
@@ -484,6 +618,16 @@ const WaterQualityPredictor: React.FC = () => {
                     helperText="Current salinity level"
                   />
                 </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    type="number"
+                    label="Secchi Depth"
+                    unit="cm"
+                    value={formData.secchiDepth}
+                    onChange={handleInputChange('secchiDepth')}
+                    helperText="Sets plankton respiration and photosynthesis"
+                  />
+                </Grid>
               </Grid>
             </CardContent>
           </Card>
@@ -496,7 +640,8 @@ const WaterQualityPredictor: React.FC = () => {
               <Grid container spacing={2}>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Pond Size (m²)"
+                    label="Pond Size"
+                    unit="m²"
                     value={formData.pondSize}
                     onChange={handleInputChange('pondSize')}
                     type="number"
@@ -506,7 +651,19 @@ const WaterQualityPredictor: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Fish Biomass (kg)"
+                    label="Average Depth"
+                    unit="m"
+                    value={formData.depth}
+                    onChange={handleInputChange('depth')}
+                    type="number"
+                    required
+                    helperText="Mean water depth"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Fish Biomass"
+                    unit="kg"
                     value={formData.fishBiomass}
                     onChange={handleInputChange('fishBiomass')}
                     type="number"
@@ -516,7 +673,8 @@ const WaterQualityPredictor: React.FC = () => {
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
-                    label="Daily Feeding Rate (kg)"
+                    label="Daily Feeding Rate"
+                    unit="kg"
                     value={formData.feedingRate}
                     onChange={handleInputChange('feedingRate')}
                     type="number"
@@ -524,6 +682,15 @@ const WaterQualityPredictor: React.FC = () => {
                     helperText="Amount of feed per day"
                   />
                 </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Feed Protein (%)"
+                    value={formData.feedProtein}
+                    onChange={handleInputChange('feedProtein')}
+                    type="number"
+                    helperText="Crude protein on the feed label"
+                  />
+                </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
                     label="Water Exchange Rate (%/day)"
@@ -541,9 +708,21 @@ const WaterQualityPredictor: React.FC = () => {
                     onChange={handleInputChange('aerationHours')}
                     type="number"
                     required
-                    helperText="Hours of aeration per day"
+                    helperText="Hours of aeration before dawn"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Aerator Capacity (kg O₂/hour)"
+                    value={formData.aeratorCapacity}
+                    onChange={handleInputChange('aeratorCapacity')}
+                    type="number"
+                    helperText="Total for all aerators in the pond"
                   />
                 </Grid>
+                <Grid item xs={12}>
+                  <ClimateNormalsPicker onFill={handleNormals} />
+                </Grid>
                 <Grid item xs={12} sm={6}>
                   <FormField
                     label="Cloud Cover (%)"
@@ -554,7 +733,24 @@ const WaterQualityPredictor: React.FC = () => {
                     helperText="Percentage of cloud coverage"
                   />
                 </Grid>
-                <Grid item xs={12}>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Rainfall (mm/day)"
+                    value={formData.rainfall}
+                    onChange={handleInputChange('rainfall')}
+                    type="number"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Wind Speed"
+                    unit="m/s"
+                    value={formData.windSpeed}
+                    onChange={handleInputChange('windSpeed')}
+                    type="number"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
                   <FormControl fullWidth>
                     <InputLabel>Season</InputLabel>
                     <Select
@@ -572,14 +768,63 @@ const WaterQualityPredictor: React.FC = () => {
                 </Grid>
               </Grid>
 
-              <Box sx={{ mt: 2, display: 'flex', justifyContent: 'center' }}>
+              <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+                Uncertainty
+              </Typography>
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox checked={showUncertainty} onChange={(event) => setShowUncertainty(event.target.checked)} />
+                    }
+                    label="Show 10-90% bands from a Monte Carlo run over the uncertain process rates"
+                  />
+                </Grid>
+                {showUncertainty && (
+                  <>
+                    <Grid item xs={6}>
+                      <FormField
+                        label="Runs"
+                        type="number"
+                        value={runs}
+                        onChange={(value) => setRuns(String(value))}
+                        helperText="Between 10 and 5000"
+                      />
+                    </Grid>
+                    <Grid item xs={6}>
+                      <FormField
+                        label="Seed"
+                        type="number"
+                        value={seed}
+                        onChange={(value) => setSeed(String(value))}
+                        helperText="The same seed reproduces the same bands"
+                      />
+                    </Grid>
+                  </>
+                )}
+              </Grid>
+
+              {scenarioMessage && (
+                <Alert severity={scenarioMessage.severity} sx={{ mt: 2 }} onClose={() => setScenarioMessage(null)}>
+                  {scenarioMessage.text}
+                </Alert>
+              )}
+
+              <Box sx={{ mt: 2, display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: 1 }}>
                 <Button
                   variant="contained"
                   onClick={generatePredictions}
-                  disabled={!formData.species || !formData.temperature || !formData.pH || !formData.dissolvedOxygen || !formData.ammonia}
+                  disabled={!formData.species || !formData.temperature || !formData.pH || !formData.dissolvedOxygen || !formData.ammonia || !formData.pondSize}
                 >
                   Generate Predictions
                 </Button>
+                <Button variant="outlined" onClick={() => lastRun && downloadScenario(lastRun)} disabled={!lastRun}>
+                  Export Scenario
+                </Button>
+                <Button variant="outlined" onClick={() => fileInput.current?.click()}>
+                  Load Scenario
+                </Button>
+                <input ref={fileInput} type="file" accept=".json,application/json" hidden onChange={handleScenarioFile} />
               </Box>
             </CardContent>
           </Card>
@@ -595,40 +840,73 @@ const WaterQualityPredictor: React.FC = () => {
                 
                 <Alert
                   severity={
-                    getRiskLevel(chartData[47].temperature, 20, 25, 30) === 'high' ? 'error' :
-                    getRiskLevel(chartData[47].temperature, 20, 25, 30) === 'medium' ? 'warning' :
+                    getRiskLevel(finalTemperature, 20, 25, 30) === 'high' ? 'error' :
+                    getRiskLevel(finalTemperature, 20, 25, 30) === 'medium' ? 'warning' :
                     'success'
                   }
                   sx={{ mb: 2 }}
                 >
                   <Typography variant="subtitle1">
-                    Risk Level: {getRiskLevel(chartData[47].temperature, 20, 25, 30).toUpperCase()}
+                    Risk Level: {getRiskLevel(finalTemperature, 20, 25, 30).toUpperCase()}
                   </Typography>
                   <Typography variant="body2" component="div">
                     Recommendations:
                     <ul style={{ marginTop: 4, marginBottom: 0 }}>
-                      {getTemperatureRecommendations(chartData[47].temperature).map((rec, index) => (
+                      {getTemperatureRecommendations(finalTemperature).map((rec, index) => (
                         <li key={index}>{rec}</li>
                       ))}
                     </ul>
                   </Typography>
                 </Alert>
 
-                <Box sx={{ height: 300 }}>
+                <FormField
+                  label="Chart Parameter"
+                  type="select"
+                  value={chartParameter}
+                  onChange={(value) => setChartParameter(value as ForecastParameter)}
+                  options={chartParameters}
+                />
+
+                {uncertaintyProgress !== null && (
+                  <Box sx={{ mt: 2 }}>
+                    <Typography variant="body2" color="text.secondary" gutterBottom>
+                      Monte Carlo runs done: {Math.round(uncertaintyProgress * 100)}%
+                    </Typography>
+                    <LinearProgress variant="determinate" value={uncertaintyProgress * 100} />
+                  </Box>
+                )}
+
+                <Box sx={{ height: 300, mt: 2 }}>
                   <ResponsiveContainer>
-                    <LineChart data={chartData}>
+                    <ComposedChart data={chartData}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="time" />
-                      <YAxis />
-                      <Tooltip />
+                      <YAxis domain={['auto', 'auto']} tickFormatter={formatValue} />
+                      <Tooltip
+                        formatter={(value: number | [number, number]) =>
+                          Array.isArray(value) ? value.map(formatValue).join(' – ') : formatValue(value)
+                        }
+                      />
                       <Legend />
+                      {bands && (
+                        <Area
+                          dataKey="band"
+                          stroke="none"
+                          fill="#8884d8"
+                          fillOpacity={0.2}
+                          name="10-90% range"
+                          isAnimationActive={false}
+                        />
+                      )}
                       <Line
                         type="monotone"
-                        dataKey="temperature"
+                        dataKey="value"
                         stroke="#8884d8"
-                        name="Temperature (°C)"
+                        dot={false}
+                        name={shownParameter.label}
+                        isAnimationActive={false}
                       />
-                    </LineChart>
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </Box>
 
@@ -640,36 +918,43 @@ const WaterQualityPredictor: React.FC = () => {
                         <TableCell>Current</TableCell>
                         <TableCell>Min (48h)</TableCell>
                         <TableCell>Max (48h)</TableCell>
+                        <TableCell>At 48h</TableCell>
                       </TableRow>
                     </TableHead>
                     <TableBody>
-                      <TableRow>
-                        <TableCell>Temperature (°C)</TableCell>
-                        <TableCell>{chartData[0].temperature.toFixed(1)}</TableCell>
-                        <TableCell>{Math.min(...chartData.map(d => d.temperature)).toFixed(1)}</TableCell>
-                        <TableCell>{Math.max(...chartData.map(d => d.temperature)).toFixed(1)}</TableCell>
-                      </TableRow>
-                      <TableRow>
-                        <TableCell>pH</TableCell>
-                        <TableCell>{chartData[0].pH.toFixed(1)}</TableCell>
-                        <TableCell>{Math.min(...chartData.map(d => d.pH)).toFixed(1)}</TableCell>
-                        <TableCell>{Math.max(...chartData.map(d => d.pH)).toFixed(1)}</TableCell>
-                      </TableRow>
-                      <TableRow>
-                        <TableCell>DO (mg/L)</TableCell>
-                        <TableCell>{chartData[0].dissolvedOxygen.toFixed(1)}</TableCell>
-                        <TableCell>{Math.min(...chartData.map(d => d.dissolvedOxygen)).toFixed(1)}</TableCell>
-                        <TableCell>{Math.max(...chartData.map(d => d.dissolvedOxygen)).toFixed(1)}</TableCell>
-                      </TableRow>
-                      <TableRow>
-                        <TableCell>Ammonia (mg/L)</TableCell>
-                        <TableCell>{chartData[0].ammonia.toFixed(2)}</TableCell>
-                        <TableCell>{Math.min(...chartData.map(d => d.ammonia)).toFixed(2)}</TableCell>
-                        <TableCell>{Math.max(...chartData.map(d => d.ammonia)).toFixed(2)}</TableCell>
-                      </TableRow>
+                      {chartParameters.map(({ value: parameter, label, digits }) => {
+                        const values = forecast.map((point) => point[parameter]);
+                        const last = values.length - 1;
+                        return (
+                          <TableRow key={parameter}>
+                            <TableCell>{label}</TableCell>
+                            <TableCell>{values[0].toFixed(digits)}</TableCell>
+                            <TableCell>{Math.min(...values).toFixed(digits)}</TableCell>
+                            <TableCell>{Math.max(...values).toFixed(digits)}</TableCell>
+                            <TableCell>
+                              {values[last].toFixed(digits)}
+                              {bands &&
+                                ` (${bands[last].low[parameter].toFixed(digits)}–${bands[last].high[parameter].toFixed(digits)})`}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
                     </TableBody>
                   </Table>
                 </TableContainer>
+
+                {predictions.some((prediction) => prediction.risk !== 'low') && (
+                  <Box sx={{ mt: 2 }}>
+                    {predictions
+                      .filter((prediction) => prediction.risk !== 'low')
+                      .map((prediction) => (
+                        <Alert key={prediction.parameter} severity={getRiskColor(prediction.risk)} sx={{ mb: 1 }}>
+                          {prediction.parameter}: {prediction.current} → {prediction.predicted.toFixed(2)} ({prediction.trend}).{' '}
+                          {prediction.recommendations.join('; ')}
+                        </Alert>
+                      ))}
+                  </Box>
+                )}
               </CardContent>
             </Card>
           </Grid>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Container,
   Typography,
@@ -19,11 +19,22 @@ import {
   TableBody,
   TableCell,
   TableContainer,
+  TableHead,
   TableRow,
+  Chip,
 } from '@mui/material';
 import type { SelectChangeEvent } from '@mui/material/Select';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import FormField from '../components/FormField';
+import ClimateNormalsPicker from '../components/ClimateNormalsPicker';
+import { useSpeciesCatalog, findSpecies } from '../species';
+import { useSite } from '../contexts/SiteContext';
+import { calculateWeatherImpact, weatherImpactTimeline } from '../engine';
+import type { WeatherImpact, WeatherRisk, WeatherTimelineDay } from '../engine';
+import { seasonForMonth } from '../climate';
+import type { MonthlyNormals } from '../climate';
+import { MAX_FORECAST_DAYS, forecastFieldLabels, parseForecast } from '../utils/weatherForecast';
+import type { ParsedForecast } from '../utils/weatherForecast';
 
 interface WeatherData {
   temperature: number;
@@ -40,60 +51,10 @@ interface WeatherData {
   stockingDensity: number;
 }
 
-interface WeatherImpact {
-  waterQuality: {
-    temperature: number;
-    dissolvedOxygen: number;
-    pH: number;
-    turbidity: number;
-  };
-  fishHealth: {
-    stressLevel: string;
-    feedingBehavior: string;
-    growthImpact: string;
-    diseaseRisk: string;
-  };
-  operationalImpact: {
-    feedingSchedule: string;
-    waterExchange: string;
-    aeration: string;
-    monitoring: string;
-  };
-  recommendations: string[];
-  riskLevel: 'Low' | 'Moderate' | 'High';
-  preventiveMeasures: string[];
-}
-
 const seasons = ['Spring', 'Summer', 'Fall', 'Winter'];
 const cloudCoverOptions = ['Clear', 'Partly Cloudy', 'Mostly Cloudy', 'Overcast'];
-const species = ['Tilapia', 'Carp', 'Catfish', 'Trout'];
-
-const speciesParams = {
-  Tilapia: {
-    optimalTemp: { min: 25, max: 32 },
-    stressTemp: { min: 15, max: 35 },
-    oxygenRequirement: 5,
-    pHRange: { min: 6.5, max: 8.5 },
-  },
-  Carp: {
-    optimalTemp: { min: 20, max: 28 },
-    stressTemp: { min: 12, max: 32 },
-    oxygenRequirement: 4,
-    pHRange: { min: 6.5, max: 8.5 },
-  },
-  Catfish: {
-    optimalTemp: { min: 24, max: 30 },
-    stressTemp: { min: 18, max: 34 },
-    oxygenRequirement: 3,
-    pHRange: { min: 6.0, max: 8.5 },
-  },
-  Trout: {
-    optimalTemp: { min: 12, max: 18 },
-    stressTemp: { min: 8, max: 22 },
-    oxygenRequirement: 7,
-    pHRange: { min: 6.5, max: 8.0 },
-  },
-};
+
+const riskColor = (risk: WeatherRisk) => (risk === 'High' ? 'error' : risk === 'Moderate' ? 'warning' : 'success');
 
 const initialFormData: WeatherData = {
   temperature: 0,
@@ -111,9 +72,14 @@ const initialFormData: WeatherData = {
 };
 
 const WeatherImpactAnalyzer: React.FC = () => {
+  const { catalog } = useSpeciesCatalog();
+  const { site, pressure } = useSite();
   const [formData, setFormData] = useState<WeatherData>(initialFormData);
   const [analysis, setAnalysis] = useState<WeatherImpact | null>(null);
   const [historicalData, setHistoricalData] = useState<Array<{ date: string; temperature: number; dissolvedOxygen: number }>>([]);
+  const [forecast, setForecast] = useState<(ParsedForecast & { fileName: string }) | null>(null);
+  const [timeline, setTimeline] = useState<WeatherTimelineDay[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
@@ -131,182 +97,82 @@ const WeatherImpactAnalyzer: React.FC = () => {
     }));
   };
 
-  const calculateWeatherImpact = () => {
-    const {
-      temperature,
-      humidity,
-      rainfall,
-      windSpeed,
-      cloudCover,
-      season,
-      pondDepth,
-      pondArea,
-      dissolvedOxygen,
-      currentpH,
-      species,
-      stockingDensity,
-    } = formData;
-
-    // Calculate water temperature based on air temperature and environmental factors
-    const waterTemp = temperature - (
-      (cloudCover * 0.05) + // Cloud cover reduces temperature
-      (windSpeed * 0.1) + // Wind chill effect
-      (season === 'Winter' ? 2 : season === 'Summer' ? -1 : 0) // Seasonal adjustment
-    );
-
-    // Calculate dissolved oxygen based on temperature and environmental factors
-    const baseOxygen = 14.6 * Math.exp(-0.0357 * waterTemp); // Oxygen solubility decreases with temperature
-    const calculatedOxygen = baseOxygen * (
-      1 + (windSpeed * 0.05) - // Wind increases oxygen
-      (temperature * 0.02) - // Temperature decreases oxygen
-      (stockingDensity * 0.001) + // Stocking density decreases oxygen
-      (rainfall * 0.02) // Rainfall can increase oxygen
-    );
-
-    // Calculate pH changes
-    const basePH = 7.0;
-    const pH = basePH + (
-      (rainfall * 0.1) - // Rain can lower pH
-      (temperature * 0.02) + // Temperature can affect pH
-      (season === 'Summer' ? 0.2 : season === 'Winter' ? -0.2 : 0) // Seasonal variation
-    );
-
-    // Calculate turbidity based on rainfall and wind
-    const turbidity = (rainfall * 2) + (windSpeed * 0.5);
-
-    // Determine stress level based on species parameters
-    const speciesParam = speciesParams[species as keyof typeof speciesParams];
-    let stressLevel: 'Low' | 'Moderate' | 'High' = 'Low';
-    
-    if (waterTemp < speciesParam.stressTemp.min || waterTemp > speciesParam.stressTemp.max) {
-      stressLevel = 'High';
-    } else if (waterTemp < speciesParam.optimalTemp.min || waterTemp > speciesParam.optimalTemp.max) {
-      stressLevel = 'Moderate';
-    }
-
-    // Determine feeding behavior based on conditions
-    let feedingBehavior = 'Normal';
-    if (stressLevel === 'High') {
-      feedingBehavior = 'Significantly Reduced';
-    } else if (stressLevel === 'Moderate') {
-      feedingBehavior = 'Slightly Reduced';
-    }
-
-    // Calculate growth impact
-    let growthImpact = 'Optimal';
-    if (stressLevel === 'High') {
-      growthImpact = 'Severely Reduced';
-    } else if (stressLevel === 'Moderate') {
-      growthImpact = 'Moderately Reduced';
-    }
-
-    // Assess disease risk
-    let diseaseRisk = 'Low';
-    if (stressLevel === 'High' && calculatedOxygen < speciesParam.oxygenRequirement) {
-      diseaseRisk = 'High';
-    } else if (stressLevel === 'Moderate' || calculatedOxygen < speciesParam.oxygenRequirement * 1.2) {
-      diseaseRisk = 'Moderate';
-    }
-
-    // Generate operational recommendations
-    const recommendations: string[] = [];
-    const preventiveMeasures: string[] = [];
-
-    // Temperature-based recommendations
-    if (waterTemp > speciesParam.optimalTemp.max) {
-      recommendations.push('Increase aeration to help reduce water temperature');
-      recommendations.push('Consider partial water exchange with cooler water');
-      preventiveMeasures.push('Install temperature monitoring system');
-      preventiveMeasures.push('Prepare emergency cooling procedures');
-    } else if (waterTemp < speciesParam.optimalTemp.min) {
-      recommendations.push('Monitor water temperature closely');
-      recommendations.push('Consider using pond covers to retain heat');
-      preventiveMeasures.push('Install backup heating system');
-    }
-
-    // Oxygen-based recommendations
-    if (calculatedOxygen < speciesParam.oxygenRequirement) {
-      recommendations.push('Increase aeration immediately');
-      recommendations.push('Reduce feeding until oxygen levels improve');
-      preventiveMeasures.push('Install oxygen monitoring system');
-      preventiveMeasures.push('Have backup aeration equipment ready');
-    }
-
-    // Rainfall and turbidity recommendations
-    if (rainfall > 5) {
-      recommendations.push('Monitor water quality parameters more frequently');
-      recommendations.push('Check and maintain proper drainage');
-      preventiveMeasures.push('Implement erosion control measures');
-    }
-
-    // Wind-based recommendations
-    if (windSpeed > 20) {
-      recommendations.push('Secure equipment and pond covers');
-      recommendations.push('Monitor water turbulence');
-      preventiveMeasures.push('Install wind breaks around ponds');
-    }
-
-    // Determine feeding schedule adjustments
-    let feedingSchedule = 'Maintain regular schedule';
-    if (stressLevel === 'High') {
-      feedingSchedule = 'Reduce feeding by 50%';
-    } else if (stressLevel === 'Moderate') {
-      feedingSchedule = 'Reduce feeding by 25%';
-    }
-
-    // Water exchange recommendations
-    let waterExchange = 'Normal schedule';
-    if (rainfall > 5 || turbidity > 10) {
-      waterExchange = 'Increase frequency';
-    }
-
-    // Aeration requirements
-    let aeration = 'Normal operation';
-    if (calculatedOxygen < speciesParam.oxygenRequirement) {
-      aeration = 'Increase intensity';
-    }
+  const handleNormals = (normals: MonthlyNormals) => {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    setFormData(prev => ({
+      ...prev,
+      temperature: round(normals.temperature),
+      humidity: round(normals.humidity),
+      rainfall: round(normals.rainfall),
+      windSpeed: round(normals.windSpeed),
+      cloudCover: normals.cloudCover,
+      season: normals.season,
+    }));
+  };
 
-    // Monitoring frequency
-    let monitoring = 'Regular intervals';
-    if (stressLevel === 'High') {
-      monitoring = 'Hourly monitoring required';
-    } else if (stressLevel === 'Moderate') {
-      monitoring = 'Increase frequency';
-    }
+  const analyzeWeather = () => {
+    const profile = findSpecies(catalog, formData.species);
+    if (!profile) return;
+    const impact = calculateWeatherImpact({
+      temperature: formData.temperature,
+      humidity: formData.humidity,
+      rainfall: formData.rainfall,
+      windSpeed: formData.windSpeed,
+      cloudCover: formData.cloudCover,
+      season: formData.season,
+      dissolvedOxygen: formData.dissolvedOxygen,
+      stockingDensity: formData.stockingDensity,
+      pressure,
+      species: profile,
+    });
 
     // Add to historical data
     const newDataPoint = {
       date: new Date().toISOString().split('T')[0],
-      temperature: waterTemp,
-      dissolvedOxygen: calculatedOxygen,
+      temperature: impact.waterQuality.temperature,
+      dissolvedOxygen: impact.waterQuality.dissolvedOxygen,
     };
     setHistoricalData(prev => [...prev, newDataPoint]);
+    setAnalysis(impact);
+  };
 
-    setAnalysis({
-      waterQuality: {
-        temperature: waterTemp,
-        dissolvedOxygen: calculatedOxygen,
-        pH,
-        turbidity,
-      },
-      fishHealth: {
-        stressLevel,
-        feedingBehavior,
-        growthImpact,
-        diseaseRisk,
-      },
-      operationalImpact: {
-        feedingSchedule,
-        waterExchange,
-        aeration,
-        monitoring,
-      },
-      recommendations,
-      riskLevel: stressLevel,
-      preventiveMeasures,
-    });
+  // Runs the impact model over each forecast day. Weather the file leaves out is taken
+  // from the form, so a temperature-only forecast still gives a timeline.
+  const runTimeline = (parsed: ParsedForecast) => {
+    const profile = findSpecies(catalog, formData.species);
+    if (!profile || parsed.errors.length) {
+      setTimeline([]);
+      return;
+    }
+    const days = parsed.days.map((day) => ({
+      temperature: formData.temperature,
+      humidity: formData.humidity,
+      rainfall: formData.rainfall,
+      windSpeed: formData.windSpeed,
+      cloudCover: formData.cloudCover,
+      ...day,
+    }));
+    setTimeline(
+      weatherImpactTimeline(
+        days,
+        { stockingDensity: formData.stockingDensity, pressure, species: profile },
+        (date) => seasonForMonth(Number(date.slice(5, 7)) - 1, site.latitude ?? 0)
+      )
+    );
   };
 
+  const handleForecastFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const parsed = parseForecast(await file.text(), file.name);
+    setForecast({ ...parsed, fileName: file.name });
+    runTimeline(parsed);
+  };
+
+  const flaggedDays = timeline.filter((day) => day.needsAction).length;
+  const oxygenMinimum = findSpecies(catalog, formData.species)?.waterQuality.dissolvedOxygen.optimal.min;
+
   return (
     <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
       <Paper sx={{ p: 3 }}>
@@ -325,6 +191,9 @@ const WeatherImpactAnalyzer: React.FC = () => {
                   Weather Parameters
                 </Typography>
                 <Grid container spacing={2}>
+                  <Grid item xs={12}>
+                    <ClimateNormalsPicker onFill={handleNormals} />
+                  </Grid>
                   <Grid item xs={12} sm={6}>
                     <TextField
                       fullWidth
@@ -411,9 +280,9 @@ const WeatherImpactAnalyzer: React.FC = () => {
                         label="Species"
                         onChange={handleSelectChange}
                       >
-                        {species.map(sp => (
-                          <MenuItem key={sp} value={sp}>
-                            {sp}
+                        {catalog.map(sp => (
+                          <MenuItem key={sp.id} value={sp.id}>
+                            {sp.name}
                           </MenuItem>
                         ))}
                       </Select>
@@ -439,6 +308,17 @@ const WeatherImpactAnalyzer: React.FC = () => {
                       onChange={handleInputChange}
                     />
                   </Grid>
+                  <Grid item xs={12} sm={6}>
+                    <TextField
+                      fullWidth
+                      label="Dissolved Oxygen (mg/L)"
+                      name="dissolvedOxygen"
+                      type="number"
+                      value={formData.dissolvedOxygen || ''}
+                      onChange={handleInputChange}
+                      helperText="Optional; estimated from the weather when empty"
+                    />
+                  </Grid>
                   <Grid item xs={12} sm={6}>
                     <TextField
                       fullWidth
@@ -450,14 +330,27 @@ const WeatherImpactAnalyzer: React.FC = () => {
                     />
                   </Grid>
                 </Grid>
-                <Button
-                  variant="contained"
-                  onClick={calculateWeatherImpact}
-                  disabled={!formData.species || !formData.season}
-                  sx={{ mt: 2 }}
-                >
-                  Analyze Impact
-                </Button>
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mt: 2 }}>
+                  <Button
+                    variant="contained"
+                    onClick={analyzeWeather}
+                    disabled={!formData.species || !formData.season}
+                  >
+                    Analyze Impact
+                  </Button>
+                  <Button variant="outlined" onClick={() => fileInput.current?.click()} disabled={!formData.species}>
+                    Import Forecast
+                  </Button>
+                  {forecast && !forecast.errors.length && (
+                    <Button variant="outlined" onClick={() => runTimeline(forecast)} disabled={!formData.species}>
+                      Rerun Forecast
+                    </Button>
+                  )}
+                  <input ref={fileInput} type="file" accept=".json,.csv,application/json,text/csv" hidden onChange={handleForecastFile} />
+                </Box>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Forecasts are read from JSON or CSV files, such as Open-Meteo hourly or daily exports. The first {MAX_FORECAST_DAYS} days are used.
+                </Typography>
               </CardContent>
             </Card>
           </Grid>
@@ -480,6 +373,13 @@ const WeatherImpactAnalyzer: React.FC = () => {
                           <TableCell>Dissolved Oxygen</TableCell>
                           <TableCell>{analysis.waterQuality.dissolvedOxygen.toFixed(1)} mg/L</TableCell>
                         </TableRow>
+                        <TableRow>
+                          <TableCell>Oxygen Saturation</TableCell>
+                          <TableCell>
+                            {analysis.waterQuality.oxygenSaturation.toFixed(1)} mg/L (
+                            {((analysis.waterQuality.dissolvedOxygen / analysis.waterQuality.oxygenSaturation) * 100).toFixed(0)}%)
+                          </TableCell>
+                        </TableRow>
                         <TableRow>
                           <TableCell>pH</TableCell>
                           <TableCell>{analysis.waterQuality.pH.toFixed(1)}</TableCell>
@@ -579,6 +479,115 @@ const WeatherImpactAnalyzer: React.FC = () => {
             </Grid>
           )}
 
+          {forecast && (
+            <Grid item xs={12}>
+              <Card>
+                <CardContent>
+                  <Typography variant="h6" gutterBottom>
+                    Forecast Timeline
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" paragraph>
+                    {forecast.fileName}: {forecast.days.length} day{forecast.days.length === 1 ? '' : 's'}. Dissolved oxygen is estimated from each day's weather.
+                  </Typography>
+                  {forecast.errors.map((error) => (
+                    <Alert key={error} severity="error" sx={{ mb: 2 }}>
+                      {error}
+                    </Alert>
+                  ))}
+                  {!forecast.errors.length && forecast.missing.length > 0 && (
+                    <Alert severity="info" sx={{ mb: 2 }}>
+                      The file has no {forecast.missing.map((field) => forecastFieldLabels[field]).join(', ')}; the form's values are used for every day.
+                    </Alert>
+                  )}
+                  {forecast.skipped > 0 && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      {forecast.skipped} row{forecast.skipped === 1 ? '' : 's'} without a readable date {forecast.skipped === 1 ? 'was' : 'were'} skipped.
+                    </Alert>
+                  )}
+                  {timeline.length > 0 && (
+                    <>
+                      <Alert severity={flaggedDays ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                        {flaggedDays
+                          ? `${flaggedDays} of ${timeline.length} days need action.`
+                          : `No action needed over the next ${timeline.length} days.`}
+                      </Alert>
+                      <Box sx={{ height: 300 }}>
+                        <ResponsiveContainer>
+                          <LineChart data={timeline.map((day) => ({
+                            date: day.date,
+                            temperature: Number(day.impact.waterQuality.temperature.toFixed(1)),
+                            dissolvedOxygen: Number(day.impact.waterQuality.dissolvedOxygen.toFixed(1)),
+                          }))}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="date" />
+                            <YAxis yAxisId="left" label={{ value: 'Temperature (°C)', angle: -90, position: 'insideLeft' }} />
+                            <YAxis yAxisId="right" orientation="right" label={{ value: 'DO (mg/L)', angle: 90, position: 'insideRight' }} />
+                            <Tooltip />
+                            <Legend />
+                            {oxygenMinimum !== undefined && (
+                              <ReferenceLine yAxisId="right" y={oxygenMinimum} stroke="#d32f2f" strokeDasharray="4 4" label="DO minimum" />
+                            )}
+                            <Line yAxisId="left" type="monotone" dataKey="temperature" stroke="#8884d8" name="Water Temperature" />
+                            <Line yAxisId="right" type="monotone" dataKey="dissolvedOxygen" stroke="#82ca9d" name="Dissolved Oxygen" />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </Box>
+                      <TableContainer sx={{ mt: 2 }}>
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>Date</TableCell>
+                              <TableCell>Air (°C)</TableCell>
+                              <TableCell>Water (°C)</TableCell>
+                              <TableCell>DO (mg/L)</TableCell>
+                              <TableCell>DO Risk</TableCell>
+                              <TableCell>Feeding</TableCell>
+                              <TableCell>Aeration</TableCell>
+                              <TableCell>Action</TableCell>
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {timeline.map((day) => (
+                              <TableRow key={day.date} sx={day.needsAction ? { bgcolor: 'action.hover' } : undefined}>
+                                <TableCell>{day.date}</TableCell>
+                                <TableCell>{day.temperature.toFixed(1)}</TableCell>
+                                <TableCell>
+                                  <Chip size="small" label={day.impact.waterQuality.temperature.toFixed(1)} color={riskColor(day.impact.riskLevel)} />
+                                </TableCell>
+                                <TableCell>{day.impact.waterQuality.dissolvedOxygen.toFixed(1)}</TableCell>
+                                <TableCell>
+                                  <Chip size="small" label={day.impact.oxygenRisk} color={riskColor(day.impact.oxygenRisk)} />
+                                </TableCell>
+                                <TableCell>{day.impact.operationalImpact.feedingSchedule}</TableCell>
+                                <TableCell>{day.impact.operationalImpact.aeration}</TableCell>
+                                <TableCell>
+                                  {day.needsAction ? (
+                                    <>
+                                      <Chip size="small" label="Action needed" color="warning" sx={{ mb: 0.5 }} />
+                                      <Typography variant="body2" component="div">
+                                        <ul style={{ margin: 0, paddingLeft: 16 }}>
+                                          {day.impact.recommendations.map((rec, index) => (
+                                            <li key={index}>{rec}</li>
+                                          ))}
+                                        </ul>
+                                      </Typography>
+                                    </>
+                                  ) : (
+                                    '—'
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </TableContainer>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </Grid>
+          )}
+
           {historicalData.length > 0 && (
             <Grid item xs={12}>
               <Card>
@@ -0,0 +1,608 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Container,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  Alert,
+  Box,
+  IconButton,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as ChartTooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import FormField from '../components/FormField';
+import PondPicker from '../components/PondPicker';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useSite } from '../contexts/SiteContext';
+import { useUnits } from '../contexts/UnitsContext';
+import { useCollection } from '../db';
+import { findStation, monthNames, monthOptions, useClimateStations } from '../climate';
+import {
+  DEFAULT_INFLOW_OXYGEN,
+  DEFAULT_SEDIMENT_DEMAND,
+  applyColdSnap,
+  dailyAirTemperatures,
+  forecastWinterIce,
+  iceExposures,
+  winterFeedingSchedule,
+} from '../engine';
+import type { WinterFeedingWeek, WinterIceForecast, WinterStock } from '../engine';
+import { findSpecies, growthStageForWeight, growthStageOptions, speciesOptions, useSpeciesCatalog } from '../species';
+import type { GrowthStage } from '../species';
+import type { Pond } from '../types/records';
+import { getBiomass, getCurrentWeight, isActiveBatch } from '../utils/batches';
+import { getPondArea, savePondResult, toFieldValue } from '../utils/ponds';
+
+interface StockRow {
+  speciesId: string;
+  stage: GrowthStage;
+  biomass: string;
+}
+
+interface WinterForm {
+  area: string;
+  depth: string;
+  startMonth: string;
+  airTemperatures: string[]; // monthly means from startMonth
+  waterTemperature: string;
+  exposure: string;
+  snapDate: string;
+  snapDays: string;
+  snapDrop: string;
+  sedimentDemand: string;
+  windSpeed: string;
+  threshold: string;
+  inflowOxygen: string;
+}
+
+const WINTER_MONTHS = 5;
+const DAY_MS = 86400000;
+
+const initialForm: WinterForm = {
+  area: '',
+  depth: '',
+  startMonth: '10',
+  airTemperatures: Array(WINTER_MONTHS).fill(''),
+  waterTemperature: '',
+  exposure: 'snow',
+  snapDate: '',
+  snapDays: '10',
+  snapDrop: '8',
+  sedimentDemand: String(DEFAULT_SEDIMENT_DEMAND),
+  windSpeed: '2',
+  threshold: '5',
+  inflowOxygen: String(DEFAULT_INFLOW_OXYGEN),
+};
+
+const emptyStock: StockRow = { speciesId: '', stage: 'adult', biomass: '' };
+
+const exposureOptions = Object.entries(iceExposures).map(([value, { label }]) => ({ value, label }));
+
+const monthOf = (startMonth: number, offset: number) => (startMonth + offset) % 12;
+
+// First day of the winter starting in `startMonth`: the one under way, or else the next.
+const winterStart = (startMonth: number) => {
+  const now = new Date();
+  const monthsIn = (now.getMonth() - startMonth + 12) % 12;
+  return monthsIn < WINTER_MONTHS
+    ? new Date(now.getFullYear(), now.getMonth() - monthsIn, 1)
+    : new Date(now.getFullYear(), now.getMonth() + 12 - monthsIn, 1);
+};
+
+export default function WinterIceManager() {
+  const { t } = useLanguage();
+  const { site, pressure } = useSite();
+  const { format } = useUnits();
+  const { catalog } = useSpeciesCatalog();
+  const { stations, loaded } = useClimateStations();
+  const [batches] = useCollection('batches');
+  const [readings] = useCollection('waterQualityReadings');
+  const [pondId, setPondId] = useState('');
+  const [form, setForm] = useState<WinterForm>(initialForm);
+  const [stocks, setStocks] = useState<StockRow[]>([emptyStock]);
+  const [forecast, setForecast] = useState<WinterIceForecast | null>(null);
+  const [schedule, setSchedule] = useState<WinterFeedingWeek[]>([]);
+  const station = findStation(stations, site.stationId);
+  const startMonth = Number(form.startMonth);
+  const start = winterStart(startMonth);
+
+  const update = (field: Exclude<keyof WinterForm, 'airTemperatures'>) => (value: string | number | string[]) =>
+    setForm((prev) => ({ ...prev, [field]: String(value) }));
+
+  const updateTemperature = (offset: number) => (value: string | number | string[]) =>
+    setForm((prev) => ({
+      ...prev,
+      airTemperatures: prev.airTemperatures.map((cell, index) => (index === offset ? String(value) : cell)),
+    }));
+
+  const updateStock = (index: number, field: keyof StockRow) => (value: string | number | string[]) =>
+    setStocks((prev) => prev.map((row, each) => (each === index ? { ...row, [field]: String(value) } : row)));
+
+  const dateOfDay = (day: number) => new Date(start.getTime() + (day - 1) * DAY_MS).toLocaleDateString();
+
+  // The site's station gives each winter month's mean air temperature.
+  useEffect(() => {
+    if (!loaded || !station) return;
+    setForm((prev) => ({
+      ...prev,
+      airTemperatures: Array.from({ length: WINTER_MONTHS }, (_, offset) =>
+        String(station.normals.temperature[monthOf(Number(prev.startMonth), offset)])
+      ),
+    }));
+  }, [loaded, station, form.startMonth]);
+
+  // Fills size, one stock row per stocked batch and the latest water temperature.
+  const handlePondSelect = (pond: Pond | null) => {
+    setPondId(pond?.id ?? '');
+    setForecast(null);
+    if (!pond) return;
+    const stocked = batches.filter((batch) => batch.pondId === pond.id && isActiveBatch(batch));
+    const latest = readings
+      .filter((reading) => reading.pondId === pond.id)
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt))[0];
+    if (stocked.length) {
+      setStocks(
+        stocked.map((batch) => ({
+          speciesId: batch.speciesId,
+          stage: growthStageForWeight(getCurrentWeight(batch)),
+          biomass: toFieldValue(getBiomass(batch)),
+        }))
+      );
+    }
+    const species = findSpecies(catalog, stocked[0]?.speciesId ?? '');
+    setForm((prev) => ({
+      ...prev,
+      area: toFieldValue(getPondArea(pond)),
+      depth: toFieldValue(pond.depth),
+      threshold: species ? String(species.waterQuality.dissolvedOxygen.min) : prev.threshold,
+      waterTemperature: latest?.values.temperature !== undefined ? String(latest.values.temperature) : prev.waterTemperature,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const winterStocks: WinterStock[] = stocks.flatMap((row) => {
+      const species = findSpecies(catalog, row.speciesId);
+      return species ? [{ species, stage: row.stage, biomass: parseFloat(row.biomass) || 0 }] : [];
+    });
+    const months = form.airTemperatures.map((temperature, offset) => ({
+      days: new Date(start.getFullYear(), start.getMonth() + offset + 1, 0).getDate(),
+      temperature: parseFloat(temperature) || 0,
+    }));
+    let airTemperatures = dailyAirTemperatures(months);
+    if (form.snapDate) {
+      const snapDay = Math.round((new Date(form.snapDate).getTime() - start.getTime()) / DAY_MS) + 1;
+      airTemperatures = applyColdSnap(airTemperatures, snapDay, parseFloat(form.snapDays) || 0, parseFloat(form.snapDrop) || 0);
+    }
+    const threshold = parseFloat(form.threshold);
+    const result = forecastWinterIce({
+      airTemperatures,
+      startWaterTemperature: form.waterTemperature === '' ? undefined : parseFloat(form.waterTemperature),
+      area: parseFloat(form.area),
+      depth: parseFloat(form.depth),
+      iceCoefficient: iceExposures[form.exposure]?.coefficient,
+      stocks: winterStocks,
+      sedimentDemand: parseFloat(form.sedimentDemand) || 0,
+      pressure,
+      windSpeed: parseFloat(form.windSpeed) || 0,
+      threshold,
+      inflowOxygen: parseFloat(form.inflowOxygen) || 0,
+    });
+    setForecast(result);
+    setSchedule(winterFeedingSchedule(result, winterStocks, threshold));
+
+    if (pondId) {
+      const ice = result.iceOnDay !== null ? `ice from day ${result.iceOnDay}, up to ${result.maxIceThickness.toFixed(0)} cm` : 'no ice';
+      const oxygen = result.breachDay !== null ? `oxygen below ${threshold} mg/L on day ${result.breachDay}` : 'oxygen holds';
+      savePondResult(pondId, 'winterIce', {
+        summary: `${ice}, ${oxygen}`,
+        values: {
+          iceOnDay: result.iceOnDay ?? 'none',
+          maxIceThickness: result.maxIceThickness,
+          iceCoverDays: result.iceCoverDays,
+          breachDay: result.breachDay ?? 'none',
+          openWaterArea: result.openWaterArea,
+          aerators: result.aerators,
+          inflow: result.inflow ?? 'none',
+        },
+      });
+    }
+  };
+
+  const renderVerdict = (result: WinterIceForecast) => {
+    const threshold = parseFloat(form.threshold);
+    if (result.iceOnDay === null || result.maxIceDay === null) {
+      return (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          {t('No ice expected: the daily mean air temperature does not fall below freezing once the pond has cooled to 4 °C.')}
+        </Alert>
+      );
+    }
+    return (
+      <>
+        <Alert severity={result.frozenToBottom ? 'error' : 'info'} sx={{ mb: 2 }}>
+          {t('Ice from {date}, {days} days of cover in all, thickest {thickness} around {maxDate}.', {
+            date: dateOfDay(result.iceOnDay),
+            days: result.iceCoverDays,
+            thickness: format(result.maxIceThickness, 'cm', 0),
+            maxDate: dateOfDay(result.maxIceDay),
+          })}
+          {result.frozenToBottom && ` ${t('The pond would freeze nearly to the bottom.')}`}
+        </Alert>
+        {result.breachDay !== null ? (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {t('Under the ice oxygen falls below {threshold} mg/L on {date}, reaching {minimum} mg/L.', {
+              threshold,
+              date: dateOfDay(result.breachDay),
+              minimum: result.minimumOxygen.toFixed(1),
+            })}
+          </Alert>
+        ) : (
+          <Alert severity="success" sx={{ mb: 3 }}>
+            {t('Oxygen stays above {threshold} mg/L under the ice; the lowest is {minimum} mg/L.', {
+              threshold,
+              minimum: result.minimumOxygen.toFixed(1),
+            })}
+          </Alert>
+        )}
+      </>
+    );
+  };
+
+  const rationText = (week: WinterFeedingWeek, index: number) => {
+    const ration = week.rations[index];
+    if (!ration.rate) return t(ration.advice);
+    return `${ration.rate.toFixed(2)}% × ${ration.feedsPerDay}/${t('day')} · ${format(ration.feed, 'kg', 1)}/${t('day')} (${t(ration.advice)})`;
+  };
+
+  const area = parseFloat(form.area) || 0;
+  const scheduled = schedule[0]?.rations ?? [];
+
+  return (
+    <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        {t('Winter Ice Manager')}
+      </Typography>
+      <Typography variant="body1" color="text.secondary" paragraph>
+        {t('Estimates when a pond freezes and how thick the ice gets from freezing degree-days, how fast fish and pond mud use up the oxygen under the ice, what open water, aeration or inflow keeps it safe, and how far to cut feeding through the winter.')}
+      </Typography>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={5}>
+          <Paper sx={{ p: 3 }}>
+            <form onSubmit={handleSubmit}>
+              <Grid container spacing={2}>
+                <Grid item xs={12}>
+                  <PondPicker value={pondId} onChange={handlePondSelect} />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Pond Area" type="number" unit="m²" value={form.area} onChange={update('area')} required />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Average Depth" type="number" unit="m" value={form.depth} onChange={update('depth')} required />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1">{t('Stock')}</Typography>
+                </Grid>
+                {stocks.map((row, index) => (
+                  <React.Fragment key={index}>
+                    <Grid item xs={12} sm={5}>
+                      <FormField
+                        label="Species"
+                        type="select"
+                        value={row.speciesId}
+                        onChange={updateStock(index, 'speciesId')}
+                        options={speciesOptions(catalog)}
+                      />
+                    </Grid>
+                    <Grid item xs={6} sm={3}>
+                      <FormField
+                        label="Growth Stage"
+                        type="select"
+                        value={row.stage}
+                        onChange={updateStock(index, 'stage')}
+                        options={growthStageOptions}
+                      />
+                    </Grid>
+                    <Grid item xs={4} sm={3}>
+                      <FormField label="Fish Biomass" type="number" unit="kg" value={row.biomass} onChange={updateStock(index, 'biomass')} />
+                    </Grid>
+                    <Grid item xs={2} sm={1} sx={{ display: 'flex', alignItems: 'center' }}>
+                      <IconButton
+                        aria-label={t('Remove')}
+                        onClick={() => setStocks((prev) => prev.filter((_, each) => each !== index))}
+                        disabled={stocks.length === 1}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Grid>
+                  </React.Fragment>
+                ))}
+                <Grid item xs={12}>
+                  <Button startIcon={<AddIcon />} onClick={() => setStocks((prev) => [...prev, emptyStock])}>
+                    {t('Add species')}
+                  </Button>
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1">{t('Winter Weather')}</Typography>
+                  {!station && (
+                    <Typography variant="body2" color="text.secondary">
+                      {t('Choose a climate station in')}{' '}
+                      <Link component={RouterLink} to="/settings">
+                        {t('Settings')}
+                      </Link>{' '}
+                      {t('to prefill the monthly air temperatures.')}
+                    </Typography>
+                  )}
+                </Grid>
+                <Grid item xs={12}>
+                  <Typography variant="body2">{t('Mean air temperature of each winter month')}</Typography>
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField label="Winter Starts In" type="select" value={form.startMonth} onChange={update('startMonth')} options={monthOptions} />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Snow and Shelter"
+                    type="select"
+                    value={form.exposure}
+                    onChange={update('exposure')}
+                    options={exposureOptions}
+                  />
+                </Grid>
+                {form.airTemperatures.map((temperature, offset) => (
+                  <Grid item xs={6} sm={4} key={offset}>
+                    <FormField
+                      label={monthNames[monthOf(startMonth, offset)]}
+                      type="number"
+                      unit="°C"
+                      value={temperature}
+                      onChange={updateTemperature(offset)}
+                      required
+                    />
+                  </Grid>
+                ))}
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Water Temperature at Start"
+                    type="number"
+                    unit="°C"
+                    value={form.waterTemperature}
+                    onChange={update('waterTemperature')}
+                    helperText="Leave empty to start from the air temperature"
+                  />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1">{t('Cold Snap')}</Typography>
+                </Grid>
+                <Grid item xs={12} sm={4}>
+                  <FormField
+                    label="Starts On"
+                    type="date"
+                    value={form.snapDate}
+                    onChange={update('snapDate')}
+                    helperText="Leave empty for a normal winter"
+                  />
+                </Grid>
+                <Grid item xs={6} sm={4}>
+                  <FormField label="Length (days)" type="number" value={form.snapDays} onChange={update('snapDays')} />
+                </Grid>
+                <Grid item xs={6} sm={4}>
+                  <FormField
+                    label="Colder Than Normal By (°C)"
+                    type="number"
+                    value={form.snapDrop}
+                    onChange={update('snapDrop')}
+                  />
+                </Grid>
+
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1">{t('Oxygen')}</Typography>
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Minimum Safe Oxygen"
+                    type="number"
+                    unit="mg/L"
+                    value={form.threshold}
+                    onChange={update('threshold')}
+                    required
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Sediment Oxygen Demand (g O₂/m²/day)"
+                    type="number"
+                    value={form.sedimentDemand}
+                    onChange={update('sedimentDemand')}
+                    helperText="About 1 for a typical earthen pond, 2-3 with heavy organic mud"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Wind Speed"
+                    type="number"
+                    unit="m/s"
+                    value={form.windSpeed}
+                    onChange={update('windSpeed')}
+                    helperText="Over open water in the ice"
+                  />
+                </Grid>
+                <Grid item xs={12} sm={6}>
+                  <FormField
+                    label="Inflow Oxygen"
+                    type="number"
+                    unit="mg/L"
+                    value={form.inflowOxygen}
+                    onChange={update('inflowOxygen')}
+                    helperText="Spring or stream water that can be let in"
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    {t('Site pressure {pressure} kPa, from the elevation in Settings.', { pressure: pressure.toFixed(1) })}
+                  </Typography>
+                </Grid>
+                <Grid item xs={12}>
+                  <Button type="submit" variant="contained" size="large" fullWidth>
+                    {t('Forecast Winter Ice')}
+                  </Button>
+                </Grid>
+              </Grid>
+            </form>
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          {forecast ? (
+            <Paper sx={{ p: 3 }}>
+              {renderVerdict(forecast)}
+
+              <Box sx={{ height: 300, mb: 3 }}>
+                <ResponsiveContainer>
+                  <LineChart
+                    data={forecast.daily.map((day) => ({
+                      day: day.day,
+                      air: Number(day.airTemperature.toFixed(1)),
+                      ice: Number(day.iceThickness.toFixed(1)),
+                      oxygen: Number(day.oxygen.toFixed(1)),
+                    }))}
+                    margin={{ top: 5, right: 20, bottom: 5, left: 0 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="day" />
+                    <YAxis yAxisId="left" />
+                    <YAxis yAxisId="right" orientation="right" domain={[0, 'auto']} />
+                    <ReferenceLine yAxisId="right" y={parseFloat(form.threshold)} stroke="#f44336" strokeDasharray="4 4" />
+                    <ChartTooltip labelFormatter={(day) => dateOfDay(Number(day))} />
+                    <Legend />
+                    <Line yAxisId="left" dataKey="air" name={t('Air temperature (°C)')} stroke="#ff9800" dot={false} isAnimationActive={false} />
+                    <Line yAxisId="left" dataKey="ice" name={t('Ice (cm)')} stroke="#90caf9" dot={false} isAnimationActive={false} />
+                    <Line yAxisId="right" dataKey="oxygen" name={t('Oxygen (mg/L)')} stroke="#1976d2" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </Box>
+
+              <Typography variant="h6" gutterBottom>
+                {t('Keeping Oxygen Under Ice')}
+              </Typography>
+              <TableContainer sx={{ mb: 2 }}>
+                <Table size="small">
+                  <TableBody>
+                    <TableRow>
+                      <TableCell>{t('Fish respiration')}</TableCell>
+                      <TableCell align="right">{format(forecast.demand.fish, 'g/day', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Sediment demand')}</TableCell>
+                      <TableCell align="right">{format(forecast.demand.sediment, 'g/day', 0)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>
+                        <strong>{t('Total consumption')}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{format(forecast.demand.total, 'g/day', 0)}</strong>
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('Open water kept free of ice')}</TableCell>
+                      <TableCell align="right">
+                        {format(forecast.openWaterArea, 'm²', 0)}
+                        {area > 0 && ` (${Math.round((forecast.openWaterArea / area) * 100)}%)`}
+                      </TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('or aerators')}</TableCell>
+                      <TableCell align="right">{forecast.aerators}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell>{t('or a steady inflow of')}</TableCell>
+                      <TableCell align="right">{forecast.inflow !== null ? format(forecast.inflow, 'L/min', 0) : '—'}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {forecast.openWaterArea > area && area > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  {t('Open water alone cannot keep up: the pond surface is too small for its stock. Aerate or let in water.')}
+                </Alert>
+              )}
+              {forecast.recommendations.length > 0 && (
+                <Box component="ul" sx={{ mt: 0, mb: 3, pl: 3 }}>
+                  {forecast.recommendations.map((rec) => (
+                    <Typography component="li" variant="body2" key={rec}>
+                      {t(rec)}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+
+              <Typography variant="h6" gutterBottom>
+                {t('Winter Feeding Schedule')}
+              </Typography>
+              {scheduled.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  {t('Add a species to the stock for a feeding schedule.')}
+                </Typography>
+              ) : (
+                <TableContainer sx={{ maxHeight: 400 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>{t('Week of')}</TableCell>
+                        <TableCell align="right">{t('Water (°C)')}</TableCell>
+                        <TableCell align="right">{t('Ice')}</TableCell>
+                        {scheduled.map((ration, index) => (
+                          <TableCell key={index}>{findSpecies(catalog, ration.speciesId)?.name}</TableCell>
+                        ))}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {schedule.map((week) => (
+                        <TableRow key={week.week}>
+                          <TableCell>{dateOfDay(week.startDay)}</TableCell>
+                          <TableCell align="right">{format(week.waterTemperature, '°C', 1)}</TableCell>
+                          <TableCell align="right">{week.iceThickness > 0 ? format(week.iceThickness, 'cm', 0) : '—'}</TableCell>
+                          {week.rations.map((_, index) => (
+                            <TableCell key={index}>{rationText(week, index)}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Paper>
+          ) : (
+            <Alert severity="info">
+              {t('Enter the pond, its stock and the winter air temperatures to forecast ice and under-ice oxygen.')}
+            </Alert>
+          )}
+        </Grid>
+      </Grid>
+    </Container>
+  );
+}
@@ -0,0 +1,37 @@
+// Polls an HTTP endpoint, such as a logger's or gateway's "latest reading" URL, and hands
+// each response body to onPayload. The endpoint must allow cross-origin requests.
+
+export interface HttpPollOptions {
+  url: string;
+  intervalSeconds: number;
+  onPayload: (payload: string) => void;
+  onError: (message: string) => void;
+}
+
+// Starts polling at once; call the returned function to stop.
+export const pollHttp = ({ url, intervalSeconds, onPayload, onError }: HttpPollOptions): (() => void) => {
+  let controller: AbortController | null = null;
+
+  const poll = async () => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+    try {
+      const response = await fetch(url, { signal: current.signal, cache: 'no-store' });
+      if (!response.ok) {
+        onError(`${url} answered ${response.status} ${response.statusText}`);
+        return;
+      }
+      onPayload(await response.text());
+    } catch (error) {
+      if (!current.signal.aborted) onError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  poll();
+  const timer = setInterval(poll, Math.max(intervalSeconds, 1) * 1000);
+  return () => {
+    clearInterval(timer);
+    controller?.abort();
+  };
+};
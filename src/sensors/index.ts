@@ -0,0 +1,9 @@
+export { createMqttClient, topicMatches } from './mqtt';
+export type { MqttClient, MqttOptions, MqttStatus } from './mqtt';
+export { pollHttp } from './http';
+export type { HttpPollOptions } from './http';
+export { parseSensorPayload, applyCalibration, formatSensorValues } from './payload';
+export type { SensorSample } from './payload';
+export { simulateReading } from './simulator';
+export { defaultSensorSettings, newSensorDevice, transportOptions, SENSOR_PASSWORD_KEY } from './settings';
+export type { SensorSettings } from './settings';
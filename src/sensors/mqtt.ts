@@ -0,0 +1,209 @@
+// A small MQTT 3.1.1 client over WebSocket (the "mqtt" subprotocol that Mosquitto, EMQX and
+// HiveMQ serve, usually on ws://host:8083/mqtt or :9001). It only does what live readings
+// need: subscribe and publish at QoS 0, keep-alive pings, and reconnecting after drops.
+
+export type MqttStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export interface MqttOptions {
+  url: string;
+  clientId?: string;
+  username?: string;
+  password?: string;
+  keepAlive?: number; // seconds
+  onMessage: (topic: string, payload: string) => void;
+  onStatus: (status: MqttStatus, message?: string) => void;
+}
+
+export interface MqttClient {
+  subscribe: (filters: string[]) => void;
+  publish: (topic: string, payload: string) => void;
+  close: () => void;
+}
+
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const PUBACK = 4;
+const SUBSCRIBE = 8;
+const PINGREQ = 12;
+const DISCONNECT = 14;
+
+const MAX_RETRY_DELAY = 60000;
+
+const connackErrors: Record<number, string> = {
+  1: 'Broker does not support MQTT 3.1.1',
+  2: 'Client id rejected',
+  3: 'Broker unavailable',
+  4: 'Wrong username or password',
+  5: 'Not authorised',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const encodeLength = (length: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+};
+
+const encodeString = (text: string): number[] => {
+  const bytes = encoder.encode(text);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const packet = (type: number, flags: number, body: number[]) =>
+  new Uint8Array([(type << 4) | flags, ...encodeLength(body.length), ...body]);
+
+// True when a topic matches a subscription filter with + (one level) and # (the rest) wildcards.
+export const topicMatches = (filter: string, topic: string): boolean => {
+  const filterLevels = filter.split('/');
+  const topicLevels = topic.split('/');
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === '#') return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== '+' && filterLevels[i] !== topicLevels[i]) return false;
+  }
+  return filterLevels.length === topicLevels.length;
+};
+
+export const createMqttClient = (options: MqttOptions): MqttClient => {
+  const keepAlive = options.keepAlive ?? 30;
+  const clientId = options.clientId || `aquaculture-tools-${Math.random().toString(16).slice(2, 10)}`;
+  let socket: WebSocket | null = null;
+  let connected = false;
+  let closed = false;
+  let filters: string[] = [];
+  let packetId = 0;
+  let buffer = new Uint8Array(0);
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = 2000;
+
+  const send = (data: Uint8Array) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+  };
+
+  const sendSubscribe = (topics: string[]) => {
+    if (!connected || !topics.length) return;
+    packetId = (packetId % 0xffff) + 1;
+    const body = [packetId >> 8, packetId & 0xff];
+    topics.forEach((topic) => body.push(...encodeString(topic), 0));
+    send(packet(SUBSCRIBE, 2, body));
+  };
+
+  const handlePacket = (type: number, flags: number, body: Uint8Array) => {
+    if (type === CONNACK) {
+      const code = body[1];
+      if (code !== 0) {
+        options.onStatus('error', connackErrors[code] ?? `Connection refused (${code})`);
+        closed = true;
+        socket?.close();
+        return;
+      }
+      connected = true;
+      retryDelay = 2000;
+      options.onStatus('connected');
+      sendSubscribe(filters);
+      pingTimer = setInterval(() => send(new Uint8Array([PINGREQ << 4, 0])), keepAlive * 1000);
+    } else if (type === PUBLISH) {
+      const topicLength = (body[0] << 8) | body[1];
+      const topic = decoder.decode(body.subarray(2, 2 + topicLength));
+      const qos = (flags >> 1) & 3;
+      let offset = 2 + topicLength;
+      if (qos > 0) {
+        // Brokers grant the subscription's QoS 0, but retained messages may still carry an id.
+        if (qos === 1) send(packet(PUBACK, 0, [body[offset], body[offset + 1]]));
+        offset += 2;
+      }
+      options.onMessage(topic, decoder.decode(body.subarray(offset)));
+    }
+  };
+
+  // WebSocket frames need not line up with MQTT packets; keep the remainder for the next frame.
+  const handleData = (data: ArrayBuffer) => {
+    const joined = new Uint8Array(buffer.length + data.byteLength);
+    joined.set(buffer);
+    joined.set(new Uint8Array(data), buffer.length);
+    buffer = joined;
+    while (buffer.length >= 2) {
+      let length = 0;
+      let multiplier = 1;
+      let index = 1;
+      let byte: number;
+      do {
+        if (index >= buffer.length) return;
+        byte = buffer[index++];
+        length += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+      } while (byte & 0x80);
+      if (buffer.length < index + length) return;
+      handlePacket(buffer[0] >> 4, buffer[0] & 0x0f, buffer.subarray(index, index + length));
+      buffer = buffer.slice(index + length);
+    }
+  };
+
+  const open = () => {
+    options.onStatus('connecting');
+    buffer = new Uint8Array(0);
+    try {
+      socket = new WebSocket(options.url, 'mqtt');
+    } catch (error) {
+      options.onStatus('error', error instanceof Error ? error.message : String(error));
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => {
+      let flags = 0x02; // clean session
+      const payload = encodeString(clientId);
+      if (options.username) {
+        flags |= 0x80;
+        payload.push(...encodeString(options.username));
+        if (options.password) {
+          flags |= 0x40;
+          payload.push(...encodeString(options.password));
+        }
+      }
+      send(packet(CONNECT, 0, [...encodeString('MQTT'), 4, flags, keepAlive >> 8, keepAlive & 0xff, ...payload]));
+    };
+    socket.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) handleData(event.data);
+    };
+    socket.onclose = () => {
+      const wasConnected = connected;
+      connected = false;
+      clearInterval(pingTimer);
+      if (closed) return;
+      if (wasConnected) options.onStatus('disconnected');
+      else options.onStatus('error', `Could not reach ${options.url}`);
+      retryTimer = setTimeout(open, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+    };
+  };
+
+  open();
+
+  return {
+    subscribe: (topics) => {
+      const added = topics.filter((topic) => topic && !filters.includes(topic));
+      filters = [...filters, ...added];
+      sendSubscribe(added);
+    },
+    publish: (topic, payload) => {
+      if (connected) send(packet(PUBLISH, 0, [...encodeString(topic), ...encoder.encode(payload)]));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      clearInterval(pingTimer);
+      if (connected) send(new Uint8Array([DISCONNECT << 4, 0]));
+      socket?.close();
+      connected = false;
+    },
+  };
+};
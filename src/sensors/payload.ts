@@ -0,0 +1,84 @@
+import { waterQualityParameters } from '../engine';
+import { isPlausible, parameterForName } from '../utils/waterQualityImport';
+import type { WaterQualityParameter, WaterQualityReading } from '../types/records';
+
+// Readings arrive either as a JSON object, e.g. {"do": 5.4, "temp": 28.1, "ts": 1760000000},
+// optionally wrapped as {"values": {...}}, or as a bare number on a topic whose last level
+// names the parameter, e.g. farm/pond-1/ph → 7.8. Values are taken in the stored units.
+// The built-in simulator marks its payloads with "simulated": true.
+
+export interface SensorSample {
+  takenAt: string; // ISO
+  values: WaterQualityReading['values'];
+  simulated: boolean;
+}
+
+const timestampKeys = ['takenAt', 'timestamp', 'time', 'ts', 'datetime', 'date'];
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+// Unix seconds, Unix milliseconds or an ISO string; anything else means "now".
+const parseTimestamp = (value: unknown): string => {
+  const number = toNumber(value);
+  const date =
+    number !== null ? new Date(number < 1e12 ? number * 1000 : number) : typeof value === 'string' ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : new Date().toISOString();
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseSensorPayload = (payload: string, topic = ''): SensorSample | null => {
+  const values: WaterQualityReading['values'] = {};
+  const add = (name: string, raw: unknown) => {
+    const parameter = parameterForName(name);
+    const value = toNumber(raw);
+    if (parameter && value !== null && isPlausible(parameter, value)) values[parameter] = value;
+  };
+
+  const bare = toNumber(payload);
+  if (bare !== null) {
+    add(topic.split('/').pop() ?? '', bare);
+    return Object.keys(values).length ? { takenAt: new Date().toISOString(), values, simulated: false } : null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(payload);
+  } catch {
+    return null;
+  }
+  if (!isObject(data)) return null;
+  const fields = isObject(data.values) ? data.values : isObject(data.readings) ? data.readings : data;
+  Object.entries(fields).forEach(([key, value]) => {
+    if (!timestampKeys.includes(key) && key !== 'simulated') add(key, value);
+  });
+  const stamp = timestampKeys.find((key) => data[key] !== undefined || fields[key] !== undefined);
+  return Object.keys(values).length
+    ? {
+        takenAt: parseTimestamp(stamp ? data[stamp] ?? fields[stamp] : undefined),
+        values,
+        simulated: data.simulated === true,
+      }
+    : null;
+};
+
+export const applyCalibration = (
+  values: WaterQualityReading['values'],
+  calibration: Partial<Record<WaterQualityParameter, number>>
+): WaterQualityReading['values'] =>
+  Object.fromEntries(
+    Object.entries(values).map(([parameter, value]) => [
+      parameter,
+      Math.round((value + (calibration[parameter as WaterQualityParameter] ?? 0)) * 1000) / 1000,
+    ])
+  );
+
+// One-line summary such as "Dissolved Oxygen 5.4 mg/L · pH 7.8".
+export const formatSensorValues = (values: WaterQualityReading['values']): string =>
+  (Object.entries(values) as [WaterQualityParameter, number][])
+    .map(([parameter, value]) => `${waterQualityParameters[parameter].name} ${value} ${waterQualityParameters[parameter].unit}`.trim())
+    .join(' · ');
@@ -0,0 +1,41 @@
+import type { SensorDevice } from '../types/records';
+import type { SelectOption } from '../types/form';
+
+// Connection to the farm's MQTT broker, shared by every MQTT device. The broker password
+// is kept apart (see SENSOR_PASSWORD_KEY) so it never ends up in a backup file.
+export interface SensorSettings {
+  brokerUrl: string; // ws:// or wss:// address of the broker's WebSocket listener
+  username: string;
+  clientId: string; // blank for a random id per session
+  connect: boolean; // keep the broker connection open while the app runs
+  recordMinutes: number; // save a live reading to the pond's history at most this often; 0 to not save
+}
+
+export const defaultSensorSettings: SensorSettings = {
+  brokerUrl: '',
+  username: '',
+  clientId: '',
+  connect: false,
+  recordMinutes: 15,
+};
+
+export const SENSOR_PASSWORD_KEY = 'sensorBrokerPassword';
+
+export const newSensorDevice = (pondId = ''): SensorDevice => ({
+  id: '',
+  name: '',
+  pondId,
+  transport: 'simulator',
+  topic: '',
+  url: '',
+  pollSeconds: 30,
+  staleMinutes: 10,
+  calibration: {},
+  enabled: true,
+});
+
+export const transportOptions: SelectOption[] = [
+  { value: 'mqtt', label: 'MQTT broker' },
+  { value: 'http', label: 'HTTP polling' },
+  { value: 'simulator', label: 'Simulator' },
+];
@@ -0,0 +1,41 @@
+import { oxygenSaturation } from '../engine';
+
+// Stand-in for a probe in a warm, green pond, for trying the sensor pipeline without
+// hardware. Temperature peaks mid-afternoon; oxygen and pH follow photosynthesis, from
+// supersaturated in the afternoon to a pre-dawn low, with a smaller swing on cloudy days.
+// Each device seed gets its own pond, so several simulated devices do not move in step.
+// Payloads carry "simulated": true so no device that picks them up saves them as readings.
+
+// Repeatable 0-1 value from a string.
+const hashUnit = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+};
+
+// Roughly normal measurement noise with the given standard deviation.
+const noise = (sd: number) => (Math.random() + Math.random() + Math.random() - 1.5) * 2 * sd;
+
+const diel = (hour: number, peakHour: number) => Math.cos((2 * Math.PI * (hour - peakHour)) / 24);
+
+export const simulateReading = (seed: string, date = new Date()) => {
+  const hour = date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+  const pond = hashUnit(seed);
+  const sunshine = 0.4 + 0.6 * hashUnit(`${seed}:${date.toDateString()}`);
+
+  const temperature = 26 + 4 * pond + 1.5 * diel(hour, 15) + noise(0.05);
+  const saturation = oxygenSaturation({ temperature });
+  const oxygenSwing = (0.3 + 0.2 * pond) * sunshine;
+  const dissolvedOxygen = Math.max(0.2, saturation * (0.9 + oxygenSwing * diel(hour, 16)) + noise(0.08));
+  const pH = 7.6 + 0.4 * pond + 0.5 * sunshine * diel(hour, 16) + noise(0.02);
+
+  return {
+    ts: Math.floor(date.getTime() / 1000),
+    temp: Math.round(temperature * 100) / 100,
+    do: Math.round(dissolvedOxygen * 100) / 100,
+    ph: Math.round(pH * 100) / 100,
+    simulated: true,
+  };
+};
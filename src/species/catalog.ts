@@ -0,0 +1,634 @@
+// Canonical species parameters. Every page reads species data from here (through
+// useSpeciesCatalog) instead of keeping its own table, so values cannot drift apart.
+//
+// Units: temperatures °C, dissolved oxygen / ammonia (TAN) / nitrite / nitrate mg/L,
+// alkalinity and hardness mg/L CaCO₃, turbidity NTU, salinity ppt, densities kg/m³,
+// weights g, growth g/day, feeding rates % of biomass per day, prices USD.
+
+export type GrowthStage = 'fry' | 'fingerling' | 'juvenile' | 'adult';
+
+export const growthStages: GrowthStage[] = ['fry', 'fingerling', 'juvenile', 'adult'];
+
+export type WaterParameter =
+  | 'temperature'
+  | 'dissolvedOxygen'
+  | 'ph'
+  | 'ammonia'
+  | 'nitrite'
+  | 'nitrate'
+  | 'alkalinity'
+  | 'hardness'
+  | 'turbidity'
+  | 'salinity';
+
+// min/max bound the tolerable range; optimal is where the species performs best.
+export interface ParameterRange {
+  min: number;
+  max: number;
+  optimal: { min: number; max: number };
+}
+
+export interface ToxicityThresholds {
+  // mg/L un-ionized NH₃; above warning growth and gills suffer, above critical fish start to die.
+  unionizedAmmonia: { warning: number; critical: number };
+  // Cl⁻ : NO₂⁻ by weight; below warning nitrite uptake begins, below critical methaemoglobin forms.
+  chlorideNitriteRatio: { warning: number; critical: number };
+  // mg/L nitrite that needs no chloride protection at all.
+  safeNitrite: number;
+}
+
+export type DiseaseCategory = 'bacterial' | 'parasitic' | 'fungal' | 'viral';
+
+export type Susceptibility = 'low' | 'medium' | 'high';
+
+export interface SpeciesProfile {
+  id: string;
+  name: string;
+  scientificName: string;
+  thermalGroup: 'warmwater' | 'coolwater' | 'coldwater';
+  description: string;
+  image?: string;
+  waterQuality: Record<WaterParameter, ParameterRange>;
+  // Ranges that differ for a life stage; anything not listed falls back to waterQuality.
+  stageWaterQuality?: Partial<Record<GrowthStage, Partial<Record<WaterParameter, ParameterRange>>>>;
+  // Overrides the thermal-group ammonia and nitrite limits in src/engine/toxicity.ts.
+  toxicity?: ToxicityThresholds;
+  production: {
+    maxDensity: number; // kg/m³ at harvest, pond culture
+    stockingDensity: number; // fish/m³, recommended grow-out stocking
+    minDepth: number; // m
+    growthRate: number; // g/day, typical grow-out
+    maxGrowthRate: number; // % body weight/day, optimal conditions, as the growth model compounds it
+    marketWeight: number; // g
+    fcr: number;
+    oxygenConsumption: number; // kg O₂ per kg fish per day
+    wasteRate: number; // kg solids per kg feed
+    nutrientRichness: number; // relative to tilapia = 1
+  };
+  feeding: {
+    rates: Record<GrowthStage, number>; // inside optimal temperature
+    suboptimalRates: Record<GrowthStage, number>; // outside optimal temperature
+    frequency: Record<GrowthStage, number>; // feeds per day
+    tips: string[];
+  };
+  diseaseSusceptibility: Record<DiseaseCategory, Susceptibility>;
+  prices: {
+    seed: number; // per fingerling
+    market: number; // per kg, typical farm-gate
+    marketRange: [number, number]; // per kg
+    variation: number; // seasonal price swing, fraction of market price
+  };
+  ratings: {
+    growth: number; // 1-5
+    diseaseResistance: number; // 1-5
+    marketValue: number; // 1-5
+    difficulty: number; // 1-5
+  };
+  market: {
+    demand: 'High' | 'Medium' | 'Low';
+    seasonality: string;
+  };
+  regulations: string[];
+  characteristics: string[];
+  care: string[];
+}
+
+const warmwaterChemistry = {
+  ammonia: { min: 0, max: 2, optimal: { min: 0, max: 0.5 } },
+  nitrite: { min: 0, max: 1, optimal: { min: 0, max: 0.3 } },
+  nitrate: { min: 0, max: 100, optimal: { min: 0, max: 50 } },
+  alkalinity: { min: 50, max: 200, optimal: { min: 100, max: 150 } },
+  hardness: { min: 50, max: 200, optimal: { min: 100, max: 150 } },
+  turbidity: { min: 0, max: 50, optimal: { min: 5, max: 25 } },
+};
+
+const coldwaterChemistry = {
+  ammonia: { min: 0, max: 1, optimal: { min: 0, max: 0.2 } },
+  nitrite: { min: 0, max: 0.3, optimal: { min: 0, max: 0.1 } },
+  nitrate: { min: 0, max: 75, optimal: { min: 0, max: 30 } },
+  alkalinity: { min: 20, max: 200, optimal: { min: 50, max: 150 } },
+  hardness: { min: 20, max: 200, optimal: { min: 50, max: 150 } },
+  turbidity: { min: 0, max: 25, optimal: { min: 0, max: 10 } },
+};
+
+// Fry need more oxygen and cleaner water than grow-out fish; coldwater fry also want it cooler.
+const warmwaterFry = {
+  dissolvedOxygen: { min: 4, max: 10, optimal: { min: 6, max: 8 } },
+  ammonia: { min: 0, max: 1, optimal: { min: 0, max: 0.2 } },
+  nitrite: { min: 0, max: 0.5, optimal: { min: 0, max: 0.1 } },
+};
+
+const coldwaterStages = {
+  fry: {
+    temperature: { min: 4, max: 16, optimal: { min: 8, max: 13 } },
+    dissolvedOxygen: { min: 7, max: 12, optimal: { min: 8, max: 11 } },
+    ammonia: { min: 0, max: 0.5, optimal: { min: 0, max: 0.1 } },
+    nitrite: { min: 0, max: 0.2, optimal: { min: 0, max: 0.05 } },
+  },
+  fingerling: {
+    temperature: { min: 4, max: 20, optimal: { min: 10, max: 16 } },
+  },
+};
+
+const indianMajorCarpCare = [
+  'Stock in polyculture with other Indian major carps',
+  'Fertilise ponds to keep plankton productive',
+  'Supplement with rice bran and oil cake',
+  'Check dissolved oxygen at dawn in summer',
+];
+
+export const builtInSpecies: SpeciesProfile[] = [
+  {
+    id: 'tilapia',
+    name: 'Tilapia',
+    scientificName: 'Oreochromis niloticus',
+    thermalGroup: 'warmwater',
+    description: 'Hardy species with good stress tolerance',
+    image: '/species/tilapia.jpg',
+    waterQuality: {
+      temperature: { min: 15, max: 35, optimal: { min: 25, max: 30 } },
+      dissolvedOxygen: { min: 3, max: 10, optimal: { min: 5, max: 8 } },
+      ph: { min: 6, max: 9, optimal: { min: 6.5, max: 8.5 } },
+      salinity: { min: 0, max: 15, optimal: { min: 0, max: 5 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: {
+      fry: { ...warmwaterFry, temperature: { min: 20, max: 34, optimal: { min: 27, max: 30 } } },
+    },
+    toxicity: {
+      unionizedAmmonia: { warning: 0.1, critical: 0.5 },
+      chlorideNitriteRatio: { warning: 10, critical: 6 },
+      safeNitrite: 0.3,
+    },
+    production: {
+      maxDensity: 5,
+      stockingDensity: 20,
+      minDepth: 1,
+      growthRate: 2.5,
+      maxGrowthRate: 3.5,
+      marketWeight: 800,
+      fcr: 1.6,
+      oxygenConsumption: 0.25,
+      wasteRate: 0.35,
+      nutrientRichness: 1.0,
+    },
+    feeding: {
+      rates: { fry: 15, fingerling: 8, juvenile: 5, adult: 3 },
+      suboptimalRates: { fry: 12, fingerling: 6, juvenile: 4, adult: 2 },
+      frequency: { fry: 6, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: [
+        'Feed small amounts frequently for better feed conversion',
+        'Observe fish behavior during feeding to avoid overfeeding',
+        'Adjust feeding rate based on water quality conditions',
+        'Reduce feeding during periods of stress or disease',
+      ],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'low', fungal: 'low', viral: 'medium' },
+    prices: { seed: 0.1, market: 3, marketRange: [2, 4], variation: 0.2 },
+    ratings: { growth: 4.5, diseaseResistance: 4, marketValue: 3, difficulty: 2 },
+    market: { demand: 'High', seasonality: 'Year-round demand' },
+    regulations: [
+      'Common aquaculture species in most regions',
+      'May require permits for commercial farming',
+      'Some restrictions on non-native species',
+    ],
+    characteristics: [
+      'Hardy and adaptable',
+      'Fast growth rate',
+      'Efficient feed conversion',
+      'Tolerant of poor water quality',
+    ],
+    care: [
+      'Regular water quality monitoring',
+      'Maintain water temperature above 24°C',
+      'Feed 2-3 times daily',
+      'Stock at appropriate density',
+    ],
+  },
+  {
+    id: 'carp',
+    name: 'Common Carp',
+    scientificName: 'Cyprinus carpio',
+    thermalGroup: 'warmwater',
+    description: 'Adaptable to various water conditions',
+    waterQuality: {
+      temperature: { min: 12, max: 32, optimal: { min: 20, max: 28 } },
+      dissolvedOxygen: { min: 3, max: 10, optimal: { min: 5, max: 8 } },
+      ph: { min: 6.5, max: 9, optimal: { min: 7, max: 8.5 } },
+      salinity: { min: 0, max: 5, optimal: { min: 0, max: 2 } },
+      ...warmwaterChemistry,
+      ammonia: { min: 0, max: 1.5, optimal: { min: 0, max: 0.4 } },
+      nitrite: { min: 0, max: 0.8, optimal: { min: 0, max: 0.2 } },
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 4,
+      stockingDensity: 15,
+      minDepth: 1,
+      growthRate: 2.0,
+      maxGrowthRate: 4.0,
+      marketWeight: 1500,
+      fcr: 1.8,
+      oxygenConsumption: 0.2,
+      wasteRate: 0.4,
+      nutrientRichness: 1.1,
+    },
+    feeding: {
+      rates: { fry: 12, fingerling: 6, juvenile: 4, adult: 2 },
+      suboptimalRates: { fry: 10, fingerling: 5, juvenile: 3, adult: 1.5 },
+      frequency: { fry: 5, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: [
+        'Carp are bottom feeders - ensure feed reaches the bottom',
+        'Monitor water quality closely during intensive feeding',
+        'Supplement with natural pond productivity',
+        'Adjust feeding based on seasonal changes',
+      ],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'medium', fungal: 'medium', viral: 'high' },
+    prices: { seed: 0.15, market: 4, marketRange: [3, 5], variation: 0.15 },
+    ratings: { growth: 4, diseaseResistance: 4, marketValue: 3, difficulty: 1 },
+    market: { demand: 'High', seasonality: 'Peak demand in winter festivals' },
+    regulations: ['Widely farmed; check local rules on non-native stocking'],
+    characteristics: ['Omnivorous bottom feeder', 'Tolerates low oxygen', 'Wide temperature tolerance'],
+    care: ['Avoid overstocking in shallow ponds', 'Keep banks stable against burrowing', 'Feed pellets that sink'],
+  },
+  {
+    id: 'catfish',
+    name: 'Catfish',
+    scientificName: 'Ictalurus punctatus',
+    thermalGroup: 'warmwater',
+    description: 'Tolerant of poor water quality',
+    waterQuality: {
+      temperature: { min: 18, max: 34, optimal: { min: 24, max: 30 } },
+      dissolvedOxygen: { min: 3, max: 10, optimal: { min: 5, max: 7 } },
+      ph: { min: 6, max: 8.5, optimal: { min: 6.5, max: 7.5 } },
+      salinity: { min: 0, max: 8, optimal: { min: 0, max: 2 } },
+      ...warmwaterChemistry,
+      alkalinity: { min: 50, max: 180, optimal: { min: 80, max: 140 } },
+      hardness: { min: 50, max: 180, optimal: { min: 80, max: 140 } },
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 6,
+      stockingDensity: 25,
+      minDepth: 1,
+      growthRate: 3.0,
+      maxGrowthRate: 5.0,
+      marketWeight: 1200,
+      fcr: 1.5,
+      oxygenConsumption: 0.3,
+      wasteRate: 0.3,
+      nutrientRichness: 0.9,
+    },
+    feeding: {
+      rates: { fry: 12, fingerling: 6, juvenile: 4, adult: 2.5 },
+      suboptimalRates: { fry: 9, fingerling: 4, juvenile: 3, adult: 1.5 },
+      frequency: { fry: 5, fingerling: 3, juvenile: 2, adult: 1 },
+      tips: [
+        'Feed floating pellets to judge appetite',
+        'Feed in the evening when catfish are most active',
+        'Cut rations sharply below 18°C',
+      ],
+    },
+    diseaseSusceptibility: { bacterial: 'high', parasitic: 'medium', fungal: 'low', viral: 'medium' },
+    prices: { seed: 0.2, market: 4.5, marketRange: [3.5, 5.5], variation: 0.25 },
+    ratings: { growth: 4, diseaseResistance: 3, marketValue: 3, difficulty: 2 },
+    market: { demand: 'Medium', seasonality: 'Year-round demand' },
+    regulations: ['Permits may be required for non-native catfish species'],
+    characteristics: ['Air-tolerant bottom dweller', 'Fast growth in warm water', 'High stocking tolerance'],
+    care: ['Provide aeration at high densities', 'Grade to reduce cannibalism', 'Monitor nitrite closely'],
+  },
+  {
+    id: 'trout',
+    name: 'Rainbow Trout',
+    scientificName: 'Oncorhynchus mykiss',
+    thermalGroup: 'coldwater',
+    description: 'Sensitive to water quality changes',
+    image: '/species/trout.jpg',
+    waterQuality: {
+      temperature: { min: 4, max: 22, optimal: { min: 12, max: 18 } },
+      dissolvedOxygen: { min: 6, max: 12, optimal: { min: 7, max: 10 } },
+      ph: { min: 6.5, max: 8.5, optimal: { min: 6.5, max: 8 } },
+      salinity: { min: 0, max: 30, optimal: { min: 0, max: 5 } },
+      ...coldwaterChemistry,
+    },
+    stageWaterQuality: coldwaterStages,
+    production: {
+      maxDensity: 15,
+      stockingDensity: 10,
+      minDepth: 1.5,
+      growthRate: 1.5,
+      maxGrowthRate: 4.5,
+      marketWeight: 350,
+      fcr: 1.2,
+      oxygenConsumption: 0.35,
+      wasteRate: 0.25,
+      nutrientRichness: 1.2,
+    },
+    feeding: {
+      rates: { fry: 8, fingerling: 4, juvenile: 2.5, adult: 1.5 },
+      suboptimalRates: { fry: 5, fingerling: 2.5, juvenile: 1.5, adult: 0.8 },
+      frequency: { fry: 8, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: [
+        'Use high-protein extruded feed',
+        'Stop feeding when water exceeds 20°C',
+        'Feed by hand to watch for appetite loss',
+      ],
+    },
+    diseaseSusceptibility: { bacterial: 'high', parasitic: 'medium', fungal: 'high', viral: 'high' },
+    prices: { seed: 0.3, market: 8, marketRange: [6, 10], variation: 0.2 },
+    ratings: { growth: 3.5, diseaseResistance: 3, marketValue: 4, difficulty: 4 },
+    market: { demand: 'High', seasonality: 'Peak demand in winter' },
+    regulations: [
+      'Strict environmental regulations',
+      'Water discharge permits required',
+      'Regular health inspections mandatory',
+    ],
+    characteristics: [
+      'Cold water species',
+      'High protein requirement',
+      'Sensitive to water quality',
+      'Premium market value',
+    ],
+    care: [
+      'Maintain high oxygen levels',
+      'Regular water quality testing',
+      'Temperature control essential',
+      'High-quality feed required',
+    ],
+  },
+  {
+    id: 'rohu',
+    name: 'Rohu',
+    scientificName: 'Labeo rohita',
+    thermalGroup: 'warmwater',
+    description: 'Column-feeding Indian major carp, the staple of composite culture',
+    waterQuality: {
+      temperature: { min: 14, max: 38, optimal: { min: 25, max: 32 } },
+      dissolvedOxygen: { min: 4, max: 10, optimal: { min: 5, max: 8 } },
+      ph: { min: 6.5, max: 9, optimal: { min: 7, max: 8.5 } },
+      salinity: { min: 0, max: 5, optimal: { min: 0, max: 1 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 3,
+      stockingDensity: 12,
+      minDepth: 1.2,
+      growthRate: 1.8,
+      maxGrowthRate: 3.0,
+      marketWeight: 1000,
+      fcr: 1.7,
+      oxygenConsumption: 0.22,
+      wasteRate: 0.38,
+      nutrientRichness: 1.0,
+    },
+    feeding: {
+      rates: { fry: 10, fingerling: 5, juvenile: 3, adult: 2 },
+      suboptimalRates: { fry: 7, fingerling: 3.5, juvenile: 2, adult: 1 },
+      frequency: { fry: 4, fingerling: 3, juvenile: 2, adult: 2 },
+      tips: ['Feed bran–oil cake mix in bags or trays', 'Keep plankton blooms moderate with fertiliser'],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'high', fungal: 'medium', viral: 'low' },
+    prices: { seed: 0.05, market: 2.5, marketRange: [2, 3], variation: 0.15 },
+    ratings: { growth: 3.5, diseaseResistance: 4, marketValue: 3, difficulty: 2 },
+    market: { demand: 'High', seasonality: 'Year-round demand, peaks at festivals' },
+    regulations: ['Native to South Asia; seed from certified hatcheries'],
+    characteristics: ['Column feeder', 'Prized table fish in India', 'Polyculture component'],
+    care: indianMajorCarpCare,
+  },
+  {
+    id: 'catla',
+    name: 'Catla',
+    scientificName: 'Labeo catla',
+    thermalGroup: 'warmwater',
+    description: 'Surface-feeding Indian major carp with the fastest growth of the three',
+    waterQuality: {
+      temperature: { min: 18, max: 37, optimal: { min: 25, max: 32 } },
+      dissolvedOxygen: { min: 4, max: 10, optimal: { min: 5, max: 8 } },
+      ph: { min: 6.5, max: 9, optimal: { min: 7, max: 8.5 } },
+      salinity: { min: 0, max: 3, optimal: { min: 0, max: 1 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 3,
+      stockingDensity: 10,
+      minDepth: 1.2,
+      growthRate: 2.2,
+      maxGrowthRate: 3.5,
+      marketWeight: 1200,
+      fcr: 1.8,
+      oxygenConsumption: 0.22,
+      wasteRate: 0.38,
+      nutrientRichness: 1.0,
+    },
+    feeding: {
+      rates: { fry: 10, fingerling: 5, juvenile: 3, adult: 2 },
+      suboptimalRates: { fry: 7, fingerling: 3.5, juvenile: 2, adult: 1 },
+      frequency: { fry: 4, fingerling: 3, juvenile: 2, adult: 2 },
+      tips: ['Relies on zooplankton; keep the pond fertilised', 'Broadcast supplementary feed on the surface'],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'high', fungal: 'medium', viral: 'low' },
+    prices: { seed: 0.05, market: 2.5, marketRange: [2, 3.2], variation: 0.15 },
+    ratings: { growth: 4, diseaseResistance: 4, marketValue: 3, difficulty: 2 },
+    market: { demand: 'High', seasonality: 'Year-round demand, peaks at festivals' },
+    regulations: ['Native to South Asia; seed from certified hatcheries'],
+    characteristics: ['Surface feeder', 'Large head, deep body', 'Polyculture component'],
+    care: indianMajorCarpCare,
+  },
+  {
+    id: 'mrigal',
+    name: 'Mrigal',
+    scientificName: 'Cirrhinus mrigala',
+    thermalGroup: 'warmwater',
+    description: 'Bottom-feeding Indian major carp that uses detritus',
+    waterQuality: {
+      temperature: { min: 14, max: 38, optimal: { min: 24, max: 32 } },
+      dissolvedOxygen: { min: 3, max: 10, optimal: { min: 5, max: 8 } },
+      ph: { min: 6.5, max: 9, optimal: { min: 7, max: 8.5 } },
+      salinity: { min: 0, max: 5, optimal: { min: 0, max: 1 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 3,
+      stockingDensity: 12,
+      minDepth: 1.2,
+      growthRate: 1.5,
+      maxGrowthRate: 2.5,
+      marketWeight: 800,
+      fcr: 1.8,
+      oxygenConsumption: 0.2,
+      wasteRate: 0.4,
+      nutrientRichness: 1.0,
+    },
+    feeding: {
+      rates: { fry: 10, fingerling: 5, juvenile: 3, adult: 2 },
+      suboptimalRates: { fry: 7, fingerling: 3.5, juvenile: 2, adult: 1 },
+      frequency: { fry: 4, fingerling: 3, juvenile: 2, adult: 2 },
+      tips: ['Use sinking feed or feed trays on the bottom', 'Tolerates lower oxygen than rohu and catla'],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'medium', fungal: 'medium', viral: 'low' },
+    prices: { seed: 0.04, market: 2, marketRange: [1.6, 2.5], variation: 0.15 },
+    ratings: { growth: 3, diseaseResistance: 4, marketValue: 2, difficulty: 1 },
+    market: { demand: 'Medium', seasonality: 'Year-round demand' },
+    regulations: ['Native to South Asia; seed from certified hatcheries'],
+    characteristics: ['Bottom feeder', 'Detritivore', 'Polyculture component'],
+    care: indianMajorCarpCare,
+  },
+  {
+    id: 'snow-trout',
+    name: 'Snow Trout',
+    scientificName: 'Schizothorax richardsonii',
+    thermalGroup: 'coldwater',
+    description: 'Native Himalayan coldwater fish suited to upland streams and raceways',
+    waterQuality: {
+      temperature: { min: 2, max: 22, optimal: { min: 10, max: 18 } },
+      dissolvedOxygen: { min: 6, max: 12, optimal: { min: 7, max: 10 } },
+      ph: { min: 6.5, max: 8.5, optimal: { min: 7, max: 8 } },
+      salinity: { min: 0, max: 1, optimal: { min: 0, max: 0.5 } },
+      ...coldwaterChemistry,
+    },
+    stageWaterQuality: coldwaterStages,
+    production: {
+      maxDensity: 5,
+      stockingDensity: 8,
+      minDepth: 1,
+      growthRate: 0.5,
+      maxGrowthRate: 1.2,
+      marketWeight: 250,
+      fcr: 1.8,
+      oxygenConsumption: 0.3,
+      wasteRate: 0.3,
+      nutrientRichness: 1.1,
+    },
+    feeding: {
+      rates: { fry: 8, fingerling: 4, juvenile: 2.5, adult: 1.5 },
+      suboptimalRates: { fry: 4, fingerling: 2, juvenile: 1, adult: 0.5 },
+      frequency: { fry: 6, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: ['Grazes periphyton; provide stones or substrate', 'Feed sparingly in winter'],
+    },
+    diseaseSusceptibility: { bacterial: 'medium', parasitic: 'medium', fungal: 'high', viral: 'low' },
+    prices: { seed: 0.1, market: 5, marketRange: [4, 6], variation: 0.2 },
+    ratings: { growth: 2, diseaseResistance: 3, marketValue: 4, difficulty: 4 },
+    market: { demand: 'Medium', seasonality: 'Local demand in hill markets' },
+    regulations: ['Native species; wild seed collection is restricted in several states'],
+    characteristics: ['Coldwater native', 'Slow growing', 'High local value'],
+    care: ['Needs clear, flowing, well-oxygenated water', 'Protect from sudden temperature rises'],
+  },
+  {
+    id: 'seabass',
+    name: 'Sea Bass',
+    scientificName: 'Dicentrarchus labrax',
+    thermalGroup: 'coolwater',
+    description: 'Marine and brackish-water carnivore',
+    waterQuality: {
+      temperature: { min: 8, max: 30, optimal: { min: 20, max: 26 } },
+      dissolvedOxygen: { min: 4, max: 10, optimal: { min: 6, max: 8 } },
+      ph: { min: 7, max: 8.5, optimal: { min: 7.5, max: 8.3 } },
+      salinity: { min: 5, max: 40, optimal: { min: 25, max: 35 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 15,
+      stockingDensity: 12,
+      minDepth: 1.5,
+      growthRate: 1.5,
+      maxGrowthRate: 3.8,
+      marketWeight: 400,
+      fcr: 1.7,
+      oxygenConsumption: 0.3,
+      wasteRate: 0.28,
+      nutrientRichness: 1.1,
+    },
+    feeding: {
+      rates: { fry: 10, fingerling: 5, juvenile: 3, adult: 1.5 },
+      suboptimalRates: { fry: 6, fingerling: 3, juvenile: 2, adult: 1 },
+      frequency: { fry: 6, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: ['Feed high-protein marine diets', 'Reduce feeding below 14°C'],
+    },
+    diseaseSusceptibility: { bacterial: 'high', parasitic: 'medium', fungal: 'low', viral: 'high' },
+    prices: { seed: 0.4, market: 8, marketRange: [6, 10], variation: 0.2 },
+    ratings: { growth: 3, diseaseResistance: 3, marketValue: 4, difficulty: 4 },
+    market: { demand: 'High', seasonality: 'Peak demand in summer' },
+    regulations: ['Coastal aquaculture licence required'],
+    characteristics: ['Euryhaline', 'Carnivorous', 'Premium market'],
+    care: ['Maintain stable salinity', 'Grade regularly to limit cannibalism'],
+  },
+  {
+    id: 'seabream',
+    name: 'Sea Bream',
+    scientificName: 'Sparus aurata',
+    thermalGroup: 'coolwater',
+    description: 'Marine species farmed in cages and coastal ponds',
+    waterQuality: {
+      temperature: { min: 10, max: 30, optimal: { min: 20, max: 26 } },
+      dissolvedOxygen: { min: 4, max: 10, optimal: { min: 6, max: 8 } },
+      ph: { min: 7, max: 8.5, optimal: { min: 7.5, max: 8.3 } },
+      salinity: { min: 15, max: 40, optimal: { min: 30, max: 38 } },
+      ...warmwaterChemistry,
+    },
+    stageWaterQuality: { fry: warmwaterFry },
+    production: {
+      maxDensity: 15,
+      stockingDensity: 12,
+      minDepth: 1.5,
+      growthRate: 1.3,
+      maxGrowthRate: 3.2,
+      marketWeight: 400,
+      fcr: 1.8,
+      oxygenConsumption: 0.3,
+      wasteRate: 0.28,
+      nutrientRichness: 1.1,
+    },
+    feeding: {
+      rates: { fry: 10, fingerling: 5, juvenile: 3, adult: 1.5 },
+      suboptimalRates: { fry: 6, fingerling: 3, juvenile: 2, adult: 1 },
+      frequency: { fry: 6, fingerling: 4, juvenile: 3, adult: 2 },
+      tips: ['Feed marine pellets', 'Reduce feeding below 15°C'],
+    },
+    diseaseSusceptibility: { bacterial: 'high', parasitic: 'high', fungal: 'low', viral: 'medium' },
+    prices: { seed: 0.4, market: 7, marketRange: [5, 9], variation: 0.2 },
+    ratings: { growth: 3, diseaseResistance: 3, marketValue: 4, difficulty: 4 },
+    market: { demand: 'Medium', seasonality: 'Peak demand in summer' },
+    regulations: ['Coastal aquaculture licence required'],
+    characteristics: ['Marine', 'Omnivorous', 'Premium market'],
+    care: ['Maintain full-strength salinity', 'Protect from cold snaps'],
+  },
+];
+
+export const findSpecies = (catalog: SpeciesProfile[], id: string): SpeciesProfile | undefined =>
+  catalog.find((species) => species.id === id);
+
+export const speciesOptions = (catalog: SpeciesProfile[]) =>
+  catalog.map((species) => ({ value: species.id, label: species.name }));
+
+export const growthStageOptions: { value: GrowthStage; label: string }[] = [
+  { value: 'fry', label: 'Fry' },
+  { value: 'fingerling', label: 'Fingerling' },
+  { value: 'juvenile', label: 'Juvenile' },
+  { value: 'adult', label: 'Adult' },
+];
+
+// Rough life stage from mean body weight in g, for picking feeding table rows.
+export const growthStageForWeight = (weight: number): GrowthStage => {
+  if (weight < 1) return 'fry';
+  if (weight < 20) return 'fingerling';
+  if (weight < 150) return 'juvenile';
+  return 'adult';
+};
+
+// Daily feeding rate (% biomass) for a stage at the given water temperature.
+export const feedingRateFor = (species: SpeciesProfile, stage: GrowthStage, temperature: number) => {
+  const { optimal } = species.waterQuality.temperature;
+  const inOptimal = temperature >= optimal.min && temperature <= optimal.max;
+  return inOptimal ? species.feeding.rates[stage] : species.feeding.suboptimalRates[stage];
+};
+
+// Market prices are stored in US$; pass a formatter to show them in another currency.
+export const formatPriceRange = (
+  species: SpeciesProfile,
+  money: (usd: number) => string = (usd) => `$${usd}`
+) => `${money(species.prices.marketRange[0])}-${money(species.prices.marketRange[1])}/kg`;
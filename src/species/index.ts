@@ -0,0 +1,20 @@
+export {
+  builtInSpecies,
+  growthStages,
+  findSpecies,
+  speciesOptions,
+  growthStageOptions,
+  feedingRateFor,
+  growthStageForWeight,
+  formatPriceRange,
+} from './catalog';
+export type {
+  SpeciesProfile,
+  GrowthStage,
+  WaterParameter,
+  ParameterRange,
+  ToxicityThresholds,
+  DiseaseCategory,
+  Susceptibility,
+} from './catalog';
+export { useSpeciesCatalog, mergeCatalog, isBuiltInSpecies } from './useSpeciesCatalog';
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import { useCollection } from '../db';
+import { builtInSpecies } from './catalog';
+import type { SpeciesProfile } from './catalog';
+
+// Saved species with a built-in id replace that entry; the rest are appended.
+export const mergeCatalog = (custom: SpeciesProfile[]): SpeciesProfile[] => {
+  const overrides = new Map(custom.map((species) => [species.id, species]));
+  const merged = builtInSpecies.map((species) => overrides.get(species.id) ?? species);
+  const added = custom.filter((species) => !builtInSpecies.some((b) => b.id === species.id));
+  return [...merged, ...added];
+};
+
+export const isBuiltInSpecies = (id: string) => builtInSpecies.some((species) => species.id === id);
+
+export function useSpeciesCatalog() {
+  const [customSpecies, setCustomSpecies] = useCollection('customSpecies');
+  const catalog = useMemo(() => mergeCatalog(customSpecies), [customSpecies]);
+  return { catalog, customSpecies, setCustomSpecies };
+}
+
+export default useSpeciesCatalog;
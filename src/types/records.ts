@@ -0,0 +1,238 @@
+// Farm records persisted in the local data store (see src/db).
+
+export interface GrowthData {
+  date: string;
+  weight: number;
+  length: number;
+  sampleSize: number;
+  notes: string;
+}
+
+// Growth Tracker records from before batches existed; schema v4 moves them into batches.
+export interface GrowthRecord {
+  id: string;
+  species: string;
+  batchId: string;
+  data: GrowthData[];
+}
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  minThreshold: number;
+  lastRestocked: string;
+  expiryDate?: string;
+  supplier: string;
+  cost: number;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  date: Date;
+  type: string;
+  description: string;
+  priority: 'Low' | 'Medium' | 'High';
+  status: 'Pending' | 'Completed';
+}
+
+export interface FeedingSchedule {
+  id: string;
+  time: string;
+  amount: number;
+  type: string;
+  notes: string;
+}
+
+export interface FeedStock {
+  type: string;
+  amount: number;
+  unit: string;
+  lastUpdated: string;
+}
+
+export interface FeedingHistory {
+  id: number;
+  date: string;
+  amount: number;
+  notes: string;
+}
+
+export type PondShape = 'rectangular' | 'circular' | 'irregular';
+
+// Water-quality bands set for one pond, in the units of waterQualityParameters. Outside the
+// warning band a reading is critical.
+export interface PondWaterQualityRange {
+  optimal: { min: number; max: number };
+  warning: { min: number; max: number };
+}
+
+// Latest output a calculator saved against a pond.
+export interface PondResult {
+  summary: string;
+  values: Record<string, number | string>;
+  calculatedAt: string;
+}
+
+export interface Pond {
+  id: string;
+  name: string;
+  shape: PondShape;
+  length: number; // m, rectangular ponds
+  width: number; // m, rectangular ponds
+  diameter: number; // m, circular ponds
+  area: number; // m², entered directly for irregular ponds
+  depth: number; // m, average water depth
+  slopeRatio: number; // horizontal:vertical bank slope
+  soilType: string;
+  waterSource: string;
+  liner: string;
+  notes: string;
+  results: Record<string, PondResult>;
+  // Overrides the stock's species ranges, e.g. for broodstock or hatchery tanks.
+  waterQualityRanges?: Partial<Record<WaterQualityParameter, PondWaterQualityRange>>;
+}
+
+export type BatchStatus = 'planned' | 'stocked' | 'growing' | 'harvesting' | 'closed';
+
+export interface FeedLog {
+  id: string;
+  date: string;
+  amount: number; // kg
+  feedType: string;
+  notes: string;
+}
+
+export interface MortalityRecord {
+  id: string;
+  date: string;
+  count: number;
+  cause: string;
+}
+
+export interface TreatmentRecord {
+  id: string;
+  date: string;
+  product: string;
+  reason: string;
+  dose: string;
+  notes: string;
+}
+
+export interface HarvestRecord {
+  id: string;
+  date: string;
+  count: number;
+  weight: number; // kg, total harvested
+  pricePerKg: number;
+  notes: string;
+}
+
+// One production cycle of a species in a pond, from planning to close-out.
+export interface Batch {
+  id: string;
+  name: string;
+  pondId: string;
+  speciesId: string;
+  stockingDate: string;
+  count: number; // fish stocked
+  meanWeight: number; // g at stocking
+  hatchery: string;
+  status: BatchStatus;
+  notes: string;
+  growthSamples: GrowthData[];
+  feedLogs: FeedLog[];
+  mortalities: MortalityRecord[];
+  treatments: TreatmentRecord[];
+  harvests: HarvestRecord[];
+}
+
+export type WaterQualityParameter =
+  | 'dissolvedOxygen'
+  | 'temperature'
+  | 'pH'
+  | 'ammonia'
+  | 'nitrite'
+  | 'nitrate'
+  | 'alkalinity'
+  | 'hardness'
+  | 'salinity'
+  | 'turbidity'
+  | 'phosphate'
+  | 'carbonDioxide'
+  | 'chloride';
+
+// One water sample from a pond. Values are in the units of waterQualityParameters
+// (src/engine/waterQuality.ts); parameters that were not measured are left out.
+export interface WaterQualityReading {
+  id: string;
+  pondId: string;
+  takenAt: string; // ISO date-time
+  sampler: string;
+  source: 'manual' | 'import' | 'sensor';
+  values: Partial<Record<WaterQualityParameter, number>>;
+  notes: string;
+}
+
+export type SensorTransport = 'mqtt' | 'http' | 'simulator';
+
+// A probe or logger streaming readings for one pond.
+export interface SensorDevice {
+  id: string;
+  name: string;
+  pondId: string;
+  transport: SensorTransport;
+  // MQTT topic filter; + and # wildcards allowed. A bare number published on a topic is
+  // read as the parameter named by the topic's last level (e.g. farm/pond1/do).
+  topic: string;
+  url: string; // HTTP endpoint returning the latest reading as JSON
+  pollSeconds: number; // HTTP poll and simulator publish interval
+  staleMinutes: number; // no reading for this long marks the device stale
+  // Added to the raw value of each parameter, in the parameter's stored unit.
+  calibration: Partial<Record<WaterQualityParameter, number>>;
+  enabled: boolean;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// What a rule watches: a water-quality parameter of a pond, stock at or below its item's
+// minimum, or calendar tasks left pending past their date.
+export type AlertMetric = WaterQualityParameter | 'lowStock' | 'overdueTasks';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  pondId: string; // '' for every pond; water-quality rules only
+  comparator: 'below' | 'above';
+  // In the parameter's stored unit; days past due for overdueTasks; unused for lowStock.
+  threshold: number;
+  // How long the breaching readings must span before the alert is raised; water-quality rules only.
+  durationMinutes: number;
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+export type AlertAction = 'raised' | 'acknowledged' | 'snoozed' | 'cleared';
+
+// One occurrence of a rule firing for one subject (a pond, an item or a task), with its
+// audit trail. It stays open until the condition clears.
+export interface AlertEvent {
+  id: string;
+  key: string; // rule id and subject id; at most one open event per key
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  pondId: string;
+  subject: string; // pond, item or task name at the time it was raised
+  message: string; // keyed for t(), with params
+  params: Record<string, string | number>;
+  raisedAt: string; // ISO
+  clearedAt: string | null;
+  acknowledgedAt: string | null;
+  snoozedUntil: string | null;
+  history: { at: string; action: AlertAction; note?: string }[];
+}
@@ -0,0 +1,155 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+export type Quantity =
+  | 'length'
+  | 'area'
+  | 'volume'
+  | 'mass'
+  | 'temperature'
+  | 'concentration'
+  | 'speed'
+  | 'depthRate'
+  | 'density'
+  | 'flow'
+  | 'growthRate';
+
+export type Unit =
+  | 'm'
+  | 'cm'
+  | 'mm'
+  | 'ft'
+  | 'in'
+  | 'm²'
+  | 'ha'
+  | 'ft²'
+  | 'acre'
+  | 'm³'
+  | 'L'
+  | 'ft³'
+  | 'gal'
+  | 'kg'
+  | 'g'
+  | 'lb'
+  | 'oz'
+  | '°C'
+  | '°F'
+  | 'mg/L'
+  | 'ppm'
+  | 'km/h'
+  | 'm/s'
+  | 'mph'
+  | 'm/day'
+  | 'cm/day'
+  | 'mm/day'
+  | 'in/day'
+  | 'ft/day'
+  | 'kg/m³'
+  | 'lb/ft³'
+  | 'L/min'
+  | 'gal/min'
+  | 'g/day'
+  | 'oz/day';
+
+interface UnitDefinition {
+  quantity: Quantity;
+  // value in the quantity's base unit = value × factor + offset
+  factor: number;
+  offset?: number;
+}
+
+// Base units: m, m², m³, kg, °C, mg/L, m/s, m/day, kg/m³, m³/s and kg/day.
+// US gallons; ppm is taken as mg/L, which holds for fresh and brackish water.
+const definitions: Record<Unit, UnitDefinition> = {
+  m: { quantity: 'length', factor: 1 },
+  cm: { quantity: 'length', factor: 0.01 },
+  mm: { quantity: 'length', factor: 0.001 },
+  ft: { quantity: 'length', factor: 0.3048 },
+  in: { quantity: 'length', factor: 0.0254 },
+  'm²': { quantity: 'area', factor: 1 },
+  ha: { quantity: 'area', factor: 10000 },
+  'ft²': { quantity: 'area', factor: 0.09290304 },
+  acre: { quantity: 'area', factor: 4046.8564224 },
+  'm³': { quantity: 'volume', factor: 1 },
+  L: { quantity: 'volume', factor: 0.001 },
+  'ft³': { quantity: 'volume', factor: 0.028316846592 },
+  gal: { quantity: 'volume', factor: 0.003785411784 },
+  kg: { quantity: 'mass', factor: 1 },
+  g: { quantity: 'mass', factor: 0.001 },
+  lb: { quantity: 'mass', factor: 0.45359237 },
+  oz: { quantity: 'mass', factor: 0.028349523125 },
+  '°C': { quantity: 'temperature', factor: 1 },
+  '°F': { quantity: 'temperature', factor: 5 / 9, offset: -160 / 9 },
+  'mg/L': { quantity: 'concentration', factor: 1 },
+  ppm: { quantity: 'concentration', factor: 1 },
+  'km/h': { quantity: 'speed', factor: 1 / 3.6 },
+  'm/s': { quantity: 'speed', factor: 1 },
+  mph: { quantity: 'speed', factor: 0.44704 },
+  'm/day': { quantity: 'depthRate', factor: 1 },
+  'cm/day': { quantity: 'depthRate', factor: 0.01 },
+  'mm/day': { quantity: 'depthRate', factor: 0.001 },
+  'in/day': { quantity: 'depthRate', factor: 0.0254 },
+  'ft/day': { quantity: 'depthRate', factor: 0.3048 },
+  'kg/m³': { quantity: 'density', factor: 1 },
+  'lb/ft³': { quantity: 'density', factor: 16.018463373960138 },
+  'L/min': { quantity: 'flow', factor: 0.001 / 60 },
+  'gal/min': { quantity: 'flow', factor: 0.003785411784 / 60 },
+  'g/day': { quantity: 'growthRate', factor: 0.001 },
+  'oz/day': { quantity: 'growthRate', factor: 0.028349523125 },
+};
+
+// Imperial counterpart shown for each metric unit when the imperial system is chosen.
+const imperialUnits: Partial<Record<Unit, Unit>> = {
+  m: 'ft',
+  cm: 'in',
+  mm: 'in',
+  'm²': 'ft²',
+  ha: 'acre',
+  'm³': 'ft³',
+  L: 'gal',
+  kg: 'lb',
+  g: 'oz',
+  '°C': '°F',
+  'mg/L': 'ppm',
+  'km/h': 'mph',
+  'm/s': 'mph',
+  'm/day': 'ft/day',
+  'cm/day': 'in/day',
+  'mm/day': 'in/day',
+  'kg/m³': 'lb/ft³',
+  'L/min': 'gal/min',
+  'g/day': 'oz/day',
+};
+
+export const unitSystemOptions: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric (m, kg, °C)' },
+  { value: 'imperial', label: 'Imperial (ft, lb, °F)' },
+];
+
+export const isUnit = (value: string): value is Unit => value in definitions;
+
+export const quantityOf = (unit: Unit) => definitions[unit].quantity;
+
+// Every unit that measures the same quantity, e.g. all lengths for 'm'.
+export const compatibleUnits = (unit: Unit) =>
+  (Object.keys(definitions) as Unit[]).filter((other) => definitions[other].quantity === quantityOf(unit));
+
+// Unit to display a value stored in `unit` under the given system.
+export const unitForSystem = (unit: Unit, system: UnitSystem): Unit =>
+  system === 'imperial' ? imperialUnits[unit] ?? unit : unit;
+
+export const convert = (value: number, from: Unit, to: Unit) => {
+  if (from === to) return value;
+  const source = definitions[from];
+  const target = definitions[to];
+  if (source.quantity !== target.quantity) {
+    throw new Error(`Cannot convert ${source.quantity} (${from}) to ${target.quantity} (${to})`);
+  }
+  const base = value * source.factor + (source.offset ?? 0);
+  return (base - (target.offset ?? 0)) / target.factor;
+};
+
+// Rounds to `digits` decimals without trailing zeros, for editable field values.
+export const roundForDisplay = (value: number, digits = 4) => String(parseFloat(value.toFixed(digits)));
+
+export const formatQuantity = (value: number, from: Unit, to: Unit = from, digits = 2) =>
+  `${convert(value, from, to).toFixed(digits)} ${to}`;
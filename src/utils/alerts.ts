@@ -0,0 +1,50 @@
+import { waterQualityParameters } from '../engine';
+import type { AlertEvent, AlertRule, AlertSeverity, WaterQualityParameter } from '../types/records';
+import type { SelectOption } from '../types/form';
+
+export const alertMetricOptions: SelectOption[] = [
+  ...(Object.keys(waterQualityParameters) as WaterQualityParameter[]).map((parameter) => ({
+    value: parameter,
+    label: waterQualityParameters[parameter].name,
+  })),
+  { value: 'lowStock', label: 'Low stock (at or below the item minimum)' },
+  { value: 'overdueTasks', label: 'Overdue calendar tasks' },
+];
+
+export const comparatorOptions: SelectOption[] = [
+  { value: 'below', label: 'Below' },
+  { value: 'above', label: 'Above' },
+];
+
+export const severityOptions: SelectOption[] = [
+  { value: 'info', label: 'Info' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'critical', label: 'Critical' },
+];
+
+export const severityLabel = (severity: AlertSeverity) =>
+  severityOptions.find((option) => option.value === severity)?.label ?? severity;
+
+export const severityColors: Record<AlertSeverity, 'info' | 'warning' | 'error'> = {
+  info: 'info',
+  warning: 'warning',
+  critical: 'error',
+};
+
+export const emptyAlertRule: Omit<AlertRule, 'id'> = {
+  name: '',
+  metric: 'dissolvedOxygen',
+  pondId: '',
+  comparator: 'below',
+  threshold: 0,
+  durationMinutes: 0,
+  severity: 'warning',
+  enabled: true,
+};
+
+// Alert text in the current language; the parameter name inside it is translated too.
+export const alertText = (event: AlertEvent, t: (message: string, params?: Record<string, string | number>) => string) =>
+  t(event.message, {
+    ...event.params,
+    ...(event.params.parameter ? { parameter: t(String(event.params.parameter)) } : {}),
+  });
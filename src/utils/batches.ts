@@ -0,0 +1,116 @@
+import { getRecord, putRecord } from '../db';
+import type { Batch, BatchStatus } from '../types/records';
+import type { SelectOption } from '../types/form';
+
+// Lifecycle order; a batch only moves forward through these.
+export const batchStatuses: BatchStatus[] = ['planned', 'stocked', 'growing', 'harvesting', 'closed'];
+
+export const batchStatusOptions: SelectOption[] = [
+  { value: 'planned', label: 'Planned' },
+  { value: 'stocked', label: 'Stocked' },
+  { value: 'growing', label: 'Growing' },
+  { value: 'harvesting', label: 'Harvesting' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export const batchStatusLabel = (status: BatchStatus) =>
+  batchStatusOptions.find((option) => option.value === status)?.label ?? status;
+
+export const nextBatchStatus = (status: BatchStatus): BatchStatus | null =>
+  batchStatuses[batchStatuses.indexOf(status) + 1] ?? null;
+
+export const isActiveBatch = (batch: Batch) => batch.status !== 'planned' && batch.status !== 'closed';
+
+export const today = () => new Date().toISOString().split('T')[0];
+
+export const emptyBatch: Omit<Batch, 'id'> = {
+  name: '',
+  pondId: '',
+  speciesId: '',
+  stockingDate: today(),
+  count: 0,
+  meanWeight: 0,
+  hatchery: '',
+  status: 'planned',
+  notes: '',
+  growthSamples: [],
+  feedLogs: [],
+  mortalities: [],
+  treatments: [],
+  harvests: [],
+};
+
+// Event lists that can be appended to a batch.
+export type BatchLog = 'growthSamples' | 'feedLogs' | 'mortalities' | 'treatments' | 'harvests';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const getDeadCount = (batch: Batch) => sum(batch.mortalities.map((entry) => entry.count));
+
+export const getHarvestedCount = (batch: Batch) => sum(batch.harvests.map((entry) => entry.count));
+
+export const getHarvestedWeight = (batch: Batch) => sum(batch.harvests.map((entry) => entry.weight));
+
+export const getTotalFeed = (batch: Batch) => sum(batch.feedLogs.map((entry) => entry.amount));
+
+// Fish still in the pond.
+export const getStockOnHand = (batch: Batch) =>
+  Math.max(0, batch.count - getDeadCount(batch) - getHarvestedCount(batch));
+
+// Percentage of stocked fish that did not die (harvested fish count as survivors).
+export const getSurvivalRate = (batch: Batch) =>
+  batch.count > 0 ? ((batch.count - getDeadCount(batch)) / batch.count) * 100 : 100;
+
+const sortedSamples = (batch: Batch) =>
+  [...batch.growthSamples].sort((a, b) => a.date.localeCompare(b.date));
+
+// Mean weight in g from the latest growth sample, or the stocking weight before any sampling.
+export const getCurrentWeight = (batch: Batch) => {
+  const samples = sortedSamples(batch);
+  return samples.length > 0 ? samples[samples.length - 1].weight : batch.meanWeight;
+};
+
+// Standing biomass in kg.
+export const getBiomass = (batch: Batch) => (getStockOnHand(batch) * getCurrentWeight(batch)) / 1000;
+
+// Fish weight produced in kg: standing plus harvested biomass, less what was stocked.
+export const getBiomassGain = (batch: Batch) =>
+  getBiomass(batch) + getHarvestedWeight(batch) - (batch.count * batch.meanWeight) / 1000;
+
+export const getDaysSinceStocking = (batch: Batch, date = new Date()) =>
+  Math.max(0, Math.floor((date.getTime() - new Date(batch.stockingDate).getTime()) / (1000 * 60 * 60 * 24)));
+
+// Average daily gain in g/day since stocking, or null before the first sample.
+export const getGrowthRate = (batch: Batch) => {
+  const samples = sortedSamples(batch);
+  if (samples.length === 0) return null;
+  const latest = samples[samples.length - 1];
+  const start = batch.meanWeight > 0 ? { date: batch.stockingDate, weight: batch.meanWeight } : samples[0];
+  const days = (new Date(latest.date).getTime() - new Date(start.date).getTime()) / (1000 * 60 * 60 * 24);
+  return days > 0 ? (latest.weight - start.weight) / days : null;
+};
+
+// Appends an entry to one of a batch's logs. Failures are logged, not thrown, like
+// savePondResult, so a storage problem never blocks the page that recorded it.
+export const addBatchEntry = async <K extends BatchLog>(
+  batchId: string,
+  log: K,
+  entry: Batch[K][number]
+) => {
+  try {
+    const batch = await getRecord('batches', batchId);
+    if (!batch) return;
+    await putRecord('batches', { ...batch, [log]: [...batch[log], entry] });
+  } catch (error) {
+    console.error(`Failed to add ${log} entry to batch ${batchId}`, error);
+  }
+};
+
+// Saves a batch created from another page, e.g. a planned batch from the stocking calculator.
+export const saveBatch = async (batch: Batch) => {
+  try {
+    await putRecord('batches', batch);
+  } catch (error) {
+    console.error(`Failed to save batch ${batch.name}`, error);
+  }
+};
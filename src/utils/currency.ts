@@ -0,0 +1,65 @@
+import type { SelectOption } from '../types/form';
+
+// Money settings. Built-in reference prices (species catalog, lime, liner,
+// disposal) are in US dollars and converted with usdRate.
+export interface CurrencySettings {
+  currency: string; // ISO 4217 code
+  locale: string; // BCP 47 tag used for number grouping
+  usdRate: number; // units of currency per US dollar
+  electricityTariff: number; // per kWh
+  laborPerDay: number; // per worker-day
+  feedPrice: number; // per kg
+}
+
+export const defaultCurrencySettings: CurrencySettings = {
+  currency: 'USD',
+  locale: 'en-US',
+  usdRate: 1,
+  electricityTariff: 0.12,
+  laborPerDay: 50,
+  feedPrice: 1.2,
+};
+
+export const currencyOptions: SelectOption[] = [
+  { value: 'INR', label: 'Indian Rupee (₹)' },
+  { value: 'USD', label: 'US Dollar ($)' },
+  { value: 'EUR', label: 'Euro (€)' },
+  { value: 'GBP', label: 'British Pound (£)' },
+  { value: 'BDT', label: 'Bangladeshi Taka (৳)' },
+  { value: 'PKR', label: 'Pakistani Rupee (Rs)' },
+  { value: 'NPR', label: 'Nepalese Rupee (Rs)' },
+  { value: 'LKR', label: 'Sri Lankan Rupee (Rs)' },
+];
+
+// en-IN and the Indic locales group digits in lakh and crore (12,34,56,789).
+export const localeOptions: SelectOption[] = [
+  { value: 'en-IN', label: 'English (India) – 12,34,567.89' },
+  { value: 'hi-IN', label: 'Hindi (India)' },
+  { value: 'ur-IN', label: 'Urdu (India)' },
+  { value: 'bn-IN', label: 'Bengali (India)' },
+  { value: 'en-US', label: 'English (US) – 1,234,567.89' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'German – 1.234.567,89' },
+];
+
+export const formatMoney = (value: number, settings: CurrencySettings, digits = 2) =>
+  new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+
+export const formatNumber = (value: number, settings: CurrencySettings, digits = 0) =>
+  new Intl.NumberFormat(settings.locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+
+export const currencySymbol = (settings: CurrencySettings) =>
+  new Intl.NumberFormat(settings.locale, { style: 'currency', currency: settings.currency })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? settings.currency;
+
+// Reference USD price in the chosen currency.
+export const fromUsd = (value: number, settings: CurrencySettings) => value * settings.usdRate;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { ForecastScenario } from '../engine';
+import { createScenarioFile, parseScenario } from './forecastScenario';
+
+const scenario: ForecastScenario = {
+  startHour: 6,
+  hours: 48,
+  temperature: 28,
+  pH: 7.5,
+  dissolvedOxygen: 6,
+  ammonia: 0.5,
+  nitrite: 0.1,
+  nitrate: 2,
+  alkalinity: 100,
+  salinity: 0,
+  secchiDepth: 35,
+  area: 5000,
+  depth: 1.2,
+  fishBiomass: 3000,
+  feedRate: 60,
+  feedProtein: 32,
+  waterExchange: 5,
+  aeratorCapacity: 2,
+  aerationHours: 4,
+  cloudCover: 20,
+  rainfall: 0,
+  windSpeed: 2,
+  season: 'summer',
+  pressure: 101.325,
+};
+
+const text = (changes: Partial<ForecastScenario>, monteCarlo = { runs: 200, seed: 1 }) =>
+  JSON.stringify(createScenarioFile({ ...scenario, ...changes }, monteCarlo, 'tilapia'));
+
+describe('parseScenario', () => {
+  it('reads back an exported scenario', () => {
+    const { file, errors } = parseScenario(text({}));
+    expect(errors).toEqual([]);
+    expect(file?.scenario).toEqual(scenario);
+    expect(file?.monteCarlo).toEqual({ runs: 200, seed: 1 });
+  });
+
+  it('rejects values outside their range', () => {
+    const { file, errors } = parseScenario(text({ hours: 100000, depth: 0, pH: 15, cloudCover: 150 }));
+    expect(file).toBeNull();
+    expect(errors).toEqual([
+      '"hours" must be from 1 to 168, not 100000.',
+      '"pH" must be from 4 to 12, not 15.',
+      '"depth" must be from 0.1 to 20, not 0.',
+      '"cloudCover" must be from 0 to 100, not 150.',
+    ]);
+  });
+
+  it('rejects fractional hours and too many Monte Carlo runs', () => {
+    expect(parseScenario(text({ startHour: 6.5 }, { runs: 1000000, seed: 1 })).errors).toEqual([
+      '"startHour" must be a whole number.',
+      '"monteCarlo" runs must be a whole number from 10 to 5000.',
+    ]);
+  });
+});
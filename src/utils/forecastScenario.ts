@@ -0,0 +1,138 @@
+import { FORECAST_MODEL_VERSION, MAX_MONTE_CARLO_RUNS, MIN_MONTE_CARLO_RUNS, seasons } from '../engine';
+import type { ForecastScenario, MonteCarloOptions } from '../engine';
+
+// A forecast's complete inputs, so anyone can load the file and get the same result.
+export const SCENARIO_FORMAT = 'aquaculture-tools-forecast';
+
+export interface ScenarioFile {
+  format: typeof SCENARIO_FORMAT;
+  modelVersion: number;
+  exportedAt: string;
+  scenario: ForecastScenario;
+  speciesId: string; // catalogue entry the respiration figure came from, '' for none
+  // Null when the forecast was run without uncertainty bands.
+  monteCarlo: MonteCarloOptions | null;
+}
+
+// Accepted range of every number in a scenario, in the units of ForecastScenario. Files are
+// hand-edited and shared, and values outside these are mistakes the model would run with anyway.
+const numberRanges: Partial<Record<keyof ForecastScenario, [number, number]>> = {
+  startHour: [0, 23],
+  hours: [1, 168],
+  temperature: [0, 40],
+  pH: [4, 12],
+  dissolvedOxygen: [0, 40],
+  ammonia: [0, 100],
+  nitrite: [0, 100],
+  nitrate: [0, 1000],
+  alkalinity: [0, 1000],
+  salinity: [0, 60],
+  secchiDepth: [1, 1000],
+  area: [1, 10000000],
+  depth: [0.1, 20],
+  fishBiomass: [0, 10000000],
+  feedRate: [0, 1000000],
+  feedProtein: [0, 100],
+  waterExchange: [0, 1000],
+  aeratorCapacity: [0, 10000],
+  aerationHours: [0, 24],
+  cloudCover: [0, 100],
+  rainfall: [0, 1000],
+  windSpeed: [0, 60],
+  pressure: [50, 110],
+};
+const numberFields = Object.keys(numberRanges) as (keyof ForecastScenario)[];
+// Counted in whole steps of the simulation.
+const wholeNumberFields: (keyof ForecastScenario)[] = ['startHour', 'hours'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const createScenarioFile = (
+  scenario: ForecastScenario,
+  monteCarlo: MonteCarloOptions | null,
+  speciesId = ''
+): ScenarioFile => ({
+  format: SCENARIO_FORMAT,
+  modelVersion: FORECAST_MODEL_VERSION,
+  exportedAt: new Date().toISOString(),
+  scenario,
+  speciesId,
+  monteCarlo,
+});
+
+export const downloadScenario = (file: ScenarioFile) => {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `water-quality-forecast-${file.exportedAt.slice(0, 16).replace(':', '')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Reads and validates a scenario file. Returns the problems found instead of throwing.
+export const parseScenario = (text: string): { file: ScenarioFile | null; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { file: null, errors: ['The file is not valid JSON.'] };
+  }
+  if (!isObject(data) || data.format !== SCENARIO_FORMAT || !isObject(data.scenario)) {
+    return { file: null, errors: ['The file is not a water-quality forecast scenario.'] };
+  }
+
+  const errors: string[] = [];
+  const scenario = data.scenario;
+  numberFields.forEach((field) => {
+    const value = scenario[field];
+    const [min, max] = numberRanges[field]!;
+    if (!isNumber(value)) {
+      errors.push(`"${field}" must be a number.`);
+    } else if (wholeNumberFields.includes(field) && !Number.isInteger(value)) {
+      errors.push(`"${field}" must be a whole number.`);
+    } else if (value < min || value > max) {
+      errors.push(`"${field}" must be from ${min} to ${max}, not ${value}.`);
+    }
+  });
+  if (
+    scenario.oxygenConsumption !== undefined &&
+    !(isNumber(scenario.oxygenConsumption) && scenario.oxygenConsumption > 0 && scenario.oxygenConsumption <= 5)
+  ) {
+    errors.push('"oxygenConsumption" must be a number above 0 and up to 5.');
+  }
+  if (!seasons.includes(scenario.season as ForecastScenario['season'])) {
+    errors.push(`"season" must be one of ${seasons.join(', ')}.`);
+  }
+  const monteCarlo = data.monteCarlo ?? null;
+  if (monteCarlo !== null) {
+    if (!isObject(monteCarlo) || !isNumber(monteCarlo.runs) || !isNumber(monteCarlo.seed)) {
+      errors.push('"monteCarlo" must give a number of runs and a seed.');
+    } else if (
+      !Number.isInteger(monteCarlo.runs) ||
+      monteCarlo.runs < MIN_MONTE_CARLO_RUNS ||
+      monteCarlo.runs > MAX_MONTE_CARLO_RUNS
+    ) {
+      errors.push(`"monteCarlo" runs must be a whole number from ${MIN_MONTE_CARLO_RUNS} to ${MAX_MONTE_CARLO_RUNS}.`);
+    }
+  }
+  if (!isNumber(data.modelVersion) || data.modelVersion > FORECAST_MODEL_VERSION) {
+    errors.push('The scenario was made by a newer version of the forecast model. Update the app and try again.');
+  }
+  if (errors.length) return { file: null, errors };
+
+  return {
+    file: {
+      format: SCENARIO_FORMAT,
+      modelVersion: data.modelVersion as number,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      scenario: scenario as unknown as ForecastScenario,
+      speciesId: typeof data.speciesId === 'string' ? data.speciesId : '',
+      monteCarlo: monteCarlo as MonteCarloOptions | null,
+    },
+    errors: [],
+  };
+};
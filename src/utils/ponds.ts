@@ -0,0 +1,126 @@
+import { getRecord, putRecord } from '../db';
+import type { Pond, PondResult } from '../types/records';
+import type { SelectOption } from '../types/form';
+
+export const pondShapeOptions: SelectOption[] = [
+  { value: 'rectangular', label: 'Rectangular' },
+  { value: 'circular', label: 'Circular' },
+  { value: 'irregular', label: 'Irregular (enter area)' },
+];
+
+// Keys match the soil tables in PondLimingCalculator and PondSedimentManager.
+export const soilTypeOptions: SelectOption[] = [
+  { value: 'sandy', label: 'Sandy Soil' },
+  { value: 'loamy', label: 'Loamy Soil' },
+  { value: 'clayey', label: 'Clay Soil' },
+  { value: 'organic', label: 'Organic Soil' },
+];
+
+export const waterSourceOptions: SelectOption[] = [
+  { value: 'surface', label: 'Surface Water' },
+  { value: 'groundwater', label: 'Ground Water' },
+  { value: 'rainwater', label: 'Rain Water' },
+];
+
+// Keys match the materials table in PondLiningCalculator.
+export const linerOptions: SelectOption[] = [
+  { value: 'none', label: 'Unlined (earthen)' },
+  { value: 'hdpe', label: 'HDPE (High-Density Polyethylene)' },
+  { value: 'pvc', label: 'PVC (Polyvinyl Chloride)' },
+  { value: 'epdm', label: 'EPDM (Rubber)' },
+  { value: 'butyl', label: 'Butyl Rubber' },
+  { value: 'geomembrane', label: 'Reinforced Geomembrane' },
+];
+
+// Keys match runoffCoefficients in src/engine/waterBalance.ts.
+export const catchmentOptions: SelectOption[] = [
+  { value: 'forest', label: 'Forest or dense cover' },
+  { value: 'grass', label: 'Grass or pasture' },
+  { value: 'cultivated', label: 'Cultivated fields' },
+  { value: 'bare', label: 'Bare or compacted soil' },
+  { value: 'paved', label: 'Roofs and paved yards' },
+];
+
+// Calculators that save results against a pond, keyed as passed to savePondResult.
+export const pondCalculators: Record<string, { name: string; path: string }> = {
+  aeration: { name: 'Aeration Calculator', path: '/aeration-calculator' },
+  evaporation: { name: 'Pond Evaporation', path: '/pond-evaporation' },
+  waterBalance: { name: 'Water Balance', path: '/water-balance' },
+  liming: { name: 'Pond Liming', path: '/pond-liming' },
+  lining: { name: 'Pond Lining', path: '/pond-lining' },
+  sediment: { name: 'Pond Sediment', path: '/pond-sediment' },
+  stocking: { name: 'Fish Stocking Calculator', path: '/fish-stocking' },
+  production: { name: 'Fish Calculator', path: '/fish-calculator' },
+  nightOxygen: { name: 'Night Oxygen Forecast', path: '/night-oxygen' },
+  winterIce: { name: 'Winter Ice Manager', path: '/winter-ice' },
+};
+
+export const emptyPond: Omit<Pond, 'id'> = {
+  name: '',
+  shape: 'rectangular',
+  length: 0,
+  width: 0,
+  diameter: 0,
+  area: 0,
+  depth: 0,
+  slopeRatio: 2,
+  soilType: 'loamy',
+  waterSource: 'surface',
+  liner: 'none',
+  notes: '',
+  results: {},
+};
+
+// Water surface area in m².
+export const getPondArea = (pond: Pond): number => {
+  switch (pond.shape) {
+    case 'rectangular':
+      return pond.length * pond.width;
+    case 'circular':
+      return Math.PI * (pond.diameter / 2) ** 2;
+    default:
+      return pond.area;
+  }
+};
+
+export const getPondVolume = (pond: Pond): number => getPondArea(pond) * pond.depth;
+
+// Length and width for calculators that only take rectangular input. Non-rectangular
+// ponds are mapped to a square of equal surface area.
+export const getPondDimensions = (pond: Pond) => {
+  const area = getPondArea(pond);
+  const side = Math.sqrt(area);
+  const isRectangular = pond.shape === 'rectangular';
+  return {
+    length: isRectangular ? pond.length : side,
+    width: isRectangular ? pond.width : side,
+    depth: pond.depth,
+    area,
+    volume: area * pond.depth,
+  };
+};
+
+// Round for display in a form field without float noise from derived dimensions.
+export const toFieldValue = (value: number) => String(Math.round(value * 100) / 100);
+
+// Records a calculator's latest output on the pond. Failures are logged, not thrown,
+// so a storage problem never blocks showing the result on screen.
+export const savePondResult = async (
+  pondId: string,
+  calculator: string,
+  result: Omit<PondResult, 'calculatedAt'>
+) => {
+  try {
+    const pond = await getRecord('ponds', pondId);
+    if (!pond) return;
+    await putRecord('ponds', {
+      ...pond,
+      results: {
+        ...pond.results,
+        [calculator]: { ...result, calculatedAt: new Date().toISOString() },
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to save ${calculator} result for pond ${pondId}`, error);
+  }
+};
@@ -0,0 +1,22 @@
+import { pressureAtElevation } from '../engine';
+
+// Where the farm is. Gas solubility and the tools built on it depend on air pressure,
+// which falls by roughly 1 kPa for every 85 m of elevation. Latitude sets day length and
+// sun height for the evaporation methods; the climate station supplies the monthly normals
+// that weather forms prefill from.
+export interface SiteSettings {
+  elevation: number; // m above sea level
+  pressure: number | null; // kPa, a local barometer reading; null to estimate from elevation
+  latitude: number | null; // degrees, negative south of the equator; null until set
+  stationId: string; // climate station for monthly normals; '' for none
+}
+
+export const defaultSiteSettings: SiteSettings = {
+  elevation: 0,
+  pressure: null,
+  latitude: null,
+  stationId: '',
+};
+
+// Barometric pressure in kPa to use for the site.
+export const sitePressure = (settings: SiteSettings) => settings.pressure ?? pressureAtElevation(settings.elevation);
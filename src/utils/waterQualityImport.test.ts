@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportRows, detectDecimalSeparator, readSheet } from './waterQualityImport';
+import type { Cell, DecimalSeparator, ImportOptions } from './waterQualityImport';
+
+const options: ImportOptions = {
+  mapping: [
+    { target: 'date', unit: '' },
+    { target: 'hardness', unit: 'mg/L' },
+  ],
+  dateOrder: 'ymd',
+  decimalSeparator: 'point',
+  pondId: 'p1',
+  sampler: '',
+  ponds: [],
+  existing: [],
+};
+
+// Hardness read from one row per value.
+const hardness = (values: Cell[], decimalSeparator: DecimalSeparator) =>
+  buildImportRows(
+    values.map((value, day) => [`2024-03-${day + 1}`, value]),
+    { ...options, decimalSeparator }
+  );
+
+describe('detectDecimalSeparator', () => {
+  it('settles on the separator the values show', () => {
+    expect(detectDecimalSeparator(['7,5', '12', 8])).toEqual({ separator: 'comma', ambiguous: false });
+    expect(detectDecimalSeparator(['7.5', '1,234.5'])).toEqual({ separator: 'point', ambiguous: false });
+    expect(detectDecimalSeparator(['1.234.567'])).toEqual({ separator: 'comma', ambiguous: false });
+  });
+
+  it('reports files that could go either way', () => {
+    expect(detectDecimalSeparator(['1,234', '12'])).toEqual({ separator: 'point', ambiguous: true });
+    expect(detectDecimalSeparator(['7,5', '7.5'])).toEqual({ separator: 'point', ambiguous: true });
+    expect(detectDecimalSeparator(['12', 8])).toEqual({ separator: 'point', ambiguous: false });
+  });
+});
+
+describe('buildImportRows', () => {
+  it('reads numbers with the chosen decimal separator', () => {
+    const point = hardness(['7.5', '1,234.5', '7,5'], 'point');
+    expect(point.map((row) => row.reading?.values.hardness)).toEqual([7.5, 1234.5, undefined]);
+    const comma = hardness(['7,5', '1.234,5', '<0,02'], 'comma');
+    expect(comma.map((row) => row.reading?.values.hardness)).toEqual([7.5, 1234.5, 0.02]);
+  });
+
+  it('flags values that read differently with the other separator', () => {
+    const [point] = hardness(['1,234'], 'point');
+    expect(point.reading?.values.hardness).toBe(1234);
+    expect(point.warnings).toEqual([
+      {
+        message: '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}',
+        params: { parameter: 'Hardness', value: '1,234', number: 1234 },
+      },
+    ]);
+    const [comma] = hardness(['1,234'], 'comma');
+    expect(comma.reading?.values.hardness).toBe(1.234);
+    expect(comma.warnings).toHaveLength(1);
+    expect(hardness(['7,5'], 'comma')[0].warnings).toEqual([]);
+  });
+
+  it('numbers rows as they are in the file when blank rows were dropped', async () => {
+    const sheet = await readSheet(
+      new File(['Date,Hardness (mg/L)\n\n2024-03-01,120\n,\n\n2024-03-02,abc\n'], 'lab.csv', { type: 'text/csv' })
+    );
+    expect(sheet.rows).toHaveLength(3);
+    expect(sheet.lines).toEqual([1, 3, 6]);
+    const rows = buildImportRows(sheet.rows.slice(1), { ...options, lines: sheet.lines.slice(1) });
+    expect(rows.map((row) => row.line)).toEqual([3, 6]);
+    expect(rows[1].errors).toHaveLength(1);
+  });
+});
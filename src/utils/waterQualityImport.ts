@@ -0,0 +1,543 @@
+import { analyzeParameter, waterQualityParameters } from '../engine';
+import type { QualityStatus } from '../engine';
+import { convert } from '../units';
+import type { Pond, WaterQualityParameter, WaterQualityReading } from '../types/records';
+import type { SelectOption } from '../types/form';
+
+// Bulk import of water-quality readings from lab sheets and logger exports (CSV or XLSX).
+// The flow is: readSheet → guessMapping → buildImportRows → save the rows without errors.
+
+export type Cell = string | number | boolean | Date | null;
+
+export type ColumnTarget = 'ignore' | 'date' | 'time' | 'pond' | 'sampler' | 'notes' | WaterQualityParameter;
+
+export interface ColumnMapping {
+  target: ColumnTarget;
+  unit: string; // one of importUnits[target] when the target is a parameter
+}
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export type DecimalSeparator = 'point' | 'comma';
+
+// Message keyed for t(), with its interpolation values.
+export interface ImportIssue {
+  message: string;
+  params?: Record<string, string | number>;
+}
+
+// A sheet without its blank rows; the first row is the header.
+export interface Sheet {
+  rows: Cell[][];
+  lines: number[]; // each row's row number in the file, counting from 1
+}
+
+export interface ImportRow {
+  line: number; // spreadsheet row number, counting the header as row 1
+  reading: Omit<WaterQualityReading, 'id'> | null;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  duplicate: boolean;
+}
+
+interface ImportUnit {
+  unit: string;
+  aliases: string[]; // lower-case fragments recognised in a column header
+  toBase: (value: number) => number;
+}
+
+const same = (value: number) => value;
+const perThousand = (value: number) => value / 1000;
+const concentrationUnits: ImportUnit[] = [
+  { unit: 'mg/L', aliases: ['mg/l', 'mg l'], toBase: same },
+  { unit: 'ppm', aliases: ['ppm'], toBase: same },
+  { unit: 'µg/L', aliases: ['µg/l', 'μg/l', 'ug/l'], toBase: perThousand },
+  { unit: 'ppb', aliases: ['ppb'], toBase: perThousand },
+];
+// German degrees of hardness, common on aquarium-style test kits.
+const hardnessUnits: ImportUnit[] = [
+  ...concentrationUnits,
+  { unit: '°dH', aliases: ['dh', 'dkh', 'dgh'], toBase: (value) => value * 17.848 },
+];
+
+// Units each parameter can be read in, the stored unit first.
+export const importUnits: Record<WaterQualityParameter, ImportUnit[]> = {
+  dissolvedOxygen: concentrationUnits,
+  temperature: [
+    { unit: '°C', aliases: ['°c', 'degc', 'celsius', '(c)'], toBase: same },
+    { unit: '°F', aliases: ['°f', 'degf', 'fahrenheit', '(f)'], toBase: (value) => convert(value, '°F', '°C') },
+  ],
+  pH: [{ unit: '', aliases: [], toBase: same }],
+  ammonia: concentrationUnits,
+  nitrite: concentrationUnits,
+  nitrate: concentrationUnits,
+  alkalinity: hardnessUnits,
+  hardness: hardnessUnits,
+  salinity: [
+    { unit: 'ppt', aliases: ['ppt', '‰'], toBase: same },
+    { unit: 'PSU', aliases: ['psu'], toBase: same },
+    { unit: 'g/L', aliases: ['g/l'], toBase: same },
+  ],
+  turbidity: [
+    { unit: 'NTU', aliases: ['ntu'], toBase: same },
+    { unit: 'FNU', aliases: ['fnu'], toBase: same },
+  ],
+  phosphate: concentrationUnits,
+  carbonDioxide: concentrationUnits,
+  chloride: concentrationUnits,
+};
+
+// Values outside these limits are typing or unit mistakes, not bad water.
+const plausibleRanges: Record<WaterQualityParameter, [number, number]> = {
+  dissolvedOxygen: [0, 40],
+  temperature: [-2, 45],
+  pH: [0, 14],
+  ammonia: [0, 100],
+  nitrite: [0, 100],
+  nitrate: [0, 1000],
+  alkalinity: [0, 1000],
+  hardness: [0, 2000],
+  salinity: [0, 60],
+  turbidity: [0, 4000],
+  phosphate: [0, 100],
+  carbonDioxide: [0, 200],
+  chloride: [0, 30000],
+};
+
+const parameters = Object.keys(waterQualityParameters) as WaterQualityParameter[];
+
+export const isParameter = (target: ColumnTarget): target is WaterQualityParameter => target in waterQualityParameters;
+
+export const columnTargetOptions: SelectOption[] = [
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'date', label: 'Date (or date and time)' },
+  { value: 'time', label: 'Time' },
+  { value: 'pond', label: 'Pond' },
+  { value: 'sampler', label: 'Sampler' },
+  { value: 'notes', label: 'Notes' },
+  ...parameters.map((parameter) => ({ value: parameter, label: waterQualityParameters[parameter].name })),
+];
+
+export const dateOrderOptions: SelectOption[] = [
+  { value: 'dmy', label: 'Day/Month/Year' },
+  { value: 'mdy', label: 'Month/Day/Year' },
+  { value: 'ymd', label: 'Year-Month-Day' },
+];
+
+export const decimalSeparatorOptions: SelectOption[] = [
+  { value: 'point', label: 'Point (7.5)' },
+  { value: 'comma', label: 'Comma (7,5)' },
+];
+
+// Header words recognised for each target, checked in this order so that
+// "Sampled by" maps to the sampler before "DO" or "Date" get a chance.
+const headerAliases: [ColumnTarget, string[]][] = [
+  ['sampler', ['sampler', 'sampled by', 'collected by', 'technician', 'operator', 'staff']],
+  ['notes', ['notes', 'note', 'remarks', 'comments', 'comment']],
+  ['date', ['date', 'datetime', 'date/time', 'timestamp', 'day']],
+  ['time', ['time', 'hour']],
+  ['dissolvedOxygen', ['dissolved oxygen', 'do', 'd.o.', 'oxygen', 'o2']],
+  ['temperature', ['temperature', 'temp', 'water temp']],
+  ['pH', ['ph']],
+  ['ammonia', ['ammonia', 'total ammonia', 'tan', 'nh3', 'nh4', 'nh3-n', 'nh4-n']],
+  ['nitrite', ['nitrite', 'no2', 'no2-n']],
+  ['nitrate', ['nitrate', 'no3', 'no3-n']],
+  ['alkalinity', ['alkalinity', 'alk', 'kh']],
+  ['hardness', ['hardness', 'total hardness', 'gh']],
+  ['salinity', ['salinity', 'sal']],
+  ['turbidity', ['turbidity', 'turb']],
+  ['phosphate', ['phosphate', 'po4', 'phosphorus']],
+  ['carbonDioxide', ['carbon dioxide', 'co2']],
+  ['chloride', ['chloride', 'cl', 'cl-']],
+  ['pond', ['pond', 'tank', 'site', 'cage', 'unit']],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const hasWord = (header: string, word: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}([^a-z0-9]|$)`).test(header);
+
+// The parameter a header or sensor field name stands for, e.g. "DO (mg/L)" or "water_temp".
+export const parameterForName = (name: string): WaterQualityParameter | null => {
+  if (name in waterQualityParameters) return name as WaterQualityParameter;
+  const text = name.toLowerCase().trim();
+  const match = headerAliases.find(
+    ([target, aliases]) => isParameter(target) && aliases.some((alias) => hasWord(text, alias))
+  );
+  return match ? (match[0] as WaterQualityParameter) : null;
+};
+
+export const isPlausible = (parameter: WaterQualityParameter, value: number) => {
+  const [min, max] = plausibleRanges[parameter];
+  return value >= min && value <= max;
+};
+
+// Parses delimited text, honouring quoted fields and doubled quotes. The delimiter
+// (comma, semicolon or tab) is whichever occurs most in the first line.
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Spreadsheet dates carry wall-clock time encoded as UTC; keep the wall-clock reading.
+const utcToLocal = (date: Date) =>
+  new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+
+// Reads the first sheet of an XLSX workbook, or a CSV/TSV text file, as rows of cells.
+// Blank rows are dropped, keeping the row numbers of the rest for error messages.
+export const readSheet = async (file: File): Promise<Sheet> => {
+  let rows: Cell[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    // Loaded on demand so the spreadsheet reader stays out of the main bundle.
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const sheet = (await readXlsxFile(file)) as unknown as Cell[][];
+    rows = sheet.map((row) => row.map((cell) => (cell instanceof Date ? utcToLocal(cell) : cell)));
+  } else if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls workbooks are not supported. Save the sheet as .xlsx or CSV and try again.');
+  } else {
+    rows = parseCsv(await file.text());
+  }
+  const kept = rows
+    .map((_, index) => index)
+    .filter((index) => rows[index].some((cell) => cell !== null && String(cell).trim() !== ''));
+  return { rows: kept.map((index) => rows[index]), lines: kept.map((index) => index + 1) };
+};
+
+export const detectUnit = (parameter: WaterQualityParameter, header: string, samples: Cell[]): string => {
+  const lower = header.toLowerCase();
+  const units = importUnits[parameter];
+  const named = units.find((option) => option.aliases.some((alias) => lower.includes(alias)));
+  if (named) return named.unit;
+  // Unlabelled temperatures above 45 can only be Fahrenheit.
+  if (parameter === 'temperature') {
+    const { separator } = detectDecimalSeparator(samples);
+    const numbers = samples.map((sample) => toNumber(sample, separator)).filter((value): value is number => value !== null);
+    const sorted = [...numbers].sort((a, b) => a - b);
+    if (sorted.length && sorted[Math.floor(sorted.length / 2)] > 45) return '°F';
+  }
+  return units[0].unit;
+};
+
+// Proposes a target and unit for every column from its header and first values.
+export const guessMapping = (header: Cell[], rows: Cell[][]): ColumnMapping[] => {
+  const used = new Set<ColumnTarget>();
+  return header.map((cell, column) => {
+    const text = String(cell ?? '').toLowerCase().trim();
+    const match = headerAliases.find(
+      ([target, aliases]) => !used.has(target) && aliases.some((alias) => hasWord(text, alias))
+    );
+    if (!match) return { target: 'ignore', unit: '' };
+    const target = match[0];
+    used.add(target);
+    const samples = rows.slice(0, 50).map((row) => row[column]);
+    return { target, unit: isParameter(target) ? detectUnit(target, text, samples) : '' };
+  });
+};
+
+const datePattern = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[T\s]+(.+))?$/;
+const timePattern = /^(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*(am|pm)?$/i;
+
+// Picks the day/month order from values such as 25/03/2024 that allow only one reading.
+// Returns `ambiguous` when every date would parse either way.
+export const detectDateOrder = (values: Cell[]): { order: DateOrder; ambiguous: boolean } => {
+  let dmy = false;
+  let mdy = false;
+  let strings = 0;
+  values.forEach((value) => {
+    if (typeof value !== 'string') return;
+    const match = value.trim().match(datePattern);
+    if (!match) return;
+    strings++;
+    if (match[1].length === 4) return;
+    if (Number(match[1]) > 12) dmy = true;
+    if (Number(match[2]) > 12) mdy = true;
+  });
+  if (strings && values.every((value) => typeof value !== 'string' || /^\d{4}/.test(value.trim()))) {
+    return { order: 'ymd', ambiguous: false };
+  }
+  if (dmy !== mdy) return { order: dmy ? 'dmy' : 'mdy', ambiguous: false };
+  return { order: 'dmy', ambiguous: strings > 0 };
+};
+
+// Hours and minutes from "06:30", "6.30 pm", a spreadsheet time or a fraction of a day.
+const parseTime = (cell: Cell): [number, number, number] | null => {
+  if (cell instanceof Date) return [cell.getHours(), cell.getMinutes(), cell.getSeconds()];
+  if (typeof cell === 'number' && cell >= 0 && cell < 1) {
+    const seconds = Math.round(cell * 86400);
+    return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60];
+  }
+  const match = String(cell ?? '').trim().match(timePattern);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const suffix = match[4]?.toLowerCase();
+  if (suffix === 'pm' && hours < 12) hours += 12;
+  if (suffix === 'am' && hours === 12) hours = 0;
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return [hours, minutes, Number(match[3] ?? 0)];
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+export const parseDate = (cell: Cell, order: DateOrder): Date | null => {
+  // Time-only spreadsheet cells come through as dates on 30 Dec 1899.
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) || cell.getFullYear() < 1900 ? null : cell;
+  // Serial day numbers come through when a date column is formatted as a number.
+  if (typeof cell === 'number') {
+    if (cell < 20000 || cell > 80000) return null;
+    return utcToLocal(new Date(EXCEL_EPOCH + Math.round(cell * 86400) * 1000));
+  }
+  const text = String(cell ?? '').trim();
+  const match = text.match(datePattern);
+  if (!match) return null;
+
+  let [year, month, day] = [0, 0, 0];
+  if (match[1].length === 4) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (order === 'mdy') {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+  if (year < 100) year += 2000;
+
+  const time = match[4] ? parseTime(match[4]) : [0, 0, 0];
+  if (!time) return null;
+  const date = new Date(year, month - 1, day, ...time);
+  // Reject roll-overs such as 31/02.
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+const numberText = (cell: string) => cell.trim().replace(/^[<>≤≥]\s*/, '');
+
+// Which decimal separator a number written as text shows. One separator followed by exactly
+// three digits, as in "1,234", is a decimal in some locales and a thousands group in others.
+const separatorIn = (text: string): DecimalSeparator | 'either' | null => {
+  const comma = text.lastIndexOf(',');
+  const point = text.lastIndexOf('.');
+  if (comma < 0 && point < 0) return null;
+  if (comma >= 0 && point >= 0) return comma > point ? 'comma' : 'point';
+  const mark = comma >= 0 ? ',' : '.';
+  const [whole, ...groups] = text.replace(/^-/, '').split(mark);
+  const grouped = /^[1-9]\d{0,2}$/.test(whole) && groups.every((group) => /^\d{3}$/.test(group));
+  if (grouped && groups.length === 1) return 'either';
+  // Several groups can only be thousands, so the decimal is the other mark.
+  if (grouped) return mark === ',' ? 'point' : 'comma';
+  return mark === ',' ? 'comma' : 'point';
+};
+
+// Lab sheets write decimals with a comma in many locales and "<0.02" below the detection limit.
+// Thousands groups in the other mark are dropped: "1.234,5" with a comma separator is 1234.5.
+const toNumber = (cell: Cell, separator: DecimalSeparator): number | null => {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (typeof cell !== 'string') return null;
+  let text = numberText(cell);
+  const [decimal, group] = separator === 'comma' ? [',', '.'] : ['.', ','];
+  if (new RegExp(`^-?[1-9]\\d{0,2}(\\${group}\\d{3})+(\\${decimal}\\d+)?$`).test(text)) text = text.split(group).join('');
+  if (separator === 'comma') text = text.replace(',', '.');
+  if (!/^-?(\d+\.?\d*|\.\d+)(e-?\d+)?$/i.test(text)) return null;
+  return Number(text);
+};
+
+// Picks the decimal separator from values such as 7,5 that allow only one reading.
+// Returns `ambiguous` when no value settles it or the file uses both.
+export const detectDecimalSeparator = (values: Cell[]): { separator: DecimalSeparator; ambiguous: boolean } => {
+  const seen = new Set(values.map((value) => (typeof value === 'string' ? separatorIn(numberText(value)) : null)));
+  const point = seen.has('point');
+  const comma = seen.has('comma');
+  if (point !== comma) return { separator: comma ? 'comma' : 'point', ambiguous: false };
+  return { separator: 'point', ambiguous: point || seen.has('either') };
+};
+
+const isBlank = (cell: Cell) => cell === null || (typeof cell === 'string' && /^(|-|—|n\/?a|nd|na)$/i.test(cell.trim()));
+
+// Problems with the column mapping as a whole; rows are only checked once there are none.
+export const mappingIssues = (mapping: ColumnMapping[]): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  if (!mapping.some(({ target }) => target === 'date')) issues.push({ message: 'Map a column to Date' });
+  if (!mapping.some(({ target }) => isParameter(target))) issues.push({ message: 'Map at least one water-quality parameter' });
+  const targets = mapping.map(({ target }) => target).filter((target) => target !== 'ignore');
+  const repeated = targets.filter((target, index) => targets.indexOf(target) !== index);
+  Array.from(new Set(repeated)).forEach((target) => {
+    const label = columnTargetOptions.find((option) => option.value === target)?.label ?? target;
+    issues.push({ message: '{target} is mapped to more than one column', params: { target: label } });
+  });
+  return issues;
+};
+
+export interface ImportOptions {
+  mapping: ColumnMapping[];
+  dateOrder: DateOrder;
+  decimalSeparator: DecimalSeparator;
+  pondId: string; // used when there is no pond column or the cell is empty
+  sampler: string; // used when there is no sampler column or the cell is empty
+  ponds: Pond[];
+  existing: WaterQualityReading[];
+  lines?: number[]; // row number of each data row in the file; by default they follow the header
+}
+
+// Turns data rows (header excluded) into readings, collecting every problem per row.
+// Expects a mapping without mappingIssues.
+export const buildImportRows = (rows: Cell[][], options: ImportOptions): ImportRow[] => {
+  const { mapping, dateOrder, decimalSeparator, ponds } = options;
+  const column = (target: ColumnTarget) => mapping.findIndex((entry) => entry.target === target);
+  const dateColumn = column('date');
+  const timeColumn = column('time');
+  const pondColumn = column('pond');
+  const samplerColumn = column('sampler');
+  const notesColumn = column('notes');
+  const seen = new Set(options.existing.map((reading) => `${reading.pondId}|${reading.takenAt}`));
+
+  const findPond = (cell: Cell) => {
+    const text = String(cell ?? '').trim().toLowerCase();
+    return ponds.find((pond) => pond.id.toLowerCase() === text || pond.name.trim().toLowerCase() === text);
+  };
+
+  return rows.map((row, index) => {
+    const errors: ImportIssue[] = [];
+    const warnings: ImportIssue[] = [];
+
+    let takenAt: Date | null = null;
+    if (isBlank(row[dateColumn])) {
+      errors.push({ message: 'Date is missing' });
+    } else {
+      takenAt = parseDate(row[dateColumn], dateOrder);
+      if (!takenAt) errors.push({ message: 'Cannot read the date "{value}"', params: { value: String(row[dateColumn]) } });
+    }
+    if (takenAt && timeColumn >= 0 && !isBlank(row[timeColumn])) {
+      const time = parseTime(row[timeColumn]);
+      if (time) {
+        takenAt = new Date(takenAt.getFullYear(), takenAt.getMonth(), takenAt.getDate(), ...time);
+      } else {
+        errors.push({ message: 'Cannot read the time "{value}"', params: { value: String(row[timeColumn]) } });
+      }
+    }
+
+    let pondId = options.pondId;
+    if (pondColumn >= 0 && !isBlank(row[pondColumn])) {
+      const pond = findPond(row[pondColumn]);
+      if (pond) {
+        pondId = pond.id;
+      } else {
+        errors.push({ message: 'No saved pond is named "{value}"', params: { value: String(row[pondColumn]) } });
+      }
+    } else if (!pondId) {
+      errors.push({ message: 'No pond given' });
+    }
+
+    const values: WaterQualityReading['values'] = {};
+    mapping.forEach(({ target, unit }, col) => {
+      if (!isParameter(target) || isBlank(row[col])) return;
+      const name = waterQualityParameters[target].name;
+      const raw = toNumber(row[col], decimalSeparator);
+      if (raw === null) {
+        errors.push({ message: '{parameter}: "{value}" is not a number', params: { parameter: name, value: String(row[col]) } });
+        return;
+      }
+      const option = importUnits[target].find((candidate) => candidate.unit === unit) ?? importUnits[target][0];
+      const value = Math.round(option.toBase(raw) * 10000) / 10000;
+      const [min, max] = plausibleRanges[target];
+      if (value < min || value > max) {
+        errors.push({
+          message: '{parameter}: {value} {unit} is outside the possible range',
+          params: { parameter: name, value, unit: waterQualityParameters[target].unit },
+        });
+        return;
+      }
+      if (typeof row[col] === 'string' && /^[<>≤≥]/.test(String(row[col]).trim())) {
+        warnings.push({
+          message: '{parameter}: "{value}" is a detection limit, stored as {limit}',
+          params: { parameter: name, value: String(row[col]).trim(), limit: value },
+        });
+      }
+      if (typeof row[col] === 'string' && separatorIn(numberText(String(row[col]))) === 'either') {
+        warnings.push({
+          message: '{parameter}: "{value}" reads differently with a point or comma decimal separator, stored as {number}',
+          params: { parameter: name, value: String(row[col]).trim(), number: value },
+        });
+      }
+      values[target] = value;
+    });
+    if (!Object.keys(values).length && !errors.length) {
+      errors.push({ message: 'No measured values' });
+    }
+
+    const cellText = (col: number) => (col >= 0 && !isBlank(row[col]) ? String(row[col]).trim() : '');
+    const reading =
+      errors.length || !takenAt
+        ? null
+        : {
+            pondId,
+            takenAt: takenAt.toISOString(),
+            sampler: cellText(samplerColumn) || options.sampler,
+            source: 'import' as const,
+            values,
+            notes: cellText(notesColumn),
+          };
+
+    // Also catches the same sample appearing twice in one file.
+    const key = reading ? `${reading.pondId}|${reading.takenAt}` : '';
+    const duplicate = reading !== null && seen.has(key);
+    if (reading) seen.add(key);
+
+    return { line: options.lines?.[index] ?? index + 2, reading, errors, warnings, duplicate };
+  });
+};
+
+// Per-parameter status counts over imported readings, from the same logic as the monitor.
+export const summarizeStatuses = (readings: Pick<WaterQualityReading, 'values'>[]) => {
+  const summary: Partial<Record<WaterQualityParameter, Record<QualityStatus, number>>> = {};
+  readings.forEach(({ values }) => {
+    (Object.entries(values) as [WaterQualityParameter, number][]).forEach(([parameter, value]) => {
+      const counts = (summary[parameter] ??= { Optimal: 0, Warning: 0, Critical: 0 });
+      counts[analyzeParameter(parameter, value).status]++;
+    });
+  });
+  return summary;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { parseForecast } from './weatherForecast';
+
+// Two days of hourly values: 26 °C then 30 °C, 1 mm of rain in each of the first day's hours.
+const hourly = (hour: (index: number) => number[]) => ({
+  latitude: 22.5,
+  longitude: 88.375,
+  utc_offset_seconds: 19800,
+  hourly_units: {
+    time: 'iso8601',
+    temperature_2m: '°C',
+    relative_humidity_2m: '%',
+    precipitation: 'mm',
+    wind_speed_10m: 'km/h',
+    cloud_cover: '%',
+  },
+  hourly: {
+    time: Array.from({ length: 48 }, (_, index) => `2025-06-0${1 + Math.floor(index / 24)}T${String(index % 24).padStart(2, '0')}:00`),
+    ...Object.fromEntries(
+      ['temperature_2m', 'relative_humidity_2m', 'precipitation', 'wind_speed_10m', 'cloud_cover'].map((name, column) => [
+        name,
+        Array.from({ length: 48 }, (_, index) => hour(index)[column]),
+      ])
+    ),
+  },
+});
+
+describe('parseForecast', () => {
+  it('reduces an Open-Meteo hourly export to daily means with rain summed', () => {
+    const forecast = parseForecast(
+      JSON.stringify(hourly((index) => (index < 24 ? [26, 80, 1, 10, 50] : [30, 60, 0, 14, 20]))),
+      'forecast.json'
+    );
+    expect(forecast.errors).toEqual([]);
+    expect(forecast.missing).toEqual([]);
+    expect(forecast.days).toEqual([
+      { date: '2025-06-01', temperature: 26, humidity: 80, rainfall: 24, windSpeed: 10, cloudCover: 50 },
+      { date: '2025-06-02', temperature: 30, humidity: 60, rainfall: 0, windSpeed: 14, cloudCover: 20 },
+    ]);
+  });
+
+  it('takes a daily export, averaging maximum and minimum temperature and leaving out the maximum wind', () => {
+    const forecast = parseForecast(
+      JSON.stringify({
+        utc_offset_seconds: 19800,
+        daily_units: { time: 'unixtime', temperature_2m_max: '°C', temperature_2m_min: '°C', precipitation_sum: 'mm', wind_speed_10m_max: 'km/h' },
+        daily: {
+          // 2025-06-01 and 2025-06-02 at 00:00 IST, which is the evening before in UTC.
+          time: [1748716200, 1748802600],
+          temperature_2m_max: [34, 32],
+          temperature_2m_min: [26, 25],
+          precipitation_sum: [0, 12.5],
+          wind_speed_10m_max: [30, 40],
+        },
+      }),
+      'forecast.json'
+    );
+    expect(forecast.days).toEqual([
+      { date: '2025-06-01', temperature: 30, rainfall: 0 },
+      { date: '2025-06-02', temperature: 28.5, rainfall: 12.5 },
+    ]);
+    expect(forecast.missing).toEqual(['humidity', 'windSpeed', 'cloudCover']);
+  });
+
+  it('uses the daily mean wind when the export has one', () => {
+    const forecast = parseForecast(
+      JSON.stringify({
+        daily: {
+          time: ['2025-06-01'],
+          temperature_2m_mean: [29],
+          wind_speed_10m_max: [30],
+          wind_speed_10m_mean: [12],
+        },
+      }),
+      'forecast.json'
+    );
+    expect(forecast.days).toEqual([{ date: '2025-06-01', temperature: 29, windSpeed: 12 }]);
+  });
+
+  it('reads a CSV below its location block in °F, mph and inches', () => {
+    const csv = [
+      'latitude,longitude,elevation,utc_offset_seconds,timezone,timezone_abbreviation',
+      '40.71,-74.0,51.0,-14400,America/New_York,EDT',
+      '',
+      'time,temperature_2m (°F),wind_speed_10m (mph),precipitation (inch)',
+      '2025-06-01T00:00,68,10,0.1',
+      '2025-06-01T12:00,86,20,0.3',
+      '2025-06-02T00:00,50,5,0',
+      '',
+      'time,temperature_2m_max (°F)',
+      '2025-06-01,90',
+    ].join('\n');
+    const forecast = parseForecast(csv, 'forecast.csv');
+    expect(forecast.errors).toEqual([]);
+    expect(forecast.days).toHaveLength(2);
+    // 77 °F is 25 °C; 15 mph is 24.14 km/h; 0.4 in is 10.16 mm.
+    expect(forecast.days[0]).toEqual({
+      date: '2025-06-01',
+      temperature: expect.closeTo(25, 6),
+      windSpeed: expect.closeTo(24.14, 2),
+      rainfall: expect.closeTo(10.16, 6),
+    });
+    expect(forecast.days[1].temperature).toBeCloseTo(10, 6);
+  });
+
+  it('buckets Unix times by the forecast location day from the CSV location block', () => {
+    const csv = [
+      'latitude,longitude,utc_offset_seconds',
+      '22.5,88.375,19800',
+      '',
+      'time,temperature_2m (°C)',
+      // 2025-06-01 20:00 UTC is 01:30 on 2 June in IST.
+      '1748808000,28',
+      '1748772000,31',
+    ].join('\n');
+    expect(parseForecast(csv, 'forecast.csv').days).toEqual([
+      { date: '2025-06-01', temperature: 31 },
+      { date: '2025-06-02', temperature: 28 },
+    ]);
+  });
+
+  it('rejects a forecast without air temperature', () => {
+    const forecast = parseForecast('time,relative_humidity_2m (%)\n2025-06-01T00:00,80\n', 'forecast.csv');
+    expect(forecast.days).toEqual([]);
+    expect(forecast.errors).toEqual(['The forecast has no air temperature column.']);
+    expect(forecast.missing).toContain('temperature');
+  });
+
+  it('reports a JSON file that does not parse', () => {
+    expect(parseForecast('{ "daily": ', 'forecast.json').errors).toEqual(['The file is not valid JSON.']);
+  });
+});
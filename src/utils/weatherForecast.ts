@@ -0,0 +1,229 @@
+import { convert } from '../units';
+import type { WeatherDay } from '../engine';
+import { parseCsv } from './waterQualityImport';
+
+// Weather forecasts saved to disk: Open-Meteo hourly or daily exports in JSON or CSV, or
+// any table with a date column and weather columns. Hourly values are reduced to daily
+// means, with rain summed over the day. Daily maxima are not taken for means, except that
+// the mean of the maximum and minimum temperature stands in for the daily mean.
+
+export const MAX_FORECAST_DAYS = 14;
+
+export type ForecastField = Exclude<keyof WeatherDay, 'date'>;
+
+export type ForecastDay = Pick<WeatherDay, 'date'> & Partial<Omit<WeatherDay, 'date'>>;
+
+export interface ParsedForecast {
+  days: ForecastDay[];
+  missing: ForecastField[]; // weather the file does not give
+  skipped: number; // rows without a readable date
+  errors: string[];
+}
+
+export const forecastFieldLabels: Record<ForecastField, string> = {
+  temperature: 'air temperature',
+  humidity: 'humidity',
+  rainfall: 'rainfall',
+  windSpeed: 'wind speed',
+  cloudCover: 'cloud cover',
+};
+
+type Cell = string | number | null;
+
+interface Column {
+  name: string; // lower case, without the unit
+  unit: string; // lower case, from "(unit)" in the header or the file's unit table
+}
+
+interface Table {
+  columns: Column[];
+  rows: Cell[][];
+  utcOffset: number | null; // seconds, Open-Meteo's utc_offset_seconds for Unix times
+}
+
+type Source = ForecastField | 'temperatureMax' | 'temperatureMin';
+
+const notTemperature = /dew|apparent|feels|soil|water|wet/;
+const extreme = /max|min/;
+
+// Which column feeds each value: the first header matching. Total precipitation is
+// preferred over rain alone when a file has both.
+const matchers: Record<Source, (name: string) => boolean> = {
+  temperatureMax: (name) => /temp/.test(name) && /max/.test(name) && !notTemperature.test(name),
+  temperatureMin: (name) => /temp/.test(name) && /min/.test(name) && !notTemperature.test(name),
+  temperature: (name) => /temp/.test(name) && !extreme.test(name) && !notTemperature.test(name),
+  humidity: (name) => /humid|^rh\b/.test(name) && !extreme.test(name),
+  rainfall: (name) => /precip/.test(name) && !/prob|hour/.test(name),
+  windSpeed: (name) => /wind/.test(name) && !/gust|dir/.test(name) && !extreme.test(name),
+  cloudCover: (name) => /cloud/.test(name) && !/low|mid|high/.test(name) && !extreme.test(name),
+};
+
+const isRain = (name: string) => /rain/.test(name) && !/prob|hour/.test(name);
+
+const isTimeColumn = (name: string) => /^(time|date|datetime|timestamp|day|valid_?time)$/.test(name);
+
+const toColumn = (header: string, unit = ''): Column => {
+  const match = /^(.*?)\s*\(([^)]*)\)\s*$/.exec(header.trim());
+  return match
+    ? { name: match[1].toLowerCase(), unit: match[2].toLowerCase() }
+    : { name: header.trim().toLowerCase(), unit: unit.toLowerCase() };
+};
+
+// Values in the units the impact model takes: °C, %, mm and km/h.
+const toBase = (source: Source, value: number, unit: string): number => {
+  if (source === 'temperature' || source === 'temperatureMax' || source === 'temperatureMin') {
+    return /f$/.test(unit) ? convert(value, '°F', '°C') : value;
+  }
+  if (source === 'windSpeed') {
+    if (unit === 'm/s') return convert(value, 'm/s', 'km/h');
+    if (unit === 'mph' || unit === 'mp/h') return convert(value, 'mph', 'km/h');
+    if (unit === 'kn' || unit === 'kt' || unit === 'knots') return value * 1.852;
+    return value;
+  }
+  if (source === 'rainfall' && (unit === 'inch' || unit === 'in')) return convert(value, 'in', 'mm');
+  return value;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Open-Meteo keeps each variable as an array beside a shared time array.
+const tableFromSeries = (series: Record<string, unknown>, units: unknown, utcOffset: number | null): Table => {
+  const names = Object.keys(series).filter((name) => Array.isArray(series[name]));
+  const length = Math.max(0, ...names.map((name) => (series[name] as unknown[]).length));
+  return {
+    columns: names.map((name) => toColumn(name, isObject(units) && typeof units[name] === 'string' ? units[name] : '')),
+    rows: Array.from({ length }, (_, index) => names.map((name) => ((series[name] as Cell[])[index] ?? null))),
+    utcOffset,
+  };
+};
+
+const tableFromRecords = (records: Record<string, unknown>[]): Table => {
+  const names = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  return {
+    columns: names.map((name) => toColumn(name)),
+    rows: records.map((record) =>
+      names.map((name) => {
+        const value = record[name];
+        return typeof value === 'number' || typeof value === 'string' ? value : null;
+      })
+    ),
+    utcOffset: null,
+  };
+};
+
+const tableFromJson = (data: unknown): Table | null => {
+  // Several locations come back as a list; the first is the farm's.
+  const location = Array.isArray(data) && isObject(data[0]) && (data[0].hourly || data[0].daily) ? data[0] : data;
+  if (isObject(location)) {
+    const utcOffset = typeof location.utc_offset_seconds === 'number' ? location.utc_offset_seconds : null;
+    if (isObject(location.hourly)) return tableFromSeries(location.hourly, location.hourly_units, utcOffset);
+    if (isObject(location.daily)) return tableFromSeries(location.daily, location.daily_units, utcOffset);
+    const list = Object.values(location).find((value) => Array.isArray(value) && isObject(value[0]));
+    return list ? tableFromRecords(list as Record<string, unknown>[]) : null;
+  }
+  return Array.isArray(location) && isObject(location[0]) ? tableFromRecords(location as Record<string, unknown>[]) : null;
+};
+
+// The first block under a header that starts with a time column; Open-Meteo CSVs put the
+// location, with its utc_offset_seconds, above it and a daily block after a blank line.
+const tableFromCsv = (text: string): Table | null => {
+  const lines = parseCsv(text);
+  const start = lines.findIndex((line) => isTimeColumn(toColumn(line[0] ?? '').name));
+  if (start < 0) return null;
+  const end = lines.findIndex((line, index) => index > start && line.every((cell) => cell.trim() === ''));
+  const offsetLine = lines.slice(0, start).findIndex((line) => line.includes('utc_offset_seconds'));
+  const offset = offsetLine < 0 ? NaN : Number(lines[offsetLine + 1]?.[lines[offsetLine].indexOf('utc_offset_seconds')]);
+  return {
+    columns: lines[start].map((header) => toColumn(header)),
+    rows: lines.slice(start + 1, end < 0 ? undefined : end),
+    utcOffset: Number.isFinite(offset) ? offset : null,
+  };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar day of a time cell: ISO text as written, or Unix seconds on the forecast
+// location's clock when the file gives its UTC offset, otherwise on this device's clock.
+const dayOf = (cell: Cell, utcOffset: number | null): string | null => {
+  if (typeof cell === 'number' || (typeof cell === 'string' && /^\d{9,10}$/.test(cell.trim()))) {
+    if (utcOffset !== null) return new Date((Number(cell) + utcOffset) * 1000).toISOString().slice(0, 10);
+    const date = new Date(Number(cell) * 1000);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  const match = /^(\d{4}-\d{2}-\d{2})/.exec(String(cell ?? '').trim());
+  return match ? match[1] : null;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Reads a forecast file's text. Returns the problems found instead of throwing.
+export const parseForecast = (text: string, fileName: string): ParsedForecast => {
+  let table: Table | null;
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    try {
+      table = tableFromJson(JSON.parse(text));
+    } catch {
+      return { days: [], missing: [], skipped: 0, errors: ['The file is not valid JSON.'] };
+    }
+  } else {
+    table = tableFromCsv(text);
+  }
+  if (!table) {
+    return { days: [], missing: [], skipped: 0, errors: ['No table with a time or date column was found in the file.'] };
+  }
+
+  const { columns, rows, utcOffset } = table;
+  const timeIndex = columns.findIndex((column) => isTimeColumn(column.name));
+  if (timeIndex < 0) return { days: [], missing: [], skipped: 0, errors: ['The forecast has no time or date column.'] };
+  const columnFor = (source: Source) => {
+    const index = columns.findIndex((column) => matchers[source](column.name));
+    return index < 0 && source === 'rainfall' ? columns.findIndex((column) => isRain(column.name)) : index;
+  };
+  const sources = (Object.keys(matchers) as Source[])
+    .map((source) => ({ source, index: columnFor(source) }))
+    .filter(({ index }) => index >= 0);
+
+  const byDay = new Map<string, Partial<Record<Source, number[]>>>();
+  let undated = 0;
+  rows.forEach((row) => {
+    const day = dayOf(row[timeIndex], utcOffset);
+    if (!day) {
+      undated++;
+      return;
+    }
+    const values = byDay.get(day) ?? {};
+    sources.forEach(({ source, index }) => {
+      const cell = row[index];
+      if (cell === null || String(cell).trim() === '' || !Number.isFinite(Number(cell))) return;
+      (values[source] ??= []).push(toBase(source, Number(cell), columns[index].unit));
+    });
+    byDay.set(day, values);
+  });
+  if (!byDay.size) {
+    return { days: [], missing: [], skipped: 0, errors: ['No dates could be read. Use ISO dates such as 2025-06-01 or 2025-06-01T06:00.'] };
+  }
+
+  const days = Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, MAX_FORECAST_DAYS)
+    .map(([date, values]) => {
+      const day: ForecastDay = { date };
+      if (values.temperature?.length) {
+        day.temperature = mean(values.temperature);
+      } else if (values.temperatureMax?.length && values.temperatureMin?.length) {
+        day.temperature = (mean(values.temperatureMax) + mean(values.temperatureMin)) / 2;
+      }
+      if (values.humidity?.length) day.humidity = mean(values.humidity);
+      if (values.rainfall?.length) day.rainfall = values.rainfall.reduce((sum, value) => sum + value, 0);
+      if (values.windSpeed?.length) day.windSpeed = mean(values.windSpeed);
+      if (values.cloudCover?.length) day.cloudCover = mean(values.cloudCover);
+      return day;
+    });
+
+  const missing = (Object.keys(forecastFieldLabels) as ForecastField[]).filter(
+    (field) => !days.some((day) => day[field] !== undefined)
+  );
+  const errors = missing.includes('temperature') ? ['The forecast has no air temperature column.'] : [];
+  return { days: errors.length ? [] : days, missing, skipped: undated, errors };
+};
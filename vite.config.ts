@@ -1,15 +1,47 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react({
-    babel: {
-      plugins: [
-        ['@babel/plugin-transform-react-jsx', { runtime: 'automatic' }]
-      ]
-    }
-  })],
+  plugins: [
+    react({
+      babel: {
+        plugins: [
+          ['@babel/plugin-transform-react-jsx', { runtime: 'automatic' }]
+        ]
+      }
+    }),
+    // Ponds often have no signal: precache the whole build (every route is served
+    // by index.html) so the app keeps working offline once it has been opened.
+    VitePWA({
+      registerType: 'autoUpdate',
+      // Icons already match globPatterns below.
+      includeManifestIcons: false,
+      manifest: {
+        name: 'Aquaculture Tools',
+        short_name: 'Aqua Tools',
+        description: 'Comprehensive suite of tools for modern aquaculture management',
+        theme_color: '#1976d2',
+        background_color: '#f5f5f5',
+        display: 'standalone',
+        start_url: '/',
+        scope: '/',
+        icons: [
+          { src: '/icons/pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: '/icons/pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: '/icons/maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        navigateFallback: '/index.html',
+        // The vendor and chart bundles are larger than Workbox's 2 MB default.
+        maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+        cleanupOutdatedCaches: true,
+      },
+    }),
+  ],
   base: '/',
   server: {
     port: 3000,